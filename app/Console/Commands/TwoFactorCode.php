@@ -0,0 +1,53 @@
+<?php
+
+namespace App\Console\Commands;
+
+use App\Models\User;
+use App\Services\Auth\TwoFactorService;
+use Illuminate\Console\Command;
+use Illuminate\Support\Carbon;
+
+class TwoFactorCode extends Command
+{
+    /**
+     * The name and signature of the console command.
+     *
+     * @var string
+     */
+    protected $signature = 'app:two-factor-code {email} {--at= : Time to compute the code for, e.g. "2026-01-01 12:00:00" or a Unix timestamp}';
+
+    /**
+     * The console command description.
+     *
+     * @var string
+     */
+    protected $description = 'Show the two-factor code of a user, for testing sign-ins locally';
+
+    /**
+     * Execute the console command.
+     */
+    public function handle(TwoFactorService $twoFactorService)
+    {
+        if (app()->isProduction()) {
+            $this->error('Two-factor codes cannot be shown in production.');
+            return self::FAILURE;
+        }
+
+        $user = User::where('email', $this->argument('email'))->first();
+        if (!$user || $user->two_factor_secret === null) {
+            $this->error('This user has not set up two-factor authentication.');
+            return self::FAILURE;
+        }
+
+        $at = $this->option('at');
+        $time = match (true) {
+            $at === null => now(),
+            is_numeric($at) => Carbon::createFromTimestamp((int) $at),
+            default => Carbon::parse($at),
+        };
+
+        $this->info($twoFactorService->codeAt($user->two_factor_secret, $time->getTimestamp()));
+
+        return self::SUCCESS;
+    }
+}
@@ -79,7 +79,7 @@ public function validate(): array
             $errors['password'] = 'Password must be at least 8 characters';
         }
 
-        if (!in_array($this->preferredLanguage, ['en', 'de', 'fr'])) {
+        if (!array_key_exists($this->preferredLanguage, config('app.available_locales', ['en' => 'English']))) {
             $errors['preferred_language'] = 'Invalid preferred language';
         }
 
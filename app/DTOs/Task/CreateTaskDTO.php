@@ -15,7 +15,12 @@ public function __construct(
         public readonly string $status,
         public readonly string $priority,
         public readonly ?Carbon $dueDate,
-        public readonly ?int $parentId
+        public readonly ?int $parentId,
+        public readonly ?array $blockedBy = null,
+        public readonly ?string $recurrenceRule = null,
+        public readonly ?int $assigneeId = null,
+        public readonly ?int $projectId = null,
+        public readonly ?array $labelIds = null
     ) {}
 
     /**
@@ -31,7 +36,12 @@ public static function fromRequest(TaskRequest $request): self
             status: $validated['status'],
             priority: $validated['priority'],
             dueDate: isset($validated['due_date']) ? Carbon::parse($validated['due_date']) : null,
-            parentId: $validated['parent_id'] ?? null
+            parentId: $validated['parent_id'] ?? null,
+            blockedBy: isset($validated['blocked_by_ids']) ? array_map('intval', $validated['blocked_by_ids']) : null,
+            recurrenceRule: !empty($validated['recurrence_rule']) ? RecurrenceRuleDTO::fromString($validated['recurrence_rule'])->toRuleString() : null,
+            assigneeId: isset($validated['assignee_id']) ? (int) $validated['assignee_id'] : null,
+            projectId: isset($validated['project_id']) ? (int) $validated['project_id'] : null,
+            labelIds: isset($validated['label_ids']) ? array_map('intval', $validated['label_ids']) : null
         );
     }
 
@@ -46,7 +56,12 @@ public static function fromArray(array $data): self
             status: $data['status'],
             priority: $data['priority'],
             dueDate: isset($data['due_date']) ? Carbon::parse($data['due_date']) : null,
-            parentId: $data['parent_id'] ?? null
+            parentId: $data['parent_id'] ?? null,
+            blockedBy: isset($data['blocked_by_ids']) ? array_map('intval', $data['blocked_by_ids']) : null,
+            recurrenceRule: !empty($data['recurrence_rule']) ? RecurrenceRuleDTO::fromString($data['recurrence_rule'])->toRuleString() : null,
+            assigneeId: isset($data['assignee_id']) ? (int) $data['assignee_id'] : null,
+            projectId: isset($data['project_id']) ? (int) $data['project_id'] : null,
+            labelIds: isset($data['label_ids']) ? array_map('intval', $data['label_ids']) : null
         );
     }
 
@@ -62,7 +77,10 @@ public function toModelData(int $userId): array
             'priority' => $this->priority,
             'due_date' => $this->dueDate,
             'parent_id' => $this->parentId,
+            'recurrence_rule' => $this->recurrenceRule,
             'user_id' => $userId,
+            'assignee_id' => $this->assigneeId,
+            'project_id' => $this->projectId,
         ];
     }
 
@@ -139,6 +157,30 @@ public function isSubtask(): bool
         return $this->parentId !== null;
     }
 
+    /**
+     * Check if the task is created with blocking tasks.
+     */
+    public function hasDependencies(): bool
+    {
+        return !empty($this->blockedBy);
+    }
+
+    /**
+     * Check if the task is created with labels.
+     */
+    public function hasLabels(): bool
+    {
+        return !empty($this->labelIds);
+    }
+
+    /**
+     * Check if the task repeats.
+     */
+    public function isRecurring(): bool
+    {
+        return $this->recurrenceRule !== null;
+    }
+
     /**
      * Check if due date is set.
      */
@@ -0,0 +1,297 @@
+<?php
+
+namespace App\DTOs\Task;
+
+use App\DTOs\BaseDTO;
+use App\Exceptions\InvalidRecurrenceRuleException;
+use Carbon\CarbonImmutable;
+
+/**
+ * The subset of iCalendar RRULE (RFC 5545) supported for recurring tasks:
+ * FREQ, INTERVAL, BYDAY (weekdays, or one nth weekday for monthly rules),
+ * BYMONTHDAY (monthly rules), and COUNT or UNTIL.
+ * Mirrors resources/js/utils/recurrence.ts, which previews the same rules.
+ */
+class RecurrenceRuleDTO extends BaseDTO
+{
+    public const FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+    /**
+     * Weekdays in RRULE order, Monday first.
+     */
+    public const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+    private const MAX_PERIODS = 60;
+
+    /**
+     * @param array<int, string> $byDay
+     */
+    public function __construct(
+        public readonly string $freq,
+        public readonly int $interval = 1,
+        public readonly array $byDay = [],
+        public readonly ?int $nth = null,
+        public readonly ?int $byMonthDay = null,
+        public readonly ?int $count = null,
+        public readonly ?string $until = null
+    ) {}
+
+    /**
+     * Parse an RRULE string, with or without the "RRULE:" prefix.
+     *
+     * @throws InvalidRecurrenceRuleException
+     */
+    public static function fromString(string $rule): self
+    {
+        $errors = self::validate($rule);
+        if (!empty($errors)) {
+            throw new InvalidRecurrenceRuleException($errors[0]);
+        }
+
+        $values = self::parseParts($rule);
+        $byDay = [];
+        $nth = null;
+
+        foreach (array_filter(explode(',', $values['BYDAY'] ?? '')) as $token) {
+            preg_match('/^(-1|[1-4])?(MO|TU|WE|TH|FR|SA|SU)$/', $token, $match);
+            if ($match[1] !== '') {
+                $nth = (int) $match[1];
+            }
+            $byDay[] = $match[2];
+        }
+
+        $until = null;
+        if (isset($values['UNTIL'])) {
+            $until = substr($values['UNTIL'], 0, 4) . '-' . substr($values['UNTIL'], 4, 2) . '-' . substr($values['UNTIL'], 6, 2);
+        }
+
+        return new self(
+            freq: $values['FREQ'],
+            interval: (int) ($values['INTERVAL'] ?? 1),
+            byDay: $byDay,
+            nth: $nth,
+            byMonthDay: isset($values['BYMONTHDAY']) ? (int) $values['BYMONTHDAY'] : null,
+            count: isset($values['COUNT']) ? (int) $values['COUNT'] : null,
+            until: $until
+        );
+    }
+
+    /**
+     * Validate an RRULE string.
+     *
+     * @return array<int, string> Error messages, empty when the rule is supported
+     */
+    public static function validate(string $rule): array
+    {
+        $errors = [];
+        $values = [];
+
+        foreach (array_filter(explode(';', self::stripPrefix($rule))) as $part) {
+            $pair = explode('=', $part, 2);
+            if (count($pair) !== 2 || $pair[0] === '' || $pair[1] === '') {
+                $errors[] = "Invalid part \"{$part}\", use KEY=VALUE";
+                continue;
+            }
+            $values[strtoupper($pair[0])] = strtoupper($pair[1]);
+        }
+
+        $freq = $values['FREQ'] ?? null;
+        if ($freq === null) {
+            $errors[] = 'FREQ is required';
+        } elseif (!in_array($freq, self::FREQUENCIES, true)) {
+            $errors[] = "Unsupported frequency \"{$freq}\"";
+        }
+
+        $byDayCount = 0;
+        $hasNth = false;
+
+        foreach ($values as $key => $value) {
+            switch ($key) {
+                case 'FREQ':
+                    break;
+                case 'INTERVAL':
+                case 'COUNT':
+                    if (!preg_match('/^[1-9]\d*$/', $value)) {
+                        $errors[] = "{$key} must be a positive number";
+                    }
+                    break;
+                case 'BYDAY':
+                    foreach (explode(',', $value) as $token) {
+                        if (!preg_match('/^(-1|[1-4])?(MO|TU|WE|TH|FR|SA|SU)$/', $token, $match)) {
+                            $errors[] = "Invalid day \"{$token}\"";
+                            continue;
+                        }
+                        $byDayCount++;
+                        $hasNth = $hasNth || $match[1] !== '';
+                    }
+                    break;
+                case 'BYMONTHDAY':
+                    if (!preg_match('/^[1-9]\d*$/', $value) || (int) $value > 31) {
+                        $errors[] = 'BYMONTHDAY must be a day between 1 and 31';
+                    }
+                    break;
+                case 'UNTIL':
+                    if (!preg_match('/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/', $value, $match)
+                        || !checkdate((int) $match[2], (int) $match[3], (int) $match[1])) {
+                        $errors[] = 'UNTIL must be a date like 20261231';
+                    }
+                    break;
+                default:
+                    $errors[] = "Unsupported rule part \"{$key}\"";
+            }
+        }
+
+        if (isset($values['COUNT'], $values['UNTIL'])) {
+            $errors[] = 'Use either COUNT or UNTIL, not both';
+        }
+        if ($hasNth && ($freq !== 'MONTHLY' || $byDayCount !== 1)) {
+            $errors[] = 'An nth weekday like 2TU needs a monthly rule with a single day';
+        }
+        if ($byDayCount > 0 && !in_array($freq, ['WEEKLY', 'MONTHLY'], true)) {
+            $errors[] = 'BYDAY is only supported on weekly and monthly rules';
+        }
+        if (isset($values['BYMONTHDAY']) && ($freq !== 'MONTHLY' || $byDayCount > 0)) {
+            $errors[] = 'BYMONTHDAY is only supported on monthly rules without BYDAY';
+        }
+        if ($freq === 'MONTHLY' && $byDayCount > 0 && !$hasNth) {
+            $errors[] = 'Monthly rules need an nth weekday like 2TU or -1FR';
+        }
+
+        return $errors;
+    }
+
+    /**
+     * Write the rule as a normalized RRULE string, leaving out defaults.
+     */
+    public function toRuleString(): string
+    {
+        $parts = ["FREQ={$this->freq}"];
+
+        if ($this->interval > 1) {
+            $parts[] = "INTERVAL={$this->interval}";
+        }
+        if (!empty($this->byDay)) {
+            $days = array_values(array_intersect(self::WEEKDAYS, $this->byDay));
+            $parts[] = 'BYDAY=' . implode(',', array_map(fn ($day) => ($this->nth ?? '') . $day, $days));
+        }
+        if ($this->byMonthDay !== null) {
+            $parts[] = "BYMONTHDAY={$this->byMonthDay}";
+        }
+        if ($this->count !== null) {
+            $parts[] = "COUNT={$this->count}";
+        }
+        if ($this->until !== null) {
+            $parts[] = 'UNTIL=' . str_replace('-', '', $this->until);
+        }
+
+        return implode(';', $parts);
+    }
+
+    /**
+     * Get the date of the occurrence after the given one, or null when the series has ended.
+     *
+     * @param CarbonImmutable $from Date of the current occurrence in the user's timezone
+     * @param int $index Position of the current occurrence in its series, starting at 1
+     */
+    public function nextOccurrence(CarbonImmutable $from, int $index): ?CarbonImmutable
+    {
+        if ($this->count !== null && $index + 1 > $this->count) {
+            return null;
+        }
+
+        $next = $this->nextMatchingDate($from->startOfDay());
+
+        if ($next === null || ($this->until !== null && $next->toDateString() > $this->until)) {
+            return null;
+        }
+
+        return $next;
+    }
+
+    /**
+     * The first day after the given one that matches the rule, ignoring COUNT and UNTIL.
+     * Periods are counted from the given day, so INTERVAL steps from the current occurrence.
+     */
+    private function nextMatchingDate(CarbonImmutable $from): ?CarbonImmutable
+    {
+        switch ($this->freq) {
+            case 'DAILY':
+                return $from->addDays($this->interval);
+
+            case 'WEEKLY':
+                $days = empty($this->byDay) ? [self::WEEKDAYS[$from->dayOfWeekIso - 1]] : $this->byDay;
+                $offsets = array_map(fn ($day) => array_search($day, self::WEEKDAYS, true), $days);
+                sort($offsets);
+
+                $weekStart = $from->startOfWeek(CarbonImmutable::MONDAY);
+                foreach ($offsets as $offset) {
+                    $candidate = $weekStart->addDays($offset);
+                    if ($candidate->greaterThan($from)) {
+                        return $candidate;
+                    }
+                }
+
+                return $weekStart->addWeeks($this->interval)->addDays($offsets[0]);
+
+            case 'MONTHLY':
+                $monthDay = $this->byMonthDay ?? $from->day;
+
+                // Start with the current month in case the first occurrence is before the rule's day
+                for ($period = 0; $period <= self::MAX_PERIODS; $period++) {
+                    $monthStart = $from->startOfMonth()->addMonthsNoOverflow($period * $this->interval);
+                    $candidate = $this->nth !== null
+                        ? $this->nthWeekdayOfMonth($monthStart, $this->byDay[0], $this->nth)
+                        : ($monthDay <= $monthStart->daysInMonth ? $monthStart->addDays($monthDay - 1) : null);
+
+                    if ($candidate !== null && $candidate->greaterThan($from)) {
+                        return $candidate;
+                    }
+                }
+
+                return null;
+
+            case 'YEARLY':
+                for ($period = 1; $period <= self::MAX_PERIODS; $period++) {
+                    $candidate = $from->addYearsNoOverflow($period * $this->interval);
+                    // Feb 29 only occurs in leap years
+                    if ($candidate->format('m-d') === $from->format('m-d')) {
+                        return $candidate;
+                    }
+                }
+
+                return null;
+        }
+
+        return null;
+    }
+
+    private function nthWeekdayOfMonth(CarbonImmutable $monthStart, string $weekday, int $nth): ?CarbonImmutable
+    {
+        $offset = (array_search($weekday, self::WEEKDAYS, true) - ($monthStart->dayOfWeekIso - 1) + 7) % 7;
+        $length = $monthStart->daysInMonth;
+
+        if ($nth === -1) {
+            return $monthStart->addDays($offset + intdiv($length - 1 - $offset, 7) * 7);
+        }
+
+        $day = $offset + ($nth - 1) * 7;
+
+        return $day < $length ? $monthStart->addDays($day) : null;
+    }
+
+    private static function parseParts(string $rule): array
+    {
+        $values = [];
+        foreach (array_filter(explode(';', self::stripPrefix($rule))) as $part) {
+            [$key, $value] = explode('=', $part, 2);
+            $values[strtoupper($key)] = strtoupper($value);
+        }
+
+        return $values;
+    }
+
+    private static function stripPrefix(string $rule): string
+    {
+        return preg_replace('/^RRULE:/i', '', trim($rule));
+    }
+}
@@ -13,7 +13,15 @@ class TaskDTO
     public string $priority;
     public ?string $dueDate;
     public ?int $parentId;
+    public int $sortOrder;
     public int $userId;
+    public ?int $assigneeId;
+    public ?int $projectId;
+    public ?string $taskKey;
+    /** @var array<int, array{id: int, name: string, color: string}> */
+    public array $labels;
+    /** @var array<int, int> */
+    public array $collaboratorIds;
 
     public function __construct(Task $task)
     {
@@ -24,7 +32,13 @@ public function __construct(Task $task)
         $this->priority = $task->priority;
         $this->dueDate = $task->due_date?->toISOString();
         $this->parentId = $task->parent_id;
+        $this->sortOrder = (int) $task->sort_order;
         $this->userId = $task->user_id;
+        $this->assigneeId = $task->assignee_id;
+        $this->projectId = $task->project_id;
+        $this->taskKey = $task->getTaskKey();
+        $this->labels = $task->labels->map->only(['id', 'name', 'color'])->values()->all();
+        $this->collaboratorIds = $task->collaboratorIds();
     }
 
     public function toArray(): array
@@ -37,7 +51,13 @@ public function toArray(): array
             'priority' => $this->priority,
             'due_date' => $this->dueDate,
             'parent_id' => $this->parentId,
+            'sort_order' => $this->sortOrder,
             'user_id' => $this->userId,
+            'assignee_id' => $this->assigneeId,
+            'project_id' => $this->projectId,
+            'task_key' => $this->taskKey,
+            'labels' => $this->labels,
+            'collaborator_ids' => $this->collaboratorIds,
         ];
     }
 } 
\ No newline at end of file
@@ -9,6 +9,12 @@
 
 class TaskFilterDTO extends BaseDTO
 {
+    /**
+     * Whether tasks need any or all of the filtered labels.
+     */
+    public const LABELS_ANY = 'any';
+    public const LABELS_ALL = 'all';
+
     public function __construct(
         public readonly ?string $status = null,
         public readonly ?string $priority = null,
@@ -26,7 +32,11 @@ public function __construct(
         public readonly ?string $datePreset = null,
         public readonly string $hierarchyLevel = 'all',
         public readonly bool $localeSearch = true, // Whether to search only in current locale
-        public readonly ?string $searchLocale = null // Specific locale to search in
+        public readonly ?string $searchLocale = null, // Specific locale to search in
+        public readonly bool $assignedToMe = false,
+        public readonly ?int $projectId = null,
+        public readonly ?array $labelIds = null,
+        public readonly string $labelMatch = self::LABELS_ANY
     ) {}
 
     /**
@@ -55,7 +65,11 @@ public static function fromRequest(TaskFilterRequest $request): self
             datePreset: $request->input('date_preset'),
             hierarchyLevel: $filters['hierarchy_level'] ?? 'all',
             localeSearch: $request->boolean('locale_search', true),
-            searchLocale: $request->input('search_locale')
+            searchLocale: $request->input('search_locale'),
+            assignedToMe: $filters['assigned_to_me'] ?? false,
+            projectId: isset($filters['project_id']) ? (int) $filters['project_id'] : null,
+            labelIds: $filters['label_ids'] ?? null,
+            labelMatch: $filters['label_match'] ?? self::LABELS_ANY
         );
     }
 
@@ -81,7 +95,11 @@ public static function fromArray(array $data): self
             datePreset: $data['date_preset'] ?? null,
             hierarchyLevel: $data['hierarchy_level'] ?? 'all',
             localeSearch: $data['locale_search'] ?? true,
-            searchLocale: $data['search_locale'] ?? null
+            searchLocale: $data['search_locale'] ?? null,
+            assignedToMe: $data['assigned_to_me'] ?? false,
+            projectId: isset($data['project_id']) ? (int) $data['project_id'] : null,
+            labelIds: isset($data['label_ids']) ? array_map('intval', $data['label_ids']) : null,
+            labelMatch: $data['label_match'] ?? self::LABELS_ANY
         );
     }
 
@@ -103,6 +121,10 @@ public function getFiltersArray(): array
             'hierarchy_level' => $this->hierarchyLevel,
             'locale_search' => $this->localeSearch,
             'search_locale' => $this->searchLocale,
+            'assigned_to_me' => $this->assignedToMe,
+            'project_id' => $this->projectId,
+            'label_ids' => $this->labelIds,
+            'label_match' => $this->labelMatch,
         ];
     }
 
@@ -179,7 +201,7 @@ public function validate(): array
         }
 
         // Validate sorting
-        $validSortFields = ['created_at', 'updated_at', 'due_date', 'priority', 'status', 'name'];
+        $validSortFields = ['created_at', 'updated_at', 'due_date', 'priority', 'status', 'name', 'sort_order'];
         if (!in_array($this->sortBy, $validSortFields)) {
             $errors['sort_by'] = 'Invalid sort field. Valid options are: ' . implode(', ', $validSortFields);
         }
@@ -194,6 +216,11 @@ public function validate(): array
             $errors['hierarchy_level'] = 'Invalid hierarchy level. Valid options are: ' . implode(', ', $validHierarchyLevels);
         }
 
+        // Validate label matching
+        if (!in_array($this->labelMatch, [self::LABELS_ANY, self::LABELS_ALL])) {
+            $errors['label_match'] = 'Label match must be any or all';
+        }
+
         return $errors;
     }
 
@@ -218,7 +245,10 @@ public function hasFilters(): bool
                $this->search !== null ||
                !$this->includeCompleted ||
                $this->includeDeleted ||
-               $this->hierarchyLevel !== 'all';
+               $this->hierarchyLevel !== 'all' ||
+               $this->assignedToMe ||
+               $this->projectId !== null ||
+               !empty($this->labelIds);
     }
 
     /**
@@ -9,6 +9,12 @@
 
 class UpdateTaskDTO extends BaseDTO
 {
+    /**
+     * Which occurrences of a recurring series an update applies to.
+     */
+    public const SCOPE_THIS = 'this';
+    public const SCOPE_FUTURE = 'future';
+
     public function __construct(
         public readonly ?array $name = null,
         public readonly ?array $description = null,
@@ -17,7 +23,16 @@ public function __construct(
         public readonly ?Carbon $dueDate = null,
         public readonly ?int $parentId = null,
         public readonly bool $clearDueDate = false,
-        public readonly bool $clearParent = false
+        public readonly bool $clearParent = false,
+        public readonly ?array $blockedBy = null,
+        public readonly ?string $recurrenceRule = null,
+        public readonly bool $clearRecurrence = false,
+        public readonly string $recurrenceScope = self::SCOPE_THIS,
+        public readonly ?int $assigneeId = null,
+        public readonly bool $clearAssignee = false,
+        public readonly ?int $projectId = null,
+        public readonly bool $clearProject = false,
+        public readonly ?array $labelIds = null
     ) {}
 
     /**
@@ -35,7 +50,16 @@ public static function fromRequest(TaskRequest $request): self
             dueDate: isset($validated['due_date']) ? Carbon::parse($validated['due_date']) : null,
             parentId: $validated['parent_id'] ?? null,
             clearDueDate: array_key_exists('due_date', $validated) && $validated['due_date'] === null,
-            clearParent: array_key_exists('parent_id', $validated) && $validated['parent_id'] === null
+            clearParent: array_key_exists('parent_id', $validated) && $validated['parent_id'] === null,
+            blockedBy: array_key_exists('blocked_by_ids', $validated) ? array_map('intval', $validated['blocked_by_ids'] ?? []) : null,
+            recurrenceRule: !empty($validated['recurrence_rule']) ? RecurrenceRuleDTO::fromString($validated['recurrence_rule'])->toRuleString() : null,
+            clearRecurrence: array_key_exists('recurrence_rule', $validated) && empty($validated['recurrence_rule']),
+            recurrenceScope: $validated['recurrence_scope'] ?? self::SCOPE_THIS,
+            assigneeId: isset($validated['assignee_id']) ? (int) $validated['assignee_id'] : null,
+            clearAssignee: array_key_exists('assignee_id', $validated) && $validated['assignee_id'] === null,
+            projectId: isset($validated['project_id']) ? (int) $validated['project_id'] : null,
+            clearProject: array_key_exists('project_id', $validated) && $validated['project_id'] === null,
+            labelIds: array_key_exists('label_ids', $validated) ? array_map('intval', $validated['label_ids'] ?? []) : null
         );
     }
 
@@ -52,7 +76,16 @@ public static function fromArray(array $data): self
             dueDate: isset($data['due_date']) ? Carbon::parse($data['due_date']) : null,
             parentId: $data['parent_id'] ?? null,
             clearDueDate: array_key_exists('due_date', $data) && $data['due_date'] === null,
-            clearParent: array_key_exists('parent_id', $data) && $data['parent_id'] === null
+            clearParent: array_key_exists('parent_id', $data) && $data['parent_id'] === null,
+            blockedBy: array_key_exists('blocked_by_ids', $data) ? array_map('intval', $data['blocked_by_ids'] ?? []) : null,
+            recurrenceRule: !empty($data['recurrence_rule']) ? RecurrenceRuleDTO::fromString($data['recurrence_rule'])->toRuleString() : null,
+            clearRecurrence: array_key_exists('recurrence_rule', $data) && empty($data['recurrence_rule']),
+            recurrenceScope: $data['recurrence_scope'] ?? self::SCOPE_THIS,
+            assigneeId: isset($data['assignee_id']) ? (int) $data['assignee_id'] : null,
+            clearAssignee: array_key_exists('assignee_id', $data) && $data['assignee_id'] === null,
+            projectId: isset($data['project_id']) ? (int) $data['project_id'] : null,
+            clearProject: array_key_exists('project_id', $data) && $data['project_id'] === null,
+            labelIds: array_key_exists('label_ids', $data) ? array_map('intval', $data['label_ids'] ?? []) : null
         );
     }
 
@@ -87,6 +120,18 @@ public function toModelData(): array
             $data['parent_id'] = $this->parentId;
         }
 
+        if ($this->isRecurrenceChanging()) {
+            $data['recurrence_rule'] = $this->recurrenceRule;
+        }
+
+        if ($this->isAssigneeChanging()) {
+            $data['assignee_id'] = $this->assigneeId;
+        }
+
+        if ($this->isProjectChanging()) {
+            $data['project_id'] = $this->projectId;
+        }
+
         return $data;
     }
 
@@ -149,7 +194,12 @@ public function hasUpdates(): bool
                $this->dueDate !== null ||
                $this->parentId !== null ||
                $this->clearDueDate ||
-               $this->clearParent;
+               $this->clearParent ||
+               $this->blockedBy !== null ||
+               $this->isRecurrenceChanging() ||
+               $this->isAssigneeChanging() ||
+               $this->isProjectChanging() ||
+               $this->isLabelsChanging();
     }
 
     /**
@@ -165,6 +215,11 @@ public function getUpdatedFields(): array
         if ($this->priority !== null) $fields[] = 'priority';
         if ($this->dueDate !== null || $this->clearDueDate) $fields[] = 'due_date';
         if ($this->parentId !== null || $this->clearParent) $fields[] = 'parent_id';
+        if ($this->blockedBy !== null) $fields[] = 'blocked_by_ids';
+        if ($this->isRecurrenceChanging()) $fields[] = 'recurrence_rule';
+        if ($this->isAssigneeChanging()) $fields[] = 'assignee_id';
+        if ($this->isProjectChanging()) $fields[] = 'project_id';
+        if ($this->isLabelsChanging()) $fields[] = 'label_ids';
 
         return $fields;
     }
@@ -201,6 +256,54 @@ public function isBeingCompleted(): bool
         return $this->status === Task::STATUS_COMPLETED;
     }
 
+    /**
+     * Check if the blocking tasks are being replaced.
+     */
+    public function isDependenciesChanging(): bool
+    {
+        return $this->blockedBy !== null;
+    }
+
+    /**
+     * Check if the recurrence rule is being set or removed.
+     */
+    public function isRecurrenceChanging(): bool
+    {
+        return $this->recurrenceRule !== null || $this->clearRecurrence;
+    }
+
+    /**
+     * Check if the update should also change the later occurrences of a recurring series.
+     */
+    public function appliesToFutureOccurrences(): bool
+    {
+        return $this->recurrenceScope === self::SCOPE_FUTURE;
+    }
+
+    /**
+     * Check if the task is being assigned to someone else or unassigned.
+     */
+    public function isAssigneeChanging(): bool
+    {
+        return $this->assigneeId !== null || $this->clearAssignee;
+    }
+
+    /**
+     * Check if the task is being moved to another project or out of its project.
+     */
+    public function isProjectChanging(): bool
+    {
+        return $this->projectId !== null || $this->clearProject;
+    }
+
+    /**
+     * Check if the labels of the task are being replaced.
+     */
+    public function isLabelsChanging(): bool
+    {
+        return $this->labelIds !== null;
+    }
+
     /**
      * Check if parent is being changed.
      */
@@ -0,0 +1,31 @@
+<?php
+
+namespace App\Exceptions;
+
+/**
+ * Exception thrown when a comment does not exist or belongs to someone else
+ */
+class CommentNotFoundException extends DomainException
+{
+    public function __construct(int $commentId = null)
+    {
+        $message = $commentId
+            ? "Comment with ID '{$commentId}' not found"
+            : 'Comment not found';
+
+        parent::__construct($message);
+    }
+
+    public function getContext(): array
+    {
+        return [
+            'type' => 'comment_access_error',
+            'reason' => 'not_found',
+        ];
+    }
+
+    public function getHttpStatusCode(): int
+    {
+        return 404; // Not Found
+    }
+}
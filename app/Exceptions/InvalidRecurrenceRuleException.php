@@ -0,0 +1,27 @@
+<?php
+
+namespace App\Exceptions;
+
+/**
+ * Exception thrown when a recurrence rule is malformed or uses unsupported RRULE parts
+ */
+class InvalidRecurrenceRuleException extends DomainException
+{
+    public function __construct(string $message = 'Invalid recurrence rule')
+    {
+        parent::__construct($message);
+    }
+
+    public function getContext(): array
+    {
+        return [
+            'type' => 'task_recurrence_error',
+            'reason' => 'invalid_rule',
+        ];
+    }
+
+    public function getHttpStatusCode(): int
+    {
+        return 422; // Unprocessable Entity
+    }
+}
@@ -0,0 +1,27 @@
+<?php
+
+namespace App\Exceptions;
+
+/**
+ * Exception thrown when a task dependency is invalid (e.g., a task blocking itself, a dependency cycle)
+ */
+class InvalidTaskDependencyException extends DomainException
+{
+    public function __construct(string $message = 'Invalid task dependency')
+    {
+        parent::__construct($message);
+    }
+
+    public function getContext(): array
+    {
+        return [
+            'type' => 'task_dependency_error',
+            'reason' => 'invalid_dependency',
+        ];
+    }
+
+    public function getHttpStatusCode(): int
+    {
+        return 422; // Unprocessable Entity
+    }
+}
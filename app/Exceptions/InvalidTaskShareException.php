@@ -0,0 +1,27 @@
+<?php
+
+namespace App\Exceptions;
+
+/**
+ * Exception thrown when a task cannot be shared or assigned (e.g., sharing a subtask, assigning an outsider)
+ */
+class InvalidTaskShareException extends DomainException
+{
+    public function __construct(string $message = 'Invalid task share')
+    {
+        parent::__construct($message);
+    }
+
+    public function getContext(): array
+    {
+        return [
+            'type' => 'task_share_error',
+            'reason' => 'invalid_share',
+        ];
+    }
+
+    public function getHttpStatusCode(): int
+    {
+        return 422; // Unprocessable Entity
+    }
+}
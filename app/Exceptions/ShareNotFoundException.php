@@ -0,0 +1,31 @@
+<?php
+
+namespace App\Exceptions;
+
+/**
+ * Exception thrown when a task share does not exist or cannot be changed by the user
+ */
+class ShareNotFoundException extends DomainException
+{
+    public function __construct(int $shareId = null)
+    {
+        $message = $shareId
+            ? "Share with ID '{$shareId}' not found"
+            : 'Share not found';
+
+        parent::__construct($message);
+    }
+
+    public function getContext(): array
+    {
+        return [
+            'type' => 'task_share_error',
+            'reason' => 'not_found',
+        ];
+    }
+
+    public function getHttpStatusCode(): int
+    {
+        return 404; // Not Found
+    }
+}
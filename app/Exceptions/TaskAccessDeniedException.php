@@ -0,0 +1,27 @@
+<?php
+
+namespace App\Exceptions;
+
+/**
+ * Exception thrown when a collaborator who can only view a shared task tries to change it
+ */
+class TaskAccessDeniedException extends DomainException
+{
+    public function __construct(string $message = 'You can view this task but not change it.')
+    {
+        parent::__construct($message);
+    }
+
+    public function getContext(): array
+    {
+        return [
+            'type' => 'task_access_error',
+            'reason' => 'read_only',
+        ];
+    }
+
+    public function getHttpStatusCode(): int
+    {
+        return 403; // Forbidden
+    }
+}
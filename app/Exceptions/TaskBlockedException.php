@@ -0,0 +1,33 @@
+<?php
+
+namespace App\Exceptions;
+
+/**
+ * Exception thrown when a blocked task is moved to a status its unfinished blockers forbid
+ */
+class TaskBlockedException extends DomainException
+{
+    /**
+     * @param array<int, int> $blockerIds
+     */
+    public function __construct(
+        string $message = 'Task is blocked by unfinished tasks',
+        private array $blockerIds = []
+    ) {
+        parent::__construct($message);
+    }
+
+    public function getContext(): array
+    {
+        return [
+            'type' => 'task_dependency_error',
+            'reason' => 'task_blocked',
+            'blocked_by' => $this->blockerIds,
+        ];
+    }
+
+    public function getHttpStatusCode(): int
+    {
+        return 422; // Unprocessable Entity
+    }
+}
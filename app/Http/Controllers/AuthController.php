@@ -4,16 +4,39 @@
 
 use App\DTOs\Auth\LoginUserDTO;
 use App\DTOs\Auth\RegisterUserDTO;
+use App\Http\Requests\ForgotPasswordRequest;
 use App\Http\Requests\LoginRequest;
 use App\Http\Requests\RegisterRequest;
+use App\Http\Requests\ResetPasswordRequest;
+use App\Http\Requests\TwoFactorChallengeRequest;
+use App\Models\User;
 use App\Services\Auth\AuthService;
+use App\Services\Auth\SessionService;
+use App\Services\Auth\TwoFactorService;
+use App\Services\LoggingService;
+use Illuminate\Auth\Events\PasswordReset;
+use Illuminate\Auth\Events\Registered;
+use Illuminate\Auth\Events\Verified;
 use Illuminate\Http\JsonResponse;
+use Illuminate\Http\RedirectResponse;
 use Illuminate\Http\Request;
+use Illuminate\Support\Facades\Auth;
+use Illuminate\Support\Facades\Password;
+use Illuminate\Support\Str;
 use Illuminate\Validation\ValidationException;
 
 class AuthController extends ApiController
 {
-    public function __construct(private AuthService $authService) {}
+    /**
+     * Session key of a sign-in that is waiting for its two-factor code.
+     */
+    private const PENDING_TWO_FACTOR_KEY = 'two_factor.login';
+
+    public function __construct(
+        private AuthService $authService,
+        private SessionService $sessionService,
+        private TwoFactorService $twoFactorService
+    ) {}
 
     /**
      * Register a new user for SPA.
@@ -31,6 +54,9 @@ public function register(RegisterRequest $request): JsonResponse
                 'timezone' => $request->timezone ?? 'UTC',
             ]);
             
+            // Sends the email verification link
+            event(new Registered($user));
+
             // Log the user in immediately
             auth()->login($user);
             
@@ -46,20 +72,39 @@ public function register(RegisterRequest $request): JsonResponse
     /**
      * Authenticate user for SPA.
      * For SPAs, we use session-based authentication, not tokens.
+     * Users with two-factor authentication are only signed in once they
+     * have entered their code, unless this device has been remembered.
      */
     public function login(LoginRequest $request): JsonResponse
     {
         try {
             // Validate credentials manually for SPA authentication
             $credentials = $request->only('email', 'password');
+            $user = Auth::getProvider()->retrieveByCredentials($credentials);
             
-            if (!auth()->attempt($credentials, $request->boolean('remember'))) {
+            if (!$user || !Auth::getProvider()->validateCredentials($user, $credentials)) {
                 return $this->error('The provided credentials are incorrect.', 422, [
                     'email' => ['The provided credentials are incorrect.']
                 ]);
             }
-            
-            $user = auth()->user();
+
+            if (
+                $this->twoFactorService->isEnabled($user)
+                && !$this->twoFactorService->isRememberedDevice($user, $request->cookie(TwoFactorService::REMEMBER_COOKIE))
+            ) {
+                $request->session()->put(self::PENDING_TWO_FACTOR_KEY, [
+                    'user_id' => $user->id,
+                    'remember' => $request->boolean('remember'),
+                    'expires_at' => now()->addSeconds((int) config('auth.two_factor.challenge_timeout', 300))->getTimestamp(),
+                ]);
+
+                return $this->success([
+                    'two_factor_required' => true,
+                    'message' => 'Enter the code from your authenticator app.'
+                ]);
+            }
+
+            auth()->login($user, $request->boolean('remember'));
             
             return $this->success([
                 'user' => $user->toArray(),
@@ -70,6 +115,64 @@ public function login(LoginRequest $request): JsonResponse
         }
     }
 
+    /**
+     * Finish a sign-in with a code from the authenticator app or a recovery code.
+     */
+    public function twoFactorChallenge(TwoFactorChallengeRequest $request): JsonResponse
+    {
+        $pending = $request->session()->get(self::PENDING_TWO_FACTOR_KEY);
+        $user = $pending && $pending['expires_at'] > now()->getTimestamp()
+            ? User::find($pending['user_id'])
+            : null;
+
+        if (!$user || !$this->twoFactorService->isEnabled($user)) {
+            $request->session()->forget(self::PENDING_TWO_FACTOR_KEY);
+
+            // Reported on the email field, as the sign-in has to start over
+            return $this->error('Your sign-in has expired. Please sign in again.', 422, [
+                'email' => ['Your sign-in has expired. Please sign in again.']
+            ]);
+        }
+
+        $field = $request->filled('recovery_code') ? 'recovery_code' : 'code';
+        $valid = $field === 'recovery_code'
+            ? $this->twoFactorService->useRecoveryCode($user, $request->recovery_code)
+            : $this->twoFactorService->verifyCode($user, $request->code);
+
+        if (!$valid) {
+            LoggingService::logSecurityEvent('two_factor_failed', [
+                'user_id' => $user->id,
+                'method' => $field,
+            ]);
+
+            $message = $field === 'recovery_code'
+                ? 'The recovery code is invalid or has already been used.'
+                : 'The code is invalid or has expired.';
+
+            return $this->error($message, 422, [
+                $field => [$message]
+            ]);
+        }
+
+        $request->session()->forget(self::PENDING_TWO_FACTOR_KEY);
+        auth()->login($user, $pending['remember']);
+
+        $response = $this->success([
+            'user' => $user->toArray(),
+            'message' => 'Login successful'
+        ]);
+
+        if ($request->boolean('remember_device')) {
+            $response->withCookie(cookie(
+                TwoFactorService::REMEMBER_COOKIE,
+                $this->twoFactorService->rememberDeviceToken($user),
+                $this->twoFactorService->rememberDays() * 24 * 60
+            ));
+        }
+
+        return $response;
+    }
+
     /**
      * Logout user from SPA session.
      */
@@ -83,10 +186,15 @@ public function logout(Request $request): JsonResponse
     }
 
     /**
-     * Logout from all devices (for SPA, this is the same as regular logout).
+     * Logout from all devices: ends the other sessions, revokes the API tokens
+     * and then signs out of the current session.
      */
     public function logoutAll(Request $request): JsonResponse
     {
+        $user = $request->user();
+        $this->sessionService->revokeOtherSessions($user, $request->session()->getId());
+        $user->tokens()->delete();
+
         auth()->logout();
         $request->session()->invalidate();
         $request->session()->regenerateToken();
@@ -118,4 +226,113 @@ public function me(Request $request): JsonResponse
             'user' => $user->toArray(),
         ]);
     }
+
+    /**
+     * Email a password reset link.
+     * The response is the same whether or not the address has an account, so
+     * the endpoint cannot be used to find out which addresses are registered.
+     */
+    public function forgotPassword(ForgotPasswordRequest $request): JsonResponse
+    {
+        $status = Password::sendResetLink($request->only('email'));
+
+        if ($status === Password::RESET_THROTTLED) {
+            return $this->error(__($status), 422, [
+                'email' => [__($status)]
+            ]);
+        }
+
+        return $this->success([
+            'message' => 'If an account exists for this email address, a password reset link has been sent.'
+        ]);
+    }
+
+    /**
+     * Reset the password with the token from the reset link.
+     */
+    public function resetPassword(ResetPasswordRequest $request): JsonResponse
+    {
+        $status = Password::reset(
+            $request->only('email', 'password', 'password_confirmation', 'token'),
+            function (User $user, string $password) {
+                $user->forceFill([
+                    'password' => $password,
+                    'remember_token' => Str::random(60),
+                ])->save();
+
+                event(new PasswordReset($user));
+            }
+        );
+
+        if ($status !== Password::PASSWORD_RESET) {
+            // An unknown address is reported as an invalid link, like an expired token
+            $message = __(Password::INVALID_TOKEN);
+
+            return $this->error($message, 422, [
+                'token' => [$message]
+            ]);
+        }
+
+        return $this->success(['message' => __($status)]);
+    }
+
+    /**
+     * Send a new email verification link to the authenticated user.
+     */
+    public function sendVerificationEmail(Request $request): JsonResponse
+    {
+        $user = $request->user();
+
+        if ($user->hasVerifiedEmail()) {
+            return $this->success(['message' => 'Your email address is already verified.']);
+        }
+
+        $user->sendEmailVerificationNotification();
+
+        return $this->success(['message' => 'A new verification link has been sent to your email address.']);
+    }
+
+    /**
+     * Verify the email address from the signed link in the verification email.
+     * The link is opened from a mail client without the SPA session, so the
+     * user is identified by the signed id and hash instead, then sent back
+     * to the SPA.
+     */
+    public function verifyEmail(Request $request, int $id, string $hash): RedirectResponse
+    {
+        $user = User::find($id);
+
+        if (!$user || !hash_equals(sha1($user->getEmailForVerification()), $hash)) {
+            return redirect('/?verified=0');
+        }
+
+        if (!$user->hasVerifiedEmail() && $user->markEmailAsVerified()) {
+            event(new Verified($user));
+        }
+
+        return redirect('/?verified=1');
+    }
+
+    /**
+     * Issue a short-lived Sanctum token for the WebSocket server.
+     * The SPA session cookie is not available to the Ratchet server, so the
+     * client authenticates its socket with this token instead.
+     */
+    public function websocketToken(Request $request): JsonResponse
+    {
+        $user = $request->user();
+
+        // Only keep one WebSocket token per user
+        $user->tokens()->where('name', 'websocket')->delete();
+
+        $expiresAt = now()->addMinutes((int) config('services.websocket.token_ttl', 60));
+        $token = $user->createToken('websocket', ['websocket'], $expiresAt)->plainTextToken;
+
+        return $this->success([
+            'token' => $token,
+            'user_id' => $user->id,
+            'url' => config('services.websocket.url'),
+            'expires_at' => $expiresAt->toISOString(),
+        ]);
+    }
 }
\ No newline at end of file
@@ -0,0 +1,95 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Models\Label;
+use App\Services\OptimizedTaskQueryService;
+use App\Services\TaskCacheService;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Validation\Rule;
+
+class LabelController extends ApiController
+{
+    public function __construct(
+        private TaskCacheService $cacheService,
+        private OptimizedTaskQueryService $optimizedQueryService
+    ) {}
+
+    /**
+     * List the authenticated user's labels.
+     */
+    public function index(Request $request): JsonResponse
+    {
+        return $this->success($request->user()->labels()->withCount('tasks')->get());
+    }
+
+    /**
+     * Create a label.
+     */
+    public function store(Request $request): JsonResponse
+    {
+        $validated = $this->validateLabel($request);
+
+        $label = $request->user()->labels()->create($validated);
+
+        return $this->success($label->loadCount('tasks'), 201);
+    }
+
+    /**
+     * Rename or recolor a label.
+     */
+    public function update(Request $request, int $id): JsonResponse
+    {
+        $label = $request->user()->labels()->findOrFail($id);
+
+        $label->update($this->validateLabel($request, $label));
+
+        // Tasks show the name and color of their labels
+        if ($label->wasChanged()) {
+            $this->clearTaskCaches($label);
+        }
+
+        return $this->success($label->loadCount('tasks'));
+    }
+
+    /**
+     * Delete a label. It is removed from its tasks.
+     */
+    public function destroy(Request $request, int $id): JsonResponse
+    {
+        $label = $request->user()->labels()->findOrFail($id);
+
+        $label->delete();
+        $this->clearTaskCaches($label);
+
+        return $this->success(null, 204);
+    }
+
+    /**
+     * Validate a new label, or the changed fields of an existing one.
+     */
+    private function validateLabel(Request $request, ?Label $label = null): array
+    {
+        $required = $label ? 'sometimes' : 'required';
+
+        return $request->validate([
+            'name' => [
+                $required,
+                'string',
+                'max:50',
+                Rule::unique('labels')->where('user_id', $request->user()->id)->ignore($label?->id),
+            ],
+            'color' => [$required, 'string', 'regex:/^#[0-9a-fA-F]{6}$/'],
+        ], [
+            'name.unique' => 'You already have a label with this name.',
+            'color.regex' => 'The color must be a hex color such as #3b82f6.',
+        ]);
+    }
+
+    private function clearTaskCaches(Label $label): void
+    {
+        $this->cacheService->clearUserTasksCache($label->user_id);
+        $this->optimizedQueryService->invalidateUserQueryCache($label->user_id);
+    }
+}
@@ -14,9 +14,9 @@
 class LocaleController extends ApiController
 {
     /**
-     * Supported locales
+     * Supported locales, from the app.available_locales config
      */
-    protected array $supportedLocales = ['en', 'de', 'fr'];
+    protected array $supportedLocales;
 
     /**
      * Locale cache service
@@ -34,6 +34,7 @@ public function __construct(
     ) {
         $this->cacheService = $cacheService;
         $this->performanceMonitor = $performanceMonitor;
+        $this->supportedLocales = array_keys(config('app.available_locales', ['en' => 'English']));
     }
 
     /**
@@ -44,13 +45,20 @@ public function updatePreference(Request $request): JsonResponse
         try {
             $request->validate([
                 'locale' => ['required', 'string', Rule::in($this->supportedLocales)],
+                'fallback_locales' => ['sometimes', 'array'],
+                'fallback_locales.*' => ['string', 'distinct', Rule::in($this->supportedLocales)],
             ]);
 
             $locale = $request->input('locale');
             $user = $request->user();
 
-            // Update user's preferred language
-            $user->update(['preferred_language' => $locale]);
+            // Update user's preferred language and, when given, the locales to fall back to
+            $user->update(array_filter([
+                'preferred_language' => $locale,
+                'fallback_locales' => $request->has('fallback_locales')
+                    ? array_values($request->input('fallback_locales', []))
+                    : null,
+            ], fn($value) => $value !== null));
 
             // Cache the user's locale preference
             $this->cacheService->cacheUserLocale($user->id, $locale);
@@ -102,10 +110,8 @@ public function getCurrentLocale(): JsonResponse
             return $this->success([
                 'locale' => App::getLocale(),
                 'user_preference' => $userPreference,
-                'available_locales' => array_combine(
-                    $this->supportedLocales,
-                    array_map(fn($locale) => ucfirst($locale), $this->supportedLocales)
-                ),
+                'available_locales' => config('app.available_locales', ['en' => 'English']),
+                'rtl_locales' => array_values(array_intersect(config('app.rtl_locales', []), $this->supportedLocales)),
                 'cache_metrics' => $this->cacheService->getCacheMetrics()
             ]);
         } catch (\Exception $e) {
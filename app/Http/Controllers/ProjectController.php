@@ -0,0 +1,110 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Models\Project;
+use App\Services\OptimizedTaskQueryService;
+use App\Services\TaskCacheService;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Validation\Rule;
+
+class ProjectController extends ApiController
+{
+    public function __construct(
+        private TaskCacheService $cacheService,
+        private OptimizedTaskQueryService $optimizedQueryService
+    ) {}
+
+    /**
+     * List the authenticated user's projects, archived ones included.
+     */
+    public function index(Request $request): JsonResponse
+    {
+        return $this->success($request->user()->projects()->withCount('tasks')->get());
+    }
+
+    /**
+     * Create a project.
+     */
+    public function store(Request $request): JsonResponse
+    {
+        $validated = $this->validateProject($request);
+
+        $project = $request->user()->projects()->create($validated);
+
+        return $this->success($project->loadCount('tasks'), 201);
+    }
+
+    /**
+     * Change a project, or archive and restore it.
+     */
+    public function update(Request $request, int $id): JsonResponse
+    {
+        $project = $request->user()->projects()->findOrFail($id);
+        $validated = $this->validateProject($request, $project);
+
+        if (array_key_exists('archived', $validated)) {
+            $validated['archived_at'] = $validated['archived'] ? ($project->archived_at ?? now()) : null;
+            unset($validated['archived']);
+        }
+
+        $project->update($validated);
+
+        // A new key changes the keys of all tasks in the project
+        if ($project->wasChanged('key')) {
+            $this->clearTaskCaches($project);
+        }
+
+        return $this->success($project->loadCount('tasks'));
+    }
+
+    /**
+     * Delete a project. Its tasks are kept and no longer belong to a project.
+     */
+    public function destroy(Request $request, int $id): JsonResponse
+    {
+        $project = $request->user()->projects()->findOrFail($id);
+
+        DB::transaction(function () use ($project) {
+            $project->tasks()->withTrashed()->update(['project_id' => null, 'task_number' => null]);
+            $project->delete();
+        });
+
+        $this->clearTaskCaches($project);
+
+        return $this->success(null, 204);
+    }
+
+    /**
+     * Validate a new project, or the changed fields of an existing one.
+     */
+    private function validateProject(Request $request, ?Project $project = null): array
+    {
+        $required = $project ? 'sometimes' : 'required';
+
+        return $request->validate([
+            'name' => [$required, 'string', 'max:100'],
+            'key' => [
+                $required,
+                'string',
+                'regex:' . Project::KEY_PATTERN,
+                Rule::unique('projects')->where('user_id', $request->user()->id)->ignore($project?->id),
+            ],
+            'color' => [$required, 'string', 'regex:/^#[0-9a-fA-F]{6}$/'],
+            'description' => 'sometimes|nullable|string|max:1000',
+            'archived' => $project ? 'sometimes|boolean' : 'prohibited',
+        ], [
+            'key.regex' => 'The key must start with a letter and have 2 to 10 uppercase letters or digits.',
+            'key.unique' => 'You already have a project with this key.',
+            'color.regex' => 'The color must be a hex color such as #3b82f6.',
+        ]);
+    }
+
+    private function clearTaskCaches(Project $project): void
+    {
+        $this->cacheService->clearUserTasksCache($project->user_id);
+        $this->optimizedQueryService->invalidateUserQueryCache($project->user_id);
+    }
+}
@@ -0,0 +1,65 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Validation\Rule;
+
+class SavedViewController extends ApiController
+{
+    /**
+     * Maximum number of saved views per user.
+     */
+    private const MAX_VIEWS = 25;
+
+    /**
+     * List the authenticated user's saved views.
+     */
+    public function index(Request $request): JsonResponse
+    {
+        return $this->success($request->user()->savedViews()->get());
+    }
+
+    /**
+     * Save the current task list view under a name.
+     */
+    public function store(Request $request): JsonResponse
+    {
+        $user = $request->user();
+        $validated = $request->validate([
+            'name' => [
+                'required',
+                'string',
+                'max:100',
+                Rule::unique('saved_views')->where('user_id', $user->id),
+            ],
+            'params' => 'nullable|array',
+            'params.*' => 'string|max:500',
+        ]);
+
+        if ($user->savedViews()->reorder()->count() >= self::MAX_VIEWS) {
+            return $this->error('You can save up to ' . self::MAX_VIEWS . ' views.', 422, [
+                'name' => ['You can save up to ' . self::MAX_VIEWS . ' views.']
+            ]);
+        }
+
+        $view = $user->savedViews()->create([
+            'name' => $validated['name'],
+            'params' => $validated['params'] ?? [],
+            'sort_order' => ($user->savedViews()->reorder()->max('sort_order') ?? -1) + 1,
+        ]);
+
+        return $this->success($view, 201);
+    }
+
+    /**
+     * Delete a saved view.
+     */
+    public function destroy(Request $request, int $id): JsonResponse
+    {
+        $request->user()->savedViews()->findOrFail($id)->delete();
+
+        return $this->success(null, 204);
+    }
+}
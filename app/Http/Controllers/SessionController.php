@@ -0,0 +1,72 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Services\Auth\SessionService;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+
+class SessionController extends ApiController
+{
+    public function __construct(private SessionService $sessionService) {}
+
+    /**
+     * List the user's active sessions and API tokens.
+     */
+    public function index(Request $request): JsonResponse
+    {
+        $user = $request->user();
+
+        return $this->success([
+            'sessions' => $this->sessionService->getSessions($user, $this->currentSessionId($request)),
+            'sessions_supported' => $this->sessionService->supportsSessions(),
+            'tokens' => $this->sessionService->getTokens($user),
+        ]);
+    }
+
+    /**
+     * Sign out one session. The current session is ended with logout instead.
+     */
+    public function destroy(Request $request, string $id): JsonResponse
+    {
+        if ($id === $this->currentSessionId($request)) {
+            return $this->error('Use sign out to end the current session.', 422);
+        }
+
+        if (!$this->sessionService->revokeSession($request->user(), $id)) {
+            return $this->error('Session not found', 404);
+        }
+
+        return $this->success(null, 204);
+    }
+
+    /**
+     * Sign out every session except the current one.
+     */
+    public function destroyOthers(Request $request): JsonResponse
+    {
+        $count = $this->sessionService->revokeOtherSessions($request->user(), $this->currentSessionId($request));
+
+        return $this->success([
+            'revoked' => $count,
+            'message' => 'Signed out of all other sessions',
+        ]);
+    }
+
+    /**
+     * Revoke an API token.
+     */
+    public function destroyToken(Request $request, int $id): JsonResponse
+    {
+        if (!$this->sessionService->revokeToken($request->user(), $id)) {
+            return $this->error('Token not found', 404);
+        }
+
+        return $this->success(null, 204);
+    }
+
+    private function currentSessionId(Request $request): ?string
+    {
+        return $request->hasSession() ? $request->session()->getId() : null;
+    }
+}
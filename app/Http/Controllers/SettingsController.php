@@ -0,0 +1,139 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Models\User;
+use App\Services\LocaleCacheService;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Validation\Rule;
+use Illuminate\Validation\Rules\Password;
+
+class SettingsController extends ApiController
+{
+    public function __construct(private LocaleCacheService $cacheService) {}
+
+    /**
+     * Update the name and email address.
+     * A changed email address has to be verified again.
+     */
+    public function updateProfile(Request $request): JsonResponse
+    {
+        $user = $request->user();
+
+        // Changing the sign-in email allows a password reset to the new address, so it
+        // needs the current password like changing the password itself does
+        $emailChanging = strtolower(trim((string) $request->input('email'))) !== $user->email;
+
+        $validated = $request->validate([
+            'name' => [
+                'required',
+                'string',
+                'max:255',
+                'regex:/^[a-zA-Z\s\-\'\.]+$/',
+            ],
+            'email' => [
+                'required',
+                'string',
+                'email:rfc',
+                'max:255',
+                Rule::unique('users', 'email')->ignore($user->id),
+            ],
+            'current_password' => [Rule::requiredIf($emailChanging), 'nullable', 'string', 'current_password'],
+        ], [
+            'name.regex' => 'Name may only contain letters, spaces, hyphens, apostrophes, and dots.',
+            'email.unique' => 'This email address is already registered.',
+            'current_password.required' => 'Enter your current password to change your email address.',
+            'current_password.current_password' => 'The current password is incorrect.',
+        ]);
+
+        $user->fill([
+            'name' => trim($validated['name']),
+            'email' => strtolower(trim($validated['email'])),
+        ]);
+
+        $emailChanged = $user->isDirty('email');
+        if ($emailChanged) {
+            $user->email_verified_at = null;
+        }
+        $user->save();
+
+        if ($emailChanged) {
+            $user->sendEmailVerificationNotification();
+        }
+
+        return $this->success([
+            'user' => $user->toArray(),
+            'message' => $emailChanged
+                ? 'Profile updated. Please verify your new email address.'
+                : 'Profile updated successfully',
+        ]);
+    }
+
+    /**
+     * Change the password after confirming the current one.
+     */
+    public function updatePassword(Request $request): JsonResponse
+    {
+        $user = $request->user();
+        $validated = $request->validate([
+            'current_password' => ['required', 'string', 'current_password'],
+            'password' => [
+                'required',
+                'string',
+                'confirmed',
+                'different:current_password',
+                Password::min(8)
+                    ->letters()
+                    ->mixedCase()
+                    ->numbers()
+                    ->symbols()
+                    ->uncompromised(),
+            ],
+        ], [
+            'current_password.current_password' => 'The current password is incorrect.',
+            'password.confirmed' => 'Password confirmation does not match.',
+            'password.different' => 'The new password must be different from the current one.',
+        ]);
+
+        $user->update(['password' => $validated['password']]);
+
+        return $this->success([
+            'user' => $user->toArray(),
+            'message' => 'Password changed successfully',
+        ]);
+    }
+
+    /**
+     * Update any of the language, timezone, theme and default task view.
+     */
+    public function updatePreferences(Request $request): JsonResponse
+    {
+        $user = $request->user();
+        $validated = $request->validate([
+            'preferred_language' => [
+                'sometimes',
+                'string',
+                Rule::in(array_keys(config('app.available_locales', ['en' => 'English']))),
+            ],
+            'timezone' => ['sometimes', 'string', 'timezone'],
+            'theme' => ['sometimes', 'string', Rule::in(User::THEMES)],
+            'default_task_view' => ['sometimes', 'string', Rule::in(User::TASK_VIEWS)],
+        ], [
+            'timezone.timezone' => 'Please provide a valid timezone.',
+        ]);
+
+        $user->update($validated);
+
+        if (array_key_exists('preferred_language', $validated)) {
+            // Same as switching the language with the locale switcher
+            $this->cacheService->cacheUserLocale($user->id, $validated['preferred_language']);
+            $this->cacheService->invalidateUserCache($user->id);
+        }
+
+        return $this->success([
+            'user' => $user->toArray(),
+            'message' => 'Preferences updated successfully',
+        ]);
+    }
+}
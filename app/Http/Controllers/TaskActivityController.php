@@ -0,0 +1,25 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Http\Resources\TaskActivityResource;
+use App\Services\Task\TaskActivityService;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+
+class TaskActivityController extends ApiController
+{
+    public function __construct(
+        private TaskActivityService $activityService
+    ) {}
+
+    /**
+     * List every recorded version of a task, oldest first.
+     */
+    public function index(Request $request, int $taskId): JsonResponse
+    {
+        $task = $this->activityService->getTask($taskId, $request->user());
+
+        return $this->success(TaskActivityResource::collection($this->activityService->getActivities($task)));
+    }
+}
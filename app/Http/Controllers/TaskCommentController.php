@@ -0,0 +1,85 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Http\Resources\TaskCommentResource;
+use App\Services\Task\TaskCommentService;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+
+class TaskCommentController extends ApiController
+{
+    /**
+     * Longest comment body accepted, in characters.
+     */
+    private const MAX_BODY_LENGTH = 10000;
+
+    public function __construct(
+        private TaskCommentService $commentService
+    ) {}
+
+    /**
+     * List the comments on a task, oldest first.
+     */
+    public function index(Request $request, int $taskId): JsonResponse
+    {
+        $task = $this->commentService->getTask($taskId, $request->user());
+
+        return $this->success(TaskCommentResource::collection($this->commentService->getComments($task)));
+    }
+
+    /**
+     * Add a comment to a task.
+     */
+    public function store(Request $request, int $taskId): JsonResponse
+    {
+        $validated = $request->validate([
+            'body' => 'required|string|max:' . self::MAX_BODY_LENGTH,
+        ]);
+
+        $task = $this->commentService->getTask($taskId, $request->user());
+        $comment = $this->commentService->addComment($task, trim($validated['body']), $request->user());
+
+        return $this->success(new TaskCommentResource($comment), 201);
+    }
+
+    /**
+     * Edit one of your own comments.
+     */
+    public function update(Request $request, int $taskId, int $commentId): JsonResponse
+    {
+        $validated = $request->validate([
+            'body' => 'required|string|max:' . self::MAX_BODY_LENGTH,
+        ]);
+
+        $task = $this->commentService->getTask($taskId, $request->user());
+        $comment = $this->commentService->updateComment($task, $commentId, trim($validated['body']), $request->user());
+
+        return $this->success(new TaskCommentResource($comment));
+    }
+
+    /**
+     * Delete one of your own comments.
+     */
+    public function destroy(Request $request, int $taskId, int $commentId): JsonResponse
+    {
+        $task = $this->commentService->getTask($taskId, $request->user());
+        $this->commentService->deleteComment($task, $commentId, $request->user());
+
+        return $this->success(null, 204);
+    }
+
+    /**
+     * Users who can be mentioned on a task, for the composer's autocomplete.
+     */
+    public function mentionableUsers(Request $request, int $taskId): JsonResponse
+    {
+        $validated = $request->validate([
+            'query' => 'nullable|string|max:100',
+        ]);
+
+        $task = $this->commentService->getTask($taskId, $request->user());
+
+        return $this->success($this->commentService->getMentionableUsers($task, $validated['query'] ?? null));
+    }
+}
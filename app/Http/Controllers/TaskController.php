@@ -5,23 +5,29 @@
 use App\DTOs\Task\CreateTaskDTO;
 use App\DTOs\Task\TaskFilterDTO;
 use App\DTOs\Task\UpdateTaskDTO;
+use App\Http\Requests\BulkTaskUpdateRequest;
 use App\Http\Requests\TaskRequest;
 use App\Http\Requests\TaskFilterRequest;
+use App\Http\Requests\TaskTranslationRequest;
 use App\Http\Resources\TaskResource;
 use App\Http\Resources\TaskListResource;
 use App\Http\Resources\TaskDetailResource;
+use App\Http\Resources\TaskTranslationResource;
 use App\Models\Task;
 use App\Services\Task\TaskService;
+use App\Services\Task\TaskTranslationService;
 use App\Services\LocaleCacheService;
 use App\Services\TranslationPerformanceMonitor;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Http\Request;
 use Illuminate\Support\Facades\Auth;
+use Illuminate\Validation\Rule;
 
 class TaskController extends ApiController
 {
     public function __construct(
         private TaskService $taskService,
+        private TaskTranslationService $translationService,
         private LocaleCacheService $cacheService,
         private TranslationPerformanceMonitor $performanceMonitor
     ) {}
@@ -179,6 +185,160 @@ public function destroy(Task $task): JsonResponse
         return $this->success(null, 204);
     }
 
+    /**
+     * Restore a soft-deleted task, e.g. to undo deleting it.
+     */
+    public function restore(Request $request, int $id): JsonResponse
+    {
+        $task = $this->taskService->restoreTask($id, $request->user());
+        return $this->success(['data' => new TaskDetailResource($task)]);
+    }
+
+    /**
+     * Get every translation of a task's name and description.
+     */
+    public function translations(Request $request, int $id): JsonResponse
+    {
+        $task = $this->translationService->getTask($id, $request->user());
+        return $this->success(new TaskTranslationResource($task));
+    }
+
+    /**
+     * Save translations of a task's name and description.
+     */
+    public function updateTranslations(TaskTranslationRequest $request, int $id): JsonResponse
+    {
+        $task = $this->translationService->getTask($id, $request->user());
+        $task = $this->translationService->updateTranslations($task, $request->translations(), $request->user());
+
+        return $this->success(new TaskTranslationResource($task));
+    }
+
+    /**
+     * Translation progress per language and the tasks that still need translating.
+     */
+    public function translationReport(Request $request): JsonResponse
+    {
+        return $this->success($this->translationService->getTranslationReport($request->user()));
+    }
+
+    /**
+     * Saved translations of the user's tasks, used to suggest new translations.
+     */
+    public function translationMemory(Request $request): JsonResponse
+    {
+        return $this->success($this->translationService->getTranslationMemory($request->user()));
+    }
+
+    /**
+     * Task counts by status for the dashboard, for all of the user's tasks or one of their projects.
+     */
+    public function statistics(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'project_id' => [
+                'sometimes',
+                'integer',
+                Rule::exists('projects', 'id')->where('user_id', $request->user()->id),
+            ],
+        ]);
+
+        $projectId = isset($validated['project_id']) ? (int) $validated['project_id'] : null;
+
+        return $this->success($this->taskService->getTaskStatistics($request->user(), $projectId));
+    }
+
+    /**
+     * Persist the drag-and-drop order of root tasks.
+     */
+    public function reorder(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'task_ids' => 'required|array|min:1',
+            'task_ids.*' => 'integer|distinct',
+        ]);
+
+        $tasks = $this->taskService->reorderTasks($request->user(), array_map('intval', $validated['task_ids']));
+
+        return $this->success(TaskListResource::collection($tasks));
+    }
+
+    /**
+     * Update several tasks at once, e.g. to add or remove a label.
+     */
+    public function bulkUpdate(BulkTaskUpdateRequest $request): JsonResponse
+    {
+        $tasks = $this->taskService->bulkUpdateTasks($request->validated('updates'), $request->user());
+
+        return $this->success(['data' => TaskListResource::collection($tasks)]);
+    }
+
+    /**
+     * Persist the drag-and-drop order of a parent's subtasks.
+     */
+    public function reorderSubtasks(Request $request, int $parentId): JsonResponse
+    {
+        $validated = $request->validate([
+            'subtask_ids' => 'required|array|min:1',
+            'subtask_ids.*' => 'integer|distinct',
+        ]);
+
+        $subtasks = $this->taskService->reorderTasks(
+            $request->user(),
+            array_map('intval', $validated['subtask_ids']),
+            $parentId
+        );
+
+        return $this->success(TaskListResource::collection($subtasks));
+    }
+
+    /**
+     * Move a subtask to another parent task.
+     */
+    public function moveSubtask(Request $request, int $subtaskId): JsonResponse
+    {
+        $validated = $request->validate([
+            'parent_id' => 'required|integer',
+            'position' => 'nullable|integer|min:0',
+        ]);
+
+        $subtask = $this->taskService->getTaskById($subtaskId, $request->user());
+        $movedTask = $this->taskService->moveSubtask(
+            $subtask,
+            (int) $validated['parent_id'],
+            isset($validated['position']) ? (int) $validated['position'] : null,
+            $request->user()
+        );
+
+        return $this->success(new TaskListResource($movedTask));
+    }
+
+    /**
+     * Apply a bulk operation to the subtasks of a parent task.
+     */
+    public function bulkSubtaskOperations(Request $request, int $parentId): JsonResponse
+    {
+        $validated = $request->validate([
+            'operation' => 'required|string|in:update_status,delete',
+            'subtask_ids' => 'required|array|min:1',
+            'subtask_ids.*' => 'integer|distinct',
+            'status' => 'required_if:operation,update_status|nullable|string|in:' . implode(',', Task::getStatuses()),
+        ]);
+
+        $affected = $this->taskService->bulkSubtaskOperation(
+            $parentId,
+            $validated['operation'],
+            array_map('intval', $validated['subtask_ids']),
+            $request->user(),
+            $validated['status'] ?? null
+        );
+
+        return $this->success([
+            'operation' => $validated['operation'],
+            'affected' => $affected,
+        ]);
+    }
+
     /**
      * Search tasks with locale-aware functionality.
      */
@@ -0,0 +1,78 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Http\Resources\TaskShareResource;
+use App\Models\TaskShare;
+use App\Services\Task\TaskShareService;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Validation\Rule;
+
+class TaskShareController extends ApiController
+{
+    public function __construct(
+        private TaskShareService $shareService
+    ) {}
+
+    /**
+     * The owner of a task, the role of the current user and the collaborators it is shared with.
+     */
+    public function index(Request $request, int $taskId): JsonResponse
+    {
+        $task = $this->shareService->getTask($taskId, $request->user());
+        $owner = $task->user()->first(['id', 'name', 'email']);
+
+        return $this->success([
+            'owner' => [
+                'id' => $owner->id,
+                'name' => $owner->name,
+                'email' => $owner->email,
+            ],
+            'role' => $task->roleFor($request->user()),
+            'shares' => TaskShareResource::collection($this->shareService->getShares($task)),
+        ]);
+    }
+
+    /**
+     * Share a task with someone, or change their role if it already is.
+     */
+    public function store(Request $request, int $taskId): JsonResponse
+    {
+        $validated = $request->validate([
+            'email' => 'required|email|max:255',
+            'role' => ['required', Rule::in(TaskShare::getRoles())],
+        ]);
+
+        $task = $this->shareService->getTask($taskId, $request->user());
+        $share = $this->shareService->shareTask($task, $validated['email'], $validated['role'], $request->user());
+
+        return $this->success(new TaskShareResource($share), $share->wasRecentlyCreated ? 201 : 200);
+    }
+
+    /**
+     * Change the role of a collaborator.
+     */
+    public function update(Request $request, int $taskId, int $shareId): JsonResponse
+    {
+        $validated = $request->validate([
+            'role' => ['required', Rule::in(TaskShare::getRoles())],
+        ]);
+
+        $task = $this->shareService->getTask($taskId, $request->user());
+        $share = $this->shareService->updateShare($task, $shareId, $validated['role'], $request->user());
+
+        return $this->success(new TaskShareResource($share));
+    }
+
+    /**
+     * Remove a collaborator, or leave a task shared with you.
+     */
+    public function destroy(Request $request, int $taskId, int $shareId): JsonResponse
+    {
+        $task = $this->shareService->getTask($taskId, $request->user());
+        $this->shareService->removeShare($task, $shareId, $request->user());
+
+        return $this->success(null, 204);
+    }
+}
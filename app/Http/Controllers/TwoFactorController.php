@@ -0,0 +1,122 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Services\Auth\TwoFactorService;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+
+class TwoFactorController extends ApiController
+{
+    public function __construct(private TwoFactorService $twoFactorService) {}
+
+    /**
+     * Whether two-factor authentication is on, being set up, and how many
+     * recovery codes are left.
+     */
+    public function show(Request $request): JsonResponse
+    {
+        $user = $request->user();
+
+        return $this->success([
+            'enabled' => $this->twoFactorService->isEnabled($user),
+            'pending' => $user->two_factor_secret !== null && $user->two_factor_confirmed_at === null,
+            'recovery_codes_remaining' => $this->twoFactorService->remainingRecoveryCodes($user),
+        ]);
+    }
+
+    /**
+     * Start setting up an authenticator app. Returns the secret and the
+     * otpauth URI for the QR code.
+     */
+    public function enable(Request $request): JsonResponse
+    {
+        $this->validatePassword($request);
+        $user = $request->user();
+
+        if ($this->twoFactorService->isEnabled($user)) {
+            return $this->error('Two-factor authentication is already enabled.', 422);
+        }
+
+        $secret = $this->twoFactorService->startEnrollment($user);
+
+        return $this->success([
+            'secret' => $secret,
+            'otpauth_url' => $this->twoFactorService->otpauthUrl($user, $secret),
+        ]);
+    }
+
+    /**
+     * Confirm the setup with a first code from the authenticator app.
+     */
+    public function confirm(Request $request): JsonResponse
+    {
+        $request->validate([
+            'code' => ['required', 'string', 'max:10'],
+        ], [
+            'code.required' => 'Please enter the code from your authenticator app.',
+        ]);
+        $user = $request->user();
+
+        if ($this->twoFactorService->isEnabled($user)) {
+            return $this->error('Two-factor authentication is already enabled.', 422);
+        }
+
+        $recoveryCodes = $this->twoFactorService->confirmEnrollment($user, $request->code);
+
+        if ($recoveryCodes === null) {
+            return $this->error('The code is invalid or has expired.', 422, [
+                'code' => ['The code is invalid or has expired.']
+            ]);
+        }
+
+        return $this->success([
+            'user' => $user->toArray(),
+            'recovery_codes' => $recoveryCodes,
+            'message' => 'Two-factor authentication enabled',
+        ]);
+    }
+
+    /**
+     * Replace the recovery codes, e.g. when they have run out.
+     */
+    public function regenerateRecoveryCodes(Request $request): JsonResponse
+    {
+        $this->validatePassword($request);
+        $user = $request->user();
+
+        if (!$this->twoFactorService->isEnabled($user)) {
+            return $this->error('Two-factor authentication is not enabled.', 422);
+        }
+
+        return $this->success([
+            'recovery_codes' => $this->twoFactorService->regenerateRecoveryCodes($user),
+            'message' => 'New recovery codes generated',
+        ]);
+    }
+
+    /**
+     * Turn two-factor authentication off, or cancel a setup in progress.
+     */
+    public function disable(Request $request): JsonResponse
+    {
+        $this->validatePassword($request);
+        $user = $request->user();
+
+        $this->twoFactorService->disable($user);
+
+        return $this->success([
+            'user' => $user->toArray(),
+            'message' => 'Two-factor authentication disabled',
+        ]);
+    }
+
+    private function validatePassword(Request $request): void
+    {
+        $request->validate([
+            'password' => ['required', 'string', 'current_password'],
+        ], [
+            'password.current_password' => 'The password is incorrect.',
+        ]);
+    }
+}
@@ -80,6 +80,7 @@ public function unsubscribe(Request $request): JsonResponse
                 'preferences.task_completed' => 'boolean',
                 'preferences.task_deleted' => 'boolean',
                 'preferences.task_due_soon' => 'boolean',
+                'preferences.task_mentioned' => 'boolean',
                 'preferences.task_overdue' => 'boolean',
                 'preferences.daily_digest' => 'boolean',
                 'preferences.weekly_digest' => 'boolean',
@@ -12,9 +12,9 @@
 class LocalizationMiddleware
 {
     /**
-     * Supported locales
+     * Supported locales, from the app.available_locales config
      */
-    protected array $supportedLocales = ['en', 'de', 'fr'];
+    protected array $supportedLocales;
 
     /**
      * Locale cache service
@@ -24,6 +24,7 @@ class LocalizationMiddleware
     public function __construct(LocaleCacheService $cacheService)
     {
         $this->cacheService = $cacheService;
+        $this->supportedLocales = array_keys(config('app.available_locales', ['en' => 'English']));
     }
 
     /**
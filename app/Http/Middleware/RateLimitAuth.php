@@ -21,8 +21,10 @@ public function handle(Request $request, Closure $next): Response
         // Different limits for different endpoints
         $maxAttempts = match ($request->route()->getName()) {
             'auth.login' => 5, // 5 login attempts per minute
+            'auth.two-factor-challenge' => 5, // 5 two-factor codes per minute
             'auth.register' => 3, // 3 registration attempts per minute
             'auth.forgot-password' => 2, // 2 password reset attempts per minute
+            'auth.reset-password' => 5, // 5 new password attempts per minute
             default => 10, // Default rate limit
         };
         
@@ -0,0 +1,63 @@
+<?php
+
+namespace App\Http\Requests;
+
+/**
+ * Several task updates in one request. Each update is validated with the rules of a single task update.
+ */
+class BulkTaskUpdateRequest extends TaskRequest
+{
+    private const PREFIX = 'updates.*.data.';
+
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        return array_merge([
+            'updates' => 'required|array|min:1|max:100',
+            'updates.*.id' => 'required|integer|distinct',
+            'updates.*.data' => 'required|array',
+        ], $this->prefixKeys(parent::rules()));
+    }
+
+    /**
+     * Get custom messages for validator errors.
+     *
+     * @return array<string, string>
+     */
+    public function messages(): array
+    {
+        return array_merge([
+            'updates.required' => 'At least one task update is required.',
+            'updates.max' => 'At most 100 tasks can be updated at once.',
+            'updates.*.id.distinct' => 'A task can only be updated once per request.',
+        ], $this->prefixKeys(parent::messages()));
+    }
+
+    /**
+     * Get custom attributes for validator errors.
+     *
+     * @return array<string, string>
+     */
+    public function attributes(): array
+    {
+        return $this->prefixKeys(parent::attributes());
+    }
+
+    /**
+     * @param array<string, mixed> $values
+     * @return array<string, mixed>
+     */
+    private function prefixKeys(array $values): array
+    {
+        $prefixed = [];
+        foreach ($values as $key => $value) {
+            $prefixed[self::PREFIX . $key] = $value;
+        }
+
+        return $prefixed;
+    }
+}
@@ -3,6 +3,7 @@
 namespace App\Http\Requests;
 
 use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Rule;
 use Illuminate\Validation\Rules\Password;
 
 class RegisterRequest extends FormRequest
@@ -54,7 +55,7 @@ public function rules(): array
             'preferred_language' => [
                 'sometimes',
                 'string',
-                'in:en,de,fr',
+                Rule::in(array_keys(config('app.available_locales', ['en' => 'English']))),
             ],
             'timezone' => [
                 'sometimes',
@@ -81,7 +82,7 @@ public function messages(): array
             'password.required' => 'Password is required.',
             'password.confirmed' => 'Password confirmation does not match.',
             'password_confirmation.required' => 'Password confirmation is required.',
-            'preferred_language.in' => 'Preferred language must be one of: English, German, French.',
+            'preferred_language.in' => 'Preferred language must be one of: ' . implode(', ', config('app.available_locales', ['en' => 'English'])) . '.',
             'timezone.timezone' => 'Please provide a valid timezone.',
         ];
     }
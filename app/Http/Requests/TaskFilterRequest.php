@@ -2,6 +2,7 @@
 
 namespace App\Http\Requests;
 
+use App\DTOs\Task\TaskFilterDTO;
 use App\Models\Task;
 use Illuminate\Foundation\Http\FormRequest;
 use Illuminate\Support\Facades\Auth;
@@ -53,9 +54,9 @@ function ($attribute, $value, $fail) {
                         return;
                     }
                     
-                    // Check if parent task exists and belongs to user
-                    $parentExists = Task::where('id', $value)
-                        ->where('user_id', Auth::id())
+                    // Check if parent task exists and is owned by or shared with the user
+                    $parentExists = Task::accessibleBy(Auth::user())
+                        ->where('id', $value)
                         ->exists();
                         
                     if (!$parentExists) {
@@ -79,7 +80,7 @@ function ($attribute, $value, $fail) {
             'sort_by' => [
                 'sometimes',
                 'string',
-                Rule::in(['created_at', 'updated_at', 'due_date', 'priority', 'status', 'name'])
+                Rule::in(['created_at', 'updated_at', 'due_date', 'priority', 'status', 'name', 'sort_order'])
             ],
             'sort_direction' => [
                 'sometimes',
@@ -91,6 +92,25 @@ function ($attribute, $value, $fail) {
             'include_subtasks' => 'sometimes|boolean',
             'include_completed' => 'sometimes|boolean',
             'include_deleted' => 'sometimes|boolean',
+
+            // Only tasks assigned to the current user
+            'assigned_to_me' => 'sometimes|boolean',
+
+            // Only tasks in one of the user's projects
+            'project_id' => [
+                'sometimes',
+                'integer',
+                Rule::exists('projects', 'id')->where('user_id', Auth::id()),
+            ],
+
+            // Only tasks with any, or all, of the user's labels
+            'label_ids' => 'sometimes|array|max:20',
+            'label_ids.*' => [
+                'integer',
+                'distinct',
+                Rule::exists('labels', 'id')->where('user_id', Auth::id()),
+            ],
+            'label_match' => 'sometimes|string|in:' . TaskFilterDTO::LABELS_ANY . ',' . TaskFilterDTO::LABELS_ALL,
             
             // Date range presets
             'date_preset' => [
@@ -127,11 +147,16 @@ public function messages(): array
             'per_page.integer' => 'The per page value must be an integer.',
             'per_page.min' => 'The per page value must be at least 1.',
             'per_page.max' => 'The per page value may not be greater than 100.',
-            'sort_by.in' => 'The sort by field is invalid. Valid options are: created_at, updated_at, due_date, priority, status, name.',
+            'sort_by.in' => 'The sort by field is invalid. Valid options are: created_at, updated_at, due_date, priority, status, name, sort_order.',
             'sort_direction.in' => 'The sort direction must be either asc or desc.',
             'include_subtasks.boolean' => 'The include subtasks field must be true or false.',
             'include_completed.boolean' => 'The include completed field must be true or false.',
             'include_deleted.boolean' => 'The include deleted field must be true or false.',
+            'assigned_to_me.boolean' => 'The assigned to me field must be true or false.',
+            'project_id.exists' => 'The selected project does not exist.',
+            'label_ids.max' => 'You can filter by at most 20 labels.',
+            'label_ids.*.exists' => 'A selected label does not exist.',
+            'label_match.in' => 'The label match must be either any or all.',
             'date_preset.in' => 'The selected date preset is invalid.',
             'hierarchy_level.in' => 'The hierarchy level must be one of: root, subtasks, all.',
         ];
@@ -308,6 +333,19 @@ public function getFilters(): array
         if ($this->filled('hierarchy_level')) {
             $filters['hierarchy_level'] = $this->input('hierarchy_level');
         }
+
+        if ($this->filled('assigned_to_me')) {
+            $filters['assigned_to_me'] = $this->boolean('assigned_to_me');
+        }
+
+        if ($this->filled('project_id')) {
+            $filters['project_id'] = $this->integer('project_id');
+        }
+
+        if ($this->filled('label_ids')) {
+            $filters['label_ids'] = array_map('intval', (array) $this->input('label_ids'));
+            $filters['label_match'] = $this->input('label_match', TaskFilterDTO::LABELS_ANY);
+        }
         
         return $filters;
     }
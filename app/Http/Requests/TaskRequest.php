@@ -2,7 +2,10 @@
 
 namespace App\Http\Requests;
 
+use App\DTOs\Task\RecurrenceRuleDTO;
+use App\DTOs\Task\UpdateTaskDTO;
 use App\Models\Task;
+use App\Models\TaskShare;
 use Illuminate\Foundation\Http\FormRequest;
 use Illuminate\Support\Facades\Auth;
 use Illuminate\Validation\Rule;
@@ -50,14 +53,18 @@ public function rules(): array
             // Due date validation
             'due_date' => 'sometimes|nullable|date|after:now',
             
-            // Parent task validation
+            // Parent task validation - editors of a shared task can add subtasks to it
             'parent_id' => [
                 'sometimes',
                 'nullable',
                 'integer',
                 Rule::exists('tasks', 'id')->where(function ($query) {
-                    $query->where('user_id', Auth::id())
-                          ->whereNull('deleted_at');
+                    $query->where(function ($query) {
+                        $query->where('user_id', Auth::id())
+                              ->orWhereIn('id', TaskShare::where('user_id', Auth::id())
+                                  ->where('role', TaskShare::ROLE_EDITOR)
+                                  ->select('task_id'));
+                    })->whereNull('deleted_at');
                 }),
                 function ($attribute, $value, $fail) use ($taskId) {
                     if ($value && $taskId && $value == $taskId) {
@@ -65,6 +72,61 @@ function ($attribute, $value, $fail) use ($taskId) {
                     }
                 },
             ],
+
+            // Blocking tasks - replaces the task's dependencies when provided
+            'blocked_by_ids' => 'sometimes|nullable|array|max:50',
+            'blocked_by_ids.*' => [
+                'integer',
+                'distinct',
+                Rule::exists('tasks', 'id')->where(function ($query) {
+                    $query->where('user_id', Auth::id())
+                          ->whereNull('deleted_at');
+                }),
+                function ($attribute, $value, $fail) use ($taskId) {
+                    if ($taskId && $value == $taskId) {
+                        $fail('A task cannot block itself.');
+                    }
+                },
+            ],
+
+            // Recurrence - an iCalendar RRULE, null stops the task from repeating
+            'recurrence_rule' => [
+                'sometimes',
+                'nullable',
+                'string',
+                'max:255',
+                function ($attribute, $value, $fail) {
+                    foreach (RecurrenceRuleDTO::validate($value) as $error) {
+                        $fail("Invalid recurrence rule: {$error}.");
+                    }
+                },
+            ],
+            'recurrence_scope' => [
+                'sometimes',
+                Rule::in([UpdateTaskDTO::SCOPE_THIS, UpdateTaskDTO::SCOPE_FUTURE]),
+            ],
+
+            // Assignee - the owner or a collaborator of the task, null unassigns it
+            'assignee_id' => 'sometimes|nullable|integer|exists:users,id',
+
+            // Project - one of the user's projects that is not archived, null takes the task out of its project
+            'project_id' => [
+                'sometimes',
+                'nullable',
+                'integer',
+                Rule::exists('projects', 'id')->where(function ($query) {
+                    $query->where('user_id', Auth::id())
+                          ->whereNull('archived_at');
+                }),
+            ],
+
+            // Labels - replaces the task's labels when provided, an empty list removes them all
+            'label_ids' => 'sometimes|nullable|array|max:20',
+            'label_ids.*' => [
+                'integer',
+                'distinct',
+                Rule::exists('labels', 'id')->where('user_id', Auth::id()),
+            ],
         ];
 
         // Add dynamic validation rules for each supported locale
@@ -116,6 +178,29 @@ public function messages(): array
             // Parent task validation
             'parent_id.integer' => 'Parent task ID must be a valid number.',
             'parent_id.exists' => 'The selected parent task does not exist or you do not have permission to access it.',
+
+            // Dependency validation
+            'blocked_by_ids.array' => 'Blocking tasks must be provided as a list of task IDs.',
+            'blocked_by_ids.max' => 'A task cannot be blocked by more than 50 tasks.',
+            'blocked_by_ids.*.integer' => 'Blocking task IDs must be valid numbers.',
+            'blocked_by_ids.*.distinct' => 'A blocking task can only be added once.',
+            'blocked_by_ids.*.exists' => 'A selected blocking task does not exist or you do not have permission to access it.',
+
+            // Recurrence validation
+            'recurrence_rule.max' => 'The recurrence rule cannot exceed 255 characters.',
+            'recurrence_scope.in' => 'Changes can apply to this occurrence or to this and future occurrences.',
+
+            // Assignee validation
+            'assignee_id.exists' => 'The selected assignee does not exist.',
+
+            // Project validation
+            'project_id.exists' => 'The selected project does not exist or is archived.',
+
+            // Label validation
+            'label_ids.array' => 'Labels must be provided as a list of label IDs.',
+            'label_ids.max' => 'A task cannot have more than 20 labels.',
+            'label_ids.*.distinct' => 'A label can only be added once.',
+            'label_ids.*.exists' => 'A selected label does not exist.',
         ];
 
         // Add dynamic messages for each supported locale
@@ -152,6 +237,11 @@ public function attributes(): array
             'description.fr' => 'French task description',
             'description.de' => 'German task description',
             'parent_id' => 'parent task',
+            'blocked_by_ids' => 'blocking tasks',
+            'recurrence_rule' => 'recurrence rule',
+            'assignee_id' => 'assignee',
+            'project_id' => 'project',
+            'label_ids' => 'labels',
         ];
     }
 
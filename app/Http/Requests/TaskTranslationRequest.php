@@ -0,0 +1,80 @@
+<?php
+
+namespace App\Http\Requests;
+
+use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Support\Facades\Auth;
+
+class TaskTranslationRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return Auth::check();
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     * Only the locales being saved are sent; an empty value removes a translation.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        $supportedLocales = array_keys(config('app.available_locales', ['en' => 'English']));
+        $fallbackLocale = config('app.fallback_locale', 'en');
+
+        $onlySupportedLocales = function ($attribute, $value, $fail) use ($supportedLocales) {
+            $unsupported = array_diff(array_keys((array) $value), $supportedLocales);
+            if (!empty($unsupported)) {
+                $fail('Unsupported language: ' . implode(', ', $unsupported) . '.');
+            }
+        };
+
+        $rules = [
+            'name' => ['sometimes', 'array', $onlySupportedLocales],
+            'description' => ['sometimes', 'array', $onlySupportedLocales],
+        ];
+
+        foreach ($supportedLocales as $locale) {
+            // The fallback name can be changed but never removed
+            $rules["name.{$locale}"] = $locale === $fallbackLocale
+                ? 'sometimes|required|string|min:3|max:255'
+                : 'nullable|string|min:3|max:255';
+            $rules["description.{$locale}"] = 'nullable|string|max:1000';
+        }
+
+        return $rules;
+    }
+
+    /**
+     * Get custom messages for validator errors.
+     *
+     * @return array<string, string>
+     */
+    public function messages(): array
+    {
+        $messages = [];
+
+        foreach (config('app.available_locales', ['en' => 'English']) as $locale => $language) {
+            $messages["name.{$locale}.required"] = "The task name in {$language} is required.";
+            $messages["name.{$locale}.min"] = "The task name in {$language} must be at least 3 characters.";
+            $messages["name.{$locale}.max"] = "The task name in {$language} cannot exceed 255 characters.";
+            $messages["description.{$locale}.max"] = "The description in {$language} cannot exceed 1000 characters.";
+        }
+
+        return $messages;
+    }
+
+    /**
+     * Translations to save, keyed by field and then locale.
+     *
+     * @return array<string, array<string, string|null>>
+     */
+    public function translations(): array
+    {
+        return array_intersect_key($this->validated(), array_flip(['name', 'description']));
+    }
+}
@@ -0,0 +1,69 @@
+<?php
+
+namespace App\Http\Requests;
+
+use Illuminate\Foundation\Http\FormRequest;
+
+class TwoFactorChallengeRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return true;
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        return [
+            'code' => [
+                'required_without:recovery_code',
+                'nullable',
+                'string',
+                'max:10',
+            ],
+            'recovery_code' => [
+                'required_without:code',
+                'nullable',
+                'string',
+                'max:32',
+            ],
+            'remember_device' => [
+                'sometimes',
+                'boolean',
+            ],
+        ];
+    }
+
+    /**
+     * Get custom messages for validator errors.
+     *
+     * @return array<string, string>
+     */
+    public function messages(): array
+    {
+        return [
+            'code.required_without' => 'Please enter the code from your authenticator app.',
+            'recovery_code.required_without' => 'Please enter a recovery code.',
+            'remember_device.boolean' => 'Remember this device must be true or false.',
+        ];
+    }
+
+    /**
+     * Prepare the data for validation.
+     */
+    protected function prepareForValidation(): void
+    {
+        $this->merge([
+            'code' => preg_replace('/\s+/', '', (string) $this->code) ?: null,
+            'recovery_code' => trim((string) $this->recovery_code) ?: null,
+            'remember_device' => $this->boolean('remember_device'),
+        ]);
+    }
+}
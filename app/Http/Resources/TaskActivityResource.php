@@ -0,0 +1,31 @@
+<?php
+
+namespace App\Http\Resources;
+
+use Illuminate\Http\Request;
+use Illuminate\Http\Resources\Json\JsonResource;
+
+class TaskActivityResource extends JsonResource
+{
+    /**
+     * Transform the resource into an array for a task's activity timeline.
+     *
+     * @return array<string, mixed>
+     */
+    public function toArray(Request $request): array
+    {
+        return [
+            'id' => $this->id,
+            'task_id' => $this->task_id,
+            'version' => $this->version,
+            'action' => $this->action,
+            'user' => $this->user ? [
+                'id' => $this->user->id,
+                'name' => $this->user->name,
+            ] : null,
+            'changes' => $this->changes,
+            'snapshot' => $this->snapshot,
+            'created_at' => $this->created_at->toISOString(),
+        ];
+    }
+}
@@ -0,0 +1,31 @@
+<?php
+
+namespace App\Http\Resources;
+
+use Illuminate\Http\Request;
+use Illuminate\Http\Resources\Json\JsonResource;
+
+class TaskCommentResource extends JsonResource
+{
+    /**
+     * Transform the resource into an array for a task's comment thread.
+     *
+     * @return array<string, mixed>
+     */
+    public function toArray(Request $request): array
+    {
+        return [
+            'id' => $this->id,
+            'task_id' => $this->task_id,
+            'body' => $this->body,
+            'mentions' => $this->mentions ?? [],
+            'user' => [
+                'id' => $this->user_id,
+                'name' => $this->user?->name,
+            ],
+            'edited_at' => $this->edited_at?->toISOString(),
+            'created_at' => $this->created_at->toISOString(),
+            'updated_at' => $this->updated_at->toISOString(),
+        ];
+    }
+}
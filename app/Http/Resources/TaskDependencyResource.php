@@ -0,0 +1,24 @@
+<?php
+
+namespace App\Http\Resources;
+
+use Illuminate\Http\Request;
+use Illuminate\Http\Resources\Json\JsonResource;
+
+class TaskDependencyResource extends JsonResource
+{
+    /**
+     * Transform the resource into an array for "blocked by" and "blocking" badges.
+     *
+     * @return array<string, mixed>
+     */
+    public function toArray(Request $request): array
+    {
+        return [
+            'id' => $this->id,
+            'name' => $this->getLocalizedName(app()->getLocale()),
+            'status' => $this->status,
+            'is_finished' => $this->isFinished(),
+        ];
+    }
+}
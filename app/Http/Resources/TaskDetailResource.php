@@ -26,7 +26,23 @@ public function toArray(Request $request): array
             'priority_label' => __("messages.task.priority.{$this->priority}"),
             'due_date' => $this->due_date?->toISOString(),
             'parent_id' => $this->parent_id,
+            'sort_order' => $this->sort_order,
+            'recurrence_rule' => $this->recurrence_rule,
+            'series_id' => $this->series_id,
+            'recurrence_index' => $this->recurrence_index,
             'user_id' => $this->user_id,
+            'assignee_id' => $this->assignee_id,
+            'assignee' => $this->whenLoaded('assignee', fn () => $this->assignee ? [
+                'id' => $this->assignee->id,
+                'name' => $this->assignee->name,
+            ] : null),
+            'project_id' => $this->project_id,
+            'task_number' => $this->task_number,
+            // Key of the task within its project, e.g. WEB-42
+            'task_key' => $this->getTaskKey(),
+            'labels' => TaskLabelResource::collection($this->whenLoaded('labels')),
+            // Role of the current user on a task that may be shared with them
+            'role' => $this->when($request->user() !== null, fn () => $this->roleFor($request->user())),
             'created_at' => $this->created_at->toISOString(),
             'updated_at' => $this->updated_at->toISOString(),
             'deleted_at' => $this->deleted_at?->toISOString(),
@@ -37,6 +53,10 @@ public function toArray(Request $request): array
             'has_subtasks' => $this->hasSubtasks(),
             'is_subtask' => $this->isSubtask(),
             'completion_percentage' => $this->getCompletionPercentage(),
+            'is_blocked' => $this->whenLoaded('blockedBy', fn () => $this->isBlocked()),
+            'blocked_by' => TaskDependencyResource::collection($this->whenLoaded('blockedBy')),
+            'next_occurrence' => new TaskListResource($this->whenLoaded('nextOccurrence')),
+            'comments_count' => $this->comments_count ?? $this->comments()->count(),
             
             // Full translation data for editing
             'translations' => [
@@ -66,6 +86,7 @@ public function toArray(Request $request): array
             // Relationships (when loaded)
             'parent' => new TaskListResource($this->whenLoaded('parent')),
             'subtasks' => TaskListResource::collection($this->whenLoaded('subtasks')),
+            'blocking' => TaskDependencyResource::collection($this->whenLoaded('blocking')),
             'user' => new UserResource($this->whenLoaded('user')),
             
             // Detailed metadata
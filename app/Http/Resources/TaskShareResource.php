@@ -0,0 +1,29 @@
+<?php
+
+namespace App\Http\Resources;
+
+use Illuminate\Http\Request;
+use Illuminate\Http\Resources\Json\JsonResource;
+
+class TaskShareResource extends JsonResource
+{
+    /**
+     * Transform the resource into an array for a task's list of collaborators.
+     *
+     * @return array<string, mixed>
+     */
+    public function toArray(Request $request): array
+    {
+        return [
+            'id' => $this->id,
+            'task_id' => $this->task_id,
+            'role' => $this->role,
+            'user' => [
+                'id' => $this->user_id,
+                'name' => $this->user?->name,
+                'email' => $this->user?->email,
+            ],
+            'created_at' => $this->created_at->toISOString(),
+        ];
+    }
+}
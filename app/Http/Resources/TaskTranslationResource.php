@@ -0,0 +1,28 @@
+<?php
+
+namespace App\Http\Resources;
+
+use Illuminate\Http\Request;
+use Illuminate\Http\Resources\Json\JsonResource;
+
+class TaskTranslationResource extends JsonResource
+{
+    /**
+     * Transform the resource into an array for the translation workspace.
+     *
+     * @return array<string, mixed>
+     */
+    public function toArray(Request $request): array
+    {
+        return [
+            'id' => $this->id,
+            'parent_id' => $this->parent_id,
+            'status' => $this->status,
+            'source_locale' => config('app.fallback_locale', 'en'),
+            'name' => $this->getFieldTranslations('name'),
+            'description' => $this->getFieldTranslations('description'),
+            'translation_completeness' => $this->getTranslationCompleteness(),
+            'updated_at' => $this->updated_at->toISOString(),
+        ];
+    }
+}
@@ -19,7 +19,10 @@ public function toArray(Request $request): array
             'name' => $this->name,
             'email' => $this->email,
             'preferred_language' => $this->preferred_language ?? 'en',
+            'fallback_locales' => $this->fallback_locales ?? [],
             'timezone' => $this->timezone ?? 'UTC',
+            'theme' => $this->theme ?? 'system',
+            'default_task_view' => $this->default_task_view ?? 'list',
             'created_at' => $this->created_at->toISOString(),
             'updated_at' => $this->updated_at->toISOString(),
             
@@ -0,0 +1,151 @@
+<?php
+
+namespace App\Jobs;
+
+use App\Models\TaskComment;
+use App\Models\User;
+use Illuminate\Contracts\Queue\ShouldQueue;
+use Illuminate\Foundation\Queue\Queueable;
+use Illuminate\Queue\InteractsWithQueue;
+use Illuminate\Queue\SerializesModels;
+use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Facades\Mail;
+use App\Services\LoggingService;
+
+class SendMentionNotificationJob implements ShouldQueue
+{
+    use Queueable, InteractsWithQueue, SerializesModels;
+
+    /**
+     * The number of times the job may be attempted.
+     *
+     * @var int
+     */
+    public $tries = 3;
+
+    /**
+     * The maximum number of seconds the job can run.
+     *
+     * @var int
+     */
+    public $timeout = 60;
+
+    /**
+     * Skip the email when the comment was deleted before the job ran.
+     *
+     * @var bool
+     */
+    public $deleteWhenMissingModels = true;
+
+    /**
+     * Create a new job instance.
+     */
+    public function __construct(
+        public TaskComment $comment,
+        public int $userId
+    ) {
+        $this->onConnection('redis');
+        $this->onQueue('notifications');
+    }
+
+    /**
+     * Execute the job.
+     */
+    public function handle(): void
+    {
+        LoggingService::logQueueJob('started', self::class, [
+            'comment_id' => $this->comment->id,
+            'user_id' => $this->userId,
+        ]);
+
+        try {
+            $this->comment->loadMissing(['task', 'user']);
+            $task = $this->comment->task;
+            $user = User::find($this->userId);
+
+            if (!$task || !$user || !$user->email) {
+                Log::warning('Cannot send mention notification: Task or user not found', [
+                    'comment_id' => $this->comment->id,
+                    'user_id' => $this->userId
+                ]);
+                return;
+            }
+
+            if (!$user->wantsNotification('task_mentioned')) {
+                Log::info('User has disabled this notification type', [
+                    'comment_id' => $this->comment->id,
+                    'user_id' => $user->id,
+                    'action' => 'mentioned'
+                ]);
+                return;
+            }
+
+            $locale = $user->getPreferredLanguage();
+
+            $subject = __('messages.email.task_mentioned.subject', [
+                'author_name' => $this->comment->user?->name ?? '',
+                'task_name' => $task->getLocalizedName($locale)
+            ], $locale);
+
+            $content = __('messages.email.task_mentioned.content', [
+                'user_name' => $user->name,
+                'author_name' => $this->comment->user?->name ?? '',
+                'task_name' => $task->getLocalizedName($locale),
+                'comment' => $this->plainText($this->comment->body),
+                'task_url' => $this->generateTaskUrl($task->id)
+            ], $locale);
+
+            Mail::raw($content, function ($message) use ($user, $subject) {
+                $message->to($user->email, $user->name)
+                        ->subject($subject)
+                        ->from(config('mail.from.address'), config('mail.from.name'));
+            });
+
+            LoggingService::logQueueJob('completed', self::class, [
+                'comment_id' => $this->comment->id,
+                'user_email' => $user->email,
+            ]);
+
+        } catch (\Exception $e) {
+            LoggingService::logQueueJob('failed', self::class, [
+                'comment_id' => $this->comment->id,
+                'user_id' => $this->userId,
+                'error' => $e->getMessage(),
+                'attempt' => $this->attempts(),
+            ]);
+
+            // Re-throw the exception to trigger job retry
+            throw $e;
+        }
+    }
+
+    /**
+     * Show mentions as @Name in the plain text email
+     */
+    private function plainText(string $body): string
+    {
+        return preg_replace(TaskComment::MENTION_PATTERN, '@$1', $body);
+    }
+
+    /**
+     * Generate task URL for email links
+     */
+    private function generateTaskUrl(int $taskId): string
+    {
+        $frontendUrl = config('app.frontend_url', config('app.url'));
+        return "{$frontendUrl}/tasks/{$taskId}";
+    }
+
+    /**
+     * Handle a job failure.
+     */
+    public function failed(\Throwable $exception): void
+    {
+        LoggingService::logQueueJob('failed_permanently', self::class, [
+            'comment_id' => $this->comment->id,
+            'user_id' => $this->userId,
+            'error' => $exception->getMessage(),
+            'max_attempts' => $this->tries,
+        ]);
+    }
+}
@@ -109,6 +109,10 @@ public function handle(): void
                     $this->sendTaskDeletedNotification($notificationData);
                     break;
                 
+                case 'unblocked':
+                    $this->sendTaskUnblockedNotification($notificationData);
+                    break;
+                
                 case 'due_soon':
                     $this->sendTaskDueSoonNotification($notificationData);
                     break;
@@ -210,6 +214,33 @@ private function sendTaskDeletedNotification(array $data): void
         });
     }
 
+    /**
+     * Send task unblocked notification
+     */
+    private function sendTaskUnblockedNotification(array $data): void
+    {
+        $task = $data['task'];
+        $user = $data['user'];
+        $locale = $user->getPreferredLanguage();
+        
+        $subject = __('messages.email.task_unblocked.subject', [
+            'task_name' => $task->getLocalizedName($locale)
+        ], $locale);
+        
+        $content = __('messages.email.task_unblocked.content', [
+            'user_name' => $user->name,
+            'task_name' => $task->getLocalizedName($locale),
+            'blocker_name' => $data['additional_data']['blocker_name'] ?? '',
+            'task_url' => $this->generateTaskUrl($task)
+        ], $locale);
+        
+        Mail::raw($content, function ($message) use ($user, $subject) {
+            $message->to($user->email, $user->name)
+                    ->subject($subject)
+                    ->from(config('mail.from.address'), config('mail.from.name'));
+        });
+    }
+
     /**
      * Send task due soon notification
      */
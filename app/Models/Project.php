@@ -0,0 +1,95 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
+
+class Project extends Model
+{
+    /**
+     * Format of project keys: an uppercase letter followed by up to nine uppercase letters or digits.
+     */
+    public const KEY_PATTERN = '/^[A-Z][A-Z0-9]{1,9}$/';
+
+    /**
+     * The attributes that are mass assignable.
+     *
+     * @var list<string>
+     */
+    protected $fillable = [
+        'name',
+        'key',
+        'color',
+        'description',
+        'archived_at',
+    ];
+
+    /**
+     * The attributes that should be hidden for serialization.
+     *
+     * @var list<string>
+     */
+    protected $hidden = [
+        'next_task_number',
+    ];
+
+    /**
+     * Get the attributes that should be cast.
+     *
+     * @return array<string, string>
+     */
+    protected function casts(): array
+    {
+        return [
+            'archived_at' => 'datetime',
+            'next_task_number' => 'integer',
+        ];
+    }
+
+    /**
+     * Get the user that owns the project.
+     */
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+
+    /**
+     * Get the tasks in the project, subtasks included.
+     */
+    public function tasks(): HasMany
+    {
+        return $this->hasMany(Task::class);
+    }
+
+    /**
+     * Scope a query to projects that are not archived.
+     */
+    public function scopeActive($query)
+    {
+        return $query->whereNull('archived_at');
+    }
+
+    /**
+     * Check if the project is archived. Archived projects keep their tasks but take no new ones.
+     */
+    public function isArchived(): bool
+    {
+        return $this->archived_at !== null;
+    }
+
+    /**
+     * Take the next task number of a project. Must run inside a transaction so
+     * concurrent tasks in the same project cannot get the same number.
+     */
+    public static function claimTaskNumber(int $projectId): int
+    {
+        $project = static::whereKey($projectId)->lockForUpdate()->firstOrFail();
+        $number = $project->next_task_number;
+        $project->increment('next_task_number');
+
+        return $number;
+    }
+}
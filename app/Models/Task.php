@@ -6,8 +6,10 @@
 use Illuminate\Database\Eloquent\Model;
 use Illuminate\Database\Eloquent\SoftDeletes;
 use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\BelongsToMany;
 use Illuminate\Database\Eloquent\Relations\HasMany;
 use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Support\Facades\DB;
 use Spatie\Translatable\HasTranslations;
 
 class Task extends Model
@@ -27,6 +29,12 @@ class Task extends Model
         'due_date',
         'parent_id',
         'user_id',
+        'assignee_id',
+        'project_id',
+        'sort_order',
+        'recurrence_rule',
+        'series_id',
+        'recurrence_index',
     ];
 
     /**
@@ -36,6 +44,9 @@ class Task extends Model
      */
     protected $casts = [
         'due_date' => 'datetime',
+        'sort_order' => 'integer',
+        'recurrence_index' => 'integer',
+        'task_number' => 'integer',
         'name' => 'array',
         'description' => 'array',
     ];
@@ -75,6 +86,21 @@ class Task extends Model
     public const PRIORITY_HIGH = 'high';
     public const PRIORITY_URGENT = 'urgent';
 
+    /**
+     * Role of the user who owns a task, next to the TaskShare roles.
+     */
+    public const ROLE_OWNER = 'owner';
+
+    /**
+     * Statuses a task cannot move to while it has unfinished blockers.
+     *
+     * @var array<int, string>
+     */
+    public const BLOCKED_STATUSES = [
+        self::STATUS_IN_PROGRESS,
+        self::STATUS_COMPLETED,
+    ];
+
     /**
      * Get all available task statuses.
      *
@@ -118,7 +144,7 @@ public function parent(): BelongsTo
      */
     public function subtasks(): HasMany
     {
-        return $this->hasMany(Task::class, 'parent_id');
+        return $this->hasMany(Task::class, 'parent_id')->orderBy('sort_order');
     }
 
     /**
@@ -129,6 +155,56 @@ public function allSubtasks(): HasMany
         return $this->subtasks()->with('allSubtasks');
     }
 
+    /**
+     * Get the first occurrence of the recurring series this task belongs to (itself for the first one).
+     */
+    public function series(): BelongsTo
+    {
+        return $this->belongsTo(Task::class, 'series_id');
+    }
+
+    /**
+     * Get the tasks that have to be finished before this task can start.
+     */
+    public function blockedBy(): BelongsToMany
+    {
+        return $this->belongsToMany(Task::class, 'task_dependencies', 'task_id', 'depends_on_id')
+            ->withTimestamps();
+    }
+
+    /**
+     * Get the labels of the task, in alphabetical order.
+     */
+    public function labels(): BelongsToMany
+    {
+        return $this->belongsToMany(Label::class)->withTimestamps()->orderBy('name');
+    }
+
+    /**
+     * Get the tasks waiting for this task to be finished.
+     */
+    public function blocking(): BelongsToMany
+    {
+        return $this->belongsToMany(Task::class, 'task_dependencies', 'depends_on_id', 'task_id')
+            ->withTimestamps();
+    }
+
+    /**
+     * Get the comments on this task, oldest first.
+     */
+    public function comments(): HasMany
+    {
+        return $this->hasMany(TaskComment::class)->orderBy('created_at')->orderBy('id');
+    }
+
+    /**
+     * Get the change history of this task, oldest first.
+     */
+    public function activities(): HasMany
+    {
+        return $this->hasMany(TaskActivity::class)->orderBy('id');
+    }
+
     /**
      * Get the user that owns the task.
      */
@@ -137,6 +213,102 @@ public function user(): BelongsTo
         return $this->belongsTo(User::class);
     }
 
+    /**
+     * Get the user the task is assigned to.
+     */
+    public function assignee(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'assignee_id');
+    }
+
+    /**
+     * Get the project the task belongs to. Subtasks are always in the project of their parent.
+     */
+    public function project(): BelongsTo
+    {
+        return $this->belongsTo(Project::class);
+    }
+
+    /**
+     * Get the key of the task within its project, e.g. WEB-42, or null outside a project.
+     */
+    public function getTaskKey(): ?string
+    {
+        if (!$this->project_id || !$this->task_number || !$this->project) {
+            return null;
+        }
+
+        return "{$this->project->key}-{$this->task_number}";
+    }
+
+    /**
+     * Get the collaborators this task is shared with. Only top-level tasks have shares;
+     * their subtasks are shared along with them.
+     */
+    public function shares(): HasMany
+    {
+        return $this->hasMany(TaskShare::class);
+    }
+
+    /**
+     * Scope a query to the tasks a user owns or that are shared with them.
+     */
+    public function scopeAccessibleBy($query, User $user)
+    {
+        $sharedTaskIds = TaskShare::where('user_id', $user->id)->select('task_id');
+
+        return $query->where(function ($query) use ($user, $sharedTaskIds) {
+            $query->where('user_id', $user->id)
+                ->orWhereIn('id', $sharedTaskIds)
+                ->orWhereIn('parent_id', $sharedTaskIds);
+        });
+    }
+
+    /**
+     * Get the id of the top-level task, which holds the shares of this task.
+     */
+    public function getRootId(): int
+    {
+        return $this->parent_id ?? $this->id;
+    }
+
+    /**
+     * Get the role of a user on this task: owner, editor, viewer or null without access.
+     */
+    public function roleFor(User $user): ?string
+    {
+        if ($this->user_id === $user->id) {
+            return self::ROLE_OWNER;
+        }
+
+        return TaskShare::where('task_id', $this->getRootId())
+            ->where('user_id', $user->id)
+            ->value('role');
+    }
+
+    /**
+     * Check if a user can change the task (its owner or an editor).
+     */
+    public function isEditableBy(User $user): bool
+    {
+        return in_array($this->roleFor($user), [self::ROLE_OWNER, TaskShare::ROLE_EDITOR], true);
+    }
+
+    /**
+     * Get the ids of everyone who can see the task: its owner and the collaborators of its top-level task.
+     *
+     * @return array<int, int>
+     */
+    public function collaboratorIds(): array
+    {
+        return TaskShare::where('task_id', $this->getRootId())
+            ->pluck('user_id')
+            ->prepend($this->user_id)
+            ->unique()
+            ->values()
+            ->all();
+    }
+
     /**
      * Scope a query to only include tasks for a specific user.
      */
@@ -185,6 +357,46 @@ public function isCompleted(): bool
         return $this->status === self::STATUS_COMPLETED;
     }
 
+    /**
+     * Check if the task no longer blocks its dependents (completed or cancelled).
+     */
+    public function isFinished(): bool
+    {
+        return in_array($this->status, [self::STATUS_COMPLETED, self::STATUS_CANCELLED], true);
+    }
+
+    /**
+     * Get the blockers that are not finished yet.
+     */
+    public function getOpenBlockers()
+    {
+        return $this->blockedBy->reject(fn (Task $blocker) => $blocker->isFinished())->values();
+    }
+
+    /**
+     * Check if the task is waiting on an unfinished blocker.
+     */
+    public function isBlocked(): bool
+    {
+        return $this->getOpenBlockers()->isNotEmpty();
+    }
+
+    /**
+     * Check if the task repeats or belongs to a recurring series.
+     */
+    public function isRecurring(): bool
+    {
+        return !is_null($this->recurrence_rule) || !is_null($this->series_id);
+    }
+
+    /**
+     * Scope a query to the occurrences of a recurring series.
+     */
+    public function scopeInSeries($query, int $seriesId)
+    {
+        return $query->where('series_id', $seriesId);
+    }
+
     /**
      * Check if the task is overdue.
      */
@@ -563,6 +775,37 @@ public function canBeParentOf(Task $potentialChild): bool
         return true;
     }
 
+    /**
+     * Determine if making this task depend on the given task would close a cycle,
+     * i.e. the blocker already depends on this task directly or transitively.
+     */
+    public function wouldCreateDependencyCycle(int $blockerId): bool
+    {
+        if ($blockerId === $this->id) {
+            return true;
+        }
+
+        $visited = [];
+        $frontier = [$blockerId];
+
+        // Walk the blocker's own dependencies one level at a time
+        while (!empty($frontier)) {
+            $visited = array_merge($visited, $frontier);
+            $next = DB::table('task_dependencies')
+                ->whereIn('task_id', $frontier)
+                ->pluck('depends_on_id')
+                ->all();
+
+            if (in_array($this->id, $next)) {
+                return true;
+            }
+
+            $frontier = array_values(array_diff(array_unique($next), $visited));
+        }
+
+        return false;
+    }
+
     /**
      * Boot the model.
      */
@@ -576,6 +819,13 @@ protected static function boot()
             $cacheService->invalidateTaskCache($task->id);
         });
 
+        // Subtasks move along when their parent changes project
+        static::updated(function ($task) {
+            if ($task->wasChanged('project_id')) {
+                $task->subtasks()->get()->each(fn (Task $subtask) => $subtask->save());
+            }
+        });
+
         static::deleted(function ($task) {
             $cacheService = app(LocaleCacheService::class);
             $cacheService->invalidateTaskCache($task->id);
@@ -593,6 +843,16 @@ protected static function boot()
                 if ($parent && $parent->isSubtask()) {
                     throw new \InvalidArgumentException('Cannot create subtask of a subtask. Maximum nesting level is 2.');
                 }
+
+                // Subtasks follow their parent into its project
+                if ($parent) {
+                    $task->project_id = $parent->project_id;
+                }
+            }
+
+            // Tasks are numbered per project; moving to another project takes the next number there
+            if ($task->isDirty('project_id')) {
+                $task->task_number = $task->project_id ? Project::claimTaskNumber($task->project_id) : null;
             }
 
             // Ensure at least the fallback locale has a name
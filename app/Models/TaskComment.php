@@ -0,0 +1,67 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class TaskComment extends Model
+{
+    /**
+     * Markup the composer inserts for a mention: @[Name](user:id).
+     */
+    public const MENTION_PATTERN = '/@\[([^\]\n]+)\]\(user:(\d+)\)/';
+
+    /**
+     * The attributes that are mass assignable.
+     *
+     * @var list<string>
+     */
+    protected $fillable = [
+        'user_id',
+        'body',
+        'mentions',
+        'edited_at',
+    ];
+
+    /**
+     * Get the attributes that should be cast.
+     *
+     * @return array<string, string>
+     */
+    protected function casts(): array
+    {
+        return [
+            'mentions' => 'array',
+            'edited_at' => 'datetime',
+        ];
+    }
+
+    /**
+     * Get the task the comment belongs to.
+     */
+    public function task(): BelongsTo
+    {
+        return $this->belongsTo(Task::class);
+    }
+
+    /**
+     * Get the author of the comment.
+     */
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+
+    /**
+     * Ids of the users mentioned in a comment body, in order of first mention.
+     *
+     * @return array<int, int>
+     */
+    public static function extractMentionIds(string $body): array
+    {
+        preg_match_all(self::MENTION_PATTERN, $body, $matches);
+
+        return array_values(array_unique(array_map('intval', $matches[2])));
+    }
+}
@@ -0,0 +1,54 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class TaskShare extends Model
+{
+    /**
+     * Roles a task can be shared with. The owner of the task is not a share.
+     */
+    public const ROLE_VIEWER = 'viewer';
+    public const ROLE_EDITOR = 'editor';
+
+    /**
+     * The attributes that are mass assignable.
+     *
+     * @var list<string>
+     */
+    protected $fillable = [
+        'user_id',
+        'role',
+    ];
+
+    /**
+     * Get all available share roles.
+     *
+     * @return array<string>
+     */
+    public static function getRoles(): array
+    {
+        return [
+            self::ROLE_VIEWER,
+            self::ROLE_EDITOR,
+        ];
+    }
+
+    /**
+     * Get the shared top-level task.
+     */
+    public function task(): BelongsTo
+    {
+        return $this->belongsTo(Task::class);
+    }
+
+    /**
+     * Get the collaborator the task is shared with.
+     */
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+}
@@ -2,7 +2,8 @@
 
 namespace App\Models;
 
-// use Illuminate\Contracts\Auth\MustVerifyEmail;
+use Illuminate\Contracts\Auth\MustVerifyEmail;
+use Illuminate\Database\Eloquent\Casts\Attribute;
 use Illuminate\Database\Eloquent\Factories\HasFactory;
 use Illuminate\Database\Eloquent\SoftDeletes;
 use Illuminate\Database\Eloquent\Relations\HasMany;
@@ -10,7 +11,7 @@
 use Illuminate\Notifications\Notifiable;
 use Laravel\Sanctum\HasApiTokens;
 
-class User extends Authenticatable
+class User extends Authenticatable implements MustVerifyEmail
 {
     /** @use HasFactory<\Database\Factories\UserFactory> */
     use HasFactory, Notifiable, HasApiTokens, SoftDeletes;
@@ -25,10 +26,27 @@ class User extends Authenticatable
         'email',
         'password',
         'preferred_language',
+        'fallback_locales',
         'timezone',
+        'theme',
+        'default_task_view',
         'notification_preferences',
     ];
 
+    /**
+     * Themes the interface can be shown in.
+     *
+     * @var list<string>
+     */
+    public const THEMES = ['light', 'dark', 'system'];
+
+    /**
+     * Views the task list can open in.
+     *
+     * @var list<string>
+     */
+    public const TASK_VIEWS = ['list', 'grid'];
+
     /**
      * The attributes that should be hidden for serialization.
      *
@@ -37,6 +55,17 @@ class User extends Authenticatable
     protected $hidden = [
         'password',
         'remember_token',
+        'two_factor_secret',
+        'two_factor_recovery_codes',
+    ];
+
+    /**
+     * The accessors to append to the model's array form.
+     *
+     * @var list<string>
+     */
+    protected $appends = [
+        'two_factor_enabled',
     ];
 
     /**
@@ -59,9 +88,23 @@ protected function casts(): array
             'email_verified_at' => 'datetime',
             'password' => 'hashed',
             'notification_preferences' => 'array',
+            'fallback_locales' => 'array',
+            'two_factor_secret' => 'encrypted',
+            // Hashes of the unused recovery codes
+            'two_factor_recovery_codes' => 'array',
+            'two_factor_confirmed_at' => 'datetime',
         ];
     }
 
+    /**
+     * Whether sign-ins need a code from an authenticator app. Enrollment
+     * only counts once the first code has been confirmed.
+     */
+    protected function twoFactorEnabled(): Attribute
+    {
+        return Attribute::get(fn () => $this->two_factor_secret !== null && $this->two_factor_confirmed_at !== null);
+    }
+
     /**
      * Get the tasks for the user.
      */
@@ -78,6 +121,38 @@ public function rootTasks(): HasMany
         return $this->hasMany(Task::class)->whereNull('parent_id');
     }
 
+    /**
+     * Get the shares of other people's tasks with the user.
+     */
+    public function taskShares(): HasMany
+    {
+        return $this->hasMany(TaskShare::class);
+    }
+
+    /**
+     * Get the user's saved task list views in navigation order.
+     */
+    public function savedViews(): HasMany
+    {
+        return $this->hasMany(SavedView::class)->orderBy('sort_order')->orderBy('id');
+    }
+
+    /**
+     * Get the user's projects in alphabetical order.
+     */
+    public function projects(): HasMany
+    {
+        return $this->hasMany(Project::class)->orderBy('name');
+    }
+
+    /**
+     * Get the user's labels in alphabetical order.
+     */
+    public function labels(): HasMany
+    {
+        return $this->hasMany(Label::class)->orderBy('name');
+    }
+
     /**
      * Get the user's preferred language or default to English.
      */
@@ -105,6 +180,8 @@ public function getNotificationPreferences(): array
             'task_updated' => true,
             'task_completed' => true,
             'task_deleted' => false,
+            'task_unblocked' => true,
+            'task_mentioned' => true,
             'task_due_soon' => true,
             'task_overdue' => true,
             'daily_digest' => false,
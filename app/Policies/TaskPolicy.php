@@ -21,7 +21,7 @@ public function viewAny(User $user): bool
      */
     public function view(User $user, Task $task): bool
     {
-        return $user->id === $task->user_id;
+        return $task->roleFor($user) !== null;
     }
 
     /**
@@ -33,11 +33,11 @@ public function create(User $user): bool
     }
 
     /**
-     * Determine whether the user can update the task.
+     * Determine whether the user can update the task (its owner or an editor it is shared with).
      */
     public function update(User $user, Task $task): bool
     {
-        return $user->id === $task->user_id;
+        return $task->isEditableBy($user);
     }
 
     /**
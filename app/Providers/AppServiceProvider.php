@@ -2,6 +2,7 @@
 
 namespace App\Providers;
 
+use Illuminate\Auth\Notifications\ResetPassword;
 use Illuminate\Support\ServiceProvider;
 
 class AppServiceProvider extends ServiceProvider
@@ -20,6 +21,9 @@ public function register(): void
      */
     public function boot(): void
     {
-        //
+        // Password reset emails link to the SPA page instead of a Blade route
+        ResetPassword::createUrlUsing(function ($user, string $token) {
+            return url('/reset-password/' . $token) . '?email=' . urlencode($user->getEmailForPasswordReset());
+        });
     }
 }
@@ -30,6 +30,11 @@ public function updateFromDTO(Task $task, UpdateTaskDTO $dto): Task;
      */
     public function findByIdAndUser(int $id, User $user): ?Task;
 
+    /**
+     * Find a task by ID that the user owns or that is shared with them
+     */
+    public function findAccessibleById(int $id, User $user): ?Task;
+
     /**
      * Get tasks for a user with optional filtering
      */
@@ -45,6 +50,26 @@ public function getPaginatedTasksForUser(User $user, ?TaskFilterDTO $filter = nu
      */
     public function getSubtasks(Task $parentTask): Collection;
 
+    /**
+     * Get the sort order for a task appended to the end of its siblings
+     */
+    public function getNextSortOrder(User $user, ?int $parentId): int;
+
+    /**
+     * Persist the order of sibling tasks (root tasks when parent is null)
+     */
+    public function reorder(User $user, ?int $parentId, array $orderedIds): void;
+
+    /**
+     * Bulk update task status
+     */
+    public function bulkUpdateStatus(User $user, array $taskIds, string $status): int;
+
+    /**
+     * Bulk delete tasks
+     */
+    public function bulkDelete(User $user, array $taskIds): int;
+
     /**
      * Get tasks by status for a user
      */
@@ -27,7 +27,10 @@ public function __construct(Task $model)
      */
     public function createFromDTO(CreateTaskDTO $dto, User $user): Task
     {
-        return $this->model->create($dto->toModelData($user->id));
+        $data = $dto->toModelData($user->id);
+        $data['sort_order'] = $this->getNextSortOrder($user, $data['parent_id'] ?? null);
+
+        return $this->model->create($data);
     }
 
     /**
@@ -60,6 +63,16 @@ public function findByIdAndUser(int $id, User $user): ?Task
             ->first();
     }
 
+    /**
+     * Find a task by ID that the user owns or that is shared with them
+     */
+    public function findAccessibleById(int $id, User $user): ?Task
+    {
+        return $this->model->where('id', $id)
+            ->accessibleBy($user)
+            ->first();
+    }
+
     /**
      * Get tasks for a user with optional filtering
      */
@@ -96,10 +109,44 @@ public function getSubtasks(Task $parentTask): Collection
     {
         return $this->model->where('parent_id', $parentTask->id)
             ->where('user_id', $parentTask->user_id)
+            ->orderBy('sort_order', 'asc')
             ->orderBy('created_at', 'asc')
             ->get();
     }
 
+    /**
+     * Get the sort order for a task appended to the end of its siblings
+     */
+    public function getNextSortOrder(User $user, ?int $parentId): int
+    {
+        $max = $this->model->where('user_id', $user->id)
+            ->where('parent_id', $parentId)
+            ->max('sort_order');
+
+        return $max === null ? 0 : (int) $max + 1;
+    }
+
+    /**
+     * Persist the order of sibling tasks, ids not under the given parent are ignored
+     */
+    public function reorder(User $user, ?int $parentId, array $orderedIds): void
+    {
+        $siblingIds = $this->model->where('user_id', $user->id)
+            ->where('parent_id', $parentId)
+            ->whereIn('id', $orderedIds)
+            ->pluck('id')
+            ->all();
+
+        $position = 0;
+        foreach ($orderedIds as $id) {
+            if (!in_array($id, $siblingIds, true)) {
+                continue;
+            }
+
+            $this->model->where('id', $id)->update(['sort_order' => $position++]);
+        }
+    }
+
     /**
      * Get tasks by status for a user
      */
@@ -0,0 +1,203 @@
+<?php
+
+namespace App\Services\Auth;
+
+use App\Models\User;
+use App\Services\BaseService;
+use App\Services\LoggingService;
+use Illuminate\Support\Carbon;
+use Illuminate\Support\Facades\Cache;
+use Illuminate\Support\Facades\DB;
+
+/**
+ * Active browser sessions and API tokens of a user.
+ * Sessions are read from the database session store, so they can only be
+ * listed and revoked when the session driver is "database".
+ */
+class SessionService extends BaseService
+{
+    /**
+     * Cache key prefix marking sessions that were ended from another device.
+     */
+    private const REVOKED_KEY = 'revoked_session:';
+
+    /**
+     * Browsers and platforms recognised in user agents, most specific first.
+     */
+    private const BROWSERS = [
+        'Edge' => '/Edg(e|A|iOS)?\//',
+        'Opera' => '/OPR\/|Opera/',
+        'Firefox' => '/Firefox\/|FxiOS\//',
+        'Chrome' => '/Chrome\/|CriOS\//',
+        'Safari' => '/Safari\//',
+    ];
+
+    private const PLATFORMS = [
+        'iOS' => '/iPhone|iPad|iPod/',
+        'Android' => '/Android/',
+        'Windows' => '/Windows/',
+        'macOS' => '/Mac OS X|Macintosh/',
+        'Linux' => '/Linux/',
+    ];
+
+    public function __construct(private LoggingService $loggingService) {}
+
+    /**
+     * Whether sessions are kept where they can be listed.
+     */
+    public function supportsSessions(): bool
+    {
+        return config('session.driver') === 'database';
+    }
+
+    /**
+     * The user's sessions, most recently active first.
+     *
+     * @return array<int, array<string, mixed>>
+     */
+    public function getSessions(User $user, ?string $currentSessionId): array
+    {
+        if (!$this->supportsSessions()) {
+            return [];
+        }
+
+        return $this->sessions()
+            ->where('user_id', $user->id)
+            ->orderByDesc('last_activity')
+            ->get(['id', 'ip_address', 'user_agent', 'last_activity'])
+            ->map(fn ($session) => [
+                'id' => $session->id,
+                'ip_address' => $session->ip_address,
+                'device' => $this->parseUserAgent($session->user_agent),
+                'last_active_at' => Carbon::createFromTimestamp($session->last_activity)->toISOString(),
+                'is_current' => $session->id === $currentSessionId,
+            ])
+            ->all();
+    }
+
+    /**
+     * End one of the user's sessions. The device it belongs to is told why
+     * it was signed out on its next request.
+     */
+    public function revokeSession(User $user, string $sessionId): bool
+    {
+        $deleted = $this->sessions()
+            ->where('user_id', $user->id)
+            ->where('id', $sessionId)
+            ->delete();
+
+        if ($deleted) {
+            $this->markRevoked($sessionId);
+            $this->loggingService->logAuthEvent('session_revoked', [
+                'user_id' => $user->id,
+            ]);
+        }
+
+        return $deleted > 0;
+    }
+
+    /**
+     * End all of the user's sessions except the given one.
+     */
+    public function revokeOtherSessions(User $user, ?string $currentSessionId): int
+    {
+        if (!$this->supportsSessions()) {
+            return 0;
+        }
+
+        $sessionIds = $this->sessions()
+            ->where('user_id', $user->id)
+            ->when($currentSessionId, fn ($query) => $query->where('id', '!=', $currentSessionId))
+            ->pluck('id');
+
+        $this->sessions()->whereIn('id', $sessionIds)->delete();
+        $sessionIds->each(fn (string $id) => $this->markRevoked($id));
+
+        $this->loggingService->logAuthEvent('other_sessions_revoked', [
+            'user_id' => $user->id,
+            'count' => $sessionIds->count(),
+        ]);
+
+        return $sessionIds->count();
+    }
+
+    /**
+     * The user's API tokens, e.g. the WebSocket token.
+     *
+     * @return array<int, array<string, mixed>>
+     */
+    public function getTokens(User $user): array
+    {
+        return $user->tokens()
+            ->latest('last_used_at')
+            ->get()
+            ->map(fn ($token) => [
+                'id' => $token->id,
+                'name' => $token->name,
+                'abilities' => $token->abilities,
+                'last_used_at' => $token->last_used_at?->toISOString(),
+                'created_at' => $token->created_at?->toISOString(),
+                'expires_at' => $token->expires_at?->toISOString(),
+            ])
+            ->all();
+    }
+
+    public function revokeToken(User $user, int $tokenId): bool
+    {
+        $deleted = $user->tokens()->where('id', $tokenId)->delete();
+
+        if ($deleted) {
+            $this->loggingService->logAuthEvent('token_revoked', [
+                'user_id' => $user->id,
+                'token_id' => $tokenId,
+            ]);
+        }
+
+        return $deleted > 0;
+    }
+
+    /**
+     * Whether the session was ended from another device.
+     */
+    public function wasRevoked(string $sessionId): bool
+    {
+        return Cache::has(self::REVOKED_KEY . $sessionId);
+    }
+
+    /**
+     * Describe the device of a user agent, e.g. Firefox on Windows.
+     *
+     * @return array{browser: ?string, platform: ?string, is_mobile: bool}
+     */
+    public function parseUserAgent(?string $userAgent): array
+    {
+        $userAgent ??= '';
+        $match = function (array $patterns) use ($userAgent): ?string {
+            foreach ($patterns as $name => $pattern) {
+                if (preg_match($pattern, $userAgent)) {
+                    return $name;
+                }
+            }
+            return null;
+        };
+
+        return [
+            'browser' => $match(self::BROWSERS),
+            'platform' => $match(self::PLATFORMS),
+            'is_mobile' => (bool) preg_match('/Mobile|Android|iPhone|iPod/', $userAgent),
+        ];
+    }
+
+    /**
+     * Remember a revoked session for as long as it could otherwise have lasted.
+     */
+    private function markRevoked(string $sessionId): void
+    {
+        Cache::put(self::REVOKED_KEY . $sessionId, true, now()->addMinutes((int) config('session.lifetime', 120)));
+    }
+
+    private function sessions()
+    {
+        return DB::connection(config('session.connection'))->table(config('session.table', 'sessions'));
+    }
+}
@@ -0,0 +1,266 @@
+<?php
+
+namespace App\Services\Auth;
+
+use App\Models\User;
+use App\Services\BaseService;
+use App\Services\LoggingService;
+use Illuminate\Support\Facades\Cache;
+use Illuminate\Support\Str;
+
+/**
+ * Two-factor authentication with time-based one-time passwords (RFC 6238)
+ * and single use recovery codes.
+ * Codes are computed from now(), so tests can fix the clock with
+ * Carbon::setTestNow() or travelTo() and get the same codes every run.
+ */
+class TwoFactorService extends BaseService
+{
+    /**
+     * Cookie that lets a remembered device skip the code.
+     */
+    public const REMEMBER_COOKIE = 'two_factor_remember';
+
+    private const PERIOD = 30;
+
+    private const DIGITS = 6;
+
+    private const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+    /**
+     * Cache key prefix for time steps whose code has been used.
+     */
+    private const USED_KEY = 'two_factor_used:';
+
+    public function __construct(private LoggingService $loggingService) {}
+
+    public function isEnabled(User $user): bool
+    {
+        return $user->two_factor_enabled;
+    }
+
+    /**
+     * Start enrollment with a new secret. Two-factor authentication is only
+     * enabled once a code from the authenticator app has been confirmed.
+     */
+    public function startEnrollment(User $user): string
+    {
+        $secret = $this->generateSecret();
+
+        $user->forceFill([
+            'two_factor_secret' => $secret,
+            'two_factor_recovery_codes' => null,
+            'two_factor_confirmed_at' => null,
+        ])->save();
+
+        return $secret;
+    }
+
+    /**
+     * Finish enrollment with a code from the authenticator app.
+     *
+     * @return list<string>|null The recovery codes, or null if the code is wrong
+     */
+    public function confirmEnrollment(User $user, string $code): ?array
+    {
+        if ($user->two_factor_secret === null || !$this->verifyCode($user, $code)) {
+            return null;
+        }
+
+        $user->forceFill(['two_factor_confirmed_at' => now()])->save();
+        $this->loggingService->logAuthEvent('two_factor_enabled', ['user_id' => $user->id]);
+
+        return $this->regenerateRecoveryCodes($user);
+    }
+
+    public function disable(User $user): void
+    {
+        $user->forceFill([
+            'two_factor_secret' => null,
+            'two_factor_recovery_codes' => null,
+            'two_factor_confirmed_at' => null,
+        ])->save();
+
+        $this->loggingService->logAuthEvent('two_factor_disabled', ['user_id' => $user->id]);
+    }
+
+    /**
+     * Replace the recovery codes. Only their hashes are kept, so the codes
+     * can be shown this once.
+     *
+     * @return list<string>
+     */
+    public function regenerateRecoveryCodes(User $user): array
+    {
+        $codes = collect(range(1, (int) config('auth.two_factor.recovery_codes', 8)))
+            ->map(fn () => Str::lower(Str::random(5) . '-' . Str::random(5)))
+            ->all();
+
+        $user->forceFill([
+            'two_factor_recovery_codes' => array_map(fn (string $code) => $this->hashRecoveryCode($code), $codes),
+        ])->save();
+
+        return $codes;
+    }
+
+    public function remainingRecoveryCodes(User $user): int
+    {
+        return count($user->two_factor_recovery_codes ?? []);
+    }
+
+    /**
+     * Check a code from the authenticator app. Codes of the neighbouring time
+     * steps are accepted for clock drift, and each code works only once.
+     */
+    public function verifyCode(User $user, string $code): bool
+    {
+        $code = preg_replace('/\s+/', '', $code);
+
+        if ($user->two_factor_secret === null || !preg_match('/^\d{' . self::DIGITS . '}$/', $code)) {
+            return false;
+        }
+
+        $window = (int) config('auth.two_factor.window', 1);
+        $currentStep = intdiv(now()->getTimestamp(), self::PERIOD);
+
+        for ($step = $currentStep - $window; $step <= $currentStep + $window; $step++) {
+            if (hash_equals($this->codeAt($user->two_factor_secret, $step * self::PERIOD), $code)) {
+                return Cache::add(
+                    self::USED_KEY . $user->id . ':' . $step,
+                    true,
+                    now()->addSeconds(self::PERIOD * (2 * $window + 1))
+                );
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Use up one of the recovery codes.
+     */
+    public function useRecoveryCode(User $user, string $code): bool
+    {
+        $hash = $this->hashRecoveryCode($code);
+        $codes = $user->two_factor_recovery_codes ?? [];
+        $index = collect($codes)->search(fn (string $stored) => hash_equals($stored, $hash));
+
+        if ($index === false) {
+            return false;
+        }
+
+        array_splice($codes, $index, 1);
+        $user->forceFill(['two_factor_recovery_codes' => $codes])->save();
+
+        $this->loggingService->logAuthEvent('two_factor_recovery_code_used', [
+            'user_id' => $user->id,
+            'remaining' => count($codes),
+        ]);
+
+        return true;
+    }
+
+    /**
+     * The code an authenticator app shows for the secret at the given time.
+     */
+    public function codeAt(string $secret, int $timestamp): string
+    {
+        $counter = pack('J', intdiv($timestamp, self::PERIOD));
+        $hash = hash_hmac('sha1', $counter, $this->base32Decode($secret), true);
+
+        // Dynamic truncation, RFC 4226 section 5.3
+        $offset = ord($hash[strlen($hash) - 1]) & 0x0f;
+        $value = unpack('N', substr($hash, $offset, 4))[1] & 0x7fffffff;
+
+        return str_pad((string) ($value % 10 ** self::DIGITS), self::DIGITS, '0', STR_PAD_LEFT);
+    }
+
+    /**
+     * The URI authenticator apps read from the QR code.
+     */
+    public function otpauthUrl(User $user, string $secret): string
+    {
+        $issuer = (string) config('auth.two_factor.issuer');
+        $label = rawurlencode($issuer) . ':' . rawurlencode($user->email);
+
+        return 'otpauth://totp/' . $label . '?' . http_build_query([
+            'secret' => $secret,
+            'issuer' => $issuer,
+            'algorithm' => 'SHA1',
+            'digits' => self::DIGITS,
+            'period' => self::PERIOD,
+        ], '', '&', PHP_QUERY_RFC3986);
+    }
+
+    /**
+     * A value for the remember cookie. It is signed with the user's secret,
+     * so turning two-factor authentication off forgets all devices.
+     */
+    public function rememberDeviceToken(User $user): string
+    {
+        $expiresAt = now()->addDays($this->rememberDays())->getTimestamp();
+
+        return $user->id . '|' . $expiresAt . '|' . $this->deviceSignature($user, $expiresAt);
+    }
+
+    public function isRememberedDevice(User $user, ?string $token): bool
+    {
+        if (!$token) {
+            return false;
+        }
+
+        [$userId, $expiresAt, $signature] = array_pad(explode('|', $token, 3), 3, '');
+
+        return (int) $userId === $user->id
+            && (int) $expiresAt > now()->getTimestamp()
+            && hash_equals($this->deviceSignature($user, (int) $expiresAt), $signature);
+    }
+
+    public function rememberDays(): int
+    {
+        return (int) config('auth.two_factor.remember_days', 30);
+    }
+
+    /**
+     * 160 random bits, the key length RFC 4226 recommends, as base32.
+     */
+    private function generateSecret(): string
+    {
+        $bits = '';
+        foreach (str_split(random_bytes(20)) as $byte) {
+            $bits .= str_pad(decbin(ord($byte)), 8, '0', STR_PAD_LEFT);
+        }
+
+        return implode('', array_map(
+            fn (string $chunk) => self::BASE32_ALPHABET[bindec($chunk)],
+            str_split($bits, 5)
+        ));
+    }
+
+    private function base32Decode(string $secret): string
+    {
+        $bits = '';
+        foreach (str_split(strtoupper(rtrim($secret, '='))) as $char) {
+            $bits .= str_pad(decbin(strpos(self::BASE32_ALPHABET, $char)), 5, '0', STR_PAD_LEFT);
+        }
+
+        $bytes = '';
+        foreach (str_split($bits, 8) as $chunk) {
+            if (strlen($chunk) === 8) {
+                $bytes .= chr(bindec($chunk));
+            }
+        }
+
+        return $bytes;
+    }
+
+    private function hashRecoveryCode(string $code): string
+    {
+        return hash('sha256', Str::lower(trim($code)));
+    }
+
+    private function deviceSignature(User $user, int $expiresAt): string
+    {
+        return hash_hmac('sha256', $user->id . '|' . $expiresAt . '|' . $user->two_factor_secret, config('app.key'));
+    }
+}
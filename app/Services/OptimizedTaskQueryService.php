@@ -98,7 +98,14 @@ protected function buildOptimizedTaskListQuery(
             ->select([
                 'id',
                 'user_id',
+                'assignee_id',
+                'project_id',
+                'task_number',
                 'parent_id',
+                'sort_order',
+                'recurrence_rule',
+                'series_id',
+                'recurrence_index',
                 'status',
                 'priority',
                 'due_date',
@@ -123,7 +130,12 @@ protected function buildOptimizedTaskListQuery(
                     AND JSON_UNQUOTE(JSON_EXTRACT(description, '$.{$locale}')) != '' 
                     THEN 1 ELSE 0 END as has_description_translation")
             ])
-            ->where('user_id', $user->id);
+            ->with(['blockedBy', 'assignee:id,name', 'project:id,key', 'labels:labels.id,labels.name,labels.color'])
+            ->withCount('comments')
+            ->accessibleBy($user)
+            ->when($filters->assignedToMe, fn ($query) => $query->where('assignee_id', $user->id))
+            ->when($filters->projectId, fn ($query) => $query->where('project_id', $filters->projectId))
+            ->when($filters->labelIds, fn ($query) => $this->applyLabelFilter($query, $filters));
 
         // Apply filters using optimized indexes
         $this->applyOptimizedFilters($query, $filters, $locale);
@@ -134,6 +146,21 @@ protected function buildOptimizedTaskListQuery(
         return $query->paginate($perPage);
     }
 
+    /**
+     * Limit the query to tasks with any, or all, of the filtered labels
+     */
+    protected function applyLabelFilter(Builder $query, TaskFilterDTO $filters): void
+    {
+        if ($filters->labelMatch === TaskFilterDTO::LABELS_ALL) {
+            foreach ($filters->labelIds as $labelId) {
+                $query->whereHas('labels', fn ($labels) => $labels->where('labels.id', $labelId));
+            }
+            return;
+        }
+
+        $query->whereHas('labels', fn ($labels) => $labels->whereIn('labels.id', $filters->labelIds));
+    }
+
     /**
      * Apply optimized filters to the query
      */
@@ -244,6 +271,10 @@ protected function applyOptimizedOrdering(Builder $query, TaskFilterDTO $filters
                 // Uses tasks_updated_at_index
                 $query->orderBy('updated_at', $sortDirection);
                 break;
+            case 'sort_order':
+                // Uses tasks_user_parent_sort_order_index
+                $query->orderBy('sort_order', $sortDirection);
+                break;
             default:
                 // Uses tasks_created_at_index
                 $query->orderBy('created_at', $sortDirection);
@@ -272,7 +303,9 @@ public function getTaskWithTranslations(int $taskId, User $user, string $locale)
             $locale,
             function () use ($taskId, $user) {
                 return Task::where('id', $taskId)
-                          ->where('user_id', $user->id)
+                          ->accessibleBy($user)
+                          ->with(['blockedBy', 'blocking', 'assignee:id,name', 'project:id,key', 'labels:labels.id,labels.name,labels.color'])
+                          ->withCount('comments')
                           ->first();
             },
             [
@@ -291,11 +324,12 @@ function () use ($taskId, $user) {
     }
 
     /**
-     * Get task statistics with caching
+     * Get task statistics with caching, optionally limited to one project
      */
-    public function getTaskStatistics(User $user, string $locale): array
+    public function getTaskStatistics(User $user, string $locale, ?int $projectId = null): array
     {
-        $cacheKey = $this->generateQueryCacheKey('task_statistics', $user->id, $locale);
+        $params = $projectId ? ['project_id' => $projectId] : [];
+        $cacheKey = $this->generateQueryCacheKey('task_statistics', $user->id, $locale, $params);
         
         // Try to get from cache first
         $cachedResult = Cache::get($cacheKey);
@@ -307,7 +341,7 @@ public function getTaskStatistics(User $user, string $locale): array
         $result = $this->performanceMonitor->trackQuery(
             'task_statistics',
             $locale,
-            function () use ($user) {
+            function () use ($user, $projectId) {
                 return DB::table('tasks')
                     ->select([
                         DB::raw('COUNT(*) as total'),
@@ -320,11 +354,13 @@ function () use ($user) {
                         DB::raw("COUNT(CASE WHEN parent_id IS NOT NULL THEN 1 END) as subtasks"),
                     ])
                     ->where('user_id', $user->id)
+                    ->when($projectId, fn ($query) => $query->where('project_id', $projectId))
                     ->whereNull('deleted_at')
                     ->first();
             },
             [
                 'user_id' => $user->id,
+                'project_id' => $projectId,
                 'cached' => false,
             ]
         );
@@ -352,6 +388,7 @@ public function invalidateUserQueryCache(int $userId): void
                     "task_list_{$userId}_{$locale}_*",
                     "task_with_translations_{$userId}_{$locale}_*",
                     "task_statistics_{$userId}_{$locale}",
+                    "task_statistics_{$userId}_{$locale}_*",
                 ];
                 
                 foreach ($patterns as $pattern) {
@@ -368,6 +405,16 @@ public function invalidateUserQueryCache(int $userId): void
         }
     }
 
+    /**
+     * Invalidate the query cache of everyone who can see a task
+     */
+    public function invalidateTaskQueryCache(Task $task): void
+    {
+        foreach ($task->collaboratorIds() as $userId) {
+            $this->invalidateUserQueryCache($userId);
+        }
+    }
+
     /**
      * Get query performance metrics
      */
@@ -0,0 +1,136 @@
+<?php
+
+namespace App\Services\Task;
+
+use App\DTOs\Task\RecurrenceRuleDTO;
+use App\DTOs\Task\UpdateTaskDTO;
+use App\Models\Task;
+use App\Models\User;
+use App\Repositories\Contracts\TaskRepositoryInterface;
+use App\Services\LoggingService;
+use Carbon\CarbonImmutable;
+
+class RecurrenceService
+{
+    public function __construct(
+        private TaskRepositoryInterface $taskRepository
+    ) {}
+
+    /**
+     * Make a task that just got a recurrence rule the first occurrence of a new series.
+     */
+    public function startSeries(Task $task): void
+    {
+        if (!$task->recurrence_rule || $task->series_id) {
+            return;
+        }
+
+        $task->series_id = $task->id;
+        $task->recurrence_index = 1;
+        $task->save();
+    }
+
+    /**
+     * Create the occurrence following a completed one, with its subtasks cloned.
+     * Returns null when the series has ended or the next occurrence already exists.
+     */
+    public function createNextOccurrence(Task $task, User $user): ?Task
+    {
+        if (!$task->recurrence_rule) {
+            return null;
+        }
+
+        $this->startSeries($task);
+        $index = $task->recurrence_index ?? 1;
+
+        // Completing, reopening and completing again must not create a second instance
+        if (Task::inSeries($task->series_id)->where('recurrence_index', $index + 1)->exists()) {
+            return null;
+        }
+
+        // Occurrence dates are calendar days in the user's timezone
+        $timezone = $user->getTimezone();
+        $reference = CarbonImmutable::parse($task->due_date ?? now())->setTimezone($timezone);
+        $nextDate = RecurrenceRuleDTO::fromString($task->recurrence_rule)
+            ->nextOccurrence($reference->startOfDay(), $index);
+
+        if ($nextDate === null) {
+            return null;
+        }
+
+        $dueDate = $task->due_date
+            ? $nextDate->setTime($reference->hour, $reference->minute, $reference->second)
+            : $nextDate->setTime(23, 59, 59);
+        $dayShift = (int) $reference->startOfDay()->diffInDays($nextDate, false);
+
+        $next = $task->replicate(['due_date', 'status', 'sort_order']);
+        $next->status = Task::STATUS_PENDING;
+        $next->due_date = $dueDate->utc();
+        $next->recurrence_index = $index + 1;
+        $next->sort_order = $this->taskRepository->getNextSortOrder($user, $task->parent_id);
+        $next->save();
+
+        foreach ($task->subtasks as $subtask) {
+            $clone = $subtask->replicate(['status', 'recurrence_rule', 'series_id', 'recurrence_index']);
+            $clone->parent_id = $next->id;
+            $clone->status = Task::STATUS_PENDING;
+            $clone->due_date = $subtask->due_date?->copy()->setTimezone($timezone)->addDays($dayShift)->utc();
+            $clone->save();
+        }
+
+        LoggingService::logTaskOperation('recurring_task_created', [
+            'task_id' => $next->id,
+            'user_id' => $user->id,
+            'series_id' => $next->series_id,
+            'recurrence_index' => $next->recurrence_index,
+            'subtask_count' => $task->subtasks->count()
+        ]);
+
+        return $next->load(['subtasks', 'user']);
+    }
+
+    /**
+     * Carry an update over to the later, unfinished occurrences of the task's series.
+     * Rule changes always apply to the rest of the series; other fields only with the "future" scope.
+     *
+     * @return int Number of occurrences updated
+     */
+    public function applyToFutureOccurrences(Task $task, UpdateTaskDTO $dto): int
+    {
+        $this->startSeries($task);
+
+        if (!$task->series_id) {
+            return 0;
+        }
+
+        $attributes = [];
+        if ($dto->isRecurrenceChanging()) {
+            $attributes['recurrence_rule'] = $task->recurrence_rule;
+        }
+        if ($dto->appliesToFutureOccurrences() && $dto->priority !== null) {
+            $attributes['priority'] = $dto->priority;
+        }
+        $translations = $dto->appliesToFutureOccurrences()
+            ? array_filter(['name' => $dto->name, 'description' => $dto->description])
+            : [];
+
+        if (empty($attributes) && empty($translations)) {
+            return 0;
+        }
+
+        $occurrences = Task::inSeries($task->series_id)
+            ->where('recurrence_index', '>', $task->recurrence_index ?? 1)
+            ->whereNotIn('status', [Task::STATUS_COMPLETED, Task::STATUS_CANCELLED])
+            ->get();
+
+        foreach ($occurrences as $occurrence) {
+            foreach ($translations as $field => $values) {
+                $occurrence->setTranslations($field, $values);
+            }
+            $occurrence->fill($attributes);
+            $occurrence->save();
+        }
+
+        return $occurrences->count();
+    }
+}
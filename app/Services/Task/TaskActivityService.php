@@ -0,0 +1,144 @@
+<?php
+
+namespace App\Services\Task;
+
+use App\Exceptions\TaskNotFoundException;
+use App\Models\Task;
+use App\Models\TaskActivity;
+use App\Models\User;
+use App\Repositories\Contracts\TaskRepositoryInterface;
+use Illuminate\Database\Eloquent\Collection;
+
+class TaskActivityService
+{
+    /**
+     * Fields kept in every version of a task, in the order changes are listed.
+     */
+    public const TRACKED_FIELDS = ['name', 'description', 'status', 'priority', 'due_date', 'recurrence_rule'];
+
+    /**
+     * Tracked fields whose changes are recorded per locale.
+     */
+    private const TRANSLATABLE_FIELDS = ['name', 'description'];
+
+    public function __construct(
+        private TaskRepositoryInterface $taskRepository
+    ) {}
+
+    /**
+     * Get a task whose history the user can read.
+     */
+    public function getTask(int $id, User $user): Task
+    {
+        $task = $this->taskRepository->findAccessibleById($id, $user);
+
+        if (!$task) {
+            throw new TaskNotFoundException($id);
+        }
+
+        return $task;
+    }
+
+    /**
+     * Get the history of a task, oldest first, numbered as versions from 1.
+     */
+    public function getActivities(Task $task): Collection
+    {
+        return $task->activities()
+            ->with('user:id,name')
+            ->get()
+            ->each(function (TaskActivity $activity, int $index) {
+                $activity->version = $index + 1;
+            });
+    }
+
+    /**
+     * The tracked fields of a task as they are now.
+     *
+     * @return array<string, mixed>
+     */
+    public function snapshot(Task $task): array
+    {
+        return [
+            'name' => $task->getTranslations('name'),
+            'description' => $task->getTranslations('description'),
+            'status' => $task->status,
+            'priority' => $task->priority,
+            'due_date' => $task->due_date?->toISOString(),
+            'recurrence_rule' => $task->recurrence_rule,
+        ];
+    }
+
+    /**
+     * Record a change to a task. Pass the snapshot taken before an update or translation;
+     * nothing is recorded when it matches the task. Created, deleted and restored
+     * activities are always recorded.
+     *
+     * @param array<string, mixed>|null $before
+     */
+    public function record(Task $task, ?User $user, string $action, ?array $before = null): ?TaskActivity
+    {
+        $snapshot = $this->snapshot($task);
+
+        $changes = match (true) {
+            $action === TaskActivity::ACTION_CREATED => $this->diff([], $snapshot),
+            $before === null => [],
+            default => $this->diff($before, $snapshot),
+        };
+
+        if ($before !== null && empty($changes)) {
+            return null;
+        }
+
+        $activity = $task->activities()->create([
+            'user_id' => $user?->id,
+            'action' => $action,
+            'changes' => $changes,
+            'snapshot' => $snapshot,
+        ]);
+
+        $activity->setRelation('user', $user);
+        $activity->version = $task->activities()->count();
+
+        return $activity;
+    }
+
+    /**
+     * Field by field differences between two snapshots. Translatable fields give one
+     * entry per changed locale.
+     *
+     * @param array<string, mixed> $before
+     * @param array<string, mixed> $after
+     * @return array<int, array{field: string, locale: string|null, from: mixed, to: mixed}>
+     */
+    public function diff(array $before, array $after): array
+    {
+        $changes = [];
+
+        foreach (self::TRACKED_FIELDS as $field) {
+            if (in_array($field, self::TRANSLATABLE_FIELDS, true)) {
+                $old = $before[$field] ?? [];
+                $new = $after[$field] ?? [];
+                $locales = array_unique(array_merge(array_keys($old), array_keys($new)));
+                sort($locales);
+
+                foreach ($locales as $locale) {
+                    $from = ($old[$locale] ?? '') !== '' ? $old[$locale] : null;
+                    $to = ($new[$locale] ?? '') !== '' ? $new[$locale] : null;
+                    if ($from !== $to) {
+                        $changes[] = ['field' => $field, 'locale' => $locale, 'from' => $from, 'to' => $to];
+                    }
+                }
+                continue;
+            }
+
+            $from = $before[$field] ?? null;
+            $to = $after[$field] ?? null;
+            if ($from !== $to) {
+                $changes[] = ['field' => $field, 'locale' => null, 'from' => $from, 'to' => $to];
+            }
+        }
+
+        return $changes;
+    }
+}
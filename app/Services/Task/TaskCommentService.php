@@ -0,0 +1,215 @@
+<?php
+
+namespace App\Services\Task;
+
+use App\Exceptions\CommentNotFoundException;
+use App\Exceptions\TaskNotFoundException;
+use App\Http\Resources\TaskCommentResource;
+use App\Models\Task;
+use App\Models\TaskComment;
+use App\Models\User;
+use App\Repositories\Contracts\TaskRepositoryInterface;
+use App\Services\LocaleCacheService;
+use App\Services\LoggingService;
+use App\Services\OptimizedTaskQueryService;
+use App\Services\TaskCacheService;
+use App\Services\TaskEventService;
+use App\Services\TaskJobDispatcher;
+use Illuminate\Database\Eloquent\Collection;
+use Illuminate\Support\Facades\DB;
+
+class TaskCommentService
+{
+    /**
+     * Maximum number of users offered by the mention autocomplete.
+     */
+    public const MENTION_SUGGESTIONS = 8;
+
+    public function __construct(
+        private TaskRepositoryInterface $taskRepository,
+        private TaskCacheService $cacheService,
+        private TaskEventService $eventService,
+        private TaskJobDispatcher $jobDispatcher,
+        private OptimizedTaskQueryService $optimizedQueryService,
+        private LocaleCacheService $localeCacheService
+    ) {}
+
+    /**
+     * Get a task whose comments the user can read.
+     */
+    public function getTask(int $id, User $user): Task
+    {
+        $task = $this->taskRepository->findAccessibleById($id, $user);
+
+        if (!$task) {
+            throw new TaskNotFoundException($id);
+        }
+
+        return $task;
+    }
+
+    /**
+     * Get the comment thread of a task, oldest first.
+     */
+    public function getComments(Task $task): Collection
+    {
+        return $task->comments()->with('user:id,name')->get();
+    }
+
+    /**
+     * Users who can read the task and can therefore be mentioned, matched on name.
+     */
+    public function getMentionableUsers(Task $task, ?string $search = null): Collection
+    {
+        return User::query()
+            ->whereIn('id', $this->participantIds($task))
+            ->when($search, fn ($query) => $query->where('name', 'like', '%' . addcslashes($search, '%_\\') . '%'))
+            ->orderBy('name')
+            ->limit(self::MENTION_SUGGESTIONS)
+            ->get(['id', 'name']);
+    }
+
+    /**
+     * Add a comment and notify the users it mentions.
+     */
+    public function addComment(Task $task, string $body, User $author): TaskComment
+    {
+        $comment = DB::transaction(function () use ($task, $body, $author) {
+            return $task->comments()->create([
+                'user_id' => $author->id,
+                'body' => $body,
+                'mentions' => $this->mentionIds($task, $body),
+            ]);
+        });
+
+        $comment->load('user:id,name');
+
+        $this->notifyMentions($comment, $comment->mentions, $author);
+        $this->afterChange($task, $comment, 'created');
+
+        LoggingService::logTaskOperation('task_comment_created', [
+            'task_id' => $task->id,
+            'comment_id' => $comment->id,
+            'user_id' => $author->id,
+            'mentions' => $comment->mentions,
+        ]);
+
+        return $comment;
+    }
+
+    /**
+     * Edit one of the author's own comments. Only users mentioned for the first time are notified.
+     */
+    public function updateComment(Task $task, int $commentId, string $body, User $author): TaskComment
+    {
+        $comment = $this->findOwnComment($task, $commentId, $author);
+        $previousMentions = $comment->mentions ?? [];
+
+        $comment->update([
+            'body' => $body,
+            'mentions' => $this->mentionIds($task, $body),
+            'edited_at' => now(),
+        ]);
+
+        $comment->load('user:id,name');
+
+        $this->notifyMentions($comment, array_diff($comment->mentions, $previousMentions), $author);
+        $this->afterChange($task, $comment, 'updated');
+
+        LoggingService::logTaskOperation('task_comment_updated', [
+            'task_id' => $task->id,
+            'comment_id' => $comment->id,
+            'user_id' => $author->id,
+        ]);
+
+        return $comment;
+    }
+
+    /**
+     * Delete one of the author's own comments.
+     */
+    public function deleteComment(Task $task, int $commentId, User $author): void
+    {
+        $comment = $this->findOwnComment($task, $commentId, $author);
+        $comment->delete();
+
+        $this->afterChange($task, $comment, 'deleted');
+
+        LoggingService::logTaskOperation('task_comment_deleted', [
+            'task_id' => $task->id,
+            'comment_id' => $commentId,
+            'user_id' => $author->id,
+        ]);
+    }
+
+    /**
+     * Comments can only be changed by the person who wrote them.
+     */
+    private function findOwnComment(Task $task, int $commentId, User $author): TaskComment
+    {
+        $comment = $task->comments()
+            ->where('user_id', $author->id)
+            ->find($commentId);
+
+        if (!$comment) {
+            throw new CommentNotFoundException($commentId);
+        }
+
+        return $comment;
+    }
+
+    /**
+     * Ids of the users who can read the task: its owner and the collaborators it is shared with.
+     *
+     * @return array<int, int>
+     */
+    private function participantIds(Task $task): array
+    {
+        return $task->collaboratorIds();
+    }
+
+    /**
+     * Mentions in the body that point at someone who can read the task.
+     *
+     * @return array<int, int>
+     */
+    private function mentionIds(Task $task, string $body): array
+    {
+        return array_values(array_intersect(
+            TaskComment::extractMentionIds($body),
+            $this->participantIds($task)
+        ));
+    }
+
+    /**
+     * @param array<int, int> $userIds
+     */
+    private function notifyMentions(TaskComment $comment, array $userIds, User $author): void
+    {
+        foreach ($userIds as $userId) {
+            // Mentioning yourself does not send an email
+            if ($userId !== $author->id) {
+                $this->jobDispatcher->dispatchMentionNotification($comment, $userId);
+            }
+        }
+    }
+
+    /**
+     * Refresh the cached task lists, whose comment counts just changed, and tell open clients.
+     */
+    private function afterChange(Task $task, TaskComment $comment, string $change): void
+    {
+        $this->cacheService->clearTaskCache($task);
+        $this->localeCacheService->invalidateTaskCache($task->id);
+        $this->optimizedQueryService->invalidateTaskQueryCache($task);
+
+        $this->eventService->broadcastTaskCommented(
+            $task->id,
+            $task->user_id,
+            $change,
+            (new TaskCommentResource($comment))->resolve(),
+            $task->comments()->count(),
+            $task->collaboratorIds()
+        );
+    }
+}
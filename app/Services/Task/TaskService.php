@@ -9,7 +9,14 @@
 use App\Exceptions\TaskNotFoundException;
 use App\Exceptions\DomainException;
 use App\Exceptions\InvalidTaskHierarchyException;
+use App\Exceptions\InvalidTaskDependencyException;
+use App\Exceptions\InvalidRecurrenceRuleException;
+use App\Exceptions\InvalidTaskShareException;
+use App\Exceptions\TaskAccessDeniedException;
+use App\Exceptions\TaskBlockedException;
+use App\Http\Resources\TaskActivityResource;
 use App\Models\Task;
+use App\Models\TaskActivity;
 use App\Models\User;
 use App\Repositories\Contracts\TaskRepositoryInterface;
 use App\Services\BaseService;
@@ -29,25 +36,62 @@ public function __construct(
         private TaskEventService $eventService,
         private TaskJobDispatcher $jobDispatcher,
         private LoggingService $loggingService,
-        private OptimizedTaskQueryService $optimizedQueryService
+        private OptimizedTaskQueryService $optimizedQueryService,
+        private RecurrenceService $recurrenceService,
+        private TaskActivityService $activityService,
+        private TaskShareService $shareService
     ) {}
 
     /**
      * Create a new task for a user using DTO and repository.
+     * Subtasks added by an editor of a shared task belong to the owner of the parent.
      */
     public function createTask(CreateTaskDTO $dto, User $user): Task
     {
         return DB::transaction(function () use ($dto, $user) {
+            $owner = $user;
+            $collaboratorIds = [$user->id];
+
             // Business validation: parent task
             if ($dto->parentId) {
-                $this->validateParentTask($dto->parentId, $user);
+                $parentTask = $this->shareService->getTask($dto->parentId, $user);
+                $this->shareService->ensureCanEdit($parentTask, $user);
+                $owner = $parentTask->user;
+                $collaboratorIds = $parentTask->collaboratorIds();
+
+                $this->validateParentTask($dto->parentId, $owner);
+            }
+
+            if ($dto->parentId && $dto->isRecurring()) {
+                throw new InvalidRecurrenceRuleException('Only top-level tasks can repeat.');
+            }
+
+            if ($dto->assigneeId !== null) {
+                $this->ensureAssignable($dto->assigneeId, $collaboratorIds);
             }
 
-            $task = $this->taskRepository->createFromDTO($dto, $user);
-            $task->load(['subtasks', 'parent', 'user']);
+            // Labels belong to the owner of the task
+            if ($dto->hasLabels() && $owner->id !== $user->id) {
+                throw new TaskAccessDeniedException('Only the owner of the task can label it.');
+            }
+
+            $task = $this->taskRepository->createFromDTO($dto, $owner);
+            $this->recurrenceService->startSeries($task);
+
+            if ($dto->hasDependencies()) {
+                $this->syncDependencies($task, $dto->blockedBy, $owner);
+                $this->ensureNotBlocked($task, $task->status);
+            }
+
+            if ($dto->hasLabels()) {
+                $this->syncLabels($task, $dto->labelIds, $owner);
+            }
+
+            $task->load(['subtasks', 'parent', 'user', 'blockedBy', 'assignee', 'project', 'labels']);
+            $this->activityService->record($task, $user, TaskActivity::ACTION_CREATED);
 
             // Invalidate optimized query cache
-            $this->optimizedQueryService->invalidateUserQueryCache($user->id);
+            $this->optimizedQueryService->invalidateTaskQueryCache($task);
 
             $taskDto = new TaskDTO($task);
             $this->eventService->broadcastTaskCreated($taskDto);
@@ -71,9 +115,27 @@ public function createTask(CreateTaskDTO $dto, User $user): Task
     public function updateTask(Task $task, UpdateTaskDTO $dto, User $user): Task
     {
         return DB::transaction(function () use ($task, $dto, $user) {
-            // Ownership check
-            if ($task->user_id !== $user->id) {
-                throw new TaskNotFoundException('Task not found or not owned by user.');
+            // Access check: the owner and editors can change the task
+            $this->shareService->ensureCanEdit($task, $user);
+            $owner = $task->user;
+
+            // Moving a task between parents changes who it is shared with
+            if (($dto->parentId || $dto->clearParent) && $owner->id !== $user->id) {
+                throw new TaskAccessDeniedException('Only the owner of the task can move it.');
+            }
+
+            // Projects belong to the owner; subtasks stay in the project of their parent
+            if ($dto->isProjectChanging()) {
+                if ($owner->id !== $user->id) {
+                    throw new TaskAccessDeniedException('Only the owner of the task can move it to another project.');
+                }
+                if ($dto->parentId || ($task->parent_id && !$dto->clearParent)) {
+                    throw new InvalidTaskHierarchyException('Subtasks are in the project of their parent task.');
+                }
+            }
+
+            if ($dto->isLabelsChanging() && $owner->id !== $user->id) {
+                throw new TaskAccessDeniedException('Only the owner of the task can label it.');
             }
 
             // Business validation: parent task
@@ -81,24 +143,92 @@ public function updateTask(Task $task, UpdateTaskDTO $dto, User $user): Task
                 $this->validateParentTask($dto->parentId, $user, $task->id);
             }
 
+            if ($dto->assigneeId !== null) {
+                $this->ensureAssignable($dto->assigneeId, $task->collaboratorIds());
+            }
+
+            if ($dto->recurrenceRule !== null && ($dto->parentId || ($task->parent_id && !$dto->clearParent))) {
+                throw new InvalidRecurrenceRuleException('Only top-level tasks can repeat.');
+            }
+
             $originalData = $task->toArray();
+            $originalSnapshot = $this->activityService->snapshot($task);
+            $originalBlockerIds = $task->blockedBy()->pluck('tasks.id')->sort()->values()->all();
+            $originalLabelIds = $task->labels()->pluck('labels.id')->sort()->values()->all();
+
+            if ($dto->isDependenciesChanging()) {
+                $this->syncDependencies($task, $dto->blockedBy, $owner);
+            }
+
+            if ($dto->isLabelsChanging()) {
+                $this->syncLabels($task, $dto->labelIds, $owner);
+            }
+
+            // Only moving into a blocked status is refused; adding a blocker to started work is allowed
+            if ($dto->status !== null && $dto->status !== $task->status) {
+                $this->ensureNotBlocked($task, $dto->status);
+            }
+
             $task = $this->taskRepository->updateFromDTO($task, $dto);
-            $task->load(['subtasks', 'parent', 'user']);
+
+            // Rule changes always carry over to the rest of the series, other edits only when asked to
+            if ($dto->isRecurrenceChanging() || $dto->appliesToFutureOccurrences()) {
+                $this->recurrenceService->applyToFutureOccurrences($task, $dto);
+            }
+
+            $task->load(['subtasks', 'parent', 'user', 'blockedBy', 'assignee', 'project', 'labels']);
 
             $changes = $this->calculateChanges($originalData, $task->toArray());
+            $blockerIds = $task->blockedBy->pluck('id')->sort()->values()->all();
+            if ($blockerIds !== $originalBlockerIds) {
+                $changes['blocked_by'] = [
+                    'from' => $originalBlockerIds,
+                    'to' => $blockerIds
+                ];
+            }
+            $labelIds = $task->labels->pluck('id')->sort()->values()->all();
+            if ($labelIds !== $originalLabelIds) {
+                $changes['labels'] = [
+                    'from' => $originalLabelIds,
+                    'to' => $labelIds
+                ];
+            }
+
+            $activity = $this->activityService->record($task, $user, TaskActivity::ACTION_UPDATED, $originalSnapshot);
+
+            // Completing an occurrence of a recurring task schedules the next one
+            $nextOccurrence = null;
+            if (isset($changes['status']) && $task->status === Task::STATUS_COMPLETED && $task->isRecurring()) {
+                $nextOccurrence = $this->recurrenceService->createNextOccurrence($task, $owner);
+                if ($nextOccurrence) {
+                    $task->setRelation('nextOccurrence', $nextOccurrence);
+                    $this->activityService->record($nextOccurrence, $user, TaskActivity::ACTION_CREATED);
+                }
+            }
+
             $this->cacheService->clearTaskCache($task);
 
             // Invalidate optimized query cache
-            $this->optimizedQueryService->invalidateUserQueryCache($user->id);
+            $this->optimizedQueryService->invalidateTaskQueryCache($task);
 
             $taskDto = new TaskDTO($task);
-            $this->eventService->broadcastTaskUpdated($taskDto, $changes);
+            $this->eventService->broadcastTaskUpdated(
+                $taskDto,
+                $changes,
+                $activity ? (new TaskActivityResource($activity))->resolve() : null
+            );
+            if ($nextOccurrence) {
+                $this->eventService->broadcastTaskCreated(new TaskDTO($nextOccurrence));
+            }
 
             if (!empty($changes)) {
                 $this->jobDispatcher->dispatchTaskUpdatedNotification($task, ['changes' => $changes]);
                 if (isset($changes['status']) && $task->status === Task::STATUS_COMPLETED) {
                     $this->jobDispatcher->dispatchTaskCompletedNotification($task);
                 }
+                if (isset($changes['status']) && $task->isFinished()) {
+                    $this->notifyUnblockedTasks($task);
+                }
             }
             LoggingService::logTaskOperation('task_updated', [
                 'task_id' => $task->id,
@@ -109,6 +239,30 @@ public function updateTask(Task $task, UpdateTaskDTO $dto, User $user): Task
         });
     }
 
+    /**
+     * Update several tasks at once, e.g. to add or remove a label. Either every update is applied or none.
+     *
+     * @param array<int, array{id: int, data: array}> $updates
+     */
+    public function bulkUpdateTasks(array $updates, User $user): Collection
+    {
+        return DB::transaction(function () use ($updates, $user) {
+            $tasks = new Collection();
+
+            foreach ($updates as $update) {
+                $task = $this->shareService->getTask((int) $update['id'], $user);
+                $tasks->push($this->updateTask($task, UpdateTaskDTO::fromArray($update['data']), $user));
+            }
+
+            LoggingService::logTaskOperation('tasks_bulk_updated', [
+                'task_ids' => $tasks->pluck('id')->all(),
+                'user_id' => $user->id
+            ]);
+
+            return $tasks;
+        });
+    }
+
     /**
      * Delete (soft delete) a task for a user.
      */
@@ -120,13 +274,15 @@ public function deleteTask(Task $task, User $user): void
             }
             $taskId = $task->id;
             $userId = $task->user_id;
+            $collaboratorIds = $task->collaboratorIds();
 
             $task->delete();
+            $this->activityService->record($task, $user, TaskActivity::ACTION_DELETED);
 
             // Invalidate optimized query cache
-            $this->optimizedQueryService->invalidateUserQueryCache($user->id);
+            $this->optimizedQueryService->invalidateTaskQueryCache($task);
 
-            $this->eventService->broadcastTaskDeleted($taskId, $userId);
+            $this->eventService->broadcastTaskDeleted($taskId, $userId, $collaboratorIds);
 
             $this->cacheService->clearTaskCache($task);
             $this->jobDispatcher->dispatchTaskDeletedNotification($task);
@@ -137,6 +293,44 @@ public function deleteTask(Task $task, User $user): void
         });
     }
 
+    /**
+     * Restore a soft-deleted task for a user.
+     */
+    public function restoreTask(int $id, User $user): Task
+    {
+        return DB::transaction(function () use ($id, $user) {
+            $task = Task::onlyTrashed()
+                ->where('user_id', $user->id)
+                ->find($id);
+
+            if (!$task) {
+                throw new TaskNotFoundException($id);
+            }
+
+            // A subtask can only come back under a parent that still exists
+            if ($task->parent_id && !Task::whereKey($task->parent_id)->exists()) {
+                throw new InvalidTaskHierarchyException('Restore the parent task first.');
+            }
+
+            $task->restore();
+            $task->load(['subtasks', 'parent', 'user', 'blockedBy', 'assignee', 'project', 'labels']);
+            $this->activityService->record($task, $user, TaskActivity::ACTION_RESTORED);
+
+            // Invalidate optimized query cache
+            $this->optimizedQueryService->invalidateTaskQueryCache($task);
+
+            $this->eventService->broadcastTaskCreated(new TaskDTO($task));
+            $this->cacheService->clearTaskCache($task);
+
+            LoggingService::logTaskOperation('task_restored', [
+                'task_id' => $task->id,
+                'user_id' => $user->id
+            ]);
+
+            return $task;
+        });
+    }
+
     /**
      * Get tasks for a user with filtering and pagination using optimized queries.
      */
@@ -171,12 +365,157 @@ public function getTaskById(int $id, User $user): Task
     }
 
     /**
-     * Get task statistics for a user with caching
+     * Get task statistics for a user, or for one of their projects, with caching
      */
-    public function getTaskStatistics(User $user): array
+    public function getTaskStatistics(User $user, ?int $projectId = null): array
     {
         $locale = app()->getLocale();
-        return $this->optimizedQueryService->getTaskStatistics($user, $locale);
+        return $this->optimizedQueryService->getTaskStatistics($user, $locale, $projectId);
+    }
+
+    /**
+     * Persist a drag-and-drop order for root tasks or the subtasks of a parent.
+     */
+    public function reorderTasks(User $user, array $orderedIds, ?int $parentId = null): Collection
+    {
+        return DB::transaction(function () use ($user, $orderedIds, $parentId) {
+            if ($parentId) {
+                $parentTask = $this->taskRepository->findByIdAndUser($parentId, $user);
+                if (!$parentTask) {
+                    throw new TaskNotFoundException('Parent task not found.');
+                }
+            }
+
+            $this->taskRepository->reorder($user, $parentId, $orderedIds);
+            $this->optimizedQueryService->invalidateUserQueryCache($user->id);
+
+            $tasks = Task::where('user_id', $user->id)
+                ->where('parent_id', $parentId)
+                ->orderBy('sort_order')
+                ->get();
+
+            foreach ($tasks as $task) {
+                $this->cacheService->clearTaskCache($task);
+            }
+
+            LoggingService::logTaskOperation('tasks_reordered', [
+                'user_id' => $user->id,
+                'parent_id' => $parentId,
+                'task_ids' => $orderedIds
+            ]);
+
+            return $tasks;
+        });
+    }
+
+    /**
+     * Move a subtask under another parent task at the given position.
+     */
+    public function moveSubtask(Task $subtask, int $newParentId, ?int $position, User $user): Task
+    {
+        return DB::transaction(function () use ($subtask, $newParentId, $position, $user) {
+            if ($subtask->user_id !== $user->id) {
+                throw new TaskNotFoundException('Task not found or not owned by user.');
+            }
+            if ($subtask->hasSubtasks()) {
+                throw new InvalidTaskHierarchyException('A task with subtasks cannot become a subtask. Maximum nesting level is 2.');
+            }
+
+            $this->validateParentTask($newParentId, $user, $subtask->id);
+
+            $originalParentId = $subtask->parent_id;
+            $siblingIds = Task::where('user_id', $user->id)
+                ->where('parent_id', $newParentId)
+                ->where('id', '!=', $subtask->id)
+                ->orderBy('sort_order')
+                ->pluck('id')
+                ->all();
+
+            $position = $position === null ? count($siblingIds) : max(0, min($position, count($siblingIds)));
+            array_splice($siblingIds, $position, 0, [$subtask->id]);
+
+            $subtask->parent_id = $newParentId;
+            $subtask->save();
+
+            $this->taskRepository->reorder($user, $newParentId, $siblingIds);
+            $subtask = $subtask->fresh(['parent', 'user']);
+
+            $this->cacheService->clearTaskCache($subtask);
+            $this->optimizedQueryService->invalidateUserQueryCache($user->id);
+
+            $changes = $originalParentId !== $newParentId
+                ? ['parent_id' => ['from' => $originalParentId, 'to' => $newParentId]]
+                : [];
+            $this->eventService->broadcastTaskUpdated(new TaskDTO($subtask), $changes);
+
+            LoggingService::logTaskOperation('subtask_moved', [
+                'task_id' => $subtask->id,
+                'user_id' => $user->id,
+                'from_parent_id' => $originalParentId,
+                'to_parent_id' => $newParentId,
+                'position' => $position
+            ]);
+
+            return $subtask;
+        });
+    }
+
+    /**
+     * Apply a bulk operation (status update or delete) to subtasks of a parent.
+     */
+    public function bulkSubtaskOperation(int $parentId, string $operation, array $subtaskIds, User $user, ?string $status = null): int
+    {
+        return DB::transaction(function () use ($parentId, $operation, $subtaskIds, $user, $status) {
+            $parentTask = $this->taskRepository->findByIdAndUser($parentId, $user);
+            if (!$parentTask) {
+                throw new TaskNotFoundException('Parent task not found.');
+            }
+
+            // Only act on subtasks that actually belong to this parent
+            $ids = $parentTask->subtasks()->whereIn('id', $subtaskIds)->pluck('id')->all();
+            $originalSnapshots = Task::whereIn('id', $ids)->get()
+                ->mapWithKeys(fn (Task $task) => [$task->id => $this->activityService->snapshot($task)]);
+
+            $affected = match ($operation) {
+                'update_status' => $this->taskRepository->bulkUpdateStatus($user, $ids, $status),
+                'delete' => $this->taskRepository->bulkDelete($user, $ids),
+                default => throw new \InvalidArgumentException("Unsupported bulk operation: {$operation}"),
+            };
+
+            $this->cacheService->clearTaskCache($parentTask);
+            $this->optimizedQueryService->invalidateTaskQueryCache($parentTask);
+            $collaboratorIds = $parentTask->collaboratorIds();
+
+            foreach ($ids as $id) {
+                if ($operation === 'delete') {
+                    $task = Task::withTrashed()->find($id);
+                    if ($task) {
+                        $this->activityService->record($task, $user, TaskActivity::ACTION_DELETED);
+                    }
+                    $this->eventService->broadcastTaskDeleted($id, $user->id, $collaboratorIds);
+                    continue;
+                }
+
+                $task = Task::find($id);
+                if ($task) {
+                    $activity = $this->activityService->record($task, $user, TaskActivity::ACTION_UPDATED, $originalSnapshots[$id] ?? null);
+                    $this->eventService->broadcastTaskUpdated(
+                        new TaskDTO($task),
+                        ['status' => ['from' => $originalSnapshots[$id]['status'] ?? null, 'to' => $status]],
+                        $activity ? (new TaskActivityResource($activity))->resolve() : null
+                    );
+                }
+            }
+
+            LoggingService::logTaskOperation('subtasks_bulk_' . $operation, [
+                'parent_id' => $parentId,
+                'user_id' => $user->id,
+                'task_ids' => $ids,
+                'status' => $status
+            ]);
+
+            return $affected;
+        });
     }
 
     /**
@@ -196,6 +535,100 @@ private function validateParentTask(int $parentId, User $user, ?int $childId = n
         }
     }
 
+    /**
+     * Tasks can only be assigned to their owner or to a collaborator of the shared task.
+     *
+     * @param array<int, int> $collaboratorIds
+     */
+    private function ensureAssignable(int $assigneeId, array $collaboratorIds): void
+    {
+        if (!in_array($assigneeId, $collaboratorIds)) {
+            throw new InvalidTaskShareException('Tasks can only be assigned to people they are shared with.');
+        }
+    }
+
+    /**
+     * Replace the tasks blocking a task, refusing unknown tasks and dependency cycles.
+     */
+    private function syncDependencies(Task $task, array $blockerIds, User $user): void
+    {
+        $blockerIds = array_values(array_unique($blockerIds));
+
+        $ownedCount = Task::where('user_id', $user->id)->whereIn('id', $blockerIds)->count();
+        if ($ownedCount !== count($blockerIds)) {
+            throw new InvalidTaskDependencyException('Blocking task not found.');
+        }
+
+        foreach ($blockerIds as $blockerId) {
+            if ($blockerId === $task->id) {
+                throw new InvalidTaskDependencyException('A task cannot block itself.');
+            }
+            if ($task->wouldCreateDependencyCycle($blockerId)) {
+                throw new InvalidTaskDependencyException('This dependency would create a cycle: the blocking task already waits on this task.');
+            }
+        }
+
+        $task->blockedBy()->sync($blockerIds);
+        $task->unsetRelation('blockedBy');
+    }
+
+    /**
+     * Replace the labels of a task with labels of its owner.
+     */
+    private function syncLabels(Task $task, array $labelIds, User $owner): void
+    {
+        $labelIds = $owner->labels()->whereIn('id', array_unique($labelIds))->pluck('id')->all();
+
+        $task->labels()->sync($labelIds);
+        $task->unsetRelation('labels');
+    }
+
+    /**
+     * Refuse moving a task into a status its unfinished blockers forbid.
+     */
+    private function ensureNotBlocked(Task $task, string $status): void
+    {
+        if (!in_array($status, Task::BLOCKED_STATUSES, true)) {
+            return;
+        }
+
+        $openBlockers = $task->getOpenBlockers();
+        if ($openBlockers->isNotEmpty()) {
+            $names = $openBlockers->map(fn (Task $blocker) => $blocker->getLocalizedName())->implode(', ');
+            throw new TaskBlockedException(
+                "This task is blocked by unfinished tasks: {$names}.",
+                $openBlockers->pluck('id')->all()
+            );
+        }
+    }
+
+    /**
+     * Notify the owners of tasks whose last unfinished blocker was just finished.
+     */
+    private function notifyUnblockedTasks(Task $blocker): void
+    {
+        $blocker->load('blocking.blockedBy');
+
+        foreach ($blocker->blocking as $dependent) {
+            if ($dependent->isFinished() || $dependent->isBlocked()) {
+                continue;
+            }
+
+            $this->cacheService->clearTaskCache($dependent);
+            $this->optimizedQueryService->invalidateUserQueryCache($dependent->user_id);
+            $this->jobDispatcher->dispatchTaskUnblockedNotification($dependent, [
+                'blocker_id' => $blocker->id,
+                'blocker_name' => $blocker->getLocalizedName(),
+            ]);
+
+            LoggingService::logTaskOperation('task_unblocked', [
+                'task_id' => $dependent->id,
+                'user_id' => $dependent->user_id,
+                'blocker_id' => $blocker->id
+            ]);
+        }
+    }
+
     /**
      * Calculate changes between two arrays (for update tracking).
      */
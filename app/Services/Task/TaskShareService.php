@@ -0,0 +1,215 @@
+<?php
+
+namespace App\Services\Task;
+
+use App\Exceptions\InvalidTaskShareException;
+use App\Exceptions\ShareNotFoundException;
+use App\Exceptions\TaskAccessDeniedException;
+use App\Exceptions\TaskNotFoundException;
+use App\Http\Resources\TaskShareResource;
+use App\Models\Task;
+use App\Models\TaskShare;
+use App\Models\User;
+use App\Repositories\Contracts\TaskRepositoryInterface;
+use App\Services\LoggingService;
+use App\Services\OptimizedTaskQueryService;
+use App\Services\TaskCacheService;
+use App\Services\TaskEventService;
+use Illuminate\Database\Eloquent\Collection;
+use Illuminate\Support\Facades\DB;
+
+class TaskShareService
+{
+    public function __construct(
+        private TaskRepositoryInterface $taskRepository,
+        private TaskCacheService $cacheService,
+        private TaskEventService $eventService,
+        private OptimizedTaskQueryService $optimizedQueryService
+    ) {}
+
+    /**
+     * Get a task the user owns or that was shared with them.
+     */
+    public function getTask(int $id, User $user): Task
+    {
+        $task = $this->taskRepository->findAccessibleById($id, $user);
+
+        if (!$task) {
+            throw new TaskNotFoundException($id);
+        }
+
+        return $task;
+    }
+
+    /**
+     * Make sure the user can change the task: viewers get a 403, users without access a 404.
+     */
+    public function ensureCanEdit(Task $task, User $user): void
+    {
+        $role = $task->roleFor($user);
+
+        if ($role === null) {
+            throw new TaskNotFoundException($task->id);
+        }
+
+        if ($role === TaskShare::ROLE_VIEWER) {
+            throw new TaskAccessDeniedException();
+        }
+    }
+
+    /**
+     * Get the collaborators of a task, in the order they were added.
+     */
+    public function getShares(Task $task): Collection
+    {
+        return TaskShare::where('task_id', $task->getRootId())
+            ->with('user:id,name,email')
+            ->orderBy('id')
+            ->get();
+    }
+
+    /**
+     * Share a top-level task, and with it its subtasks, with the user registered under the email.
+     * Sharing again with the same user changes their role.
+     */
+    public function shareTask(Task $task, string $email, string $role, User $owner): TaskShare
+    {
+        $this->ensureOwner($task, $owner);
+
+        if ($task->isSubtask()) {
+            throw new InvalidTaskShareException('Subtasks are shared with their parent task.');
+        }
+
+        $user = User::where('email', $email)->first();
+
+        if (!$user) {
+            throw new InvalidTaskShareException('No account uses this email address.');
+        }
+
+        if ($user->id === $task->user_id) {
+            throw new InvalidTaskShareException('You already own this task.');
+        }
+
+        $share = TaskShare::updateOrCreate(
+            ['task_id' => $task->id, 'user_id' => $user->id],
+            ['role' => $role]
+        );
+
+        $share->load('user:id,name,email');
+
+        $this->afterChange($task, $share, $share->wasRecentlyCreated ? 'created' : 'updated', $task->collaboratorIds());
+
+        LoggingService::logTaskOperation('task_shared', [
+            'task_id' => $task->id,
+            'share_id' => $share->id,
+            'shared_with' => $user->id,
+            'role' => $role,
+            'user_id' => $owner->id,
+        ]);
+
+        return $share;
+    }
+
+    /**
+     * Change the role of a collaborator.
+     */
+    public function updateShare(Task $task, int $shareId, string $role, User $owner): TaskShare
+    {
+        $this->ensureOwner($task, $owner);
+
+        $share = $this->findShare($task, $shareId);
+        $share->update(['role' => $role]);
+        $share->load('user:id,name,email');
+
+        $this->afterChange($task, $share, 'updated', $task->collaboratorIds());
+
+        LoggingService::logTaskOperation('task_share_updated', [
+            'task_id' => $task->id,
+            'share_id' => $share->id,
+            'role' => $role,
+            'user_id' => $owner->id,
+        ]);
+
+        return $share;
+    }
+
+    /**
+     * Stop sharing a task with a collaborator. The owner can remove anyone, a collaborator can leave.
+     * Subtasks assigned to the removed user become unassigned.
+     */
+    public function removeShare(Task $task, int $shareId, User $user): void
+    {
+        $share = $this->findShare($task, $shareId);
+
+        if ($task->user_id !== $user->id && $share->user_id !== $user->id) {
+            throw new ShareNotFoundException($shareId);
+        }
+
+        // The removed user still needs to hear about it, so collaborators are read before the delete
+        $collaboratorIds = $task->collaboratorIds();
+        $rootId = $task->getRootId();
+
+        DB::transaction(function () use ($share, $rootId) {
+            Task::where(fn ($query) => $query->where('id', $rootId)->orWhere('parent_id', $rootId))
+                ->where('assignee_id', $share->user_id)
+                ->update(['assignee_id' => null]);
+
+            $share->delete();
+        });
+
+        $this->afterChange($task, $share, 'deleted', $collaboratorIds);
+
+        LoggingService::logTaskOperation('task_share_removed', [
+            'task_id' => $task->id,
+            'share_id' => $share->id,
+            'removed_user' => $share->user_id,
+            'user_id' => $user->id,
+        ]);
+    }
+
+    /**
+     * Only the owner decides who the task is shared with.
+     */
+    private function ensureOwner(Task $task, User $user): void
+    {
+        if ($task->user_id !== $user->id) {
+            throw new TaskAccessDeniedException('Only the owner of the task can change who it is shared with.');
+        }
+    }
+
+    private function findShare(Task $task, int $shareId): TaskShare
+    {
+        $share = TaskShare::where('task_id', $task->getRootId())
+            ->with('user:id,name,email')
+            ->find($shareId);
+
+        if (!$share) {
+            throw new ShareNotFoundException($shareId);
+        }
+
+        return $share;
+    }
+
+    /**
+     * Refresh the task lists of everyone involved and tell their open clients.
+     *
+     * @param array<int, int> $collaboratorIds
+     */
+    private function afterChange(Task $task, TaskShare $share, string $change, array $collaboratorIds): void
+    {
+        $this->cacheService->clearTaskDetailsCache($task->getRootId());
+
+        foreach ($collaboratorIds as $userId) {
+            $this->cacheService->clearUserTasksCache($userId);
+            $this->optimizedQueryService->invalidateUserQueryCache($userId);
+        }
+
+        $this->eventService->broadcastTaskShared(
+            $task->getRootId(),
+            $task->user_id,
+            $change,
+            (new TaskShareResource($share))->resolve(),
+            $collaboratorIds
+        );
+    }
+}
@@ -0,0 +1,203 @@
+<?php
+
+namespace App\Services\Task;
+
+use App\DTOs\Task\TaskDTO;
+use App\Exceptions\TaskNotFoundException;
+use App\Http\Resources\TaskActivityResource;
+use App\Models\Task;
+use App\Models\TaskActivity;
+use App\Models\User;
+use App\Repositories\Contracts\TaskRepositoryInterface;
+use App\Services\LoggingService;
+use App\Services\OptimizedTaskQueryService;
+use App\Services\TaskCacheService;
+use App\Services\TaskEventService;
+use Illuminate\Support\Facades\DB;
+
+class TaskTranslationService
+{
+    /**
+     * Fields translators fill in, in the order they are shown.
+     */
+    public const FIELDS = ['name', 'description'];
+
+    public function __construct(
+        private TaskRepositoryInterface $taskRepository,
+        private TaskCacheService $cacheService,
+        private TaskEventService $eventService,
+        private OptimizedTaskQueryService $optimizedQueryService,
+        private TaskActivityService $activityService,
+        private TaskShareService $shareService
+    ) {}
+
+    /**
+     * Get a task with its translations for a user who owns it or collaborates on it.
+     */
+    public function getTask(int $id, User $user): Task
+    {
+        $task = $this->taskRepository->findAccessibleById($id, $user);
+
+        if (!$task) {
+            throw new TaskNotFoundException($id);
+        }
+
+        return $task;
+    }
+
+    /**
+     * Save translations of a task's name and description.
+     * Locales that are not sent are kept; empty values remove a translation.
+     *
+     * @param array<string, array<string, string|null>> $translations Keyed by field and then locale
+     */
+    public function updateTranslations(Task $task, array $translations, User $user): Task
+    {
+        return DB::transaction(function () use ($task, $translations, $user) {
+            $this->shareService->ensureCanEdit($task, $user);
+
+            $changedLocales = [];
+            $originalSnapshot = $this->activityService->snapshot($task);
+
+            foreach (array_intersect_key($translations, array_flip(self::FIELDS)) as $field => $values) {
+                foreach ($values as $locale => $text) {
+                    $text = trim((string) $text);
+                    $current = $task->getTranslations($field)[$locale] ?? '';
+
+                    if ($text === $current) {
+                        continue;
+                    }
+
+                    if ($text === '') {
+                        $task->forgetTranslation($field, $locale);
+                    } else {
+                        $task->setTranslation($field, $locale, $text);
+                    }
+                    $changedLocales[$locale][] = $field;
+                }
+            }
+
+            if (empty($changedLocales)) {
+                return $task;
+            }
+
+            $task->save();
+            $activity = $this->activityService->record($task, $user, TaskActivity::ACTION_TRANSLATED, $originalSnapshot);
+
+            $this->cacheService->clearTaskCache($task);
+            $this->optimizedQueryService->invalidateTaskQueryCache($task);
+            $this->eventService->broadcastTaskUpdated(
+                new TaskDTO($task),
+                ['translations' => $changedLocales],
+                $activity ? (new TaskActivityResource($activity))->resolve() : null
+            );
+
+            LoggingService::logTaskOperation('task_translations_updated', [
+                'task_id' => $task->id,
+                'user_id' => $user->id,
+                'locales' => array_keys($changedLocales)
+            ]);
+
+            return $task;
+        });
+    }
+
+    /**
+     * Translation progress of a user's tasks per target locale, with the tasks that still need work.
+     * A field is missing when it has source (fallback locale) content but no translation.
+     */
+    public function getTranslationReport(User $user): array
+    {
+        $sourceLocale = config('app.fallback_locale', 'en');
+        $targetLocales = array_values(array_diff(
+            array_keys(config('app.available_locales', ['en' => 'English'])),
+            [$sourceLocale]
+        ));
+
+        $tasks = Task::where('user_id', $user->id)
+            ->orderByRaw('COALESCE(parent_id, id)')
+            ->orderBy('sort_order')
+            ->get(['id', 'parent_id', 'name', 'description', 'status', 'updated_at']);
+
+        $progress = array_fill_keys($targetLocales, ['complete' => 0, 'missing' => 0, 'percentage' => 100]);
+        $missing = [];
+
+        foreach ($tasks as $task) {
+            $gaps = [];
+
+            foreach ($targetLocales as $locale) {
+                $fields = array_values(array_filter(
+                    self::FIELDS,
+                    fn ($field) => $task->hasTranslation($field, $sourceLocale) && !$task->hasTranslation($field, $locale)
+                ));
+
+                if (empty($fields)) {
+                    $progress[$locale]['complete']++;
+                } else {
+                    $progress[$locale]['missing']++;
+                    $gaps[$locale] = $fields;
+                }
+            }
+
+            if (!empty($gaps)) {
+                $missing[] = [
+                    'id' => $task->id,
+                    'parent_id' => $task->parent_id,
+                    'name' => $task->getTranslation('name', $sourceLocale),
+                    'status' => $task->status,
+                    'updated_at' => $task->updated_at?->toISOString(),
+                    'missing' => $gaps,
+                ];
+            }
+        }
+
+        foreach ($progress as $locale => $counts) {
+            $progress[$locale]['percentage'] = $tasks->isEmpty()
+                ? 100
+                : (int) floor($counts['complete'] / $tasks->count() * 100);
+        }
+
+        return [
+            'source_locale' => $sourceLocale,
+            'target_locales' => $targetLocales,
+            'total' => $tasks->count(),
+            'progress' => $progress,
+            'missing' => $missing,
+        ];
+    }
+
+    /**
+     * Texts the user has already translated, one entry per distinct source text and field.
+     * Only texts with at least one translation besides the source are included.
+     *
+     * @return array<int, array{field: string, translations: array<string, string>}>
+     */
+    public function getTranslationMemory(User $user): array
+    {
+        $sourceLocale = config('app.fallback_locale', 'en');
+        $entries = [];
+
+        $tasks = Task::where('user_id', $user->id)
+            ->latest('updated_at')
+            ->get(['id', 'name', 'description', 'updated_at']);
+
+        foreach ($tasks as $task) {
+            foreach (self::FIELDS as $field) {
+                $translations = array_filter(
+                    array_map(fn ($text) => trim((string) $text), $task->getTranslations($field)),
+                    fn ($text) => $text !== ''
+                );
+
+                if (!isset($translations[$sourceLocale]) || count($translations) < 2) {
+                    continue;
+                }
+
+                // The most recently updated task wins when the same text was translated twice
+                $key = $field . ':' . mb_strtolower($translations[$sourceLocale]);
+                $entries[$key] ??= ['field' => $field, 'translations' => $translations];
+            }
+        }
+
+        return array_values($entries);
+    }
+}
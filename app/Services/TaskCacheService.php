@@ -55,7 +55,9 @@ public function clearTaskDetailsCache(int $taskId): void
     public function clearTaskCache(Task $task): void
     {
         $this->clearTaskDetailsCache($task->id);
-        $this->clearUserTasksCache($task->user_id);
+        foreach ($task->collaboratorIds() as $userId) {
+            $this->clearUserTasksCache($userId);
+        }
         
         if ($task->parent_id) {
             $this->clearTaskDetailsCache($task->parent_id);
@@ -15,15 +15,62 @@ public function broadcastTaskCreated(TaskDTO $taskDto): void
         $this->publish('task.created', $taskDto->toArray());
     }
 
-    public function broadcastTaskUpdated(TaskDTO $taskDto, array $changes = []): void
+    /**
+     * @param array<string, mixed>|null $activity The recorded version, as the activity API returns it
+     */
+    public function broadcastTaskUpdated(TaskDTO $taskDto, array $changes = [], ?array $activity = null): void
     {
-        $payload = array_merge($taskDto->toArray(), ['changes' => $changes]);
+        $payload = array_merge($taskDto->toArray(), ['changes' => $changes, 'activity' => $activity]);
         $this->publish('task.updated', $payload);
     }
 
-    public function broadcastTaskDeleted(int $taskId, int $userId): void
+    /**
+     * @param array<int, int> $collaboratorIds Everyone else who could see the task
+     */
+    public function broadcastTaskDeleted(int $taskId, int $userId, array $collaboratorIds = []): void
     {
-        $this->publish('task.deleted', ['id' => $taskId, 'user_id' => $userId]);
+        $this->publish('task.deleted', ['id' => $taskId, 'user_id' => $userId, 'collaborator_ids' => $collaboratorIds]);
+    }
+
+    /**
+     * @param string $change created, updated or deleted
+     * @param array<string, mixed> $comment The comment as the API returns it
+     * @param array<int, int> $collaboratorIds Everyone else who can see the task
+     */
+    public function broadcastTaskCommented(
+        int $taskId,
+        int $userId,
+        string $change,
+        array $comment,
+        int $commentsCount,
+        array $collaboratorIds = []
+    ): void {
+        $this->publish('task.commented', [
+            'id' => $taskId,
+            'user_id' => $userId,
+            'collaborator_ids' => $collaboratorIds,
+            'change' => $change,
+            'comment' => $comment,
+            'comments_count' => $commentsCount,
+        ]);
+    }
+
+    /**
+     * Tell the owner and collaborators of a task, including one who was just removed, that its sharing changed.
+     *
+     * @param string $change created, updated or deleted
+     * @param array<string, mixed> $share The share as the API returns it
+     * @param array<int, int> $collaboratorIds
+     */
+    public function broadcastTaskShared(int $taskId, int $userId, string $change, array $share, array $collaboratorIds): void
+    {
+        $this->publish('task.shared', [
+            'id' => $taskId,
+            'user_id' => $userId,
+            'collaborator_ids' => $collaboratorIds,
+            'change' => $change,
+            'share' => $share,
+        ]);
     }
 
     private function publish(string $event, array $data): void
@@ -34,10 +81,16 @@ private function publish(string $event, array $data): void
             'timestamp' => now()->toISOString(),
         ];
         
+        // Shared tasks reach every collaborator on their own user channel
+        $recipientIds = array_unique(array_merge(
+            isset($data['user_id']) ? [$data['user_id']] : [],
+            $data['collaborator_ids'] ?? []
+        ));
+
         try {
             Redis::publish(self::CHANNEL_PREFIX, json_encode($payload));
-            if (isset($data['user_id'])) {
-                $userChannel = self::CHANNEL_PREFIX . '.user.' . $data['user_id'];
+            foreach ($recipientIds as $recipientId) {
+                $userChannel = self::CHANNEL_PREFIX . '.user.' . $recipientId;
                 Redis::publish($userChannel, json_encode($payload));
             }
         } catch (\Exception $e) {
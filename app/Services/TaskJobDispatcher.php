@@ -3,8 +3,10 @@
 namespace App\Services;
 
 use App\Jobs\ProcessTaskAnalyticsJob;
+use App\Jobs\SendMentionNotificationJob;
 use App\Jobs\SendTaskNotificationJob;
 use App\Models\Task;
+use App\Models\TaskComment;
 use Illuminate\Support\Facades\Log;
 
 class TaskJobDispatcher
@@ -105,6 +107,55 @@ public function dispatchTaskDeletedNotification(Task $task, ?array $additionalDa
         }
     }
 
+    /**
+     * Dispatch notification job for a task whose last blocker was finished
+     *
+     * @param Task $task
+     * @param array|null $additionalData
+     * @return void
+     */
+    public function dispatchTaskUnblockedNotification(Task $task, ?array $additionalData = null): void
+    {
+        try {
+            SendTaskNotificationJob::dispatch($task, 'unblocked', $additionalData);
+            
+            Log::info('Task unblocked notification job dispatched', [
+                'task_id' => $task->id,
+                'user_id' => $task->user_id
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Failed to dispatch task unblocked notification', [
+                'task_id' => $task->id,
+                'error' => $e->getMessage()
+            ]);
+        }
+    }
+
+    /**
+     * Dispatch notification job for a user mentioned in a task comment
+     *
+     * @param TaskComment $comment
+     * @param int $userId
+     * @return void
+     */
+    public function dispatchMentionNotification(TaskComment $comment, int $userId): void
+    {
+        try {
+            SendMentionNotificationJob::dispatch($comment, $userId);
+            
+            Log::info('Mention notification job dispatched', [
+                'task_id' => $comment->task_id,
+                'comment_id' => $comment->id,
+                'user_id' => $userId
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Failed to dispatch mention notification', [
+                'comment_id' => $comment->id,
+                'error' => $e->getMessage()
+            ]);
+        }
+    }
+
     /**
      * Dispatch notification job for tasks due soon
      *
@@ -4,6 +4,7 @@
 
 use Illuminate\Support\Facades\Log;
 use Illuminate\Support\Facades\Redis;
+use Laravel\Sanctum\PersonalAccessToken;
 use React\EventLoop\Loop;
 use React\Socket\SocketServer;
 use Ratchet\ConnectionInterface;
@@ -235,7 +236,6 @@ private function handleAuthentication(ConnectionInterface $conn, array $data): v
         $userId = (int) $data['user_id'];
         $token = $data['token'];
 
-        // Validate token (simplified - in production, validate against Sanctum tokens)
         if (!$this->validateToken($userId, $token)) {
             $this->sendError($conn, 'Invalid authentication token');
             return;
@@ -291,6 +291,11 @@ private function handleSubscription(ConnectionInterface $conn, array $data): voi
         }
         
         foreach ($channels as $channel) {
+            if (!$this->canSubscribe($conn->userId, $channel)) {
+                $this->sendError($conn, 'Not allowed to subscribe to channel: ' . $channel);
+                continue;
+            }
+
             if (!in_array($channel, $conn->subscribedChannels)) {
                 $conn->subscribedChannels[] = $channel;
             }
@@ -375,7 +380,7 @@ private function sendError(ConnectionInterface $conn, string $message): void
     }
 
     /**
-     * Validate authentication token
+     * Validate authentication token against the user's Sanctum tokens
      *
      * @param int $userId
      * @param string $token
@@ -383,9 +388,39 @@ private function sendError(ConnectionInterface $conn, string $message): void
      */
     private function validateToken(int $userId, string $token): bool
     {
-        // Simplified validation - in production, validate against Sanctum tokens
-        // For now, just check if token is not empty
-        return !empty($token) && $userId > 0;
+        if (empty($token) || $userId <= 0) {
+            return false;
+        }
+
+        $accessToken = PersonalAccessToken::findToken($token);
+
+        if (!$accessToken || (int) $accessToken->tokenable_id !== $userId) {
+            return false;
+        }
+
+        if ($accessToken->expires_at && $accessToken->expires_at->isPast()) {
+            return false;
+        }
+
+        if (!$accessToken->can('websocket')) {
+            return false;
+        }
+
+        $accessToken->forceFill(['last_used_at' => now()])->save();
+
+        return true;
+    }
+
+    /**
+     * Check whether a user may subscribe to a channel
+     *
+     * @param int $userId
+     * @param string $channel
+     * @return bool
+     */
+    private function canSubscribe(int $userId, string $channel): bool
+    {
+        return $channel === "user.{$userId}";
     }
 
     /**
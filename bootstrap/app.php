@@ -74,6 +74,17 @@
                 );
             }
 
+            // Tell the SPA why it is no longer signed in, so it can say so
+            if ($e instanceof \Illuminate\Auth\AuthenticationException && $request->expectsJson()) {
+                $revoked = $request->hasSession()
+                    && app(\App\Services\Auth\SessionService::class)->wasRevoked($request->session()->getId());
+
+                return response()->json([
+                    'message' => $revoked ? 'You were signed out from another device.' : 'Unauthenticated.',
+                    'reason' => $revoked ? 'session_revoked' : 'unauthenticated',
+                ], 401);
+            }
+
             return null; // Let Laravel handle the response
         });
 
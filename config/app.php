@@ -99,6 +99,18 @@
         'fr' => 'Français',
     ],
 
+    /*
+    |--------------------------------------------------------------------------
+    | Right-to-Left Locales
+    |--------------------------------------------------------------------------
+    |
+    | Locales written right to left. The frontend lays out the interface and
+    | translated text in these locales from right to left.
+    |
+    */
+
+    'rtl_locales' => ['ar', 'fa', 'he', 'ur'],
+
     /*
     |--------------------------------------------------------------------------
     | Encryption Key
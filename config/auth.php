@@ -116,4 +116,25 @@
 
     'password_timeout' => env('AUTH_PASSWORD_TIMEOUT', 10800),
 
+    /*
+    |--------------------------------------------------------------------------
+    | Two-Factor Authentication
+    |--------------------------------------------------------------------------
+    |
+    | Time-based one-time passwords (RFC 6238) from an authenticator app. The
+    | window is the number of 30 second steps a code may be early or late to
+    | allow for clock drift. After the password has been checked, the code
+    | has to be entered within the challenge timeout (in seconds). Devices
+    | can be remembered for the given number of days.
+    |
+    */
+
+    'two_factor' => [
+        'issuer' => env('TWO_FACTOR_ISSUER', env('APP_NAME', 'Laravel')),
+        'window' => (int) env('TWO_FACTOR_WINDOW', 1),
+        'challenge_timeout' => 300,
+        'remember_days' => (int) env('TWO_FACTOR_REMEMBER_DAYS', 30),
+        'recovery_codes' => 8,
+    ],
+
 ];
@@ -28,6 +28,11 @@
         'region' => env('AWS_DEFAULT_REGION', 'us-east-1'),
     ],
 
+    'websocket' => [
+        'url' => env('WEBSOCKET_URL'),
+        'token_ttl' => env('WEBSOCKET_TOKEN_TTL', 60), // minutes
+    ],
+
     'slack' => [
         'notifications' => [
             'bot_user_oauth_token' => env('SLACK_BOT_USER_OAUTH_TOKEN'),
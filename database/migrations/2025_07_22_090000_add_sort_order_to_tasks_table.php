@@ -0,0 +1,32 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('tasks', function (Blueprint $table) {
+            $table->unsignedInteger('sort_order')->default(0)->after('parent_id');
+
+            // Sibling ordering for drag-and-drop (root tasks and subtasks of a parent)
+            $table->index(['user_id', 'parent_id', 'sort_order'], 'tasks_user_parent_sort_order_index');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('tasks', function (Blueprint $table) {
+            $table->dropIndex('tasks_user_parent_sort_order_index');
+            $table->dropColumn('sort_order');
+        });
+    }
+};
@@ -0,0 +1,35 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('task_dependencies', function (Blueprint $table) {
+            $table->id();
+            $table->unsignedBigInteger('task_id'); // The blocked task
+            $table->unsignedBigInteger('depends_on_id'); // The task that has to be finished first
+            $table->timestamps();
+
+            $table->foreign('task_id')->references('id')->on('tasks')->onDelete('cascade');
+            $table->foreign('depends_on_id')->references('id')->on('tasks')->onDelete('cascade');
+
+            $table->unique(['task_id', 'depends_on_id']);
+            $table->index('depends_on_id');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('task_dependencies');
+    }
+};
@@ -0,0 +1,37 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('tasks', function (Blueprint $table) {
+            $table->string('recurrence_rule', 255)->nullable()->after('sort_order'); // iCalendar RRULE
+            $table->unsignedBigInteger('series_id')->nullable()->after('recurrence_rule'); // First occurrence of the series
+            $table->unsignedInteger('recurrence_index')->nullable()->after('series_id'); // 1-based position in the series
+
+            $table->foreign('series_id')->references('id')->on('tasks')->onDelete('set null');
+
+            // Finding the later occurrences of a series
+            $table->index(['series_id', 'recurrence_index'], 'tasks_series_recurrence_index');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('tasks', function (Blueprint $table) {
+            $table->dropForeign(['series_id']);
+            $table->dropIndex('tasks_series_recurrence_index');
+            $table->dropColumn(['recurrence_rule', 'series_id', 'recurrence_index']);
+        });
+    }
+};
@@ -0,0 +1,51 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('task_shares', function (Blueprint $table) {
+            $table->id();
+            $table->unsignedBigInteger('task_id'); // Top-level task; its subtasks are shared with it
+            $table->unsignedBigInteger('user_id'); // Collaborator
+            $table->string('role', 10); // viewer or editor
+            $table->timestamps();
+
+            $table->foreign('task_id')->references('id')->on('tasks')->onDelete('cascade');
+            $table->foreign('user_id')->references('id')->on('users')->onDelete('cascade');
+
+            $table->unique(['task_id', 'user_id']);
+            $table->index('user_id');
+        });
+
+        Schema::table('tasks', function (Blueprint $table) {
+            $table->unsignedBigInteger('assignee_id')->nullable()->after('user_id');
+
+            $table->foreign('assignee_id')->references('id')->on('users')->onDelete('set null');
+
+            // The "assigned to me" filter
+            $table->index('assignee_id');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('tasks', function (Blueprint $table) {
+            $table->dropForeign(['assignee_id']);
+            $table->dropIndex(['assignee_id']);
+            $table->dropColumn('assignee_id');
+        });
+
+        Schema::dropIfExists('task_shares');
+    }
+};
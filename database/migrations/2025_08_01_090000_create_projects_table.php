@@ -0,0 +1,54 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('projects', function (Blueprint $table) {
+            $table->id();
+            $table->unsignedBigInteger('user_id');
+            $table->string('name', 100);
+            $table->string('key', 10); // Prefix of the task keys, e.g. WEB in WEB-42
+            $table->string('color', 7); // Hex color, e.g. #3b82f6
+            $table->text('description')->nullable();
+            $table->timestamp('archived_at')->nullable();
+            $table->unsignedInteger('next_task_number')->default(1);
+            $table->timestamps();
+
+            $table->foreign('user_id')->references('id')->on('users')->onDelete('cascade');
+
+            $table->unique(['user_id', 'key']);
+        });
+
+        Schema::table('tasks', function (Blueprint $table) {
+            $table->unsignedBigInteger('project_id')->nullable()->after('assignee_id');
+            $table->unsignedInteger('task_number')->nullable()->after('project_id');
+
+            $table->foreign('project_id')->references('id')->on('projects')->onDelete('set null');
+
+            // Task numbers are unique within a project; also serves the project filter
+            $table->unique(['project_id', 'task_number']);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('tasks', function (Blueprint $table) {
+            $table->dropForeign(['project_id']);
+            $table->dropUnique(['project_id', 'task_number']);
+            $table->dropColumn(['project_id', 'task_number']);
+        });
+
+        Schema::dropIfExists('projects');
+    }
+};
@@ -0,0 +1,48 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('labels', function (Blueprint $table) {
+            $table->id();
+            $table->unsignedBigInteger('user_id');
+            $table->string('name', 50);
+            $table->string('color', 7); // Hex color, e.g. #3b82f6
+            $table->timestamps();
+
+            $table->foreign('user_id')->references('id')->on('users')->onDelete('cascade');
+
+            $table->unique(['user_id', 'name']);
+        });
+
+        Schema::create('label_task', function (Blueprint $table) {
+            $table->id();
+            $table->unsignedBigInteger('label_id');
+            $table->unsignedBigInteger('task_id');
+            $table->timestamps();
+
+            $table->foreign('label_id')->references('id')->on('labels')->onDelete('cascade');
+            $table->foreign('task_id')->references('id')->on('tasks')->onDelete('cascade');
+
+            $table->unique(['task_id', 'label_id']);
+            $table->index('label_id');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('label_task');
+        Schema::dropIfExists('labels');
+    }
+};
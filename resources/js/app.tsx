@@ -12,6 +12,9 @@ import "../css/app.css";
 // Context
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
 import { TaskProvider } from "@/contexts/TaskContext";
+import { ProjectProvider } from "@/contexts/ProjectContext";
+import { LabelProvider } from "@/contexts/LabelContext";
+import { SavedViewProvider } from "@/contexts/SavedViewContext";
 import { ThemeProvider, useTheme } from "@/contexts/ThemeContext";
 import { NotificationProvider } from "@/components/ui/notification";
 import { LanguageProvider } from '@/contexts/LanguageContext';
@@ -26,9 +29,20 @@ import { Spinner } from "@/components/ui/spinner";
 // Pages
 import Dashboard from "@/pages/Dashboard";
 import TasksPage from "@/pages/TasksPage";
+import TaskBoardPage from "@/pages/TaskBoardPage";
+import CalendarPage from "@/pages/CalendarPage";
+import TranslationsPage from "@/pages/TranslationsPage";
 import NewTaskPage from "@/pages/NewTaskPage";
 import LoginPage from "@/pages/LoginPage";
 import RegisterPage from "@/pages/RegisterPage";
+import ForgotPasswordPage from "@/pages/ForgotPasswordPage";
+import ResetPasswordPage from "@/pages/ResetPasswordPage";
+import SettingsPage from "@/pages/SettingsPage";
+import SecurityPage from "@/pages/SecurityPage";
+import ProjectsPage from "@/pages/ProjectsPage";
+
+// Services
+import SettingsService from "@/services/SettingsService";
 
 // Development utilities
 
@@ -51,6 +65,8 @@ function AppRoutes() {
             {/* Public routes */}
             <Route path="/login" element={<LoginPage />} />
             <Route path="/register" element={<RegisterPage />} />
+            <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+            <Route path="/reset-password/:token" element={<ResetPasswordPage />} />
 
             {/* Protected routes */}
             <Route
@@ -64,6 +80,12 @@ function AppRoutes() {
                 <Route index element={<Dashboard />} />
                 <Route path="tasks" element={<TasksPage />} />
                 <Route path="tasks/new" element={<NewTaskPage />} />
+                <Route path="tasks/board" element={<TaskBoardPage />} />
+                <Route path="calendar" element={<CalendarPage />} />
+                <Route path="translations" element={<TranslationsPage />} />
+                <Route path="projects" element={<ProjectsPage />} />
+                <Route path="settings" element={<SettingsPage />} />
+                <Route path="settings/security" element={<SecurityPage />} />
             </Route>
 
             {/* Catch all route */}
@@ -81,18 +103,56 @@ function BodyClassSync() {
     return null;
 }
 
+/**
+ * Keeps the theme in step with the signed in user: the saved theme is applied
+ * on sign in, and changes made elsewhere (the header toggle) are saved
+ */
+function ThemePreferenceSync() {
+    const { user, updateUser } = useAuth();
+    const { theme, setTheme } = useTheme();
+    const userId = user?.id;
+    const savedTheme = user?.theme;
+    const previousTheme = React.useRef(theme);
+
+    // Only when a user signs in; later changes are saved by the effect below
+    React.useEffect(() => {
+        if (savedTheme) {
+            setTheme(savedTheme);
+        }
+    }, [userId]);
+
+    React.useEffect(() => {
+        if (previousTheme.current === theme) return;
+        previousTheme.current = theme;
+
+        if (!userId || !savedTheme || savedTheme === theme) return;
+        SettingsService.updatePreferences({ theme })
+            .then(({ user: updated }) => updateUser(updated))
+            .catch(error => console.warn("Failed to save theme preference:", error));
+    }, [theme, userId, savedTheme, updateUser]);
+
+    return null;
+}
+
 function App() {
     return (
         <LanguageProvider>
             <ThemeProvider>
                 <NotificationProvider>
                     <AuthProvider>
-                        <TaskProvider>
-                            <Router>
-                                <BodyClassSync />
-                                <AppRoutes />
-                            </Router>
-                        </TaskProvider>
+                        <ProjectProvider>
+                            <LabelProvider>
+                                <TaskProvider>
+                                    <SavedViewProvider>
+                                        <Router>
+                                            <BodyClassSync />
+                                            <ThemePreferenceSync />
+                                            <AppRoutes />
+                                        </Router>
+                                    </SavedViewProvider>
+                                </TaskProvider>
+                            </LabelProvider>
+                        </ProjectProvider>
                     </AuthProvider>
                 </NotificationProvider>
             </ThemeProvider>
@@ -38,9 +38,9 @@ window.axios.interceptors.request.use(
         // Get current language from localStorage or default to 'en'
         const currentLanguage = localStorage.getItem('language') || 'en';
         
-        // Add locale headers for proper content negotiation
-        config.headers['X-Locale'] = currentLanguage;
-        config.headers['Accept-Language'] = currentLanguage;
+        // Add locale headers for proper content negotiation, unless the request asks for a specific locale
+        config.headers['X-Locale'] = config.headers['X-Locale'] || currentLanguage;
+        config.headers['Accept-Language'] = config.headers['X-Locale'];
         
         return config;
     },
@@ -65,12 +65,14 @@ window.axios.interceptors.response.use(
     async (error) => {
         
         // Handle 401 Unauthorized responses
+        // The auth context signs the user out and the login page says why; a
+        // session ended from another device is reported as "session_revoked"
         if (error.response?.status === 401) {
-            // For SPA authentication, redirect to login on 401
-            // Session-based auth doesn't support token refresh like API tokens
-            if (!window.location.pathname.includes('/login')) {
-                window.location.href = '/login';
-            }
+            window.dispatchEvent(new CustomEvent('sessionEnded', {
+                detail: {
+                    reason: error.response.data?.reason === 'session_revoked' ? 'revoked' : 'expired'
+                }
+            }));
             return Promise.reject(error);
         }
         
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { MailWarning } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/spinner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useNotifications } from '@/components/ui/notification';
+import { useTranslation } from '@/hooks/useTranslation';
+import { isFormError } from '@/utils/formErrors';
+
+/**
+ * Reminds users who have not verified their email address yet and lets them
+ * request a new link. Also reports the result of following a verification
+ * link, which sends the browser back to the app with ?verified=1 or ?verified=0.
+ */
+const EmailVerificationBanner: React.FC = () => {
+  const { user, resendVerificationEmail } = useAuth();
+  const { addNotification } = useNotifications();
+  const { t } = useTranslation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [isSending, setIsSending] = useState(false);
+  const [isDismissed, setIsDismissed] = useState(false);
+
+  const verified = searchParams.get('verified');
+
+  useEffect(() => {
+    if (verified === null) return;
+
+    addNotification(verified === '1'
+      ? { type: 'success', title: t('verifyEmail.verified.title'), message: t('verifyEmail.verified.message') }
+      : { type: 'error', title: t('verifyEmail.invalid.title'), message: t('verifyEmail.invalid.message') });
+
+    const next = new URLSearchParams(searchParams);
+    next.delete('verified');
+    setSearchParams(next, { replace: true });
+  }, [verified, searchParams, setSearchParams, addNotification, t]);
+
+  if (!user || user.email_verified_at || isDismissed) {
+    return null;
+  }
+
+  const handleResend = async () => {
+    setIsSending(true);
+    try {
+      await resendVerificationEmail();
+      addNotification({
+        type: 'success',
+        title: t('verifyEmail.sent.title'),
+        message: t('verifyEmail.sent.message', { email: user.email })
+      });
+    } catch (error) {
+      addNotification({
+        type: 'error',
+        title: t('verifyEmail.failed.title'),
+        message: error instanceof Error || isFormError(error) ? error.message : undefined
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div
+      role="status"
+      className="border-b border-yellow-200 bg-yellow-50 text-yellow-900 dark:border-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200"
+    >
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-2 flex flex-wrap items-center gap-3 text-sm">
+        <MailWarning className="h-4 w-4 shrink-0" aria-hidden="true" />
+        <span className="flex-1 min-w-0">
+          {t('verifyEmail.message', { email: user.email })}
+        </span>
+        <Button size="sm" variant="outline" onClick={handleResend} disabled={isSending}>
+          {isSending && <Spinner size="sm" className="mr-2" />}
+          {t('verifyEmail.resend')}
+        </Button>
+        <Button size="sm" variant="ghost" onClick={() => setIsDismissed(true)}>
+          {t('common.dismiss')}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default EmailVerificationBanner;
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { ForgotPasswordData } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { 
+  Form, 
+  FormControl, 
+  FormField, 
+  FormItem, 
+  FormLabel, 
+  FormMessage 
+} from '@/components/ui/form';
+import { Spinner } from '@/components/ui/spinner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { isFormError } from '@/utils/formErrors';
+
+interface ForgotPasswordFormProps {
+  defaultEmail?: string;
+}
+
+const ForgotPasswordForm: React.FC<ForgotPasswordFormProps> = ({ defaultEmail = '' }) => {
+  const { forgotPassword, error, fieldErrors, clearError } = useAuth();
+  const { t } = useTranslation();
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+  
+  const form = useForm<ForgotPasswordData>({
+    defaultValues: {
+      email: defaultEmail
+    }
+  });
+
+  useEffect(() => {
+    clearError();
+  }, [clearError]);
+
+  // Set backend field errors on the form when they change
+  useEffect(() => {
+    if (fieldErrors) {
+      Object.entries(fieldErrors).forEach(([field, messages]) => {
+        form.setError(field as keyof ForgotPasswordData, {
+          type: 'server',
+          message: messages.join(' ')
+        });
+      });
+    }
+  }, [fieldErrors, form]);
+
+  const handleSubmit = async (data: ForgotPasswordData) => {
+    try {
+      setSentMessage(await forgotPassword(data));
+    } catch (error) {
+      // Error is handled by AuthContext
+      if (!isFormError(error)) {
+        console.error('Password reset request failed:', error);
+      }
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6 bg-white/90 dark:bg-white/10 p-8 rounded-xl shadow-lg border border-gray-200 dark:border-gray-600 dark:text-white backdrop-blur">
+        {error && !fieldErrors && (
+          <div className="bg-destructive/15 border border-destructive/20 text-destructive px-4 py-3 rounded-md dark:bg-red-900/30 dark:border-red-800 dark:text-red-300">
+            {error}
+          </div>
+        )}
+
+        {sentMessage && (
+          <div role="status" className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-md dark:bg-green-900/30 dark:border-green-800 dark:text-green-300">
+            {sentMessage}
+          </div>
+        )}
+
+        <FormField
+          control={form.control}
+          name="email"
+          rules={{
+            required: t('auth.email.required'),
+            pattern: {
+              value: /\S+@\S+\.\S+/,
+              message: t('auth.email.invalid')
+            }
+          }}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('auth.email.label')}</FormLabel>
+              <FormControl>
+                <Input
+                  type="email"
+                  placeholder={t('auth.email.placeholder')}
+                  autoComplete="email"
+                  aria-invalid={!!form.formState.errors.email}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={form.formState.isSubmitting}
+        >
+          {form.formState.isSubmitting && <Spinner size="sm" className="mr-2" />}
+          {sentMessage ? t('auth.forgotPassword.resend') : t('auth.forgotPassword.submit')}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default ForgotPasswordForm;
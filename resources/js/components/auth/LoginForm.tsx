@@ -1,4 +1,5 @@
 import React, { useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { LoginCredentials } from '@/types';
 import { Button } from '@/components/ui/button';
@@ -13,6 +14,7 @@ import {
 } from '@/components/ui/form';
 import { Spinner } from '@/components/ui/spinner';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface LoginFormProps {
   onSuccess?: () => void;
@@ -20,6 +22,7 @@ interface LoginFormProps {
 
 const LoginForm: React.FC<LoginFormProps> = ({ onSuccess }) => {
   const { login, isLoading, error, clearError } = useAuth();
+  const { t } = useTranslation();
   
   const form = useForm<LoginCredentials>({
     defaultValues: {
@@ -28,6 +31,9 @@ const LoginForm: React.FC<LoginFormProps> = ({ onSuccess }) => {
     }
   });
 
+  // Carried over to the forgot password page so it does not need typing again
+  const email = form.watch('email');
+
   // Clear error when component mounts or form values change
   useEffect(() => {
     clearError();
@@ -35,8 +41,10 @@ const LoginForm: React.FC<LoginFormProps> = ({ onSuccess }) => {
 
   const handleSubmit = async (data: LoginCredentials) => {
     try {
-      await login(data);
-      onSuccess?.();
+      // Users with two-factor authentication continue with their code
+      if (await login(data)) {
+        onSuccess?.();
+      }
     } catch (error) {
       // Error is handled by AuthContext
       console.error('Login failed:', error);
@@ -56,19 +64,19 @@ const LoginForm: React.FC<LoginFormProps> = ({ onSuccess }) => {
           control={form.control}
           name="email"
           rules={{
-            required: 'Email is required',
+            required: t('auth.email.required'),
             pattern: {
               value: /\S+@\S+\.\S+/,
-              message: 'Email is invalid'
+              message: t('auth.email.invalid')
             }
           }}
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Email</FormLabel>
+              <FormLabel>{t('auth.email.label')}</FormLabel>
               <FormControl>
                 <Input
                   type="email"
-                  placeholder="Enter your email"
+                  placeholder={t('auth.email.placeholder')}
                   {...field}
                 />
               </FormControl>
@@ -81,15 +89,23 @@ const LoginForm: React.FC<LoginFormProps> = ({ onSuccess }) => {
           control={form.control}
           name="password"
           rules={{
-            required: 'Password is required'
+            required: t('auth.password.required')
           }}
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Password</FormLabel>
+              <div className="flex items-center justify-between">
+                <FormLabel>{t('auth.password.label')}</FormLabel>
+                <Link
+                  to={email ? `/forgot-password?email=${encodeURIComponent(email)}` : '/forgot-password'}
+                  className="text-sm font-medium text-primary hover:text-primary/80"
+                >
+                  {t('auth.password.forgot')}
+                </Link>
+              </div>
               <FormControl>
                 <Input
                   type="password"
-                  placeholder="Enter your password"
+                  placeholder={t('auth.password.placeholder')}
                   {...field}
                 />
               </FormControl>
@@ -104,7 +120,7 @@ const LoginForm: React.FC<LoginFormProps> = ({ onSuccess }) => {
           disabled={isLoading}
         >
           {isLoading && <Spinner size="sm" className="mr-2" />}
-          Sign In
+          {t('auth.login.submit')}
         </Button>
       </form>
     </Form>
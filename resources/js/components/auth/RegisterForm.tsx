@@ -14,7 +14,9 @@ import {
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Spinner } from '@/components/ui/spinner';
 import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
 import { useNotifications } from '@/components/ui/notification';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface RegisterFormProps {
   onSuccess?: () => void;
@@ -23,6 +25,8 @@ interface RegisterFormProps {
 const RegisterForm: React.FC<RegisterFormProps> = ({ onSuccess }) => {
   const { register, isLoading, error, fieldErrors, clearError } = useAuth();
   const { addNotification } = useNotifications();
+  const { language, locales } = useLanguage();
+  const { t } = useTranslation();
   
   const form = useForm<RegisterData>({
     defaultValues: {
@@ -30,7 +34,7 @@ const RegisterForm: React.FC<RegisterFormProps> = ({ onSuccess }) => {
       email: '',
       password: '',
       password_confirmation: '',
-      preferred_language: 'en',
+      preferred_language: language,
       timezone: 'UTC'
     }
   });
@@ -57,12 +61,12 @@ const RegisterForm: React.FC<RegisterFormProps> = ({ onSuccess }) => {
     if (error && !fieldErrors) {
       addNotification({
         type: 'error',
-        title: 'Registration Failed',
+        title: t('auth.register.failed'),
         message: error,
         duration: 5000
       });
     }
-  }, [error, fieldErrors, addNotification]);
+  }, [error, fieldErrors, addNotification, t]);
 
   const handleSubmit = async (data: RegisterData) => {
     try {
@@ -91,14 +95,14 @@ const RegisterForm: React.FC<RegisterFormProps> = ({ onSuccess }) => {
           control={form.control}
           name="name"
           rules={{
-            required: 'Name is required'
+            required: t('auth.name.required')
           }}
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Full Name</FormLabel>
+              <FormLabel>{t('auth.name.label')}</FormLabel>
               <FormControl>
                 <Input
-                  placeholder="Enter your full name"
+                  placeholder={t('auth.name.placeholder')}
                   {...field}
                 />
               </FormControl>
@@ -111,19 +115,19 @@ const RegisterForm: React.FC<RegisterFormProps> = ({ onSuccess }) => {
           control={form.control}
           name="email"
           rules={{
-            required: 'Email is required',
+            required: t('auth.email.required'),
             pattern: {
               value: /\S+@\S+\.\S+/,
-              message: 'Email is invalid'
+              message: t('auth.email.invalid')
             }
           }}
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Email</FormLabel>
+              <FormLabel>{t('auth.email.label')}</FormLabel>
               <FormControl>
                 <Input
                   type="email"
-                  placeholder="Enter your email"
+                  placeholder={t('auth.email.placeholder')}
                   {...field}
                 />
               </FormControl>
@@ -137,19 +141,19 @@ const RegisterForm: React.FC<RegisterFormProps> = ({ onSuccess }) => {
             control={form.control}
             name="password"
             rules={{
-              required: 'Password is required',
+              required: t('auth.password.required'),
               minLength: {
                 value: 8,
-                message: 'Password must be at least 8 characters'
+                message: t('auth.password.minLength', { min: 8 })
               }
             }}
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Password</FormLabel>
+                <FormLabel>{t('auth.password.label')}</FormLabel>
                 <FormControl>
                   <Input
                     type="password"
-                    placeholder="Enter your password"
+                    placeholder={t('auth.password.placeholder')}
                     autoComplete="new-password"
                     aria-invalid={!!form.formState.errors.password}
                     {...field}
@@ -164,19 +168,19 @@ const RegisterForm: React.FC<RegisterFormProps> = ({ onSuccess }) => {
             control={form.control}
             name="password_confirmation"
             rules={{
-              required: 'Please confirm your password',
+              required: t('auth.confirmPassword.required'),
               validate: (value) => {
                 const password = form.getValues('password');
-                return value === password || 'Passwords do not match';
+                return value === password || t('auth.confirmPassword.mismatch');
               }
             }}
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Confirm Password</FormLabel>
+                <FormLabel>{t('auth.confirmPassword.label')}</FormLabel>
                 <FormControl>
                   <Input
                     type="password"
-                    placeholder="Confirm your password"
+                    placeholder={t('auth.confirmPassword.placeholder')}
                     autoComplete="new-password"
                     aria-invalid={!!form.formState.errors.password_confirmation}
                     {...field}
@@ -193,17 +197,17 @@ const RegisterForm: React.FC<RegisterFormProps> = ({ onSuccess }) => {
           name="preferred_language"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Preferred Language</FormLabel>
+              <FormLabel>{t('auth.language.label')}</FormLabel>
               <Select onValueChange={field.onChange} defaultValue={field.value}>
                 <FormControl>
                   <SelectTrigger>
-                    <SelectValue placeholder="Select a language" />
+                    <SelectValue placeholder={t('auth.language.placeholder')} />
                   </SelectTrigger>
                 </FormControl>
                 <SelectContent>
-                  <SelectItem value="en">English</SelectItem>
-                  <SelectItem value="fr">Français</SelectItem>
-                  <SelectItem value="de">Deutsch</SelectItem>
+                  {locales.map(locale => (
+                    <SelectItem key={locale.code} value={locale.code}>{locale.name}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <FormMessage />
@@ -217,7 +221,7 @@ const RegisterForm: React.FC<RegisterFormProps> = ({ onSuccess }) => {
           disabled={isLoading}
         >
           {isLoading && <Spinner size="sm" className="mr-2" />}
-          Create Account
+          {t('auth.register.submit')}
         </Button>
       </form>
     </Form>
@@ -0,0 +1,174 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { ResetPasswordData } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { 
+  Form, 
+  FormControl, 
+  FormField, 
+  FormItem, 
+  FormLabel, 
+  FormMessage 
+} from '@/components/ui/form';
+import { Spinner } from '@/components/ui/spinner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { isFormError } from '@/utils/formErrors';
+
+interface ResetPasswordFormProps {
+  token: string;
+  email?: string;
+  onSuccess?: (message: string) => void;
+}
+
+const ResetPasswordForm: React.FC<ResetPasswordFormProps> = ({ token, email = '', onSuccess }) => {
+  const { resetPassword, error, fieldErrors, clearError } = useAuth();
+  const { t } = useTranslation();
+  
+  const form = useForm<ResetPasswordData>({
+    defaultValues: {
+      token,
+      email,
+      password: '',
+      password_confirmation: ''
+    }
+  });
+
+  useEffect(() => {
+    clearError();
+  }, [clearError]);
+
+  // Set backend field errors on the form when they change. The token has no
+  // field of its own, its errors (an expired or used link) are shown above the form.
+  useEffect(() => {
+    if (fieldErrors) {
+      Object.entries(fieldErrors).forEach(([field, messages]) => {
+        if (field === 'token') return;
+        form.setError(field as keyof ResetPasswordData, {
+          type: 'server',
+          message: messages.join(' ')
+        });
+      });
+    }
+  }, [fieldErrors, form]);
+
+  const tokenError = fieldErrors?.token?.join(' ');
+  const formError = tokenError || (error && !fieldErrors ? error : null);
+
+  const handleSubmit = async (data: ResetPasswordData) => {
+    try {
+      const message = await resetPassword(data);
+      onSuccess?.(message);
+    } catch (error) {
+      // Error is handled by AuthContext
+      if (!isFormError(error)) {
+        console.error('Password reset failed:', error);
+      }
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6 bg-white/90 dark:bg-white/10 p-8 rounded-xl shadow-lg border border-gray-200 dark:border-gray-600 dark:text-white backdrop-blur">
+        {formError && (
+          <div className="bg-destructive/15 border border-destructive/20 text-destructive px-4 py-3 rounded-md dark:bg-red-900/30 dark:border-red-800 dark:text-red-300">
+            {formError}
+          </div>
+        )}
+
+        <FormField
+          control={form.control}
+          name="email"
+          rules={{
+            required: t('auth.email.required'),
+            pattern: {
+              value: /\S+@\S+\.\S+/,
+              message: t('auth.email.invalid')
+            }
+          }}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('auth.email.label')}</FormLabel>
+              <FormControl>
+                <Input
+                  type="email"
+                  placeholder={t('auth.email.placeholder')}
+                  autoComplete="email"
+                  aria-invalid={!!form.formState.errors.email}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="password"
+          rules={{
+            required: t('auth.password.required'),
+            minLength: {
+              value: 8,
+              message: t('auth.password.minLength', { min: 8 })
+            }
+          }}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('auth.newPassword.label')}</FormLabel>
+              <FormControl>
+                <Input
+                  type="password"
+                  placeholder={t('auth.newPassword.placeholder')}
+                  autoComplete="new-password"
+                  aria-invalid={!!form.formState.errors.password}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="password_confirmation"
+          rules={{
+            required: t('auth.confirmPassword.required'),
+            validate: (value) => {
+              const password = form.getValues('password');
+              return value === password || t('auth.confirmPassword.mismatch');
+            }
+          }}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('auth.confirmNewPassword.label')}</FormLabel>
+              <FormControl>
+                <Input
+                  type="password"
+                  placeholder={t('auth.confirmNewPassword.placeholder')}
+                  autoComplete="new-password"
+                  aria-invalid={!!form.formState.errors.password_confirmation}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={form.formState.isSubmitting}
+        >
+          {form.formState.isSubmitting && <Spinner size="sm" className="mr-2" />}
+          {t('auth.resetPassword.submit')}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default ResetPasswordForm;
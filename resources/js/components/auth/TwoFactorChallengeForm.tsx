@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { TwoFactorChallengeData } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '@/components/ui/form';
+import { Spinner } from '@/components/ui/spinner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { isFormError } from '@/utils/formErrors';
+
+interface TwoFactorChallengeFormProps {
+  onSuccess?: () => void;
+}
+
+interface ChallengeFields {
+  code: string;
+  recovery_code: string;
+  remember_device: boolean;
+}
+
+/**
+ * Second step of signing in for users with two-factor authentication:
+ * a code from the authenticator app, or one of the recovery codes.
+ */
+const TwoFactorChallengeForm: React.FC<TwoFactorChallengeFormProps> = ({ onSuccess }) => {
+  const { completeTwoFactor, cancelTwoFactor, error, fieldErrors, clearError } = useAuth();
+  const { t } = useTranslation();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const form = useForm<ChallengeFields>({
+    defaultValues: {
+      code: '',
+      recovery_code: '',
+      remember_device: false
+    }
+  });
+
+  useEffect(() => {
+    clearError();
+  }, [clearError]);
+
+  // An expired sign-in is reported on the email field, which this form does not have
+  useEffect(() => {
+    if (fieldErrors) {
+      Object.entries(fieldErrors).forEach(([field, messages]) => {
+        if (field !== 'code' && field !== 'recovery_code') return;
+        form.setError(field, {
+          type: 'server',
+          message: messages.join(' ')
+        });
+      });
+    }
+  }, [fieldErrors, form]);
+
+  const formError = fieldErrors?.email?.join(' ') || (error && !fieldErrors ? error : null);
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(current => !current);
+    form.clearErrors();
+    clearError();
+  };
+
+  const handleSubmit = async ({ code, recovery_code, remember_device }: ChallengeFields) => {
+    const data: TwoFactorChallengeData = useRecoveryCode
+      ? { recovery_code, remember_device }
+      : { code, remember_device };
+
+    try {
+      await completeTwoFactor(data);
+      onSuccess?.();
+    } catch (error) {
+      // Error is handled by AuthContext
+      if (!isFormError(error)) {
+        console.error('Two-factor authentication failed:', error);
+      }
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6 bg-white/90 dark:bg-white/10 p-8 rounded-xl shadow-lg border border-gray-200 dark:border-gray-600 dark:text-white backdrop-blur">
+        {formError && (
+          <div className="bg-destructive/15 border border-destructive/20 text-destructive px-4 py-3 rounded-md dark:bg-red-900/30 dark:border-red-800 dark:text-red-300">
+            {formError}
+          </div>
+        )}
+
+        {useRecoveryCode ? (
+          <FormField
+            key="recovery_code"
+            control={form.control}
+            name="recovery_code"
+            rules={{ required: t('auth.twoFactor.recoveryCode.required') }}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('auth.twoFactor.recoveryCode.label')}</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="xxxxx-xxxxx"
+                    autoComplete="off"
+                    autoFocus
+                    aria-invalid={!!form.formState.errors.recovery_code}
+                    {...field}
+                  />
+                </FormControl>
+                <p className="text-sm text-muted-foreground">
+                  {t('auth.twoFactor.recoveryCode.hint')}
+                </p>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ) : (
+          <FormField
+            key="code"
+            control={form.control}
+            name="code"
+            rules={{
+              required: t('auth.twoFactor.code.required'),
+              pattern: {
+                value: /^\s*\d{3}\s?\d{3}\s*$/,
+                message: t('auth.twoFactor.code.invalid')
+              }
+            }}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('auth.twoFactor.code.label')}</FormLabel>
+                <FormControl>
+                  <Input
+                    inputMode="numeric"
+                    placeholder="123456"
+                    autoComplete="one-time-code"
+                    autoFocus
+                    maxLength={7}
+                    aria-invalid={!!form.formState.errors.code}
+                    {...field}
+                  />
+                </FormControl>
+                <p className="text-sm text-muted-foreground">
+                  {t('auth.twoFactor.code.hint')}
+                </p>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="remember_device"
+          render={({ field }) => (
+            <FormItem>
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={field.value}
+                  onChange={(e) => field.onChange(e.target.checked)}
+                />
+                {t('auth.twoFactor.rememberDevice')}
+              </label>
+            </FormItem>
+          )}
+        />
+
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={form.formState.isSubmitting}
+        >
+          {form.formState.isSubmitting && <Spinner size="sm" className="mr-2" />}
+          {t('auth.twoFactor.submit')}
+        </Button>
+
+        <div className="flex items-center justify-between text-sm">
+          <button
+            type="button"
+            onClick={toggleRecoveryCode}
+            className="font-medium text-primary hover:text-primary/80"
+          >
+            {useRecoveryCode ? t('auth.twoFactor.useCode') : t('auth.twoFactor.useRecoveryCode')}
+          </button>
+          <button
+            type="button"
+            onClick={cancelTwoFactor}
+            className="font-medium text-muted-foreground hover:text-foreground"
+          >
+            {t('auth.backToLogin')}
+          </button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default TwoFactorChallengeForm;
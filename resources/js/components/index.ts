@@ -10,10 +10,28 @@ export { default as DraggableTaskList } from './tasks/DraggableTaskList';
 export { default as DraggableTaskCard } from './tasks/DraggableTaskCard';
 export { default as TaskForm } from './tasks/TaskForm';
 export { default as SubtaskManager } from './tasks/SubtaskManager';
+export { default as TaskComments } from './tasks/TaskComments';
+export { default as TaskHistory } from './tasks/TaskHistory';
+export { default as TaskSharing } from './tasks/TaskSharing';
+export { default as TaskDetailTabs } from './tasks/TaskDetailTabs';
+export { default as TaskKeyBadge } from './tasks/TaskKeyBadge';
+export { default as TaskLabels } from './tasks/TaskLabels';
+export { default as LabelChip } from './tasks/LabelChip';
+export { default as LabelPicker } from './tasks/LabelPicker';
+export { default as LabelFilter } from './tasks/LabelFilter';
+export { default as LabelBulkActions } from './tasks/LabelBulkActions';
+
+// Project components
+export { default as ProjectSwitcher } from './projects/ProjectSwitcher';
+export { default as ProjectForm } from './projects/ProjectForm';
 
 // Auth components
 export { default as LoginForm } from './auth/LoginForm';
+export { default as TwoFactorChallengeForm } from './auth/TwoFactorChallengeForm';
 export { default as RegisterForm } from './auth/RegisterForm';
+export { default as ForgotPasswordForm } from './auth/ForgotPasswordForm';
+export { default as ResetPasswordForm } from './auth/ResetPasswordForm';
+export { default as EmailVerificationBanner } from './auth/EmailVerificationBanner';
 export { default as ProtectedRoute } from './auth/ProtectedRoute';
 
 // Context exports
@@ -1,15 +1,20 @@
 import React, { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { Menu, X } from 'lucide-react';
+import { Menu, Settings, X } from 'lucide-react';
 import Navigation from './Navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { ThemeToggle } from '@/components/ui/theme-toggle';
 import LanguageSwitcher from '@/components/ui/LanguageSwitcher';
+import ConnectionStatus from '@/components/ui/ConnectionStatus';
+import PendingSyncIndicator from '@/components/ui/PendingSyncIndicator';
+import ProjectSwitcher from '@/components/projects/ProjectSwitcher';
+import { useTranslation } from '@/hooks/useTranslation';
 
 const Header: React.FC = () => {
   const navigate = useNavigate();
   const { user, logout } = useAuth();
+  const { t } = useTranslation();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
 
   const handleLogout = () => {
@@ -28,20 +33,34 @@ const Header: React.FC = () => {
               className="text-lg sm:text-xl font-bold text-foreground hover:text-primary transition-colors"
               onClick={() => setIsMenuOpen(false)}
             >
-              Task Manager
+              {t('header.appName')}
             </Link>
             <div className="hidden md:block">
               <Navigation />
             </div>
           </div>
           
-          {/* Right Section: User Info, Theme, Logout, and Mobile Menu Button */}
+          {/* Right Section: Project, User Info, Theme, Logout, and Mobile Menu Button */}
           <div className="flex items-center space-x-2 sm:space-x-4">
+            <div className="hidden md:block">
+              <ProjectSwitcher />
+            </div>
             {user && (
               <span className="hidden sm:inline text-sm text-muted-foreground">
-                Welcome, {user.name}
+                {t('header.welcome', { name: user.name })}
               </span>
             )}
+            <Link
+              to="/settings"
+              title={t('header.settings')}
+              className="inline-flex h-9 w-9 items-center justify-center rounded-md text-foreground hover:bg-accent transition-colors"
+              onClick={() => setIsMenuOpen(false)}
+            >
+              <Settings className="h-4 w-4" />
+              <span className="sr-only">{t('header.settings')}</span>
+            </Link>
+            <PendingSyncIndicator />
+            <ConnectionStatus />
             <ThemeToggle />
             <LanguageSwitcher />
             <Button
@@ -49,7 +68,7 @@ const Header: React.FC = () => {
               onClick={handleLogout}
               className="text-sm text-foreground"
             >
-              <span className="text-foreground">Logout</span>
+              <span className="text-foreground">{t('header.logout')}</span>
             </Button>
             <div className="md:hidden">
               <Button
@@ -58,7 +77,7 @@ const Header: React.FC = () => {
                 onClick={() => setIsMenuOpen(!isMenuOpen)}
               >
                 {isMenuOpen ? <X className="h-6 w-6 text-foreground" /> : <Menu className="h-6 w-6 text-foreground" />}
-                <span className="sr-only">Toggle menu</span>
+                <span className="sr-only">{t('header.toggleMenu')}</span>
               </Button>
             </div>
           </div>
@@ -70,6 +89,9 @@ const Header: React.FC = () => {
         <div className="md:hidden bg-background border-t">
           <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-4">
             <Navigation onLinkClick={() => setIsMenuOpen(false)} />
+            <div className="mt-4">
+              <ProjectSwitcher onNavigate={() => setIsMenuOpen(false)} />
+            </div>
           </div>
         </div>
       )}
@@ -1,11 +1,13 @@
 import React from 'react';
 import { Outlet } from 'react-router-dom';
 import Header from './Header';
+import EmailVerificationBanner from '@/components/auth/EmailVerificationBanner';
 
 const Layout: React.FC = () => {
   return (
     <div className="min-h-screen bg-background">
       <Header />
+      <EmailVerificationBanner />
       <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6 lg:py-8">
         <Outlet />
       </main>
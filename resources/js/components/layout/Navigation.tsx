@@ -1,15 +1,26 @@
 import React from 'react';
-import { NavLink } from 'react-router-dom';
+import { NavLink, useLocation } from 'react-router-dom';
+import { Bookmark } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useSavedViews } from '@/contexts/SavedViewContext';
+import { isSameTaskListView } from '@/utils/taskListView';
+import { useTranslation } from '@/hooks/useTranslation';
+import { MessageKey } from '@/i18n';
 
 interface NavigationProps {
   onLinkClick?: () => void;
 }
 
 const Navigation: React.FC<NavigationProps> = ({ onLinkClick }) => {
-  const navItems = [
-    { to: '/', label: 'Dashboard' },
-    { to: '/tasks', label: 'Tasks' },
+  const location = useLocation();
+  const { views } = useSavedViews();
+  const { t } = useTranslation();
+  const navItems: { to: string; label: MessageKey; end?: boolean }[] = [
+    { to: '/', label: 'nav.dashboard' },
+    { to: '/tasks', label: 'nav.tasks', end: true },
+    { to: '/tasks/board', label: 'nav.board' },
+    { to: '/calendar', label: 'nav.calendar' },
+    { to: '/translations', label: 'nav.translations' },
   ];
 
   return (
@@ -18,6 +29,7 @@ const Navigation: React.FC<NavigationProps> = ({ onLinkClick }) => {
         <NavLink
           key={item.to}
           to={item.to}
+          end={item.end}
           onClick={onLinkClick}
           className={({ isActive }) =>
             cn(
@@ -28,9 +40,31 @@ const Navigation: React.FC<NavigationProps> = ({ onLinkClick }) => {
             )
           }
         >
-          {item.label}
+          {t(item.label)}
         </NavLink>
       ))}
+      {views.map((view) => {
+        const isActive = location.pathname === '/tasks'
+          && isSameTaskListView(new URLSearchParams(location.search), new URLSearchParams(view.params));
+
+        return (
+          <NavLink
+            key={`view-${view.id}`}
+            to={{ pathname: '/tasks', search: new URLSearchParams(view.params).toString() }}
+            onClick={onLinkClick}
+            title={t('nav.savedView', { name: view.name })}
+            className={cn(
+              "flex items-center gap-1.5 px-3 py-2 rounded-md text-sm font-medium transition-colors",
+              isActive
+                ? 'text-primary bg-primary/10'
+                : 'text-muted-foreground hover:text-foreground hover:bg-accent'
+            )}
+          >
+            <Bookmark className="h-3.5 w-3.5" />
+            {view.name}
+          </NavLink>
+        );
+      })}
     </nav>
   );
 };
@@ -0,0 +1,157 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { Project, ProjectFormData } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useNotifications } from '@/components/ui/notification';
+import { useProjects } from '@/contexts/ProjectContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { applyFormErrors } from '@/utils/formErrors';
+
+interface ProjectFormProps {
+  // Project to change; without it the form creates a new project
+  project?: Project;
+  onSaved?: (project: Project) => void;
+  onCancel?: () => void;
+}
+
+const DEFAULT_COLOR = '#3b82f6';
+
+// Same rule as Project::KEY_PATTERN on the server
+const KEY_PATTERN = /^[A-Z][A-Z0-9]{1,9}$/;
+
+const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSaved, onCancel }) => {
+  const { createProject, updateProject } = useProjects();
+  const { addNotification } = useNotifications();
+  const { t } = useTranslation();
+
+  const form = useForm<ProjectFormData>({
+    defaultValues: {
+      name: project?.name ?? '',
+      key: project?.key ?? '',
+      color: project?.color ?? DEFAULT_COLOR,
+      description: project?.description ?? ''
+    }
+  });
+
+  const handleSubmit = async (data: ProjectFormData) => {
+    const values = { ...data, description: data.description?.trim() || null };
+
+    try {
+      const saved = project
+        ? await updateProject(project.id, values)
+        : await createProject(values);
+
+      if (!project) {
+        form.reset({ name: '', key: '', color: DEFAULT_COLOR, description: '' });
+      }
+      onSaved?.(saved);
+    } catch (error) {
+      if (!applyFormErrors(form, error)) {
+        addNotification({
+          type: 'error',
+          title: t('projects.saveFailed'),
+          message: (error as Error).message
+        });
+      }
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-[1fr_10rem_6rem]">
+          <FormField
+            control={form.control}
+            name="name"
+            rules={{
+              required: t('projects.form.nameRequired'),
+              maxLength: { value: 100, message: t('projects.form.nameTooLong') }
+            }}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('projects.form.name')}</FormLabel>
+                <FormControl>
+                  <Input placeholder={t('projects.form.namePlaceholder')} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="key"
+            rules={{
+              required: t('projects.form.keyRequired'),
+              pattern: { value: KEY_PATTERN, message: t('projects.form.keyInvalid') }
+            }}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('projects.form.key')}</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="WEB"
+                    maxLength={10}
+                    className="font-mono uppercase"
+                    {...field}
+                    onChange={event => field.onChange(event.target.value.toUpperCase())}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="color"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('projects.form.color')}</FormLabel>
+                <FormControl>
+                  <Input type="color" className="p-1" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {project && project.key !== form.watch('key') && (
+          <p className="text-sm text-muted-foreground">{t('projects.form.keyChangeHint')}</p>
+        )}
+
+        <FormField
+          control={form.control}
+          name="description"
+          rules={{ maxLength: { value: 1000, message: t('projects.form.descriptionTooLong') } }}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('projects.form.description')}</FormLabel>
+              <FormControl>
+                <Textarea rows={2} {...field} value={field.value ?? ''} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel}>
+              {t('common.cancel')}
+            </Button>
+          )}
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            {project ? t('projects.form.save') : t('projects.form.create')}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default ProjectForm;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { FolderKanban } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useProjects } from '@/contexts/ProjectContext';
+import { useTranslation } from '@/hooks/useTranslation';
+
+// Select items need a non-empty value, so "every project" gets its own
+const ALL_PROJECTS = 'all';
+
+interface ProjectSwitcherProps {
+  onNavigate?: () => void;
+}
+
+/**
+ * Picks the project the task lists, board, calendar and dashboard are limited to
+ */
+const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({ onNavigate }) => {
+  const { activeProjects, currentProject, selectProject } = useProjects();
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select
+        value={currentProject ? currentProject.id.toString() : ALL_PROJECTS}
+        onValueChange={value => selectProject(value === ALL_PROJECTS ? null : Number(value))}
+      >
+        <SelectTrigger size="sm" className="w-40" aria-label={t('projects.switcher.label')}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_PROJECTS}>{t('projects.switcher.all')}</SelectItem>
+          {activeProjects.map(project => (
+            <SelectItem key={project.id} value={project.id.toString()}>
+              <span className="h-2 w-2 shrink-0 rounded-full" style={{ backgroundColor: project.color }} />
+              <span className="truncate">{project.name}</span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Link
+        to="/projects"
+        title={t('projects.switcher.manage')}
+        className="inline-flex h-8 w-8 items-center justify-center rounded-md text-foreground hover:bg-accent transition-colors"
+        onClick={onNavigate}
+      >
+        <FolderKanban className="h-4 w-4" />
+        <span className="sr-only">{t('projects.switcher.manage')}</span>
+      </Link>
+    </div>
+  );
+};
+
+export default ProjectSwitcher;
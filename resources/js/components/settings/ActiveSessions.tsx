@@ -0,0 +1,94 @@
+import React from 'react';
+import { Monitor, Smartphone } from 'lucide-react';
+import { ActiveSession } from '@/types';
+import { Card, CardAction, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/spinner';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface ActiveSessionsProps {
+  sessions: ActiveSession[];
+  supported: boolean;
+  // Id of the session being signed out, or "others"
+  revoking: string | null;
+  onRevoke: (session: ActiveSession) => void;
+  onRevokeOthers: () => void;
+}
+
+const ActiveSessions: React.FC<ActiveSessionsProps> = ({ sessions, supported, revoking, onRevoke, onRevokeOthers }) => {
+  const { t } = useTranslation();
+  const { formatRelativeTime, formatDateTime } = useDateFormat();
+  const hasOthers = sessions.some(session => !session.is_current);
+
+  const describeDevice = ({ device }: ActiveSession) => {
+    if (device.browser && device.platform) {
+      return t('security.sessions.device', { browser: device.browser, platform: device.platform });
+    }
+    return device.browser ?? device.platform ?? t('security.sessions.unknownDevice');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('security.sessions.title')}</CardTitle>
+        <CardDescription>{t('security.sessions.description')}</CardDescription>
+        {hasOthers && (
+          <CardAction>
+            <Button variant="outline" size="sm" onClick={onRevokeOthers} disabled={revoking !== null}>
+              {revoking === 'others' && <Spinner size="sm" className="mr-2" />}
+              {t('security.sessions.revokeOthers')}
+            </Button>
+          </CardAction>
+        )}
+      </CardHeader>
+      <CardContent>
+        {!supported ? (
+          <p className="text-sm text-muted-foreground">{t('security.sessions.unsupported')}</p>
+        ) : (
+          <ul className="divide-y">
+            {sessions.map(session => {
+              const DeviceIcon = session.device.is_mobile ? Smartphone : Monitor;
+
+              return (
+                <li key={session.id} className="flex items-center gap-4 py-3">
+                  <DeviceIcon className="h-5 w-5 shrink-0 text-muted-foreground" aria-hidden="true" />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-foreground">
+                      {describeDevice(session)}
+                      {session.is_current && (
+                        <span className="ml-2 rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800 dark:bg-green-900/40 dark:text-green-300">
+                          {t('security.sessions.current')}
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {session.ip_address ?? t('security.sessions.unknownIp')}
+                      {' · '}
+                      <time dateTime={session.last_active_at} title={formatDateTime(session.last_active_at)}>
+                        {t('security.sessions.lastActive', { time: formatRelativeTime(session.last_active_at) })}
+                      </time>
+                    </p>
+                  </div>
+                  {!session.is_current && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onRevoke(session)}
+                      disabled={revoking !== null}
+                    >
+                      {revoking === session.id && <Spinner size="sm" className="mr-2" />}
+                      {t('security.sessions.revoke')}
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ActiveSessions;
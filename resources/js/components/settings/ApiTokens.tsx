@@ -0,0 +1,70 @@
+import React from 'react';
+import { KeyRound } from 'lucide-react';
+import { ApiToken } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/spinner';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface ApiTokensProps {
+  tokens: ApiToken[];
+  revoking: number | null;
+  onRevoke: (token: ApiToken) => void;
+}
+
+const ApiTokens: React.FC<ApiTokensProps> = ({ tokens, revoking, onRevoke }) => {
+  const { t } = useTranslation();
+  const { formatRelativeTime, formatDateTime } = useDateFormat();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('security.tokens.title')}</CardTitle>
+        <CardDescription>{t('security.tokens.description')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {tokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('security.tokens.empty')}</p>
+        ) : (
+          <ul className="divide-y">
+            {tokens.map(token => (
+              <li key={token.id} className="flex items-center gap-4 py-3">
+                <KeyRound className="h-5 w-5 shrink-0 text-muted-foreground" aria-hidden="true" />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium text-foreground">{token.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {token.last_used_at ? (
+                      <time dateTime={token.last_used_at} title={formatDateTime(token.last_used_at)}>
+                        {t('security.tokens.lastUsed', { time: formatRelativeTime(token.last_used_at) })}
+                      </time>
+                    ) : t('security.tokens.neverUsed')}
+                    {token.expires_at && (
+                      <>
+                        {' · '}
+                        <time dateTime={token.expires_at}>
+                          {t('security.tokens.expires', { date: formatDateTime(token.expires_at) })}
+                        </time>
+                      </>
+                    )}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onRevoke(token)}
+                  disabled={revoking !== null}
+                >
+                  {revoking === token.id && <Spinner size="sm" className="mr-2" />}
+                  {t('security.tokens.revoke')}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ApiTokens;
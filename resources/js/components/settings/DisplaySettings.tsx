@@ -0,0 +1,129 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { TaskViewMode, Theme } from '@/types';
+import { MessageKey } from '@/i18n';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useNotifications } from '@/components/ui/notification';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import SettingsService from '@/services/SettingsService';
+import { applyFormErrors } from '@/utils/formErrors';
+import SettingsSection from './SettingsSection';
+
+interface DisplayFormData {
+  theme: Theme;
+  default_task_view: TaskViewMode;
+}
+
+const THEMES: { value: Theme; label: MessageKey }[] = [
+  { value: 'light', label: 'settings.display.theme.light' },
+  { value: 'dark', label: 'settings.display.theme.dark' },
+  { value: 'system', label: 'settings.display.theme.system' }
+];
+
+const TASK_VIEWS: { value: TaskViewMode; label: MessageKey }[] = [
+  { value: 'list', label: 'settings.display.taskView.list' },
+  { value: 'grid', label: 'settings.display.taskView.grid' }
+];
+
+const DisplaySettings: React.FC = () => {
+  const { user, updateUser } = useAuth();
+  const { theme, setTheme } = useTheme();
+  const { addNotification } = useNotifications();
+  const { t } = useTranslation();
+
+  const form = useForm<DisplayFormData>({
+    defaultValues: {
+      theme: user?.theme ?? theme,
+      default_task_view: user?.default_task_view ?? 'list'
+    }
+  });
+
+  const handleSubmit = async (data: DisplayFormData) => {
+    try {
+      const { user: updated } = await SettingsService.updatePreferences(data);
+
+      updateUser(updated);
+      setTheme(data.theme);
+      form.reset(data);
+      addNotification({
+        type: 'success',
+        title: t('settings.saved.title'),
+        message: t('settings.display.saved')
+      });
+    } catch (error) {
+      if (!applyFormErrors(form, error)) {
+        addNotification({
+          type: 'error',
+          title: t('settings.failed.title'),
+          message: (error as Error).message
+        });
+      }
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <SettingsSection
+        id="settings-display"
+        title={t('settings.display.title')}
+        description={t('settings.display.description')}
+        onSubmit={form.handleSubmit(handleSubmit)}
+        isSaving={form.formState.isSubmitting}
+        canSave={form.formState.isDirty}
+      >
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="theme"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('settings.display.theme')}</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {THEMES.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{t(option.label)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="default_task_view"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('settings.display.taskView')}</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {TASK_VIEWS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{t(option.label)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+      </SettingsSection>
+    </Form>
+  );
+};
+
+export default DisplaySettings;
@@ -0,0 +1,114 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { PasswordChangeData } from '@/types';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useNotifications } from '@/components/ui/notification';
+import { useTranslation } from '@/hooks/useTranslation';
+import SettingsService from '@/services/SettingsService';
+import { applyFormErrors } from '@/utils/formErrors';
+import SettingsSection from './SettingsSection';
+
+const EMPTY_PASSWORDS: PasswordChangeData = {
+  current_password: '',
+  password: '',
+  password_confirmation: ''
+};
+
+const PasswordSettings: React.FC = () => {
+  const { addNotification } = useNotifications();
+  const { t } = useTranslation();
+
+  const form = useForm<PasswordChangeData>({ defaultValues: EMPTY_PASSWORDS });
+
+  const handleSubmit = async (data: PasswordChangeData) => {
+    try {
+      await SettingsService.updatePassword(data);
+      form.reset(EMPTY_PASSWORDS);
+      addNotification({
+        type: 'success',
+        title: t('settings.saved.title'),
+        message: t('settings.password.saved')
+      });
+    } catch (error) {
+      if (!applyFormErrors(form, error)) {
+        addNotification({
+          type: 'error',
+          title: t('settings.failed.title'),
+          message: (error as Error).message
+        });
+      }
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <SettingsSection
+        id="settings-password"
+        title={t('settings.password.title')}
+        description={t('settings.password.description')}
+        onSubmit={form.handleSubmit(handleSubmit)}
+        isSaving={form.formState.isSubmitting}
+        canSave={form.formState.isDirty}
+      >
+        <FormField
+          control={form.control}
+          name="current_password"
+          rules={{ required: t('settings.validation.required') }}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('settings.password.current')}</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="password"
+            rules={{
+              required: t('settings.validation.required'),
+              minLength: {
+                value: 8,
+                message: t('settings.password.tooShort')
+              }
+            }}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('settings.password.new')}</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="new-password" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="password_confirmation"
+            rules={{
+              required: t('settings.validation.required'),
+              validate: (value) => value === form.getValues('password') || t('settings.password.mismatch')
+            }}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('settings.password.confirm')}</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="new-password" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+      </SettingsSection>
+    </Form>
+  );
+};
+
+export default PasswordSettings;
@@ -0,0 +1,124 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { ProfileData } from '@/types';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useNotifications } from '@/components/ui/notification';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import SettingsService from '@/services/SettingsService';
+import { applyFormErrors } from '@/utils/formErrors';
+import SettingsSection from './SettingsSection';
+
+const ProfileSettings: React.FC = () => {
+  const { user, updateUser } = useAuth();
+  const { addNotification } = useNotifications();
+  const { t } = useTranslation();
+
+  const form = useForm<ProfileData>({
+    defaultValues: {
+      name: user?.name ?? '',
+      email: user?.email ?? '',
+      current_password: ''
+    }
+  });
+
+  // A new sign-in email needs the current password, as the server checks
+  const isEmailChanging = form.watch('email').trim().toLowerCase() !== (user?.email ?? '');
+
+  const handleSubmit = async ({ current_password, ...data }: ProfileData) => {
+    try {
+      const { user: updated } = await SettingsService.updateProfile(
+        isEmailChanging ? { ...data, current_password } : data
+      );
+      const emailChanged = updated.email !== user?.email;
+
+      updateUser(updated);
+      form.reset({ name: updated.name, email: updated.email, current_password: '' });
+      addNotification({
+        type: 'success',
+        title: t('settings.saved.title'),
+        message: emailChanged
+          ? t('settings.profile.verifyNewEmail', { email: updated.email })
+          : t('settings.profile.saved')
+      });
+    } catch (error) {
+      if (!applyFormErrors(form, error)) {
+        addNotification({
+          type: 'error',
+          title: t('settings.failed.title'),
+          message: (error as Error).message
+        });
+      }
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <SettingsSection
+        id="settings-profile"
+        title={t('settings.profile.title')}
+        description={t('settings.profile.description')}
+        onSubmit={form.handleSubmit(handleSubmit)}
+        isSaving={form.formState.isSubmitting}
+        canSave={form.formState.isDirty}
+      >
+        <FormField
+          control={form.control}
+          name="name"
+          rules={{ required: t('settings.validation.required') }}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('settings.profile.name')}</FormLabel>
+              <FormControl>
+                <Input autoComplete="name" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="email"
+          rules={{
+            required: t('settings.validation.required'),
+            pattern: {
+              value: /\S+@\S+\.\S+/,
+              message: t('settings.profile.emailInvalid')
+            }
+          }}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('settings.profile.email')}</FormLabel>
+              <FormControl>
+                <Input type="email" autoComplete="email" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {isEmailChanging && (
+          <FormField
+            control={form.control}
+            name="current_password"
+            rules={{ required: t('settings.validation.required') }}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('settings.password.current')}</FormLabel>
+                <FormControl>
+                  <Input type="password" autoComplete="current-password" {...field} />
+                </FormControl>
+                <FormDescription>{t('settings.profile.passwordForEmail')}</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+      </SettingsSection>
+    </Form>
+  );
+};
+
+export default ProfileSettings;
@@ -0,0 +1,40 @@
+import React, { useMemo } from 'react';
+import { encodeQrCode } from '@/utils/qrCode';
+
+interface QrCodeProps {
+  value: string;
+  // Rendered width and height in pixels
+  size?: number;
+  label: string;
+}
+
+// Light modules around the code that scanners need to find it
+const QUIET_ZONE = 4;
+
+const QrCode: React.FC<QrCodeProps> = ({ value, size = 192, label }) => {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQrCode(value);
+    const squares = modules.flatMap((row, y) =>
+      row.map((dark, x) => (dark ? `M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z` : ''))
+    );
+    return { path: squares.join(''), dimension: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  // Always dark on white, as scanners expect, also in the dark theme
+  return (
+    <svg
+      role="img"
+      aria-label={label}
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      className="rounded-md"
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+};
+
+export default QrCode;
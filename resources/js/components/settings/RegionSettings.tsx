@@ -0,0 +1,128 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { Language } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useNotifications } from '@/components/ui/notification';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import SettingsService from '@/services/SettingsService';
+import { applyFormErrors } from '@/utils/formErrors';
+import { resolveTimeZone } from '@/utils/timezone';
+import SettingsSection from './SettingsSection';
+import TimeZoneSelect from './TimeZoneSelect';
+
+interface RegionFormData {
+  preferred_language: Language;
+  timezone: string;
+}
+
+const RegionSettings: React.FC = () => {
+  const { user, updateUser } = useAuth();
+  const { language, locales, applyLanguage } = useLanguage();
+  const { addNotification } = useNotifications();
+  const { t } = useTranslation();
+  const browserTimeZone = resolveTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+
+  const form = useForm<RegionFormData>({
+    defaultValues: {
+      preferred_language: user?.preferred_language ?? language,
+      timezone: resolveTimeZone(user?.timezone)
+    }
+  });
+
+  const handleSubmit = async (data: RegionFormData) => {
+    try {
+      const { user: updated } = await SettingsService.updatePreferences(data);
+
+      updateUser(updated);
+      applyLanguage(updated.preferred_language);
+      form.reset({ preferred_language: updated.preferred_language, timezone: updated.timezone });
+      addNotification({
+        type: 'success',
+        title: t('settings.saved.title'),
+        message: t('settings.region.saved')
+      });
+    } catch (error) {
+      if (!applyFormErrors(form, error)) {
+        addNotification({
+          type: 'error',
+          title: t('settings.failed.title'),
+          message: (error as Error).message
+        });
+      }
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <SettingsSection
+        id="settings-region"
+        title={t('settings.region.title')}
+        description={t('settings.region.description')}
+        onSubmit={form.handleSubmit(handleSubmit)}
+        isSaving={form.formState.isSubmitting}
+        canSave={form.formState.isDirty}
+      >
+        <FormField
+          control={form.control}
+          name="preferred_language"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('settings.region.language')}</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {locales.map(locale => (
+                    <SelectItem key={locale.code} value={locale.code}>
+                      <span lang={locale.code} dir={locale.direction}>{locale.name}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="timezone"
+          rules={{ required: t('settings.validation.required') }}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('settings.region.timezone')}</FormLabel>
+              <FormControl>
+                <TimeZoneSelect
+                  placeholder={t('settings.region.timezonePlaceholder')}
+                  {...field}
+                />
+              </FormControl>
+              {field.value !== browserTimeZone && (
+                <FormDescription>
+                  <Button
+                    type="button"
+                    variant="link"
+                    className="h-auto p-0"
+                    onClick={() => form.setValue('timezone', browserTimeZone, { shouldDirty: true })}
+                  >
+                    {t('settings.region.useBrowserTimezone', { timeZone: browserTimeZone.replace(/_/g, ' ') })}
+                  </Button>
+                </FormDescription>
+              )}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </SettingsSection>
+    </Form>
+  );
+};
+
+export default RegionSettings;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { NavLink } from 'react-router-dom';
+import { cn } from '@/lib/utils';
+import { useTranslation } from '@/hooks/useTranslation';
+import { MessageKey } from '@/i18n';
+
+const SECTIONS: { to: string; label: MessageKey }[] = [
+  { to: '/settings', label: 'settings.nav.account' },
+  { to: '/settings/security', label: 'settings.nav.security' }
+];
+
+/**
+ * Tabs between the settings pages
+ */
+const SettingsNav: React.FC = () => {
+  const { t } = useTranslation();
+
+  return (
+    <nav className="flex gap-2 border-b">
+      {SECTIONS.map(section => (
+        <NavLink
+          key={section.to}
+          to={section.to}
+          end
+          className={({ isActive }) =>
+            cn(
+              '-mb-px border-b-2 px-3 py-2 text-sm font-medium transition-colors',
+              isActive
+                ? 'border-primary text-primary'
+                : 'border-transparent text-muted-foreground hover:text-foreground'
+            )
+          }
+        >
+          {t(section.label)}
+        </NavLink>
+      ))}
+    </nav>
+  );
+};
+
+export default SettingsNav;
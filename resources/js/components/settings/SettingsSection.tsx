@@ -0,0 +1,53 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/spinner';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface SettingsSectionProps {
+  id: string;
+  title: string;
+  description: string;
+  onSubmit: (event: React.FormEvent<HTMLFormElement>) => void;
+  isSaving: boolean;
+  // Nothing to save until a field is changed
+  canSave: boolean;
+  children: React.ReactNode;
+}
+
+/**
+ * A section of the settings page; each section is its own form with its own save button
+ */
+const SettingsSection: React.FC<SettingsSectionProps> = ({
+  id,
+  title,
+  description,
+  onSubmit,
+  isSaving,
+  canSave,
+  children
+}) => {
+  const { t } = useTranslation();
+
+  return (
+    <Card aria-labelledby={`${id}-title`}>
+      <form onSubmit={onSubmit} noValidate className="flex flex-col gap-6">
+        <CardHeader>
+          <CardTitle id={`${id}-title`}>{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {children}
+        </CardContent>
+        <CardFooter className="justify-end">
+          <Button type="submit" disabled={isSaving || !canSave}>
+            {isSaving && <Spinner size="sm" className="mr-2" />}
+            {isSaving ? t('common.saving') : t('settings.save')}
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+};
+
+export default SettingsSection;
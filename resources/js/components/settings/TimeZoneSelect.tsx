@@ -0,0 +1,119 @@
+import React, { useId, useMemo, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { useTranslation } from '@/hooks/useTranslation';
+import { formatUtcOffset, getTimeZones, searchTimeZones } from '@/utils/timezone';
+
+// Enough to pick from while typing; a longer search narrows the list down
+const MAX_RESULTS = 50;
+
+interface TimeZoneSelectProps extends Omit<React.ComponentProps<'input'>, 'value' | 'onChange'> {
+  value: string;
+  onChange: (timeZone: string) => void;
+}
+
+/**
+ * Searchable list of IANA timezones. Typing filters the list; the value only
+ * changes when a timezone is picked, so it is always a known zone.
+ */
+const TimeZoneSelect = React.forwardRef<HTMLInputElement, TimeZoneSelectProps>(
+  ({ value, onChange, onBlur, className, ...props }, ref) => {
+    const { t } = useTranslation();
+    const listId = useId();
+    const timeZones = useMemo(getTimeZones, []);
+    const [query, setQuery] = useState<string | null>(null);
+    const [activeIndex, setActiveIndex] = useState(0);
+
+    const isOpen = query !== null;
+    const results = useMemo(
+      () => (isOpen ? searchTimeZones(timeZones, query).slice(0, MAX_RESULTS) : []),
+      [timeZones, query, isOpen]
+    );
+
+    const select = (timeZone: string) => {
+      onChange(timeZone);
+      setQuery(null);
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+      if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+        event.preventDefault();
+        if (!isOpen) {
+          setQuery('');
+          setActiveIndex(0);
+          return;
+        }
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex(index => Math.min(Math.max(index + step, 0), results.length - 1));
+      } else if (event.key === 'Enter' && isOpen) {
+        event.preventDefault();
+        if (results[activeIndex]) select(results[activeIndex]);
+      } else if (event.key === 'Escape' && isOpen) {
+        event.preventDefault();
+        setQuery(null);
+      }
+    };
+
+    return (
+      <div className="relative">
+        <Input
+          ref={ref}
+          role="combobox"
+          aria-expanded={isOpen}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={isOpen && results[activeIndex] ? `${listId}-${activeIndex}` : undefined}
+          autoComplete="off"
+          className={className}
+          value={query ?? value.replace(/_/g, ' ')}
+          onChange={(event) => {
+            setQuery(event.target.value);
+            setActiveIndex(0);
+          }}
+          onFocus={(event) => event.target.select()}
+          onKeyDown={handleKeyDown}
+          onBlur={(event) => {
+            setQuery(null);
+            onBlur?.(event);
+          }}
+          {...props}
+        />
+        {isOpen && (
+          <ul
+            id={listId}
+            role="listbox"
+            className="absolute z-50 mt-1 max-h-64 w-full overflow-y-auto rounded-md border bg-popover py-1 text-sm shadow-md"
+          >
+            {results.map((timeZone, index) => (
+              <li
+                key={timeZone}
+                id={`${listId}-${index}`}
+                role="option"
+                aria-selected={timeZone === value}
+                // Keep the focus in the input so the blur does not close the list first
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => select(timeZone)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={cn(
+                  'flex cursor-pointer justify-between gap-4 px-3 py-1.5',
+                  index === activeIndex && 'bg-accent text-accent-foreground',
+                  timeZone === value && 'font-medium'
+                )}
+              >
+                <span>{timeZone.replace(/_/g, ' ')}</span>
+                <span className="text-muted-foreground tabular-nums">{formatUtcOffset(timeZone)}</span>
+              </li>
+            ))}
+            {results.length === 0 && (
+              <li className="px-3 py-1.5 text-muted-foreground">{t('settings.region.noTimezones')}</li>
+            )}
+          </ul>
+        )}
+      </div>
+    );
+  }
+);
+
+TimeZoneSelect.displayName = 'TimeZoneSelect';
+
+export default TimeZoneSelect;
@@ -0,0 +1,259 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { ShieldCheck } from 'lucide-react';
+import { TwoFactorSetup, TwoFactorStatus } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Spinner } from '@/components/ui/spinner';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useNotifications } from '@/components/ui/notification';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import TwoFactorService from '@/services/TwoFactorService';
+import { applyFormErrors } from '@/utils/formErrors';
+import QrCode from './QrCode';
+
+// Actions that ask for the password first
+type PasswordAction = 'enable' | 'regenerate' | 'disable';
+
+/**
+ * Setting up an authenticator app: password, QR code, first code, and then
+ * the recovery codes, which are shown only once.
+ */
+const TwoFactorSettings: React.FC = () => {
+  const { updateUser } = useAuth();
+  const { addNotification } = useNotifications();
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [action, setAction] = useState<PasswordAction | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const passwordForm = useForm<{ password: string }>({ defaultValues: { password: '' } });
+  const codeForm = useForm<{ code: string }>({ defaultValues: { code: '' } });
+
+  const loadStatus = useCallback(async () => {
+    setLoadError(null);
+    try {
+      setStatus(await TwoFactorService.getStatus());
+    } catch (error) {
+      setLoadError((error as Error).message);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const notifyFailure = (error: unknown) => {
+    addNotification({
+      type: 'error',
+      title: t('security.failed.title'),
+      message: (error as Error).message
+    });
+  };
+
+  const startAction = (next: PasswordAction) => {
+    passwordForm.reset({ password: '' });
+    setRecoveryCodes(null);
+    setAction(next);
+  };
+
+  const handlePassword = async ({ password }: { password: string }) => {
+    try {
+      if (action === 'enable') {
+        setSetup(await TwoFactorService.enable(password));
+        codeForm.reset({ code: '' });
+      } else if (action === 'regenerate') {
+        setRecoveryCodes(await TwoFactorService.regenerateRecoveryCodes(password));
+      } else if (action === 'disable') {
+        const response = await TwoFactorService.disable(password);
+        updateUser(response.user);
+        addNotification({
+          type: 'success',
+          title: t('security.twoFactor.disabled.title'),
+          message: t('security.twoFactor.disabled.message')
+        });
+      }
+      setAction(null);
+      await loadStatus();
+    } catch (error) {
+      if (!applyFormErrors(passwordForm, error)) notifyFailure(error);
+    }
+  };
+
+  const handleConfirm = async ({ code }: { code: string }) => {
+    try {
+      const response = await TwoFactorService.confirm(code);
+      updateUser(response.user);
+      setSetup(null);
+      setRecoveryCodes(response.recovery_codes);
+      addNotification({
+        type: 'success',
+        title: t('security.twoFactor.enabled.title'),
+        message: t('security.twoFactor.enabled.message')
+      });
+      await loadStatus();
+    } catch (error) {
+      if (!applyFormErrors(codeForm, error)) notifyFailure(error);
+    }
+  };
+
+  const handleDownloadCodes = () => {
+    if (!recoveryCodes) return;
+    const url = URL.createObjectURL(new Blob([recoveryCodes.join('\n') + '\n'], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderPasswordForm = () => (
+    <Form {...passwordForm}>
+      <form onSubmit={passwordForm.handleSubmit(handlePassword)} noValidate className="space-y-4">
+        <FormField
+          control={passwordForm.control}
+          name="password"
+          rules={{ required: t('settings.validation.required') }}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('security.twoFactor.password')}</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" autoFocus {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={() => setAction(null)}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            type="submit"
+            variant={action === 'disable' ? 'destructive' : 'default'}
+            disabled={passwordForm.formState.isSubmitting}
+          >
+            {passwordForm.formState.isSubmitting && <Spinner size="sm" className="mr-2" />}
+            {t('security.twoFactor.continue')}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+
+  const renderSetup = (current: TwoFactorSetup) => (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">{t('security.twoFactor.scan')}</p>
+      <div className="flex flex-col sm:flex-row gap-4 items-start">
+        <QrCode value={current.otpauth_url} label={t('security.twoFactor.qrCode')} />
+        <div className="space-y-1 min-w-0">
+          <p className="text-sm text-muted-foreground">{t('security.twoFactor.manualKey')}</p>
+          <code className="block break-all rounded bg-muted px-2 py-1 font-mono text-sm text-foreground">
+            {current.secret.match(/.{1,4}/g)?.join(' ')}
+          </code>
+        </div>
+      </div>
+      <Form {...codeForm}>
+        <form onSubmit={codeForm.handleSubmit(handleConfirm)} noValidate className="space-y-4">
+          <FormField
+            control={codeForm.control}
+            name="code"
+            rules={{ required: t('settings.validation.required') }}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('security.twoFactor.code')}</FormLabel>
+                <FormControl>
+                  <Input inputMode="numeric" autoComplete="one-time-code" maxLength={7} className="max-w-40" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setSetup(null)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={codeForm.formState.isSubmitting}>
+              {codeForm.formState.isSubmitting && <Spinner size="sm" className="mr-2" />}
+              {t('security.twoFactor.confirm')}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+
+  const renderRecoveryCodes = (codes: string[]) => (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">{t('security.twoFactor.recoveryCodes.save')}</p>
+      <ul className="grid grid-cols-2 gap-2 rounded-md bg-muted p-4 font-mono text-sm text-foreground">
+        {codes.map(code => <li key={code}>{code}</li>)}
+      </ul>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={handleDownloadCodes}>
+          {t('security.twoFactor.recoveryCodes.download')}
+        </Button>
+        <Button onClick={() => setRecoveryCodes(null)}>{t('security.twoFactor.recoveryCodes.done')}</Button>
+      </div>
+    </div>
+  );
+
+  const renderStatus = (current: TwoFactorStatus) => current.enabled ? (
+    <div className="space-y-4">
+      <p className="flex items-center gap-2 text-sm font-medium text-foreground">
+        <ShieldCheck className="h-5 w-5 text-green-600 dark:text-green-400" aria-hidden="true" />
+        {t('security.twoFactor.on')}
+      </p>
+      <p className="text-sm text-muted-foreground">
+        {t('security.twoFactor.recoveryCodes.remaining', { count: current.recovery_codes_remaining })}
+      </p>
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button variant="outline" onClick={() => startAction('regenerate')}>
+          {t('security.twoFactor.recoveryCodes.regenerate')}
+        </Button>
+        <Button variant="destructive" onClick={() => startAction('disable')}>
+          {t('security.twoFactor.disable')}
+        </Button>
+      </div>
+    </div>
+  ) : (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {current.pending ? t('security.twoFactor.pending') : t('security.twoFactor.off')}
+      </p>
+      <div className="flex justify-end">
+        <Button onClick={() => startAction('enable')}>{t('security.twoFactor.enable')}</Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('security.twoFactor.title')}</CardTitle>
+        <CardDescription>{t('security.twoFactor.description')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loadError ? (
+          <div className="flex items-center justify-between gap-4 text-sm text-destructive dark:text-red-300">
+            <span>{loadError}</span>
+            <Button variant="outline" size="sm" onClick={loadStatus}>{t('common.retry')}</Button>
+          </div>
+        ) : !status ? (
+          <div className="flex justify-center py-4">
+            <Spinner />
+          </div>
+        ) : action ? renderPasswordForm()
+          : setup ? renderSetup(setup)
+          : recoveryCodes ? renderRecoveryCodes(recoveryCodes)
+          : renderStatus(status)}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TwoFactorSettings;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Lock } from 'lucide-react';
+import { Task } from '@/types';
+import { useTask } from '@/contexts/TaskContext';
+import { getOpenBlockers } from '@/utils/taskDependencies';
+
+interface BlockedByBadgesProps {
+  task: Task;
+  className?: string;
+}
+
+/**
+ * "Blocked by" badges for the unfinished tasks a task is waiting on
+ */
+const BlockedByBadges: React.FC<BlockedByBadgesProps> = ({ task, className = '' }) => {
+  const { tasks } = useTask();
+  const openBlockers = getOpenBlockers(task, tasks);
+
+  if (openBlockers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className}`}>
+      {openBlockers.map(blocker => (
+        <span
+          key={blocker.id}
+          title={`Waiting on "${blocker.name}" (${blocker.status.replace('_', ' ')})`}
+          className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border bg-amber-50 text-amber-800 border-amber-200"
+        >
+          <Lock className="h-3 w-3 mr-1" />
+          Blocked by {blocker.name}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default BlockedByBadges;
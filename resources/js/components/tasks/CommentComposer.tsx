@@ -0,0 +1,222 @@
+import React, { useEffect, useId, useLayoutEffect, useRef, useState } from 'react';
+import { MentionableUser } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Spinner } from '@/components/ui/spinner';
+import { cn } from '@/lib/utils';
+import { useTranslation } from '@/hooks/useTranslation';
+import CommentService from '@/services/CommentService';
+import { findMentionQuery, insertMention, MentionQuery } from '@/utils/mentions';
+
+interface CommentComposerProps {
+  taskId: number;
+  initialValue?: string;
+  submitLabel: string;
+  // Rejects with an Error whose message is shown under the field
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+  // Clear the field after a successful submit (new comments, not edits)
+  resetOnSubmit?: boolean;
+  autoFocus?: boolean;
+}
+
+const MENTION_SEARCH_DELAY = 150;
+
+/**
+ * Markdown comment field with @mention autocomplete. Choosing a person
+ * inserts @[Name](user:id), which the server uses to notify them.
+ */
+const CommentComposer: React.FC<CommentComposerProps> = ({
+  taskId,
+  initialValue = '',
+  submitLabel,
+  onSubmit,
+  onCancel,
+  resetOnSubmit = false,
+  autoFocus = false
+}) => {
+  const { t } = useTranslation();
+  const listId = useId();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const pendingCaret = useRef<number | null>(null);
+  const [value, setValue] = useState(initialValue);
+  const [mention, setMention] = useState<MentionQuery | null>(null);
+  const [suggestions, setSuggestions] = useState<MentionableUser[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const mentionQuery = mention?.query ?? null;
+
+  useEffect(() => {
+    if (mentionQuery === null) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const users = await CommentService.getMentionableUsers(taskId, mentionQuery);
+        if (!cancelled) {
+          setSuggestions(users);
+          setActiveIndex(0);
+        }
+      } catch {
+        if (!cancelled) setSuggestions([]);
+      }
+    }, MENTION_SEARCH_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [taskId, mentionQuery]);
+
+  // Put the caret after a mention once React has rendered the new text
+  useLayoutEffect(() => {
+    if (pendingCaret.current !== null && textareaRef.current) {
+      textareaRef.current.setSelectionRange(pendingCaret.current, pendingCaret.current);
+      pendingCaret.current = null;
+    }
+  }, [value]);
+
+  const updateMention = (text: string, caret: number) => {
+    setMention(findMentionQuery(text, caret));
+  };
+
+  const chooseMention = (user: MentionableUser) => {
+    const textarea = textareaRef.current;
+    if (!mention || !textarea) return;
+
+    const result = insertMention(value, mention, textarea.selectionStart, user);
+    pendingCaret.current = result.caret;
+    setValue(result.text);
+    setMention(null);
+    textarea.focus();
+  };
+
+  const handleSubmit = async (event?: React.FormEvent) => {
+    event?.preventDefault();
+    const body = value.trim();
+    if (!body || submitting) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(body);
+      if (resetOnSubmit) setValue('');
+    } catch (submitError) {
+      setError((submitError as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const open = mention !== null && suggestions.length > 0;
+
+    if (open && (event.key === 'ArrowDown' || event.key === 'ArrowUp')) {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(index => (index + step + suggestions.length) % suggestions.length);
+    } else if (open && (event.key === 'Enter' || event.key === 'Tab') && !event.ctrlKey && !event.metaKey) {
+      event.preventDefault();
+      chooseMention(suggestions[activeIndex]);
+    } else if (mention && event.key === 'Escape') {
+      // Close the suggestions without closing the surrounding dialog
+      event.preventDefault();
+      event.stopPropagation();
+      setMention(null);
+    } else if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      handleSubmit();
+    } else if (event.key === 'Escape' && onCancel) {
+      event.preventDefault();
+      event.stopPropagation();
+      onCancel();
+    }
+  };
+
+  const showSuggestions = mention !== null && (suggestions.length > 0 || mention.query.length > 0);
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={value}
+          autoFocus={autoFocus}
+          rows={3}
+          maxLength={10000}
+          placeholder={t('comments.placeholder')}
+          aria-label={t('comments.placeholder')}
+          aria-autocomplete="list"
+          aria-expanded={showSuggestions}
+          aria-controls={showSuggestions ? listId : undefined}
+          aria-activedescendant={showSuggestions && suggestions[activeIndex] ? `${listId}-${suggestions[activeIndex].id}` : undefined}
+          aria-invalid={!!error}
+          onChange={(e) => {
+            setValue(e.target.value);
+            updateMention(e.target.value, e.target.selectionStart);
+          }}
+          onSelect={(e) => updateMention(e.currentTarget.value, e.currentTarget.selectionStart)}
+          onBlur={() => setMention(null)}
+          onKeyDown={handleKeyDown}
+        />
+        {showSuggestions && (
+          <ul
+            id={listId}
+            role="listbox"
+            aria-label={t('comments.mentions.label')}
+            className="absolute left-0 top-full z-10 mt-1 w-64 max-w-full overflow-hidden rounded-md border border-border bg-popover text-popover-foreground shadow-md"
+          >
+            {suggestions.length === 0 ? (
+              <li className="px-3 py-2 text-sm text-muted-foreground">
+                {t('comments.mentions.empty', { query: mention.query })}
+              </li>
+            ) : suggestions.map((user, index) => (
+              <li
+                key={user.id}
+                id={`${listId}-${user.id}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep the focus in the textarea, which would close the list on blur
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  chooseMention(user);
+                }}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={cn(
+                  'cursor-pointer px-3 py-2 text-sm',
+                  index === activeIndex && 'bg-accent text-accent-foreground'
+                )}
+              >
+                {user.name}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-destructive dark:text-red-300">{error}</p>}
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">{t('comments.hint')}</p>
+        <div className="flex shrink-0 gap-2">
+          {onCancel && (
+            <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+              {t('common.cancel')}
+            </Button>
+          )}
+          <Button type="submit" size="sm" disabled={submitting || !value.trim()}>
+            {submitting && <Spinner size="sm" className="mr-2" />}
+            {submitLabel}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default CommentComposer;
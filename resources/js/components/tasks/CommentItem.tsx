@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { TaskComment } from '@/types';
+import { Button } from '@/components/ui/button';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import CommentComposer from './CommentComposer';
+import MarkdownContent from './MarkdownContent';
+
+interface CommentItemProps {
+  comment: TaskComment;
+  currentUserId?: number;
+  onUpdate: (comment: TaskComment, body: string) => Promise<void>;
+  onDelete: (comment: TaskComment) => void;
+}
+
+const CommentItem: React.FC<CommentItemProps> = ({ comment, currentUserId, onUpdate, onDelete }) => {
+  const { t } = useTranslation();
+  const { formatDateTime, formatRelativeTime } = useDateFormat();
+  const [editing, setEditing] = useState(false);
+  const isOwn = comment.user.id === currentUserId;
+
+  return (
+    <li className="group space-y-1">
+      <div className="flex items-baseline justify-between gap-2">
+        <p className="text-sm">
+          <span className="font-medium text-foreground">{comment.user.name}</span>
+          <time
+            dateTime={comment.created_at}
+            title={formatDateTime(comment.created_at)}
+            className="ml-2 text-xs text-muted-foreground"
+          >
+            {formatRelativeTime(comment.created_at)}
+          </time>
+          {comment.edited_at && (
+            <span className="ml-1 text-xs text-muted-foreground" title={formatDateTime(comment.edited_at)}>
+              ({t('comments.edited')})
+            </span>
+          )}
+        </p>
+        {isOwn && !editing && (
+          <div className="flex gap-1 opacity-0 transition-opacity group-hover:opacity-100 group-focus-within:opacity-100">
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setEditing(true)}>
+              {t('comments.edit')}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs text-red-600 hover:text-red-800 dark:text-red-400"
+              onClick={() => onDelete(comment)}
+            >
+              {t('comments.delete')}
+            </Button>
+          </div>
+        )}
+      </div>
+      {editing ? (
+        <CommentComposer
+          taskId={comment.task_id}
+          initialValue={comment.body}
+          submitLabel={t('comments.save')}
+          autoFocus
+          onSubmit={async (body) => {
+            await onUpdate(comment, body);
+            setEditing(false);
+          }}
+          onCancel={() => setEditing(false)}
+        />
+      ) : (
+        <MarkdownContent source={comment.body} currentUserId={currentUserId} className="text-foreground" />
+      )}
+    </li>
+  );
+};
+
+export default CommentItem;
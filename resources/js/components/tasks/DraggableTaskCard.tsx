@@ -1,11 +1,17 @@
 import React, { useState } from 'react';
-import { useSortable } from '@dnd-kit/sortable';
+import { useSortable, SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { Task } from '@/types';
+import { Task, TaskRole } from '@/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ChevronDown, ChevronRight, Calendar, User, Clock, GripVertical } from 'lucide-react';
-import { useLanguage } from '@/contexts/LanguageContext';
+import { ChevronDown, ChevronRight, Calendar, User, UserCheck, Users, Clock, GripVertical, MessageSquare } from 'lucide-react';
+import { useLocalizedText } from '@/hooks/useLocalizedText';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import BlockedByBadges from './BlockedByBadges';
+import TaskKeyBadge from './TaskKeyBadge';
+import TaskLabels from './TaskLabels';
+import { canDeleteTask, canEditTask, getTaskRole } from '@/utils/taskSharing';
 
 interface DraggableTaskCardProps {
   task: Task;
@@ -16,8 +22,11 @@ interface DraggableTaskCardProps {
   depth?: number;
   showSubtasks?: boolean;
   isDragEnabled?: boolean;
+  isSubtaskDragEnabled?: boolean;
   isOverlay?: boolean;
   onOpenTask?: (task: Task) => void;
+  // Role on the parent task, for subtasks that arrived without one
+  parentRole?: TaskRole;
 }
 
 const DraggableTaskCard: React.FC<DraggableTaskCardProps> = ({
@@ -29,11 +38,23 @@ const DraggableTaskCard: React.FC<DraggableTaskCardProps> = ({
   depth = 0,
   showSubtasks = true,
   isDragEnabled = false,
+  isSubtaskDragEnabled = false,
   isOverlay = false,
-  onOpenTask
+  onOpenTask,
+  parentRole
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  const { getText } = useLocalizedText();
+  const { t } = useTranslation();
+  const { formatDate, formatDateTime, formatDueDate } = useDateFormat();
+  const dueDate = task.due_date
+    ? { ...formatDueDate(task.due_date), title: formatDateTime(task.due_date) }
+    : null;
   const hasSubtasks = task.subtasks && task.subtasks.length > 0;
+  const role = getTaskRole(task, parentRole);
+  const canEdit = canEditTask(role);
+  // Reordering and moving tasks is left to their owner
+  const canDrag = isDragEnabled && role === 'owner';
 
   const {
     attributes,
@@ -42,11 +63,19 @@ const DraggableTaskCard: React.FC<DraggableTaskCardProps> = ({
     transform,
     transition,
     isDragging,
+    isOver,
+    active,
   } = useSortable({
     id: task.id.toString(),
-    disabled: !isDragEnabled || depth > 0, // Only allow dragging parent tasks
+    data: { task },
+    // Parent cards stay droppable so subtasks can be moved onto them
+    disabled: { draggable: !canDrag, droppable: isOverlay },
   });
 
+  // Highlight a parent card while another parent's subtask is dragged over it
+  const activeTask = active?.data.current?.task as Task | undefined;
+  const isSubtaskDropTarget = isOver && depth === 0 && !!activeTask?.parent_id && activeTask.parent_id !== task.id;
+
   const style = {
     transform: CSS.Transform.toString(transform),
     transition,
@@ -79,31 +108,13 @@ const DraggableTaskCard: React.FC<DraggableTaskCardProps> = ({
     }
   };
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    const now = new Date();
-    const diffTime = date.getTime() - now.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    
-    if (diffDays < 0) {
-      return { text: `${Math.abs(diffDays)} days overdue`, color: 'text-red-600 dark:text-red-400' };
-    } else if (diffDays === 0) {
-      return { text: 'Due today', color: 'text-orange-600 dark:text-orange-400' };
-    } else if (diffDays === 1) {
-      return { text: 'Due tomorrow', color: 'text-yellow-600 dark:text-yellow-400' };
-    } else {
-      return { text: `Due in ${diffDays} days`, color: 'text-muted-foreground' };
-    }
+  const getDueDateColor = (dueDate: { days: number; overdue: boolean }) => {
+    if (dueDate.overdue) return 'text-red-600 dark:text-red-400';
+    if (dueDate.days === 0) return 'text-orange-600 dark:text-orange-400';
+    if (dueDate.days === 1) return 'text-yellow-600 dark:text-yellow-400';
+    return 'text-muted-foreground';
   };
 
-  const getTranslation = (field: any, lang?: string) => {
-    const { language } = useLanguage();
-    const l = lang || language;
-    if (typeof field === 'object' && field !== null && field[l]) {
-      return field[l];
-    }
-    return typeof field === 'string' ? field : '';
-  };
 
   const toggleExpanded = () => {
     if (hasSubtasks) {
@@ -120,17 +131,19 @@ const DraggableTaskCard: React.FC<DraggableTaskCardProps> = ({
         style={style}
         className={`hover:shadow-md transition-all duration-200 ${
           task.status === 'completed' ? 'opacity-75' : ''
-        } ${isDragging ? 'shadow-lg' : ''} ${isOverlay ? 'rotate-3 shadow-xl' : ''}`}
+        } ${isDragging ? 'shadow-lg' : ''} ${isOverlay ? 'rotate-3 shadow-xl' : ''} ${
+          isSubtaskDropTarget ? 'ring-2 ring-primary' : ''
+        }`}
       >
         <CardHeader className="pb-3">
           <div className="flex items-start justify-between">
             <div className="flex items-start space-x-3 flex-1">
-              {isDragEnabled && depth === 0 && (
+              {canDrag && (
                 <button
                   {...attributes}
                   {...listeners}
                   className="mt-1 p-1 hover:bg-muted rounded transition-colors cursor-grab active:cursor-grabbing"
-                  aria-label="Drag to reorder"
+                  aria-label={depth > 0 ? t('task.drag.reorderOrMove') : t('task.drag.reorder')}
                   onClick={e => e.stopPropagation()}
                 >
                   <GripVertical className="h-4 w-4 text-muted-foreground" />
@@ -140,7 +153,7 @@ const DraggableTaskCard: React.FC<DraggableTaskCardProps> = ({
               {hasSubtasks && (
                 <button
                   className="mt-1 p-1 hover:bg-muted rounded transition-colors"
-                  aria-label={isExpanded ? 'Collapse subtasks' : 'Expand subtasks'}
+                  aria-label={isExpanded ? t('task.subtasks.collapse') : t('task.subtasks.expand')}
                   onClick={e => { e.stopPropagation(); toggleExpanded(); }}
                 >
                   {isExpanded ? (
@@ -155,7 +168,8 @@ const DraggableTaskCard: React.FC<DraggableTaskCardProps> = ({
                 <CardTitle className={`text-lg ${
                   task.status === 'completed' ? 'line-through text-muted-foreground' : ''
                 }`}>
-                  {getTranslation(task.name)}
+                  <TaskKeyBadge task={task} className="mr-2 align-middle" />
+                  {getText(task.name)}
                   {hasSubtasks && (
                     <span className="ml-2 text-sm font-normal text-muted-foreground">
                       ({task.subtasks!.length} subtask{task.subtasks!.length !== 1 ? 's' : ''})
@@ -167,34 +181,34 @@ const DraggableTaskCard: React.FC<DraggableTaskCardProps> = ({
             
             {!isOverlay && (
               <div className="flex items-center space-x-2">
-                {onToggleStatus && (
+                {onToggleStatus && canEdit && (
                   <Button
                     variant="ghost"
                     size="sm"
                     onClick={e => { e.stopPropagation(); onToggleStatus && onToggleStatus(task.id); }}
                     className={task.status === 'completed' ? 'text-orange-600 hover:text-orange-800 dark:text-orange-400 dark:hover:text-orange-300' : 'text-green-600 hover:text-green-800 dark:text-green-400 dark:hover:text-green-300'}
                   >
-                    {task.status === 'completed' ? 'Reopen' : 'Complete'}
+                    {task.status === 'completed' ? t('task.action.reopen') : t('task.action.complete')}
                   </Button>
                 )}
-                {onEdit && (
+                {onEdit && canEdit && (
                   <Button
                     variant="ghost"
                     size="sm"
                     onClick={e => { e.stopPropagation(); onEdit && onEdit(task); }}
                     className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
                   >
-                    Edit
+                    {t('common.edit')}
                   </Button>
                 )}
-                {onDelete && (
+                {onDelete && canDeleteTask(role) && (
                   <Button
                     variant="ghost"
                     size="sm"
                     onClick={e => { e.stopPropagation(); onDelete && onDelete(task.id); }}
                     className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
                   >
-                    Delete
+                    {t('common.delete')}
                   </Button>
                 )}
               </div>
@@ -205,7 +219,7 @@ const DraggableTaskCard: React.FC<DraggableTaskCardProps> = ({
         <CardContent className="pt-0">
           {task.description && (
             <p className="text-muted-foreground mb-4 leading-relaxed">
-              {getTranslation(task.description)}
+              {getText(task.description)}
             </p>
           )}
           
@@ -219,18 +233,42 @@ const DraggableTaskCard: React.FC<DraggableTaskCardProps> = ({
               {task.priority} priority
             </span>
             
-            {task.due_date && (
-              <span className={`flex items-center ${formatDate(task.due_date).color}`}>
+            {dueDate && (
+              <span className={`flex items-center ${getDueDateColor(dueDate)}`} title={dueDate.title}>
                 <Calendar className="h-3 w-3 mr-1" />
-                {formatDate(task.due_date).text}
+                {dueDate.text}
+              </span>
+            )}
+
+            {task.assignee && (
+              <span className="text-muted-foreground flex items-center" title={t('sharing.assignee.label')}>
+                <UserCheck className="h-3 w-3 mr-1" aria-hidden="true" />
+                {task.assignee.name}
+              </span>
+            )}
+
+            {role !== 'owner' && !task.parent_id && (
+              <span className="px-3 py-1 rounded-full text-xs font-medium border bg-purple-50 text-purple-800 border-purple-200 dark:bg-purple-950 dark:text-purple-200 dark:border-purple-800 flex items-center">
+                <Users className="h-3 w-3 mr-1" aria-hidden="true" />
+                {t('sharing.sharedAs', { role: t(`sharing.role.${role}`) })}
+              </span>
+            )}
+
+            {!!task.comments_count && (
+              <span className="text-muted-foreground flex items-center" title={t('comments.count', { count: task.comments_count })}>
+                <MessageSquare className="h-3 w-3 mr-1" aria-hidden="true" />
+                {task.comments_count}
               </span>
             )}
             
             <span className="text-muted-foreground flex items-center">
               <User className="h-3 w-3 mr-1" />
-              Created {new Date(task.created_at).toLocaleDateString()}
+              {t('dates.created', { date: formatDate(task.created_at) })}
             </span>
           </div>
+
+          <TaskLabels task={task} className="mt-3" />
+          <BlockedByBadges task={task} className="mt-3" />
           
           {hasSubtasks && onViewSubtasks && !isOverlay && (
             <div className="mt-4 pt-4 border-t border-border">
@@ -249,22 +287,28 @@ const DraggableTaskCard: React.FC<DraggableTaskCardProps> = ({
       
       {/* Render subtasks hierarchically */}
       {hasSubtasks && isExpanded && showSubtasks && !isOverlay && (
-        <div className="mt-3 space-y-3">
-          {task.subtasks!.map((subtask) => (
-            <DraggableTaskCard
-              key={subtask.id}
-              task={subtask}
-              onEdit={onEdit}
-              onDelete={onDelete}
-              onToggleStatus={onToggleStatus}
-              onViewSubtasks={onViewSubtasks}
-              depth={depth + 1}
-              showSubtasks={showSubtasks}
-              isDragEnabled={false} // Subtasks are not draggable
-              onOpenTask={onOpenTask}
-            />
-          ))}
-        </div>
+        <SortableContext
+          items={task.subtasks!.map(subtask => subtask.id.toString())}
+          strategy={verticalListSortingStrategy}
+        >
+          <div className="mt-3 space-y-3">
+            {task.subtasks!.map((subtask) => (
+              <DraggableTaskCard
+                key={subtask.id}
+                task={subtask}
+                onEdit={onEdit}
+                onDelete={onDelete}
+                onToggleStatus={onToggleStatus}
+                onViewSubtasks={onViewSubtasks}
+                depth={depth + 1}
+                showSubtasks={showSubtasks}
+                isDragEnabled={isSubtaskDragEnabled}
+                onOpenTask={onOpenTask}
+                parentRole={role}
+              />
+            ))}
+          </div>
+        </SortableContext>
       )}
     </div>
   );
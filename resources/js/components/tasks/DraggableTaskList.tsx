@@ -21,13 +21,25 @@ import {
   restrictToWindowEdges,
 } from '@dnd-kit/modifiers';
 
-import { Task, TaskFilters } from '@/types';
+import { Task } from '@/types';
 import DraggableTaskCard from './DraggableTaskCard';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Search, Filter, SortAsc, SortDesc, List, Grid, GripVertical } from 'lucide-react';
+import { Filter, SortAsc, SortDesc, List, Grid, GripVertical, UserCheck } from 'lucide-react';
 import { useResponsive } from '@/hooks/useResponsive';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLocalizedText } from '@/hooks/useLocalizedText';
+import { useTranslation } from '@/hooks/useTranslation';
+import TaskQueryInput from './TaskQueryInput';
+import { isEmptyTaskQuery, matchesTaskQuery, parseTaskQuery } from '@/utils/taskQuery';
+import { resolveTimeZone } from '@/utils/timezone';
+import { useTaskListView } from '@/hooks/useTaskListView';
+import { TaskListSort } from '@/utils/taskListView';
+import { isAssignedTo } from '@/utils/taskSharing';
+import { matchesLabels } from '@/utils/taskLabels';
+import LabelFilter from './LabelFilter';
+import LabelBulkActions from './LabelBulkActions';
 
 interface DraggableTaskListProps {
   tasks: Task[];
@@ -36,6 +48,8 @@ interface DraggableTaskListProps {
   onToggleStatus?: (taskId: number) => void;
   onViewSubtasks?: (task: Task) => void;
   onReorder?: (taskIds: number[]) => void;
+  onReorderSubtasks?: (parentId: number, subtaskIds: number[]) => void;
+  onMoveSubtask?: (subtaskId: number, parentId: number, position?: number) => void;
   loading?: boolean;
   showFilters?: boolean;
   showSearch?: boolean;
@@ -44,8 +58,7 @@ interface DraggableTaskListProps {
   onOpenTask?: (task: Task) => void;
 }
 
-type SortOption = 'name' | 'created_at' | 'due_date' | 'priority' | 'status' | 'custom';
-type SortDirection = 'asc' | 'desc';
+const bySortOrder = (a: Task, b: Task) => (a.sort_order ?? 0) - (b.sort_order ?? 0);
 
 const DraggableTaskList: React.FC<DraggableTaskListProps> = ({
   tasks,
@@ -54,6 +67,8 @@ const DraggableTaskList: React.FC<DraggableTaskListProps> = ({
   onToggleStatus,
   onViewSubtasks,
   onReorder,
+  onReorderSubtasks,
+  onMoveSubtask,
   loading = false,
   showFilters = true,
   showSearch = true,
@@ -61,15 +76,17 @@ const DraggableTaskList: React.FC<DraggableTaskListProps> = ({
   enableDragAndDrop = true,
   onOpenTask
 }) => {
-  const [filters, setFilters] = useState<TaskFilters>({});
-  const [searchTerm, setSearchTerm] = useState('');
-  const [sortBy, setSortBy] = useState<SortOption>('created_at');
-  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
-  const [showCompleted, setShowCompleted] = useState(true);
-  const [currentViewMode, setCurrentViewMode] = useState<'list' | 'grid'>(viewMode);
-  const [activeId, setActiveId] = useState<string | null>(null);
+  const { view, updateView } = useTaskListView(viewMode);
+  const { search: searchTerm, sortBy, sortDirection, showCompleted, viewMode: currentViewMode } = view;
+  const [activeTask, setActiveTask] = useState<Task | null>(null);
   const [localTasks, setLocalTasks] = useState<Task[]>(tasks);
   const { isMobile, isTablet } = useResponsive();
+  const { language } = useLanguage();
+  const { user } = useAuth();
+  const { getText, fallbackChain } = useLocalizedText();
+  const { t } = useTranslation();
+  const timeZone = resolveTimeZone(user?.timezone);
+  const query = useMemo(() => parseTaskQuery(searchTerm), [searchTerm]);
 
   // Update local tasks when props change
   React.useEffect(() => {
@@ -90,19 +107,18 @@ const DraggableTaskList: React.FC<DraggableTaskListProps> = ({
   // Filter and sort tasks
   const filteredAndSortedTasks = useMemo(() => {
     let filtered = localTasks.filter(task => {
-      // Filter by search term
-      if (searchTerm && !task.name.toLowerCase().includes(searchTerm.toLowerCase()) &&
-          !task.description?.toLowerCase().includes(searchTerm.toLowerCase())) {
+      // Filter by search query
+      if (!matchesTaskQuery(task, query, { language, timeZone, fallbackChain })) {
         return false;
       }
 
       // Filter by status
-      if (filters.status && task.status !== filters.status) {
+      if (view.status && task.status !== view.status) {
         return false;
       }
 
       // Filter by priority
-      if (filters.priority && task.priority !== filters.priority) {
+      if (view.priority && task.priority !== view.priority) {
         return false;
       }
 
@@ -111,19 +127,31 @@ const DraggableTaskList: React.FC<DraggableTaskListProps> = ({
         return false;
       }
 
+      // Filter by assignee: a parent stays when one of its subtasks is assigned to the user
+      if (view.assignedToMe && (!user || !isAssignedTo(task, localTasks, user.id))) {
+        return false;
+      }
+
+      // Filter by labels
+      if (!matchesLabels(task, view.labels, view.labelMatch)) {
+        return false;
+      }
+
       return true;
     });
 
-    // Sort tasks (skip sorting if using custom order and drag-and-drop is enabled)
-    if (sortBy !== 'custom' || !enableDragAndDrop) {
+    // Custom order is the persisted drag-and-drop order
+    if (sortBy === 'custom') {
+      filtered.sort(bySortOrder);
+    } else {
       filtered.sort((a, b) => {
         let aValue: any;
         let bValue: any;
 
         switch (sortBy) {
           case 'name':
-            aValue = a.name.toLowerCase();
-            bValue = b.name.toLowerCase();
+            aValue = getText(a.name).toLowerCase();
+            bValue = getText(b.name).toLowerCase();
             break;
           case 'created_at':
             aValue = new Date(a.created_at);
@@ -154,34 +182,92 @@ const DraggableTaskList: React.FC<DraggableTaskListProps> = ({
     }
 
     return filtered;
-  }, [localTasks, searchTerm, filters, sortBy, sortDirection, showCompleted, enableDragAndDrop]);
+  }, [localTasks, query, language, timeZone, fallbackChain, getText, view.status, view.priority, view.assignedToMe, view.labels, view.labelMatch, user, sortBy, sortDirection, showCompleted]);
+
+  // Subtasks in the flat list, grouped under their parent in custom order
+  const subtasksByParent = useMemo(() => {
+    const groups = new Map<number, Task[]>();
+    localTasks.forEach(task => {
+      if (task.parent_id) {
+        groups.set(task.parent_id, [...(groups.get(task.parent_id) || []), task]);
+      }
+    });
+    groups.forEach(subtasks => subtasks.sort(bySortOrder));
+    return groups;
+  }, [localTasks]);
 
   // Separate parent tasks and subtasks for hierarchical display
   const parentTasks = useMemo(() => {
-    return filteredAndSortedTasks.filter(task => !task.parent_id);
-  }, [filteredAndSortedTasks]);
+    return filteredAndSortedTasks
+      .filter(task => !task.parent_id)
+      .map(task => {
+        const subtasks = subtasksByParent.get(task.id);
+        return subtasks ? { ...task, subtasks } : task;
+      });
+  }, [filteredAndSortedTasks, subtasksByParent]);
 
-  const toggleSort = (newSortBy: SortOption) => {
+  const toggleSort = (newSortBy: TaskListSort) => {
     if (sortBy === newSortBy) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+      updateView({ sortDirection: sortDirection === 'asc' ? 'desc' : 'asc' });
     } else {
-      setSortBy(newSortBy);
-      setSortDirection('asc');
+      updateView({ sortBy: newSortBy, sortDirection: 'asc' });
     }
   };
 
   const handleDragStart = (event: DragStartEvent) => {
-    setActiveId(event.active.id as string);
+    setActiveTask((event.active.data.current?.task as Task | undefined) ?? null);
+  };
+
+  // Persist the new order in local state right away for smooth UX
+  const applyLocalOrder = (orderedIds: number[], parentId?: number) => {
+    setLocalTasks(prev => prev.map(task => {
+      const index = orderedIds.indexOf(task.id);
+      return index === -1 ? task : { ...task, parent_id: parentId, sort_order: index };
+    }));
+  };
+
+  const handleSubtaskDragEnd = (subtask: Task, overTask: Task) => {
+    const targetParentId = overTask.parent_id ?? overTask.id;
+    const siblings = parentTasks.find(task => task.id === targetParentId)?.subtasks || [];
+    const overIndex = overTask.parent_id ? siblings.findIndex(task => task.id === overTask.id) : -1;
+
+    if (targetParentId === subtask.parent_id) {
+      // Dropping a subtask on its own parent card keeps it where it is
+      if (overIndex === -1) return;
+
+      const oldIndex = siblings.findIndex(task => task.id === subtask.id);
+      const newOrder = arrayMove(siblings, oldIndex, overIndex).map(task => task.id);
+      applyLocalOrder(newOrder, targetParentId);
+      onReorderSubtasks?.(targetParentId, newOrder);
+      return;
+    }
+
+    // Insert at the hovered subtask, or append when dropped on the parent card
+    const position = overIndex === -1 ? siblings.length : overIndex;
+    const newOrder = siblings.map(task => task.id);
+    newOrder.splice(position, 0, subtask.id);
+    applyLocalOrder(newOrder, targetParentId);
+    onMoveSubtask?.(subtask.id, targetParentId, overIndex === -1 ? undefined : position);
   };
 
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
-    setActiveId(null);
+    setActiveTask(null);
 
     if (!over || active.id === over.id) {
       return;
     }
 
+    const draggedTask = active.data.current?.task as Task | undefined;
+    const overTask = over.data.current?.task as Task | undefined;
+
+    if (draggedTask?.parent_id) {
+      if (overTask) {
+        handleSubtaskDragEnd(draggedTask, overTask);
+      }
+      return;
+    }
+
     const oldIndex = parentTasks.findIndex(task => task.id.toString() === active.id);
     const newIndex = parentTasks.findIndex(task => task.id.toString() === over.id);
 
@@ -189,9 +275,7 @@ const DraggableTaskList: React.FC<DraggableTaskListProps> = ({
       const newOrder = arrayMove(parentTasks, oldIndex, newIndex);
       const newTaskOrder = newOrder.map(task => task.id);
       
-      // Update local state immediately for smooth UX
-      const reorderedTasks = arrayMove(localTasks, oldIndex, newIndex);
-      setLocalTasks(reorderedTasks);
+      applyLocalOrder(newTaskOrder);
       
       // Notify parent component
       if (onReorder) {
@@ -200,13 +284,11 @@ const DraggableTaskList: React.FC<DraggableTaskListProps> = ({
     }
   };
 
-  const activeTask = parentTasks.find(task => task.id.toString() === activeId);
-
   if (loading) {
     return (
       <div className="flex justify-center items-center py-12">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
-        <span className="ml-3 text-muted-foreground">Loading tasks...</span>
+        <span className="ml-3 text-muted-foreground">{t('tasks.loading')}</span>
       </div>
     );
   }
@@ -217,72 +299,79 @@ const DraggableTaskList: React.FC<DraggableTaskListProps> = ({
       {(showSearch || showFilters) && (
         <div className="bg-card p-4 rounded-lg border space-y-4">
           {showSearch && (
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Search tasks..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="pl-10"
-              />
-            </div>
+            <TaskQueryInput
+              value={searchTerm}
+              onChange={search => updateView({ search })}
+              query={query}
+            />
           )}
 
           {showFilters && (
             <div className="flex flex-wrap items-center gap-2 sm:gap-4">
               <div className="flex items-center space-x-2">
                 <Filter className="h-4 w-4 text-muted-foreground" />
-                <span className="text-sm font-medium hidden sm:inline">Filters:</span>
+                <span className="text-sm font-medium hidden sm:inline">{t('taskList.filters')}</span>
               </div>
 
-              <Select value={filters.status || 'all'} onValueChange={(value) => 
-                setFilters(prev => ({ ...prev, status: value === 'all' ? undefined : (value as Task['status']) }))
+              <Select value={view.status || 'all'} onValueChange={(value) => 
+                updateView({ status: value === 'all' ? undefined : (value as Task['status']) })
               }>
                 <SelectTrigger className="w-32">
-                  <SelectValue placeholder="Status" />
+                  <SelectValue placeholder={t('taskList.status.placeholder')} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="in_progress">In Progress</SelectItem>
-                  <SelectItem value="completed">Completed</SelectItem>
-                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                  <SelectItem value="all">{t('taskList.status.all')}</SelectItem>
+                  <SelectItem value="pending">{t('task.status.pending')}</SelectItem>
+                  <SelectItem value="in_progress">{t('task.status.in_progress')}</SelectItem>
+                  <SelectItem value="completed">{t('task.status.completed')}</SelectItem>
+                  <SelectItem value="cancelled">{t('task.status.cancelled')}</SelectItem>
                 </SelectContent>
               </Select>
 
-              <Select value={filters.priority || 'all'} onValueChange={(value) => 
-                setFilters(prev => ({ ...prev, priority: value === 'all' ? undefined : (value as Task['priority']) }))
+              <Select value={view.priority || 'all'} onValueChange={(value) => 
+                updateView({ priority: value === 'all' ? undefined : (value as Task['priority']) })
               }>
                 <SelectTrigger className="w-32">
-                  <SelectValue placeholder="Priority" />
+                  <SelectValue placeholder={t('taskList.priority.placeholder')} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Priority</SelectItem>
-                  <SelectItem value="low">Low</SelectItem>
-                  <SelectItem value="medium">Medium</SelectItem>
-                  <SelectItem value="high">High</SelectItem>
-                  <SelectItem value="urgent">Urgent</SelectItem>
+                  <SelectItem value="all">{t('taskList.priority.all')}</SelectItem>
+                  <SelectItem value="low">{t('task.priority.low')}</SelectItem>
+                  <SelectItem value="medium">{t('task.priority.medium')}</SelectItem>
+                  <SelectItem value="high">{t('task.priority.high')}</SelectItem>
+                  <SelectItem value="urgent">{t('task.priority.urgent')}</SelectItem>
                 </SelectContent>
               </Select>
 
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setShowCompleted(!showCompleted)}
+                onClick={() => updateView({ showCompleted: !showCompleted })}
                 className={showCompleted ? '' : 'bg-muted'}
               >
-                {showCompleted ? 'Hide' : 'Show'} Completed
+                {showCompleted ? t('taskList.hideCompleted') : t('taskList.showCompleted')}
+              </Button>
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateView({ assignedToMe: !view.assignedToMe })}
+                className={view.assignedToMe ? 'bg-muted' : ''}
+                aria-pressed={view.assignedToMe}
+              >
+                <UserCheck className="mr-1 h-4 w-4" />
+                {t('taskList.assignedToMe')}
               </Button>
 
               <div className="flex items-center space-x-2 ml-auto">
-                <span className="text-sm text-muted-foreground hidden sm:inline">Sort by:</span>
+                <span className="text-sm text-muted-foreground hidden sm:inline">{t('taskList.sort.label')}</span>
                 <Button
                   variant="ghost"
                   size="sm"
                   onClick={() => toggleSort('name')}
                   className={sortBy === 'name' ? 'bg-muted' : ''}
                 >
-                  Name {sortBy === 'name' && (sortDirection === 'asc' ? <SortAsc className="ml-1 h-3 w-3" /> : <SortDesc className="ml-1 h-3 w-3" />)}
+                  {t('taskList.sort.name')} {sortBy === 'name' && (sortDirection === 'asc' ? <SortAsc className="ml-1 h-3 w-3" /> : <SortDesc className="ml-1 h-3 w-3" />)}
                 </Button>
                 <Button
                   variant="ghost"
@@ -290,7 +379,7 @@ const DraggableTaskList: React.FC<DraggableTaskListProps> = ({
                   onClick={() => toggleSort('due_date')}
                   className={sortBy === 'due_date' ? 'bg-muted' : ''}
                 >
-                  Due Date {sortBy === 'due_date' && (sortDirection === 'asc' ? <SortAsc className="ml-1 h-3 w-3" /> : <SortDesc className="ml-1 h-3 w-3" />)}
+                  {t('taskList.sort.dueDate')} {sortBy === 'due_date' && (sortDirection === 'asc' ? <SortAsc className="ml-1 h-3 w-3" /> : <SortDesc className="ml-1 h-3 w-3" />)}
                 </Button>
                 <Button
                   variant="ghost"
@@ -298,7 +387,7 @@ const DraggableTaskList: React.FC<DraggableTaskListProps> = ({
                   onClick={() => toggleSort('priority')}
                   className={sortBy === 'priority' ? 'bg-muted' : ''}
                 >
-                  Priority {sortBy === 'priority' && (sortDirection === 'asc' ? <SortAsc className="ml-1 h-3 w-3" /> : <SortDesc className="ml-1 h-3 w-3" />)}
+                  {t('taskList.sort.priority')} {sortBy === 'priority' && (sortDirection === 'asc' ? <SortAsc className="ml-1 h-3 w-3" /> : <SortDesc className="ml-1 h-3 w-3" />)}
                 </Button>
                 
                 {enableDragAndDrop && (
@@ -309,7 +398,7 @@ const DraggableTaskList: React.FC<DraggableTaskListProps> = ({
                     className={sortBy === 'custom' ? 'bg-muted' : ''}
                   >
                     <GripVertical className="h-4 w-4 mr-1" />
-                    Custom Order
+                    {t('taskList.sort.custom')}
                   </Button>
                 )}
 
@@ -317,21 +406,32 @@ const DraggableTaskList: React.FC<DraggableTaskListProps> = ({
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => setCurrentViewMode('list')}
+                    onClick={() => updateView({ viewMode: 'list' })}
                     className={currentViewMode === 'list' ? 'bg-muted' : ''}
+                    aria-label={t('taskList.view.list')}
                   >
                     <List className="h-4 w-4" />
                   </Button>
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => setCurrentViewMode('grid')}
+                    onClick={() => updateView({ viewMode: 'grid' })}
                     className={currentViewMode === 'grid' ? 'bg-muted' : ''}
+                    aria-label={t('taskList.view.grid')}
                   >
                     <Grid className="h-4 w-4" />
                   </Button>
                 </div>
               </div>
+
+              <div className="basis-full space-y-3">
+                <LabelFilter
+                  value={view.labels}
+                  match={view.labelMatch}
+                  onChange={(labels, labelMatch) => updateView({ labels, labelMatch })}
+                />
+                <LabelBulkActions tasks={filteredAndSortedTasks} />
+              </div>
             </div>
           )}
         </div>
@@ -340,12 +440,12 @@ const DraggableTaskList: React.FC<DraggableTaskListProps> = ({
       {/* Task Count */}
       <div className="flex items-center justify-between">
         <p className="text-sm text-muted-foreground">
-          Showing {filteredAndSortedTasks.length} of {localTasks.length} tasks
+          {t('tasks.showing', { shown: filteredAndSortedTasks.length, total: localTasks.length })}
         </p>
         {enableDragAndDrop && sortBy === 'custom' && (
           <p className="text-sm text-muted-foreground">
             <GripVertical className="inline h-4 w-4 mr-1" />
-            Drag to reorder tasks
+            {t('taskList.dragHint')}
           </p>
         )}
       </div>
@@ -356,11 +456,11 @@ const DraggableTaskList: React.FC<DraggableTaskListProps> = ({
           <div className="text-muted-foreground mb-4">
             <List className="h-12 w-12 mx-auto" />
           </div>
-          <h3 className="text-lg font-medium mb-2">No tasks found</h3>
+          <h3 className="text-lg font-medium mb-2">{t('taskList.empty.title')}</h3>
           <p className="text-muted-foreground">
-            {searchTerm || filters.status || filters.priority 
-              ? 'Try adjusting your search or filters to find tasks.'
-              : 'Create your first task to get started!'
+            {!isEmptyTaskQuery(query) || view.status || view.priority || view.assignedToMe || view.labels.length > 0
+              ? t('taskList.empty.filtered')
+              : t('taskList.empty.none')
             }
           </p>
         </div>
@@ -390,6 +490,7 @@ const DraggableTaskList: React.FC<DraggableTaskListProps> = ({
                   onViewSubtasks={onViewSubtasks}
                   showSubtasks={true}
                   isDragEnabled={enableDragAndDrop && sortBy === 'custom'}
+                  isSubtaskDragEnabled={enableDragAndDrop && !!(onReorderSubtasks || onMoveSubtask)}
                   onOpenTask={onOpenTask}
                 />
               ))}
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Tag } from 'lucide-react';
+import { Task } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useLabels } from '@/contexts/LabelContext';
+import { useTaskOperations } from '@/hooks/useTaskOperations';
+import { useTranslation } from '@/hooks/useTranslation';
+import { LabelChange, getBulkLabelUpdates } from '@/utils/taskLabels';
+
+interface LabelBulkActionsProps {
+  // The tasks the list shows; shared tasks among them are left alone
+  tasks: Task[];
+}
+
+/**
+ * Adds a label to, or removes it from, every shown task in one bulk update, which can be undone
+ */
+const LabelBulkActions: React.FC<LabelBulkActionsProps> = ({ tasks }) => {
+  const { labels } = useLabels();
+  const { bulkUpdateWithLoading, isUpdating } = useTaskOperations();
+  const { t } = useTranslation();
+  const [labelId, setLabelId] = useState<number | null>(null);
+
+  if (labels.length === 0 || tasks.length === 0) {
+    return null;
+  }
+
+  const label = labels.find(candidate => candidate.id === labelId);
+
+  const apply = async (change: LabelChange) => {
+    if (!label) return;
+
+    const updates = getBulkLabelUpdates(tasks, label.id, change);
+    if (updates.length === 0) return;
+
+    const question = change === 'add' ? 'labels.bulk.confirmAdd' : 'labels.bulk.confirmRemove';
+    if (!confirm(t(question, { name: label.name, count: updates.length }))) return;
+
+    await bulkUpdateWithLoading(updates);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Tag className="h-4 w-4 text-muted-foreground" />
+      <span className="text-sm text-muted-foreground">{t('labels.bulk.title')}</span>
+      <Select
+        value={labelId ? labelId.toString() : undefined}
+        onValueChange={value => setLabelId(Number(value))}
+      >
+        <SelectTrigger size="sm" className="w-40" aria-label={t('labels.bulk.label')}>
+          <SelectValue placeholder={t('labels.bulk.placeholder')} />
+        </SelectTrigger>
+        <SelectContent>
+          {labels.map(candidate => (
+            <SelectItem key={candidate.id} value={candidate.id.toString()}>
+              <span className="h-2 w-2 shrink-0 rounded-full" style={{ backgroundColor: candidate.color }} />
+              <span className="truncate">{candidate.name}</span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!label || isUpdating || getBulkLabelUpdates(tasks, label.id, 'add').length === 0}
+        onClick={() => apply('add')}
+      >
+        {t('labels.bulk.add')}
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!label || isUpdating || getBulkLabelUpdates(tasks, label.id, 'remove').length === 0}
+        onClick={() => apply('remove')}
+      >
+        {t('labels.bulk.remove')}
+      </Button>
+    </div>
+  );
+};
+
+export default LabelBulkActions;
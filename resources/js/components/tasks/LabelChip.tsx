@@ -0,0 +1,36 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { TaskLabel } from '@/types';
+
+interface LabelChipProps {
+  label: TaskLabel;
+  // Shows a button that takes the label off
+  onRemove?: () => void;
+  removeLabel?: string;
+  className?: string;
+}
+
+/**
+ * A label as a chip in its own color
+ */
+const LabelChip: React.FC<LabelChipProps> = ({ label, onRemove, removeLabel, className = '' }) => (
+  <span
+    className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs font-medium ${className}`}
+    style={{ borderColor: label.color, color: label.color, backgroundColor: `${label.color}1a` }}
+  >
+    <span className="h-1.5 w-1.5 shrink-0 rounded-full" style={{ backgroundColor: label.color }} />
+    {label.name}
+    {onRemove && (
+      <button
+        type="button"
+        onClick={onRemove}
+        className="-mr-0.5 rounded-full hover:opacity-70"
+        aria-label={removeLabel ?? label.name}
+      >
+        <X className="h-3 w-3" />
+      </button>
+    )}
+  </span>
+);
+
+export default LabelChip;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Tag } from 'lucide-react';
+import { LabelMatch } from '@/types';
+import { Button } from '@/components/ui/button';
+import { useLabels } from '@/contexts/LabelContext';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface LabelFilterProps {
+  value: number[];
+  match: LabelMatch;
+  onChange: (labelIds: number[], match: LabelMatch) => void;
+}
+
+/**
+ * Label toggles for the task filters; tasks need any of the picked labels, or all of them
+ */
+const LabelFilter: React.FC<LabelFilterProps> = ({ value, match, onChange }) => {
+  const { labels } = useLabels();
+  const { t } = useTranslation();
+
+  if (labels.length === 0) {
+    return null;
+  }
+
+  const toggle = (labelId: number) => {
+    onChange(value.includes(labelId) ? value.filter(id => id !== labelId) : [...value, labelId], match);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="flex items-center gap-1 text-sm text-muted-foreground">
+        <Tag className="h-4 w-4" />
+        {t('labels.filter.title')}
+      </span>
+      {labels.map(label => {
+        const isActive = value.includes(label.id);
+        return (
+          <button
+            key={label.id}
+            type="button"
+            onClick={() => toggle(label.id)}
+            aria-pressed={isActive}
+            className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs font-medium transition-colors"
+            style={isActive
+              ? { borderColor: label.color, backgroundColor: label.color, color: '#fff' }
+              : { borderColor: label.color, color: label.color }}
+          >
+            {label.name}
+          </button>
+        );
+      })}
+      {value.length > 1 && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange(value, match === 'all' ? 'any' : 'all')}
+          title={match === 'all' ? t('labels.filter.matchAllHint') : t('labels.filter.matchAnyHint')}
+        >
+          {match === 'all' ? t('labels.filter.matchAll') : t('labels.filter.matchAny')}
+        </Button>
+      )}
+      {value.length > 0 && (
+        <Button variant="ghost" size="sm" onClick={() => onChange([], match)}>
+          {t('labels.filter.clear')}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default LabelFilter;
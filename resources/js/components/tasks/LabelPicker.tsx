@@ -0,0 +1,193 @@
+import React, { useId, useMemo, useState } from 'react';
+import { Plus } from 'lucide-react';
+import { TaskLabel } from '@/types';
+import { Input } from '@/components/ui/input';
+import { useNotifications } from '@/components/ui/notification';
+import { cn } from '@/lib/utils';
+import { useLabels } from '@/contexts/LabelContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { pickLabelColor } from '@/utils/taskLabels';
+import LabelChip from './LabelChip';
+
+// Same limit as the labels table
+const MAX_NAME_LENGTH = 50;
+
+interface LabelPickerProps {
+  value: number[];
+  onChange: (labelIds: number[]) => void;
+  // Labels already on the task, shown until the user's labels have loaded
+  initialLabels?: TaskLabel[];
+}
+
+/**
+ * Typeahead for the labels on a task. Typing a name that is not a label yet
+ * offers to create it, in a color picked from the name.
+ */
+const LabelPicker: React.FC<LabelPickerProps> = ({ value, onChange, initialLabels = [] }) => {
+  const { labels, createLabel } = useLabels();
+  const { addNotification } = useNotifications();
+  const { t } = useTranslation();
+  const listId = useId();
+  const [query, setQuery] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const isOpen = query !== null;
+  const name = query?.trim() ?? '';
+
+  const selected = value
+    .map(id => labels.find(label => label.id === id) ?? initialLabels.find(label => label.id === id))
+    .filter((label): label is TaskLabel => label !== undefined);
+
+  const results = useMemo(() => {
+    const search = name.toLowerCase();
+    return labels.filter(label => !value.includes(label.id) && label.name.toLowerCase().includes(search));
+  }, [labels, value, name]);
+
+  // Names are unique per user regardless of case, like on the server
+  const canCreate = name !== '' && name.length <= MAX_NAME_LENGTH
+    && !labels.some(label => label.name.toLowerCase() === name.toLowerCase());
+  const optionCount = results.length + (canCreate ? 1 : 0);
+
+  const add = (labelId: number) => {
+    onChange([...value, labelId]);
+    setQuery('');
+    setActiveIndex(0);
+  };
+
+  const create = async () => {
+    setIsCreating(true);
+    try {
+      const label = await createLabel({ name, color: pickLabelColor(name) });
+      add(label.id);
+    } catch (error) {
+      addNotification({
+        type: 'error',
+        title: t('taskForm.labels.createFailed'),
+        message: (error as Error).message
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const pick = (index: number) => {
+    if (results[index]) {
+      add(results[index].id);
+    } else if (canCreate && !isCreating) {
+      create();
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      if (!isOpen) {
+        setQuery('');
+        setActiveIndex(0);
+        return;
+      }
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(index => Math.min(Math.max(index + step, 0), optionCount - 1));
+    } else if (event.key === 'Enter') {
+      // Enter picks a label rather than submitting the task form
+      event.preventDefault();
+      if (isOpen) pick(activeIndex);
+    } else if (event.key === 'Escape' && isOpen) {
+      event.preventDefault();
+      setQuery(null);
+    } else if (event.key === 'Backspace' && !query && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {selected.map(label => (
+            <LabelChip
+              key={label.id}
+              label={label}
+              onRemove={() => onChange(value.filter(id => id !== label.id))}
+              removeLabel={t('taskForm.labels.remove', { name: label.name })}
+            />
+          ))}
+        </div>
+      )}
+      <div className="relative">
+        <Input
+          role="combobox"
+          aria-expanded={isOpen}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={isOpen && activeIndex < optionCount ? `${listId}-${activeIndex}` : undefined}
+          aria-label={t('taskForm.labels.label')}
+          autoComplete="off"
+          placeholder={t('taskForm.labels.placeholder')}
+          maxLength={MAX_NAME_LENGTH}
+          disabled={isCreating}
+          value={query ?? ''}
+          onChange={(event) => {
+            setQuery(event.target.value);
+            setActiveIndex(0);
+          }}
+          onFocus={() => setQuery(query ?? '')}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setQuery(null)}
+        />
+        {isOpen && (
+          <ul
+            id={listId}
+            role="listbox"
+            className="absolute z-50 mt-1 max-h-64 w-full overflow-y-auto rounded-md border bg-popover py-1 text-sm shadow-md"
+          >
+            {results.map((label, index) => (
+              <li
+                key={label.id}
+                id={`${listId}-${index}`}
+                role="option"
+                aria-selected={false}
+                // Keep the focus in the input so the blur does not close the list first
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => pick(index)}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={cn(
+                  'flex cursor-pointer items-center gap-2 px-3 py-1.5',
+                  index === activeIndex && 'bg-accent text-accent-foreground'
+                )}
+              >
+                <span className="h-2 w-2 shrink-0 rounded-full" style={{ backgroundColor: label.color }} />
+                <span className="truncate">{label.name}</span>
+              </li>
+            ))}
+            {canCreate && (
+              <li
+                id={`${listId}-${results.length}`}
+                role="option"
+                aria-selected={false}
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => pick(results.length)}
+                onMouseEnter={() => setActiveIndex(results.length)}
+                className={cn(
+                  'flex cursor-pointer items-center gap-2 px-3 py-1.5',
+                  activeIndex === results.length && 'bg-accent text-accent-foreground'
+                )}
+              >
+                <Plus className="h-3 w-3" />
+                {t('taskForm.labels.create', { name })}
+              </li>
+            )}
+            {optionCount === 0 && (
+              <li className="px-3 py-1.5 text-muted-foreground">
+                {labels.length === 0 ? t('taskForm.labels.empty') : t('taskForm.labels.noMatches')}
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LabelPicker;
@@ -0,0 +1,99 @@
+import React, { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { BlockNode, InlineNode, parseMarkdown } from '@/utils/markdown';
+
+interface MarkdownContentProps {
+  source: string;
+  // Mentions of this user are highlighted more strongly
+  currentUserId?: number;
+  className?: string;
+}
+
+const renderInline = (nodes: InlineNode[], currentUserId?: number): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'break':
+        return <br key={index} />;
+      case 'code':
+        return <code key={index} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.85em]">{node.text}</code>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children, currentUserId)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children, currentUserId)}</em>;
+      case 'strike':
+        return <del key={index}>{renderInline(node.children, currentUserId)}</del>;
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-primary underline underline-offset-2 hover:text-primary/80 break-all"
+          >
+            {renderInline(node.children, currentUserId)}
+          </a>
+        );
+      case 'mention':
+        return (
+          <span
+            key={index}
+            className={cn(
+              'rounded px-1 font-medium',
+              node.userId === currentUserId
+                ? 'bg-amber-100 text-amber-900 dark:bg-amber-900/40 dark:text-amber-200'
+                : 'bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+            )}
+          >
+            @{node.name}
+          </span>
+        );
+    }
+  });
+
+const renderBlocks = (blocks: BlockNode[], currentUserId?: number): React.ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children, currentUserId)}</p>;
+      case 'code_block':
+        return (
+          <pre key={index} className="overflow-x-auto rounded-md bg-muted p-3 font-mono text-xs">
+            <code>{block.text}</code>
+          </pre>
+        );
+      case 'quote':
+        return (
+          <blockquote key={index} className="border-l-2 border-border pl-3 text-muted-foreground space-y-2">
+            {renderBlocks(block.children, currentUserId)}
+          </blockquote>
+        );
+      case 'list': {
+        const List = block.ordered ? 'ol' : 'ul';
+        return (
+          <List key={index} className={cn('pl-5 space-y-1', block.ordered ? 'list-decimal' : 'list-disc')}>
+            {block.items.map((item, itemIndex) => (
+              <li key={itemIndex}>{renderInline(item, currentUserId)}</li>
+            ))}
+          </List>
+        );
+      }
+    }
+  });
+
+/**
+ * Comment markdown rendered as React elements; raw HTML in the source stays plain text
+ */
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ source, currentUserId, className }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <div className={cn('space-y-2 text-sm leading-relaxed break-words', className)}>
+      {renderBlocks(blocks, currentUserId)}
+    </div>
+  );
+};
+
+export default MarkdownContent;
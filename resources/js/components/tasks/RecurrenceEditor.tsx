@@ -0,0 +1,280 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DateKey, formatDateKey, getWeekday } from '@/utils/timezone';
+import { useTranslation } from '@/hooks/useTranslation';
+import {
+  RecurrenceRule,
+  WEEKDAYS,
+  Weekday,
+  describeRecurrence,
+  formatRecurrenceRule,
+  getUpcomingOccurrences,
+  getWeekdayName,
+  parseRecurrenceRule,
+} from '@/utils/recurrence';
+
+type RepeatMode = 'none' | 'daily' | 'weekly' | 'monthly' | 'custom';
+type MonthlyMode = 'day' | 'weekday';
+type EndMode = 'never' | 'until' | 'count';
+
+interface RecurrenceEditorProps {
+  value?: string | null;
+  onChange: (rule: string | null) => void;
+  // First occurrence, usually the due date; dates the preview and the monthly options
+  startDate: DateKey;
+  locale?: string;
+}
+
+const FREQUENCY_MODES: Record<string, RepeatMode> = { DAILY: 'daily', WEEKLY: 'weekly', MONTHLY: 'monthly' };
+
+const weekdayOf = (dateKey: DateKey): Weekday => WEEKDAYS[(getWeekday(dateKey) + 6) % 7];
+
+const dayOf = (dateKey: DateKey): number => Number(dateKey.slice(8, 10));
+
+// RRULE only goes up to the 4th weekday, a 5th one is the last of its month
+const nthOf = (dateKey: DateKey): number => {
+  const nth = Math.ceil(dayOf(dateKey) / 7);
+  return nth > 4 ? -1 : nth;
+};
+
+// Rules the simple controls can't show are edited as custom RRULE text
+const modeOf = (value: string | null | undefined): RepeatMode => {
+  if (!value) return 'none';
+  const { rule } = parseRecurrenceRule(value);
+  if (!rule || !FREQUENCY_MODES[rule.freq]) return 'custom';
+  if (rule.freq === 'DAILY' && rule.byDay.length > 0) return 'custom';
+  return FREQUENCY_MODES[rule.freq];
+};
+
+/**
+ * Repeat settings for a task, edited as an iCalendar RRULE with a readable preview
+ */
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ value, onChange, startDate, locale }) => {
+  const { t } = useTranslation();
+  const [mode, setMode] = useState<RepeatMode>(() => modeOf(value));
+  const [customText, setCustomText] = useState(value ?? '');
+  const lastEmitted = useRef(value ?? null);
+
+  // Follow rules replaced from outside, e.g. when the form is reset for another task
+  useEffect(() => {
+    if ((value ?? null) !== lastEmitted.current) {
+      lastEmitted.current = value ?? null;
+      setMode(modeOf(value));
+      setCustomText(value ?? '');
+    }
+  }, [value]);
+
+  const rule = value ? parseRecurrenceRule(value).rule : null;
+
+  const emit = (next: string | null) => {
+    lastEmitted.current = next;
+    onChange(next);
+  };
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (!rule) return;
+    emit(formatRecurrenceRule({ ...rule, ...changes }));
+  };
+
+  const handleModeChange = (next: RepeatMode) => {
+    setMode(next);
+    const interval = rule?.interval ?? 1;
+    const ends = { count: rule?.count, until: rule?.until };
+
+    switch (next) {
+      case 'none':
+        emit(null);
+        break;
+      case 'daily':
+        emit(formatRecurrenceRule({ freq: 'DAILY', interval, byDay: [], ...ends }));
+        break;
+      case 'weekly':
+        emit(formatRecurrenceRule({ freq: 'WEEKLY', interval, byDay: [weekdayOf(startDate)], ...ends }));
+        break;
+      case 'monthly':
+        emit(formatRecurrenceRule({ freq: 'MONTHLY', interval, byDay: [], byMonthDay: dayOf(startDate), ...ends }));
+        break;
+      case 'custom':
+        setCustomText(value ?? 'FREQ=WEEKLY');
+        emit(value ?? 'FREQ=WEEKLY');
+        break;
+    }
+  };
+
+  const toggleWeekday = (day: Weekday) => {
+    if (!rule) return;
+    const byDay = rule.byDay.includes(day) ? rule.byDay.filter(selected => selected !== day) : [...rule.byDay, day];
+    // A weekly rule needs at least one day
+    if (byDay.length > 0) update({ byDay });
+  };
+
+  const monthlyMode: MonthlyMode = rule?.nth !== undefined ? 'weekday' : 'day';
+  const handleMonthlyModeChange = (next: MonthlyMode) => {
+    update(next === 'weekday'
+      ? { byMonthDay: undefined, byDay: [weekdayOf(startDate)], nth: nthOf(startDate) }
+      : { byDay: [], nth: undefined, byMonthDay: dayOf(startDate) });
+  };
+
+  const endMode: EndMode = rule?.count !== undefined ? 'count' : rule?.until !== undefined ? 'until' : 'never';
+  const handleEndModeChange = (next: EndMode) => {
+    update({
+      count: next === 'count' ? rule?.count ?? 10 : undefined,
+      until: next === 'until' ? rule?.until ?? startDate : undefined,
+    });
+  };
+
+  const upcoming = rule ? getUpcomingOccurrences(startDate, rule, 3) : [];
+
+  return (
+    <div className="space-y-3">
+      <Select value={mode} onValueChange={(next) => handleModeChange(next as RepeatMode)}>
+        <SelectTrigger>
+          <SelectValue placeholder={t('recurrence.mode.none')} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">{t('recurrence.mode.none')}</SelectItem>
+          <SelectItem value="daily">{t('recurrence.mode.daily')}</SelectItem>
+          <SelectItem value="weekly">{t('recurrence.mode.weekly')}</SelectItem>
+          <SelectItem value="monthly">{t('recurrence.mode.monthly')}</SelectItem>
+          <SelectItem value="custom">{t('recurrence.mode.custom')}</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {rule && mode !== 'custom' && mode !== 'none' && (
+        <div className="space-y-3 rounded-md border p-3">
+          <div className="flex items-center gap-2 text-sm">
+            <span>{t('recurrence.interval.before', { unit: mode })}</span>
+            <Input
+              type="number"
+              min={1}
+              max={99}
+              value={rule.interval}
+              onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+              className="w-20"
+              aria-label={t('recurrence.interval.label')}
+            />
+            <span>{t('recurrence.interval.unit', { unit: mode, interval: rule.interval })}</span>
+          </div>
+
+          {mode === 'weekly' && (
+            <div className="flex flex-wrap gap-1" role="group" aria-label={t('recurrence.weekdays.label')}>
+              {WEEKDAYS.map(day => (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => toggleWeekday(day)}
+                  aria-pressed={rule.byDay.includes(day)}
+                  title={getWeekdayName(day, locale)}
+                  className={`w-9 h-9 rounded-full text-xs font-medium border transition-colors ${
+                    rule.byDay.includes(day)
+                      ? 'bg-primary text-primary-foreground border-primary'
+                      : 'text-muted-foreground hover:bg-gray-50'
+                  }`}
+                >
+                  {getWeekdayName(day, locale, 'short').slice(0, 2)}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {mode === 'monthly' && (
+            <div className="space-y-1 text-sm">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  checked={monthlyMode === 'day'}
+                  onChange={() => handleMonthlyModeChange('day')}
+                />
+                {describeRecurrence({ freq: 'MONTHLY', interval: 1, byDay: [], byMonthDay: rule.byMonthDay ?? dayOf(startDate) }, t, locale)}
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  checked={monthlyMode === 'weekday'}
+                  onChange={() => handleMonthlyModeChange('weekday')}
+                />
+                {describeRecurrence({ freq: 'MONTHLY', interval: 1, byDay: [weekdayOf(startDate)], nth: nthOf(startDate) }, t, locale)}
+              </label>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span>{t('recurrence.ends.label')}</span>
+            <Select value={endMode} onValueChange={(next) => handleEndModeChange(next as EndMode)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">{t('recurrence.ends.never')}</SelectItem>
+                <SelectItem value="until">{t('recurrence.ends.until')}</SelectItem>
+                <SelectItem value="count">{t('recurrence.ends.count')}</SelectItem>
+              </SelectContent>
+            </Select>
+            {endMode === 'until' && (
+              <Input
+                type="date"
+                value={rule.until ?? ''}
+                min={startDate}
+                onChange={(e) => e.target.value && update({ until: e.target.value })}
+                className="w-44"
+                aria-label={t('recurrence.until.label')}
+              />
+            )}
+            {endMode === 'count' && (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  max={999}
+                  value={rule.count ?? 1}
+                  onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+                  className="w-20"
+                  aria-label={t('recurrence.count.label')}
+                />
+                <span>{t('recurrence.count.unit', { count: rule.count ?? 1 })}</span>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {mode === 'custom' && (
+        <Input
+          value={customText}
+          onChange={(e) => {
+            setCustomText(e.target.value);
+            emit(e.target.value.trim() || null);
+          }}
+          placeholder="FREQ=MONTHLY;BYDAY=2TU;COUNT=6"
+          className="font-mono"
+          aria-label={t('recurrence.custom.label')}
+        />
+      )}
+
+      {rule && (
+        <div className="text-sm text-muted-foreground">
+          <span className="font-medium text-foreground">{describeRecurrence(rule, t, locale)}</span>
+          {' · '}
+          {upcoming.length > 0 ? (
+            <span>
+              {t('recurrence.next', {
+                dates: upcoming.map(day => formatDateKey(day, { weekday: 'short', month: 'short', day: 'numeric' }, locale)).join(', ')
+              })}
+            </span>
+          ) : (
+            <span>{t('recurrence.noneAfter')}</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceEditor;
@@ -1,10 +1,34 @@
 import React, { useState, useMemo } from 'react';
-import { Task, TaskFormData } from '@/types';
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from '@dnd-kit/core';
+import {
+  arrayMove,
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { restrictToVerticalAxis } from '@dnd-kit/modifiers';
+import { CSS } from '@dnd-kit/utilities';
+import { MentionableUser, Task, TaskFormData } from '@/types';
+import { SubtaskBulkOperation } from '@/services/TaskService';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import TaskForm from './TaskForm';
 import TaskCard from './TaskCard';
-import { Plus, CheckCircle, Circle, Clock, AlertCircle, Trash2, Edit3 } from 'lucide-react';
+import { Plus, CheckCircle, Circle, Clock, AlertCircle, Trash2, Edit3, GripVertical, CheckCheck } from 'lucide-react';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useLocalizedText } from '@/hooks/useLocalizedText';
+import { canDeleteTask, canEditTask, getTaskRole } from '@/utils/taskSharing';
 
 interface SubtaskManagerProps {
   parentTask: Task;
@@ -13,10 +37,64 @@ interface SubtaskManagerProps {
   onUpdateSubtask: (subtaskId: number, data: TaskFormData) => void;
   onDeleteSubtask: (subtaskId: number) => void;
   onToggleSubtaskStatus?: (subtaskId: number) => void;
+  onReorderSubtasks?: (subtaskIds: number[]) => void;
+  onBulkOperation?: (subtaskIds: number[], operation: SubtaskBulkOperation) => void;
+  // The owner and collaborators of the parent task, who subtasks can be assigned to
+  assignees?: MentionableUser[];
+  onAssignSubtask?: (subtaskId: number, assigneeId: number | null) => void;
   loading?: boolean;
   allowNesting?: boolean;
 }
 
+const UNASSIGNED = 'none';
+
+interface SortableSubtaskRowProps {
+  subtask: Task;
+  isDragEnabled: boolean;
+  children: React.ReactNode;
+}
+
+const SortableSubtaskRow: React.FC<SortableSubtaskRowProps> = ({ subtask, isDragEnabled, children }) => {
+  const { t } = useTranslation();
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({
+    id: subtask.id.toString(),
+    disabled: !isDragEnabled,
+  });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className="flex items-center space-x-4 p-4 bg-gray-50 rounded-lg border border-gray-200 hover:bg-gray-100 transition-colors"
+    >
+      {isDragEnabled && (
+        <button
+          {...attributes}
+          {...listeners}
+          className="flex-shrink-0 p-1 hover:bg-gray-200 rounded transition-colors cursor-grab active:cursor-grabbing"
+          aria-label={t('task.drag.reorder')}
+        >
+          <GripVertical className="h-4 w-4 text-gray-400" />
+        </button>
+      )}
+      {children}
+    </div>
+  );
+};
+
 const SubtaskManager: React.FC<SubtaskManagerProps> = ({
   parentTask,
   subtasks,
@@ -24,12 +102,38 @@ const SubtaskManager: React.FC<SubtaskManagerProps> = ({
   onUpdateSubtask,
   onDeleteSubtask,
   onToggleSubtaskStatus,
+  onReorderSubtasks,
+  onBulkOperation,
+  assignees = [],
+  onAssignSubtask,
   loading = false,
   allowNesting = false
 }) => {
   const [isAddFormVisible, setIsAddFormVisible] = useState(false);
   const [editingSubtask, setEditingSubtask] = useState<Task | null>(null);
   const [viewMode, setViewMode] = useState<'list' | 'cards'>('list');
+  const { formatDate } = useDateFormat();
+  const { t } = useTranslation();
+  const { getText } = useLocalizedText();
+  const parentName = getText(parentTask.name);
+
+  // Viewers only look; editors change subtasks but deleting, reordering and bulk changes stay with the owner
+  const role = getTaskRole(parentTask);
+  const canEdit = canEditTask(role);
+  const isOwner = canDeleteTask(role);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const isDragEnabled = !!onReorderSubtasks && isOwner && !loading && editingSubtask === null;
 
   // Calculate progress statistics
   const progressStats = useMemo(() => {
@@ -66,11 +170,36 @@ const SubtaskManager: React.FC<SubtaskManagerProps> = ({
   };
 
   const handleDeleteSubtask = (subtaskId: number) => {
-    if (confirm('Are you sure you want to delete this subtask? This action cannot be undone.')) {
+    if (confirm(t('subtasks.confirmDelete'))) {
       onDeleteSubtask(subtaskId);
     }
   };
 
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+
+    if (!over || active.id === over.id || !onReorderSubtasks) {
+      return;
+    }
+
+    const oldIndex = subtasks.findIndex(subtask => subtask.id.toString() === active.id);
+    const newIndex = subtasks.findIndex(subtask => subtask.id.toString() === over.id);
+
+    if (oldIndex !== -1 && newIndex !== -1) {
+      onReorderSubtasks(arrayMove(subtasks, oldIndex, newIndex).map(subtask => subtask.id));
+    }
+  };
+
+  const handleCompleteAll = () => {
+    const openSubtaskIds = subtasks
+      .filter(subtask => subtask.status !== 'completed' && subtask.status !== 'cancelled')
+      .map(subtask => subtask.id);
+
+    if (onBulkOperation && openSubtaskIds.length > 0) {
+      onBulkOperation(openSubtaskIds, { operation: 'update_status', status: 'completed' });
+    }
+  };
+
   const handleCancelEdit = () => {
     setEditingSubtask(null);
     setIsAddFormVisible(false);
@@ -97,20 +226,22 @@ const SubtaskManager: React.FC<SubtaskManagerProps> = ({
           <div className="flex items-start justify-between">
             <div>
               <CardTitle className="text-xl text-gray-900">
-                Managing Subtasks for: {parentTask.name}
+                {t('subtasks.title', { name: parentName })}
               </CardTitle>
               <p className="text-sm text-gray-600 mt-1">
-                Break down this task into smaller, manageable pieces
+                {t('subtasks.description')}
               </p>
             </div>
-            <Button
-              onClick={() => setIsAddFormVisible(true)}
-              disabled={loading || isAddFormVisible || editingSubtask !== null}
-              className="flex items-center gap-2"
-            >
-              <Plus className="h-4 w-4" />
-              Add Subtask
-            </Button>
+            {canEdit && (
+              <Button
+                onClick={() => setIsAddFormVisible(true)}
+                disabled={loading || isAddFormVisible || editingSubtask !== null}
+                className="flex items-center gap-2"
+              >
+                <Plus className="h-4 w-4" />
+                {t('subtasks.add')}
+              </Button>
+            )}
           </div>
         </CardHeader>
         
@@ -119,7 +250,7 @@ const SubtaskManager: React.FC<SubtaskManagerProps> = ({
           <CardContent className="pt-0">
             <div className="bg-gray-50 rounded-lg p-4">
               <div className="flex items-center justify-between mb-3">
-                <h4 className="font-medium text-gray-900">Progress Overview</h4>
+                <h4 className="font-medium text-gray-900">{t('subtasks.progress')}</h4>
                 <span className="text-2xl font-bold text-blue-600">
                   {progressStats.completionPercentage}%
                 </span>
@@ -135,19 +266,19 @@ const SubtaskManager: React.FC<SubtaskManagerProps> = ({
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                 <div className="text-center">
                   <div className="font-semibold text-gray-900">{progressStats.total}</div>
-                  <div className="text-gray-600">Total</div>
+                  <div className="text-gray-600">{t('subtasks.total')}</div>
                 </div>
                 <div className="text-center">
                   <div className="font-semibold text-green-600">{progressStats.completed}</div>
-                  <div className="text-gray-600">Completed</div>
+                  <div className="text-gray-600">{t('task.status.completed')}</div>
                 </div>
                 <div className="text-center">
                   <div className="font-semibold text-blue-600">{progressStats.inProgress}</div>
-                  <div className="text-gray-600">In Progress</div>
+                  <div className="text-gray-600">{t('task.status.in_progress')}</div>
                 </div>
                 <div className="text-center">
                   <div className="font-semibold text-gray-600">{progressStats.pending}</div>
-                  <div className="text-gray-600">Pending</div>
+                  <div className="text-gray-600">{t('task.status.pending')}</div>
                 </div>
               </div>
             </div>
@@ -159,7 +290,7 @@ const SubtaskManager: React.FC<SubtaskManagerProps> = ({
       {isAddFormVisible && (
         <Card>
           <CardHeader>
-            <CardTitle>Add New Subtask</CardTitle>
+            <CardTitle>{t('subtasks.addTitle')}</CardTitle>
           </CardHeader>
           <CardContent>
             <TaskForm
@@ -175,7 +306,7 @@ const SubtaskManager: React.FC<SubtaskManagerProps> = ({
       {editingSubtask && (
         <Card>
           <CardHeader>
-            <CardTitle>Edit Subtask</CardTitle>
+            <CardTitle>{t('subtasks.editTitle')}</CardTitle>
           </CardHeader>
           <CardContent>
             <TaskForm
@@ -193,23 +324,35 @@ const SubtaskManager: React.FC<SubtaskManagerProps> = ({
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle>
-              Subtasks ({subtasks.length})
+              {t('subtasks.count', { count: subtasks.length })}
             </CardTitle>
             {subtasks.length > 0 && (
               <div className="flex items-center space-x-2">
+                {onBulkOperation && isOwner && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleCompleteAll}
+                    disabled={loading || progressStats.completed + progressStats.cancelled === progressStats.total}
+                    className="flex items-center gap-1"
+                  >
+                    <CheckCheck className="h-4 w-4" />
+                    {t('subtasks.completeAll')}
+                  </Button>
+                )}
                 <Button
                   variant={viewMode === 'list' ? 'default' : 'outline'}
                   size="sm"
                   onClick={() => setViewMode('list')}
                 >
-                  List
+                  {t('subtasks.view.list')}
                 </Button>
                 <Button
                   variant={viewMode === 'cards' ? 'default' : 'outline'}
                   size="sm"
                   onClick={() => setViewMode('cards')}
                 >
-                  Cards
+                  {t('subtasks.view.cards')}
                 </Button>
               </div>
             )}
@@ -222,13 +365,15 @@ const SubtaskManager: React.FC<SubtaskManagerProps> = ({
               <div className="text-gray-400 mb-4">
                 <Plus className="h-12 w-12 mx-auto" />
               </div>
-              <h3 className="text-lg font-medium text-gray-900 mb-2">No subtasks yet</h3>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">{t('subtasks.empty.title')}</h3>
               <p className="text-gray-500 mb-4">
-                Break down "{parentTask.name}" into smaller, manageable tasks.
+                {t('subtasks.empty.description', { name: parentName })}
               </p>
-              <Button onClick={() => setIsAddFormVisible(true)}>
-                Add Your First Subtask
-              </Button>
+              {canEdit && (
+                <Button onClick={() => setIsAddFormVisible(true)}>
+                  {t('subtasks.empty.add')}
+                </Button>
+              )}
             </div>
           ) : viewMode === 'cards' ? (
             <div className="space-y-4">
@@ -240,99 +385,142 @@ const SubtaskManager: React.FC<SubtaskManagerProps> = ({
                   onDelete={handleDeleteSubtask}
                   onToggleStatus={onToggleSubtaskStatus}
                   showSubtasks={allowNesting}
+                  parentRole={role}
                 />
               ))}
             </div>
           ) : (
-            <div className="space-y-3">
-              {subtasks.map((subtask, index) => (
-                <div
-                  key={subtask.id}
-                  className="flex items-center space-x-4 p-4 bg-gray-50 rounded-lg border border-gray-200 hover:bg-gray-100 transition-colors"
-                >
-                  <div className="flex-shrink-0">
-                    {getStatusIcon(subtask.status)}
-                  </div>
-                  
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <h4 className={`font-medium ${
-                          subtask.status === 'completed' 
-                            ? 'line-through text-gray-500' 
-                            : 'text-gray-900'
-                        }`}>
-                          {subtask.name}
-                        </h4>
-                        {subtask.description && (
-                          <p className="text-sm text-gray-600 mt-1 line-clamp-2">
-                            {subtask.description}
-                          </p>
-                        )}
-                        <div className="flex items-center space-x-3 mt-2 text-xs">
-                          <span className={`px-2 py-1 rounded-full font-medium ${
-                            subtask.status === 'completed' ? 'bg-green-100 text-green-800' :
-                            subtask.status === 'in_progress' ? 'bg-blue-100 text-blue-800' :
-                            subtask.status === 'cancelled' ? 'bg-red-100 text-red-800' :
-                            'bg-gray-100 text-gray-800'
-                          }`}>
-                            {subtask.status.replace('_', ' ')}
-                          </span>
-                          <span className={`px-2 py-1 rounded-full font-medium ${
-                            subtask.priority === 'urgent' ? 'bg-red-100 text-red-800' :
-                            subtask.priority === 'high' ? 'bg-orange-100 text-orange-800' :
-                            subtask.priority === 'medium' ? 'bg-yellow-100 text-yellow-800' :
-                            'bg-gray-100 text-gray-800'
-                          }`}>
-                            {subtask.priority}
-                          </span>
-                          {subtask.due_date && (
-                            <span className="text-gray-500">
-                              Due: {new Date(subtask.due_date).toLocaleDateString()}
-                            </span>
-                          )}
-                        </div>
+            <DndContext
+              sensors={sensors}
+              collisionDetection={closestCenter}
+              onDragEnd={handleDragEnd}
+              modifiers={[restrictToVerticalAxis]}
+            >
+              <SortableContext
+                items={subtasks.map(subtask => subtask.id.toString())}
+                strategy={verticalListSortingStrategy}
+              >
+                <div className="space-y-3">
+                  {subtasks.map((subtask) => (
+                    <SortableSubtaskRow
+                      key={subtask.id}
+                      subtask={subtask}
+                      isDragEnabled={isDragEnabled}
+                    >
+                      <div className="flex-shrink-0">
+                        {getStatusIcon(subtask.status)}
                       </div>
                       
-                      <div className="flex items-center space-x-2 ml-4">
-                        {onToggleSubtaskStatus && (
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => onToggleSubtaskStatus(subtask.id)}
-                            disabled={loading}
-                            className={subtask.status === 'completed' 
-                              ? 'text-orange-600 hover:text-orange-800' 
-                              : 'text-green-600 hover:text-green-800'
-                            }
-                          >
-                            {subtask.status === 'completed' ? 'Reopen' : 'Complete'}
-                          </Button>
-                        )}
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => setEditingSubtask(subtask)}
-                          disabled={loading || editingSubtask !== null || isAddFormVisible}
-                          className="text-blue-600 hover:text-blue-800"
-                        >
-                          <Edit3 className="h-3 w-3" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleDeleteSubtask(subtask.id)}
-                          disabled={loading}
-                          className="text-red-600 hover:text-red-800"
-                        >
-                          <Trash2 className="h-3 w-3" />
-                        </Button>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1">
+                            <h4 className={`font-medium ${
+                              subtask.status === 'completed' 
+                                ? 'line-through text-gray-500' 
+                                : 'text-gray-900'
+                            }`}>
+                              {getText(subtask.name)}
+                            </h4>
+                            {subtask.description && (
+                              <p className="text-sm text-gray-600 mt-1 line-clamp-2">
+                                {getText(subtask.description)}
+                              </p>
+                            )}
+                            <div className="flex items-center space-x-3 mt-2 text-xs">
+                              <span className={`px-2 py-1 rounded-full font-medium ${
+                                subtask.status === 'completed' ? 'bg-green-100 text-green-800' :
+                                subtask.status === 'in_progress' ? 'bg-blue-100 text-blue-800' :
+                                subtask.status === 'cancelled' ? 'bg-red-100 text-red-800' :
+                                'bg-gray-100 text-gray-800'
+                              }`}>
+                                {t(`task.status.${subtask.status}`)}
+                              </span>
+                              <span className={`px-2 py-1 rounded-full font-medium ${
+                                subtask.priority === 'urgent' ? 'bg-red-100 text-red-800' :
+                                subtask.priority === 'high' ? 'bg-orange-100 text-orange-800' :
+                                subtask.priority === 'medium' ? 'bg-yellow-100 text-yellow-800' :
+                                'bg-gray-100 text-gray-800'
+                              }`}>
+                                {t(`task.priority.${subtask.priority}`)}
+                              </span>
+                              {subtask.due_date && (
+                                <span className="text-gray-500">
+                                  {t('subtasks.due', { date: formatDate(subtask.due_date) })}
+                                </span>
+                              )}
+                              {onAssignSubtask && canEdit && assignees.length > 1 ? (
+                                <Select
+                                  value={subtask.assignee_id?.toString() ?? UNASSIGNED}
+                                  onValueChange={value =>
+                                    onAssignSubtask(subtask.id, value === UNASSIGNED ? null : Number(value))
+                                  }
+                                  disabled={loading}
+                                >
+                                  <SelectTrigger className="h-7 w-40 text-xs" aria-label={t('sharing.assignee.label')}>
+                                    <SelectValue placeholder={t('sharing.assignee.none')} />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value={UNASSIGNED}>{t('sharing.assignee.none')}</SelectItem>
+                                    {assignees.map(assignee => (
+                                      <SelectItem key={assignee.id} value={assignee.id.toString()}>
+                                        {assignee.name}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              ) : subtask.assignee && (
+                                <span className="text-gray-500">
+                                  {t('sharing.assignee.assignedTo', { name: subtask.assignee.name })}
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                          
+                          <div className="flex items-center space-x-2 ml-4">
+                            {onToggleSubtaskStatus && canEdit && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => onToggleSubtaskStatus(subtask.id)}
+                                disabled={loading}
+                                className={subtask.status === 'completed' 
+                                  ? 'text-orange-600 hover:text-orange-800' 
+                                  : 'text-green-600 hover:text-green-800'
+                                }
+                              >
+                                {subtask.status === 'completed' ? t('task.action.reopen') : t('task.action.complete')}
+                              </Button>
+                            )}
+                            {canEdit && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setEditingSubtask(subtask)}
+                                disabled={loading || editingSubtask !== null || isAddFormVisible}
+                                className="text-blue-600 hover:text-blue-800"
+                              >
+                                <Edit3 className="h-3 w-3" />
+                              </Button>
+                            )}
+                            {isOwner && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDeleteSubtask(subtask.id)}
+                                disabled={loading}
+                                className="text-red-600 hover:text-red-800"
+                              >
+                                <Trash2 className="h-3 w-3" />
+                              </Button>
+                            )}
+                          </div>
+                        </div>
                       </div>
-                    </div>
-                  </div>
+                    </SortableSubtaskRow>
+                  ))}
                 </div>
-              ))}
-            </div>
+              </SortableContext>
+            </DndContext>
           )}
         </CardContent>
       </Card>
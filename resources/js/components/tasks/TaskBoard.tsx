@@ -0,0 +1,333 @@
+import React, { useMemo, useState } from 'react';
+import {
+  DndContext,
+  closestCorners,
+  KeyboardSensor,
+  PointerSensor,
+  useDroppable,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+  DragOverlay,
+  DragStartEvent,
+} from '@dnd-kit/core';
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { Task } from '@/types';
+import { Calendar, CornerDownRight } from 'lucide-react';
+import { useLocalizedText } from '@/hooks/useLocalizedText';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { useTranslation } from '@/hooks/useTranslation';
+import { cn } from '@/lib/utils';
+import { bySortOrder, getSiblingOrder, placeInCell } from '@/utils/taskOrder';
+
+export type BoardSwimlane = 'none' | 'priority' | 'parent';
+
+export const BOARD_STATUSES: Task['status'][] = ['pending', 'in_progress', 'completed', 'cancelled'];
+
+const PRIORITIES: Task['priority'][] = ['urgent', 'high', 'medium', 'low'];
+
+const PRIORITY_STYLES: Record<Task['priority'], string> = {
+  urgent: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400',
+  high: 'bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400',
+  medium: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400',
+  low: 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300',
+};
+
+// Lane holding top-level tasks when swimlanes are grouped by parent
+const ROOT_LANE = 'root';
+
+interface Lane {
+  id: string;
+  title: string | null;
+  tasks: Task[];
+}
+
+interface TaskBoardProps {
+  tasks: Task[];
+  swimlane: BoardSwimlane;
+  onStatusChange: (taskId: number, status: Task['status']) => void;
+  onPriorityChange: (taskId: number, priority: Task['priority']) => void;
+  onMoveSubtask: (subtaskId: number, parentId: number) => void;
+  onReorder: (parentId: number | null, orderedIds: number[]) => void;
+  onOpenTask?: (task: Task) => void;
+}
+
+const cellId = (laneId: string, status: Task['status']) => `cell:${laneId}:${status}`;
+
+const parseCellId = (id: string): { laneId: string; status: Task['status'] } => {
+  const [, laneId, status] = id.split(':');
+  return { laneId, status: status as Task['status'] };
+};
+
+interface BoardCardProps {
+  task: Task;
+  cell: string;
+  parentName?: string;
+  isOverlay?: boolean;
+  onOpenTask?: (task: Task) => void;
+}
+
+const BoardCard: React.FC<BoardCardProps> = ({ task, cell, parentName, isOverlay = false, onOpenTask }) => {
+  const { getText: translate } = useLocalizedText();
+  const { formatDate } = useDateFormat();
+  const { t } = useTranslation();
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({
+    id: task.id.toString(),
+    data: { type: 'card', task, cell },
+    disabled: isOverlay,
+  });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      {...attributes}
+      {...listeners}
+      onClick={() => onOpenTask?.(task)}
+      className={cn(
+        'rounded-md border bg-card p-3 text-sm shadow-sm cursor-grab active:cursor-grabbing hover:shadow-md transition-shadow',
+        isOverlay && 'rotate-2 shadow-xl'
+      )}
+    >
+      {parentName && (
+        <p className="mb-1 flex items-center text-xs text-muted-foreground">
+          <CornerDownRight className="mr-1 h-3 w-3" />
+          {parentName}
+        </p>
+      )}
+      <p className={cn('font-medium', task.status === 'completed' && 'line-through text-muted-foreground')}>
+        {translate(task.name)}
+      </p>
+      <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+        <span className={cn('rounded-full px-2 py-0.5 font-medium', PRIORITY_STYLES[task.priority])}>
+          {t(`task.priority.${task.priority}`)}
+        </span>
+        {task.due_date && (
+          <span className="flex items-center text-muted-foreground">
+            <Calendar className="mr-1 h-3 w-3" />
+            {formatDate(task.due_date)}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface BoardCellProps {
+  id: string;
+  tasks: Task[];
+  parentNames: Map<number, string>;
+  showParent: boolean;
+  onOpenTask?: (task: Task) => void;
+}
+
+const BoardCell: React.FC<BoardCellProps> = ({ id, tasks, parentNames, showParent, onOpenTask }) => {
+  const { setNodeRef, isOver } = useDroppable({ id, data: { type: 'cell' } });
+
+  return (
+    <SortableContext items={tasks.map(task => task.id.toString())} strategy={verticalListSortingStrategy}>
+      <div
+        ref={setNodeRef}
+        className={cn(
+          'min-h-24 space-y-2 rounded-lg bg-muted/50 p-2 transition-colors',
+          isOver && 'bg-primary/10 ring-2 ring-primary/40'
+        )}
+      >
+        {tasks.map(task => (
+          <BoardCard
+            key={task.id}
+            task={task}
+            cell={id}
+            parentName={showParent && task.parent_id ? parentNames.get(task.parent_id) : undefined}
+            onOpenTask={onOpenTask}
+          />
+        ))}
+      </div>
+    </SortableContext>
+  );
+};
+
+const TaskBoard: React.FC<TaskBoardProps> = ({
+  tasks,
+  swimlane,
+  onStatusChange,
+  onPriorityChange,
+  onMoveSubtask,
+  onReorder,
+  onOpenTask
+}) => {
+  const { getText: translate } = useLocalizedText();
+  const { t } = useTranslation();
+  const [activeTask, setActiveTask] = useState<Task | null>(null);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const parentNames = useMemo(() => {
+    return new Map(tasks.filter(task => !task.parent_id).map(task => [task.id, translate(task.name)]));
+  }, [tasks, translate]);
+
+  const lanes = useMemo((): Lane[] => {
+    const sorted = [...tasks].sort(bySortOrder);
+
+    switch (swimlane) {
+      case 'priority':
+        return PRIORITIES.map(priority => ({
+          id: priority,
+          title: t('board.lane.priority', { priority: t(`task.priority.${priority}`) }),
+          tasks: sorted.filter(task => task.priority === priority),
+        }));
+      case 'parent': {
+        const parents = sorted.filter(task => !task.parent_id && sorted.some(child => child.parent_id === task.id));
+        return [
+          { id: ROOT_LANE, title: t('board.lane.root'), tasks: sorted.filter(task => !task.parent_id) },
+          ...parents.map(parent => ({
+            id: parent.id.toString(),
+            title: translate(parent.name),
+            tasks: sorted.filter(task => task.parent_id === parent.id),
+          })),
+        ];
+      }
+      default:
+        return [{ id: 'all', title: null, tasks: sorted }];
+    }
+  }, [tasks, swimlane, translate, t]);
+
+  const getCellTasks = (cell: string): Task[] => {
+    const { laneId, status } = parseCellId(cell);
+    return lanes.find(lane => lane.id === laneId)?.tasks.filter(task => task.status === status) ?? [];
+  };
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveTask((event.active.data.current?.task as Task | undefined) ?? null);
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    setActiveTask(null);
+
+    const task = active.data.current?.task as Task | undefined;
+    const sourceCell = active.data.current?.cell as string | undefined;
+    if (!over || !task || !sourceCell || active.id === over.id) {
+      return;
+    }
+
+    const targetCell = over.data.current?.type === 'cell' ? over.id.toString() : over.data.current?.cell as string;
+    if (!targetCell) return;
+
+    const source = parseCellId(sourceCell);
+    const target = parseCellId(targetCell);
+
+    if (target.laneId !== source.laneId) {
+      if (swimlane === 'priority') {
+        onPriorityChange(task.id, target.laneId as Task['priority']);
+      } else if (swimlane === 'parent') {
+        // Only subtasks can change parent; top-level tasks keep their lane
+        if (!task.parent_id || target.laneId === ROOT_LANE) return;
+        onMoveSubtask(task.id, Number(target.laneId));
+        if (target.status !== task.status) {
+          onStatusChange(task.id, target.status);
+        }
+        return;
+      }
+    }
+
+    if (target.status !== task.status) {
+      onStatusChange(task.id, target.status);
+    }
+
+    // Place the card where it was dropped and persist the order among its siblings
+    const orderedIds = getSiblingOrder(tasks, task, placeInCell(getCellTasks(targetCell), task, over.id));
+    if (orderedIds) {
+      onReorder(task.parent_id ?? null, orderedIds);
+    }
+  };
+
+  const showParent = swimlane !== 'parent';
+
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={closestCorners}
+      onDragStart={handleDragStart}
+      onDragEnd={handleDragEnd}
+    >
+      <div className="overflow-x-auto">
+        <div className="min-w-[48rem] space-y-6">
+          <div className="grid grid-cols-4 gap-4">
+            {BOARD_STATUSES.map(status => (
+              <h2 key={status} className="flex items-center justify-between text-sm font-semibold">
+                {t(`task.status.${status}`)}
+                <span className="rounded-full bg-muted px-2 text-xs font-normal text-muted-foreground">
+                  {tasks.filter(task => task.status === status).length}
+                </span>
+              </h2>
+            ))}
+          </div>
+
+          {lanes.map(lane => (
+            <section key={lane.id} className="space-y-2">
+              {lane.title && (
+                <h3 className="text-sm font-medium text-muted-foreground">
+                  {lane.title} <span className="text-xs">({lane.tasks.length})</span>
+                </h3>
+              )}
+              <div className="grid grid-cols-4 gap-4">
+                {BOARD_STATUSES.map(status => (
+                  <BoardCell
+                    key={status}
+                    id={cellId(lane.id, status)}
+                    tasks={lane.tasks.filter(task => task.status === status)}
+                    parentNames={parentNames}
+                    showParent={showParent}
+                    onOpenTask={onOpenTask}
+                  />
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+      </div>
+
+      <DragOverlay>
+        {activeTask ? (
+          <BoardCard
+            task={activeTask}
+            cell=""
+            parentName={showParent && activeTask.parent_id ? parentNames.get(activeTask.parent_id) : undefined}
+            isOverlay
+          />
+        ) : null}
+      </DragOverlay>
+    </DndContext>
+  );
+};
+
+export default TaskBoard;
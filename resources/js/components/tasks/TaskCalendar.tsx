@@ -0,0 +1,327 @@
+import React, { useMemo, useState } from 'react';
+import {
+  DndContext,
+  DragEndEvent,
+  DragOverlay,
+  DragStartEvent,
+  KeyboardSensor,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core';
+import { AlertTriangle } from 'lucide-react';
+import { Task } from '@/types';
+import { useLocalizedText } from '@/hooks/useLocalizedText';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { useTranslation } from '@/hooks/useTranslation';
+import { cn } from '@/lib/utils';
+import {
+  DateKey,
+  addDays,
+  getDateRange,
+  getMonthGrid,
+  isDateOnly,
+  isOverdue,
+  startOfWeek,
+  toDateKey,
+  todayKey,
+} from '@/utils/timezone';
+
+export type CalendarView = 'month' | 'week' | 'agenda';
+
+// Days listed in the agenda after the anchor date
+export const AGENDA_DAYS = 30;
+
+// Cards shown in a month cell before collapsing the rest into a count
+const MONTH_CELL_LIMIT = 3;
+
+const STATUS_DOT: Record<Task['status'], string> = {
+  pending: 'bg-gray-400',
+  in_progress: 'bg-blue-500',
+  completed: 'bg-green-500',
+  cancelled: 'bg-red-400',
+};
+
+interface TaskCalendarProps {
+  tasks: Task[];
+  view: CalendarView;
+  date: DateKey;
+  timeZone: string;
+  onReschedule: (task: Task, date: DateKey) => void;
+  onOpenTask?: (task: Task) => void;
+}
+
+interface CalendarTaskProps {
+  task: Task;
+  now: Date;
+  showTime?: boolean;
+  isOverlay?: boolean;
+  onOpenTask?: (task: Task) => void;
+}
+
+const CalendarTask: React.FC<CalendarTaskProps> = ({ task, now, showTime = false, isOverlay = false, onOpenTask }) => {
+  const { getText } = useLocalizedText();
+  const { formatDate, timeZone } = useDateFormat();
+  const { t } = useTranslation();
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: task.id.toString(),
+    data: { task },
+    disabled: isOverlay,
+  });
+  const overdue = isOverdue(task, now, timeZone);
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      onClick={() => onOpenTask?.(task)}
+      title={overdue ? t('calendar.overdue') : undefined}
+      className={cn(
+        'flex items-center gap-1.5 rounded px-1.5 py-1 text-xs cursor-grab active:cursor-grabbing border bg-card hover:shadow-sm',
+        overdue && 'border-red-300 bg-red-50 text-red-800 dark:border-red-800 dark:bg-red-900/20 dark:text-red-300',
+        task.status === 'completed' && 'line-through text-muted-foreground',
+        isDragging && 'opacity-50',
+        isOverlay && 'shadow-lg'
+      )}
+    >
+      {overdue ? (
+        <AlertTriangle className="h-3 w-3 shrink-0" />
+      ) : (
+        <span className={cn('h-2 w-2 shrink-0 rounded-full', STATUS_DOT[task.status])} />
+      )}
+      {showTime && task.due_date && !isDateOnly(task.due_date) && (
+        <span className="shrink-0 text-muted-foreground">{formatDate(task.due_date, { hour: '2-digit', minute: '2-digit' })}</span>
+      )}
+      <span className="truncate">{getText(task.name)}</span>
+    </div>
+  );
+};
+
+interface DayCellProps {
+  date: DateKey;
+  className?: string;
+  children: React.ReactNode;
+}
+
+const DayCell: React.FC<DayCellProps> = ({ date, className, children }) => {
+  const { setNodeRef, isOver } = useDroppable({ id: `day:${date}`, data: { date } });
+
+  return (
+    <div ref={setNodeRef} className={cn(className, isOver && 'bg-primary/10 ring-2 ring-inset ring-primary/40')}>
+      {children}
+    </div>
+  );
+};
+
+const TaskCalendar: React.FC<TaskCalendarProps> = ({ tasks, view, date, timeZone, onReschedule, onOpenTask }) => {
+  const [activeTask, setActiveTask] = useState<Task | null>(null);
+  const { formatDate } = useDateFormat();
+  const { t } = useTranslation();
+  const [expandedDay, setExpandedDay] = useState<DateKey | null>(null);
+  const now = new Date();
+  const today = todayKey(timeZone);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    }),
+    useSensor(KeyboardSensor)
+  );
+
+  // Group by day in the user's timezone, earliest due time first
+  const tasksByDay = useMemo(() => {
+    const groups = new Map<DateKey, Task[]>();
+    tasks
+      .filter(task => task.due_date)
+      .sort((a, b) => new Date(a.due_date!).getTime() - new Date(b.due_date!).getTime())
+      .forEach(task => {
+        const key = toDateKey(task.due_date!, timeZone);
+        groups.set(key, [...(groups.get(key) || []), task]);
+      });
+    return groups;
+  }, [tasks, timeZone]);
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveTask((event.active.data.current?.task as Task | undefined) ?? null);
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    setActiveTask(null);
+
+    const task = event.active.data.current?.task as Task | undefined;
+    const target = event.over?.data.current?.date as DateKey | undefined;
+    if (!task || !target || (task.due_date && toDateKey(task.due_date, timeZone) === target)) {
+      return;
+    }
+
+    onReschedule(task, target);
+  };
+
+  const renderTask = (task: Task, showTime = false) => (
+    <CalendarTask
+      key={task.id}
+      task={task}
+      now={now}
+      showTime={showTime}
+      onOpenTask={onOpenTask}
+    />
+  );
+
+  const renderWeekdayHeader = (days: DateKey[]) => (
+    <div className="grid grid-cols-7 border-b text-xs font-medium text-muted-foreground">
+      {days.map(day => (
+        <div key={day} className="px-2 py-1.5">
+          {formatDate(day, { weekday: 'short' })}
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderMonth = () => {
+    const weeks = getMonthGrid(date);
+    const month = date.slice(0, 7);
+
+    return (
+      <div className="rounded-lg border">
+        {renderWeekdayHeader(weeks[0])}
+        {weeks.map(week => (
+          <div key={week[0]} className="grid grid-cols-7 border-b last:border-b-0">
+            {week.map(day => {
+              const dayTasks = tasksByDay.get(day) || [];
+              const visible = expandedDay === day ? dayTasks : dayTasks.slice(0, MONTH_CELL_LIMIT);
+
+              return (
+                <DayCell
+                  key={day}
+                  date={day}
+                  className={cn(
+                    'min-h-28 space-y-1 border-r p-1.5 last:border-r-0',
+                    day.slice(0, 7) !== month && 'bg-muted/40 text-muted-foreground'
+                  )}
+                >
+                  <div
+                    className={cn(
+                      'flex h-6 w-6 items-center justify-center rounded-full text-xs',
+                      day === today && 'bg-primary text-primary-foreground font-semibold'
+                    )}
+                  >
+                    {Number(day.slice(8))}
+                  </div>
+                  {visible.map(task => renderTask(task))}
+                  {dayTasks.length > MONTH_CELL_LIMIT && (
+                    <button
+                      type="button"
+                      className="px-1.5 text-xs text-muted-foreground hover:text-foreground"
+                      onClick={() => setExpandedDay(expandedDay === day ? null : day)}
+                    >
+                      {expandedDay === day
+                        ? t('calendar.showLess')
+                        : t('calendar.more', { count: dayTasks.length - MONTH_CELL_LIMIT })}
+                    </button>
+                  )}
+                </DayCell>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderWeek = () => {
+    const days = getDateRange(startOfWeek(date), 7);
+
+    return (
+      <div className="rounded-lg border">
+        <div className="grid grid-cols-7">
+          {days.map(day => (
+            <DayCell key={day} date={day} className="min-h-80 space-y-1 border-r p-2 last:border-r-0">
+              <div className="mb-2 text-xs">
+                <span className="text-muted-foreground">{formatDate(day, { weekday: 'short' })}</span>{' '}
+                <span className={cn('font-semibold', day === today && 'text-primary')}>
+                  {formatDate(day, { month: 'short', day: 'numeric' })}
+                </span>
+              </div>
+              {(tasksByDay.get(day) || []).map(task => renderTask(task, true))}
+            </DayCell>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderAgenda = () => {
+    const days = getDateRange(date, AGENDA_DAYS).filter(day => tasksByDay.has(day));
+    const overdue = date <= today
+      ? tasks.filter(task => isOverdue(task, now, timeZone) && toDateKey(task.due_date!, timeZone) < date)
+      : [];
+
+    if (days.length === 0 && overdue.length === 0) {
+      return (
+        <div className="rounded-lg border py-12 text-center text-sm text-muted-foreground">
+          {t('calendar.empty', { days: AGENDA_DAYS })}
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        {overdue.length > 0 && (
+          <section className="rounded-lg border border-red-200 p-3 dark:border-red-900">
+            <h3 className="mb-2 flex items-center gap-1.5 text-sm font-semibold text-red-700 dark:text-red-400">
+              <AlertTriangle className="h-4 w-4" />
+              {t('calendar.overdueCount', { count: overdue.length })}
+            </h3>
+            <div className="space-y-1">{overdue.map(task => renderTask(task, true))}</div>
+          </section>
+        )}
+        {days.map(day => (
+          <DayCell key={day} date={day} className="rounded-lg border p-3">
+            <h3 className={cn('mb-2 text-sm font-semibold', day === today && 'text-primary')}>
+              {day === today
+                ? t('calendar.todayHeading', { date: formatDate(day, { weekday: 'long', month: 'long', day: 'numeric' }) })
+                : formatDate(day, { weekday: 'long', month: 'long', day: 'numeric' })}
+            </h3>
+            <div className="space-y-1">{tasksByDay.get(day)!.map(task => renderTask(task, true))}</div>
+          </DayCell>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
+      {view === 'month' && renderMonth()}
+      {view === 'week' && renderWeek()}
+      {view === 'agenda' && renderAgenda()}
+
+      <DragOverlay>
+        {activeTask ? (
+          <CalendarTask task={activeTask} now={now} isOverlay />
+        ) : null}
+      </DragOverlay>
+    </DndContext>
+  );
+};
+
+export const getVisibleRange = (view: CalendarView, date: DateKey): { start: DateKey; end: DateKey } => {
+  switch (view) {
+    case 'month': {
+      const weeks = getMonthGrid(date);
+      return { start: weeks[0][0], end: weeks[weeks.length - 1][6] };
+    }
+    case 'week': {
+      const start = startOfWeek(date);
+      return { start, end: addDays(start, 6) };
+    }
+    case 'agenda':
+      return { start: date, end: addDays(date, AGENDA_DAYS - 1) };
+  }
+};
+
+export default TaskCalendar;
@@ -1,10 +1,20 @@
 import React, { useState } from 'react';
-import { Task, Language } from '@/types';
+import { Task, TaskRole } from '@/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ChevronDown, ChevronRight, Calendar, User, Clock } from 'lucide-react';
+import { ChevronDown, ChevronRight, Calendar, User, UserCheck, Users, Clock, Repeat, MessageSquare } from 'lucide-react';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { useLocalizedText } from '@/hooks/useLocalizedText';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { hasLocalizedText } from '@/utils/localizedText';
+import BlockedByBadges from './BlockedByBadges';
+import TaskKeyBadge from './TaskKeyBadge';
+import TaskLabels from './TaskLabels';
 import TranslationStatus from '@/components/ui/TranslationStatus';
+import { describeRecurrence, parseRecurrenceRule } from '@/utils/recurrence';
+import { getLocaleName } from '@/utils/locales';
+import { canDeleteTask, canEditTask, getTaskRole } from '@/utils/taskSharing';
 
 interface TaskCardProps {
   task: Task;
@@ -14,6 +24,8 @@ interface TaskCardProps {
   onViewSubtasks?: (task: Task) => void;
   depth?: number;
   showSubtasks?: boolean;
+  // Role on the parent task, for subtasks that arrived without one
+  parentRole?: TaskRole;
 }
 
 const TaskCard: React.FC<TaskCardProps> = ({
@@ -23,11 +35,17 @@ const TaskCard: React.FC<TaskCardProps> = ({
   onToggleStatus,
   onViewSubtasks,
   depth = 0,
-  showSubtasks = true
+  showSubtasks = true,
+  parentRole
 }) => {
-  const { language } = useLanguage();
+  const { language, locales } = useLanguage();
+  const { resolve } = useLocalizedText();
+  const { t } = useTranslation();
+  const { formatDate, formatDateTime, formatDueDate } = useDateFormat();
   const [isExpanded, setIsExpanded] = useState(false);
   const hasSubtasks = task.subtasks && task.subtasks.length > 0;
+  const role = getTaskRole(task, parentRole);
+  const canEdit = canEditTask(role);
 
   const getStatusColor = (status: Task['status']) => {
     switch (status) {
@@ -55,21 +73,11 @@ const TaskCard: React.FC<TaskCardProps> = ({
     }
   };
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    const now = new Date();
-    const diffTime = date.getTime() - now.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    
-    if (diffDays < 0) {
-      return { text: `${Math.abs(diffDays)} days overdue`, color: 'text-red-600' };
-    } else if (diffDays === 0) {
-      return { text: 'Due today', color: 'text-orange-600' };
-    } else if (diffDays === 1) {
-      return { text: 'Due tomorrow', color: 'text-yellow-600' };
-    } else {
-      return { text: `Due in ${diffDays} days`, color: 'text-gray-600' };
-    }
+  const getDueDateColor = (dueDate: { days: number; overdue: boolean }) => {
+    if (dueDate.overdue) return 'text-red-600';
+    if (dueDate.days === 0) return 'text-orange-600';
+    if (dueDate.days === 1) return 'text-yellow-600';
+    return 'text-gray-600';
   };
 
   const toggleExpanded = () => {
@@ -78,46 +86,11 @@ const TaskCard: React.FC<TaskCardProps> = ({
     }
   };
 
-  // Helper function to get localized text with fallback
-  const getLocalizedText = (field: string | Record<string, string> | undefined, fallbackLang: Language = 'en'): string => {
-    if (!field) return '';
-    
-    if (typeof field === 'string') {
-      return field;
-    }
-    
-    if (typeof field === 'object') {
-      // Try current language first
-      if (field[language] && field[language].trim()) {
-        return field[language];
-      }
-      
-      // Fallback to English
-      if (field[fallbackLang] && field[fallbackLang].trim()) {
-        return field[fallbackLang];
-      }
-      
-      // Fallback to first available translation
-      const firstAvailable = Object.values(field).find(val => val && val.trim());
-      return firstAvailable || '';
-    }
-    
-    return '';
-  };
-
-  // Check if translation exists for current language
-  const hasTranslation = (field: string | Record<string, string> | undefined, lang: Language): boolean => {
-    if (!field || typeof field === 'string') return true; // String fields are considered complete
-    if (typeof field === 'object') {
-      return Boolean(field[lang] && field[lang].trim());
-    }
-    return false;
-  };
+  const name = resolve(task.name);
+  const description = resolve(task.description);
 
   // Get translation status for the task
   const getTranslationStatus = () => {
-    const supportedLanguages: Language[] = ['en', 'fr', 'de'];
-    
     // Create translation completeness data
     const translationCompleteness: Record<string, {
       name: boolean;
@@ -126,9 +99,9 @@ const TaskCard: React.FC<TaskCardProps> = ({
       percentage: number;
     }> = {};
 
-    supportedLanguages.forEach(lang => {
-      const hasName = hasTranslation(task.name, lang);
-      const hasDesc = hasTranslation(task.description, lang);
+    locales.forEach(({ code: lang }) => {
+      const hasName = hasLocalizedText(task.name, lang);
+      const hasDesc = hasLocalizedText(task.description, lang);
       translationCompleteness[lang] = {
         name: hasName,
         description: hasDesc,
@@ -140,16 +113,21 @@ const TaskCard: React.FC<TaskCardProps> = ({
     // Create simple status for current locale
     const translationStatus = {
       current_locale: language,
-      has_translation: hasTranslation(task.name, language),
-      fallback_used: !hasTranslation(task.name, language) && hasTranslation(task.name, 'en')
+      has_translation: name.locale === null || name.locale === language,
+      fallback_used: name.fallbackUsed,
+      fallback_locale: name.fallbackUsed ? name.locale : null
     };
     
     return { translationStatus, translationCompleteness };
   };
 
   const { translationStatus, translationCompleteness } = getTranslationStatus();
-  const taskName = getLocalizedText(task.name);
-  const taskDescription = getLocalizedText(task.description);
+  const dueDate = task.due_date
+    ? { ...formatDueDate(task.due_date), title: formatDateTime(task.due_date) }
+    : null;
+  const taskName = name.text;
+  const taskDescription = description.text;
+  const recurrence = task.recurrence_rule ? parseRecurrenceRule(task.recurrence_rule).rule : null;
 
   return (
     <div className={`${depth > 0 ? 'ml-6 border-l-2 border-gray-200 pl-4' : ''}`}>
@@ -163,7 +141,7 @@ const TaskCard: React.FC<TaskCardProps> = ({
                 <button
                   onClick={toggleExpanded}
                   className="mt-1 p-1 hover:bg-gray-100 rounded transition-colors"
-                  aria-label={isExpanded ? 'Collapse subtasks' : 'Expand subtasks'}
+                  aria-label={isExpanded ? t('task.subtasks.collapse') : t('task.subtasks.expand')}
                 >
                   {isExpanded ? (
                     <ChevronDown className="h-4 w-4 text-gray-500" />
@@ -178,6 +156,7 @@ const TaskCard: React.FC<TaskCardProps> = ({
                     <CardTitle className={`text-lg ${
                       task.status === 'completed' ? 'line-through text-gray-500' : 'text-gray-900'
                     }`}>
+                      <TaskKeyBadge task={task} className="mr-2 align-middle" />
                       {taskName}
                       {hasSubtasks && (
                         <span className="ml-2 text-sm font-normal text-gray-500">
@@ -196,34 +175,34 @@ const TaskCard: React.FC<TaskCardProps> = ({
               </div>
             </div>
             <div className="flex items-center space-x-2">
-              {onToggleStatus && (
+              {onToggleStatus && canEdit && (
                 <Button
                   variant="ghost"
                   size="sm"
                   onClick={() => onToggleStatus(task.id)}
                   className={task.status === 'completed' ? 'text-orange-600 hover:text-orange-800' : 'text-green-600 hover:text-green-800'}
                 >
-                  {task.status === 'completed' ? 'Reopen' : 'Complete'}
+                  {task.status === 'completed' ? t('task.action.reopen') : t('task.action.complete')}
                 </Button>
               )}
-              {onEdit && (
+              {onEdit && canEdit && (
                 <Button
                   variant="ghost"
                   size="sm"
                   onClick={() => onEdit(task)}
                   className="text-blue-600 hover:text-blue-800"
                 >
-                  Edit
+                  {t('common.edit')}
                 </Button>
               )}
-              {onDelete && (
+              {onDelete && canDeleteTask(role) && (
                 <Button
                   variant="ghost"
                   size="sm"
                   onClick={() => onDelete(task.id)}
                   className="text-red-600 hover:text-red-800"
                 >
-                  Delete
+                  {t('common.delete')}
                 </Button>
               )}
             </div>
@@ -236,9 +215,9 @@ const TaskCard: React.FC<TaskCardProps> = ({
               <p className="text-gray-600 leading-relaxed">
                 {taskDescription}
               </p>
-              {translationStatus.fallback_used && taskDescription && (
+              {description.fallbackUsed && description.locale && (
                 <p className="text-xs text-amber-600 mt-1 italic">
-                  * Showing English description (no {language.toUpperCase()} translation available)
+                  {t('task.descriptionFallback', { shown: getLocaleName(description.locale), language: getLocaleName(language) })}
                 </p>
               )}
             </div>
@@ -254,18 +233,49 @@ const TaskCard: React.FC<TaskCardProps> = ({
               {task.priority} priority
             </span>
             
-            {task.due_date && (
-              <span className={`flex items-center ${formatDate(task.due_date).color}`}>
+            {dueDate && (
+              <span className={`flex items-center ${getDueDateColor(dueDate)}`} title={dueDate.title}>
                 <Calendar className="h-3 w-3 mr-1" />
-                {formatDate(task.due_date).text}
+                {dueDate.text}
+              </span>
+            )}
+
+            {recurrence && (
+              <span className="text-gray-600 flex items-center" title={task.recurrence_rule ?? undefined}>
+                <Repeat className="h-3 w-3 mr-1" />
+                {describeRecurrence(recurrence, t, language)}
+              </span>
+            )}
+
+            {task.assignee && (
+              <span className="text-gray-600 flex items-center" title={t('sharing.assignee.label')}>
+                <UserCheck className="h-3 w-3 mr-1" aria-hidden="true" />
+                {task.assignee.name}
+              </span>
+            )}
+
+            {role !== 'owner' && !task.parent_id && (
+              <span className="px-3 py-1 rounded-full text-xs font-medium border bg-purple-50 text-purple-800 border-purple-200 flex items-center">
+                <Users className="h-3 w-3 mr-1" aria-hidden="true" />
+                {t('sharing.sharedAs', { role: t(`sharing.role.${role}`) })}
+              </span>
+            )}
+
+            {!!task.comments_count && (
+              <span className="text-gray-600 flex items-center" title={t('comments.count', { count: task.comments_count })}>
+                <MessageSquare className="h-3 w-3 mr-1" aria-hidden="true" />
+                {task.comments_count}
               </span>
             )}
             
             <span className="text-gray-500 flex items-center">
               <User className="h-3 w-3 mr-1" />
-              Created {new Date(task.created_at).toLocaleDateString()}
+              {t('dates.created', { date: formatDate(task.created_at) })}
             </span>
           </div>
+
+          <TaskLabels task={task} className="mt-3" />
+          <BlockedByBadges task={task} className="mt-3" />
           
           {hasSubtasks && onViewSubtasks && (
             <div className="mt-4 pt-4 border-t border-gray-100">
@@ -295,6 +305,7 @@ const TaskCard: React.FC<TaskCardProps> = ({
               onViewSubtasks={onViewSubtasks}
               depth={depth + 1}
               showSubtasks={showSubtasks}
+              parentRole={role}
             />
           ))}
         </div>
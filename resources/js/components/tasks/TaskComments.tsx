@@ -0,0 +1,136 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { TaskComment } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/spinner';
+import { useNotifications } from '@/components/ui/notification';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTask } from '@/contexts/TaskContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import CommentService from '@/services/CommentService';
+import { webSocketService } from '@/services/WebSocketService';
+import CommentComposer from './CommentComposer';
+import CommentItem from './CommentItem';
+
+interface TaskCommentsProps {
+  taskId: number;
+}
+
+// Our own changes come back over the WebSocket too, so merge by id
+const upsertComment = (comments: TaskComment[], comment: TaskComment): TaskComment[] =>
+  comments.some(current => current.id === comment.id)
+    ? comments.map(current => (current.id === comment.id ? comment : current))
+    : [...comments, comment];
+
+/**
+ * Comment thread of a task, kept current by task.commented events
+ */
+const TaskComments: React.FC<TaskCommentsProps> = ({ taskId }) => {
+  const { user } = useAuth();
+  const { setCommentsCount } = useTask();
+  const { addNotification } = useNotifications();
+  const { t } = useTranslation();
+  const [comments, setComments] = useState<TaskComment[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const loadComments = useCallback(async () => {
+    setLoadError(null);
+    try {
+      setComments(await CommentService.getComments(taskId));
+    } catch {
+      setLoadError(t('comments.loadFailed'));
+    }
+  }, [taskId, t]);
+
+  useEffect(() => {
+    setComments(null);
+    loadComments();
+  }, [loadComments]);
+
+  const commentCount = comments?.length;
+  useEffect(() => {
+    if (commentCount !== undefined) {
+      setCommentsCount(taskId, commentCount);
+    }
+  }, [taskId, commentCount, setCommentsCount]);
+
+  useEffect(() => {
+    return webSocketService.subscribe(event => {
+      if (event.action !== 'commented' || event.task_id !== taskId || !event.comment_data) return;
+
+      const { change, comment } = event.comment_data;
+      setComments(current => {
+        if (!current) return current;
+        return change === 'deleted'
+          ? current.filter(existing => existing.id !== comment.id)
+          : upsertComment(current, comment);
+      });
+    });
+  }, [taskId]);
+
+  const handleAdd = async (body: string) => {
+    const comment = await CommentService.addComment(taskId, body);
+    setComments(current => upsertComment(current ?? [], comment));
+  };
+
+  const handleUpdate = async (comment: TaskComment, body: string) => {
+    const updated = await CommentService.updateComment(taskId, comment.id, body);
+    setComments(current => upsertComment(current ?? [], updated));
+  };
+
+  const handleDelete = async (comment: TaskComment) => {
+    if (!confirm(t('comments.deleteConfirm'))) return;
+
+    try {
+      await CommentService.deleteComment(taskId, comment.id);
+      setComments(current => current?.filter(existing => existing.id !== comment.id) ?? current);
+    } catch (error) {
+      addNotification({
+        type: 'error',
+        title: t('comments.failed.title'),
+        message: (error as Error).message
+      });
+    }
+  };
+
+  return (
+    <section className="space-y-4" aria-label={t('comments.title')}>
+      <h3 className="text-sm font-semibold text-foreground">
+        {comments ? t('comments.count', { count: comments.length }) : t('comments.title')}
+      </h3>
+
+      {loadError ? (
+        <div className="flex items-center justify-between gap-4 text-sm text-destructive dark:text-red-300">
+          <span>{loadError}</span>
+          <Button variant="outline" size="sm" onClick={loadComments}>{t('common.retry')}</Button>
+        </div>
+      ) : !comments ? (
+        <div className="flex justify-center py-4">
+          <Spinner />
+        </div>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t('comments.empty')}</p>
+      ) : (
+        <ul className="max-h-80 space-y-4 overflow-y-auto pr-1">
+          {comments.map(comment => (
+            <CommentItem
+              key={comment.id}
+              comment={comment}
+              currentUserId={user?.id}
+              onUpdate={handleUpdate}
+              onDelete={handleDelete}
+            />
+          ))}
+        </ul>
+      )}
+
+      <CommentComposer
+        taskId={taskId}
+        submitLabel={t('comments.submit')}
+        onSubmit={handleAdd}
+        resetOnSubmit
+      />
+    </section>
+  );
+};
+
+export default TaskComments;
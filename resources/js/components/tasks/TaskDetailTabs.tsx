@@ -0,0 +1,77 @@
+import React, { useId, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { useTranslation } from '@/hooks/useTranslation';
+import TaskComments from './TaskComments';
+import TaskHistory from './TaskHistory';
+import TaskSharing from './TaskSharing';
+
+interface TaskDetailTabsProps {
+  taskId: number;
+  parentId?: number;
+}
+
+type Tab = 'comments' | 'history' | 'sharing';
+
+const TABS: Tab[] = ['comments', 'history', 'sharing'];
+
+const renderPanel = (tab: Tab, taskId: number, parentId?: number) => {
+  switch (tab) {
+    case 'comments':
+      return <TaskComments taskId={taskId} />;
+    case 'history':
+      return <TaskHistory taskId={taskId} />;
+    case 'sharing':
+      return <TaskSharing taskId={taskId} parentId={parentId} />;
+  }
+};
+
+/**
+ * Comments, version history and collaborators under the details of a task
+ */
+const TaskDetailTabs: React.FC<TaskDetailTabsProps> = ({ taskId, parentId }) => {
+  const { t } = useTranslation();
+  const id = useId();
+  const [tab, setTab] = useState<Tab>('comments');
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key !== 'ArrowRight' && event.key !== 'ArrowLeft') return;
+
+    event.preventDefault();
+    const next = TABS[(TABS.indexOf(tab) + (event.key === 'ArrowRight' ? 1 : -1) + TABS.length) % TABS.length];
+    setTab(next);
+    document.getElementById(`${id}-${next}-tab`)?.focus();
+  };
+
+  return (
+    <div className="space-y-4 border-t border-border pt-4">
+      <div role="tablist" className="flex gap-4 border-b border-border" onKeyDown={handleKeyDown}>
+        {TABS.map(name => (
+          <button
+            key={name}
+            id={`${id}-${name}-tab`}
+            type="button"
+            role="tab"
+            aria-selected={tab === name}
+            aria-controls={`${id}-${name}-panel`}
+            tabIndex={tab === name ? 0 : -1}
+            onClick={() => setTab(name)}
+            className={cn(
+              '-mb-px border-b-2 pb-2 text-sm font-medium transition-colors',
+              tab === name
+                ? 'border-primary text-foreground'
+                : 'border-transparent text-muted-foreground hover:text-foreground'
+            )}
+          >
+            {t(`taskDetail.tabs.${name}`)}
+          </button>
+        ))}
+      </div>
+
+      <div id={`${id}-${tab}-panel`} role="tabpanel" aria-labelledby={`${id}-${tab}-tab`}>
+        {renderPanel(tab, taskId, parentId)}
+      </div>
+    </div>
+  );
+};
+
+export default TaskDetailTabs;
@@ -1,6 +1,6 @@
 import React, { useEffect, useState, useCallback, useMemo } from "react";
 import { useForm } from "react-hook-form";
-import { Task, TaskFormData, Translations, Language } from "@/types";
+import { Task, TaskFormData, Translations, Language, TranslatableField } from "@/types";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -32,8 +32,30 @@ import {
     CheckCircle,
     AlertTriangle,
     Globe,
+    Lock,
+    Repeat,
+    Sparkles,
+    Tag,
 } from "lucide-react";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { useTask } from "@/contexts/TaskContext";
+import { useProjects } from "@/contexts/ProjectContext";
+import { rescheduleDueDate, resolveTimeZone, toDateKey, todayKey } from "@/utils/timezone";
+import { BLOCKED_STATUSES, flattenTasks, isFinishedStatus, wouldCreateCycle } from "@/utils/taskDependencies";
+import { parseRecurrenceRule } from "@/utils/recurrence";
+import RecurrenceEditor from "./RecurrenceEditor";
+import LabelPicker from "./LabelPicker";
+import { useTranslation } from "@/hooks/useTranslation";
+import { useLocalizedText } from "@/hooks/useLocalizedText";
+import { getLocaleDirection } from "@/utils/locales";
+import TranslationSuggestionService, { TranslationSuggestion, translationMemoryProvider } from "@/services/TranslationSuggestionService";
+
+// Language translations are suggested from
+const SOURCE_LANGUAGE: Language = "en";
+
+// Select items need a non-empty value, so "no project" gets its own
+const NO_PROJECT = "none";
 
 interface TaskFormProps {
     task?: Task;
@@ -52,24 +74,71 @@ const TaskForm: React.FC<TaskFormProps> = ({
     loading = false,
     showCard = false,
 }) => {
-    const { language } = useLanguage();
+    const { language, locales } = useLanguage();
+    const { t } = useTranslation();
+    const { getText } = useLocalizedText();
+    const { user } = useAuth();
+    const { tasks } = useTask();
+    const { projects, activeProjects, currentProject } = useProjects();
+    const timeZone = resolveTimeZone(user?.timezone);
     const [activeLang, setActiveLang] = useState<Language>(language);
     const [unsavedChanges, setUnsavedChanges] = useState<Record<string, boolean>>({});
     const [hasInteracted, setHasInteracted] = useState(false);
-    const supportedLanguages: Language[] = ["en", "fr", "de"];
+    // Suggested translations nobody has edited or accepted yet, keyed by form field, e.g. "name.fr"
+    const [unreviewed, setUnreviewed] = useState<Record<string, TranslationSuggestion>>({});
+    const [suggesting, setSuggesting] = useState<string | null>(null);
+    const [suggestionMessages, setSuggestionMessages] = useState<Record<string, string>>({});
+    const supportedLanguages = useMemo(() => locales.map(locale => locale.code), [locales]);
+    const emptyTranslations = (): Translations =>
+        Object.fromEntries(supportedLanguages.map(lang => [lang, ""]));
 
     const form = useForm<TaskFormData>({
         defaultValues: {
-            name: { en: "", fr: "", de: "" },
-            description: { en: "", fr: "", de: "" },
+            name: emptyTranslations(),
+            description: emptyTranslations(),
             status: task?.status || "pending",
             priority: task?.priority || "medium",
-            due_date: task?.due_date ? task.due_date.split("T")[0] : "",
+            due_date: task?.due_date ? toDateKey(task.due_date, timeZone) : "",
             parent_id: task?.parent_id || undefined,
+            // New tasks go into the project picked in the header
+            project_id: task ? task.project_id ?? null : currentProject?.id ?? null,
+            blocked_by_ids: task?.blocked_by?.map(blocker => blocker.id) ?? [],
+            label_ids: task?.labels?.map(label => label.id) ?? [],
+            recurrence_rule: task?.recurrence_rule ?? null,
+            recurrence_scope: "this",
         },
         mode: "onChange", // Enable real-time validation
     });
 
+    // A task stays in its project when that project is archived, so keep it selectable
+    const projectOptions = useMemo(() => {
+        const current = projects.find(project => project.id === task?.project_id);
+        return current?.archived_at ? [...activeProjects, current] : activeProjects;
+    }, [projects, activeProjects, task?.project_id]);
+    // Moving a task to another project and labelling it are left to its owner
+    const isOwner = !task || (task.role ?? "owner") === "owner";
+
+    // Every loaded task can block this one, unless it already waits on it
+    const blockerCandidates = useMemo(() => {
+        const loaded = flattenTasks(tasks);
+        const candidates = new Map<number, { id: number; name: Task["name"]; status: Task["status"]; cycle: boolean }>();
+
+        task?.blocked_by?.forEach(blocker => {
+            candidates.set(blocker.id, { ...blocker, cycle: false });
+        });
+        loaded.forEach(candidate => {
+            if (candidate.id === task?.id) return;
+            candidates.set(candidate.id, {
+                id: candidate.id,
+                name: candidate.name,
+                status: candidate.status,
+                cycle: task ? wouldCreateCycle(task.id, candidate.id, loaded) : false,
+            });
+        });
+
+        return Array.from(candidates.values());
+    }, [tasks, task]);
+
     // Calculate translation completeness
     const translationCompleteness = useMemo(() => {
         const formValues = form.watch();
@@ -113,23 +182,30 @@ const TaskForm: React.FC<TaskFormProps> = ({
                 (task as any).translations?.name ||
                 (typeof task.name === "object"
                     ? task.name
-                    : { en: task.name, fr: "", de: "" });
+                    : { ...emptyTranslations(), [SOURCE_LANGUAGE]: task.name });
             const descriptionTranslations =
                 (task as any).translations?.description ||
                 (typeof task.description === "object"
                     ? task.description
-                    : { en: task.description || "", fr: "", de: "" });
+                    : { ...emptyTranslations(), [SOURCE_LANGUAGE]: task.description || "" });
             form.reset({
                 name: nameTranslations,
                 description: descriptionTranslations,
                 status: task.status,
                 priority: task.priority,
-                due_date: task.due_date ? task.due_date.split("T")[0] : "",
+                due_date: task.due_date ? toDateKey(task.due_date, timeZone) : "",
                 parent_id: task.parent_id || undefined,
+                project_id: task.project_id ?? null,
+                blocked_by_ids: task.blocked_by?.map(blocker => blocker.id) ?? [],
+                label_ids: task.labels?.map(label => label.id) ?? [],
+                recurrence_rule: task.recurrence_rule ?? null,
+                recurrence_scope: "this",
             });
             // Reset unsaved changes tracking
             setUnsavedChanges({});
             setHasInteracted(false);
+            setUnreviewed({});
+            setSuggestionMessages({});
         }
     }, [task, form]);
 
@@ -139,8 +215,8 @@ const TaskForm: React.FC<TaskFormProps> = ({
             if (name && hasInteracted) {
                 // Extract language from field name (e.g., "name.en" -> "en")
                 const fieldParts = name.split('.');
-                if (fieldParts.length === 2 && supportedLanguages.includes(fieldParts[1] as Language)) {
-                    const lang = fieldParts[1] as Language;
+                if (fieldParts.length === 2 && supportedLanguages.includes(fieldParts[1])) {
+                    const lang = fieldParts[1];
                     trackUnsavedChanges(lang, true);
                 }
             }
@@ -155,7 +231,6 @@ const TaskForm: React.FC<TaskFormProps> = ({
 
     const handleSubmit = (data: TaskFormData) => {
         // Always send all supported translations for name and description
-        const supportedLanguages = ["en", "fr", "de"];
         let mergedName: Record<string, string> = {};
         let mergedDescription: Record<string, string> = {};
         // Merge with existing translations if editing
@@ -176,76 +251,174 @@ const TaskForm: React.FC<TaskFormProps> = ({
         // Clear unsaved changes tracking on successful submit
         setUnsavedChanges({});
         setHasInteracted(false);
+        // Saved translations become part of the translation memory
+        translationMemoryProvider.reset();
         
+        // Subtasks are in the project of their parent; otherwise only a changed project is sent,
+        // as moving a task is something only its owner may do
+        const { project_id, label_ids, ...fields } = data;
+        const projectChanged = !data.parent_id &&
+            (task ? (project_id ?? null) !== (task.project_id ?? null) : project_id != null);
+        // Labels are sent the same way, so editors never send a list they can't change
+        const originalLabelIds = task?.labels?.map(label => label.id) ?? [];
+        const labelsChanged = isOwner && (label_ids ?? []).join() !== originalLabelIds.join();
+
         // Submit with all translations
+        // The picked day is in the user's timezone; keep the existing time of day when editing
         onSubmit({
-            ...data,
+            ...fields,
+            ...(projectChanged ? { project_id: project_id ?? null } : {}),
+            ...(labelsChanged ? { label_ids: label_ids ?? [] } : {}),
+            due_date: data.due_date ? rescheduleDueDate(task?.due_date, data.due_date, timeZone) : data.due_date,
             name: mergedName,
             description: mergedDescription,
         });
     };
 
-    const getTranslation = (
-        field: string | Translations | undefined,
-        lang: string = "en"
-    ) => {
-        if (typeof field === "object" && field !== null && field[lang]) {
-            return field[lang];
+    const clearSuggestionState = (key: string) => {
+        setUnreviewed(({ [key]: _removed, ...rest }) => rest);
+        setSuggestionMessages(({ [key]: _removed, ...rest }) => rest);
+    };
+
+    const handleSuggest = async (field: TranslatableField, lang: Language) => {
+        const key = `${field}.${lang}`;
+        const text = form.getValues(`${field}.${SOURCE_LANGUAGE}` as `name.${Language}`)?.trim() ?? "";
+
+        clearSuggestionState(key);
+        if (!text) {
+            setSuggestionMessages(prev => ({
+                ...prev,
+                [key]: t("taskForm.suggestion.sourceMissing", { field, lang: SOURCE_LANGUAGE.toUpperCase() }),
+            }));
+            return;
+        }
+
+        setSuggesting(key);
+        try {
+            const suggestion = await TranslationSuggestionService.suggest({
+                field,
+                text,
+                sourceLang: SOURCE_LANGUAGE,
+                targetLang: lang,
+            });
+            if (!suggestion) {
+                setSuggestionMessages(prev => ({ ...prev, [key]: t("taskForm.suggestion.notFound", { field }) }));
+                return;
+            }
+            form.setValue(key as `name.${Language}`, suggestion.text, { shouldDirty: true, shouldValidate: true });
+            setUnreviewed(prev => ({ ...prev, [key]: suggestion }));
+            setHasInteracted(true);
+        } catch (error) {
+            setSuggestionMessages(prev => ({
+                ...prev,
+                [key]: error instanceof Error ? error.message : t("taskForm.suggestion.failed"),
+            }));
+        } finally {
+            setSuggesting(null);
         }
-        return typeof field === "string" ? field : "";
+    };
+
+    // Suggest button and review state shown with a translated field
+    const renderSuggestion = (field: TranslatableField, lang: Language) => {
+        if (lang === SOURCE_LANGUAGE) return null;
+
+        const key = `${field}.${lang}`;
+        const suggestion = unreviewed[key];
+        const message = suggestionMessages[key];
+
+        return (
+            <div className="mt-2 space-y-2">
+                {suggestion ? (
+                    <div className="flex flex-wrap items-center gap-2 rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-xs text-amber-800 dark:border-amber-800 dark:bg-amber-900/20 dark:text-amber-300">
+                        <AlertTriangle className="h-3 w-3" />
+                        <span className="font-medium">{t("taskForm.suggestion.unreviewed")}</span>
+                        <span>
+                            {suggestion.basedOn
+                                ? t("taskForm.suggestion.fuzzySource", {
+                                    provider: suggestion.provider,
+                                    match: Math.round(suggestion.confidence * 100),
+                                    basedOn: suggestion.basedOn,
+                                })
+                                : suggestion.provider}
+                        </span>
+                        <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className="ml-auto h-6 px-2 text-xs"
+                            onClick={() => clearSuggestionState(key)}
+                        >
+                            {t("taskForm.suggestion.accept")}
+                        </Button>
+                    </div>
+                ) : (
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        onClick={() => handleSuggest(field, lang)}
+                        disabled={suggesting !== null}
+                    >
+                        <Sparkles className="h-3 w-3 mr-1" />
+                        {suggesting === key ? t("taskForm.suggestion.loading") : t("taskForm.suggestion.action")}
+                    </Button>
+                )}
+                {message && <p className="text-xs text-muted-foreground">{message}</p>}
+            </div>
+        );
     };
 
     const validateDueDate = (value: string | undefined) => {
         if (!value) return true;
-        const selectedDate = new Date(value);
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
 
-        if (selectedDate < today) {
-            return "Due date cannot be in the past";
+        if (value < todayKey(timeZone)) {
+            return t("taskForm.validation.dueDatePast");
         }
         return true;
     };
 
-    const getStatusDescription = (status: Task["status"]) => {
-        switch (status) {
-            case "pending":
-                return "Task is waiting to be started";
-            case "in_progress":
-                return "Task is currently being worked on";
-            case "completed":
-                return "Task has been finished";
-            case "cancelled":
-                return "Task has been cancelled and will not be completed";
-            default:
-                return "";
+    const validateStatus = (value: Task["status"]) => {
+        // Only moving into a blocked status is refused, like the API does
+        if (value === task?.status || !BLOCKED_STATUSES.includes(value)) return true;
+
+        const selected = form.getValues("blocked_by_ids") ?? [];
+        const openBlockers = blockerCandidates.filter(
+            candidate => selected.includes(candidate.id) && !isFinishedStatus(candidate.status)
+        );
+        if (openBlockers.length > 0) {
+            return t("taskForm.validation.blocked", { names: openBlockers.map(blocker => getText(blocker.name)).join(", ") });
         }
+        return true;
     };
 
-    const getPriorityDescription = (priority: Task["priority"]) => {
-        switch (priority) {
-            case "low":
-                return "Can be done when time permits";
-            case "medium":
-                return "Normal priority task";
-            case "high":
-                return "Should be completed soon";
-            case "urgent":
-                return "Requires immediate attention";
-            default:
-                return "";
-        }
+    const validateRecurrence = (value: string | null | undefined) => {
+        if (!value) return true;
+        if (form.getValues("parent_id")) return t("taskForm.validation.subtaskRecurrence");
+
+        const { errors } = parseRecurrenceRule(value);
+        return errors.length > 0 ? t("taskForm.validation.recurrenceRule", { errors: errors.map(error => t(error.key, error.values)).join(", ") }) : true;
     };
 
+    const getStatusDescription = (status: Task["status"]) =>
+        status ? t(`taskForm.status.${status}.description`) : "";
+
+    const getPriorityDescription = (priority: Task["priority"]) =>
+        priority ? t(`taskForm.priority.${priority}.description`) : "";
+
     // Translation status indicator component
     const TranslationStatusIndicator: React.FC<{ lang: Language }> = ({ lang }) => {
         const status = translationCompleteness[lang];
         const isActive = activeLang === lang;
         const hasUnsaved = unsavedChanges[lang];
+        const hasUnreviewed = Object.keys(unreviewed).some(key => key.endsWith(`.${lang}`));
         
         if (!status) return null;
 
         const getStatusIcon = () => {
+            if (hasUnreviewed) {
+                return <Sparkles className="h-3 w-3 text-amber-500" />;
+            }
             if (hasUnsaved) {
                 return <AlertTriangle className="h-3 w-3 text-amber-500" />;
             }
@@ -256,7 +429,7 @@ const TaskForm: React.FC<TaskFormProps> = ({
         };
 
         const getStatusColor = () => {
-            if (hasUnsaved) return "border-amber-500";
+            if (hasUnsaved || hasUnreviewed) return "border-amber-500";
             if (status.complete) return "border-green-500";
             return "border-red-500";
         };
@@ -278,7 +451,7 @@ const TaskForm: React.FC<TaskFormProps> = ({
     const handleLanguageSwitch = useCallback((newLang: Language) => {
         if (hasUnsavedChangesInCurrentLang && hasInteracted) {
             const confirmSwitch = window.confirm(
-                `You have unsaved changes in ${activeLang.toUpperCase()}. Are you sure you want to switch to ${newLang.toUpperCase()}?`
+                t("taskForm.languageSwitch.confirm", { from: activeLang.toUpperCase(), to: newLang.toUpperCase() })
             );
             if (!confirmSwitch) {
                 return;
@@ -286,30 +459,31 @@ const TaskForm: React.FC<TaskFormProps> = ({
         }
         setActiveLang(newLang);
         setHasInteracted(true);
-    }, [activeLang, hasUnsavedChangesInCurrentLang, hasInteracted]);
+    }, [activeLang, hasUnsavedChangesInCurrentLang, hasInteracted, t]);
 
     // Enhanced validation rules
     const getValidationRules = (field: 'name' | 'description', lang: Language) => {
-        const isRequired = field === 'name' && lang === 'en';
+        const isRequired = field === 'name' && lang === SOURCE_LANGUAGE;
         const rules: any = {};
+        const values = { field, lang: lang.toUpperCase() };
 
         if (isRequired) {
-            rules.required = `${field === 'name' ? 'Task name' : 'Description'} in English is required`;
+            rules.required = t('taskForm.validation.required', values);
         }
 
         if (field === 'name') {
             rules.minLength = {
                 value: 3,
-                message: `Task name in ${lang.toUpperCase()} must be at least 3 characters`
+                message: t('taskForm.validation.minLength', { ...values, min: 3 })
             };
             rules.maxLength = {
                 value: 255,
-                message: `Task name in ${lang.toUpperCase()} cannot exceed 255 characters`
+                message: t('taskForm.validation.maxLength', { ...values, max: 255 })
             };
         } else if (field === 'description') {
             rules.maxLength = {
                 value: 1000,
-                message: `Description in ${lang.toUpperCase()} cannot exceed 1000 characters`
+                message: t('taskForm.validation.maxLength', { ...values, max: 1000 })
             };
         }
 
@@ -328,13 +502,13 @@ const TaskForm: React.FC<TaskFormProps> = ({
                         <div className="flex items-center gap-2">
                             <Globe className="h-4 w-4 text-muted-foreground" />
                             <span className="text-sm font-medium text-muted-foreground">
-                                Translation Status
+                                {t("taskForm.translationStatus")}
                             </span>
                         </div>
                         {hasInteracted && Object.values(unsavedChanges).some(Boolean) && (
                             <div className="flex items-center gap-1 text-xs text-amber-600">
                                 <AlertTriangle className="h-3 w-3" />
-                                Unsaved changes
+                                {t("taskForm.unsavedChanges")}
                             </div>
                         )}
                     </div>
@@ -367,18 +541,13 @@ const TaskForm: React.FC<TaskFormProps> = ({
                         {/* Task Name */}
                         <FormField
                             control={form.control}
-                            name={
-                                `name.${lang}` as
-                                    | "name.en"
-                                    | "name.fr"
-                                    | "name.de"
-                            }
+                            name={`name.${lang}` as `name.${Language}`}
                             rules={getValidationRules('name', lang)}
                             render={({ field }) => (
                                 <FormItem>
                                     <FormLabel className="flex items-center gap-2">
-                                        Task Name ({lang.toUpperCase()})
-                                        {lang === 'en' && (
+                                        {t("taskForm.name.label", { lang: lang.toUpperCase() })}
+                                        {lang === SOURCE_LANGUAGE && (
                                             <span className="text-red-500 text-xs">*</span>
                                         )}
                                         {translationCompleteness[lang]?.name && (
@@ -387,21 +556,26 @@ const TaskForm: React.FC<TaskFormProps> = ({
                                     </FormLabel>
                                     <FormControl>
                                         <Input
-                                            placeholder={`Enter task name in ${lang.toUpperCase()}${lang === 'en' ? ' (required)' : ' (optional)'}`}
+                                            placeholder={t("taskForm.name.placeholder", { lang: lang.toUpperCase(), required: String(lang === SOURCE_LANGUAGE) })}
                                             {...field}
+                                            lang={lang}
+                                            dir={getLocaleDirection(lang)}
+                                            className={unreviewed[`name.${lang}`] ? "border-amber-400" : undefined}
                                             onChange={(e) => {
                                                 field.onChange(e);
                                                 setHasInteracted(true);
+                                                clearSuggestionState(`name.${lang}`);
                                             }}
                                         />
                                     </FormControl>
                                     <FormDescription>
-                                        {lang === 'en' 
-                                            ? 'English name is required for all tasks'
-                                            : `Optional translation in ${lang.toUpperCase()}`
+                                        {lang === SOURCE_LANGUAGE
+                                            ? t("taskForm.name.requiredHint")
+                                            : t("taskForm.name.optionalHint", { lang: lang.toUpperCase() })
                                         }
                                     </FormDescription>
                                     <FormMessage />
+                                    {renderSuggestion('name', lang)}
                                 </FormItem>
                             )}
                         />
@@ -409,35 +583,35 @@ const TaskForm: React.FC<TaskFormProps> = ({
                         {/* Description */}
                         <FormField
                             control={form.control}
-                            name={
-                                `description.${lang}` as
-                                    | "description.en"
-                                    | "description.fr"
-                                    | "description.de"
-                            }
+                            name={`description.${lang}` as `description.${Language}`}
                             rules={getValidationRules('description', lang)}
                             render={({ field }) => (
                                 <FormItem className="mt-6">
                                     <FormLabel className="flex items-center gap-2">
-                                        Description ({lang.toUpperCase()})
+                                        {t("taskForm.description.label", { lang: lang.toUpperCase() })}
                                         {translationCompleteness[lang]?.description && (
                                             <CheckCircle className="h-3 w-3 text-green-500" />
                                         )}
                                     </FormLabel>
                                     <FormControl>
                                         <Textarea
-                                            placeholder={`Enter description in ${lang.toUpperCase()} (optional)`}
+                                            placeholder={t("taskForm.description.placeholder", { lang: lang.toUpperCase() })}
                                             {...field}
+                                            lang={lang}
+                                            dir={getLocaleDirection(lang)}
+                                            className={unreviewed[`description.${lang}`] ? "border-amber-400" : undefined}
                                             onChange={(e) => {
                                                 field.onChange(e);
                                                 setHasInteracted(true);
+                                                clearSuggestionState(`description.${lang}`);
                                             }}
                                         />
                                     </FormControl>
                                     <FormDescription>
-                                        Optional detailed description in {lang.toUpperCase()}
+                                        {t("taskForm.description.hint", { lang: lang.toUpperCase() })}
                                     </FormDescription>
                                     <FormMessage />
+                                    {renderSuggestion('description', lang)}
                                 </FormItem>
                             )}
                         />
@@ -449,11 +623,12 @@ const TaskForm: React.FC<TaskFormProps> = ({
                     <FormField
                         control={form.control}
                         name="status"
+                        rules={{ validate: validateStatus }}
                         render={({ field }) => (
                             <FormItem>
                                 <FormLabel className="flex items-center gap-2">
                                     <Clock className="h-4 w-4" />
-                                    Status
+                                    {t("taskForm.status.label")}
                                 </FormLabel>
                                 <Select
                                     onValueChange={field.onChange}
@@ -461,32 +636,32 @@ const TaskForm: React.FC<TaskFormProps> = ({
                                 >
                                     <FormControl>
                                         <SelectTrigger>
-                                            <SelectValue placeholder="Select status" />
+                                            <SelectValue placeholder={t("taskForm.status.placeholder")} />
                                         </SelectTrigger>
                                     </FormControl>
                                     <SelectContent>
                                         <SelectItem value="pending">
                                             <div className="flex items-center gap-2">
                                                 <div className="w-2 h-2 rounded-full bg-gray-400"></div>
-                                                Pending
+                                                {t("task.status.pending")}
                                             </div>
                                         </SelectItem>
                                         <SelectItem value="in_progress">
                                             <div className="flex items-center gap-2">
                                                 <div className="w-2 h-2 rounded-full bg-blue-500"></div>
-                                                In Progress
+                                                {t("task.status.in_progress")}
                                             </div>
                                         </SelectItem>
                                         <SelectItem value="completed">
                                             <div className="flex items-center gap-2">
                                                 <div className="w-2 h-2 rounded-full bg-green-500"></div>
-                                                Completed
+                                                {t("task.status.completed")}
                                             </div>
                                         </SelectItem>
                                         <SelectItem value="cancelled">
                                             <div className="flex items-center gap-2">
                                                 <div className="w-2 h-2 rounded-full bg-red-500"></div>
-                                                Cancelled
+                                                {t("task.status.cancelled")}
                                             </div>
                                         </SelectItem>
                                     </SelectContent>
@@ -506,7 +681,7 @@ const TaskForm: React.FC<TaskFormProps> = ({
                             <FormItem>
                                 <FormLabel className="flex items-center gap-2">
                                     <Flag className="h-4 w-4" />
-                                    Priority
+                                    {t("taskForm.priority.label")}
                                 </FormLabel>
                                 <Select
                                     onValueChange={field.onChange}
@@ -514,32 +689,32 @@ const TaskForm: React.FC<TaskFormProps> = ({
                                 >
                                     <FormControl>
                                         <SelectTrigger>
-                                            <SelectValue placeholder="Select priority" />
+                                            <SelectValue placeholder={t("taskForm.priority.placeholder")} />
                                         </SelectTrigger>
                                     </FormControl>
                                     <SelectContent>
                                         <SelectItem value="low">
                                             <div className="flex items-center gap-2">
                                                 <Flag className="h-3 w-3 text-gray-400" />
-                                                Low
+                                                {t("task.priority.low")}
                                             </div>
                                         </SelectItem>
                                         <SelectItem value="medium">
                                             <div className="flex items-center gap-2">
                                                 <Flag className="h-3 w-3 text-yellow-500" />
-                                                Medium
+                                                {t("task.priority.medium")}
                                             </div>
                                         </SelectItem>
                                         <SelectItem value="high">
                                             <div className="flex items-center gap-2">
                                                 <Flag className="h-3 w-3 text-orange-500" />
-                                                High
+                                                {t("task.priority.high")}
                                             </div>
                                         </SelectItem>
                                         <SelectItem value="urgent">
                                             <div className="flex items-center gap-2">
                                                 <Flag className="h-3 w-3 text-red-500" />
-                                                Urgent
+                                                {t("task.priority.urgent")}
                                             </div>
                                         </SelectItem>
                                     </SelectContent>
@@ -567,35 +742,81 @@ const TaskForm: React.FC<TaskFormProps> = ({
                             <FormItem>
                                 <FormLabel className="flex items-center gap-2">
                                     <Calendar className="h-4 w-4" />
-                                    Due Date
+                                    {t("taskForm.dueDate.label")}
                                 </FormLabel>
                                 <FormControl>
                                     <Input
                                         type="date"
                                         {...field}
-                                        min={
-                                            new Date()
-                                                .toISOString()
-                                                .split("T")[0]
-                                        }
+                                        min={todayKey(timeZone)}
                                     />
                                 </FormControl>
                                 <FormDescription>
-                                    When should this task be completed?
-                                    (optional)
+                                    {t("taskForm.dueDate.hint")}
                                 </FormDescription>
                                 <FormMessage />
                             </FormItem>
                         )}
                     />
 
+                    {isOwner && projectOptions.length > 0 && !form.watch("parent_id") && (
+                        <FormField
+                            control={form.control}
+                            name="project_id"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>{t("taskForm.project.label")}</FormLabel>
+                                    <Select
+                                        onValueChange={(value) =>
+                                            field.onChange(value === NO_PROJECT ? null : parseInt(value))
+                                        }
+                                        value={field.value ? field.value.toString() : NO_PROJECT}
+                                    >
+                                        <FormControl>
+                                            <SelectTrigger>
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                            <SelectItem value={NO_PROJECT}>
+                                                {t("taskForm.project.none")}
+                                            </SelectItem>
+                                            {projectOptions.map((project) => (
+                                                <SelectItem
+                                                    key={project.id}
+                                                    value={project.id.toString()}
+                                                    disabled={Boolean(project.archived_at)}
+                                                >
+                                                    <div className="flex items-center gap-2">
+                                                        <div
+                                                            className="w-2 h-2 rounded-full"
+                                                            style={{ backgroundColor: project.color }}
+                                                        ></div>
+                                                        {project.name}
+                                                        <span className="font-mono text-xs text-muted-foreground">
+                                                            {project.key}
+                                                        </span>
+                                                    </div>
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    <FormDescription>
+                                        {t("taskForm.project.hint")}
+                                    </FormDescription>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                    )}
+
                     {availableParents.length > 0 && (
                         <FormField
                             control={form.control}
                             name="parent_id"
                             render={({ field }) => (
                                 <FormItem>
-                                    <FormLabel>Parent Task</FormLabel>
+                                    <FormLabel>{t("taskForm.parent.label")}</FormLabel>
                                     <Select
                                         onValueChange={(value) =>
                                             field.onChange(
@@ -608,7 +829,7 @@ const TaskForm: React.FC<TaskFormProps> = ({
                                     >
                                         <FormControl>
                                             <SelectTrigger>
-                                                <SelectValue placeholder="Select parent task (optional)" />
+                                                <SelectValue placeholder={t("taskForm.parent.placeholder")} />
                                             </SelectTrigger>
                                         </FormControl>
                                         <SelectContent>
@@ -629,7 +850,7 @@ const TaskForm: React.FC<TaskFormProps> = ({
                                                                     : "bg-gray-400"
                                                             }`}
                                                         ></div>
-                                                        {getTranslation(
+                                                        {getText(
                                                             parent.name
                                                         )}
                                                     </div>
@@ -638,8 +859,7 @@ const TaskForm: React.FC<TaskFormProps> = ({
                                         </SelectContent>
                                     </Select>
                                     <FormDescription>
-                                        Make this task a subtask of another task
-                                        (optional)
+                                        {t("taskForm.parent.hint")}
                                     </FormDescription>
                                     <FormMessage />
                                 </FormItem>
@@ -648,21 +868,163 @@ const TaskForm: React.FC<TaskFormProps> = ({
                     )}
                 </div>
 
+                {/* Labels */}
+                {isOwner && (
+                    <FormField
+                        control={form.control}
+                        name="label_ids"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel className="flex items-center gap-2">
+                                    <Tag className="h-4 w-4" />
+                                    {t("taskForm.labels.label")}
+                                </FormLabel>
+                                <LabelPicker
+                                    value={field.value ?? []}
+                                    onChange={field.onChange}
+                                    initialLabels={task?.labels}
+                                />
+                                <FormDescription>
+                                    {t("taskForm.labels.hint")}
+                                </FormDescription>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                )}
+
+                {/* Recurrence */}
+                <FormField
+                    control={form.control}
+                    name="recurrence_rule"
+                    rules={{
+                        validate: validateRecurrence,
+                    }}
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel className="flex items-center gap-2">
+                                <Repeat className="h-4 w-4" />
+                                {t("taskForm.recurrence.label")}
+                            </FormLabel>
+                            <RecurrenceEditor
+                                value={field.value}
+                                onChange={field.onChange}
+                                startDate={form.watch("due_date") || todayKey(timeZone)}
+                                locale={language}
+                            />
+                            <FormDescription>
+                                {task?.series_id
+                                    ? t("taskForm.recurrence.seriesHint")
+                                    : t("taskForm.recurrence.hint")}
+                            </FormDescription>
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+
+                {task?.series_id && (
+                    <FormField
+                        control={form.control}
+                        name="recurrence_scope"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>{t("taskForm.scope.label")}</FormLabel>
+                                <div className="flex flex-col sm:flex-row gap-2 sm:gap-6 text-sm">
+                                    <label className="flex items-center gap-2 cursor-pointer">
+                                        <input
+                                            type="radio"
+                                            checked={field.value !== "future"}
+                                            onChange={() => field.onChange("this")}
+                                        />
+                                        {t("taskForm.scope.this")}
+                                    </label>
+                                    <label className="flex items-center gap-2 cursor-pointer">
+                                        <input
+                                            type="radio"
+                                            checked={field.value === "future"}
+                                            onChange={() => field.onChange("future")}
+                                        />
+                                        {t("taskForm.scope.future")}
+                                    </label>
+                                </div>
+                                <FormDescription>
+                                    {t("taskForm.scope.hint")}
+                                </FormDescription>
+                            </FormItem>
+                        )}
+                    />
+                )}
+
+                {/* Blocking Tasks */}
+                {blockerCandidates.length > 0 && (
+                    <FormField
+                        control={form.control}
+                        name="blocked_by_ids"
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel className="flex items-center gap-2">
+                                    <Lock className="h-4 w-4" />
+                                    {t("taskForm.blockedBy.label")}
+                                </FormLabel>
+                                <div className="max-h-48 overflow-y-auto rounded-md border divide-y">
+                                    {blockerCandidates.map((candidate) => {
+                                        const selected = field.value?.includes(candidate.id) ?? false;
+                                        return (
+                                            <label
+                                                key={candidate.id}
+                                                title={candidate.cycle ? t("taskForm.blockedBy.cycle") : undefined}
+                                                className={`flex items-center gap-3 px-3 py-2 text-sm ${
+                                                    candidate.cycle ? "opacity-50 cursor-not-allowed" : "cursor-pointer hover:bg-gray-50"
+                                                }`}
+                                            >
+                                                <input
+                                                    type="checkbox"
+                                                    checked={selected}
+                                                    disabled={candidate.cycle && !selected}
+                                                    onChange={(e) => {
+                                                        const current = field.value ?? [];
+                                                        field.onChange(
+                                                            e.target.checked
+                                                                ? [...current, candidate.id]
+                                                                : current.filter(id => id !== candidate.id)
+                                                        );
+                                                        form.trigger("status");
+                                                    }}
+                                                />
+                                                <span className={`flex-1 ${isFinishedStatus(candidate.status) ? "line-through text-gray-500" : ""}`}>
+                                                    {getText(candidate.name)}
+                                                </span>
+                                                <span className="text-xs text-muted-foreground">
+                                                    {t(`task.status.${candidate.status}`)}
+                                                </span>
+                                            </label>
+                                        );
+                                    })}
+                                </div>
+                                <FormDescription>
+                                    {t("taskForm.blockedBy.hint")}
+                                </FormDescription>
+                                <FormMessage />
+                            </FormItem>
+                        )}
+                    />
+                )}
+
                 {/* Form Actions */}
                 <div className="flex flex-col sm:flex-row justify-between items-center gap-3 pt-6 border-t border-gray-200">
                     <div className="flex items-center gap-2 text-sm text-muted-foreground">
                         {hasInteracted && (
                             <>
-                                <span>English translation:</span>
+                                <span>{t("taskForm.englishTranslation")}</span>
                                 {translationCompleteness.en?.complete ? (
                                     <span className="flex items-center gap-1 text-green-600">
                                         <CheckCircle className="h-3 w-3" />
-                                        Complete
+                                        {t("taskForm.complete")}
                                     </span>
                                 ) : (
                                     <span className="flex items-center gap-1 text-red-600">
                                         <AlertCircle className="h-3 w-3" />
-                                        Required
+                                        {t("taskForm.required")}
                                     </span>
                                 )}
                             </>
@@ -677,7 +1039,7 @@ const TaskForm: React.FC<TaskFormProps> = ({
                             className="flex items-center gap-2"
                         >
                             <X className="h-4 w-4" />
-                            Cancel
+                            {t("common.cancel")}
                         </Button>
                         <Button
                             type="submit"
@@ -686,10 +1048,10 @@ const TaskForm: React.FC<TaskFormProps> = ({
                         >
                             <Save className="h-4 w-4" />
                             {loading
-                                ? "Saving..."
+                                ? t("common.saving")
                                 : task
-                                ? "Update Task"
-                                : "Create Task"}
+                                ? t("taskForm.submit.update")
+                                : t("taskForm.submit.create")}
                         </Button>
                     </div>
                 </div>
@@ -700,7 +1062,7 @@ const TaskForm: React.FC<TaskFormProps> = ({
                         <div className="flex items-center gap-2 text-red-800 mb-3">
                             <AlertCircle className="h-4 w-4" />
                             <span className="font-medium">
-                                Please fix the following errors:
+                                {t("taskForm.errors.title")}
                             </span>
                         </div>
                         <div className="space-y-3">
@@ -714,14 +1076,14 @@ const TaskForm: React.FC<TaskFormProps> = ({
                                 return (
                                     <div key={lang} className="border-l-2 border-red-300 pl-3">
                                         <div className="font-medium text-red-800 text-sm mb-1">
-                                            {lang.toUpperCase()} Translation:
+                                            {t("taskForm.errors.translation", { lang: lang.toUpperCase() })}
                                         </div>
                                         <ul className="text-sm text-red-700 space-y-1">
                                             {nameError && (
-                                                <li>• Name: {nameError.message}</li>
+                                                <li>• {t("taskForm.errors.name", { message: nameError.message })}</li>
                                             )}
                                             {descError && (
-                                                <li>• Description: {descError.message}</li>
+                                                <li>• {t("taskForm.errors.description", { message: descError.message })}</li>
                                             )}
                                         </ul>
                                     </div>
@@ -732,7 +1094,7 @@ const TaskForm: React.FC<TaskFormProps> = ({
                             {Object.entries(form.formState.errors)
                                 .filter(([field]) => !['name', 'description'].includes(field))
                                 .map(([field, error]) => {
-                                    let message = "An error occurred";
+                                    let message = t("taskForm.errors.unknown");
                                     if (error && typeof error === "object" && "message" in error) {
                                         message = error.message as string;
                                     }
@@ -751,7 +1113,7 @@ const TaskForm: React.FC<TaskFormProps> = ({
                     <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                         <div className="flex items-center gap-2 text-blue-800 mb-2">
                             <Globe className="h-4 w-4" />
-                            <span className="font-medium">Translation Status</span>
+                            <span className="font-medium">{t("taskForm.translationStatus")}</span>
                         </div>
                         <div className="grid grid-cols-3 gap-4">
                             {supportedLanguages.map(lang => {
@@ -773,7 +1135,7 @@ const TaskForm: React.FC<TaskFormProps> = ({
                                         </div>
                                         {unsavedChanges[lang] && (
                                             <div className="text-xs text-amber-600 mt-1">
-                                                Unsaved changes
+                                                {t("taskForm.unsavedChanges")}
                                             </div>
                                         )}
                                     </div>
@@ -791,7 +1153,7 @@ const TaskForm: React.FC<TaskFormProps> = ({
             <Card>
                 <CardHeader>
                     <CardTitle>
-                        {task ? "Edit Task" : "Create New Task"}
+                        {task ? t("taskForm.title.edit") : t("taskForm.title.create")}
                     </CardTitle>
                 </CardHeader>
                 <CardContent>{formContent}</CardContent>
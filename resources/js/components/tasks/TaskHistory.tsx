@@ -0,0 +1,260 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Task, TaskActivity, TaskFieldChange } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/spinner';
+import { useNotifications } from '@/components/ui/notification';
+import { useTask } from '@/contexts/TaskContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { cn } from '@/lib/utils';
+import ActivityService from '@/services/ActivityService';
+import { webSocketService } from '@/services/WebSocketService';
+import { diffSnapshots, snapshotToFormData } from '@/utils/taskActivity';
+
+interface TaskHistoryProps {
+  taskId: number;
+}
+
+const upsertActivity = (activities: TaskActivity[], activity: TaskActivity): TaskActivity[] =>
+  activities.some(current => current.id === activity.id)
+    ? activities.map(current => (current.id === activity.id ? activity : current))
+    : [...activities, activity].sort((a, b) => a.version - b.version);
+
+interface ChangeListProps {
+  changes: TaskFieldChange[];
+}
+
+const ChangeList: React.FC<ChangeListProps> = ({ changes }) => {
+  const { t } = useTranslation();
+  const { formatDateTime } = useDateFormat();
+
+  const formatValue = (change: TaskFieldChange, value: string | null) => {
+    if (value === null) return <span className="italic">{t('history.none')}</span>;
+
+    switch (change.field) {
+      case 'status':
+        return t(`task.status.${value as Task['status']}`);
+      case 'priority':
+        return t(`task.priority.${value as Task['priority']}`);
+      case 'due_date':
+        return formatDateTime(value);
+      default:
+        return value;
+    }
+  };
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {changes.map((change, index) => (
+        <li key={index} className="break-words">
+          <span className="font-medium text-foreground">
+            {change.locale
+              ? t('history.fieldInLanguage', { field: t(`history.field.${change.field}`), locale: change.locale.toUpperCase() })
+              : t(`history.field.${change.field}`)}
+          </span>
+          {': '}
+          <del className="text-muted-foreground">{formatValue(change, change.from)}</del>
+          {' → '}
+          <ins className="no-underline">{formatValue(change, change.to)}</ins>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+/**
+ * Version history of a task: who changed what and when. Two versions can be compared,
+ * and an earlier version can be restored by saving its values over the current ones.
+ */
+const TaskHistory: React.FC<TaskHistoryProps> = ({ taskId }) => {
+  const { updateTask } = useTask();
+  const { addNotification } = useNotifications();
+  const { t } = useTranslation();
+  const { formatDateTime, formatRelativeTime } = useDateFormat();
+  const [activities, setActivities] = useState<TaskActivity[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [compared, setCompared] = useState<number[]>([]);
+  const [reverting, setReverting] = useState<number | null>(null);
+
+  const loadActivities = useCallback(async () => {
+    setLoadError(null);
+    try {
+      setActivities(await ActivityService.getActivity(taskId));
+    } catch {
+      setLoadError(t('history.loadFailed'));
+    }
+  }, [taskId, t]);
+
+  useEffect(() => {
+    setActivities(null);
+    setCompared([]);
+    loadActivities();
+  }, [loadActivities]);
+
+  useEffect(() => {
+    return webSocketService.subscribe(event => {
+      if (event.task_id !== taskId) return;
+
+      if (event.action === 'updated' && event.activity) {
+        const activity = event.activity;
+        setActivities(current => (current ? upsertActivity(current, activity) : current));
+      } else if (event.action === 'restored') {
+        loadActivities();
+      }
+    });
+  }, [taskId, loadActivities]);
+
+  const latest = activities?.[activities.length - 1];
+
+  const comparison = useMemo(() => {
+    if (!activities || compared.length !== 2) return null;
+
+    const [from, to] = [...compared].sort((a, b) => a - b)
+      .map(version => activities.find(activity => activity.version === version));
+    if (!from || !to) return null;
+
+    return { from, to, changes: diffSnapshots(from.snapshot, to.snapshot) };
+  }, [activities, compared]);
+
+  const toggleCompared = (version: number) => {
+    setCompared(current => {
+      if (current.includes(version)) return current.filter(selected => selected !== version);
+      // Picking a third version replaces the one picked first
+      return [...current, version].slice(-2);
+    });
+  };
+
+  const handleRevert = async (activity: TaskActivity) => {
+    if (!latest || !confirm(t('history.revertConfirm', { version: activity.version }))) return;
+
+    const data = snapshotToFormData(activity.snapshot, latest.snapshot);
+    if (Object.keys(data).length === 0) {
+      addNotification({
+        type: 'info',
+        title: t('history.unchanged.title'),
+        message: t('history.unchanged.message', { version: activity.version })
+      });
+      return;
+    }
+
+    setReverting(activity.version);
+    try {
+      await updateTask(taskId, data);
+      addNotification({
+        type: 'success',
+        title: t('history.reverted.title'),
+        message: t('history.reverted.message', { version: activity.version })
+      });
+      await loadActivities();
+    } catch (error) {
+      addNotification({
+        type: 'error',
+        title: t('history.revertFailed.title'),
+        message: (error as Error).message
+      });
+    } finally {
+      setReverting(null);
+    }
+  };
+
+  if (loadError) {
+    return (
+      <div className="flex items-center justify-between gap-4 text-sm text-destructive dark:text-red-300">
+        <span>{loadError}</span>
+        <Button variant="outline" size="sm" onClick={loadActivities}>{t('common.retry')}</Button>
+      </div>
+    );
+  }
+
+  if (!activities) {
+    return (
+      <div className="flex justify-center py-4">
+        <Spinner />
+      </div>
+    );
+  }
+
+  if (activities.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t('history.empty')}</p>;
+  }
+
+  return (
+    <section className="space-y-4" aria-label={t('history.title')}>
+      <p className="text-xs text-muted-foreground">{t('history.compareHint')}</p>
+
+      {comparison && (
+        <div className="space-y-2 rounded-md border border-border bg-muted/40 p-3">
+          <div className="flex items-center justify-between gap-2">
+            <h4 className="text-sm font-semibold text-foreground">
+              {t('history.comparing', { from: comparison.from.version, to: comparison.to.version })}
+            </h4>
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setCompared([])}>
+              {t('history.clearComparison')}
+            </Button>
+          </div>
+          {comparison.changes.length === 0
+            ? <p className="text-sm text-muted-foreground">{t('history.identical')}</p>
+            : <ChangeList changes={comparison.changes} />}
+        </div>
+      )}
+
+      <ol className="max-h-80 space-y-4 overflow-y-auto pr-1">
+        {[...activities].reverse().map(activity => {
+          const canRevert = activity !== latest && activity.action !== 'deleted';
+
+          return (
+            <li key={activity.id} className="group space-y-1">
+              <div className="flex items-baseline justify-between gap-2">
+                <label className="flex items-baseline gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    className="translate-y-0.5"
+                    checked={compared.includes(activity.version)}
+                    onChange={() => toggleCompared(activity.version)}
+                    aria-label={t('history.compareVersion', { version: activity.version })}
+                  />
+                  <span>
+                    <span className="font-medium text-foreground">
+                      {t('history.version', { version: activity.version })}
+                    </span>
+                    {' · '}
+                    {t(`history.action.${activity.action}`, { name: activity.user?.name ?? t('history.unknownUser') })}
+                    <time
+                      dateTime={activity.created_at}
+                      title={formatDateTime(activity.created_at)}
+                      className="ml-2 text-xs text-muted-foreground"
+                    >
+                      {formatRelativeTime(activity.created_at)}
+                    </time>
+                  </span>
+                </label>
+                {canRevert && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className={cn(
+                      'h-7 shrink-0 px-2 text-xs transition-opacity',
+                      reverting !== activity.version && 'opacity-0 group-hover:opacity-100 group-focus-within:opacity-100'
+                    )}
+                    disabled={reverting !== null}
+                    onClick={() => handleRevert(activity)}
+                  >
+                    {reverting === activity.version && <Spinner size="sm" className="mr-1" />}
+                    {t('history.revert')}
+                  </Button>
+                )}
+              </div>
+              {activity.action !== 'created' && activity.changes.length > 0 && (
+                <div className="pl-6">
+                  <ChangeList changes={activity.changes} />
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </section>
+  );
+};
+
+export default TaskHistory;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Task } from '@/types';
+import { useProjects } from '@/contexts/ProjectContext';
+
+interface TaskKeyBadgeProps {
+  task: Task;
+  className?: string;
+}
+
+/**
+ * Project task key such as WEB-42, in the color of the task's project
+ */
+const TaskKeyBadge: React.FC<TaskKeyBadgeProps> = ({ task, className = '' }) => {
+  const { projects } = useProjects();
+
+  if (!task.task_key) {
+    return null;
+  }
+
+  const project = projects.find(candidate => candidate.id === task.project_id);
+
+  return (
+    <span
+      title={project?.name}
+      className={`inline-flex items-center px-1.5 py-0.5 rounded border font-mono text-xs font-medium text-muted-foreground ${className}`}
+      style={project ? { borderColor: project.color, color: project.color } : undefined}
+    >
+      {task.task_key}
+    </span>
+  );
+};
+
+export default TaskKeyBadge;
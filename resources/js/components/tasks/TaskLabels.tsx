@@ -0,0 +1,27 @@
+import React from 'react';
+import { Task } from '@/types';
+import LabelChip from './LabelChip';
+
+interface TaskLabelsProps {
+  task: Task;
+  className?: string;
+}
+
+/**
+ * Chips for the labels on a task
+ */
+const TaskLabels: React.FC<TaskLabelsProps> = ({ task, className = '' }) => {
+  if (!task.labels?.length) {
+    return null;
+  }
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1.5 ${className}`}>
+      {task.labels.map(label => (
+        <LabelChip key={label.id} label={label} />
+      ))}
+    </div>
+  );
+};
+
+export default TaskLabels;
@@ -1,11 +1,23 @@
 import React, { useState, useMemo } from 'react';
-import { Task, TaskFilters, Language } from '@/types';
+import { Task } from '@/types';
 import TaskCard from './TaskCard';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Search, Filter, SortAsc, SortDesc, List, Grid, Globe } from 'lucide-react';
+import { Filter, SortAsc, SortDesc, List, Grid, Globe, UserCheck } from 'lucide-react';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLocalizedText } from '@/hooks/useLocalizedText';
+import { useTranslation } from '@/hooks/useTranslation';
+import { hasLocalizedText } from '@/utils/localizedText';
+import TaskQueryInput from './TaskQueryInput';
+import { isEmptyTaskQuery, matchesTaskQuery, parseTaskQuery } from '@/utils/taskQuery';
+import { resolveTimeZone } from '@/utils/timezone';
+import { useTaskListView } from '@/hooks/useTaskListView';
+import { TaskListSort } from '@/utils/taskListView';
+import { isAssignedTo } from '@/utils/taskSharing';
+import { matchesLabels } from '@/utils/taskLabels';
+import LabelFilter from './LabelFilter';
+import LabelBulkActions from './LabelBulkActions';
 
 interface TaskListProps {
   tasks: Task[];
@@ -19,9 +31,6 @@ interface TaskListProps {
   viewMode?: 'list' | 'grid';
 }
 
-type SortOption = 'name' | 'created_at' | 'due_date' | 'priority' | 'status';
-type SortDirection = 'asc' | 'desc';
-
 const TaskList: React.FC<TaskListProps> = ({
   tasks,
   onEdit,
@@ -34,82 +43,31 @@ const TaskList: React.FC<TaskListProps> = ({
   viewMode = 'list'
 }) => {
   const { language } = useLanguage();
-  const [filters, setFilters] = useState<TaskFilters>({});
-  const [searchTerm, setSearchTerm] = useState('');
-  const [sortBy, setSortBy] = useState<SortOption>('created_at');
-  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
-  const [showCompleted, setShowCompleted] = useState(true);
-  const [currentViewMode, setCurrentViewMode] = useState<'list' | 'grid'>(viewMode);
+  const { user } = useAuth();
+  const { getText, fallbackChain } = useLocalizedText();
+  const { t } = useTranslation();
+  const { view, updateView } = useTaskListView(viewMode);
+  const { search: searchTerm, sortBy, sortDirection, showCompleted, viewMode: currentViewMode } = view;
   const [searchInAllLanguages, setSearchInAllLanguages] = useState(false);
 
-  // Helper function to get localized text with fallback
-  const getLocalizedText = (field: string | Record<string, string> | undefined, fallbackLang: Language = 'en'): string => {
-    if (!field) return '';
-    
-    if (typeof field === 'string') {
-      return field;
-    }
-    
-    if (typeof field === 'object') {
-      // Try current language first
-      if (field[language] && field[language].trim()) {
-        return field[language];
-      }
-      
-      // Fallback to English
-      if (field[fallbackLang] && field[fallbackLang].trim()) {
-        return field[fallbackLang];
-      }
-      
-      // Fallback to first available translation
-      const firstAvailable = Object.values(field).find(val => val && val.trim());
-      return firstAvailable || '';
-    }
-    
-    return '';
-  };
-
-  // Helper function to search in all languages or current language only
-  const searchInText = (field: string | Record<string, string> | undefined, searchTerm: string): boolean => {
-    if (!field || !searchTerm) return true;
-    
-    const lowerSearchTerm = searchTerm.toLowerCase();
-    
-    if (typeof field === 'string') {
-      return field.toLowerCase().includes(lowerSearchTerm);
-    }
-    
-    if (typeof field === 'object') {
-      if (searchInAllLanguages) {
-        // Search in all available translations
-        return Object.values(field).some(text => 
-          text && text.toLowerCase().includes(lowerSearchTerm)
-        );
-      } else {
-        // Search only in current language with fallback
-        const localizedText = getLocalizedText(field);
-        return localizedText.toLowerCase().includes(lowerSearchTerm);
-      }
-    }
-    
-    return false;
-  };
+  const query = useMemo(() => parseTaskQuery(searchTerm), [searchTerm]);
+  const timeZone = resolveTimeZone(user?.timezone);
 
   // Filter and sort tasks
   const filteredAndSortedTasks = useMemo(() => {
     let filtered = tasks.filter(task => {
-      // Filter by search term (locale-aware)
-      if (searchTerm && !searchInText(task.name, searchTerm) && !searchInText(task.description, searchTerm)) {
+      // Filter by search query (locale-aware)
+      if (!matchesTaskQuery(task, query, { language, allLanguages: searchInAllLanguages, timeZone, fallbackChain })) {
         return false;
       }
 
       // Filter by status
-      if (filters.status && task.status !== filters.status) {
+      if (view.status && task.status !== view.status) {
         return false;
       }
 
       // Filter by priority
-      if (filters.priority && task.priority !== filters.priority) {
+      if (view.priority && task.priority !== view.priority) {
         return false;
       }
 
@@ -118,6 +76,16 @@ const TaskList: React.FC<TaskListProps> = ({
         return false;
       }
 
+      // Filter by assignee: a parent stays when one of its subtasks is assigned to the user
+      if (view.assignedToMe && (!user || !isAssignedTo(task, tasks, user.id))) {
+        return false;
+      }
+
+      // Filter by labels
+      if (!matchesLabels(task, view.labels, view.labelMatch)) {
+        return false;
+      }
+
       return true;
     });
 
@@ -128,8 +96,8 @@ const TaskList: React.FC<TaskListProps> = ({
 
       switch (sortBy) {
         case 'name':
-          aValue = getLocalizedText(a.name).toLowerCase();
-          bValue = getLocalizedText(b.name).toLowerCase();
+          aValue = getText(a.name).toLowerCase();
+          bValue = getText(b.name).toLowerCase();
           break;
         case 'created_at':
           aValue = new Date(a.created_at);
@@ -159,19 +127,18 @@ const TaskList: React.FC<TaskListProps> = ({
     });
 
     return filtered;
-  }, [tasks, searchTerm, filters, sortBy, sortDirection, showCompleted, language, searchInAllLanguages]);
+  }, [tasks, query, view.status, view.priority, view.assignedToMe, view.labels, view.labelMatch, user, sortBy, sortDirection, showCompleted, language, searchInAllLanguages, timeZone, fallbackChain, getText]);
 
   // Separate parent tasks and subtasks for hierarchical display
   const parentTasks = useMemo(() => {
     return filteredAndSortedTasks.filter(task => !task.parent_id);
   }, [filteredAndSortedTasks]);
 
-  const toggleSort = (newSortBy: SortOption) => {
+  const toggleSort = (newSortBy: TaskListSort) => {
     if (sortBy === newSortBy) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+      updateView({ sortDirection: sortDirection === 'asc' ? 'desc' : 'asc' });
     } else {
-      setSortBy(newSortBy);
-      setSortDirection('asc');
+      updateView({ sortBy: newSortBy, sortDirection: 'asc' });
     }
   };
 
@@ -179,7 +146,7 @@ const TaskList: React.FC<TaskListProps> = ({
     return (
       <div className="flex justify-center items-center py-12">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-        <span className="ml-3 text-gray-600">Loading tasks...</span>
+        <span className="ml-3 text-gray-600">{t('tasks.loading')}</span>
       </div>
     );
   }
@@ -191,15 +158,14 @@ const TaskList: React.FC<TaskListProps> = ({
         <div className="bg-white p-4 rounded-lg border border-gray-200 space-y-4">
           {showSearch && (
             <div className="space-y-3">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-                <Input
-                  placeholder={`Search tasks in ${searchInAllLanguages ? 'all languages' : language.toUpperCase()}...`}
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="pl-10"
-                />
-              </div>
+              <TaskQueryInput
+                placeholder={searchInAllLanguages
+                  ? t('taskList.search.placeholderAll')
+                  : t('taskList.search.placeholder', { language: language.toUpperCase() })}
+                value={searchTerm}
+                onChange={search => updateView({ search })}
+                query={query}
+              />
               <div className="flex items-center gap-2">
                 <Button
                   variant="outline"
@@ -208,13 +174,13 @@ const TaskList: React.FC<TaskListProps> = ({
                   className={`flex items-center gap-2 ${searchInAllLanguages ? 'bg-blue-50 border-blue-200' : ''}`}
                 >
                   <Globe className="h-3 w-3" />
-                  {searchInAllLanguages ? 'Search all languages' : `Search ${language.toUpperCase()} only`}
+                  {searchInAllLanguages ? t('taskList.search.all') : t('taskList.search.current', { language: language.toUpperCase() })}
                 </Button>
-                {searchTerm && (
+                {searchTerm && query.language === null && (
                   <span className="text-xs text-gray-500">
                     {searchInAllLanguages 
-                      ? 'Searching across all language translations'
-                      : `Searching in ${language.toUpperCase()} with English fallback`
+                      ? t('taskList.search.hintAll')
+                      : t('taskList.search.hintCurrent', { language: language.toUpperCase() })
                     }
                   </span>
                 )}
@@ -226,57 +192,68 @@ const TaskList: React.FC<TaskListProps> = ({
             <div className="flex flex-wrap items-center gap-4">
               <div className="flex items-center space-x-2">
                 <Filter className="h-4 w-4 text-gray-500" />
-                <span className="text-sm font-medium text-gray-700">Filters:</span>
+                <span className="text-sm font-medium text-gray-700">{t('taskList.filters')}</span>
               </div>
 
-              <Select value={filters.status || 'all'} onValueChange={(value) => 
-                setFilters(prev => ({ ...prev, status: value === 'all' ? undefined : (value as Task['status']) }))
+              <Select value={view.status || 'all'} onValueChange={(value) => 
+                updateView({ status: value === 'all' ? undefined : (value as Task['status']) })
               }>
                 <SelectTrigger className="w-32">
-                  <SelectValue placeholder="Status" />
+                  <SelectValue placeholder={t('taskList.status.placeholder')} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="in_progress">In Progress</SelectItem>
-                  <SelectItem value="completed">Completed</SelectItem>
-                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                  <SelectItem value="all">{t('taskList.status.all')}</SelectItem>
+                  <SelectItem value="pending">{t('task.status.pending')}</SelectItem>
+                  <SelectItem value="in_progress">{t('task.status.in_progress')}</SelectItem>
+                  <SelectItem value="completed">{t('task.status.completed')}</SelectItem>
+                  <SelectItem value="cancelled">{t('task.status.cancelled')}</SelectItem>
                 </SelectContent>
               </Select>
 
-              <Select value={filters.priority || 'all'} onValueChange={(value) => 
-                setFilters(prev => ({ ...prev, priority: value === 'all' ? undefined : (value as Task['priority']) }))
+              <Select value={view.priority || 'all'} onValueChange={(value) => 
+                updateView({ priority: value === 'all' ? undefined : (value as Task['priority']) })
               }>
                 <SelectTrigger className="w-32">
-                  <SelectValue placeholder="Priority" />
+                  <SelectValue placeholder={t('taskList.priority.placeholder')} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Priority</SelectItem>
-                  <SelectItem value="low">Low</SelectItem>
-                  <SelectItem value="medium">Medium</SelectItem>
-                  <SelectItem value="high">High</SelectItem>
-                  <SelectItem value="urgent">Urgent</SelectItem>
+                  <SelectItem value="all">{t('taskList.priority.all')}</SelectItem>
+                  <SelectItem value="low">{t('task.priority.low')}</SelectItem>
+                  <SelectItem value="medium">{t('task.priority.medium')}</SelectItem>
+                  <SelectItem value="high">{t('task.priority.high')}</SelectItem>
+                  <SelectItem value="urgent">{t('task.priority.urgent')}</SelectItem>
                 </SelectContent>
               </Select>
 
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setShowCompleted(!showCompleted)}
+                onClick={() => updateView({ showCompleted: !showCompleted })}
                 className={showCompleted ? '' : 'bg-gray-100'}
               >
-                {showCompleted ? 'Hide' : 'Show'} Completed
+                {showCompleted ? t('taskList.hideCompleted') : t('taskList.showCompleted')}
+              </Button>
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateView({ assignedToMe: !view.assignedToMe })}
+                className={view.assignedToMe ? 'bg-gray-100' : ''}
+                aria-pressed={view.assignedToMe}
+              >
+                <UserCheck className="mr-1 h-4 w-4" />
+                {t('taskList.assignedToMe')}
               </Button>
 
               <div className="flex items-center space-x-2 ml-auto">
-                <span className="text-sm text-gray-600">Sort by:</span>
+                <span className="text-sm text-gray-600">{t('taskList.sort.label')}</span>
                 <Button
                   variant="ghost"
                   size="sm"
                   onClick={() => toggleSort('name')}
                   className={sortBy === 'name' ? 'bg-gray-100' : ''}
                 >
-                  Name {sortBy === 'name' && (sortDirection === 'asc' ? <SortAsc className="ml-1 h-3 w-3" /> : <SortDesc className="ml-1 h-3 w-3" />)}
+                  {t('taskList.sort.name')} {sortBy === 'name' && (sortDirection === 'asc' ? <SortAsc className="ml-1 h-3 w-3" /> : <SortDesc className="ml-1 h-3 w-3" />)}
                 </Button>
                 <Button
                   variant="ghost"
@@ -284,7 +261,7 @@ const TaskList: React.FC<TaskListProps> = ({
                   onClick={() => toggleSort('due_date')}
                   className={sortBy === 'due_date' ? 'bg-gray-100' : ''}
                 >
-                  Due Date {sortBy === 'due_date' && (sortDirection === 'asc' ? <SortAsc className="ml-1 h-3 w-3" /> : <SortDesc className="ml-1 h-3 w-3" />)}
+                  {t('taskList.sort.dueDate')} {sortBy === 'due_date' && (sortDirection === 'asc' ? <SortAsc className="ml-1 h-3 w-3" /> : <SortDesc className="ml-1 h-3 w-3" />)}
                 </Button>
                 <Button
                   variant="ghost"
@@ -292,14 +269,14 @@ const TaskList: React.FC<TaskListProps> = ({
                   onClick={() => toggleSort('priority')}
                   className={sortBy === 'priority' ? 'bg-gray-100' : ''}
                 >
-                  Priority {sortBy === 'priority' && (sortDirection === 'asc' ? <SortAsc className="ml-1 h-3 w-3" /> : <SortDesc className="ml-1 h-3 w-3" />)}
+                  {t('taskList.sort.priority')} {sortBy === 'priority' && (sortDirection === 'asc' ? <SortAsc className="ml-1 h-3 w-3" /> : <SortDesc className="ml-1 h-3 w-3" />)}
                 </Button>
 
                 <div className="border-l border-gray-300 pl-2 ml-2">
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => setCurrentViewMode('list')}
+                    onClick={() => updateView({ viewMode: 'list' })}
                     className={currentViewMode === 'list' ? 'bg-gray-100' : ''}
                   >
                     <List className="h-4 w-4" />
@@ -307,13 +284,22 @@ const TaskList: React.FC<TaskListProps> = ({
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => setCurrentViewMode('grid')}
+                    onClick={() => updateView({ viewMode: 'grid' })}
                     className={currentViewMode === 'grid' ? 'bg-gray-100' : ''}
                   >
                     <Grid className="h-4 w-4" />
                   </Button>
                 </div>
               </div>
+
+              <div className="basis-full space-y-3">
+                <LabelFilter
+                  value={view.labels}
+                  match={view.labelMatch}
+                  onChange={(labels, labelMatch) => updateView({ labels, labelMatch })}
+                />
+                <LabelBulkActions tasks={filteredAndSortedTasks} />
+              </div>
             </div>
           )}
         </div>
@@ -322,21 +308,20 @@ const TaskList: React.FC<TaskListProps> = ({
       {/* Task Count and Translation Summary */}
       <div className="flex items-center justify-between">
         <p className="text-sm text-gray-600">
-          Showing {filteredAndSortedTasks.length} of {tasks.length} tasks
+          {t('tasks.showing', { shown: filteredAndSortedTasks.length, total: tasks.length })}
         </p>
         <div className="flex items-center gap-4 text-xs text-gray-500">
           <div className="flex items-center gap-1">
             <Globe className="h-3 w-3" />
-            <span>Current: {language.toUpperCase()}</span>
+            <span>{t('taskList.currentLanguage', { language: language.toUpperCase() })}</span>
           </div>
           {filteredAndSortedTasks.length > 0 && (
             <div className="flex items-center gap-2">
-              <span>Translation status:</span>
+              <span>{t('taskList.translationStatus')}</span>
               <div className="flex items-center gap-1">
                 {(() => {
                   const withTranslation = filteredAndSortedTasks.filter(task => {
-                    const name = typeof task.name === 'object' ? task.name : { en: task.name };
-                    return name[language] && name[language].trim();
+                    return hasLocalizedText(task.name, language);
                   }).length;
                   const percentage = Math.round((withTranslation / filteredAndSortedTasks.length) * 100);
                   
@@ -360,11 +345,11 @@ const TaskList: React.FC<TaskListProps> = ({
           <div className="text-gray-400 mb-4">
             <List className="h-12 w-12 mx-auto" />
           </div>
-          <h3 className="text-lg font-medium text-gray-900 mb-2">No tasks found</h3>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">{t('taskList.empty.title')}</h3>
           <p className="text-gray-500">
-            {searchTerm || filters.status || filters.priority 
-              ? 'Try adjusting your search or filters to find tasks.'
-              : 'Create your first task to get started!'
+            {!isEmptyTaskQuery(query) || view.status || view.priority || view.assignedToMe || view.labels.length > 0
+              ? t('taskList.empty.filtered')
+              : t('taskList.empty.none')
             }
           </p>
         </div>
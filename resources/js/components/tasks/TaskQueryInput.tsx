@@ -0,0 +1,95 @@
+import React, { useId, useRef } from 'react';
+import { Search } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { useTranslation } from '@/hooks/useTranslation';
+import { ParsedTaskQuery } from '@/utils/taskQuery';
+
+interface TaskQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  query: ParsedTaskQuery;
+  placeholder?: string;
+  className?: string;
+}
+
+const QUERY_HELP = 'status:in_progress priority:>=high due:<2026-11-01 parent:42 lang:fr "exact phrase" -cancelled';
+
+/**
+ * Search box for the task query language; invalid tokens are underlined in place
+ */
+const TaskQueryInput: React.FC<TaskQueryInputProps> = ({
+  value,
+  onChange,
+  query,
+  placeholder,
+  className
+}) => {
+  const { t } = useTranslation();
+  const errorId = useId();
+  const highlightRef = useRef<HTMLDivElement>(null);
+  const hasErrors = query.errors.length > 0;
+
+  // Mirror the input text with error tokens marked; the text itself stays transparent
+  const renderHighlights = () => {
+    const segments: React.ReactNode[] = [];
+    let position = 0;
+
+    query.errors.forEach(token => {
+      segments.push(value.slice(position, token.start));
+      segments.push(
+        <mark
+          key={token.start}
+          className="rounded-sm bg-red-500/15 text-transparent underline decoration-red-500 decoration-wavy underline-offset-4"
+        >
+          {value.slice(token.start, token.end)}
+        </mark>
+      );
+      position = token.end;
+    });
+    segments.push(value.slice(position));
+
+    return segments;
+  };
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <div
+          ref={highlightRef}
+          aria-hidden="true"
+          className="pointer-events-none absolute inset-0 flex items-center overflow-hidden whitespace-pre border border-transparent pl-10 pr-3 text-base text-transparent md:text-sm"
+        >
+          {hasErrors && renderHighlights()}
+        </div>
+        <Input
+          placeholder={placeholder ?? t('taskQuery.placeholder')}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={(e) => {
+            if (highlightRef.current) {
+              highlightRef.current.scrollLeft = e.currentTarget.scrollLeft;
+            }
+          }}
+          title={t('taskQuery.help', { example: QUERY_HELP })}
+          aria-invalid={hasErrors || undefined}
+          aria-describedby={hasErrors ? errorId : undefined}
+          spellCheck={false}
+          className="relative pl-10"
+        />
+      </div>
+      {hasErrors && (
+        <ul id={errorId} className="space-y-0.5 text-xs text-red-600 dark:text-red-400">
+          {query.errors.map(token => (
+            <li key={token.start}>
+              <code className="font-mono">{token.text}</code>: {token.error && t(token.error.key, token.error.values)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TaskQueryInput;
@@ -0,0 +1,238 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { TaskShare, TaskSharing as TaskSharingState } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Spinner } from '@/components/ui/spinner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useNotifications } from '@/components/ui/notification';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTask } from '@/contexts/TaskContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import ShareService from '@/services/ShareService';
+import { webSocketService } from '@/services/WebSocketService';
+
+interface TaskSharingProps {
+  taskId: number;
+  // Subtasks are shared with their parent, so the panel shows the parent's collaborators
+  parentId?: number;
+}
+
+type ShareRole = TaskShare['role'];
+
+const ROLES: ShareRole[] = ['viewer', 'editor'];
+
+const upsertShare = (shares: TaskShare[], share: TaskShare): TaskShare[] =>
+  shares.some(current => current.id === share.id)
+    ? shares.map(current => (current.id === share.id ? share : current))
+    : [...shares, share];
+
+/**
+ * Who a task is shared with. The owner adds collaborators by email as viewers or editors,
+ * changes their role or removes them; collaborators can leave.
+ */
+const TaskSharing: React.FC<TaskSharingProps> = ({ taskId, parentId }) => {
+  const rootId = parentId ?? taskId;
+  const { user } = useAuth();
+  const { fetchTasks } = useTask();
+  const { addNotification } = useNotifications();
+  const { t } = useTranslation();
+  const [sharing, setSharing] = useState<TaskSharingState | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<ShareRole>('viewer');
+  const [submitting, setSubmitting] = useState(false);
+  const [busyShareId, setBusyShareId] = useState<number | null>(null);
+
+  const loadSharing = useCallback(async () => {
+    setLoadError(null);
+    try {
+      setSharing(await ShareService.getSharing(rootId));
+    } catch {
+      setLoadError(t('sharing.loadFailed'));
+    }
+  }, [rootId, t]);
+
+  useEffect(() => {
+    setSharing(null);
+    loadSharing();
+  }, [loadSharing]);
+
+  useEffect(() => {
+    return webSocketService.subscribe(event => {
+      if (event.action !== 'shared' || event.task_id !== rootId || !event.share_data) return;
+
+      const { change, share } = event.share_data;
+      setSharing(current => current && {
+        ...current,
+        shares: change === 'deleted'
+          ? current.shares.filter(existing => existing.id !== share.id)
+          : upsertShare(current.shares, share)
+      });
+    });
+  }, [rootId]);
+
+  const notifyError = (title: string, error: unknown) => {
+    addNotification({ type: 'error', title, message: (error as Error).message });
+  };
+
+  const handleShare = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!email.trim()) return;
+
+    setSubmitting(true);
+    try {
+      const share = await ShareService.shareTask(rootId, email.trim(), role);
+      setSharing(current => current && { ...current, shares: upsertShare(current.shares, share) });
+      setEmail('');
+      addNotification({
+        type: 'success',
+        title: t('sharing.shared.title'),
+        message: t('sharing.shared.message', { name: share.user.name, role: t(`sharing.role.${share.role}`) })
+      });
+    } catch (error) {
+      notifyError(t('sharing.shareFailed'), error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRoleChange = async (share: TaskShare, newRole: ShareRole) => {
+    setBusyShareId(share.id);
+    try {
+      const updated = await ShareService.updateShare(rootId, share.id, newRole);
+      setSharing(current => current && { ...current, shares: upsertShare(current.shares, updated) });
+    } catch (error) {
+      notifyError(t('sharing.updateFailed'), error);
+    } finally {
+      setBusyShareId(null);
+    }
+  };
+
+  const handleRemove = async (share: TaskShare) => {
+    const leaving = share.user.id === user?.id;
+    if (!confirm(leaving ? t('sharing.leaveConfirm') : t('sharing.removeConfirm', { name: share.user.name }))) return;
+
+    setBusyShareId(share.id);
+    try {
+      await ShareService.removeShare(rootId, share.id);
+      setSharing(current => current && { ...current, shares: current.shares.filter(existing => existing.id !== share.id) });
+      if (leaving) {
+        await fetchTasks();
+      }
+    } catch (error) {
+      notifyError(t('sharing.removeFailed'), error);
+    } finally {
+      setBusyShareId(null);
+    }
+  };
+
+  if (loadError) {
+    return (
+      <div className="flex items-center justify-between gap-4 text-sm text-destructive dark:text-red-300">
+        <span>{loadError}</span>
+        <Button variant="outline" size="sm" onClick={loadSharing}>{t('common.retry')}</Button>
+      </div>
+    );
+  }
+
+  if (!sharing) {
+    return (
+      <div className="flex justify-center py-4">
+        <Spinner />
+      </div>
+    );
+  }
+
+  const isOwner = sharing.role === 'owner';
+
+  return (
+    <section className="space-y-4" aria-label={t('sharing.title')}>
+      {parentId && (
+        <p className="text-xs text-muted-foreground">{t('sharing.subtaskHint')}</p>
+      )}
+
+      <ul className="space-y-2">
+        <li className="flex items-center justify-between gap-2 text-sm">
+          <span className="min-w-0 truncate">
+            <span className="font-medium text-foreground">{sharing.owner.name}</span>
+            <span className="ml-2 text-muted-foreground">{sharing.owner.email}</span>
+          </span>
+          <span className="shrink-0 text-xs text-muted-foreground">{t('sharing.role.owner')}</span>
+        </li>
+        {sharing.shares.map(share => (
+          <li key={share.id} className="flex items-center justify-between gap-2 text-sm">
+            <span className="min-w-0 truncate">
+              <span className="font-medium text-foreground">{share.user.name}</span>
+              <span className="ml-2 text-muted-foreground">{share.user.email}</span>
+            </span>
+            <span className="flex shrink-0 items-center gap-2">
+              {isOwner ? (
+                <Select
+                  value={share.role}
+                  onValueChange={value => handleRoleChange(share, value as ShareRole)}
+                  disabled={busyShareId === share.id}
+                >
+                  <SelectTrigger className="h-8 w-28 text-xs" aria-label={t('sharing.roleFor', { name: share.user.name })}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLES.map(value => (
+                      <SelectItem key={value} value={value}>{t(`sharing.role.${value}`)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <span className="text-xs text-muted-foreground">{t(`sharing.role.${share.role}`)}</span>
+              )}
+              {(isOwner || share.user.id === user?.id) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 px-2 text-xs text-destructive"
+                  disabled={busyShareId === share.id}
+                  onClick={() => handleRemove(share)}
+                >
+                  {share.user.id === user?.id ? t('sharing.leave') : t('sharing.remove')}
+                </Button>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {sharing.shares.length === 0 && (
+        <p className="text-sm text-muted-foreground">{t('sharing.empty')}</p>
+      )}
+
+      {isOwner && !parentId && (
+        <form className="flex flex-wrap items-center gap-2" onSubmit={handleShare}>
+          <Input
+            type="email"
+            value={email}
+            onChange={event => setEmail(event.target.value)}
+            placeholder={t('sharing.emailPlaceholder')}
+            aria-label={t('sharing.emailLabel')}
+            className="min-w-0 flex-1"
+            required
+          />
+          <Select value={role} onValueChange={value => setRole(value as ShareRole)}>
+            <SelectTrigger className="w-28" aria-label={t('sharing.roleLabel')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ROLES.map(value => (
+                <SelectItem key={value} value={value}>{t(`sharing.role.${value}`)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={submitting || !email.trim()}>
+            {submitting && <Spinner size="sm" className="mr-1" />}
+            {t('sharing.share')}
+          </Button>
+        </form>
+      )}
+    </section>
+  );
+};
+
+export default TaskSharing;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { useWebSocketState } from '@/hooks/useWebSocketState';
+import { ConnectionState } from '@/services/WebSocketService';
+import { useTranslation } from '@/hooks/useTranslation';
+import { cn } from '@/lib/utils';
+
+const STATE_DOTS: Record<ConnectionState, string> = {
+  connected: 'bg-green-500',
+  connecting: 'bg-yellow-500 animate-pulse',
+  authenticating: 'bg-yellow-500 animate-pulse',
+  reconnecting: 'bg-yellow-500 animate-pulse',
+  failed: 'bg-red-500',
+  disconnected: 'bg-gray-400',
+};
+
+const ConnectionStatus: React.FC<{ className?: string }> = ({ className }) => {
+  const state = useWebSocketState();
+  const { t } = useTranslation();
+  const label = t(`realtime.connection.${state}`);
+
+  return (
+    <span className={cn('inline-flex items-center', className)} title={label}>
+      <span className={cn('h-2 w-2 rounded-full', STATE_DOTS[state])} />
+      <span className="sr-only">{label}</span>
+    </span>
+  );
+};
+
+export default ConnectionStatus;
@@ -3,15 +3,11 @@ import { useLanguage } from '@/contexts/LanguageContext';
 import { Language } from '@/types';
 import { Button } from './button';
 import { Check, AlertTriangle, RotateCcw } from 'lucide-react';
-
-const LANGS: { code: Language; label: string; name: string }[] = [
-  { code: 'en', label: 'EN', name: 'English' },
-  { code: 'fr', label: 'FR', name: 'Français' },
-  { code: 'de', label: 'DE', name: 'Deutsch' },
-];
+import { useTranslation } from '@/hooks/useTranslation';
 
 const LanguageSwitcher: React.FC = () => {
-  const { language, setLanguage, isUpdating, userPreference, error, clearError } = useLanguage();
+  const { language, locales, setLanguage, isUpdating, userPreference, error, clearError } = useLanguage();
+  const { t } = useTranslation();
   const [lastSuccessfulChange, setLastSuccessfulChange] = useState<Language | null>(null);
   const [showSuccessIndicator, setShowSuccessIndicator] = useState(false);
   const [retryAttempts, setRetryAttempts] = useState(0);
@@ -52,7 +48,7 @@ const LanguageSwitcher: React.FC = () => {
   };
 
   const getLanguageName = (code: Language) => {
-    return LANGS.find(lang => lang.code === code)?.name || code.toUpperCase();
+    return locales.find(locale => locale.code === code)?.name || code.toUpperCase();
   };
 
   const isUserPreference = (code: Language) => {
@@ -67,7 +63,7 @@ const LanguageSwitcher: React.FC = () => {
     <div className="flex flex-col gap-2">
       {/* Language Buttons */}
       <div className="flex gap-1">
-        {LANGS.map(({ code, label }) => (
+        {locales.map(({ code, label }) => (
           <div key={code} className="relative">
             <Button
               variant={language === code ? 'default' : 'ghost'}
@@ -81,9 +77,9 @@ const LanguageSwitcher: React.FC = () => {
               `}
               title={
                 isUserPreference(code) 
-                  ? `${getLanguageName(code)} (Your preference)`
+                  ? t('languageSwitcher.preference', { language: getLanguageName(code) })
                   : isSessionLanguage(code)
-                  ? `${getLanguageName(code)} (Session only)`
+                  ? t('languageSwitcher.sessionOnly', { language: getLanguageName(code) })
                   : getLanguageName(code)
               }
             >
@@ -97,7 +93,7 @@ const LanguageSwitcher: React.FC = () => {
             {/* User preference indicator */}
             {isUserPreference(code) && (
               <div className="absolute -top-1 -right-1 w-2 h-2 bg-blue-500 rounded-full" 
-                   title="Your saved preference" />
+                   title={t('languageSwitcher.savedPreference')} />
             )}
           </div>
         ))}
@@ -109,7 +105,7 @@ const LanguageSwitcher: React.FC = () => {
         {showSuccessIndicator && !error && (
           <div className="flex items-center gap-1 text-xs text-green-600 animate-fade-in">
             <Check className="h-3 w-3" />
-            <span>Language changed to {getLanguageName(language)}</span>
+            <span>{t('languageSwitcher.changed', { language: getLanguageName(language) })}</span>
           </div>
         )}
 
@@ -128,7 +124,7 @@ const LanguageSwitcher: React.FC = () => {
                 className="text-xs h-6 px-2 text-blue-600 hover:text-blue-700"
               >
                 <RotateCcw className="h-3 w-3 mr-1" />
-                Retry ({retryAttempts} failed)
+                {t('languageSwitcher.retry', { count: retryAttempts })}
               </Button>
             )}
           </div>
@@ -138,14 +134,16 @@ const LanguageSwitcher: React.FC = () => {
         {!error && !showSuccessIndicator && (
           <div className="text-xs text-muted-foreground">
             {userPreference && userPreference === language ? (
-              <span>Using your preferred language: {getLanguageName(language)}</span>
+              <span>{t('languageSwitcher.usingPreference', { language: getLanguageName(language) })}</span>
             ) : userPreference && userPreference !== language ? (
               <span>
-                Session: {getLanguageName(language)} • 
-                Preference: {getLanguageName(userPreference)}
+                {t('languageSwitcher.session', {
+                  language: getLanguageName(language),
+                  preference: getLanguageName(userPreference)
+                })}
               </span>
             ) : (
-              <span>Current: {getLanguageName(language)}</span>
+              <span>{t('languageSwitcher.current', { language: getLanguageName(language) })}</span>
             )}
           </div>
         )}
@@ -0,0 +1,42 @@
+import React from 'react';
+import { CloudOff, RefreshCw } from 'lucide-react';
+import { usePendingSync } from '@/hooks/usePendingSync';
+import { useTranslation } from '@/hooks/useTranslation';
+import { cn } from '@/lib/utils';
+
+const PendingSyncIndicator: React.FC<{ className?: string }> = ({ className }) => {
+  const { online, pending, syncing } = usePendingSync();
+  const { t } = useTranslation();
+
+  if (online && pending === 0 && !syncing) {
+    return null;
+  }
+
+  const label = !online
+    ? t('sync.offline', { count: pending })
+    : t(syncing ? 'sync.syncing' : 'sync.pending', { count: pending });
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium',
+        online
+          ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400'
+          : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400',
+        className
+      )}
+      title={label}
+      role="status"
+    >
+      {online ? (
+        <RefreshCw className={cn('h-3 w-3', syncing && 'animate-spin')} />
+      ) : (
+        <CloudOff className="h-3 w-3" />
+      )}
+      {pending > 0 && <span aria-hidden="true">{pending}</span>}
+      <span className="sr-only">{label}</span>
+    </span>
+  );
+};
+
+export default PendingSyncIndicator;
@@ -1,13 +1,15 @@
 import React from 'react';
-import { Language } from '@/types';
 import { Check, AlertTriangle, Globe, Info } from 'lucide-react';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { getLocaleName } from '@/utils/locales';
 
 interface TranslationStatusProps {
   translationStatus?: {
     current_locale: string;
     has_translation: boolean;
     fallback_used: boolean;
+    // Locale of the text shown instead, when a fallback was used
+    fallback_locale?: string | null;
   };
   translationCompleteness?: Record<string, {
     name: boolean;
@@ -21,21 +23,16 @@ interface TranslationStatusProps {
   className?: string;
 }
 
-const LANGUAGE_NAMES: Record<Language, string> = {
-  en: 'English',
-  fr: 'Français',
-  de: 'Deutsch'
-};
-
 const TranslationStatus: React.FC<TranslationStatusProps> = ({
   translationStatus,
   translationCompleteness,
-  availableLocales = ['en', 'fr', 'de'],
+  availableLocales,
   showTooltip = true,
   variant = 'minimal',
   className = ''
 }) => {
-  const { language } = useLanguage();
+  const { language, locales } = useLanguage();
+  const localeCount = availableLocales?.length ?? locales.length;
 
   // Calculate overall translation status
   const getOverallStatus = () => {
@@ -51,7 +48,7 @@ const TranslationStatus: React.FC<TranslationStatusProps> = ({
         total: totalCount,
         percentage: Math.round((completeCount / totalCount) * 100),
         hasCurrentLocale: translationCompleteness[language]?.complete || false,
-        currentLocaleFallback: !translationCompleteness[language]?.complete
+        currentLocaleFallback: translationStatus?.fallback_used ?? !translationCompleteness[language]?.complete
       };
     }
 
@@ -67,7 +64,7 @@ const TranslationStatus: React.FC<TranslationStatusProps> = ({
 
     return {
       complete: 0,
-      total: availableLocales.length,
+      total: localeCount,
       percentage: 0,
       hasCurrentLocale: false,
       currentLocaleFallback: true
@@ -100,24 +97,28 @@ const TranslationStatus: React.FC<TranslationStatusProps> = ({
     if (translationCompleteness) {
       lines.push(`Translation Status:`);
       Object.entries(translationCompleteness).forEach(([locale, info]) => {
-        const langName = LANGUAGE_NAMES[locale as Language] || locale.toUpperCase();
+        const langName = getLocaleName(locale);
         const status = info.complete ? '✓' : '✗';
         lines.push(`${status} ${langName} (${info.percentage}%)`);
       });
     } else if (translationStatus) {
-      const langName = LANGUAGE_NAMES[language] || language.toUpperCase();
+      const langName = getLocaleName(language);
       if (translationStatus.has_translation) {
         lines.push(`✓ Available in ${langName}`);
       } else {
         lines.push(`✗ Not available in ${langName}`);
         if (translationStatus.fallback_used) {
-          lines.push(`Using fallback language`);
+          lines.push(translationStatus.fallback_locale
+            ? `Using ${getLocaleName(translationStatus.fallback_locale)} instead`
+            : `Using fallback language`);
         }
       }
     }
 
     if (status.currentLocaleFallback) {
-      lines.push(`⚠ Using fallback for current language`);
+      lines.push(translationStatus?.fallback_locale
+        ? `⚠ Showing ${getLocaleName(translationStatus.fallback_locale)} for current language`
+        : `⚠ Using fallback for current language`);
     }
 
     return lines.join('\n');
@@ -165,14 +166,14 @@ const TranslationStatus: React.FC<TranslationStatusProps> = ({
       {status.currentLocaleFallback && (
         <div className="flex items-center gap-1 text-xs text-amber-600">
           <Info className="h-3 w-3" />
-          <span>Using fallback for {LANGUAGE_NAMES[language]}</span>
+          <span>Using fallback for {getLocaleName(language)}</span>
         </div>
       )}
 
       {translationCompleteness && (
         <div className="grid grid-cols-3 gap-1 mt-1">
           {Object.entries(translationCompleteness).map(([locale, info]) => {
-            const langName = LANGUAGE_NAMES[locale as Language] || locale.toUpperCase();
+            const langName = getLocaleName(locale);
             return (
               <div 
                 key={locale}
@@ -183,7 +184,7 @@ const TranslationStatus: React.FC<TranslationStatusProps> = ({
                 }`}
                 title={`${langName}: ${info.percentage}% complete`}
               >
-                {info.complete ? '✓' : '✗'} {langName.slice(0, 2).toUpperCase()}
+                {info.complete ? '✓' : '✗'} {locale.toUpperCase()}
               </div>
             );
           })}
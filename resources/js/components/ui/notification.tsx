@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { X, CheckCircle, AlertCircle, Info, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { useTranslation } from '@/hooks/useTranslation';
 
 export interface NotificationProps {
   id: string;
@@ -8,6 +9,11 @@ export interface NotificationProps {
   title: string;
   message?: string;
   duration?: number;
+  // Optional button in the toast, e.g. "Undo" after a destructive change
+  action?: {
+    label: string;
+    onClick: () => void;
+  };
   onClose: (id: string) => void;
 }
 
@@ -17,8 +23,10 @@ export const Notification: React.FC<NotificationProps> = ({
   title,
   message,
   duration = 5000,
+  action,
   onClose
 }) => {
+  const { t } = useTranslation();
   const [isVisible, setIsVisible] = useState(true);
 
   useEffect(() => {
@@ -86,6 +94,19 @@ export const Notification: React.FC<NotificationProps> = ({
               {message}
             </p>
           )}
+          {action && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                action.onClick();
+                handleClose();
+              }}
+              className="mt-2 h-7 px-3 text-xs"
+            >
+              {action.label}
+            </Button>
+          )}
         </div>
         <Button
           variant="ghost"
@@ -94,7 +115,7 @@ export const Notification: React.FC<NotificationProps> = ({
           className="flex-shrink-0 h-6 w-6 p-0 hover:bg-transparent"
         >
           <X className="h-4 w-4" />
-          <span className="sr-only">Close notification</span>
+          <span className="sr-only">{t('common.closeNotification')}</span>
         </Button>
       </div>
     </div>
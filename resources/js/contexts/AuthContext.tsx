@@ -1,7 +1,16 @@
-import React, { createContext, useContext, useCallback } from 'react';
-import { User, LoginCredentials, RegisterData } from '@/types';
+import React, { createContext, useContext, useCallback, useEffect, useRef } from 'react';
+import {
+  User,
+  LoginCredentials,
+  RegisterData,
+  ForgotPasswordData,
+  ResetPasswordData,
+  SessionEndReason,
+  TwoFactorChallengeData
+} from '@/types';
 import { useAuthState } from '@/hooks/useAuthState';
 import AuthService from '@/services/AuthService';
+import { isFormError } from '@/utils/formErrors';
 
 interface AuthContextType {
   user: User | null;
@@ -9,10 +18,23 @@ interface AuthContextType {
   isLoading: boolean;
   error: string | null;
   fieldErrors?: Record<string, string[]> | null;
-  login: (credentials: LoginCredentials) => Promise<void>;
+  // Set when the session ended without the user signing out, until they sign in again
+  sessionEndReason: SessionEndReason | null;
+  // The password was accepted and the sign-in waits for a two-factor code
+  twoFactorRequired: boolean;
+  // Resolves false when a two-factor code is still needed
+  login: (credentials: LoginCredentials) => Promise<boolean>;
+  completeTwoFactor: (data: TwoFactorChallengeData) => Promise<void>;
+  // Go back from the code to the email and password
+  cancelTwoFactor: () => void;
   register: (data: RegisterData) => Promise<void>;
   logout: () => Promise<void>;
   logoutAll: () => Promise<void>;
+  forgotPassword: (data: ForgotPasswordData) => Promise<string>;
+  resetPassword: (data: ResetPasswordData) => Promise<string>;
+  resendVerificationEmail: () => Promise<string>;
+  // Replace the user after it was changed elsewhere, e.g. on the settings page
+  updateUser: (user: User) => void;
   clearError: () => void;
   validateAuth: () => Promise<boolean>;
 }
@@ -45,15 +67,54 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   } = useAuthState();
 
   const [fieldErrors, setFieldErrors] = React.useState<Record<string, string[]> | null>(null);
+  const [sessionEndReason, setSessionEndReason] = React.useState<SessionEndReason | null>(null);
+  const [twoFactorRequired, setTwoFactorRequired] = React.useState(false);
+  const userRef = useRef(user);
+  userRef.current = user;
 
-  const login = useCallback(async (credentials: LoginCredentials) => {
+  /**
+   * A request was rejected as unauthenticated (see bootstrap.js). Only a
+   * signed in user has a session that ended; otherwise there is nothing to report.
+   */
+  useEffect(() => {
+    const handleSessionEnded = (event: Event) => {
+      if (!userRef.current) return;
+
+      const { reason } = (event as CustomEvent<{ reason: SessionEndReason }>).detail;
+      setSessionEndReason(reason);
+      setUser(null);
+    };
+
+    window.addEventListener('sessionEnded', handleSessionEnded);
+    return () => window.removeEventListener('sessionEnded', handleSessionEnded);
+  }, [setUser]);
+
+  // Validation errors go to fieldErrors so forms can show them next to their fields
+  const handleFormError = useCallback((error: unknown, fallbackMessage: string) => {
+    if (isFormError(error)) {
+      setFieldErrors(error.errors);
+      setError(error.message || fallbackMessage);
+    } else {
+      setError(error instanceof Error ? error.message : fallbackMessage);
+      setFieldErrors(null);
+    }
+  }, [setError]);
+
+  const login = useCallback(async (credentials: LoginCredentials): Promise<boolean> => {
     try {
       clearStateError();
       setFieldErrors(null);
       setLoading(true);
       
       const response = await AuthService.login(credentials);
+      if ('two_factor_required' in response) {
+        setTwoFactorRequired(true);
+        return false;
+      }
+
+      setSessionEndReason(null);
       setUser(response.user);
+      return true;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Login failed';
       setError(errorMessage);
@@ -63,6 +124,27 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   }, [setUser, setError, setLoading, clearStateError]);
 
+  // Like the password requests below, the code form tracks its own submit
+  const completeTwoFactor = useCallback(async (data: TwoFactorChallengeData) => {
+    clearStateError();
+    setFieldErrors(null);
+    try {
+      const response = await AuthService.twoFactorChallenge(data);
+      setTwoFactorRequired(false);
+      setSessionEndReason(null);
+      setUser(response.user);
+    } catch (error) {
+      handleFormError(error, 'Two-factor authentication failed');
+      throw error;
+    }
+  }, [setUser, clearStateError, handleFormError]);
+
+  const cancelTwoFactor = useCallback(() => {
+    setTwoFactorRequired(false);
+    clearStateError();
+    setFieldErrors(null);
+  }, [clearStateError]);
+
   const register = useCallback(async (data: RegisterData) => {
     try {
       clearStateError();
@@ -70,20 +152,15 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       setLoading(true);
       
       const response = await AuthService.register(data);
+      setSessionEndReason(null);
       setUser(response.user);
-    } catch (error: any) {
-      if (error && error.errors) {
-        setFieldErrors(error.errors);
-        setError(error.message || 'Registration failed');
-      } else {
-        setError(error instanceof Error ? error.message : 'Registration failed');
-        setFieldErrors(null);
-      }
+    } catch (error) {
+      handleFormError(error, 'Registration failed');
       throw error;
     } finally {
       setLoading(false);
     }
-  }, [setUser, setError, setLoading, clearStateError]);
+  }, [setUser, setLoading, clearStateError, handleFormError]);
 
   const logout = useCallback(async () => {
     try {
@@ -113,6 +190,45 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   }, [setUser, setLoading, clearStateError]);
 
+  // The password and verification requests leave isLoading alone, as it
+  // replaces the whole app with a spinner; the forms track their own submits
+  const forgotPassword = useCallback(async (data: ForgotPasswordData): Promise<string> => {
+    clearStateError();
+    setFieldErrors(null);
+    try {
+      return await AuthService.forgotPassword(data);
+    } catch (error) {
+      handleFormError(error, 'Failed to send the password reset link');
+      throw error;
+    }
+  }, [clearStateError, handleFormError]);
+
+  const resetPassword = useCallback(async (data: ResetPasswordData): Promise<string> => {
+    clearStateError();
+    setFieldErrors(null);
+    try {
+      return await AuthService.resetPassword(data);
+    } catch (error) {
+      handleFormError(error, 'Failed to reset the password');
+      throw error;
+    }
+  }, [clearStateError, handleFormError]);
+
+  const resendVerificationEmail = useCallback(async (): Promise<string> => {
+    clearStateError();
+    setFieldErrors(null);
+    try {
+      return await AuthService.resendVerificationEmail();
+    } catch (error) {
+      handleFormError(error, 'Failed to send the verification email');
+      throw error;
+    }
+  }, [clearStateError, handleFormError]);
+
+  const updateUser = useCallback((updated: User) => {
+    setUser(updated);
+  }, [setUser]);
+
   const clearError = useCallback(() => {
     clearStateError();
     setFieldErrors(null);
@@ -128,10 +244,18 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     isLoading,
     error,
     fieldErrors,
+    sessionEndReason,
+    twoFactorRequired,
     login,
+    completeTwoFactor,
+    cancelTwoFactor,
     register,
     logout,
     logoutAll,
+    forgotPassword,
+    resetPassword,
+    resendVerificationEmail,
+    updateUser,
     clearError,
     validateAuth
   };
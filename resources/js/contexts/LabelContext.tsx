@@ -0,0 +1,73 @@
+import React, { createContext, useContext, useCallback, useEffect, useState } from 'react';
+import { Label, LabelFormData } from '@/types';
+import LabelService from '@/services/LabelService';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface LabelContextType {
+  // The signed in user's labels, in alphabetical order
+  labels: Label[];
+  isLoading: boolean;
+  createLabel: (data: LabelFormData) => Promise<Label>;
+}
+
+const LabelContext = createContext<LabelContextType | undefined>(undefined);
+
+export const useLabels = () => {
+  const context = useContext(LabelContext);
+  if (context === undefined) {
+    throw new Error('useLabels must be used within a LabelProvider');
+  }
+  return context;
+};
+
+interface LabelProviderProps {
+  children: React.ReactNode;
+}
+
+const byName = (a: Label, b: Label) => a.name.localeCompare(b.name);
+
+export const LabelProvider: React.FC<LabelProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [labels, setLabels] = useState<Label[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Labels belong to the signed in user; reload them whenever the user changes
+  useEffect(() => {
+    setLabels([]);
+    if (!user) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    LabelService.getLabels()
+      .then(loaded => {
+        if (!cancelled) setLabels(loaded);
+      })
+      .catch(error => console.error('Failed to load labels:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  // Labels are created inline while labelling a task, which shows the errors itself
+  const createLabel = useCallback(async (data: LabelFormData): Promise<Label> => {
+    const label = await LabelService.createLabel(data);
+    setLabels(prev => [...prev, label].sort(byName));
+    return label;
+  }, []);
+
+  const value: LabelContextType = {
+    labels,
+    isLoading,
+    createLabel
+  };
+
+  return (
+    <LabelContext.Provider value={value}>
+      {children}
+    </LabelContext.Provider>
+  );
+};
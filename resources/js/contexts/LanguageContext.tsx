@@ -1,11 +1,18 @@
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useSyncExternalStore } from 'react';
 import { Language } from '@/types';
 import LocaleService from '@/services/LocaleService';
 import AuthService from '@/services/AuthService';
+import { getLocaleDirection, getLocales, LocaleDefinition, setLocales, subscribeToLocales, TextDirection } from '@/utils/locales';
 
 interface LanguageContextType {
   language: Language;
+  // Supported locales, loaded from the backend
+  locales: LocaleDefinition[];
+  // Text direction of the current language
+  direction: TextDirection;
   setLanguage: (lang: Language) => Promise<void>;
+  // Switch to a language that is already saved as the user's preference
+  applyLanguage: (lang: Language) => void;
   isUpdating: boolean;
   userPreference: Language | null;
   error: string | null;
@@ -14,12 +21,27 @@ interface LanguageContextType {
 
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
 
+/**
+ * Send the language with future requests and let other components react to the change
+ */
+const announceLanguage = (lang: Language) => {
+  if (window.updateAxiosLocaleHeaders) {
+    window.updateAxiosLocaleHeaders(lang);
+  }
+
+  window.dispatchEvent(new CustomEvent('languageChanged', { 
+    detail: { language: lang } 
+  }));
+};
+
 export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [language, setLanguageState] = useState<Language>('en');
   const [isUpdating, setIsUpdating] = useState(false);
   const [userPreference, setUserPreference] = useState<Language | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
+  const locales = useSyncExternalStore(subscribeToLocales, getLocales);
+  const direction = getLocaleDirection(language);
 
   const clearError = useCallback(() => {
     setError(null);
@@ -37,6 +59,7 @@ export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         try {
           // Get user's preferred language from backend
           const localeInfo = await LocaleService.getCurrentLocale();
+          setLocales(localeInfo.available_locales, localeInfo.rtl_locales);
           const preferredLang = localeInfo.user_preference as Language;
           
           if (preferredLang && LocaleService.isSupportedLocale(preferredLang)) {
@@ -116,16 +139,7 @@ export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ chil
         localStorage.setItem('language', lang);
       }
 
-      // Update axios headers for future requests
-      if (window.updateAxiosLocaleHeaders) {
-        window.updateAxiosLocaleHeaders(lang);
-      }
-
-      // Trigger a custom event for other components to react to language changes
-      window.dispatchEvent(new CustomEvent('languageChanged', { 
-        detail: { language: lang } 
-      }));
-
+      announceLanguage(lang);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to update language preference';
       setError(errorMessage);
@@ -135,6 +149,15 @@ export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     }
   }, [clearError]);
 
+  const applyLanguage = useCallback((lang: Language) => {
+    if (!LocaleService.isSupportedLocale(lang)) return;
+
+    setLanguageState(lang);
+    setUserPreference(lang);
+    localStorage.setItem('language', lang);
+    announceLanguage(lang);
+  }, []);
+
   /**
    * Handle authentication state changes
    */
@@ -152,6 +175,14 @@ export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     };
   }, [initializeLanguage]);
 
+  /**
+   * Lay out the document in the direction of the current language
+   */
+  useEffect(() => {
+    document.documentElement.lang = language;
+    document.documentElement.dir = direction;
+  }, [language, direction]);
+
   /**
    * Initialize language on mount
    */
@@ -163,7 +194,10 @@ export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ chil
 
   const value: LanguageContextType = {
     language,
+    locales,
+    direction,
     setLanguage,
+    applyLanguage,
     isUpdating,
     userPreference,
     error,
@@ -0,0 +1,155 @@
+import React, { createContext, useContext, useCallback, useEffect, useMemo, useState } from 'react';
+import { Project, ProjectFormData } from '@/types';
+import ProjectService from '@/services/ProjectService';
+import { useAuth } from '@/contexts/AuthContext';
+import { useNotifications } from '@/components/ui/notification';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface ProjectContextType {
+  projects: Project[];
+  // Projects that are not archived, the ones tasks can be added to
+  activeProjects: Project[];
+  // Project the task lists and dashboard are limited to; null shows every task
+  currentProject: Project | null;
+  isLoading: boolean;
+  selectProject: (id: number | null) => void;
+  createProject: (data: ProjectFormData) => Promise<Project>;
+  updateProject: (id: number, data: Partial<ProjectFormData>) => Promise<Project>;
+  setArchived: (id: number, archived: boolean) => Promise<Project>;
+  deleteProject: (id: number) => Promise<void>;
+}
+
+const ProjectContext = createContext<ProjectContextType | undefined>(undefined);
+
+export const useProjects = () => {
+  const context = useContext(ProjectContext);
+  if (context === undefined) {
+    throw new Error('useProjects must be used within a ProjectProvider');
+  }
+  return context;
+};
+
+interface ProjectProviderProps {
+  children: React.ReactNode;
+}
+
+// The selected project is remembered per user on this device
+const storageKey = (userId: number) => `currentProject.${userId}`;
+
+const byName = (a: Project, b: Project) => a.name.localeCompare(b.name);
+
+const replaceProject = (projects: Project[], project: Project): Project[] =>
+  projects.map(existing => (existing.id === project.id ? project : existing)).sort(byName);
+
+export const ProjectProvider: React.FC<ProjectProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const { addNotification } = useNotifications();
+  const { t } = useTranslation();
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [currentProjectId, setCurrentProjectId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Projects belong to the signed in user; reload them whenever the user changes
+  useEffect(() => {
+    setProjects([]);
+    setCurrentProjectId(null);
+    if (!user) return;
+
+    const stored = Number(localStorage.getItem(storageKey(user.id)));
+    if (stored) setCurrentProjectId(stored);
+
+    let cancelled = false;
+    setIsLoading(true);
+    ProjectService.getProjects()
+      .then(loaded => {
+        if (!cancelled) setProjects(loaded);
+      })
+      .catch(error => console.error('Failed to load projects:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  const selectProject = useCallback((id: number | null) => {
+    setCurrentProjectId(id);
+    if (!user) return;
+    if (id) {
+      localStorage.setItem(storageKey(user.id), id.toString());
+    } else {
+      localStorage.removeItem(storageKey(user.id));
+    }
+  }, [user?.id]);
+
+  const activeProjects = useMemo(() => projects.filter(project => !project.archived_at), [projects]);
+
+  // A remembered project that was archived or deleted no longer limits anything
+  const currentProject = activeProjects.find(project => project.id === currentProjectId) ?? null;
+
+  const notifyError = useCallback((title: string, error: unknown) => {
+    addNotification({ type: 'error', title, message: (error as Error).message });
+  }, [addNotification]);
+
+  // Creating and changing projects happens in a form, which shows the errors itself
+  const createProject = useCallback(async (data: ProjectFormData): Promise<Project> => {
+    const project = await ProjectService.createProject(data);
+    setProjects(prev => [...prev, project].sort(byName));
+    addNotification({
+      type: 'success',
+      title: t('projects.created.title'),
+      message: t('projects.created.message', { name: project.name })
+    });
+    return project;
+  }, [addNotification, t]);
+
+  const updateProject = useCallback(async (id: number, data: Partial<ProjectFormData>): Promise<Project> => {
+    const project = await ProjectService.updateProject(id, data);
+    setProjects(prev => replaceProject(prev, project));
+    return project;
+  }, []);
+
+  const setArchived = useCallback(async (id: number, archived: boolean): Promise<Project> => {
+    try {
+      const project = await ProjectService.updateProject(id, { archived });
+      setProjects(prev => replaceProject(prev, project));
+      return project;
+    } catch (error) {
+      notifyError(t('projects.saveFailed'), error);
+      throw error;
+    }
+  }, [notifyError, t]);
+
+  const deleteProject = useCallback(async (id: number): Promise<void> => {
+    const previousProjects = projects;
+    setProjects(prev => prev.filter(project => project.id !== id));
+
+    try {
+      await ProjectService.deleteProject(id);
+    } catch (error) {
+      setProjects(previousProjects);
+      notifyError(t('projects.deleteFailed'), error);
+      throw error;
+    }
+  }, [projects, notifyError, t]);
+
+  const value: ProjectContextType = {
+    projects,
+    activeProjects,
+    currentProject,
+    isLoading,
+    selectProject,
+    createProject,
+    updateProject,
+    setArchived,
+    deleteProject
+  };
+
+  return (
+    <ProjectContext.Provider value={value}>
+      {children}
+    </ProjectContext.Provider>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { createContext, useContext, useCallback, useEffect, useState } from 'react';
+import { SavedView } from '@/types';
+import SavedViewService from '@/services/SavedViewService';
+import { useAuth } from '@/contexts/AuthContext';
+import { useNotifications } from '@/components/ui/notification';
+
+interface SavedViewContextType {
+  views: SavedView[];
+  isLoading: boolean;
+  saveView: (name: string, params: Record<string, string>) => Promise<SavedView>;
+  deleteView: (id: number) => Promise<void>;
+}
+
+const SavedViewContext = createContext<SavedViewContextType | undefined>(undefined);
+
+export const useSavedViews = () => {
+  const context = useContext(SavedViewContext);
+  if (context === undefined) {
+    throw new Error('useSavedViews must be used within a SavedViewProvider');
+  }
+  return context;
+};
+
+interface SavedViewProviderProps {
+  children: React.ReactNode;
+}
+
+export const SavedViewProvider: React.FC<SavedViewProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const { addNotification } = useNotifications();
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Views belong to the signed in user; reload them whenever the user changes
+  useEffect(() => {
+    setViews([]);
+    if (!user) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    SavedViewService.getViews()
+      .then(loaded => {
+        if (!cancelled) setViews(loaded);
+      })
+      .catch(error => console.error('Failed to load saved views:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  const saveView = useCallback(async (name: string, params: Record<string, string>): Promise<SavedView> => {
+    try {
+      const view = await SavedViewService.createView(name, params);
+      setViews(prev => [...prev, view]);
+      addNotification({ type: 'success', title: 'View Saved', message: `"${view.name}" was added to the navigation.` });
+      return view;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save view';
+      addNotification({ type: 'error', title: 'Save Failed', message: errorMessage });
+      throw error;
+    }
+  }, [addNotification]);
+
+  const deleteView = useCallback(async (id: number): Promise<void> => {
+    const previousViews = views;
+    setViews(prev => prev.filter(view => view.id !== id));
+
+    try {
+      await SavedViewService.deleteView(id);
+    } catch (error) {
+      setViews(previousViews);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to delete view';
+      addNotification({ type: 'error', title: 'Delete Failed', message: errorMessage });
+      throw error;
+    }
+  }, [views, addNotification]);
+
+  const value: SavedViewContextType = {
+    views,
+    isLoading,
+    saveView,
+    deleteView
+  };
+
+  return (
+    <SavedViewContext.Provider value={value}>
+      {children}
+    </SavedViewContext.Provider>
+  );
+};
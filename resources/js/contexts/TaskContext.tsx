@@ -1,9 +1,29 @@
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
 import { Task, TaskFormData, TaskFilters, PaginatedResponse } from '@/types';
-import TaskService from '@/services/TaskService';
+import TaskService, { SubtaskBulkOperation } from '@/services/TaskService';
 import { webSocketService, TaskUpdateEvent } from '@/services/WebSocketService';
+import { offlineSyncService, SyncResult, TaskMutation } from '@/services/OfflineSyncService';
 import { useAuth } from '@/contexts/AuthContext';
+import { useProjects } from '@/contexts/ProjectContext';
 import { useNotifications } from '@/components/ui/notification';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useLocalizedText } from '@/hooks/useLocalizedText';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { flattenTasks, getOpenBlockers, getUnblockedBy, isBlockedStatusChange, isFinishedStatus } from '@/utils/taskDependencies';
+import { isUnreachableError } from '@/utils/requestErrors';
+import { applyTaskOrder, bySortOrder, restoreTaskOrder } from '@/utils/taskOrder';
+import {
+  HistoryEntry,
+  TaskHistory,
+  TaskOperation,
+  emptyHistory,
+  getHistoryShortcut,
+  getRevertData,
+  isEditableTarget,
+  recordEntry,
+  takeRedo,
+  takeUndo
+} from '@/utils/taskHistory';
 
 interface TaskState {
   tasks: Task[];
@@ -22,6 +42,8 @@ interface TaskState {
 interface TaskContextType extends TaskState {
   // Task operations
   fetchTasks: (page?: number, filters?: TaskFilters, includeTranslations?: boolean) => Promise<void>;
+  // Load tasks for a view with its own filters and page size, leaving the list's filters alone
+  fetchViewTasks: (filters: TaskFilters, perPage: number) => Promise<void>;
   fetchTask: (id: number) => Promise<void>;
   createTask: (taskData: TaskFormData) => Promise<Task>;
   updateTask: (id: number, taskData: Partial<TaskFormData>) => Promise<Task>;
@@ -32,17 +54,31 @@ interface TaskContextType extends TaskState {
   // Subtask operations
   fetchSubtasks: (parentId: number) => Promise<Task[]>;
   createSubtask: (parentId: number, taskData: Omit<TaskFormData, 'parent_id'>) => Promise<Task>;
+  reorderSubtasks: (parentId: number, subtaskIds: number[]) => Promise<void>;
+  moveSubtask: (subtaskId: number, parentId: number, position?: number) => Promise<Task>;
+  bulkSubtaskOperation: (parentId: number, subtaskIds: number[], operation: SubtaskBulkOperation) => Promise<void>;
   
   // Bulk operations
   bulkUpdateTasks: (updates: Array<{ id: number; data: Partial<TaskFormData> }>) => Promise<Task[]>;
   reorderTasks: (taskIds: number[]) => Promise<void>;
   
+  // Undo/redo history
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  canUndo: boolean;
+  canRedo: boolean;
+  
   // State management
   setFilters: (filters: TaskFilters) => void;
   clearError: () => void;
   clearCurrentTask: () => void;
+  // Keep the comment count on cards in step with an open comment thread
+  setCommentsCount: (taskId: number, count: number) => void;
 }
 
+// Page size of the task list; views like the board pass their own to fetchViewTasks
+const LIST_PAGE_SIZE = 15;
+
 const initialState: TaskState = {
   tasks: [],
   currentTask: null,
@@ -51,7 +87,7 @@ const initialState: TaskState = {
   pagination: {
     currentPage: 1,
     lastPage: 1,
-    perPage: 15,
+    perPage: LIST_PAGE_SIZE,
     total: 0
   },
   filters: {}
@@ -59,6 +95,34 @@ const initialState: TaskState = {
 
 const TaskContext = createContext<TaskContextType | undefined>(undefined);
 
+const toPagination = (response: PaginatedResponse<Task>): TaskState['pagination'] => ({
+  currentPage: response.current_page,
+  lastPage: response.last_page,
+  perPage: response.per_page,
+  total: response.total
+});
+
+// Subtasks of a parent, whether they were loaded into the flat list or via fetchSubtasks
+const getSubtasksOf = (tasks: Task[], parentId: number): Task[] => {
+  const subtasks = new Map<number, Task>();
+  tasks.find(task => task.id === parentId)?.subtasks?.forEach(subtask => subtasks.set(subtask.id, subtask));
+  tasks.filter(task => task.parent_id === parentId).forEach(subtask => subtasks.set(subtask.id, subtask));
+  return Array.from(subtasks.values()).sort(bySortOrder);
+};
+
+// Give a parent the subtasks in the given order, keeping the flat list in sync
+const setSubtasksOf = (tasks: Task[], parentId: number, subtasks: Task[]): Task[] => {
+  const ordered = subtasks.map((subtask, index) => ({ ...subtask, parent_id: parentId, sort_order: index }));
+  const byId = new Map(ordered.map(subtask => [subtask.id, subtask]));
+
+  return tasks.map(task => {
+    if (task.id === parentId) {
+      return { ...task, subtasks: ordered };
+    }
+    return byId.get(task.id) ?? task;
+  });
+};
+
 export const useTask = () => {
   const context = useContext(TaskContext);
   if (context === undefined) {
@@ -74,7 +138,123 @@ interface TaskProviderProps {
 export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
   const [state, setState] = useState<TaskState>(initialState);
   const { user } = useAuth();
+  const { currentProject } = useProjects();
+  const currentProjectId = currentProject?.id;
   const { addNotification } = useNotifications();
+  const { t } = useTranslation();
+  const { getText } = useLocalizedText();
+  const getTaskName = useCallback((name: Task['name'] | undefined): string => getText(name) || t('tasks.untitled'), [getText, t]);
+  const { formatDate } = useDateFormat();
+
+  // Undo/redo history; the ref is read by shortcuts and toast actions created on earlier renders
+  const [history, setHistoryState] = useState<TaskHistory>(emptyHistory);
+  const historyRef = useRef<TaskHistory>(emptyHistory);
+  const nextEntryId = useRef(1);
+  const isReplaying = useRef(false);
+  const operationsRef = useRef<Pick<TaskContextType,
+    'updateTask' | 'toggleTaskStatus' | 'deleteTask' | 'restoreTask' | 'bulkUpdateTasks' | 'reorderTasks' | 'reorderSubtasks'
+  > | null>(null);
+
+  const setHistory = useCallback((next: TaskHistory) => {
+    historyRef.current = next;
+    setHistoryState(next);
+  }, []);
+
+  // Changes made while undoing or redoing are not recorded again
+  const recordChange = useCallback((label: string, undo: TaskOperation[], redo: TaskOperation[]): HistoryEntry | null => {
+    if (isReplaying.current) {
+      return null;
+    }
+    const entry: HistoryEntry = { id: nextEntryId.current++, label, undo, redo };
+    setHistory(recordEntry(historyRef.current, entry));
+    return entry;
+  }, [setHistory]);
+
+  // Apply recorded operations through the latest task operations
+  const runOperations = useCallback(async (operations: TaskOperation[]) => {
+    const run = operationsRef.current!;
+    for (const operation of operations) {
+      switch (operation.type) {
+        case 'update':
+          await run.updateTask(operation.id, operation.data);
+          break;
+        case 'status':
+          await run.toggleTaskStatus(operation.id, operation.status);
+          break;
+        case 'delete':
+          await run.deleteTask(operation.id);
+          break;
+        case 'restore':
+          await run.restoreTask(operation.id);
+          break;
+        case 'bulk_update':
+          await run.bulkUpdateTasks(operation.updates);
+          break;
+        case 'reorder':
+          await run.reorderTasks(operation.ids);
+          break;
+        case 'reorder_subtasks':
+          await run.reorderSubtasks(operation.parentId, operation.ids);
+          break;
+      }
+    }
+  }, []);
+
+  // Undo the latest change, or a specific one from its toast
+  const undo = useCallback(async (entryId?: number): Promise<void> => {
+    const [entry, remaining] = takeUndo(historyRef.current, entryId);
+    if (!entry || isReplaying.current) {
+      return;
+    }
+
+    isReplaying.current = true;
+    try {
+      await runOperations(entry.undo);
+      setHistory({ ...remaining, future: [...remaining.future, entry] });
+      addNotification({ type: 'info', title: t('history.undone'), message: entry.label, duration: 3000 });
+    } catch (error) {
+      // The change can't be reverted any more (e.g. the task was removed elsewhere)
+      setHistory(remaining);
+      const errorMessage = error instanceof Error ? error.message : t('history.undoFailed.message', { label: entry.label });
+      addNotification({ type: 'error', title: t('history.undoFailed.title'), message: errorMessage });
+    } finally {
+      isReplaying.current = false;
+    }
+  }, [runOperations, setHistory, addNotification, t]);
+
+  const redo = useCallback(async (): Promise<void> => {
+    const [entry, remaining] = takeRedo(historyRef.current);
+    if (!entry || isReplaying.current) {
+      return;
+    }
+
+    isReplaying.current = true;
+    try {
+      await runOperations(entry.redo);
+      setHistory({ ...remaining, past: [...remaining.past, entry] });
+      addNotification({ type: 'info', title: t('history.redone'), message: entry.label, duration: 3000 });
+    } catch (error) {
+      setHistory(remaining);
+      const errorMessage = error instanceof Error ? error.message : t('history.redoFailed.message', { label: entry.label });
+      addNotification({ type: 'error', title: t('history.redoFailed.title'), message: errorMessage });
+    } finally {
+      isReplaying.current = false;
+    }
+  }, [runOperations, setHistory, addNotification, t]);
+
+  // Toast with an Undo button after a destructive change
+  const notifyUndoable = useCallback((entry: HistoryEntry | null, title: string, message: string) => {
+    if (!entry) {
+      return;
+    }
+    addNotification({
+      type: 'info',
+      title,
+      message,
+      duration: 8000,
+      action: { label: t('common.undo'), onClick: () => undo(entry.id) }
+    });
+  }, [addNotification, undo, t]);
 
   // Helper function to update state
   const updateState = useCallback((updates: Partial<TaskState>) => {
@@ -119,22 +299,53 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
     }));
   }, []);
 
+  // Queue a mutation for later when offline, when the request that failed never reached
+  // the server, or when it touches a task that is not synced yet
+  const queueIfOffline = useCallback(async (mutation: TaskMutation, error?: unknown): Promise<boolean> => {
+    if (!offlineSyncService.shouldQueue(mutation, error)) {
+      return false;
+    }
+    await offlineSyncService.enqueue(mutation);
+    return true;
+  }, []);
+
+  // Load a page of tasks, falling back to the last copy seen while offline or unreachable
+  const loadTasks = useCallback(async (
+    page: number,
+    filters: TaskFilters,
+    perPage: number,
+    includeTranslations = false
+  ): Promise<PaginatedResponse<Task>> => {
+    // The project picked in the header limits every task list
+    const scopedFilters = currentProjectId ? { project_id: currentProjectId, ...filters } : filters;
+    const cacheKey = JSON.stringify({ filters: scopedFilters, page, perPage });
+
+    try {
+      const response = await TaskService.getTasks(scopedFilters, page, perPage, includeTranslations);
+      offlineSyncService.cacheTaskList(cacheKey, response);
+      return response;
+    } catch (error) {
+      const cached = offlineSyncService.isOnline() && !isUnreachableError(error)
+        ? undefined
+        : await offlineSyncService.getCachedTaskList(cacheKey);
+      if (!cached) {
+        throw error;
+      }
+      return cached;
+    }
+  }, [currentProjectId]);
+
   // Fetch tasks with pagination and filtering
   const fetchTasks = useCallback(async (page = 1, filters?: TaskFilters, includeTranslations = false) => {
     try {
       updateState({ isLoading: true, error: null });
       
       const filtersToUse = filters || state.filters;
-      const response = await TaskService.getTasks(filtersToUse, page, state.pagination.perPage, includeTranslations);
+      const response = await loadTasks(page, filtersToUse, LIST_PAGE_SIZE, includeTranslations);
       
       updateState({
         tasks: response.data,
-        pagination: {
-          currentPage: response.current_page,
-          lastPage: response.last_page,
-          perPage: response.per_page,
-          total: response.total
-        },
+        pagination: toPagination(response),
         filters: filtersToUse,
         isLoading: false
       });
@@ -142,7 +353,19 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
       const errorMessage = error instanceof Error ? error.message : 'Failed to fetch tasks';
       updateState({ error: errorMessage, isLoading: false });
     }
-  }, [state.filters, state.pagination.perPage, updateState]);
+  }, [state.filters, loadTasks, updateState]);
+
+  // Fetch the first page of tasks for a view such as the board or calendar
+  const fetchViewTasks = useCallback(async (filters: TaskFilters, perPage: number) => {
+    try {
+      updateState({ isLoading: true, error: null });
+      const response = await loadTasks(1, filters, perPage);
+      updateState({ tasks: response.data, pagination: toPagination(response), isLoading: false });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to fetch tasks';
+      updateState({ error: errorMessage, isLoading: false });
+    }
+  }, [loadTasks, updateState]);
 
   // Fetch single task
   const fetchTask = useCallback(async (id: number) => {
@@ -156,45 +379,71 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
     }
   }, [updateState]);
 
+  // Subtasks belong to the owner of their parent, which may have been shared with us
+  const ownerOf = useCallback((parentId?: number): number => {
+    const parent = parentId ? flattenTasks(state.tasks).find(task => task.id === parentId) : undefined;
+    return parent?.user_id ?? user?.id ?? 0;
+  }, [state.tasks, user]);
+
   // Create task with optimistic update
   const createTask = useCallback(async (taskData: TaskFormData): Promise<Task> => {
     // Generate a unique temporary ID outside try block
     const tempId = -Date.now(); // Negative to distinguish from real IDs
+    const createMutation: TaskMutation = { type: 'create', temp_id: tempId, data: taskData };
+    
+    // Create optimistic task
+    const optimisticTask: Task = {
+      id: tempId,
+      name: taskData.name,
+      description: taskData.description,
+      status: taskData.status,
+      priority: taskData.priority,
+      due_date: taskData.due_date,
+      parent_id: taskData.parent_id,
+      user_id: ownerOf(taskData.parent_id),
+      assignee_id: taskData.assignee_id,
+      subtasks: [],
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    };
     
     try {
       updateState({ error: null });
       
-      // Create optimistic task
-      const optimisticTask: Task = {
-        id: tempId,
-        name: taskData.name,
-        description: taskData.description,
-        status: taskData.status,
-        priority: taskData.priority,
-        due_date: taskData.due_date,
-        parent_id: taskData.parent_id,
-        user_id: 0, // Will be set by server
-        subtasks: [],
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      };
-      
       // Add optimistically
       addTaskOptimistically(optimisticTask);
       
+      // Offline: keep the optimistic task and sync it on reconnect
+      if (await queueIfOffline(createMutation)) {
+        return optimisticTask;
+      }
+      
       // Make API call
       const createdTask = await TaskService.createTask(taskData);
       
-      // Replace optimistic task with real task
+      // Replace optimistic task with real task (unless the WebSocket echo already added it)
       setState(prev => ({
         ...prev,
-        tasks: prev.tasks.map(task => 
-          task.id === tempId ? createdTask : task
-        )
+        tasks: prev.tasks.some(task => task.id === createdTask.id)
+          ? prev.tasks.filter(task => task.id !== tempId)
+          : prev.tasks.map(task => 
+              task.id === tempId ? createdTask : task
+            )
       }));
+
+      recordChange(
+        t('history.create', { name: getTaskName(taskData.name) }),
+        [{ type: 'delete', id: createdTask.id }],
+        [{ type: 'restore', id: createdTask.id }]
+      );
       
       return createdTask;
     } catch (error) {
+      // The connection dropped mid-request
+      if (await queueIfOffline(createMutation, error)) {
+        return optimisticTask;
+      }
+      
       // Remove optimistic task on error using the correct temp ID
       setState(prev => ({
         ...prev,
@@ -205,24 +454,60 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
       updateState({ error: errorMessage });
       throw error;
     }
-  }, [updateState, addTaskOptimistically]);
+  }, [updateState, addTaskOptimistically, queueIfOffline, recordChange, t, getTaskName, ownerOf]);
+
+  // Local copy of a task (or subtask) with changes applied, for changes queued offline
+  const getQueuedTask = useCallback((id: number, updates: Partial<Task>): Task => {
+    const task = state.tasks.find(t => t.id === id)
+      ?? state.tasks.flatMap(t => t.subtasks || []).find(t => t.id === id);
+    return { ...task, ...updates } as Task;
+  }, [state.tasks]);
 
   // Update task with optimistic update
   const updateTask = useCallback(async (id: number, taskData: Partial<TaskFormData>): Promise<Task> => {
+    const updateMutation: TaskMutation = { type: 'update', task_id: id, data: taskData };
+
     try {
       updateState({ error: null });
+
+      // Keep what the update overwrites before applying it locally
+      const local = flattenTasks(state.tasks).find(task => task.id === id);
       
       // Apply optimistic update
       optimisticUpdate(id, taskData);
       
+      if (await queueIfOffline(updateMutation)) {
+        return getQueuedTask(id, taskData);
+      }
+
+      // List tasks only carry the name in one language, so the translations an
+      // edit overwrites are loaded before the server applies it
+      const changesText = taskData.name !== undefined || taskData.description !== undefined;
+      const previous = local && changesText && typeof local.name === 'string' && !isReplaying.current
+        ? await TaskService.getTaskForEditing(id).catch(() => local)
+        : local;
+      
       // Make API call
       const updatedTask = await TaskService.updateTask(id, taskData);
       
       // Update with real data
       optimisticUpdate(id, updatedTask);
+
+      const revert = previous ? getRevertData(previous, taskData) : {};
+      if (Object.keys(revert).length > 0) {
+        recordChange(
+          t('history.edit', { name: getTaskName(updatedTask.name) }),
+          [{ type: 'update', id, data: revert }],
+          [{ type: 'update', id, data: taskData }]
+        );
+      }
       
       return updatedTask;
     } catch (error) {
+      if (await queueIfOffline(updateMutation, error)) {
+        return getQueuedTask(id, taskData);
+      }
+      
       // Revert optimistic update by refetching
       await fetchTasks(state.pagination.currentPage, state.filters);
       
@@ -230,19 +515,34 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
       updateState({ error: errorMessage });
       throw error;
     }
-  }, [updateState, optimisticUpdate, fetchTasks, state.pagination.currentPage, state.filters]);
+  }, [updateState, optimisticUpdate, fetchTasks, queueIfOffline, getQueuedTask, recordChange, t, getTaskName, state.tasks, state.pagination.currentPage, state.filters]);
 
   // Delete task with optimistic update
   const deleteTask = useCallback(async (id: number): Promise<void> => {
+    const deleteMutation: TaskMutation = { type: 'delete', task_id: id };
+    const name = getTaskName(flattenTasks(state.tasks).find(task => task.id === id)?.name);
+
     try {
       updateState({ error: null });
       
       // Remove optimistically
       removeTaskOptimistically(id);
       
+      if (await queueIfOffline(deleteMutation)) {
+        return;
+      }
+      
       // Make API call
       await TaskService.deleteTask(id);
+
+      // Deleted tasks are soft-deleted, so undo restores them
+      const entry = recordChange(t('history.delete', { name }), [{ type: 'restore', id }], [{ type: 'delete', id }]);
+      notifyUndoable(entry, t('tasks.deleted.title'), t('tasks.deleted.message', { name }));
     } catch (error) {
+      if (await queueIfOffline(deleteMutation, error)) {
+        return;
+      }
+      
       // Revert by refetching
       await fetchTasks(state.pagination.currentPage, state.filters);
       
@@ -250,7 +550,7 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
       updateState({ error: errorMessage });
       throw error;
     }
-  }, [updateState, removeTaskOptimistically, fetchTasks, state.pagination.currentPage, state.filters]);
+  }, [updateState, removeTaskOptimistically, fetchTasks, queueIfOffline, recordChange, notifyUndoable, t, getTaskName, state.tasks, state.pagination.currentPage, state.filters]);
 
   // Restore task
   const restoreTask = useCallback(async (id: number): Promise<Task> => {
@@ -259,8 +559,12 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
       
       const restoredTask = await TaskService.restoreTask(id);
       
-      // Add restored task to the list
-      addTaskOptimistically(restoredTask);
+      // Add restored task to the list (unless the WebSocket echo already added it)
+      setState(prev => prev.tasks.some(task => task.id === restoredTask.id) ? prev : {
+        ...prev,
+        tasks: [restoredTask, ...prev.tasks],
+        pagination: { ...prev.pagination, total: prev.pagination.total + 1 }
+      });
       
       return restoredTask;
     } catch (error) {
@@ -268,24 +572,76 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
       updateState({ error: errorMessage });
       throw error;
     }
-  }, [updateState, addTaskOptimistically]);
+  }, [updateState]);
 
   // Toggle task status with optimistic update
   const toggleTaskStatus = useCallback(async (id: number, newStatus: Task['status']): Promise<Task> => {
+    const statusMutation: TaskMutation = { type: 'update', task_id: id, data: { status: newStatus } };
+
+    // Refuse starting or completing a task that still waits on unfinished blockers
+    const task = flattenTasks(state.tasks).find(t => t.id === id);
+    if (task && isBlockedStatusChange(task, newStatus, state.tasks)) {
+      const blockerNames = getOpenBlockers(task, state.tasks).map(blocker => `"${blocker.name}"`).join(', ');
+      addNotification({ type: 'warning', title: t('tasks.blocked.title'), message: t('tasks.blocked.message', { names: blockerNames }) });
+      throw new Error(t('tasks.blocked.error', { names: blockerNames }));
+    }
+    const unblockedTasks = isFinishedStatus(newStatus) ? getUnblockedBy(id, state.tasks) : [];
+
     try {
       updateState({ error: null });
       
       // Apply optimistic update
       optimisticUpdate(id, { status: newStatus });
       
+      if (await queueIfOffline(statusMutation)) {
+        return getQueuedTask(id, { status: newStatus });
+      }
+      
       // Make API call
       const updatedTask = await TaskService.toggleTaskStatus(id, newStatus);
       
       // Update with real data
-      optimisticUpdate(id, updatedTask);
+      const { next_occurrence: nextOccurrence, ...completedTask } = updatedTask;
+      optimisticUpdate(id, completedTask);
+
+      // Completing an occurrence of a recurring task creates the next one (unless the WebSocket echo already added it)
+      if (nextOccurrence) {
+        setState(prev => ({
+          ...prev,
+          tasks: prev.tasks.some(t => t.id === nextOccurrence.id) ? prev.tasks : [...prev.tasks, nextOccurrence]
+        }));
+        addNotification({
+          type: 'info',
+          title: t('tasks.nextOccurrence.title'),
+          message: nextOccurrence.due_date
+            ? t('tasks.nextOccurrence.messageWithDueDate', { dueDate: formatDate(nextOccurrence.due_date) })
+            : t('tasks.nextOccurrence.message')
+        });
+      }
+
+      if (task && task.status !== newStatus) {
+        recordChange(
+          t('history.status', { name: getTaskName(task.name), status: t(`task.status.${newStatus}`) }),
+          [
+            // Undoing a completion also removes the occurrence it created
+            ...(nextOccurrence ? [{ type: 'delete' as const, id: nextOccurrence.id }] : []),
+            { type: 'status', id, status: task.status }
+          ],
+          [{ type: 'status', id, status: newStatus }]
+        );
+      }
+
+      if (unblockedTasks.length > 0) {
+        const names = unblockedTasks.map(unblocked => `"${getTaskName(unblocked.name)}"`).join(', ');
+        addNotification({ type: 'info', title: t('tasks.unblocked.title'), message: t('tasks.unblocked.message', { names }) });
+      }
       
       return updatedTask;
     } catch (error) {
+      if (await queueIfOffline(statusMutation, error)) {
+        return getQueuedTask(id, { status: newStatus });
+      }
+      
       // Revert optimistic update
       await fetchTasks(state.pagination.currentPage, state.filters);
       
@@ -293,7 +649,7 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
       updateState({ error: errorMessage });
       throw error;
     }
-  }, [updateState, optimisticUpdate, fetchTasks, state.pagination.currentPage, state.filters]);
+  }, [updateState, optimisticUpdate, fetchTasks, queueIfOffline, getQueuedTask, addNotification, recordChange, t, getTaskName, formatDate, state.tasks, state.pagination.currentPage, state.filters]);
 
   // Fetch subtasks
   const fetchSubtasks = useCallback(async (parentId: number): Promise<Task[]> => {
@@ -323,12 +679,8 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
 
   // Create subtask
   const createSubtask = useCallback(async (parentId: number, taskData: Omit<TaskFormData, 'parent_id'>): Promise<Task> => {
-    try {
-      updateState({ error: null });
-      
-      const subtask = await TaskService.createSubtask(parentId, taskData);
-      
-      // Update parent task's subtasks
+    // Update parent task's subtasks
+    const addSubtask = (subtask: Task) => {
       setState(prev => ({
         ...prev,
         tasks: prev.tasks.map(task => 
@@ -340,19 +692,181 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
           ? { ...prev.currentTask, subtasks: [...(prev.currentTask.subtasks || []), subtask] }
           : prev.currentTask
       }));
+    };
+
+    // Offline, or the parent itself is still waiting to sync: create it locally
+    const queueSubtask = async (error?: unknown): Promise<Task | null> => {
+      const tempId = -Date.now();
+      const data: TaskFormData = { ...taskData, parent_id: parentId };
+      if (!(await queueIfOffline({ type: 'create', temp_id: tempId, data }, error))) {
+        return null;
+      }
+
+      const subtask: Task = {
+        ...data,
+        id: tempId,
+        user_id: ownerOf(parentId),
+        subtasks: [],
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      };
+      addSubtask(subtask);
+      return subtask;
+    };
+
+    try {
+      updateState({ error: null });
+      
+      const queuedSubtask = await queueSubtask();
+      if (queuedSubtask) {
+        return queuedSubtask;
+      }
+      
+      const subtask = await TaskService.createSubtask(parentId, taskData);
+      addSubtask(subtask);
       
       return subtask;
     } catch (error) {
+      const queuedSubtask = await queueSubtask(error);
+      if (queuedSubtask) {
+        return queuedSubtask;
+      }
+      
       const errorMessage = error instanceof Error ? error.message : 'Failed to create subtask';
       updateState({ error: errorMessage });
       throw error;
     }
-  }, [updateState]);
+  }, [updateState, queueIfOffline, ownerOf]);
+
+  // Reorder subtasks with rollback on failure
+  const reorderSubtasks = useCallback(async (parentId: number, subtaskIds: number[]): Promise<void> => {
+    const previousIds = getSubtasksOf(state.tasks, parentId).map(subtask => subtask.id).filter(id => subtaskIds.includes(id));
+
+    // Reorder the subtasks as they are now, so a status changed by the same drop is kept
+    const setOrder = (ids: number[]) => setState(prev => {
+      const subtasks = getSubtasksOf(prev.tasks, parentId);
+      const reordered = ids
+        .map(id => subtasks.find(subtask => subtask.id === id))
+        .filter(Boolean) as Task[];
+
+      return {
+        ...prev,
+        tasks: setSubtasksOf(prev.tasks, parentId, reordered),
+        currentTask: prev.currentTask?.id === parentId
+          ? { ...prev.currentTask, subtasks: reordered.map((subtask, index) => ({ ...subtask, sort_order: index })) }
+          : prev.currentTask
+      };
+    });
+
+    try {
+      updateState({ error: null });
+
+      setOrder(subtaskIds);
+
+      await TaskService.reorderSubtasks(parentId, subtaskIds);
+
+      recordChange(
+        t('history.reorderSubtasks'),
+        [{ type: 'reorder_subtasks', parentId, ids: previousIds }],
+        [{ type: 'reorder_subtasks', parentId, ids: subtaskIds }]
+      );
+    } catch (error) {
+      // Only the order is rolled back
+      setOrder(previousIds);
+
+      const errorMessage = error instanceof Error ? error.message : t('tasks.reorderFailed.subtasks');
+      addNotification({ type: 'error', title: t('tasks.reorderFailed.title'), message: errorMessage });
+      throw error;
+    }
+  }, [updateState, addNotification, recordChange, t, state.tasks]);
+
+  // Move a subtask to another parent with rollback on failure
+  const moveSubtask = useCallback(async (subtaskId: number, parentId: number, position?: number): Promise<Task> => {
+    const previous = { tasks: state.tasks, currentTask: state.currentTask };
+
+    try {
+      updateState({ error: null });
+
+      const subtask = state.tasks.find(task => task.id === subtaskId)
+        ?? state.tasks.flatMap(task => task.subtasks || []).find(task => task.id === subtaskId);
+      if (!subtask) {
+        throw new Error('Subtask not found');
+      }
+
+      const oldParentId = subtask.parent_id;
+      const siblings = getSubtasksOf(state.tasks, parentId).filter(task => task.id !== subtaskId);
+      siblings.splice(position ?? siblings.length, 0, subtask);
+
+      setState(prev => {
+        let tasks = setSubtasksOf(prev.tasks, parentId, siblings);
+        if (oldParentId && oldParentId !== parentId) {
+          tasks = setSubtasksOf(tasks, oldParentId, getSubtasksOf(prev.tasks, oldParentId).filter(task => task.id !== subtaskId));
+        }
+        return { ...prev, tasks };
+      });
+
+      const movedTask = await TaskService.moveSubtask(subtaskId, parentId, position);
+      optimisticUpdate(subtaskId, movedTask);
+
+      return movedTask;
+    } catch (error) {
+      updateState(previous);
+
+      const errorMessage = error instanceof Error ? error.message : t('tasks.moveFailed.message');
+      addNotification({ type: 'error', title: t('tasks.moveFailed.title'), message: errorMessage });
+      throw error;
+    }
+  }, [updateState, optimisticUpdate, addNotification, t, state.tasks, state.currentTask]);
+
+  // Update the status of, or delete, several subtasks with rollback on failure
+  const bulkSubtaskOperation = useCallback(async (
+    parentId: number,
+    subtaskIds: number[],
+    operation: SubtaskBulkOperation
+  ): Promise<void> => {
+    const previous = { tasks: state.tasks, currentTask: state.currentTask };
+
+    try {
+      updateState({ error: null });
+
+      const subtasks = getSubtasksOf(state.tasks, parentId);
+      const updated = operation.operation === 'delete'
+        ? subtasks.filter(subtask => !subtaskIds.includes(subtask.id))
+        : subtasks.map(subtask =>
+            subtaskIds.includes(subtask.id) ? { ...subtask, status: operation.status } : subtask
+          );
+
+      setState(prev => ({
+        ...prev,
+        tasks: setSubtasksOf(
+          operation.operation === 'delete'
+            ? prev.tasks.filter(task => !subtaskIds.includes(task.id))
+            : prev.tasks,
+          parentId,
+          updated
+        )
+      }));
+
+      await TaskService.bulkSubtaskOperation(parentId, subtaskIds, operation);
+    } catch (error) {
+      updateState(previous);
+
+      const errorMessage = error instanceof Error ? error.message : t('tasks.updateFailed.message');
+      addNotification({ type: 'error', title: t('tasks.updateFailed.title'), message: errorMessage });
+      throw error;
+    }
+  }, [updateState, addNotification, t, state.tasks, state.currentTask]);
 
   // Bulk update tasks
   const bulkUpdateTasks = useCallback(async (updates: Array<{ id: number; data: Partial<TaskFormData> }>): Promise<Task[]> => {
     try {
       updateState({ error: null });
+
+      const loaded = flattenTasks(state.tasks);
+      const reverts = updates.flatMap(({ id, data }) => {
+        const previous = loaded.find(task => task.id === id);
+        return previous ? [{ id, data: getRevertData(previous, data) }] : [];
+      });
       
       // Apply optimistic updates
       updates.forEach(({ id, data }) => {
@@ -370,6 +884,10 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
           return updatedTask || task;
         })
       }));
+
+      const label = t('history.bulkUpdate', { count: updates.length });
+      const entry = recordChange(label, [{ type: 'bulk_update', updates: reverts }], [{ type: 'bulk_update', updates }]);
+      notifyUndoable(entry, t('tasks.bulkUpdated.title'), t('tasks.bulkUpdated.message', { count: updates.length }));
       
       return updatedTasks;
     } catch (error) {
@@ -380,41 +898,41 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
       updateState({ error: errorMessage });
       throw error;
     }
-  }, [updateState, optimisticUpdate, fetchTasks, state.pagination.currentPage, state.filters]);
+  }, [updateState, optimisticUpdate, fetchTasks, recordChange, notifyUndoable, t, state.tasks, state.pagination.currentPage, state.filters]);
 
-  // Reorder tasks
+  // Reorder tasks with rollback on failure
   const reorderTasks = useCallback(async (taskIds: number[]): Promise<void> => {
+    const previousTasks = state.tasks;
+
     try {
       updateState({ error: null });
       
-      // Apply optimistic reordering
-      const reorderedTasks = taskIds.map(id => 
-        state.tasks.find(task => task.id === id)
-      ).filter(Boolean) as Task[];
-      
-      // Add any tasks not in the reorder list
-      const remainingTasks = state.tasks.filter(task => !taskIds.includes(task.id));
+      const previousIds = state.tasks
+        .filter(task => taskIds.includes(task.id))
+        .sort(bySortOrder)
+        .map(task => task.id);
       
+      // Apply optimistic reordering on top of changes made in the same drop, e.g. a new status
       setState(prev => ({
         ...prev,
-        tasks: [...reorderedTasks, ...remainingTasks]
+        tasks: applyTaskOrder(prev.tasks, taskIds)
       }));
       
-      // Make API call (if you have a reorder endpoint)
-      // await TaskService.reorderTasks(taskIds);
-      
-      // For now, we'll just send WebSocket updates
-      webSocketService.sendTaskUpdate(0, 'updated');
-      
+      await TaskService.reorderTasks(taskIds);
+
+      recordChange(t('history.reorderTasks'), [{ type: 'reorder', ids: previousIds }], [{ type: 'reorder', ids: taskIds }]);
     } catch (error) {
-      // Revert by refetching
-      await fetchTasks(state.pagination.currentPage, state.filters);
+      // Only the order is rolled back
+      setState(prev => ({
+        ...prev,
+        tasks: restoreTaskOrder(prev.tasks, previousTasks, taskIds)
+      }));
       
-      const errorMessage = error instanceof Error ? error.message : 'Failed to reorder tasks';
-      updateState({ error: errorMessage });
+      const errorMessage = error instanceof Error ? error.message : t('tasks.reorderFailed.tasks');
+      addNotification({ type: 'error', title: t('tasks.reorderFailed.title'), message: errorMessage });
       throw error;
     }
-  }, [updateState, state.tasks, state.pagination.currentPage, state.filters, fetchTasks]);
+  }, [updateState, addNotification, recordChange, t, state.tasks]);
 
   // Set filters
   const setFilters = useCallback((filters: TaskFilters) => {
@@ -431,39 +949,60 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
     updateState({ currentTask: null });
   }, [updateState]);
 
+  const setCommentsCount = useCallback((taskId: number, count: number) => {
+    optimisticUpdate(taskId, { comments_count: count });
+  }, [optimisticUpdate]);
+
   // Handle real-time task updates
   const handleTaskUpdate = useCallback((event: TaskUpdateEvent) => {
-    const taskName = event.task_data?.name || `Task #${event.task_id}`;
+    const taskName = event.task_data?.name ? getTaskName(event.task_data.name) : t('realtime.fallbackName', { id: event.task_id });
     
     switch (event.action) {
       case 'created':
         if (event.task_data) {
+          // Our own creates are already in the list, the server echoes them back
+          if (state.tasks.some(task => task.id === event.task_id)) {
+            break;
+          }
+          // Tasks created in another project than the one picked in the header stay out of the list
+          if (currentProjectId && event.task_data.project_id !== currentProjectId) {
+            break;
+          }
           addTaskOptimistically(event.task_data);
           addNotification({
             type: 'success',
-            title: 'Task Created',
-            message: `"${taskName}" has been created`,
+            title: t('realtime.created.title'),
+            message: t('realtime.created.message', { name: taskName }),
             duration: 3000
           });
         }
         break;
       case 'updated':
+        // Our own edits are echoed back too, and the list may already show newer local
+        // changes; only edits recorded as someone else's are applied
+        if (!event.activity || event.activity.user?.id === user?.id) {
+          break;
+        }
         if (event.task_data) {
           optimisticUpdate(event.task_id, event.task_data);
           addNotification({
             type: 'info',
-            title: 'Task Updated',
-            message: `"${taskName}" has been updated`,
+            title: t('realtime.updated.title'),
+            message: t('realtime.updated.message', { name: taskName }),
             duration: 3000
           });
         }
         break;
       case 'deleted':
+        // Our own deletes are already gone from the list and have their own toast
+        if (!flattenTasks(state.tasks).some(task => task.id === event.task_id)) {
+          break;
+        }
         removeTaskOptimistically(event.task_id);
         addNotification({
           type: 'warning',
-          title: 'Task Deleted',
-          message: `"${taskName}" has been deleted`,
+          title: t('realtime.deleted.title'),
+          message: t('realtime.deleted.message', { name: taskName }),
           duration: 3000
         });
         break;
@@ -472,36 +1011,143 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
           addTaskOptimistically(event.task_data);
           addNotification({
             type: 'success',
-            title: 'Task Restored',
-            message: `"${taskName}" has been restored`,
+            title: t('realtime.restored.title'),
+            message: t('realtime.restored.message', { name: taskName }),
             duration: 3000
           });
         }
         break;
+      case 'commented': {
+        const change = event.comment_data;
+        if (!change) {
+          break;
+        }
+        optimisticUpdate(event.task_id, { comments_count: change.comments_count });
+
+        // Only new comments from other people are worth a toast
+        if (change.change !== 'created' || change.comment.user.id === user?.id) {
+          break;
+        }
+        const task = flattenTasks(state.tasks).find(task => task.id === event.task_id);
+        const values = {
+          author: change.comment.user.name,
+          name: task ? getTaskName(task.name) : taskName
+        };
+        const mentioned = user ? change.comment.mentions.includes(user.id) : false;
+        addNotification({
+          type: 'info',
+          title: t(mentioned ? 'realtime.mentioned.title' : 'realtime.commented.title'),
+          message: t(mentioned ? 'realtime.mentioned.message' : 'realtime.commented.message', values),
+          duration: mentioned ? 6000 : 3000
+        });
+        break;
+      }
+      case 'shared': {
+        // Changes to other collaborators only matter to the sharing panel
+        const change = event.share_data;
+        if (!change || change.share.user.id !== user?.id) {
+          break;
+        }
+        fetchTasks(state.pagination.currentPage, state.filters);
+        if (change.change === 'created') {
+          addNotification({
+            type: 'info',
+            title: t('realtime.shared.title'),
+            message: t('realtime.shared.message', { role: t(`sharing.role.${change.share.role}`) }),
+            duration: 6000
+          });
+        } else if (change.change === 'deleted') {
+          removeTaskOptimistically(event.task_id);
+        }
+        break;
+      }
+    }
+  }, [state.tasks, state.pagination.currentPage, state.filters, user, currentProjectId, fetchTasks, addTaskOptimistically, optimisticUpdate, removeTaskOptimistically, addNotification, t, getTaskName]);
+
+  // Reload server state once offline changes have been replayed
+  const handleSyncComplete = useCallback((result: SyncResult) => {
+    if (result.synced > 0) {
+      addNotification({
+        type: 'success',
+        title: t('sync.synced.title'),
+        message: t('sync.synced.message', { count: result.synced }),
+        duration: 3000
+      });
     }
-  }, [addTaskOptimistically, optimisticUpdate, removeTaskOptimistically, addNotification]);
+    if (result.failed.length > 0) {
+      addNotification({
+        type: 'error',
+        title: t('sync.failed.title'),
+        message: result.failed.map(({ error }) => error).join('; ')
+      });
+    }
+
+    fetchTasks(state.pagination.currentPage, state.filters);
+  }, [addNotification, fetchTasks, t, state.pagination.currentPage, state.filters]);
+
+  useEffect(() => {
+    return offlineSyncService.onSyncComplete(handleSyncComplete);
+  }, [handleSyncComplete]);
+
+  // Scope the offline cache and queue to the signed in user
+  useEffect(() => {
+    offlineSyncService.setUser(user?.id ?? null);
+  }, [user?.id]);
 
   // Set up WebSocket connection
   useEffect(() => {
     if (user?.id) {
       webSocketService.connect(user.id);
-      const unsubscribe = webSocketService.subscribe(handleTaskUpdate);
-      
+
       return () => {
-        unsubscribe();
         webSocketService.disconnect();
       };
     }
-  }, [user?.id, handleTaskUpdate]);
+  }, [user?.id]);
+
+  // Ctrl+Z / Ctrl+Shift+Z outside of text fields
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const shortcut = getHistoryShortcut(event);
+      if (!shortcut || isEditableTarget(event.target)) {
+        return;
+      }
+      event.preventDefault();
+      if (shortcut === 'undo') {
+        undo();
+      } else {
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Listen for real-time task updates
+  useEffect(() => {
+    return webSocketService.subscribe(handleTaskUpdate);
+  }, [handleTaskUpdate]);
 
   // Load initial tasks on mount
   useEffect(() => {
     fetchTasks();
   }, []);
 
+  operationsRef.current = {
+    updateTask,
+    toggleTaskStatus,
+    deleteTask,
+    restoreTask,
+    bulkUpdateTasks,
+    reorderTasks,
+    reorderSubtasks
+  };
+
   const value: TaskContextType = {
     ...state,
     fetchTasks,
+    fetchViewTasks,
     fetchTask,
     createTask,
     updateTask,
@@ -510,11 +1156,19 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
     toggleTaskStatus,
     fetchSubtasks,
     createSubtask,
+    reorderSubtasks,
+    moveSubtask,
+    bulkSubtaskOperation,
     bulkUpdateTasks,
     reorderTasks,
+    undo: () => undo(),
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
     setFilters,
     clearError,
-    clearCurrentTask
+    clearCurrentTask,
+    setCommentsCount
   };
 
   return (
@@ -1,6 +1,5 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
-
-type Theme = 'light' | 'dark' | 'system';
+import { Theme } from '@/types';
 
 interface ThemeContextType {
   theme: Theme;
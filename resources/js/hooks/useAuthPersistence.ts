@@ -17,10 +17,9 @@ export const useAuthPersistence = () => {
     // Set up periodic auth validation (every 5 minutes)
     const interval = setInterval(async () => {
       try {
-        const isValid = await validateAuth();
-        if (!isValid) {
-          console.log('Auth validation failed, user will be logged out');
-        }
+        // An ended session signs the user out; AuthContext records why and
+        // the login page shows it
+        await validateAuth();
       } catch (error) {
         console.error('Auth validation error:', error);
       }
@@ -0,0 +1,56 @@
+import { useMemo } from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { resolveTimeZone } from '@/utils/timezone';
+import {
+  DateFormatOptions,
+  DueDateInfo,
+  compareDates,
+  formatDate,
+  formatDateTime,
+  formatRelativeTime,
+  getDueDateInfo
+} from '@/utils/dateFormat';
+
+/**
+ * Date formatting in the current language and the user's timezone
+ */
+export const useDateFormat = () => {
+  const { language } = useLanguage();
+  const { user } = useAuth();
+  const { t } = useTranslation();
+  const timeZone = resolveTimeZone(user?.timezone);
+
+  return useMemo(() => {
+    const options: DateFormatOptions = { locale: language, timeZone };
+
+    // E.g. "Due tomorrow" or "3 days overdue"
+    const formatDueDate = (dueDate: string, now?: Date): DueDateInfo & { text: string } => {
+      const info = getDueDateInfo(dueDate, timeZone, now);
+      let text: string;
+      if (info.days < 0) {
+        text = t('dates.due.overdue', { days: -info.days });
+      } else if (info.days === 0) {
+        text = info.overdue
+          ? t('dates.due.overdueToday', { time: formatDate(dueDate, options, { timeStyle: 'short' }) })
+          : t('dates.due.today');
+      } else if (info.days === 1) {
+        text = t('dates.due.tomorrow');
+      } else {
+        text = t('dates.due.inDays', { days: info.days });
+      }
+      return { ...info, text };
+    };
+
+    return {
+      timeZone,
+      formatDate: (value: string, format?: Intl.DateTimeFormatOptions) => formatDate(value, options, format),
+      formatDateTime: (value: string) => formatDateTime(value, options),
+      formatRelativeTime: (value: string, now?: Date) => formatRelativeTime(value, options, now),
+      getDueDateInfo: (dueDate: string, now?: Date) => getDueDateInfo(dueDate, timeZone, now),
+      formatDueDate,
+      compareDates: (a: string, b: string) => compareDates(a, b, timeZone)
+    };
+  }, [language, timeZone, t]);
+};
@@ -0,0 +1,25 @@
+import { useCallback, useMemo } from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { LocalizedValue, getFallbackChain, resolveLocalizedText } from '@/utils/localizedText';
+
+/**
+ * Resolve translatable texts in the current language, falling back along the
+ * user's chain: the language, the preferred language, the user's fallback locales, English.
+ */
+export const useLocalizedText = () => {
+  const { language } = useLanguage();
+  const { user } = useAuth();
+  const preferredLanguage = user?.preferred_language;
+  const fallbackLocales = user?.fallback_locales;
+
+  const fallbackChain = useMemo(
+    () => getFallbackChain(language, [...(preferredLanguage ? [preferredLanguage] : []), ...(fallbackLocales ?? [])]),
+    [language, preferredLanguage, fallbackLocales]
+  );
+
+  const resolve = useCallback((value: LocalizedValue) => resolveLocalizedText(value, fallbackChain), [fallbackChain]);
+  const getText = useCallback((value: LocalizedValue) => resolve(value).text, [resolve]);
+
+  return { resolve, getText, fallbackChain, language };
+};
@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from 'react';
+import { offlineSyncService, SyncStatus } from '@/services/OfflineSyncService';
+
+/**
+ * Hook exposing connectivity and the number of offline changes waiting to sync
+ */
+export const usePendingSync = (): SyncStatus => {
+  return useSyncExternalStore(
+    (onStoreChange) => offlineSyncService.onStatusChange(onStoreChange),
+    () => offlineSyncService.getStatus()
+  );
+};
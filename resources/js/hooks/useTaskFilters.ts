@@ -1,6 +1,6 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useTask } from '@/contexts/TaskContext';
-import { TaskFilters, Task } from '@/types';
+import { TaskFilters, Task, LabelMatch } from '@/types';
 
 interface UseTaskFiltersReturn {
   // Current filter state
@@ -11,6 +11,7 @@ interface UseTaskFiltersReturn {
   setPriorityFilter: (priority: Task['priority'] | undefined) => void;
   setSearchFilter: (search: string | undefined) => void;
   setParentFilter: (parentId: number | undefined) => void;
+  setLabelFilter: (labelIds: number[], match?: LabelMatch) => void;
   
   // Utility functions
   clearAllFilters: () => void;
@@ -58,6 +59,15 @@ export const useTaskFilters = (): UseTaskFiltersReturn => {
     setLocalFilters(prev => ({ ...prev, parent_id: parentId }));
   }, []);
 
+  // Tasks need any of the labels by default, or all of them
+  const setLabelFilter = useCallback((labelIds: number[], match?: LabelMatch) => {
+    setLocalFilters(prev => ({
+      ...prev,
+      label_ids: labelIds.length > 0 ? labelIds : undefined,
+      label_match: match ?? prev.label_match
+    }));
+  }, []);
+
   const clearAllFilters = useCallback(() => {
     const clearedFilters = {};
     setLocalFilters(clearedFilters);
@@ -70,8 +80,10 @@ export const useTaskFilters = (): UseTaskFiltersReturn => {
     fetchTasks(1, localFilters);
   }, [localFilters, setFilters, fetchTasks]);
 
+  // How labels are matched is not a filter by itself
   const hasActiveFilters = Object.keys(localFilters).some(key => {
     const value = localFilters[key as keyof TaskFilters];
+    if (key === 'label_match' || Array.isArray(value)) return Array.isArray(value) && value.length > 0;
     return value !== undefined && value !== '' && value !== null;
   });
 
@@ -103,6 +115,7 @@ export const useTaskFilters = (): UseTaskFiltersReturn => {
     setPriorityFilter,
     setSearchFilter,
     setParentFilter,
+    setLabelFilter,
     clearAllFilters,
     applyFilters,
     hasActiveFilters,
@@ -0,0 +1,42 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  DEFAULT_TASK_LIST_VIEW,
+  TaskListViewState,
+  parseTaskListView,
+  serializeTaskListView
+} from '@/utils/taskListView';
+
+const FILTER_KEYS: Array<keyof TaskListViewState> = ['search', 'status', 'priority', 'assignedToMe', 'labels', 'labelMatch', 'showCompleted'];
+
+interface UseTaskListViewReturn {
+  view: TaskListViewState;
+  updateView: (updates: Partial<TaskListViewState>) => void;
+}
+
+/**
+ * Task list filters, sorting, view mode and page, stored in the URL so reloads and shared links keep them
+ */
+export const useTaskListView = (defaultViewMode: TaskListViewState['viewMode'] = 'list'): UseTaskListViewReturn => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const defaults = useMemo(
+    () => ({ ...DEFAULT_TASK_LIST_VIEW, viewMode: defaultViewMode }),
+    [defaultViewMode]
+  );
+
+  const view = useMemo(() => parseTaskListView(searchParams, defaults), [searchParams, defaults]);
+
+  const updateView = useCallback((updates: Partial<TaskListViewState>) => {
+    setSearchParams(previous => {
+      const next = { ...parseTaskListView(previous, defaults), ...updates };
+      // Changing what is listed starts over at the first page
+      if (FILTER_KEYS.some(key => key in updates)) {
+        next.page = 1;
+      }
+      return new URLSearchParams(serializeTaskListView(next, defaults));
+    }, { replace: true });
+  }, [setSearchParams, defaults]);
+
+  return { view, updateView };
+};
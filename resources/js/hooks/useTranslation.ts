@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { MessageKey, getLoadedCatalog, loadCatalog, translate } from '@/i18n';
+import { MessageValues } from '@/utils/messageFormat';
+
+/**
+ * Translate UI messages into the current language.
+ * Renders English until the language's catalog has loaded, then re-renders.
+ */
+export const useTranslation = () => {
+  const { language } = useLanguage();
+  const [catalog, setCatalog] = useState(() => getLoadedCatalog(language));
+
+  useEffect(() => {
+    const loaded = getLoadedCatalog(language);
+    setCatalog(loaded);
+    if (loaded) return;
+
+    let cancelled = false;
+    loadCatalog(language)
+      .then(loadedCatalog => {
+        if (!cancelled) setCatalog(loadedCatalog);
+      })
+      .catch(error => console.error(`Failed to load the ${language} messages:`, error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [language]);
+
+  const t = useCallback(
+    (key: MessageKey, values?: MessageValues) => translate(key, values, language),
+    // The catalog is a dependency so messages are re-translated once it has loaded
+    [language, catalog]
+  );
+
+  return { t, language, isLoading: !catalog };
+};
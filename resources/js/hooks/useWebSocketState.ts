@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from 'react';
+import { webSocketService, ConnectionState } from '@/services/WebSocketService';
+
+/**
+ * Hook exposing the real-time connection state of the shared WebSocketService
+ */
+export const useWebSocketState = (): ConnectionState => {
+  return useSyncExternalStore(
+    (onStoreChange) => webSocketService.onStateChange(onStoreChange),
+    () => webSocketService.getState()
+  );
+};
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { getMessageArguments } from '@/utils/messageFormat';
+import en from '../locales/en.json';
+import fr from '../locales/fr.json';
+import de from '../locales/de.json';
+
+const translations = { fr, de } as Record<string, Record<string, string>>;
+
+describe('message catalogs', () => {
+  it.each(Object.keys(translations))('%s should have exactly the English keys', language => {
+    expect(Object.keys(translations[language]).sort()).toEqual(Object.keys(en).sort());
+  });
+
+  it.each(Object.keys(translations))('%s messages should use the same arguments as English', language => {
+    Object.entries(en).forEach(([key, message]) => {
+      expect({ key, arguments: getMessageArguments(translations[language][key]) })
+        .toEqual({ key, arguments: getMessageArguments(message) });
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { Language } from '@/types';
+import { MessageValues, formatMessage } from '@/utils/messageFormat';
+import en from './locales/en.json';
+
+/**
+ * UI message catalogs, one JSON file per language with ICU messages keyed by id.
+ * English is the source catalog: it is bundled and used for any message a
+ * catalog lacks, while the other languages are loaded the first time they are used.
+ * Supported languages without a catalog yet are shown in English.
+ */
+
+export type MessageKey = keyof typeof en;
+export type MessageCatalog = Record<MessageKey, string>;
+
+// A message built outside components, translated where it is shown
+export interface MessageDescriptor {
+  key: MessageKey;
+  values?: MessageValues;
+}
+
+export type Translate = (key: MessageKey, values?: MessageValues) => string;
+
+export const SOURCE_LANGUAGE: Language = 'en';
+
+// Typed as complete catalogs, so a missing key fails the type check
+const loaders: Partial<Record<Language, () => Promise<{ default: MessageCatalog }>>> = {
+  fr: () => import('./locales/fr.json'),
+  de: () => import('./locales/de.json')
+};
+
+const catalogs = new Map<Language, MessageCatalog>([[SOURCE_LANGUAGE, en]]);
+const pendingCatalogs = new Map<Language, Promise<MessageCatalog>>();
+
+export const getLoadedCatalog = (language: Language): MessageCatalog | undefined => catalogs.get(language);
+
+export const loadCatalog = (language: Language): Promise<MessageCatalog> => {
+  const loaded = catalogs.get(language);
+  if (loaded) return Promise.resolve(loaded);
+
+  const loader = loaders[language];
+  if (!loader) return Promise.resolve(en);
+
+  let pending = pendingCatalogs.get(language);
+  if (!pending) {
+    pending = loader()
+      .then(module => {
+        catalogs.set(language, module.default);
+        return module.default;
+      })
+      .finally(() => pendingCatalogs.delete(language));
+    pendingCatalogs.set(language, pending);
+  }
+  return pending;
+};
+
+/**
+ * Format a message in a language, in English until that language's catalog is loaded
+ */
+export const translate = (key: MessageKey, values: MessageValues = {}, language: Language = SOURCE_LANGUAGE): string => {
+  const catalog = catalogs.get(language) ?? en;
+  const locale = catalogs.has(language) ? language : SOURCE_LANGUAGE;
+  const message = catalog[key] ?? en[key] ?? key;
+
+  try {
+    return formatMessage(message, values, locale);
+  } catch (error) {
+    console.error(`Invalid message "${key}" in ${locale}:`, error);
+    return message;
+  }
+};
@@ -0,0 +1,203 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Task, TaskFormData } from '@/types';
+import { useTask } from '@/contexts/TaskContext';
+import { useAuth } from '@/contexts/AuthContext';
+import TaskCalendar, { AGENDA_DAYS, CalendarView, getVisibleRange } from '@/components/tasks/TaskCalendar';
+import { Button } from '@/components/ui/button';
+import Modal from '@/components/ui/Modal';
+import TaskForm from '@/components/tasks/TaskForm';
+import { useTaskOperations } from '@/hooks/useTaskOperations';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { useTranslation } from '@/hooks/useTranslation';
+import { cn } from '@/lib/utils';
+import { ChevronLeft, ChevronRight, Globe } from 'lucide-react';
+import {
+  DateKey,
+  addDays,
+  addMonths,
+  rescheduleDueDate,
+  resolveTimeZone,
+  todayKey,
+} from '@/utils/timezone';
+
+// Load every task due in the visible range rather than a single list page
+const CALENDAR_PAGE_SIZE = 100;
+
+const VIEWS: CalendarView[] = ['month', 'week', 'agenda'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const CalendarPage: React.FC = () => {
+  const { tasks, isLoading, error, pagination, fetchViewTasks, updateTask, clearError } = useTask();
+  const { updateTaskWithLoading } = useTaskOperations();
+  const { user } = useAuth();
+  const timeZone = resolveTimeZone(user?.timezone);
+  const { formatDate } = useDateFormat();
+  const { t } = useTranslation();
+  const { language } = useLanguage();
+  const today = todayKey(timeZone);
+
+  const [searchParams, setSearchParams] = useSearchParams();
+  const viewParam = searchParams.get('view') as CalendarView | null;
+  const view: CalendarView = viewParam && VIEWS.includes(viewParam) ? viewParam : 'month';
+  const dateParam = searchParams.get('date');
+  const date: DateKey = dateParam && DATE_PATTERN.test(dateParam) ? dateParam : today;
+
+  const [modalTask, setModalTask] = useState<Task | null>(null);
+
+  // Due dates are filtered by UTC date on the server, so the range is padded by
+  // a day on each side to keep tasks near midnight in the user's timezone
+  const fetchVisibleTasks = useCallback(() => {
+    const { start, end } = getVisibleRange(view, date);
+    return fetchViewTasks(
+      { due_date_from: addDays(start, -1), due_date_to: addDays(end, 1) },
+      CALENDAR_PAGE_SIZE
+    );
+  }, [fetchViewTasks, view, date]);
+
+  useEffect(() => {
+    fetchVisibleTasks();
+  }, [fetchVisibleTasks]);
+
+  const navigate = (updates: { view?: CalendarView; date?: DateKey }) => {
+    const next = new URLSearchParams(searchParams);
+    const nextView = updates.view ?? view;
+    const nextDate = updates.date ?? date;
+
+    if (nextView === 'month') next.delete('view'); else next.set('view', nextView);
+    if (nextDate === today) next.delete('date'); else next.set('date', nextDate);
+    setSearchParams(next, { replace: true });
+  };
+
+  const step = (direction: 1 | -1) => {
+    switch (view) {
+      case 'month':
+        return navigate({ date: addMonths(date, direction) });
+      case 'week':
+        return navigate({ date: addDays(date, 7 * direction) });
+      case 'agenda':
+        return navigate({ date: addDays(date, AGENDA_DAYS * direction) });
+    }
+  };
+
+  const getTitle = () => {
+    const { start, end } = getVisibleRange(view, date);
+    if (view === 'month') {
+      return formatDate(date, { month: 'long', year: 'numeric' });
+    }
+    return `${formatDate(start, { month: 'short', day: 'numeric' })} – ${formatDate(end, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  };
+
+  const handleReschedule = async (task: Task, target: DateKey) => {
+    try {
+      await updateTask(task.id, { due_date: rescheduleDueDate(task.due_date, target, timeZone) });
+    } catch (error) {
+      console.error('Failed to reschedule task:', error);
+    }
+  };
+
+  const handleUpdateTask = async (taskData: Partial<TaskFormData>) => {
+    if (!modalTask) return;
+    await updateTaskWithLoading(modalTask.id, taskData);
+    setModalTask(null);
+  };
+
+  if (error) {
+    return (
+      <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+        <p className="font-semibold">{t('tasks.loadError')}</p>
+        <p>{error}</p>
+        <div className="mt-2 space-x-2">
+          <Button onClick={clearError} variant="outline" size="sm">
+            {t('common.dismiss')}
+          </Button>
+          <Button onClick={fetchVisibleTasks} variant="outline" size="sm">
+            {t('common.retry')}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-foreground">{t('calendar.title')}</h1>
+          <p className="text-muted-foreground mt-1 text-sm flex items-center gap-1">
+            <Globe className="h-3.5 w-3.5" />
+            {t('calendar.timeZone', { timeZone })}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex rounded-md border p-0.5">
+            {VIEWS.map(value => (
+              <Button
+                key={value}
+                variant="ghost"
+                size="sm"
+                className={cn('h-7', view === value && 'bg-accent text-accent-foreground')}
+                onClick={() => navigate({ view: value })}
+              >
+                {t(`calendar.view.${value}`)}
+              </Button>
+            ))}
+          </div>
+          <Button variant="outline" size="sm" onClick={() => step(-1)} aria-label={t('common.previous')}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => navigate({ date: today })}>
+            {t('calendar.today')}
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => step(1)} aria-label={t('common.next')}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">{getTitle()}</h2>
+        {pagination.total > tasks.length && (
+          <p className="text-sm text-muted-foreground">
+            {t('tasks.showing', { shown: tasks.length, total: pagination.total })}
+          </p>
+        )}
+      </div>
+
+      {isLoading && tasks.length === 0 ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <TaskCalendar
+          tasks={tasks}
+          view={view}
+          date={date}
+          timeZone={timeZone}
+          onReschedule={handleReschedule}
+          onOpenTask={setModalTask}
+        />
+      )}
+
+      <Modal
+        open={modalTask !== null}
+        onOpenChange={open => !open && setModalTask(null)}
+        title={t('taskDetail.editTitle')}
+      >
+        {modalTask && (
+          <TaskForm
+            key={`${modalTask.id}-${language}`}
+            task={modalTask}
+            onSubmit={handleUpdateTask}
+            onCancel={() => setModalTask(null)}
+            loading={isLoading}
+          />
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default CalendarPage;
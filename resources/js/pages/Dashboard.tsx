@@ -3,27 +3,47 @@ import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useTask } from '@/contexts/TaskContext';
+import { useProjects } from '@/contexts/ProjectContext';
 import { useTaskOperations } from '@/hooks/useTaskOperations';
 import Modal from '@/components/ui/Modal';
 import TaskForm from '@/components/tasks/TaskForm';
-import { Task } from '@/types';
-import { useLanguage } from '@/contexts/LanguageContext';
+import TaskDetailTabs from '@/components/tasks/TaskDetailTabs';
+import { Task, TaskStatistics } from '@/types';
+import TaskService from '@/services/TaskService';
+import { useLocalizedText } from '@/hooks/useLocalizedText';
+import { useDateFormat } from '@/hooks/useDateFormat';
+import { useTranslation } from '@/hooks/useTranslation';
 
 const Dashboard: React.FC = () => {
   const { tasks, isLoading } = useTask();
+  const { currentProject } = useProjects();
+  const currentProjectId = currentProject?.id;
   const { updateTaskWithLoading } = useTaskOperations();
   const [modalTask, setModalTask] = React.useState<Task | null>(null);
   const [modalMode, setModalMode] = React.useState<'view' | 'edit' | null>(null);
   const [modalOpen, setModalOpen] = React.useState(false);
+  const [statistics, setStatistics] = React.useState<TaskStatistics | null>(null);
 
-  const { language } = useLanguage();
-  const getTranslation = (field: any, lang?: string) => {
-    const l = lang || language;
-    if (typeof field === 'object' && field !== null && field[l]) {
-      return field[l];
-    }
-    return typeof field === 'string' ? field : '';
-  };
+  const { getText } = useLocalizedText();
+  const { compareDates, formatDate, formatDateTime, formatRelativeTime } = useDateFormat();
+  const { t } = useTranslation();
+
+  // Counts come from the server, which includes subtasks; reload them when the tasks or the project change
+  React.useEffect(() => {
+    let cancelled = false;
+    TaskService.getStatistics(currentProjectId)
+      .then(loaded => {
+        if (!cancelled) setStatistics(loaded);
+      })
+      .catch(error => {
+        console.error('Failed to load task statistics:', error);
+        if (!cancelled) setStatistics(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentProjectId, tasks]);
 
   const handleOpenTask = (task: Task) => {
     setModalTask(task);
@@ -51,69 +71,77 @@ const Dashboard: React.FC = () => {
 
   // Calculate stats - filter out any incomplete tasks first
   const validTasks = tasks.filter(t => t && t.status);
-  const totalTasks = validTasks.length;
-  const inProgressTasks = validTasks.filter(t => t.status === 'in_progress').length;
-  const completedTasks = validTasks.filter(t => t.status === 'completed').length;
+  // Until the server statistics arrive, count the loaded tasks
+  const totalTasks = statistics?.total ?? validTasks.length;
+  const inProgressTasks = statistics?.in_progress ?? validTasks.filter(t => t.status === 'in_progress').length;
+  const completedTasks = statistics?.completed ?? validTasks.filter(t => t.status === 'completed').length;
 
   // Sort by updated_at or created_at for recent tasks - filter out incomplete tasks
   const recentTasks = [...validTasks]
-    .sort((a, b) => new Date(b.updated_at || b.created_at).getTime() - new Date(a.updated_at || a.created_at).getTime())
+    .sort((a, b) => compareDates(b.updated_at || b.created_at, a.updated_at || a.created_at))
     .slice(0, 5);
 
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
-        <h1 className="text-3xl font-bold tracking-tight text-foreground">Dashboard</h1>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight text-foreground">{t('dashboard.title')}</h1>
+          {currentProject && (
+            <p className="mt-1 flex items-center gap-2 text-muted-foreground">
+              <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: currentProject.color }} />
+              {currentProject.name}
+            </p>
+          )}
+        </div>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Tasks</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('dashboard.total.title')}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{isLoading ? '...' : totalTasks}</div>
-            <p className="text-xs text-muted-foreground">All tasks</p>
+            <p className="text-xs text-muted-foreground">{currentProject ? t('dashboard.total.project', { key: currentProject.key }) : t('dashboard.total.all')}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">In Progress</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('dashboard.inProgress.title')}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{isLoading ? '...' : inProgressTasks}</div>
-            <p className="text-xs text-muted-foreground">Active tasks</p>
+            <p className="text-xs text-muted-foreground">{t('dashboard.inProgress.description')}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Completed</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('dashboard.completed.title')}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{isLoading ? '...' : completedTasks}</div>
-            <p className="text-xs text-muted-foreground">Finished tasks</p>
+            <p className="text-xs text-muted-foreground">{t('dashboard.completed.description')}</p>
           </CardContent>
         </Card>
       </div>
 
       <Card>
         <CardHeader>
-          <CardTitle>Recent Tasks</CardTitle>
-          <CardDescription>Your latest task activity</CardDescription>
+          <CardTitle>{t('dashboard.recent.title')}</CardTitle>
+          <CardDescription>{t('dashboard.recent.description')}</CardDescription>
         </CardHeader>
         <CardContent>
           {isLoading ? (
-            <div className="text-center py-8 text-muted-foreground">Loading...</div>
+            <div className="text-center py-8 text-muted-foreground">{t('common.loading')}</div>
           ) : recentTasks.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
               <p>
-                No tasks yet.{' '}
+                {t('dashboard.recent.empty')}{' '}
                 <Link to="/tasks/new" className="text-primary hover:underline">
-                  Create your first task
-                </Link>{' '}
-                to get started!
+                  {t('dashboard.recent.createFirst')}
+                </Link>
               </p>
             </div>
           ) : (
@@ -124,11 +152,13 @@ const Dashboard: React.FC = () => {
                 >
                   <div>
                     <span className="font-medium text-primary hover:underline">
-                      {getTranslation(task.name)}
+                      {getText(task.name)}
                     </span>
-                    <span className="ml-2 text-xs text-muted-foreground">{task.status.replace('_', ' ')}</span>
+                    <span className="ml-2 text-xs text-muted-foreground">{t(`task.status.${task.status}`)}</span>
                   </div>
-                  <span className="text-xs text-gray-500">{new Date(task.updated_at || task.created_at).toLocaleString()}</span>
+                  <span className="text-xs text-gray-500" title={formatDateTime(task.updated_at || task.created_at)}>
+                    {formatRelativeTime(task.updated_at || task.created_at)}
+                  </span>
                 </li>
               ))}
             </ul>
@@ -138,24 +168,25 @@ const Dashboard: React.FC = () => {
       <Modal
         open={modalOpen}
         onOpenChange={setModalOpen}
-        title={modalMode === 'edit' ? 'Edit Task' : 'Task Details'}
-        description={modalMode === 'view' ? 'View details of your task' : undefined}
+        title={modalMode === 'edit' ? t('taskDetail.editTitle') : t('taskDetail.title')}
+        description={modalMode === 'view' ? t('taskDetail.description') : undefined}
         footer={modalTask && modalMode === 'view' && (
           <>
-            <Button variant="outline" size="sm" onClick={handleEditTask}>Edit</Button>
-            <Button variant="ghost" size="sm" onClick={handleModalClose}>Close</Button>
+            <Button variant="outline" size="sm" onClick={handleEditTask}>{t('common.edit')}</Button>
+            <Button variant="ghost" size="sm" onClick={handleModalClose}>{t('common.close')}</Button>
           </>
         )}
       >
         {modalTask && modalMode === 'view' && (
           <div>
-            <h2 className="text-xl font-bold mb-2">{getTranslation(modalTask.name)}</h2>
-            <p className="mb-2 text-muted-foreground">{getTranslation(modalTask.description)}</p>
+            <h2 className="text-xl font-bold mb-2">{getText(modalTask.name)}</h2>
+            <p className="mb-2 text-muted-foreground">{getText(modalTask.description)}</p>
             <div className="mb-2 flex flex-wrap gap-2 text-sm">
-              <span>Status: <b>{modalTask.status}</b></span>
-              <span>Priority: <b>{modalTask.priority}</b></span>
-              {modalTask.due_date && <span>Due: <b>{modalTask.due_date}</b></span>}
+              <span>{t('taskDetail.status')} <b>{t(`task.status.${modalTask.status}`)}</b></span>
+              <span>{t('taskDetail.priority')} <b>{t(`task.priority.${modalTask.priority}`)}</b></span>
+              {modalTask.due_date && <span>{t('taskDetail.due')} <b>{formatDate(modalTask.due_date)}</b></span>}
             </div>
+            <TaskDetailTabs taskId={modalTask.id} parentId={modalTask.parent_id} />
           </div>
         )}
         {modalTask && modalMode === 'edit' && (
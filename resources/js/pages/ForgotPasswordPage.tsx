@@ -0,0 +1,39 @@
+import React from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ForgotPasswordForm } from '@/components';
+import { useTranslation } from '@/hooks/useTranslation';
+
+const ForgotPasswordPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const { t } = useTranslation();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-bold tracking-tight text-gray-900 dark:text-white">
+            {t('auth.forgotPassword.title')}
+          </h2>
+          <p className="mt-2 text-center text-sm text-muted-foreground">
+            {t('auth.forgotPassword.description')}
+          </p>
+        </div>
+
+        <div className="bg-card py-8 px-6 shadow-lg rounded-lg border">
+          <ForgotPasswordForm defaultEmail={searchParams.get('email') ?? ''} />
+        </div>
+
+        <p className="text-center text-sm text-muted-foreground">
+          <Link
+            to="/login"
+            className="font-medium text-primary hover:text-primary/80"
+          >
+            {t('auth.backToLogin')}
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPasswordPage;
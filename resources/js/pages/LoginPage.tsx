@@ -1,10 +1,15 @@
 import React from 'react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
-import { LoginForm } from '@/components';
+import { LogOut } from 'lucide-react';
+import { LoginForm, TwoFactorChallengeForm } from '@/components';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/hooks/useTranslation';
 
 const LoginPage: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
+  const { sessionEndReason, twoFactorRequired } = useAuth();
+  const { t } = useTranslation();
 
   const from = location.state?.from?.pathname || '/';
 
@@ -17,21 +22,38 @@ const LoginPage: React.FC = () => {
       <div className="max-w-md w-full space-y-8">
         <div>
           <h2 className="mt-6 text-center text-3xl font-bold tracking-tight text-gray-900 dark:text-white">
-            Sign in to your account
+            {twoFactorRequired ? t('auth.twoFactor.title') : t('auth.login.title')}
           </h2>
-          <p className="mt-2 text-center text-sm text-muted-foreground">
-            Or{' '}
-            <Link
-              to="/register"
-              className="font-medium text-primary hover:text-primary/80"
-            >
-              create a new account
-            </Link>
-          </p>
+          {!twoFactorRequired && (
+            <p className="mt-2 text-center text-sm text-muted-foreground">
+              {t('auth.or')}{' '}
+              <Link
+                to="/register"
+                className="font-medium text-primary hover:text-primary/80"
+              >
+                {t('auth.login.registerLink')}
+              </Link>
+            </p>
+          )}
         </div>
 
+        {sessionEndReason && (
+          <div
+            role="alert"
+            className="flex items-start gap-3 bg-yellow-50 border border-yellow-200 text-yellow-900 px-4 py-3 rounded-md dark:bg-yellow-900/30 dark:border-yellow-800 dark:text-yellow-200"
+          >
+            <LogOut className="h-4 w-4 mt-0.5 shrink-0" aria-hidden="true" />
+            <div>
+              <p className="font-medium">{t(`session.${sessionEndReason}.title`)}</p>
+              <p className="text-sm">{t(`session.${sessionEndReason}.message`)}</p>
+            </div>
+          </div>
+        )}
+
         <div className="bg-card py-8 px-6 shadow-lg rounded-lg border">
-          <LoginForm onSuccess={handleLoginSuccess} />
+          {twoFactorRequired
+            ? <TwoFactorChallengeForm onSuccess={handleLoginSuccess} />
+            : <LoginForm onSuccess={handleLoginSuccess} />}
         </div>
       </div>
     </div>
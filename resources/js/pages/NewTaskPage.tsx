@@ -8,12 +8,14 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ArrowLeft, Plus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useNotifications } from '@/components/ui/notification';
+import { useTranslation } from '@/hooks/useTranslation';
 
 const NewTaskPage: React.FC = () => {
   const { tasks, fetchTasks, error, clearError } = useTask();
   const { isCreating, createTaskWithLoading } = useTaskOperations();
   const navigate = useNavigate();
   const { addNotification } = useNotifications();
+  const { t } = useTranslation();
 
   // Load tasks for parent selection
   useEffect(() => {
@@ -36,8 +38,8 @@ const NewTaskPage: React.FC = () => {
       if (newTask) {
         addNotification({
           type: 'success',
-          title: 'Task Created',
-          message: 'Task created successfully!'
+          title: t('newTask.created.title'),
+          message: t('newTask.created.message')
         });
         navigate('/tasks');
       }
@@ -45,8 +47,8 @@ const NewTaskPage: React.FC = () => {
       console.error('Failed to create task:', error);
       addNotification({
         type: 'error',
-        title: 'Task Creation Failed',
-        message: 'Failed to create task. Please try again.'
+        title: t('newTask.failed.title'),
+        message: t('newTask.failed.message')
       });
     }
   };
@@ -60,14 +62,14 @@ const NewTaskPage: React.FC = () => {
     return (
       <div className="space-y-6">
         <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
-          <p className="font-semibold">Error loading data:</p>
+          <p className="font-semibold">{t('newTask.loadError')}</p>
           <p>{error}</p>
           <div className="mt-2 space-x-2">
             <Button onClick={clearError} variant="outline" size="sm">
-              Dismiss
+              {t('common.dismiss')}
             </Button>
             <Button onClick={() => fetchTasks()} variant="outline" size="sm">
-              Retry
+              {t('common.retry')}
             </Button>
           </div>
         </div>
@@ -84,15 +86,15 @@ const NewTaskPage: React.FC = () => {
           className="flex items-center gap-2"
         >
           <ArrowLeft className="h-4 w-4" />
-          Back to Tasks
+          {t('newTask.back')}
         </Button>
         <div>
           <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
             <Plus className="h-8 w-8 text-blue-600" />
-            Create New Task
+            {t('newTask.title')}
           </h1>
           <p className="text-gray-600 mt-1">
-            Fill in the details below to create a new task. You can also make it a subtask of an existing task.
+            {t('newTask.description')}
           </p>
         </div>
       </div>
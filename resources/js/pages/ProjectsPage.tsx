@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { Archive, ArchiveRestore, Pencil, Trash2 } from 'lucide-react';
+import { Project } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Spinner } from '@/components/ui/spinner';
+import ProjectForm from '@/components/projects/ProjectForm';
+import { useProjects } from '@/contexts/ProjectContext';
+import { useTranslation } from '@/hooks/useTranslation';
+
+const ProjectsPage: React.FC = () => {
+  const { projects, activeProjects, currentProject, isLoading, selectProject, setArchived, deleteProject } = useProjects();
+  const { t } = useTranslation();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const archivedProjects = projects.filter(project => project.archived_at);
+
+  // Failures are reported by the project context
+  const runAction = async (project: Project, action: () => Promise<unknown>) => {
+    setBusyId(project.id);
+    try {
+      await action();
+    } catch {
+      // Already shown as a notification
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = (project: Project) => {
+    if (!confirm(t('projects.confirmDelete', { name: project.name }))) return;
+    if (currentProject?.id === project.id) selectProject(null);
+    runAction(project, () => deleteProject(project.id));
+  };
+
+  const renderProject = (project: Project) => {
+    const isArchived = Boolean(project.archived_at);
+
+    if (editingId === project.id) {
+      return (
+        <li key={project.id} className="rounded-md border p-4">
+          <ProjectForm
+            project={project}
+            onSaved={() => setEditingId(null)}
+            onCancel={() => setEditingId(null)}
+          />
+        </li>
+      );
+    }
+
+    return (
+      <li key={project.id} className="flex items-start justify-between gap-4 rounded-md border p-4">
+        <div className="flex min-w-0 items-start gap-3">
+          <span className="mt-1.5 h-3 w-3 shrink-0 rounded-full" style={{ backgroundColor: project.color }} />
+          <div className="min-w-0">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className={`font-medium ${isArchived ? 'text-muted-foreground' : 'text-foreground'}`}>
+                {project.name}
+              </span>
+              <span className="font-mono text-xs text-muted-foreground">{project.key}</span>
+            </div>
+            {project.description && (
+              <p className="mt-1 text-sm text-muted-foreground">{project.description}</p>
+            )}
+            <p className="mt-1 text-xs text-muted-foreground">
+              {t('projects.taskCount', { count: project.tasks_count ?? 0 })}
+            </p>
+          </div>
+        </div>
+        <div className="flex shrink-0 items-center gap-1">
+          {!isArchived && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setEditingId(project.id)}
+              title={t('projects.edit')}
+            >
+              <Pencil className="h-4 w-4" />
+              <span className="sr-only">{t('projects.edit')}</span>
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={busyId === project.id}
+            onClick={() => runAction(project, () => setArchived(project.id, !isArchived))}
+            title={isArchived ? t('projects.restore') : t('projects.archive')}
+          >
+            {isArchived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+            <span className="sr-only">{isArchived ? t('projects.restore') : t('projects.archive')}</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={busyId === project.id}
+            onClick={() => handleDelete(project)}
+            title={t('projects.delete')}
+            className="text-destructive hover:text-destructive"
+          >
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">{t('projects.delete')}</span>
+          </Button>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold text-foreground">{t('projects.title')}</h1>
+        <p className="text-sm sm:text-base text-muted-foreground mt-1">{t('projects.description')}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('projects.new')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ProjectForm />
+        </CardContent>
+      </Card>
+
+      {isLoading && projects.length === 0 ? (
+        <div className="flex justify-center py-12">
+          <Spinner size="lg" />
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('projects.active')}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {activeProjects.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t('projects.empty')}</p>
+              ) : (
+                <ul className="space-y-3">{activeProjects.map(renderProject)}</ul>
+              )}
+            </CardContent>
+          </Card>
+
+          {archivedProjects.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>{t('projects.archived')}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="mb-3 text-sm text-muted-foreground">{t('projects.archivedHint')}</p>
+                <ul className="space-y-3">{archivedProjects.map(renderProject)}</ul>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProjectsPage;
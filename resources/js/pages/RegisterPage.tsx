@@ -1,9 +1,11 @@
 import React from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { RegisterForm } from '@/components';
+import { useTranslation } from '@/hooks/useTranslation';
 
 const RegisterPage: React.FC = () => {
   const navigate = useNavigate();
+  const { t } = useTranslation();
 
   const handleRegisterSuccess = () => {
     navigate('/');
@@ -14,15 +16,15 @@ const RegisterPage: React.FC = () => {
       <div className="max-w-md w-full space-y-8">
         <div>
           <h2 className="mt-6 text-center text-3xl font-bold tracking-tight text-gray-900 dark:text-white">
-            Create your account
+            {t('auth.register.title')}
           </h2>
           <p className="mt-2 text-center text-sm text-muted-foreground">
-            Or{' '}
+            {t('auth.or')}{' '}
             <Link
               to="/login"
               className="font-medium text-primary hover:text-primary/80"
             >
-              sign in to your existing account
+              {t('auth.register.signInLink')}
             </Link>
           </p>
         </div>
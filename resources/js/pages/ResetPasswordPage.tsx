@@ -0,0 +1,54 @@
+import React from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ResetPasswordForm } from '@/components';
+import { useNotifications } from '@/components/ui/notification';
+import { useTranslation } from '@/hooks/useTranslation';
+
+const ResetPasswordPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { token = '' } = useParams<{ token: string }>();
+  const [searchParams] = useSearchParams();
+  const { addNotification } = useNotifications();
+  const { t } = useTranslation();
+
+  const handleResetSuccess = (message: string) => {
+    addNotification({
+      type: 'success',
+      title: t('auth.resetPassword.success'),
+      message,
+      duration: 5000
+    });
+    navigate('/login', { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-bold tracking-tight text-gray-900 dark:text-white">
+            {t('auth.resetPassword.title')}
+          </h2>
+          <p className="mt-2 text-center text-sm text-muted-foreground">
+            {t('auth.resetPassword.expired')}{' '}
+            <Link
+              to="/forgot-password"
+              className="font-medium text-primary hover:text-primary/80"
+            >
+              {t('auth.resetPassword.requestNew')}
+            </Link>
+          </p>
+        </div>
+
+        <div className="bg-card py-8 px-6 shadow-lg rounded-lg border">
+          <ResetPasswordForm
+            token={token}
+            email={searchParams.get('email') ?? ''}
+            onSuccess={handleResetSuccess}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPasswordPage;
@@ -0,0 +1,142 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActiveSession, ApiToken, SessionsResponse } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/spinner';
+import { useNotifications } from '@/components/ui/notification';
+import { useTranslation } from '@/hooks/useTranslation';
+import SessionService from '@/services/SessionService';
+import SettingsNav from '@/components/settings/SettingsNav';
+import ActiveSessions from '@/components/settings/ActiveSessions';
+import ApiTokens from '@/components/settings/ApiTokens';
+import TwoFactorSettings from '@/components/settings/TwoFactorSettings';
+
+const SecurityPage: React.FC = () => {
+  const { addNotification } = useNotifications();
+  const { t } = useTranslation();
+  const [data, setData] = useState<SessionsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingSession, setRevokingSession] = useState<string | null>(null);
+  const [revokingToken, setRevokingToken] = useState<number | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    setError(null);
+    try {
+      setData(await SessionService.getSessions());
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const notifyFailure = (error: unknown) => {
+    addNotification({
+      type: 'error',
+      title: t('security.failed.title'),
+      message: (error as Error).message
+    });
+  };
+
+  const handleRevokeSession = async (session: ActiveSession) => {
+    setRevokingSession(session.id);
+    try {
+      await SessionService.revokeSession(session.id);
+      setData(previous => previous && {
+        ...previous,
+        sessions: previous.sessions.filter(candidate => candidate.id !== session.id)
+      });
+      addNotification({
+        type: 'success',
+        title: t('security.sessions.revoked.title'),
+        message: t('security.sessions.revoked.message')
+      });
+    } catch (error) {
+      notifyFailure(error);
+    } finally {
+      setRevokingSession(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setRevokingSession('others');
+    try {
+      const count = await SessionService.revokeOtherSessions();
+      setData(previous => previous && {
+        ...previous,
+        sessions: previous.sessions.filter(session => session.is_current)
+      });
+      addNotification({
+        type: 'success',
+        title: t('security.sessions.revoked.title'),
+        message: t('security.sessions.revokedOthers', { count })
+      });
+    } catch (error) {
+      notifyFailure(error);
+    } finally {
+      setRevokingSession(null);
+    }
+  };
+
+  const handleRevokeToken = async (token: ApiToken) => {
+    setRevokingToken(token.id);
+    try {
+      await SessionService.revokeToken(token.id);
+      setData(previous => previous && {
+        ...previous,
+        tokens: previous.tokens.filter(candidate => candidate.id !== token.id)
+      });
+      addNotification({
+        type: 'success',
+        title: t('security.tokens.revoked.title'),
+        message: t('security.tokens.revoked.message', { name: token.name })
+      });
+    } catch (error) {
+      notifyFailure(error);
+    } finally {
+      setRevokingToken(null);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold text-foreground">{t('settings.title')}</h1>
+        <p className="text-sm sm:text-base text-muted-foreground mt-1">{t('security.description')}</p>
+      </div>
+
+      <SettingsNav />
+
+      <TwoFactorSettings />
+
+      {error ? (
+        <div className="flex items-center justify-between gap-4 rounded-md border border-destructive/20 bg-destructive/15 px-4 py-3 text-destructive dark:bg-red-900/30 dark:border-red-800 dark:text-red-300">
+          <span>{error}</span>
+          <Button variant="outline" size="sm" onClick={loadSessions}>{t('common.retry')}</Button>
+        </div>
+      ) : !data ? (
+        <div className="flex justify-center py-12">
+          <Spinner size="lg" />
+        </div>
+      ) : (
+        <>
+          <ActiveSessions
+            sessions={data.sessions}
+            supported={data.sessions_supported}
+            revoking={revokingSession}
+            onRevoke={handleRevokeSession}
+            onRevokeOthers={handleRevokeOthers}
+          />
+          <ApiTokens
+            tokens={data.tokens}
+            revoking={revokingToken}
+            onRevoke={handleRevokeToken}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SecurityPage;
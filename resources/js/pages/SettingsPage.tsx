@@ -0,0 +1,29 @@
+import React from 'react';
+import { useTranslation } from '@/hooks/useTranslation';
+import SettingsNav from '@/components/settings/SettingsNav';
+import ProfileSettings from '@/components/settings/ProfileSettings';
+import PasswordSettings from '@/components/settings/PasswordSettings';
+import RegionSettings from '@/components/settings/RegionSettings';
+import DisplaySettings from '@/components/settings/DisplaySettings';
+
+const SettingsPage: React.FC = () => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold text-foreground">{t('settings.title')}</h1>
+        <p className="text-sm sm:text-base text-muted-foreground mt-1">{t('settings.description')}</p>
+      </div>
+
+      <SettingsNav />
+
+      <ProfileSettings />
+      <PasswordSettings />
+      <RegionSettings />
+      <DisplaySettings />
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -0,0 +1,211 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Task, TaskFormData } from '@/types';
+import { useTask } from '@/contexts/TaskContext';
+import TaskBoard, { BoardSwimlane } from '@/components/tasks/TaskBoard';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import Modal from '@/components/ui/Modal';
+import TaskForm from '@/components/tasks/TaskForm';
+import { useTaskOperations } from '@/hooks/useTaskOperations';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { List, Plus } from 'lucide-react';
+
+// The board shows every task at once rather than a single list page
+const BOARD_PAGE_SIZE = 100;
+
+const SWIMLANES: BoardSwimlane[] = ['none', 'priority', 'parent'];
+
+const TaskBoardPage: React.FC = () => {
+  const {
+    tasks,
+    isLoading,
+    error,
+    pagination,
+    fetchViewTasks,
+    updateTask,
+    toggleTaskStatus,
+    reorderTasks,
+    reorderSubtasks,
+    moveSubtask,
+    clearError
+  } = useTask();
+  const { updateTaskWithLoading } = useTaskOperations();
+  const { language } = useLanguage();
+  const { t } = useTranslation();
+
+  const [searchParams, setSearchParams] = useSearchParams();
+  const swimlaneParam = searchParams.get('swimlanes') as BoardSwimlane | null;
+  const swimlane: BoardSwimlane = swimlaneParam && SWIMLANES.includes(swimlaneParam) ? swimlaneParam : 'none';
+
+  const [modalTask, setModalTask] = useState<Task | null>(null);
+
+  useEffect(() => {
+    fetchViewTasks({}, BOARD_PAGE_SIZE);
+  }, [fetchViewTasks]);
+
+  // Subtasks may only be present nested under their parent
+  const boardTasks = useMemo(() => {
+    const byId = new Map<number, Task>();
+    tasks.forEach(task => {
+      byId.set(task.id, task);
+      task.subtasks?.forEach(subtask => {
+        if (!byId.has(subtask.id)) byId.set(subtask.id, subtask);
+      });
+    });
+    return Array.from(byId.values());
+  }, [tasks]);
+
+  const handleSwimlaneChange = (value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value === 'none') {
+      next.delete('swimlanes');
+    } else {
+      next.set('swimlanes', value);
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  const handleStatusChange = async (taskId: number, status: Task['status']) => {
+    try {
+      await toggleTaskStatus(taskId, status);
+    } catch (error) {
+      console.error('Failed to update task status:', error);
+    }
+  };
+
+  const handlePriorityChange = async (taskId: number, priority: Task['priority']) => {
+    try {
+      await updateTask(taskId, { priority });
+    } catch (error) {
+      console.error('Failed to update task priority:', error);
+    }
+  };
+
+  const handleMoveSubtask = async (subtaskId: number, parentId: number) => {
+    try {
+      await moveSubtask(subtaskId, parentId);
+    } catch (error) {
+      console.error('Failed to move subtask:', error);
+    }
+  };
+
+  const handleReorder = async (parentId: number | null, orderedIds: number[]) => {
+    try {
+      if (parentId === null) {
+        await reorderTasks(orderedIds);
+      } else {
+        await reorderSubtasks(parentId, orderedIds);
+      }
+    } catch (error) {
+      console.error('Failed to reorder tasks:', error);
+    }
+  };
+
+  const handleUpdateTask = async (taskData: Partial<TaskFormData>) => {
+    if (!modalTask) return;
+    await updateTaskWithLoading(modalTask.id, taskData);
+    setModalTask(null);
+  };
+
+  if (error) {
+    return (
+      <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+        <p className="font-semibold">{t('tasks.loadError')}</p>
+        <p>{error}</p>
+        <div className="mt-2 space-x-2">
+          <Button onClick={clearError} variant="outline" size="sm">
+            {t('common.dismiss')}
+          </Button>
+          <Button onClick={() => fetchViewTasks({}, BOARD_PAGE_SIZE)} variant="outline" size="sm">
+            {t('common.retry')}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-foreground">{t('board.title')}</h1>
+          <p className="text-muted-foreground mt-1 text-sm sm:text-base">
+            {t('board.description')}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={swimlane} onValueChange={handleSwimlaneChange}>
+            <SelectTrigger className="w-44">
+              <SelectValue placeholder={t('board.swimlanes.placeholder')} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">{t('board.swimlanes.none')}</SelectItem>
+              <SelectItem value="priority">{t('board.swimlanes.priority')}</SelectItem>
+              <SelectItem value="parent">{t('board.swimlanes.parent')}</SelectItem>
+            </SelectContent>
+          </Select>
+          <Link to="/tasks">
+            <Button variant="outline" className="flex items-center gap-2">
+              <List className="h-4 w-4" />
+              {t('board.list')}
+            </Button>
+          </Link>
+          <Link to="/tasks/new">
+            <Button className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              {t('tasksPage.newTask')}
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      {pagination.total > tasks.length && (
+        <p className="text-sm text-muted-foreground">
+          {t('tasks.showing', { shown: tasks.length, total: pagination.total })}
+        </p>
+      )}
+
+      {isLoading && tasks.length === 0 ? (
+        <Card>
+          <CardContent className="flex items-center justify-center py-8">
+            <div className="text-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+              <p className="text-gray-600">{t('tasks.loading')}</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <TaskBoard
+          tasks={boardTasks}
+          swimlane={swimlane}
+          onStatusChange={handleStatusChange}
+          onPriorityChange={handlePriorityChange}
+          onMoveSubtask={handleMoveSubtask}
+          onReorder={handleReorder}
+          onOpenTask={setModalTask}
+        />
+      )}
+
+      <Modal
+        open={modalTask !== null}
+        onOpenChange={open => !open && setModalTask(null)}
+        title={t('taskDetail.editTitle')}
+      >
+        {modalTask && (
+          <TaskForm
+            key={`${modalTask.id}-${language}`}
+            task={modalTask}
+            onSubmit={handleUpdateTask}
+            onCancel={() => setModalTask(null)}
+            loading={isLoading}
+          />
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default TaskBoardPage;
@@ -1,16 +1,25 @@
 import React, { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
-import { Task } from '@/types';
+import { Link, useSearchParams } from 'react-router-dom';
+import { MentionableUser, Task } from '@/types';
 import { useTask } from '@/contexts/TaskContext';
 import { useTaskOperations } from '@/hooks/useTaskOperations';
+import { SubtaskBulkOperation } from '@/services/TaskService';
+import ShareService from '@/services/ShareService';
 import DraggableTaskList from '@/components/tasks/DraggableTaskList';
 import SubtaskManager from '@/components/tasks/SubtaskManager';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Plus, ArrowLeft } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Plus, ArrowLeft, Bookmark, Trash2, ChevronLeft, ChevronRight } from 'lucide-react';
 import Modal from '@/components/ui/Modal';
 import TaskForm from '@/components/tasks/TaskForm';
-import { useLanguage } from '@/contexts/LanguageContext';
+import TaskDetailTabs from '@/components/tasks/TaskDetailTabs';
+import { useLocalizedText } from '@/hooks/useLocalizedText';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useSavedViews } from '@/contexts/SavedViewContext';
+import { useTaskListView } from '@/hooks/useTaskListView';
+import { useAuth } from '@/contexts/AuthContext';
+import { isSameTaskListView, serializeTaskListView } from '@/utils/taskListView';
 
 
 const TasksPage: React.FC = () => {
@@ -18,10 +27,14 @@ const TasksPage: React.FC = () => {
     tasks, 
     isLoading, 
     error, 
+    pagination,
     fetchTasks, 
     fetchSubtasks,
     createSubtask,
     reorderTasks,
+    reorderSubtasks,
+    moveSubtask,
+    bulkSubtaskOperation,
     clearError 
   } = useTask();
   
@@ -30,16 +43,45 @@ const TasksPage: React.FC = () => {
     deleteTaskWithLoading,
     toggleTaskStatusWithLoading
   } = useTaskOperations();
+  const { t } = useTranslation();
   
   const [selectedTaskForSubtasks, setSelectedTaskForSubtasks] = useState<Task | null>(null);
   const [modalTask, setModalTask] = useState<Task | null>(null);
   const [modalMode, setModalMode] = useState<'view' | 'edit' | null>(null);
   const [modalOpen, setModalOpen] = useState(false);
+  const [saveViewOpen, setSaveViewOpen] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const [assignees, setAssignees] = useState<MentionableUser[]>([]);
 
-  // Load tasks on component mount
+  const [searchParams] = useSearchParams();
+  const { user } = useAuth();
+  const { view, updateView } = useTaskListView(user?.default_task_view);
+  const { views: savedViews, saveView, deleteView } = useSavedViews();
+  const activeSavedView = savedViews.find(saved =>
+    isSameTaskListView(searchParams, new URLSearchParams(saved.params))
+  );
+
+  // Load the page in the URL on mount and whenever it changes
+  useEffect(() => {
+    fetchTasks(view.page);
+  }, [fetchTasks, view.page]);
+
+  // Subtasks can be assigned to the owner of the parent task and its collaborators
+  const subtaskParentId = selectedTaskForSubtasks?.id;
   useEffect(() => {
-    fetchTasks();
-  }, [fetchTasks]);
+    setAssignees([]);
+    if (!subtaskParentId) return;
+
+    let cancelled = false;
+    ShareService.getSharing(subtaskParentId)
+      .then(({ owner, shares }) => {
+        if (!cancelled) {
+          setAssignees([owner, ...shares.map(share => share.user)].map(({ id, name }) => ({ id, name })));
+        }
+      })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [subtaskParentId]);
 
   const handleEdit = (task: Task) => {
     console.log('Edit task:', task);
@@ -47,7 +89,7 @@ const TasksPage: React.FC = () => {
   };
 
   const handleDelete = async (taskId: number) => {
-    if (confirm('Are you sure you want to delete this task?')) {
+    if (confirm(t('tasksPage.confirmDelete'))) {
       await deleteTaskWithLoading(taskId);
     }
   };
@@ -86,8 +128,16 @@ const TasksPage: React.FC = () => {
     }
   };
 
+  const handleAssignSubtask = async (subtaskId: number, assigneeId: number | null) => {
+    try {
+      await updateTaskWithLoading(subtaskId, { assignee_id: assigneeId });
+    } catch (error) {
+      console.error('Failed to assign subtask:', error);
+    }
+  };
+
   const handleDeleteSubtask = async (subtaskId: number) => {
-    if (confirm('Are you sure you want to delete this subtask?')) {
+    if (confirm(t('tasksPage.confirmDeleteSubtask'))) {
       try {
         await deleteTaskWithLoading(subtaskId);
       } catch (error) {
@@ -118,6 +168,32 @@ const TasksPage: React.FC = () => {
     }
   };
 
+  const handleReorderSubtasks = async (parentId: number, subtaskIds: number[]) => {
+    try {
+      await reorderSubtasks(parentId, subtaskIds);
+    } catch (error) {
+      console.error('Failed to reorder subtasks:', error);
+    }
+  };
+
+  const handleMoveSubtask = async (subtaskId: number, parentId: number, position?: number) => {
+    try {
+      await moveSubtask(subtaskId, parentId, position);
+    } catch (error) {
+      console.error('Failed to move subtask:', error);
+    }
+  };
+
+  const handleBulkSubtaskOperation = async (subtaskIds: number[], operation: SubtaskBulkOperation) => {
+    if (!selectedTaskForSubtasks) return;
+
+    try {
+      await bulkSubtaskOperation(selectedTaskForSubtasks.id, subtaskIds, operation);
+    } catch (error) {
+      console.error('Failed to update subtasks:', error);
+    }
+  };
+
   const handleOpenTask = (task: Task) => {
     setModalTask(task);
     setModalMode('view');
@@ -144,29 +220,45 @@ const TasksPage: React.FC = () => {
     handleModalClose();
   };
 
-  type Translations = { [key: string]: string | undefined };
-  const { language } = useLanguage();
-  const getTranslation = (field: string | Translations | undefined, lang?: string) => {
-    const l = lang || language;
-    if (typeof field === 'object' && field !== null && field[l]) {
-      return field[l];
+  const handleSaveView = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!viewName.trim()) return;
+
+    try {
+      // The page is not part of a saved view
+      await saveView(viewName.trim(), serializeTaskListView({ ...view, page: 1 }));
+      setSaveViewOpen(false);
+      setViewName('');
+    } catch (error) {
+      console.error('Failed to save view:', error);
     }
-    return typeof field === 'string' ? field : '';
   };
 
+  const handleDeleteView = async () => {
+    if (activeSavedView && confirm(t('tasksPage.savedView.confirmRemove', { name: activeSavedView.name }))) {
+      try {
+        await deleteView(activeSavedView.id);
+      } catch (error) {
+        console.error('Failed to delete view:', error);
+      }
+    }
+  };
+
+  const { getText } = useLocalizedText();
+
   // Error handling
   if (error) {
     return (
       <div className="space-y-6">
         <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
-          <p className="font-semibold">Error loading tasks:</p>
+          <p className="font-semibold">{t('tasks.loadError')}</p>
           <p>{error}</p>
           <div className="mt-2 space-x-2">
             <Button onClick={clearError} variant="outline" size="sm">
-              Dismiss
+              {t('common.dismiss')}
             </Button>
-            <Button onClick={() => fetchTasks()} variant="outline" size="sm">
-              Retry
+            <Button onClick={() => fetchTasks(view.page)} variant="outline" size="sm">
+              {t('common.retry')}
             </Button>
           </div>
         </div>
@@ -190,18 +282,22 @@ const TasksPage: React.FC = () => {
             className="flex items-center gap-2"
           >
             <ArrowLeft className="h-4 w-4" />
-            Back to Tasks
+            {t('tasksPage.back')}
           </Button>
-          <h1 className="text-2xl font-bold text-gray-900">Subtask Management</h1>
+          <h1 className="text-2xl font-bold text-gray-900">{t('tasksPage.subtasks')}</h1>
         </div>
 
         <SubtaskManager
           parentTask={currentTask}
-          subtasks={currentTask.subtasks || []}
+          subtasks={[...(currentTask.subtasks || [])].sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0))}
           onAddSubtask={handleAddSubtask}
           onUpdateSubtask={handleUpdateSubtask}
           onDeleteSubtask={handleDeleteSubtask}
           onToggleSubtaskStatus={handleToggleSubtaskStatus}
+          onReorderSubtasks={subtaskIds => handleReorderSubtasks(currentTask.id, subtaskIds)}
+          onBulkOperation={handleBulkSubtaskOperation}
+          assignees={assignees}
+          onAssignSubtask={handleAssignSubtask}
           loading={isLoading}
           allowNesting={false}
         />
@@ -213,17 +309,30 @@ const TasksPage: React.FC = () => {
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
         <div>
-          <h1 className="text-2xl sm:text-3xl font-bold text-foreground">Task Management</h1>
+          <h1 className="text-2xl sm:text-3xl font-bold text-foreground">{t('tasksPage.title')}</h1>
           <p className="text-muted-foreground mt-1 text-sm sm:text-base">
-            Organize and track your tasks with hierarchical subtask support
+            {t('tasksPage.description')}
           </p>
         </div>
-        <Link to="/tasks/new">
-          <Button className="flex items-center gap-2 w-full sm:w-auto">
-            <Plus className="h-4 w-4" />
-            <span className="sm:inline">New Task</span>
-          </Button>
-        </Link>
+        <div className="flex flex-col sm:flex-row gap-2">
+          {activeSavedView ? (
+            <Button variant="outline" onClick={handleDeleteView} className="flex items-center gap-2">
+              <Trash2 className="h-4 w-4" />
+              {t('tasksPage.savedView.remove', { name: activeSavedView.name })}
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={() => setSaveViewOpen(true)} className="flex items-center gap-2">
+              <Bookmark className="h-4 w-4" />
+              {t('tasksPage.savedView.save')}
+            </Button>
+          )}
+          <Link to="/tasks/new">
+            <Button className="flex items-center gap-2 w-full sm:w-auto">
+              <Plus className="h-4 w-4" />
+              <span className="sm:inline">{t('tasksPage.newTask')}</span>
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {/* Loading State */}
@@ -232,7 +341,7 @@ const TasksPage: React.FC = () => {
           <CardContent className="flex items-center justify-center py-8">
             <div className="text-center">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
-              <p className="text-gray-600">Loading tasks...</p>
+              <p className="text-gray-600">{t('tasks.loading')}</p>
             </div>
           </CardContent>
         </Card>
@@ -248,6 +357,8 @@ const TasksPage: React.FC = () => {
             onToggleStatus={handleToggleStatus}
             onViewSubtasks={handleViewSubtasks}
             onReorder={handleReorderTasks}
+            onReorderSubtasks={handleReorderSubtasks}
+            onMoveSubtask={handleMoveSubtask}
             loading={isLoading}
             showFilters={true}
             showSearch={true}
@@ -257,27 +368,75 @@ const TasksPage: React.FC = () => {
           />
         </CardContent>
       </Card>
+
+      {pagination.lastPage > 1 && (
+        <div className="flex items-center justify-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={pagination.currentPage <= 1}
+            onClick={() => updateView({ page: pagination.currentPage - 1 })}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            {t('common.previous')}
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            {t('common.pageOf', { page: pagination.currentPage, pages: pagination.lastPage })}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={pagination.currentPage >= pagination.lastPage}
+            onClick={() => updateView({ page: pagination.currentPage + 1 })}
+          >
+            {t('common.next')}
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      <Modal
+        open={saveViewOpen}
+        onOpenChange={setSaveViewOpen}
+        title={t('tasksPage.savedView.save')}
+        description={t('tasksPage.savedView.description')}
+      >
+        <form onSubmit={handleSaveView} className="space-y-4">
+          <Input
+            autoFocus
+            placeholder={t('tasksPage.savedView.placeholder')}
+            maxLength={100}
+            value={viewName}
+            onChange={(e) => setViewName(e.target.value)}
+          />
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" onClick={() => setSaveViewOpen(false)}>{t('common.cancel')}</Button>
+            <Button type="submit" disabled={!viewName.trim()}>{t('common.save')}</Button>
+          </div>
+        </form>
+      </Modal>
       <Modal
         open={modalOpen}
         onOpenChange={setModalOpen}
-        title={modalMode === 'edit' ? 'Edit Task' : 'Task Details'}
-        description={modalMode === 'view' ? 'View details of your task' : undefined}
+        title={modalMode === 'edit' ? t('taskDetail.editTitle') : t('taskDetail.title')}
+        description={modalMode === 'view' ? t('taskDetail.description') : undefined}
         footer={modalTask && modalMode === 'view' && (
           <>
-            <Button variant="outline" size="sm" onClick={() => setModalMode('edit')}>Edit</Button>
-            <Button variant="ghost" size="sm" onClick={handleModalClose}>Close</Button>
+            <Button variant="outline" size="sm" onClick={() => setModalMode('edit')}>{t('common.edit')}</Button>
+            <Button variant="ghost" size="sm" onClick={handleModalClose}>{t('common.close')}</Button>
           </>
         )}
       >
         {modalTask && modalMode === 'view' && (
           <div>
-            <h2 className="text-xl font-bold mb-2">{getTranslation(modalTask.name)}</h2>
-            <p className="mb-2 text-muted-foreground">{getTranslation(modalTask.description)}</p>
+            <h2 className="text-xl font-bold mb-2">{getText(modalTask.name)}</h2>
+            <p className="mb-2 text-muted-foreground">{getText(modalTask.description)}</p>
             <div className="mb-2 flex flex-wrap gap-2 text-sm">
-              <span>Status: <b>{modalTask.status}</b></span>
-              <span>Priority: <b>{modalTask.priority}</b></span>
-              {modalTask.due_date && <span>Due: <b>{modalTask.due_date}</b></span>}
+              <span>{t('taskDetail.status')} <b>{t(`task.status.${modalTask.status}`)}</b></span>
+              <span>{t('taskDetail.priority')} <b>{t(`task.priority.${modalTask.priority}`)}</b></span>
+              {modalTask.due_date && <span>{t('taskDetail.due')} <b>{modalTask.due_date}</b></span>}
             </div>
+            <TaskDetailTabs taskId={modalTask.id} parentId={modalTask.parent_id} />
           </div>
         )}
         {modalTask && modalMode === 'edit' && (
@@ -0,0 +1,342 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Language, MissingTranslation, TaskTranslations, TranslationReport } from '@/types';
+import TaskService from '@/services/TaskService';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useNotifications } from '@/components/ui/notification';
+import { useTranslation } from '@/hooks/useTranslation';
+import { getLocaleDirection, getLocaleName } from '@/utils/locales';
+
+interface Draft {
+  name: string;
+  description: string;
+}
+
+const TranslationsPage: React.FC = () => {
+  const { addNotification } = useNotifications();
+  const { t } = useTranslation();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const [report, setReport] = useState<TranslationReport | null>(null);
+  const [task, setTask] = useState<TaskTranslations | null>(null);
+  const [draft, setDraft] = useState<Draft>({ name: '', description: '' });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingTask, setIsLoadingTask] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const targetLocales = report?.target_locales ?? [];
+  const langParam = searchParams.get('lang') as Language | null;
+  const targetLocale: Language | null = langParam && targetLocales.includes(langParam)
+    ? langParam
+    : targetLocales[0] ?? null;
+  const sourceLocale: Language = report?.source_locale ?? 'en';
+
+  const queue = useMemo<MissingTranslation[]>(
+    () => (report && targetLocale ? report.missing.filter(item => item.missing[targetLocale]) : []),
+    [report, targetLocale]
+  );
+
+  const taskParam = Number(searchParams.get('task'));
+  const selectedId = taskParam > 0 ? taskParam : queue[0]?.id ?? null;
+
+  const updateParams = useCallback((updates: Record<string, string | null>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(updates).forEach(([key, value]) => {
+        if (value === null) {
+          next.delete(key);
+        } else {
+          next.set(key, value);
+        }
+      });
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const loadReport = useCallback(async () => {
+    try {
+      setReport(await TaskService.getTranslationReport());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  // Load the selected task and start the draft from its existing translations
+  useEffect(() => {
+    if (selectedId === null || !targetLocale) {
+      setTask(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoadingTask(true);
+
+    TaskService.getTranslations(selectedId)
+      .then(loaded => {
+        if (cancelled) return;
+        setTask(loaded);
+        setDraft({
+          name: loaded.name[targetLocale] ?? '',
+          description: loaded.description[targetLocale] ?? ''
+        });
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setTask(null);
+        addNotification({
+          type: 'error',
+          title: t('translations.taskFailed.title'),
+          message: err instanceof Error ? err.message : t('translations.taskFailed.message')
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingTask(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, targetLocale]);
+
+  const handleSave = async (advance: boolean) => {
+    if (!task || !targetLocale) return;
+
+    // The next task is taken from the queue as it was before saving
+    const position = queue.findIndex(item => item.id === task.id);
+    const nextItem = queue.slice(position + 1).find(item => item.id !== task.id) ?? queue.find(item => item.id !== task.id);
+
+    setIsSaving(true);
+    try {
+      const saved = await TaskService.updateTranslations(task.id, {
+        name: { [targetLocale]: draft.name },
+        description: { [targetLocale]: draft.description }
+      });
+      setTask(saved);
+      addNotification({
+        type: 'success',
+        title: t('translations.saved.title'),
+        message: t('translations.saved.message', {
+          language: getLocaleName(targetLocale),
+          name: saved.name[sourceLocale] ?? ''
+        })
+      });
+      await loadReport();
+      if (advance) {
+        updateParams({ task: nextItem ? String(nextItem.id) : null });
+      }
+    } catch (err) {
+      addNotification({
+        type: 'error',
+        title: t('translations.saveFailed.title'),
+        message: err instanceof Error ? err.message : t('translations.saveFailed.message')
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-8">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">{t('translations.loading')}</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error || !report) {
+    return (
+      <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
+        <p className="font-semibold">{t('translations.loadError')}</p>
+        <p>{error || t('translations.loadFailed')}</p>
+        <div className="mt-2">
+          <Button onClick={loadReport} variant="outline" size="sm">
+            {t('common.retry')}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const missingFields = task && targetLocale
+    ? queue.find(item => item.id === task.id)?.missing[targetLocale] ?? []
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-foreground">{t('translations.title')}</h1>
+          <p className="text-muted-foreground mt-1 text-sm sm:text-base">
+            {t('translations.description', { language: getLocaleName(sourceLocale) })}
+          </p>
+        </div>
+        {targetLocale && (
+          <Select value={targetLocale} onValueChange={value => updateParams({ lang: value, task: null })}>
+            <SelectTrigger className="w-44">
+              <SelectValue placeholder={t('translations.language')} />
+            </SelectTrigger>
+            <SelectContent>
+              {targetLocales.map(locale => (
+                <SelectItem key={locale} value={locale}>{getLocaleName(locale)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {targetLocales.map(locale => {
+          const progress = report.progress[locale];
+          if (!progress) return null;
+          return (
+            <Card key={locale} className={locale === targetLocale ? 'border-primary' : undefined}>
+              <CardContent className="py-4">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">{getLocaleName(locale)}</span>
+                  <span className="text-muted-foreground">
+                    {t('translations.progress', {
+                      complete: progress.complete,
+                      total: report.total,
+                      percentage: progress.percentage
+                    })}
+                  </span>
+                </div>
+                <div className="mt-2 h-2 rounded-full bg-muted overflow-hidden">
+                  <div className="h-full bg-primary transition-all" style={{ width: `${progress.percentage}%` }} />
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <CardTitle className="text-base">{t('translations.queue.title', { count: queue.length })}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {queue.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {targetLocale
+                  ? t('translations.queue.done', { language: getLocaleName(targetLocale) })
+                  : t('translations.queue.doneAll')}
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {queue.map(item => (
+                  <li key={item.id}>
+                    <button
+                      type="button"
+                      onClick={() => updateParams({ task: String(item.id) })}
+                      className={`w-full text-left rounded-md px-3 py-2 text-sm transition-colors ${
+                        item.id === selectedId ? 'bg-primary/10 text-primary' : 'hover:bg-muted'
+                      }`}
+                    >
+                      <span className={`block truncate ${item.parent_id ? 'pl-3' : ''}`}>{item.name}</span>
+                      <span className="mt-1 flex gap-1">
+                        {(item.missing[targetLocale!] ?? []).map(field => (
+                          <span key={field} className="rounded bg-yellow-100 px-1.5 py-0.5 text-xs text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300">
+                            {t(`translations.field.${field}`)}
+                          </span>
+                        ))}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardContent className="py-6">
+            {isLoadingTask ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : !task || !targetLocale ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                {t('translations.select')}
+              </p>
+            ) : (
+              <form
+                className="space-y-6"
+                onSubmit={e => {
+                  e.preventDefault();
+                  handleSave(true);
+                }}
+              >
+                {(['name', 'description'] as const).map(field => (
+                  <div key={field} className="grid gap-4 md:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label>{t('translations.fieldIn', { field: t(`translations.field.${field}`), language: getLocaleName(sourceLocale) })}</Label>
+                      <div lang={sourceLocale} dir={getLocaleDirection(sourceLocale)} className="min-h-9 whitespace-pre-wrap rounded-md border bg-muted/50 px-3 py-2 text-sm">
+                        {task[field][sourceLocale] || <span className="text-muted-foreground">{t(`translations.empty.${field}`)}</span>}
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`translation-${field}`}>
+                        {t('translations.fieldIn', { field: t(`translations.field.${field}`), language: getLocaleName(targetLocale) })}
+                        {missingFields.includes(field) && <span className="ml-2 text-xs text-yellow-700 dark:text-yellow-400">{t('translations.missing')}</span>}
+                      </Label>
+                      {field === 'name' ? (
+                        <Input
+                          id="translation-name"
+                          lang={targetLocale}
+                          dir={getLocaleDirection(targetLocale)}
+                          value={draft.name}
+                          onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                          disabled={isSaving}
+                        />
+                      ) : (
+                        <Textarea
+                          id="translation-description"
+                          lang={targetLocale}
+                          dir={getLocaleDirection(targetLocale)}
+                          value={draft.description}
+                          onChange={e => setDraft(prev => ({ ...prev, description: e.target.value }))}
+                          disabled={isSaving}
+                          rows={4}
+                        />
+                      )}
+                    </div>
+                  </div>
+                ))}
+
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={() => handleSave(false)} disabled={isSaving}>
+                    {t('common.save')}
+                  </Button>
+                  <Button type="submit" disabled={isSaving}>
+                    {isSaving ? t('common.saving') : t('translations.saveAndNext')}
+                  </Button>
+                </div>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default TranslationsPage;
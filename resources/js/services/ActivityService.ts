@@ -0,0 +1,30 @@
+import axios from 'axios';
+import { TaskActivity } from '@/types';
+
+/**
+ * Version history of tasks: who changed which field, and what it was before
+ */
+class ActivityService {
+  private static readonly ENDPOINTS = {
+    ACTIVITY: (taskId: number) => `/tasks/${taskId}/activity`
+  } as const;
+
+  static async getActivity(taskId: number): Promise<TaskActivity[]> {
+    try {
+      const response = await axios.get<TaskActivity[]>(this.ENDPOINTS.ACTIVITY(taskId));
+      return response.data;
+    } catch (error) {
+      throw this.toError(error, 'Failed to load the task history.');
+    }
+  }
+
+  private static toError(error: unknown, fallback: string): Error {
+    if (axios.isAxiosError(error)) {
+      const data = error.response?.data;
+      return new Error(data?.message || data?.error?.message || fallback);
+    }
+    return new Error(fallback);
+  }
+}
+
+export default ActivityService;
@@ -1,5 +1,16 @@
 import axios from 'axios';
-import { LoginCredentials, RegisterData, AuthResponse, User } from '@/types';
+import {
+  LoginCredentials,
+  LoginResponse,
+  RegisterData,
+  AuthResponse,
+  AuthFormError,
+  ForgotPasswordData,
+  ResetPasswordData,
+  TwoFactorChallengeData,
+  User,
+  WebSocketTokenResponse
+} from '@/types';
 
 /**
  * Authentication Service for Laravel Sanctum SPA Authentication
@@ -16,12 +27,39 @@ class AuthService {
   private static readonly ENDPOINTS = {
     CSRF_COOKIE: '/sanctum/csrf-cookie',
     LOGIN: '/auth/login',
+    TWO_FACTOR_CHALLENGE: '/auth/two-factor-challenge',
     REGISTER: '/auth/register',
     LOGOUT: '/auth/logout',
     LOGOUT_ALL: '/auth/logout-all',
-    ME: '/auth/me'
+    ME: '/auth/me',
+    WEBSOCKET_TOKEN: '/auth/websocket-token',
+    FORGOT_PASSWORD: '/auth/forgot-password',
+    RESET_PASSWORD: '/auth/reset-password',
+    VERIFICATION_NOTIFICATION: '/auth/email/verification-notification'
   } as const;
 
+  /**
+   * Rethrow a failed form submission. Validation errors are thrown as an
+   * AuthFormError so their messages can be shown next to the fields.
+   * Rate limited responses put their message under `error`.
+   */
+  private static throwFormError(error: unknown, fallbackMessage: string, action: string): never {
+    if (axios.isAxiosError(error)) {
+      const data = error.response?.data;
+
+      if (data && data.errors) {
+        const formError: AuthFormError = {
+          message: data.message || fallbackMessage,
+          errors: data.errors
+        };
+        throw formError;
+      }
+
+      throw new Error(data?.message || data?.error?.message || fallbackMessage);
+    }
+    throw new Error(`An unexpected error occurred during ${action}.`);
+  }
+
   /**
    * Get CSRF cookie before making authenticated requests
    */
@@ -35,14 +73,16 @@ class AuthService {
   }
 
   /**
-   * Authenticate user with email and password
+   * Authenticate user with email and password.
+   * Users with two-factor authentication get `two_factor_required` instead
+   * of the user and finish signing in with twoFactorChallenge.
    */
-  static async login(credentials: LoginCredentials): Promise<AuthResponse> {
+  static async login(credentials: LoginCredentials): Promise<LoginResponse> {
     try {
       // Get CSRF cookie first (required for SPA authentication)
       await this.getCsrfCookie();
       
-      const response = await axios.post<AuthResponse>(
+      const response = await axios.post<LoginResponse>(
         this.ENDPOINTS.LOGIN,
         credentials
       );
@@ -57,6 +97,18 @@ class AuthService {
     }
   }
 
+  /**
+   * Second step of a two-factor sign-in with an authenticator or recovery code
+   */
+  static async twoFactorChallenge(data: TwoFactorChallengeData): Promise<AuthResponse> {
+    try {
+      const response = await axios.post<AuthResponse>(this.ENDPOINTS.TWO_FACTOR_CHALLENGE, data);
+      return response.data;
+    } catch (error) {
+      this.throwFormError(error, 'The code could not be verified. Please try again.', 'two-factor authentication');
+    }
+  }
+
   /**
    * Register a new user account
    */
@@ -72,21 +124,7 @@ class AuthService {
       
       return response.data;
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        const data = error.response?.data;
-        
-        // Handle validation errors
-        if (data && data.errors) {
-          throw { 
-            message: data.message || 'Registration failed.', 
-            errors: data.errors 
-          };
-        }
-        
-        // Handle other API errors
-        throw new Error(data?.message || 'Registration failed. Please try again.');
-      }
-      throw new Error('An unexpected error occurred during registration.');
+      this.throwFormError(error, 'Registration failed. Please try again.', 'registration');
     }
   }
 
@@ -129,6 +167,64 @@ class AuthService {
     }
   }
 
+  /**
+   * Get a short-lived Sanctum token for authenticating the WebSocket connection.
+   * The session cookie is not sent to the WebSocket server, so it needs its own token.
+   */
+  static async getWebSocketToken(): Promise<WebSocketTokenResponse> {
+    try {
+      const response = await axios.post<WebSocketTokenResponse>(this.ENDPOINTS.WEBSOCKET_TOKEN);
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          error.response?.data?.message || 'Failed to get WebSocket token.'
+        );
+      }
+      throw new Error('An unexpected error occurred while getting the WebSocket token.');
+    }
+  }
+
+  /**
+   * Email a password reset link; resolves with the message to show
+   */
+  static async forgotPassword(data: ForgotPasswordData): Promise<string> {
+    try {
+      await this.getCsrfCookie();
+
+      const response = await axios.post<{ message: string }>(this.ENDPOINTS.FORGOT_PASSWORD, data);
+      return response.data.message;
+    } catch (error) {
+      this.throwFormError(error, 'Failed to send the password reset link.', 'the password reset request');
+    }
+  }
+
+  /**
+   * Set a new password with the token from the reset link
+   */
+  static async resetPassword(data: ResetPasswordData): Promise<string> {
+    try {
+      await this.getCsrfCookie();
+
+      const response = await axios.post<{ message: string }>(this.ENDPOINTS.RESET_PASSWORD, data);
+      return response.data.message;
+    } catch (error) {
+      this.throwFormError(error, 'Failed to reset the password.', 'the password reset');
+    }
+  }
+
+  /**
+   * Send a new verification link to the current user's email address
+   */
+  static async resendVerificationEmail(): Promise<string> {
+    try {
+      const response = await axios.post<{ message: string }>(this.ENDPOINTS.VERIFICATION_NOTIFICATION);
+      return response.data.message;
+    } catch (error) {
+      this.throwFormError(error, 'Failed to send the verification email.', 'email verification');
+    }
+  }
+
   /**
    * Check if user is currently authenticated by making a request to /me
    * For SPA authentication, we rely on session cookies, not stored tokens
@@ -0,0 +1,70 @@
+import axios from 'axios';
+import { MentionableUser, TaskComment } from '@/types';
+
+/**
+ * Comment threads on tasks and the users that can be mentioned in them
+ */
+class CommentService {
+  private static readonly ENDPOINTS = {
+    COMMENTS: (taskId: number) => `/tasks/${taskId}/comments`,
+    COMMENT: (taskId: number, commentId: number) => `/tasks/${taskId}/comments/${commentId}`,
+    MENTIONABLE_USERS: (taskId: number) => `/tasks/${taskId}/mentionable-users`
+  } as const;
+
+  static async getComments(taskId: number): Promise<TaskComment[]> {
+    try {
+      const response = await axios.get<TaskComment[]>(this.ENDPOINTS.COMMENTS(taskId));
+      return response.data;
+    } catch (error) {
+      throw this.toError(error, 'Failed to load comments.');
+    }
+  }
+
+  static async addComment(taskId: number, body: string): Promise<TaskComment> {
+    try {
+      const response = await axios.post<TaskComment>(this.ENDPOINTS.COMMENTS(taskId), { body });
+      return response.data;
+    } catch (error) {
+      throw this.toError(error, 'Failed to post the comment. Please try again.');
+    }
+  }
+
+  static async updateComment(taskId: number, commentId: number, body: string): Promise<TaskComment> {
+    try {
+      const response = await axios.put<TaskComment>(this.ENDPOINTS.COMMENT(taskId, commentId), { body });
+      return response.data;
+    } catch (error) {
+      throw this.toError(error, 'Failed to save the comment. Please try again.');
+    }
+  }
+
+  static async deleteComment(taskId: number, commentId: number): Promise<void> {
+    try {
+      await axios.delete(this.ENDPOINTS.COMMENT(taskId, commentId));
+    } catch (error) {
+      throw this.toError(error, 'Failed to delete the comment. Please try again.');
+    }
+  }
+
+  static async getMentionableUsers(taskId: number, query = ''): Promise<MentionableUser[]> {
+    try {
+      const response = await axios.get<MentionableUser[]>(this.ENDPOINTS.MENTIONABLE_USERS(taskId), {
+        params: query ? { query } : undefined
+      });
+      return response.data;
+    } catch (error) {
+      throw this.toError(error, 'Failed to load people to mention.');
+    }
+  }
+
+  // Validation errors carry `message`; domain errors (e.g. a missing comment) carry `error.message`
+  private static toError(error: unknown, fallbackMessage: string): Error {
+    if (axios.isAxiosError(error)) {
+      const data = error.response?.data;
+      return new Error(data?.message || data?.error?.message || fallbackMessage);
+    }
+    return new Error(fallbackMessage);
+  }
+}
+
+export default CommentService;
@@ -0,0 +1,61 @@
+import axios from 'axios';
+import { AuthFormError, Label, LabelFormData } from '@/types';
+
+/**
+ * Colored labels the owner of a task can put on it
+ */
+class LabelService {
+  private static readonly ENDPOINTS = {
+    LABELS: '/labels',
+    LABEL: (id: number) => `/labels/${id}`
+  } as const;
+
+  static async getLabels(): Promise<Label[]> {
+    try {
+      const response = await axios.get<Label[]>(this.ENDPOINTS.LABELS);
+      return response.data;
+    } catch (error) {
+      throw this.toError(error, 'Failed to load labels.');
+    }
+  }
+
+  static async createLabel(data: LabelFormData): Promise<Label> {
+    try {
+      const response = await axios.post<Label>(this.ENDPOINTS.LABELS, data);
+      return response.data;
+    } catch (error) {
+      throw this.toError(error, 'Failed to create the label. Please try again.');
+    }
+  }
+
+  static async updateLabel(id: number, changes: Partial<LabelFormData>): Promise<Label> {
+    try {
+      const response = await axios.put<Label>(this.ENDPOINTS.LABEL(id), changes);
+      return response.data;
+    } catch (error) {
+      throw this.toError(error, 'Failed to save the label. Please try again.');
+    }
+  }
+
+  static async deleteLabel(id: number): Promise<void> {
+    try {
+      await axios.delete(this.ENDPOINTS.LABEL(id));
+    } catch (error) {
+      throw this.toError(error, 'Failed to delete the label. Please try again.');
+    }
+  }
+
+  // Validation errors are returned as an AuthFormError so forms can show them next to their fields
+  private static toError(error: unknown, fallbackMessage: string): Error | AuthFormError {
+    if (axios.isAxiosError(error)) {
+      const data = error.response?.data;
+      if (data?.errors) {
+        return { message: data.message || fallbackMessage, errors: data.errors };
+      }
+      return new Error(data?.message || fallbackMessage);
+    }
+    return new Error(fallbackMessage);
+  }
+}
+
+export default LabelService;
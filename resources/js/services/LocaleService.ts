@@ -1,4 +1,6 @@
 import axios from 'axios';
+import { Language } from '@/types';
+import { getLocales, isSupportedLocale } from '@/utils/locales';
 
 /**
  * Locale Service for managing user language preferences and locale-related API calls
@@ -14,6 +16,7 @@ export interface LocaleInfo {
   locale: string;
   user_preference: string | null;
   available_locales: Record<string, string>;
+  rtl_locales?: string[];
 }
 
 export interface LocalePreferenceResponse {
@@ -21,7 +24,7 @@ export interface LocalePreferenceResponse {
   message: string;
 }
 
-export type Language = 'en' | 'fr' | 'de';
+export type { Language };
 
 class LocaleService {
   private static readonly ENDPOINTS = {
@@ -114,18 +117,14 @@ class LocaleService {
    * Validate if a locale is supported
    */
   static isSupportedLocale(locale: string): locale is Language {
-    return ['en', 'fr', 'de'].includes(locale);
+    return isSupportedLocale(locale);
   }
 
   /**
    * Get available locales with their display names
    */
   static getAvailableLocales(): Record<Language, string> {
-    return {
-      en: 'English',
-      fr: 'Français',
-      de: 'Deutsch'
-    };
+    return Object.fromEntries(getLocales().map(locale => [locale.code, locale.name]));
   }
 
   /**
@@ -0,0 +1,136 @@
+import { Task, TaskFormData, PaginatedResponse } from '@/types';
+
+export type TaskMutation =
+  | { type: 'create'; temp_id: number; data: TaskFormData }
+  | { type: 'update'; task_id: number; data: Partial<TaskFormData> }
+  | { type: 'delete'; task_id: number };
+
+export type QueuedMutation = TaskMutation & {
+  id: number;
+  user_id: number;
+  queued_at: string;
+  // Failed replays that did not reach the server
+  attempts?: number;
+};
+
+export interface CachedTaskList {
+  key: string;
+  user_id: number;
+  response: PaginatedResponse<Task>;
+  cached_at: string;
+}
+
+/**
+ * Persistence for the offline task cache and the pending mutation queue
+ */
+export interface OfflineStorage {
+  getTaskList(key: string): Promise<CachedTaskList | undefined>;
+  putTaskList(list: CachedTaskList): Promise<void>;
+  getMutations(userId: number): Promise<QueuedMutation[]>;
+  addMutation(mutation: Omit<QueuedMutation, 'id'>): Promise<QueuedMutation>;
+  putMutation(mutation: QueuedMutation): Promise<void>;
+  deleteMutation(id: number): Promise<void>;
+}
+
+const DB_NAME = 'task-manager-offline';
+const DB_VERSION = 1;
+const TASK_LISTS = 'task_lists';
+const MUTATIONS = 'mutations';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export class IndexedDBOfflineStorage implements OfflineStorage {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          db.createObjectStore(TASK_LISTS, { keyPath: 'key' });
+          db.createObjectStore(MUTATIONS, { keyPath: 'id', autoIncrement: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  async getTaskList(key: string): Promise<CachedTaskList | undefined> {
+    return promisify<CachedTaskList | undefined>((await this.store(TASK_LISTS, 'readonly')).get(key));
+  }
+
+  async putTaskList(list: CachedTaskList): Promise<void> {
+    await promisify((await this.store(TASK_LISTS, 'readwrite')).put(list));
+  }
+
+  async getMutations(userId: number): Promise<QueuedMutation[]> {
+    // Auto-increment keys keep the queue in insertion order
+    const mutations = await promisify<QueuedMutation[]>((await this.store(MUTATIONS, 'readonly')).getAll());
+    return mutations.filter(mutation => mutation.user_id === userId);
+  }
+
+  async addMutation(mutation: Omit<QueuedMutation, 'id'>): Promise<QueuedMutation> {
+    const id = await promisify((await this.store(MUTATIONS, 'readwrite')).add(mutation));
+    return { ...mutation, id: Number(id) } as QueuedMutation;
+  }
+
+  async putMutation(mutation: QueuedMutation): Promise<void> {
+    await promisify((await this.store(MUTATIONS, 'readwrite')).put(mutation));
+  }
+
+  async deleteMutation(id: number): Promise<void> {
+    await promisify((await this.store(MUTATIONS, 'readwrite')).delete(id));
+  }
+}
+
+/**
+ * Fallback for browsers without IndexedDB (e.g. some private browsing modes); lost on reload
+ */
+export class MemoryOfflineStorage implements OfflineStorage {
+  private lists = new Map<string, CachedTaskList>();
+  private mutations = new Map<number, QueuedMutation>();
+  private nextId = 1;
+
+  async getTaskList(key: string) {
+    return this.lists.get(key);
+  }
+
+  async putTaskList(list: CachedTaskList) {
+    this.lists.set(list.key, list);
+  }
+
+  async getMutations(userId: number) {
+    return Array.from(this.mutations.values())
+      .filter(mutation => mutation.user_id === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async addMutation(mutation: Omit<QueuedMutation, 'id'>) {
+    const queued = { ...mutation, id: this.nextId++ } as QueuedMutation;
+    this.mutations.set(queued.id, queued);
+    return queued;
+  }
+
+  async putMutation(mutation: QueuedMutation) {
+    this.mutations.set(mutation.id, mutation);
+  }
+
+  async deleteMutation(id: number) {
+    this.mutations.delete(id);
+  }
+}
+
+export const createOfflineStorage = (): OfflineStorage =>
+  typeof indexedDB !== 'undefined' ? new IndexedDBOfflineStorage() : new MemoryOfflineStorage();
@@ -0,0 +1,362 @@
+import { Task, PaginatedResponse } from '@/types';
+import TaskService from '@/services/TaskService';
+import { createOptimisticTask } from '@/utils/optimisticUpdates';
+import { isUnreachableError } from '@/utils/requestErrors';
+import {
+  OfflineStorage,
+  QueuedMutation,
+  TaskMutation,
+  createOfflineStorage
+} from '@/services/OfflineStorage';
+
+export type { TaskMutation, QueuedMutation };
+
+export interface SyncStatus {
+  online: boolean;
+  pending: number;
+  syncing: boolean;
+}
+
+export interface SyncResult {
+  synced: number;
+  failed: Array<{ mutation: QueuedMutation; error: string }>;
+  // Temporary (negative) ids from offline creates mapped to the ids the server assigned
+  idMap: Record<number, number>;
+}
+
+export type SyncStatusCallback = (status: SyncStatus) => void;
+export type SyncCompleteCallback = (result: SyncResult) => void;
+
+export interface OfflineSyncServiceOptions {
+  storage?: OfflineStorage;
+  execute?: (mutation: TaskMutation) => Promise<Task | void>;
+  isOnline?: () => boolean;
+}
+
+// A queued change that still cannot reach the server after this many replays is given up
+const MAX_SYNC_ATTEMPTS = 5;
+// Replays only start on their own when the browser comes back online, so an unreachable
+// server while online is retried after a while
+const RETRY_DELAY_MS = 30_000;
+
+const isTempId = (id: number | undefined | null): boolean => typeof id === 'number' && id < 0;
+
+const referencedIds = (mutation: TaskMutation): number[] =>
+  mutation.type === 'create'
+    ? (mutation.data.parent_id ? [mutation.data.parent_id] : [])
+    : [mutation.task_id];
+
+const executeWithTaskService = (mutation: TaskMutation): Promise<Task | void> => {
+  switch (mutation.type) {
+    case 'create':
+      return TaskService.createTask(mutation.data);
+    case 'update':
+      return TaskService.updateTask(mutation.task_id, mutation.data);
+    case 'delete':
+      return TaskService.deleteTask(mutation.task_id);
+  }
+};
+
+/**
+ * Replay queued mutations on top of a cached task list so offline work survives a reload
+ */
+export const applyPendingMutations = (tasks: Task[], mutations: TaskMutation[]): Task[] => {
+  return mutations.reduce((result, mutation) => {
+    switch (mutation.type) {
+      case 'create':
+        if (result.some(task => task.id === mutation.temp_id)) {
+          return result;
+        }
+        return [{ ...createOptimisticTask(mutation.data, 0), id: mutation.temp_id }, ...result];
+      case 'update':
+        return result.map(task =>
+          task.id === mutation.task_id ? { ...task, ...mutation.data } : task
+        );
+      case 'delete':
+        return result.filter(task => task.id !== mutation.task_id);
+    }
+  }, tasks);
+};
+
+export class OfflineSyncService {
+  private userId: number | null = null;
+  private status: SyncStatus;
+  private statusCallbacks: Set<SyncStatusCallback> = new Set();
+  private syncCallbacks: Set<SyncCompleteCallback> = new Set();
+  private syncPromise: Promise<SyncResult> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private readonly storage: OfflineStorage;
+  private readonly execute: (mutation: TaskMutation) => Promise<Task | void>;
+  private readonly checkOnline: () => boolean;
+
+  constructor(options: OfflineSyncServiceOptions = {}) {
+    this.storage = options.storage ?? createOfflineStorage();
+    this.execute = options.execute ?? executeWithTaskService;
+    this.checkOnline = options.isOnline ?? (() => typeof navigator === 'undefined' || navigator.onLine);
+    this.status = { online: this.checkOnline(), pending: 0, syncing: false };
+  }
+
+  /**
+   * Scope the cache and queue to a user; replays anything left over from a previous session
+   */
+  async setUser(userId: number | null) {
+    if (this.userId === userId) return;
+
+    this.userId = userId;
+    this.cancelRetry();
+
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleConnectivityChange);
+      window.removeEventListener('offline', this.handleConnectivityChange);
+      if (userId !== null) {
+        window.addEventListener('online', this.handleConnectivityChange);
+        window.addEventListener('offline', this.handleConnectivityChange);
+      }
+    }
+
+    await this.refreshPendingCount();
+    if (userId !== null && this.isOnline()) {
+      await this.sync();
+    }
+  }
+
+  isOnline(): boolean {
+    return this.checkOnline();
+  }
+
+  /**
+   * Whether a mutation has to go through the queue: while offline, after it failed to
+   * reach the server, or when it references a task that only exists locally until the
+   * queue is replayed
+   */
+  shouldQueue(mutation: TaskMutation, error?: unknown): boolean {
+    return !this.isOnline() || isUnreachableError(error) || referencedIds(mutation).some(isTempId);
+  }
+
+  async cacheTaskList(key: string, response: PaginatedResponse<Task>) {
+    if (this.userId === null) return;
+
+    try {
+      await this.storage.putTaskList({
+        key: `${this.userId}:${key}`,
+        user_id: this.userId,
+        response,
+        cached_at: new Date().toISOString()
+      });
+    } catch (error) {
+      console.warn('Failed to cache task list for offline use:', error);
+    }
+  }
+
+  /**
+   * Get a cached task list with pending offline mutations applied
+   */
+  async getCachedTaskList(key: string): Promise<PaginatedResponse<Task> | undefined> {
+    if (this.userId === null) return undefined;
+
+    const cached = await this.storage.getTaskList(`${this.userId}:${key}`);
+    if (!cached) return undefined;
+
+    const mutations = await this.getPendingMutations();
+    return { ...cached.response, data: applyPendingMutations(cached.response.data, mutations) };
+  }
+
+  async getPendingMutations(): Promise<QueuedMutation[]> {
+    if (this.userId === null) return [];
+    return this.storage.getMutations(this.userId);
+  }
+
+  async enqueue(mutation: TaskMutation) {
+    if (this.userId === null) {
+      throw new Error('Cannot queue changes without a signed in user');
+    }
+
+    // Deleting a task that was never synced just cancels its queued changes
+    if (mutation.type === 'delete' && isTempId(mutation.task_id)) {
+      await this.discardTempTask(mutation.task_id);
+    } else {
+      await this.storage.addMutation({
+        ...mutation,
+        user_id: this.userId,
+        queued_at: new Date().toISOString()
+      });
+    }
+
+    await this.refreshPendingCount();
+
+    if (this.isOnline()) {
+      this.sync();
+    }
+  }
+
+  /**
+   * Replay the queue in order. Stops (keeping the rest) if the connection drops again or
+   * the server can't be reached, and retries later; mutations the server rejects, or that
+   * could not be sent after several attempts, are dropped and reported in the result.
+   */
+  sync(): Promise<SyncResult> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.replay().finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
+  }
+
+  private async replay(): Promise<SyncResult> {
+    const result: SyncResult = { synced: 0, failed: [], idMap: {} };
+    if (this.userId === null || !this.isOnline()) return result;
+
+    this.cancelRetry();
+    const hadPending = this.status.pending > 0;
+    this.setStatus({ syncing: true });
+
+    try {
+      // Re-read the queue each step: remapping rewrites later entries and new ones may arrive
+      for (let [next] = await this.getPendingMutations(); next; [next] = await this.getPendingMutations()) {
+        if (referencedIds(next).some(isTempId)) {
+          result.failed.push({ mutation: next, error: 'Depends on a task that could not be created' });
+          await this.storage.deleteMutation(next.id);
+          continue;
+        }
+
+        try {
+          const task = await this.execute(next);
+          if (next.type === 'create' && task) {
+            result.idMap[next.temp_id] = task.id;
+            await this.remapTempId(next.temp_id, task.id);
+          }
+          await this.storage.deleteMutation(next.id);
+          result.synced++;
+        } catch (error) {
+          if (!this.isOnline()) break;
+
+          const attempts = (next.attempts ?? 0) + 1;
+          if (isUnreachableError(error) && attempts < MAX_SYNC_ATTEMPTS) {
+            await this.storage.putMutation({ ...next, attempts });
+            this.scheduleRetry();
+            break;
+          }
+
+          result.failed.push({
+            mutation: next,
+            error: error instanceof Error ? error.message : 'Failed to sync change'
+          });
+          await this.storage.deleteMutation(next.id);
+        }
+        await this.refreshPendingCount();
+      }
+    } finally {
+      await this.refreshPendingCount();
+      this.setStatus({ syncing: false });
+    }
+
+    if (hadPending || result.synced > 0 || result.failed.length > 0) {
+      this.syncCallbacks.forEach(callback => {
+        try {
+          callback(result);
+        } catch (error) {
+          console.error('Error in offline sync callback:', error);
+        }
+      });
+    }
+
+    return result;
+  }
+
+  private async remapTempId(tempId: number, realId: number) {
+    for (const mutation of await this.getPendingMutations()) {
+      if (mutation.type === 'create' && mutation.data.parent_id === tempId) {
+        await this.storage.putMutation({ ...mutation, data: { ...mutation.data, parent_id: realId } });
+      } else if (mutation.type !== 'create' && mutation.task_id === tempId) {
+        await this.storage.putMutation({ ...mutation, task_id: realId });
+      }
+    }
+  }
+
+  private async discardTempTask(tempId: number) {
+    for (const mutation of await this.getPendingMutations()) {
+      const isOwnCreate = mutation.type === 'create' && mutation.temp_id === tempId;
+      if (isOwnCreate || referencedIds(mutation).includes(tempId)) {
+        await this.storage.deleteMutation(mutation.id);
+        if (mutation.type === 'create' && !isOwnCreate) {
+          // Subtasks created under the discarded task go with it
+          await this.discardTempTask(mutation.temp_id);
+        }
+      }
+    }
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (this.isOnline()) {
+        this.sync();
+      }
+    }, RETRY_DELAY_MS);
+  }
+
+  private cancelRetry() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private handleConnectivityChange = () => {
+    const online = this.isOnline();
+    this.setStatus({ online });
+    if (online) {
+      this.sync();
+    }
+  };
+
+  private async refreshPendingCount() {
+    const pending = (await this.getPendingMutations()).length;
+    this.setStatus({ pending, online: this.isOnline() });
+  }
+
+  private setStatus(updates: Partial<SyncStatus>) {
+    const status = { ...this.status, ...updates };
+    if (
+      status.online === this.status.online &&
+      status.pending === this.status.pending &&
+      status.syncing === this.status.syncing
+    ) {
+      return;
+    }
+
+    this.status = status;
+    this.statusCallbacks.forEach(callback => {
+      try {
+        callback(status);
+      } catch (error) {
+        console.error('Error in offline status callback:', error);
+      }
+    });
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  onStatusChange(callback: SyncStatusCallback) {
+    this.statusCallbacks.add(callback);
+
+    return () => {
+      this.statusCallbacks.delete(callback);
+    };
+  }
+
+  onSyncComplete(callback: SyncCompleteCallback) {
+    this.syncCallbacks.add(callback);
+
+    return () => {
+      this.syncCallbacks.delete(callback);
+    };
+  }
+}
+
+export const offlineSyncService = new OfflineSyncService();
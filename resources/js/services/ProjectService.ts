@@ -0,0 +1,63 @@
+import axios from 'axios';
+import { AuthFormError, Project, ProjectFormData } from '@/types';
+
+type ProjectChanges = Partial<ProjectFormData> & { archived?: boolean };
+
+/**
+ * Projects group tasks above the parent/subtask hierarchy and number them, e.g. WEB-42
+ */
+class ProjectService {
+  private static readonly ENDPOINTS = {
+    PROJECTS: '/projects',
+    PROJECT: (id: number) => `/projects/${id}`
+  } as const;
+
+  static async getProjects(): Promise<Project[]> {
+    try {
+      const response = await axios.get<Project[]>(this.ENDPOINTS.PROJECTS);
+      return response.data;
+    } catch (error) {
+      throw this.toError(error, 'Failed to load projects.');
+    }
+  }
+
+  static async createProject(data: ProjectFormData): Promise<Project> {
+    try {
+      const response = await axios.post<Project>(this.ENDPOINTS.PROJECTS, data);
+      return response.data;
+    } catch (error) {
+      throw this.toError(error, 'Failed to create the project. Please try again.');
+    }
+  }
+
+  static async updateProject(id: number, changes: ProjectChanges): Promise<Project> {
+    try {
+      const response = await axios.put<Project>(this.ENDPOINTS.PROJECT(id), changes);
+      return response.data;
+    } catch (error) {
+      throw this.toError(error, 'Failed to save the project. Please try again.');
+    }
+  }
+
+  static async deleteProject(id: number): Promise<void> {
+    try {
+      await axios.delete(this.ENDPOINTS.PROJECT(id));
+    } catch (error) {
+      throw this.toError(error, 'Failed to delete the project. Please try again.');
+    }
+  }
+
+  // Validation errors are returned as an AuthFormError so the project form can show them next to its fields
+  private static toError(error: unknown, fallbackMessage: string): Error | AuthFormError {
+    if (axios.isAxiosError(error)) {
+      const data = error.response?.data;
+      if (data?.errors) {
+        return { message: data.message || fallbackMessage, errors: data.errors };
+      }
+      return new Error(data?.message || fallbackMessage);
+    }
+    return new Error(fallbackMessage);
+  }
+}
+
+export default ProjectService;
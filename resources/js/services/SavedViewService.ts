@@ -0,0 +1,55 @@
+import axios from 'axios';
+import { SavedView } from '@/types';
+
+/**
+ * Named task list views, persisted per user
+ */
+class SavedViewService {
+  private static readonly ENDPOINTS = {
+    SAVED_VIEWS: '/saved-views',
+    SAVED_VIEW: (id: number) => `/saved-views/${id}`
+  } as const;
+
+  static async getViews(): Promise<SavedView[]> {
+    try {
+      const response = await axios.get<SavedView[]>(this.ENDPOINTS.SAVED_VIEWS);
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          error.response?.data?.message || 'Failed to load saved views.'
+        );
+      }
+      throw new Error('An unexpected error occurred while loading saved views.');
+    }
+  }
+
+  static async createView(name: string, params: Record<string, string>): Promise<SavedView> {
+    try {
+      const response = await axios.post<SavedView>(this.ENDPOINTS.SAVED_VIEWS, { name, params });
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          error.response?.data?.message || 'Failed to save view. Please try again.'
+        );
+      }
+      throw new Error('An unexpected error occurred while saving the view.');
+    }
+  }
+
+  static async deleteView(id: number): Promise<void> {
+    try {
+      await axios.delete(this.ENDPOINTS.SAVED_VIEW(id));
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          error.response?.data?.message || 'Failed to delete view. Please try again.'
+        );
+      }
+      throw new Error('An unexpected error occurred while deleting the view.');
+    }
+  }
+}
+
+export default SavedViewService;
@@ -0,0 +1,60 @@
+import axios from 'axios';
+import { SessionsResponse } from '@/types';
+
+/**
+ * Active sessions and API tokens of the signed in user
+ */
+class SessionService {
+  private static readonly ENDPOINTS = {
+    SESSIONS: '/sessions',
+    SESSION: (id: string) => `/sessions/${encodeURIComponent(id)}`,
+    OTHER_SESSIONS: '/sessions/others',
+    TOKEN: (id: number) => `/tokens/${id}`
+  } as const;
+
+  static async getSessions(): Promise<SessionsResponse> {
+    try {
+      const response = await axios.get<SessionsResponse>(this.ENDPOINTS.SESSIONS);
+      return response.data;
+    } catch (error) {
+      throw this.toError(error, 'Failed to load your sessions.');
+    }
+  }
+
+  static async revokeSession(id: string): Promise<void> {
+    try {
+      await axios.delete(this.ENDPOINTS.SESSION(id));
+    } catch (error) {
+      throw this.toError(error, 'Failed to sign out the session.');
+    }
+  }
+
+  /**
+   * Sign out every session except this one; resolves with how many were ended
+   */
+  static async revokeOtherSessions(): Promise<number> {
+    try {
+      const response = await axios.delete<{ revoked: number }>(this.ENDPOINTS.OTHER_SESSIONS);
+      return response.data.revoked;
+    } catch (error) {
+      throw this.toError(error, 'Failed to sign out the other sessions.');
+    }
+  }
+
+  static async revokeToken(id: number): Promise<void> {
+    try {
+      await axios.delete(this.ENDPOINTS.TOKEN(id));
+    } catch (error) {
+      throw this.toError(error, 'Failed to revoke the token.');
+    }
+  }
+
+  private static toError(error: unknown, fallbackMessage: string): Error {
+    if (axios.isAxiosError(error)) {
+      return new Error(error.response?.data?.message || fallbackMessage);
+    }
+    return new Error(fallbackMessage);
+  }
+}
+
+export default SessionService;
@@ -0,0 +1,64 @@
+import axios from 'axios';
+import { AuthFormError, PasswordChangeData, PreferencesData, ProfileData, SettingsResponse } from '@/types';
+
+/**
+ * Account settings of the signed in user. Every call resolves with the
+ * updated user so the app can show the change without reloading it.
+ */
+class SettingsService {
+  private static readonly ENDPOINTS = {
+    PROFILE: '/settings/profile',
+    PASSWORD: '/settings/password',
+    PREFERENCES: '/settings/preferences'
+  } as const;
+
+  static async updateProfile(data: ProfileData): Promise<SettingsResponse> {
+    try {
+      const response = await axios.put<SettingsResponse>(this.ENDPOINTS.PROFILE, data);
+      return response.data;
+    } catch (error) {
+      this.throwFormError(error, 'Failed to update your profile.');
+    }
+  }
+
+  static async updatePassword(data: PasswordChangeData): Promise<SettingsResponse> {
+    try {
+      const response = await axios.put<SettingsResponse>(this.ENDPOINTS.PASSWORD, data);
+      return response.data;
+    } catch (error) {
+      this.throwFormError(error, 'Failed to change your password.');
+    }
+  }
+
+  static async updatePreferences(data: PreferencesData): Promise<SettingsResponse> {
+    try {
+      const response = await axios.put<SettingsResponse>(this.ENDPOINTS.PREFERENCES, data);
+      return response.data;
+    } catch (error) {
+      this.throwFormError(error, 'Failed to update your preferences.');
+    }
+  }
+
+  /**
+   * Validation errors are thrown as an AuthFormError so each section can show
+   * them next to its fields
+   */
+  private static throwFormError(error: unknown, fallbackMessage: string): never {
+    if (axios.isAxiosError(error)) {
+      const data = error.response?.data;
+
+      if (data && data.errors) {
+        const formError: AuthFormError = {
+          message: data.message || fallbackMessage,
+          errors: data.errors
+        };
+        throw formError;
+      }
+
+      throw new Error(data?.message || fallbackMessage);
+    }
+    throw new Error('An unexpected error occurred while saving your settings.');
+  }
+}
+
+export default SettingsService;
@@ -0,0 +1,60 @@
+import axios from 'axios';
+import { TaskShare, TaskSharing } from '@/types';
+
+type ShareRole = TaskShare['role'];
+
+/**
+ * Collaborators of shared tasks. Shares are set on top-level tasks and cover their subtasks.
+ */
+class ShareService {
+  private static readonly ENDPOINTS = {
+    SHARES: (taskId: number) => `/tasks/${taskId}/shares`,
+    SHARE: (taskId: number, shareId: number) => `/tasks/${taskId}/shares/${shareId}`
+  } as const;
+
+  static async getSharing(taskId: number): Promise<TaskSharing> {
+    try {
+      const response = await axios.get<TaskSharing>(this.ENDPOINTS.SHARES(taskId));
+      return response.data;
+    } catch (error) {
+      throw this.toError(error, 'Failed to load who this task is shared with.');
+    }
+  }
+
+  static async shareTask(taskId: number, email: string, role: ShareRole): Promise<TaskShare> {
+    try {
+      const response = await axios.post<TaskShare>(this.ENDPOINTS.SHARES(taskId), { email, role });
+      return response.data;
+    } catch (error) {
+      throw this.toError(error, 'Failed to share the task. Please try again.');
+    }
+  }
+
+  static async updateShare(taskId: number, shareId: number, role: ShareRole): Promise<TaskShare> {
+    try {
+      const response = await axios.put<TaskShare>(this.ENDPOINTS.SHARE(taskId, shareId), { role });
+      return response.data;
+    } catch (error) {
+      throw this.toError(error, 'Failed to change the role. Please try again.');
+    }
+  }
+
+  static async removeShare(taskId: number, shareId: number): Promise<void> {
+    try {
+      await axios.delete(this.ENDPOINTS.SHARE(taskId, shareId));
+    } catch (error) {
+      throw this.toError(error, 'Failed to remove the collaborator. Please try again.');
+    }
+  }
+
+  // Validation errors carry `message`; domain errors (e.g. sharing with an unknown email) carry `error.message`
+  private static toError(error: unknown, fallbackMessage: string): Error {
+    if (axios.isAxiosError(error)) {
+      const data = error.response?.data;
+      return new Error(data?.message || data?.error?.message || fallbackMessage);
+    }
+    return new Error(fallbackMessage);
+  }
+}
+
+export default ShareService;
@@ -1,5 +1,7 @@
 import axios from 'axios';
-import { Task, TaskFormData, TaskFilters, ApiResponse, PaginatedResponse } from '@/types';
+import { Task, TaskFormData, TaskFilters, ApiResponse, PaginatedResponse, TaskStatistics, TaskTranslations, TranslatableField, TranslationMemoryEntry, TranslationReport, Translations } from '@/types';
+import { parseTaskQuery, toTaskFilters } from '@/utils/taskQuery';
+import { toRequestError } from '@/utils/requestErrors';
 
 // Enhanced types for locale-aware task handling
 interface TaskWithTranslations extends Task {
@@ -22,11 +24,35 @@ interface LocaleAwareTaskFilters extends TaskFilters {
   locale_search?: boolean; // Whether to search only in current locale
 }
 
+type SubtaskBulkOperation =
+  | { operation: 'update_status'; status: Task['status'] }
+  | { operation: 'delete' };
+
+interface SubtaskBulkResult {
+  operation: SubtaskBulkOperation['operation'];
+  affected: number;
+}
+
+// Fields without any translation come back as an empty JSON array
+const normalizeTranslations = (task: TaskTranslations): TaskTranslations => ({
+  ...task,
+  name: Array.isArray(task.name) ? {} : task.name ?? {},
+  description: Array.isArray(task.description) ? {} : task.description ?? {}
+});
+
 class TaskService {
   private static readonly ENDPOINTS = {
     TASKS: '/tasks',
     TASK: (id: number) => `/tasks/${id}`,
-    RESTORE: (id: number) => `/tasks/${id}/restore`
+    RESTORE: (id: number) => `/tasks/${id}/restore`,
+    TRANSLATIONS: (id: number) => `/tasks/${id}/translations`,
+    TRANSLATION_REPORT: '/tasks/translation-report',
+    TRANSLATION_MEMORY: '/tasks/translation-memory',
+    STATISTICS: '/tasks/statistics',
+    REORDER: '/tasks/reorder',
+    REORDER_SUBTASKS: (parentId: number) => `/tasks/${parentId}/subtasks/reorder`,
+    MOVE_SUBTASK: (subtaskId: number) => `/subtasks/${subtaskId}/move`,
+    BULK_SUBTASKS: (parentId: number) => `/tasks/${parentId}/subtasks/bulk`
   };
 
   /**
@@ -46,7 +72,17 @@ class TaskService {
           params.append('locale_search', '1');
         }
       }
-      if (filters?.parent_id) params.append('parent_id', filters.parent_id.toString());
+      if (filters?.parent_id !== undefined) {
+        params.append('parent_id', filters.parent_id === null ? 'null' : filters.parent_id.toString());
+      }
+      if (filters?.due_date_from) params.append('due_date_from', filters.due_date_from);
+      if (filters?.due_date_to) params.append('due_date_to', filters.due_date_to);
+      if (filters?.assigned_to_me) params.append('assigned_to_me', '1');
+      if (filters?.project_id) params.append('project_id', filters.project_id.toString());
+      if (filters?.label_ids?.length) {
+        filters.label_ids.forEach(id => params.append('label_ids[]', id.toString()));
+        if (filters.label_match === 'all') params.append('label_match', 'all');
+      }
       
       params.append('page', page.toString());
       params.append('per_page', perPage.toString());
@@ -54,14 +90,17 @@ class TaskService {
       // Don't include translations for list view - we want minimal localized data
       // The backend will return only current locale content
 
-      const response = await axios.get<PaginatedResponse<Task>>(
-        `${this.ENDPOINTS.TASKS}?${params.toString()}`
-      );
+      const url = `${this.ENDPOINTS.TASKS}?${params.toString()}`;
+      // An explicit locale overrides the UI language the request interceptor sends
+      const response = filters?.locale
+        ? await axios.get<PaginatedResponse<Task>>(url, { headers: { 'X-Locale': filters.locale } })
+        : await axios.get<PaginatedResponse<Task>>(url);
       
       return response.data;
     } catch (error) {
       if (axios.isAxiosError(error)) {
-        throw new Error(
+        throw toRequestError(
+          error,
           error.response?.data?.message || 'Failed to fetch tasks.'
         );
       }
@@ -108,6 +147,112 @@ class TaskService {
     }
   }
 
+  /**
+   * Get every translation of a task's name and description
+   */
+  static async getTranslations(id: number): Promise<TaskTranslations> {
+    try {
+      const response = await axios.get<TaskTranslations>(
+        this.ENDPOINTS.TRANSLATIONS(id)
+      );
+      return normalizeTranslations(response.data);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          error.response?.data?.message ||
+          error.response?.data?.error?.message ||
+          'Failed to fetch task translations.'
+        );
+      }
+      throw new Error('An unexpected error occurred while fetching task translations.');
+    }
+  }
+
+  /**
+   * Save translations of a task's name and description.
+   * Only the languages sent are changed; an empty value removes a translation.
+   */
+  static async updateTranslations(
+    id: number,
+    translations: Partial<Record<TranslatableField, Translations>>
+  ): Promise<TaskTranslations> {
+    try {
+      const response = await axios.put<TaskTranslations>(
+        this.ENDPOINTS.TRANSLATIONS(id),
+        translations
+      );
+      return normalizeTranslations(response.data);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const validationErrors = error.response?.data?.errors as Record<string, string[]> | undefined;
+        throw new Error(
+          (validationErrors && Object.values(validationErrors)[0]?.[0]) ||
+          error.response?.data?.message ||
+          error.response?.data?.error?.message ||
+          'Failed to save translations.'
+        );
+      }
+      throw new Error('An unexpected error occurred while saving translations.');
+    }
+  }
+
+  /**
+   * Translation progress per language and the tasks that still need translating
+   */
+  static async getTranslationReport(): Promise<TranslationReport> {
+    try {
+      const response = await axios.get<TranslationReport>(
+        this.ENDPOINTS.TRANSLATION_REPORT
+      );
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          error.response?.data?.message || 'Failed to fetch the translation report.'
+        );
+      }
+      throw new Error('An unexpected error occurred while fetching the translation report.');
+    }
+  }
+
+  /**
+   * Texts already translated in the user's tasks, for translation suggestions
+   */
+  static async getTranslationMemory(): Promise<TranslationMemoryEntry[]> {
+    try {
+      const response = await axios.get<TranslationMemoryEntry[]>(
+        this.ENDPOINTS.TRANSLATION_MEMORY
+      );
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          error.response?.data?.message || 'Failed to fetch the translation memory.'
+        );
+      }
+      throw new Error('An unexpected error occurred while fetching the translation memory.');
+    }
+  }
+
+  /**
+   * Task counts by status, for all of the user's tasks or one of their projects
+   */
+  static async getStatistics(projectId?: number): Promise<TaskStatistics> {
+    try {
+      const response = await axios.get<TaskStatistics>(this.ENDPOINTS.STATISTICS, {
+        params: projectId ? { project_id: projectId } : undefined
+      });
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          error.response?.data?.message || 'Failed to fetch task statistics.'
+        );
+      }
+      throw new Error('An unexpected error occurred while fetching task statistics.');
+    }
+  }
+
   /**
    * Create a new task
    */
@@ -122,8 +267,9 @@ class TaskService {
     } catch (error) {
       if (axios.isAxiosError(error)) {
         const errorMessage = error.response?.data?.message || 
+          error.response?.data?.error?.message ||
           'Failed to create task. Please try again.';
-        throw new Error(errorMessage);
+        throw toRequestError(error, errorMessage);
       }
       throw new Error('An unexpected error occurred while creating the task.');
     }
@@ -143,8 +289,9 @@ class TaskService {
     } catch (error) {
       if (axios.isAxiosError(error)) {
         const errorMessage = error.response?.data?.message || 
+          error.response?.data?.error?.message ||
           'Failed to update task. Please try again.';
-        throw new Error(errorMessage);
+        throw toRequestError(error, errorMessage);
       }
       throw new Error('An unexpected error occurred while updating the task.');
     }
@@ -158,7 +305,8 @@ class TaskService {
       await axios.delete(this.ENDPOINTS.TASK(id));
     } catch (error) {
       if (axios.isAxiosError(error)) {
-        throw new Error(
+        throw toRequestError(
+          error,
           error.response?.data?.message || 'Failed to delete task.'
         );
       }
@@ -199,8 +347,11 @@ class TaskService {
       return response.data.data;
     } catch (error) {
       if (axios.isAxiosError(error)) {
-        throw new Error(
-          error.response?.data?.message || 'Failed to update task status.'
+        throw toRequestError(
+          error,
+          error.response?.data?.message ||
+          error.response?.data?.error?.message ||
+          'Failed to update task status.'
         );
       }
       throw new Error('An unexpected error occurred while updating task status.');
@@ -229,7 +380,7 @@ class TaskService {
 
   /**
    * Search tasks with locale-aware functionality
-   * @param query - Search query string
+   * @param query - Search query, in the structured syntax understood by parseTaskQuery
    * @param localeOnly - Whether to search only in current locale (default: true)
    * @param filters - Additional filters to apply
    * @param page - Page number for pagination
@@ -243,10 +394,11 @@ class TaskService {
     perPage = 15
   ): Promise<PaginatedResponse<Task>> {
     try {
+      // Filters the API cannot express are left for matchesTaskQuery on the results
       const searchFilters: LocaleAwareTaskFilters = {
         ...filters,
-        search: query,
-        locale_search: localeOnly
+        locale_search: localeOnly,
+        ...toTaskFilters(parseTaskQuery(query))
       };
 
       return this.getTasks(searchFilters, page, perPage);
@@ -272,6 +424,95 @@ class TaskService {
     return this.createTask(subtaskData);
   }
 
+  /**
+   * Persist the order of root tasks
+   */
+  static async reorderTasks(taskIds: number[]): Promise<Task[]> {
+    try {
+      const response = await axios.put<Task[]>(
+        this.ENDPOINTS.REORDER,
+        { task_ids: taskIds }
+      );
+      
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          error.response?.data?.message || 'Failed to reorder tasks.'
+        );
+      }
+      throw new Error('An unexpected error occurred while reordering tasks.');
+    }
+  }
+
+  /**
+   * Persist the order of a parent task's subtasks
+   */
+  static async reorderSubtasks(parentId: number, subtaskIds: number[]): Promise<Task[]> {
+    try {
+      const response = await axios.put<Task[]>(
+        this.ENDPOINTS.REORDER_SUBTASKS(parentId),
+        { subtask_ids: subtaskIds }
+      );
+      
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          error.response?.data?.message || 'Failed to reorder subtasks.'
+        );
+      }
+      throw new Error('An unexpected error occurred while reordering subtasks.');
+    }
+  }
+
+  /**
+   * Move a subtask under another parent task
+   * @param position - Index among the new parent's subtasks (appended when omitted)
+   */
+  static async moveSubtask(subtaskId: number, parentId: number, position?: number): Promise<Task> {
+    try {
+      const response = await axios.put<Task>(
+        this.ENDPOINTS.MOVE_SUBTASK(subtaskId),
+        { parent_id: parentId, position }
+      );
+      
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          error.response?.data?.message || 'Failed to move subtask.'
+        );
+      }
+      throw new Error('An unexpected error occurred while moving the subtask.');
+    }
+  }
+
+  /**
+   * Update the status of, or delete, several subtasks of a parent at once
+   */
+  static async bulkSubtaskOperation(
+    parentId: number,
+    subtaskIds: number[],
+    operation: SubtaskBulkOperation
+  ): Promise<SubtaskBulkResult> {
+    try {
+      const response = await axios.post<SubtaskBulkResult>(
+        this.ENDPOINTS.BULK_SUBTASKS(parentId),
+        { ...operation, subtask_ids: subtaskIds }
+      );
+      
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          error.response?.data?.message || 'Failed to update subtasks.'
+        );
+      }
+      throw new Error('An unexpected error occurred while updating subtasks.');
+    }
+  }
+
   /**
    * Bulk update multiple tasks
    */
@@ -295,4 +536,4 @@ class TaskService {
 }
 
 export default TaskService;
-export type { TaskWithTranslations, TranslationStatus, LocaleAwareTaskFilters };
\ No newline at end of file
+export type { TaskWithTranslations, TranslationStatus, LocaleAwareTaskFilters, SubtaskBulkOperation, SubtaskBulkResult };
\ No newline at end of file
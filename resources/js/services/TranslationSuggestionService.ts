@@ -0,0 +1,111 @@
+import { Language, TranslatableField, TranslationMemoryEntry } from '@/types';
+import TaskService from './TaskService';
+import { findTranslation } from '@/utils/translationMemory';
+
+export interface TranslationSuggestionRequest {
+  field: TranslatableField;
+  text: string;
+  sourceLang: Language;
+  targetLang: Language;
+}
+
+export interface TranslationSuggestion {
+  text: string;
+  // Name of the provider, shown next to the suggestion
+  provider: string;
+  // 0-1, how sure the provider is about the translation
+  confidence: number;
+  // Text the suggestion is based on, when it is not the requested text itself
+  basedOn?: string;
+}
+
+/**
+ * A source of translation suggestions, e.g. a translation memory or a machine translation API.
+ * Returns null when it has nothing to suggest.
+ */
+export interface TranslationProvider {
+  id: string;
+  name: string;
+  suggest(request: TranslationSuggestionRequest): Promise<TranslationSuggestion | null>;
+}
+
+/**
+ * Suggests translations from texts already translated in the user's tasks.
+ * Works without any external service; the memory is loaded once and kept until reset.
+ */
+export class TranslationMemoryProvider implements TranslationProvider {
+  readonly id = 'translation-memory';
+  readonly name = 'Translation memory';
+  private entries: Promise<TranslationMemoryEntry[]> | null = null;
+
+  constructor(private readonly loadEntries: () => Promise<TranslationMemoryEntry[]> = () => TaskService.getTranslationMemory()) {}
+
+  async suggest({ field, text, sourceLang, targetLang }: TranslationSuggestionRequest): Promise<TranslationSuggestion | null> {
+    if (!this.entries) {
+      // Forget a failed load so the next suggestion tries again
+      this.entries = this.loadEntries().catch(error => {
+        this.entries = null;
+        throw error;
+      });
+    }
+
+    const match = findTranslation(await this.entries, field, text, sourceLang, targetLang);
+    if (!match) return null;
+
+    return {
+      text: match.text,
+      provider: this.name,
+      confidence: match.score,
+      basedOn: match.score < 1 ? match.sourceText : undefined
+    };
+  }
+
+  // Reload the memory on the next suggestion, e.g. after translations were saved
+  reset(): void {
+    this.entries = null;
+  }
+}
+
+export const translationMemoryProvider = new TranslationMemoryProvider();
+
+/**
+ * Asks the registered providers in order and returns the first suggestion
+ */
+class TranslationSuggestionService {
+  private static providers: TranslationProvider[] = [translationMemoryProvider];
+
+  static registerProvider(provider: TranslationProvider): void {
+    this.providers = [...this.providers.filter(existing => existing.id !== provider.id), provider];
+  }
+
+  static unregisterProvider(id: string): void {
+    this.providers = this.providers.filter(provider => provider.id !== id);
+  }
+
+  static getProviders(): TranslationProvider[] {
+    return [...this.providers];
+  }
+
+  static async suggest(request: TranslationSuggestionRequest): Promise<TranslationSuggestion | null> {
+    if (!request.text.trim() || request.sourceLang === request.targetLang) return null;
+
+    let lastError: unknown = null;
+
+    for (const provider of this.providers) {
+      try {
+        const suggestion = await provider.suggest(request);
+        if (suggestion) return suggestion;
+      } catch (error) {
+        // A failing provider should not hide suggestions from the others
+        lastError = error;
+      }
+    }
+
+    if (lastError) {
+      throw lastError instanceof Error ? lastError : new Error('Failed to get a translation suggestion.');
+    }
+    return null;
+  }
+}
+
+export default TranslationSuggestionService;
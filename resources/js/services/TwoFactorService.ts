@@ -0,0 +1,91 @@
+import axios from 'axios';
+import { AuthFormError, SettingsResponse, TwoFactorConfirmResponse, TwoFactorSetup, TwoFactorStatus } from '@/types';
+
+/**
+ * Setting up and turning off two-factor authentication for the signed in user.
+ * Starting a setup, new recovery codes and turning it off need the password.
+ */
+class TwoFactorService {
+  private static readonly ENDPOINTS = {
+    TWO_FACTOR: '/two-factor',
+    CONFIRM: '/two-factor/confirm',
+    RECOVERY_CODES: '/two-factor/recovery-codes'
+  } as const;
+
+  static async getStatus(): Promise<TwoFactorStatus> {
+    try {
+      const response = await axios.get<TwoFactorStatus>(this.ENDPOINTS.TWO_FACTOR);
+      return response.data;
+    } catch (error) {
+      this.throwFormError(error, 'Failed to load the two-factor authentication status.');
+    }
+  }
+
+  /**
+   * Start a setup; resolves with the secret to add to an authenticator app
+   */
+  static async enable(password: string): Promise<TwoFactorSetup> {
+    try {
+      const response = await axios.post<TwoFactorSetup>(this.ENDPOINTS.TWO_FACTOR, { password });
+      return response.data;
+    } catch (error) {
+      this.throwFormError(error, 'Failed to start the two-factor authentication setup.');
+    }
+  }
+
+  /**
+   * Finish the setup with a first code from the app
+   */
+  static async confirm(code: string): Promise<TwoFactorConfirmResponse> {
+    try {
+      const response = await axios.post<TwoFactorConfirmResponse>(this.ENDPOINTS.CONFIRM, { code });
+      return response.data;
+    } catch (error) {
+      this.throwFormError(error, 'Failed to confirm the code.');
+    }
+  }
+
+  static async regenerateRecoveryCodes(password: string): Promise<string[]> {
+    try {
+      const response = await axios.post<{ recovery_codes: string[] }>(this.ENDPOINTS.RECOVERY_CODES, { password });
+      return response.data.recovery_codes;
+    } catch (error) {
+      this.throwFormError(error, 'Failed to generate new recovery codes.');
+    }
+  }
+
+  /**
+   * Turn two-factor authentication off, or cancel a setup that was not confirmed
+   */
+  static async disable(password: string): Promise<SettingsResponse> {
+    try {
+      const response = await axios.delete<SettingsResponse>(this.ENDPOINTS.TWO_FACTOR, { data: { password } });
+      return response.data;
+    } catch (error) {
+      this.throwFormError(error, 'Failed to turn off two-factor authentication.');
+    }
+  }
+
+  /**
+   * Validation errors are thrown as an AuthFormError so they can be shown
+   * next to the password and code fields
+   */
+  private static throwFormError(error: unknown, fallbackMessage: string): never {
+    if (axios.isAxiosError(error)) {
+      const data = error.response?.data;
+
+      if (data && data.errors) {
+        const formError: AuthFormError = {
+          message: data.message || fallbackMessage,
+          errors: data.errors
+        };
+        throw formError;
+      }
+
+      throw new Error(data?.message || fallbackMessage);
+    }
+    throw new Error(fallbackMessage);
+  }
+}
+
+export default TwoFactorService;
@@ -1,103 +1,378 @@
-import { Task } from '@/types';
+import { Task, TaskActivity, TaskComment, TaskShare, WebSocketTokenResponse } from '@/types';
+import AuthService from '@/services/AuthService';
+
+export interface TaskCommentChange {
+  change: 'created' | 'updated' | 'deleted';
+  comment: TaskComment;
+  comments_count: number;
+}
+
+export interface TaskShareChange {
+  change: 'created' | 'updated' | 'deleted';
+  share: TaskShare;
+}
 
 export interface TaskUpdateEvent {
   task_id: number;
-  action: 'created' | 'updated' | 'deleted' | 'restored';
+  action: 'created' | 'updated' | 'deleted' | 'restored' | 'commented' | 'shared';
   task_data?: Task;
+  // Only on 'commented' events, which carry no task data
+  comment_data?: TaskCommentChange;
+  // Only on 'shared' events, sent when a collaborator is added, changes role or is removed
+  share_data?: TaskShareChange;
+  // Only on 'updated' events: the changed fields, and the version they were recorded as
+  changes?: Record<string, unknown>;
+  activity?: TaskActivity | null;
   timestamp: string;
 }
 
 export type TaskUpdateCallback = (event: TaskUpdateEvent) => void;
 
-class WebSocketService {
+export type ConnectionState =
+  | 'disconnected'
+  | 'connecting'
+  | 'authenticating'
+  | 'connected'
+  | 'reconnecting'
+  | 'failed';
+
+export type ConnectionStateCallback = (state: ConnectionState) => void;
+
+/**
+ * Messages sent by the Ratchet server (App\Services\WebSocketService)
+ */
+interface ServerMessage {
+  type?: 'connection' | 'authenticated' | 'subscribed' | 'unsubscribed' | 'pong' | 'error';
+  event?: string;
+  data?: Record<string, unknown>;
+  channels?: string[];
+  message?: string;
+  timestamp?: string;
+}
+
+export interface WebSocketServiceOptions {
+  createSocket?: (url: string) => WebSocket;
+  getToken?: () => Promise<WebSocketTokenResponse>;
+  heartbeatInterval?: number;
+  heartbeatTimeout?: number;
+  reconnectDelay?: number;
+  maxReconnectDelay?: number;
+  maxReconnectAttempts?: number;
+}
+
+const SOCKET_OPEN = 1;
+const NORMAL_CLOSURE = 1000;
+const TASK_ACTIONS: TaskUpdateEvent['action'][] = ['created', 'updated', 'deleted', 'restored', 'commented', 'shared'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+// Task payloads are TaskDTO arrays, which always carry the id and status
+const isTaskData = (data: Record<string, unknown>): data is Record<string, unknown> & Task =>
+  typeof data.id === 'number' && typeof data.status === 'string';
+
+const isActivity = (value: unknown): value is TaskActivity =>
+  isRecord(value) && typeof value.version === 'number';
+
+const isCommentChange = (data: Record<string, unknown>): data is Record<string, unknown> & TaskCommentChange =>
+  typeof data.change === 'string' && isRecord(data.comment);
+
+const isShareChange = (data: Record<string, unknown>): data is Record<string, unknown> & TaskShareChange =>
+  typeof data.change === 'string' && isRecord(data.share);
+
+export class WebSocketService {
   private ws: WebSocket | null = null;
   private callbacks: Set<TaskUpdateCallback> = new Set();
-  private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
+  private stateCallbacks: Set<ConnectionStateCallback> = new Set();
+  private channels: Set<string> = new Set();
+  private state: ConnectionState = 'disconnected';
   private userId: number | null = null;
+  private token: string | null = null;
+  private reconnectAttempts = 0;
+  private connectionId = 0;
+  private manualClose = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private readonly createSocket: (url: string) => WebSocket;
+  private readonly getToken: () => Promise<WebSocketTokenResponse>;
+  private readonly heartbeatInterval: number;
+  private readonly heartbeatTimeout: number;
+  private readonly reconnectDelay: number;
+  private readonly maxReconnectDelay: number;
+  private readonly maxReconnectAttempts: number;
+
+  constructor(options: WebSocketServiceOptions = {}) {
+    this.createSocket = options.createSocket ?? ((url: string) => new WebSocket(url));
+    this.getToken = options.getToken ?? (() => AuthService.getWebSocketToken());
+    this.heartbeatInterval = options.heartbeatInterval ?? 30000;
+    this.heartbeatTimeout = options.heartbeatTimeout ?? 10000;
+    this.reconnectDelay = options.reconnectDelay ?? 1000;
+    this.maxReconnectDelay = options.maxReconnectDelay ?? 30000;
+    this.maxReconnectAttempts = options.maxReconnectAttempts ?? 10;
+  }
 
+  /**
+   * Open the connection for a user and subscribe to their channel
+   */
   connect(userId: number) {
+    if (this.userId === userId && this.state !== 'disconnected' && this.state !== 'failed') {
+      return;
+    }
+
+    if (this.userId !== null && this.userId !== userId) {
+      this.disconnect();
+    }
+
     this.userId = userId;
-    this.connectWebSocket();
+    this.manualClose = false;
+    this.reconnectAttempts = 0;
+    this.channels.add(`user.${userId}`);
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+    }
+
+    this.openConnection();
   }
 
-  private connectWebSocket() {
+  private async openConnection() {
     if (!this.userId) return;
 
+    const connectionId = ++this.connectionId;
+    this.setState(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+
+    let credentials: WebSocketTokenResponse;
+    try {
+      credentials = await this.getToken();
+    } catch (error) {
+      console.error('Failed to get WebSocket token:', error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    // disconnect() or a newer connection attempt happened while fetching the token
+    if (connectionId !== this.connectionId || this.manualClose) return;
+
+    this.token = credentials.token;
+
     try {
-      // In a real implementation, this would connect to your WebSocket server
-      // For now, we'll simulate with a mock connection
-      console.log(`Connecting to WebSocket for user ${this.userId}`);
-      
-      // Simulate connection success
-      setTimeout(() => {
-        this.onOpen();
-      }, 100);
-
-      // Simulate periodic updates for demo purposes
-      this.startMockUpdates();
-      
+      const socket = this.createSocket(credentials.url || this.getDefaultUrl());
+      socket.onopen = () => this.onOpen();
+      socket.onmessage = (event: MessageEvent) => this.onMessage(event);
+      socket.onerror = () => this.onError();
+      socket.onclose = () => this.onClose(socket);
+      this.ws = socket;
     } catch (error) {
       console.error('WebSocket connection failed:', error);
-      this.onError();
+      this.scheduleReconnect();
     }
   }
 
-  private startMockUpdates() {
-    // This is just for demonstration - in a real app, updates would come from the server
-    setInterval(() => {
-      if (Math.random() > 0.95) { // 5% chance every interval
-        const mockEvent: TaskUpdateEvent = {
-          task_id: Math.floor(Math.random() * 100),
-          action: 'updated',
-          timestamp: new Date().toISOString()
-        };
-        this.notifyCallbacks(mockEvent);
-      }
-    }, 5000);
+  private getDefaultUrl(): string {
+    const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+    return `${protocol}://${window.location.hostname}:8080`;
   }
 
   private onOpen() {
-    console.log('WebSocket connected');
-    this.reconnectAttempts = 0;
+    this.setState('authenticating');
+    this.send({ type: 'authenticate', user_id: this.userId, token: this.token });
   }
 
   private onMessage(event: MessageEvent) {
+    let message: ServerMessage;
     try {
-      const data: TaskUpdateEvent = JSON.parse(event.data);
-      this.notifyCallbacks(data);
+      message = JSON.parse(event.data);
     } catch (error) {
       console.error('Failed to parse WebSocket message:', error);
+      return;
+    }
+
+    switch (message.type) {
+      case 'connection':
+        break;
+      case 'authenticated':
+        this.reconnectAttempts = 0;
+        this.startHeartbeat();
+        // Resubscribe to every channel, including after a reconnect
+        this.send({ type: 'subscribe', channels: Array.from(this.channels) });
+        break;
+      case 'subscribed':
+        this.setState('connected');
+        break;
+      case 'unsubscribed':
+        break;
+      case 'pong':
+        this.clearPongTimer();
+        break;
+      case 'error':
+        console.warn('WebSocket server error:', message.message);
+        if (this.state === 'authenticating') {
+          // Token was rejected; reconnecting fetches a fresh one
+          this.ws?.close();
+        }
+        break;
+      default:
+        if (message.event) {
+          this.handleServerEvent(message);
+        }
     }
   }
 
+  /**
+   * Translate TaskEventService payloads ({ event: 'task.updated', data }) into TaskUpdateEvents
+   */
+  private handleServerEvent(message: ServerMessage) {
+    const [scope, action] = (message.event || '').split('.');
+    if (scope !== 'task' || !TASK_ACTIONS.includes(action as TaskUpdateEvent['action']) || !message.data) {
+      return;
+    }
+
+    const { data } = message;
+    const event: TaskUpdateEvent = {
+      task_id: Number(data.id),
+      action: action as TaskUpdateEvent['action'],
+      timestamp: message.timestamp || new Date().toISOString()
+    };
+
+    if (action === 'created' || action === 'restored') {
+      if (!isTaskData(data)) return;
+      event.task_data = data;
+    }
+
+    if (action === 'commented') {
+      if (!isCommentChange(data)) return;
+      const { change, comment, comments_count } = data;
+      event.comment_data = { change, comment, comments_count: Number(comments_count) };
+    }
+
+    if (action === 'shared') {
+      if (!isShareChange(data)) return;
+      const { change, share } = data;
+      event.share_data = { change, share };
+    }
+
+    if (action === 'updated') {
+      const { changes, activity, ...task } = data;
+      if (!isTaskData(task)) return;
+      event.task_data = task;
+      event.changes = isRecord(changes) ? changes : {};
+      event.activity = isActivity(activity) ? activity : null;
+    }
+
+    this.notifyCallbacks(event);
+  }
+
   private onError() {
     console.error('WebSocket error occurred');
-    this.reconnect();
   }
 
-  private onClose() {
-    console.log('WebSocket connection closed');
-    this.reconnect();
+  private onClose(socket: WebSocket) {
+    // Ignore close events from sockets we already replaced
+    if (this.ws !== socket) return;
+
+    this.ws = null;
+    this.stopHeartbeat();
+
+    if (this.manualClose) {
+      this.setState('disconnected');
+      return;
+    }
+
+    this.scheduleReconnect();
   }
 
-  private reconnect() {
+  private scheduleReconnect() {
+    if (this.manualClose || !this.userId) return;
+
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
       console.error('Max reconnection attempts reached');
+      this.setState('failed');
       return;
     }
 
     this.reconnectAttempts++;
-    const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
-    
-    console.log(`Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts})`);
-    
-    setTimeout(() => {
-      this.connectWebSocket();
+    const delay = Math.min(
+      this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1),
+      this.maxReconnectDelay
+    );
+
+    this.setState('reconnecting');
+    this.clearReconnectTimer();
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openConnection();
     }, delay);
   }
 
+  private handleOnline = () => {
+    if (this.state === 'failed' || this.state === 'reconnecting') {
+      this.clearReconnectTimer();
+      this.reconnectAttempts = 0;
+      this.openConnection();
+    }
+  };
+
+  private startHeartbeat() {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.pongTimer) {
+        this.pongTimer = setTimeout(() => {
+          this.pongTimer = null;
+          console.warn('WebSocket heartbeat timed out, reconnecting');
+          this.ws?.close();
+        }, this.heartbeatTimeout);
+      }
+
+      this.send({ type: 'ping' });
+    }, this.heartbeatInterval);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.clearPongTimer();
+  }
+
+  private clearPongTimer() {
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private send(message: Record<string, unknown>): boolean {
+    if (!this.ws || this.ws.readyState !== SOCKET_OPEN) {
+      return false;
+    }
+
+    this.ws.send(JSON.stringify(message));
+    return true;
+  }
+
+  private setState(state: ConnectionState) {
+    if (this.state === state) return;
+
+    this.state = state;
+    this.stateCallbacks.forEach(callback => {
+      try {
+        callback(state);
+      } catch (error) {
+        console.error('Error in WebSocket state callback:', error);
+      }
+    });
+  }
+
   private notifyCallbacks(event: TaskUpdateEvent) {
     this.callbacks.forEach(callback => {
       try {
@@ -110,38 +385,46 @@ class WebSocketService {
 
   subscribe(callback: TaskUpdateCallback) {
     this.callbacks.add(callback);
-    
+
     return () => {
       this.callbacks.delete(callback);
     };
   }
 
+  onStateChange(callback: ConnectionStateCallback) {
+    this.stateCallbacks.add(callback);
+
+    return () => {
+      this.stateCallbacks.delete(callback);
+    };
+  }
+
+  getState(): ConnectionState {
+    return this.state;
+  }
+
   disconnect() {
+    this.manualClose = true;
+    this.connectionId++;
+    this.clearReconnectTimer();
+    this.stopHeartbeat();
+
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+    }
+
     if (this.ws) {
-      this.ws.close();
+      const socket = this.ws;
       this.ws = null;
+      socket.close(NORMAL_CLOSURE, 'Client disconnect');
     }
-    this.callbacks.clear();
-    this.userId = null;
-  }
 
-  // Method to send task updates (for optimistic updates)
-  sendTaskUpdate(taskId: number, action: TaskUpdateEvent['action'], taskData?: Task) {
-    const event: TaskUpdateEvent = {
-      task_id: taskId,
-      action,
-      task_data: taskData,
-      timestamp: new Date().toISOString()
-    };
-    
-    // In a real implementation, this would send to the server
-    console.log('Sending task update:', event);
-    
-    // For demo purposes, echo back the update
-    setTimeout(() => {
-      this.notifyCallbacks(event);
-    }, 100);
+    this.channels.clear();
+    this.userId = null;
+    this.token = null;
+    this.reconnectAttempts = 0;
+    this.setState('disconnected');
   }
 }
 
-export const webSocketService = new WebSocketService();
\ No newline at end of file
+export const webSocketService = new WebSocketService();
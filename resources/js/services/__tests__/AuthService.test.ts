@@ -1,3 +1,4 @@
+// @vitest-environment jsdom
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import axios from 'axios';
 import AuthService from '../AuthService';
@@ -5,7 +6,7 @@ import { LoginCredentials, RegisterData } from '@/types';
 
 // Mock axios
 vi.mock('axios');
-const mockedAxios = vi.mocked(axios);
+const mockedAxios = vi.mocked(axios, true);
 
 // Mock localStorage
 const localStorageMock = {
@@ -191,4 +192,98 @@ describe('AuthService', () => {
       expect(localStorageMock.removeItem).toHaveBeenCalledWith('auth_token');
     });
   });
-});
\ No newline at end of file
+
+  describe('password reset', () => {
+    it('should request a reset link after getting the CSRF cookie', async () => {
+      mockedAxios.get.mockResolvedValueOnce({});
+      mockedAxios.post.mockResolvedValueOnce({ data: { message: 'Reset link sent' } });
+
+      const result = await AuthService.forgotPassword({ email: 'test@example.com' });
+
+      expect(mockedAxios.get).toHaveBeenCalledWith('/sanctum/csrf-cookie');
+      expect(mockedAxios.post).toHaveBeenCalledWith('/auth/forgot-password', { email: 'test@example.com' });
+      expect(result).toBe('Reset link sent');
+    });
+
+    it('should throw validation errors with their fields', async () => {
+      const data = {
+        token: 'expired',
+        email: 'test@example.com',
+        password: 'Secret-123',
+        password_confirmation: 'Secret-123'
+      };
+      mockedAxios.get.mockResolvedValueOnce({});
+      mockedAxios.post.mockRejectedValueOnce({
+        response: { data: { message: 'This password reset token is invalid.', errors: { token: ['This password reset token is invalid.'] } } }
+      });
+      mockedAxios.isAxiosError.mockReturnValueOnce(true);
+
+      await expect(AuthService.resetPassword(data)).rejects.toEqual({
+        message: 'This password reset token is invalid.',
+        errors: { token: ['This password reset token is invalid.'] }
+      });
+      expect(mockedAxios.post).toHaveBeenCalledWith('/auth/reset-password', data);
+    });
+
+    it('should use the message of rate limited responses', async () => {
+      mockedAxios.get.mockResolvedValueOnce({});
+      mockedAxios.post.mockRejectedValueOnce({
+        response: { status: 429, data: { error: { message: 'Too many attempts. Please try again later.' } } }
+      });
+      mockedAxios.isAxiosError.mockReturnValueOnce(true);
+
+      await expect(AuthService.forgotPassword({ email: 'test@example.com' }))
+        .rejects.toThrow('Too many attempts. Please try again later.');
+    });
+  });
+
+  describe('resendVerificationEmail', () => {
+    it('should ask for a new verification link', async () => {
+      mockedAxios.post.mockResolvedValueOnce({ data: { message: 'Verification link sent' } });
+
+      await expect(AuthService.resendVerificationEmail()).resolves.toBe('Verification link sent');
+      expect(mockedAxios.post).toHaveBeenCalledWith('/auth/email/verification-notification');
+    });
+  });
+
+  describe('two-factor authentication', () => {
+    it('should report when the password needs a second factor', async () => {
+      mockedAxios.get.mockResolvedValueOnce({});
+      mockedAxios.post.mockResolvedValueOnce({
+        data: { two_factor_required: true, message: 'Enter the code from your authenticator app.' }
+      });
+
+      const result = await AuthService.login({ email: 'test@example.com', password: 'password123' });
+
+      expect(result).toEqual({ two_factor_required: true, message: 'Enter the code from your authenticator app.' });
+    });
+
+    it('should finish the sign-in with a code', async () => {
+      const user = { id: 1, name: 'Test User', email: 'test@example.com', two_factor_enabled: true };
+      mockedAxios.post.mockResolvedValueOnce({ data: { user, message: 'Login successful' } });
+
+      const result = await AuthService.twoFactorChallenge({ code: '123456', remember_device: true });
+
+      expect(mockedAxios.post).toHaveBeenCalledWith('/auth/two-factor-challenge', { code: '123456', remember_device: true });
+      expect(result.user).toEqual(user);
+    });
+
+    it('should throw a wrong recovery code as a field error', async () => {
+      mockedAxios.post.mockRejectedValueOnce({
+        response: {
+          status: 422,
+          data: {
+            message: 'The recovery code is invalid or has already been used.',
+            errors: { recovery_code: ['The recovery code is invalid or has already been used.'] }
+          }
+        }
+      });
+      mockedAxios.isAxiosError.mockReturnValueOnce(true);
+
+      await expect(AuthService.twoFactorChallenge({ recovery_code: 'abcde-fghij' })).rejects.toEqual({
+        message: 'The recovery code is invalid or has already been used.',
+        errors: { recovery_code: ['The recovery code is invalid or has already been used.'] }
+      });
+    });
+  });
+});
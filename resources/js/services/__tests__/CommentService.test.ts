@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import axios from 'axios';
+import CommentService from '../CommentService';
+
+vi.mock('axios');
+const mockedAxios = vi.mocked(axios, true);
+
+const comment = {
+  id: 5,
+  task_id: 12,
+  body: 'Looks good @[Ann](user:9)',
+  mentions: [9],
+  user: { id: 7, name: 'Bob' },
+  edited_at: null,
+  created_at: '2025-07-29T10:00:00.000Z',
+  updated_at: '2025-07-29T10:00:00.000Z'
+};
+
+describe('CommentService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should load, add, edit and delete comments of a task', async () => {
+    mockedAxios.get.mockResolvedValueOnce({ data: [comment] });
+    await expect(CommentService.getComments(12)).resolves.toEqual([comment]);
+    expect(mockedAxios.get).toHaveBeenCalledWith('/tasks/12/comments');
+
+    mockedAxios.post.mockResolvedValueOnce({ data: comment });
+    await CommentService.addComment(12, comment.body);
+    expect(mockedAxios.post).toHaveBeenCalledWith('/tasks/12/comments', { body: comment.body });
+
+    mockedAxios.put.mockResolvedValueOnce({ data: { ...comment, body: 'Edited' } });
+    await expect(CommentService.updateComment(12, 5, 'Edited')).resolves.toMatchObject({ body: 'Edited' });
+    expect(mockedAxios.put).toHaveBeenCalledWith('/tasks/12/comments/5', { body: 'Edited' });
+
+    mockedAxios.delete.mockResolvedValueOnce({ data: null });
+    await CommentService.deleteComment(12, 5);
+    expect(mockedAxios.delete).toHaveBeenCalledWith('/tasks/12/comments/5');
+  });
+
+  it('should only send a mention query when something was typed', async () => {
+    mockedAxios.get.mockResolvedValue({ data: [{ id: 9, name: 'Ann' }] });
+
+    await expect(CommentService.getMentionableUsers(12, 'an')).resolves.toEqual([{ id: 9, name: 'Ann' }]);
+    expect(mockedAxios.get).toHaveBeenLastCalledWith('/tasks/12/mentionable-users', { params: { query: 'an' } });
+
+    await CommentService.getMentionableUsers(12);
+    expect(mockedAxios.get).toHaveBeenLastCalledWith('/tasks/12/mentionable-users', { params: undefined });
+  });
+
+  it('should throw validation and domain error messages, or a fallback', async () => {
+    mockedAxios.post.mockRejectedValueOnce({ response: { status: 422, data: { message: 'The body field is required.' } } });
+    mockedAxios.isAxiosError.mockReturnValueOnce(true);
+    await expect(CommentService.addComment(12, '')).rejects.toThrow('The body field is required.');
+
+    mockedAxios.put.mockRejectedValueOnce({ response: { status: 404, data: { error: { message: "Comment with ID '5' not found" } } } });
+    mockedAxios.isAxiosError.mockReturnValueOnce(true);
+    await expect(CommentService.updateComment(12, 5, 'x')).rejects.toThrow("Comment with ID '5' not found");
+
+    mockedAxios.delete.mockRejectedValueOnce(new Error('Network Error'));
+    mockedAxios.isAxiosError.mockReturnValueOnce(false);
+    await expect(CommentService.deleteComment(12, 5)).rejects.toThrow('Failed to delete the comment. Please try again.');
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import axios from 'axios';
+import LabelService from '../LabelService';
+
+vi.mock('axios');
+const mockedAxios = vi.mocked(axios, true);
+
+const label = {
+  id: 4,
+  user_id: 7,
+  name: 'Frontend',
+  color: '#8b5cf6',
+  tasks_count: 0,
+  created_at: '2025-08-02T10:00:00.000Z',
+  updated_at: '2025-08-02T10:00:00.000Z'
+};
+
+describe('LabelService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should load, create, change and delete labels', async () => {
+    mockedAxios.get.mockResolvedValueOnce({ data: [label] });
+    await expect(LabelService.getLabels()).resolves.toEqual([label]);
+    expect(mockedAxios.get).toHaveBeenCalledWith('/labels');
+
+    mockedAxios.post.mockResolvedValueOnce({ data: label });
+    await LabelService.createLabel({ name: 'Frontend', color: '#8b5cf6' });
+    expect(mockedAxios.post).toHaveBeenCalledWith('/labels', { name: 'Frontend', color: '#8b5cf6' });
+
+    mockedAxios.put.mockResolvedValueOnce({ data: { ...label, color: '#ef4444' } });
+    await expect(LabelService.updateLabel(4, { color: '#ef4444' })).resolves.toMatchObject({ color: '#ef4444' });
+    expect(mockedAxios.put).toHaveBeenCalledWith('/labels/4', { color: '#ef4444' });
+
+    mockedAxios.delete.mockResolvedValueOnce({ data: null });
+    await LabelService.deleteLabel(4);
+    expect(mockedAxios.delete).toHaveBeenCalledWith('/labels/4');
+  });
+
+  it('should throw validation errors by field, or a message', async () => {
+    const errors = { name: ['You already have a label with this name.'] };
+    mockedAxios.post.mockRejectedValueOnce({ response: { status: 422, data: { message: 'You already have a label with this name.', errors } } });
+    mockedAxios.isAxiosError.mockReturnValueOnce(true);
+    await expect(LabelService.createLabel({ name: 'Frontend', color: '#8b5cf6' }))
+      .rejects.toEqual({ message: 'You already have a label with this name.', errors });
+
+    mockedAxios.delete.mockRejectedValueOnce(new Error('Network Error'));
+    mockedAxios.isAxiosError.mockReturnValueOnce(false);
+    await expect(LabelService.deleteLabel(4)).rejects.toThrow('Failed to delete the label. Please try again.');
+  });
+});
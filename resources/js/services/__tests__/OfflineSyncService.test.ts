@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { OfflineSyncService, TaskMutation, applyPendingMutations } from '../OfflineSyncService';
+import { MemoryOfflineStorage } from '../OfflineStorage';
+import { RequestError } from '@/utils/requestErrors';
+import { Task, TaskFormData } from '@/types';
+
+const formData = (name: string, parentId?: number): TaskFormData => ({
+  name: { en: name },
+  status: 'pending',
+  priority: 'medium',
+  parent_id: parentId
+});
+
+const task = (id: number, overrides: Partial<Task> = {}): Task => ({
+  id,
+  name: `Task ${id}`,
+  status: 'pending',
+  priority: 'medium',
+  user_id: 7,
+  created_at: '2025-07-21T10:00:00.000Z',
+  updated_at: '2025-07-21T10:00:00.000Z',
+  ...overrides
+});
+
+describe('OfflineSyncService', () => {
+  let online: boolean;
+  let storage: MemoryOfflineStorage;
+  let executed: TaskMutation[];
+  let execute: ReturnType<typeof vi.fn>;
+  let service: OfflineSyncService;
+  let nextId: number;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    online = false;
+    storage = new MemoryOfflineStorage();
+    executed = [];
+    nextId = 100;
+    execute = vi.fn(async (mutation: TaskMutation) => {
+      executed.push(mutation);
+      if (mutation.type === 'create') {
+        return task(nextId++, { parent_id: mutation.data.parent_id });
+      }
+    });
+    service = new OfflineSyncService({ storage, execute, isOnline: () => online });
+    await service.setUser(7);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should queue mutations while offline and count them as pending', async () => {
+    expect(service.shouldQueue({ type: 'update', task_id: 1, data: { status: 'completed' } })).toBe(true);
+
+    await service.enqueue({ type: 'update', task_id: 1, data: { status: 'completed' } });
+    await service.enqueue({ type: 'delete', task_id: 2 });
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(service.getStatus()).toEqual({ online: false, pending: 2, syncing: false });
+  });
+
+  it('should replay the queue in order and remap temporary ids, including for subtasks', async () => {
+    await service.enqueue({ type: 'create', temp_id: -1, data: formData('Parent') });
+    await service.enqueue({ type: 'create', temp_id: -2, data: formData('Child', -1) });
+    await service.enqueue({ type: 'update', task_id: -2, data: { status: 'completed' } });
+    await service.enqueue({ type: 'update', task_id: 5, data: { priority: 'high' } });
+
+    online = true;
+    const result = await service.sync();
+
+    expect(executed).toMatchObject([
+      { type: 'create', temp_id: -1, data: formData('Parent') },
+      { type: 'create', temp_id: -2, data: formData('Child', 100) },
+      { type: 'update', task_id: 101, data: { status: 'completed' } },
+      { type: 'update', task_id: 5, data: { priority: 'high' } }
+    ]);
+    expect(result).toEqual({ synced: 4, failed: [], idMap: { [-1]: 100, [-2]: 101 } });
+    expect(service.getStatus().pending).toBe(0);
+  });
+
+  it('should keep the rest of the queue when the connection drops during replay', async () => {
+    await service.enqueue({ type: 'create', temp_id: -1, data: formData('First') });
+    await service.enqueue({ type: 'update', task_id: -1, data: { status: 'in_progress' } });
+
+    online = true;
+    execute.mockImplementationOnce(async () => task(100));
+    execute.mockImplementationOnce(async () => {
+      online = false;
+      throw new Error('Failed to update task. Please try again.');
+    });
+
+    const result = await service.sync();
+
+    expect(result.synced).toBe(1);
+    expect(result.failed).toEqual([]);
+    expect(await service.getPendingMutations()).toMatchObject([
+      { type: 'update', task_id: 100, data: { status: 'in_progress' } }
+    ]);
+  });
+
+  it('should drop rejected mutations and the changes that depend on them', async () => {
+    await service.enqueue({ type: 'create', temp_id: -1, data: formData('Invalid') });
+    await service.enqueue({ type: 'create', temp_id: -2, data: formData('Child', -1) });
+    await service.enqueue({ type: 'delete', task_id: 3 });
+
+    online = true;
+    execute.mockImplementationOnce(async () => {
+      throw new Error('The name field is required.');
+    });
+
+    const result = await service.sync();
+
+    expect(result.synced).toBe(1);
+    expect(result.failed.map(({ error }) => error)).toEqual([
+      'The name field is required.',
+      'Depends on a task that could not be created'
+    ]);
+    expect(executed).toMatchObject([{ type: 'delete', task_id: 3 }]);
+  });
+
+  it('should keep the queue when the server can\'t be reached while online', async () => {
+    await service.enqueue({ type: 'update', task_id: 1, data: { status: 'completed' } });
+    await service.enqueue({ type: 'delete', task_id: 2 });
+
+    online = true;
+    execute.mockImplementationOnce(async () => {
+      throw new RequestError('Failed to update task. Please try again.', null);
+    });
+    const unreachable = await service.sync();
+
+    execute.mockImplementationOnce(async () => {
+      throw new RequestError('Failed to update task. Please try again.', 503);
+    });
+    const serverError = await service.sync();
+
+    expect(unreachable).toEqual({ synced: 0, failed: [], idMap: {} });
+    expect(serverError).toEqual({ synced: 0, failed: [], idMap: {} });
+    expect(await service.getPendingMutations()).toMatchObject([
+      { type: 'update', task_id: 1 },
+      { type: 'delete', task_id: 2 }
+    ]);
+  });
+
+  it('should retry an unreachable server while online and give up after a few attempts', async () => {
+    await service.enqueue({ type: 'update', task_id: 1, data: { status: 'completed' } });
+    await service.enqueue({ type: 'delete', task_id: 2 });
+
+    online = true;
+    const completed = vi.fn();
+    service.onSyncComplete(completed);
+    execute.mockImplementation(async (mutation: TaskMutation) => {
+      executed.push(mutation);
+      if (mutation.type === 'update') {
+        throw new RequestError('Failed to update task. Please try again.', 504);
+      }
+    });
+
+    await service.sync();
+    for (let attempt = 0; attempt < 4; attempt++) {
+      await vi.advanceTimersByTimeAsync(30_000);
+    }
+
+    expect(executed.filter(({ type }) => type === 'update')).toHaveLength(5);
+    expect(completed).toHaveBeenLastCalledWith({
+      synced: 1,
+      failed: [{ mutation: expect.objectContaining({ task_id: 1 }), error: 'Failed to update task. Please try again.' }],
+      idMap: {}
+    });
+    expect(await service.getPendingMutations()).toEqual([]);
+  });
+
+  it('should drop a mutation that fails with a server error and replay the rest', async () => {
+    await service.enqueue({ type: 'update', task_id: 1, data: { status: 'completed' } });
+    await service.enqueue({ type: 'delete', task_id: 2 });
+
+    online = true;
+    execute.mockImplementationOnce(async () => {
+      throw new RequestError('Failed to update task. Please try again.', 500);
+    });
+    const result = await service.sync();
+
+    expect(result.synced).toBe(1);
+    expect(result.failed.map(({ error }) => error)).toEqual(['Failed to update task. Please try again.']);
+    expect(await service.getPendingMutations()).toEqual([]);
+  });
+
+  it('should drop a mutation the server turns down with a client error', async () => {
+    await service.enqueue({ type: 'update', task_id: 1, data: { status: 'completed' } });
+
+    online = true;
+    execute.mockImplementationOnce(async () => {
+      throw new RequestError('This task cannot be completed yet.', 422);
+    });
+    const result = await service.sync();
+
+    expect(result.failed.map(({ error }) => error)).toEqual(['This task cannot be completed yet.']);
+    expect(await service.getPendingMutations()).toEqual([]);
+  });
+
+  it('should queue a change that failed to reach the server while online', () => {
+    online = true;
+    const mutation: TaskMutation = { type: 'delete', task_id: 2 };
+
+    expect(service.shouldQueue(mutation)).toBe(false);
+    expect(service.shouldQueue(mutation, new RequestError('Failed to delete task.', null))).toBe(true);
+    expect(service.shouldQueue(mutation, new RequestError('Failed to delete task.', 502))).toBe(true);
+    expect(service.shouldQueue(mutation, new RequestError('Failed to delete task.', 500))).toBe(false);
+    expect(service.shouldQueue(mutation, new RequestError('Not found.', 404))).toBe(false);
+  });
+
+  it('should cancel queued changes when an unsynced task is deleted', async () => {
+    await service.enqueue({ type: 'create', temp_id: -1, data: formData('Parent') });
+    await service.enqueue({ type: 'create', temp_id: -2, data: formData('Child', -1) });
+    await service.enqueue({ type: 'update', task_id: -2, data: { status: 'completed' } });
+    await service.enqueue({ type: 'update', task_id: 5, data: { priority: 'low' } });
+
+    await service.enqueue({ type: 'delete', task_id: -1 });
+
+    expect(await service.getPendingMutations()).toMatchObject([
+      { type: 'update', task_id: 5, data: { priority: 'low' } }
+    ]);
+  });
+
+  it('should serve cached task lists with pending mutations applied', async () => {
+    await service.cacheTaskList('page-1', {
+      data: [task(1), task(2)],
+      current_page: 1,
+      last_page: 1,
+      per_page: 15,
+      total: 2
+    });
+    await service.enqueue({ type: 'create', temp_id: -1, data: formData('Offline task') });
+    await service.enqueue({ type: 'update', task_id: 1, data: { status: 'completed' } });
+    await service.enqueue({ type: 'delete', task_id: 2 });
+
+    const cached = await service.getCachedTaskList('page-1');
+
+    expect(cached?.data.map(({ id, status }) => ({ id, status }))).toEqual([
+      { id: -1, status: 'pending' },
+      { id: 1, status: 'completed' }
+    ]);
+    expect(await service.getCachedTaskList('page-2')).toBeUndefined();
+  });
+});
+
+describe('applyPendingMutations', () => {
+  it('should not add an offline task twice', () => {
+    const mutations: TaskMutation[] = [{ type: 'create', temp_id: -1, data: formData('Offline task') }];
+    const once = applyPendingMutations([], mutations);
+
+    expect(applyPendingMutations(once, mutations)).toHaveLength(1);
+  });
+});
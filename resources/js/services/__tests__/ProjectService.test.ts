@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import axios from 'axios';
+import ProjectService from '../ProjectService';
+
+vi.mock('axios');
+const mockedAxios = vi.mocked(axios, true);
+
+const project = {
+  id: 3,
+  user_id: 7,
+  name: 'Website',
+  key: 'WEB',
+  color: '#3b82f6',
+  description: null,
+  archived_at: null,
+  tasks_count: 0,
+  created_at: '2025-08-01T10:00:00.000Z',
+  updated_at: '2025-08-01T10:00:00.000Z'
+};
+
+describe('ProjectService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should load, create, change, archive and delete projects', async () => {
+    mockedAxios.get.mockResolvedValueOnce({ data: [project] });
+    await expect(ProjectService.getProjects()).resolves.toEqual([project]);
+    expect(mockedAxios.get).toHaveBeenCalledWith('/projects');
+
+    mockedAxios.post.mockResolvedValueOnce({ data: project });
+    await ProjectService.createProject({ name: 'Website', key: 'WEB', color: '#3b82f6' });
+    expect(mockedAxios.post).toHaveBeenCalledWith('/projects', { name: 'Website', key: 'WEB', color: '#3b82f6' });
+
+    mockedAxios.put.mockResolvedValueOnce({ data: { ...project, name: 'Web site' } });
+    await expect(ProjectService.updateProject(3, { name: 'Web site' })).resolves.toMatchObject({ name: 'Web site' });
+    expect(mockedAxios.put).toHaveBeenCalledWith('/projects/3', { name: 'Web site' });
+
+    mockedAxios.put.mockResolvedValueOnce({ data: { ...project, archived_at: '2025-08-02T10:00:00.000Z' } });
+    await ProjectService.updateProject(3, { archived: true });
+    expect(mockedAxios.put).toHaveBeenLastCalledWith('/projects/3', { archived: true });
+
+    mockedAxios.delete.mockResolvedValueOnce({ data: null });
+    await ProjectService.deleteProject(3);
+    expect(mockedAxios.delete).toHaveBeenCalledWith('/projects/3');
+  });
+
+  it('should throw validation errors by field, or a message', async () => {
+    const errors = { key: ['You already have a project with this key.'] };
+    mockedAxios.post.mockRejectedValueOnce({ response: { status: 422, data: { message: 'You already have a project with this key.', errors } } });
+    mockedAxios.isAxiosError.mockReturnValueOnce(true);
+    await expect(ProjectService.createProject({ name: 'Web', key: 'WEB', color: '#3b82f6' }))
+      .rejects.toEqual({ message: 'You already have a project with this key.', errors });
+
+    mockedAxios.put.mockRejectedValueOnce({ response: { status: 404, data: { message: 'Not found.' } } });
+    mockedAxios.isAxiosError.mockReturnValueOnce(true);
+    await expect(ProjectService.updateProject(9, { archived: true })).rejects.toThrow('Not found.');
+
+    mockedAxios.delete.mockRejectedValueOnce(new Error('Network Error'));
+    mockedAxios.isAxiosError.mockReturnValueOnce(false);
+    await expect(ProjectService.deleteProject(3)).rejects.toThrow('Failed to delete the project. Please try again.');
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import axios from 'axios';
+import SessionService from '../SessionService';
+
+vi.mock('axios');
+const mockedAxios = vi.mocked(axios, true);
+
+describe('SessionService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should load sessions and tokens', async () => {
+    const data = {
+      sessions: [{
+        id: 'abc',
+        ip_address: '127.0.0.1',
+        device: { browser: 'Firefox', platform: 'Linux', is_mobile: false },
+        last_active_at: '2026-06-01T12:00:00Z',
+        is_current: true
+      }],
+      sessions_supported: true,
+      tokens: []
+    };
+    mockedAxios.get.mockResolvedValueOnce({ data });
+
+    await expect(SessionService.getSessions()).resolves.toEqual(data);
+    expect(mockedAxios.get).toHaveBeenCalledWith('/sessions');
+  });
+
+  it('should escape session ids and report how many other sessions were ended', async () => {
+    mockedAxios.delete.mockResolvedValueOnce({ data: {} });
+    await SessionService.revokeSession('a/b');
+    expect(mockedAxios.delete).toHaveBeenCalledWith('/sessions/a%2Fb');
+
+    mockedAxios.delete.mockResolvedValueOnce({ data: { revoked: 2 } });
+    await expect(SessionService.revokeOtherSessions()).resolves.toBe(2);
+    expect(mockedAxios.delete).toHaveBeenLastCalledWith('/sessions/others');
+  });
+
+  it('should throw the server message or a fallback', async () => {
+    mockedAxios.delete.mockRejectedValueOnce({ response: { status: 422, data: { message: 'Use sign out to end the current session.' } } });
+    mockedAxios.isAxiosError.mockReturnValueOnce(true);
+    await expect(SessionService.revokeSession('abc')).rejects.toThrow('Use sign out to end the current session.');
+
+    mockedAxios.delete.mockRejectedValueOnce(new Error('Network Error'));
+    mockedAxios.isAxiosError.mockReturnValueOnce(false);
+    await expect(SessionService.revokeToken(3)).rejects.toThrow('Failed to revoke the token.');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import axios from 'axios';
+import SettingsService from '../SettingsService';
+
+vi.mock('axios');
+const mockedAxios = vi.mocked(axios, true);
+
+const user = {
+  id: 1,
+  name: 'Test User',
+  email: 'test@example.com',
+  preferred_language: 'de',
+  timezone: 'Europe/Berlin',
+  theme: 'dark' as const,
+  default_task_view: 'grid' as const,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z'
+};
+
+describe('SettingsService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should save preferences and return the updated user', async () => {
+    mockedAxios.put.mockResolvedValueOnce({ data: { user, message: 'Preferences updated successfully' } });
+
+    const result = await SettingsService.updatePreferences({ preferred_language: 'de', timezone: 'Europe/Berlin' });
+
+    expect(mockedAxios.put).toHaveBeenCalledWith('/settings/preferences', {
+      preferred_language: 'de',
+      timezone: 'Europe/Berlin'
+    });
+    expect(result.user).toEqual(user);
+  });
+
+  it('should throw validation errors with their fields', async () => {
+    mockedAxios.put.mockRejectedValueOnce({
+      response: {
+        status: 422,
+        data: { message: 'The current password is incorrect.', errors: { current_password: ['The current password is incorrect.'] } }
+      }
+    });
+    mockedAxios.isAxiosError.mockReturnValueOnce(true);
+
+    await expect(SettingsService.updatePassword({
+      current_password: 'wrong',
+      password: 'New-Secret-123',
+      password_confirmation: 'New-Secret-123'
+    })).rejects.toEqual({
+      message: 'The current password is incorrect.',
+      errors: { current_password: ['The current password is incorrect.'] }
+    });
+  });
+
+  it('should throw other failures as errors', async () => {
+    mockedAxios.put.mockRejectedValueOnce({ response: { status: 500, data: {} } });
+    mockedAxios.isAxiosError.mockReturnValueOnce(true);
+
+    await expect(SettingsService.updateProfile({ name: 'Test User', email: 'test@example.com' }))
+      .rejects.toThrow('Failed to update your profile.');
+  });
+});
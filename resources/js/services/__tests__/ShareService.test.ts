@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import axios from 'axios';
+import ShareService from '../ShareService';
+
+vi.mock('axios');
+const mockedAxios = vi.mocked(axios, true);
+
+const share = {
+  id: 3,
+  task_id: 12,
+  role: 'viewer' as const,
+  user: { id: 9, name: 'Ann', email: 'ann@example.com' },
+  created_at: '2025-07-31T10:00:00.000Z'
+};
+
+describe('ShareService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should load, add, change and remove the collaborators of a task', async () => {
+    const sharing = { owner: { id: 7, name: 'Bob', email: 'bob@example.com' }, role: 'owner', shares: [share] };
+    mockedAxios.get.mockResolvedValueOnce({ data: sharing });
+    await expect(ShareService.getSharing(12)).resolves.toEqual(sharing);
+    expect(mockedAxios.get).toHaveBeenCalledWith('/tasks/12/shares');
+
+    mockedAxios.post.mockResolvedValueOnce({ data: share });
+    await ShareService.shareTask(12, 'ann@example.com', 'viewer');
+    expect(mockedAxios.post).toHaveBeenCalledWith('/tasks/12/shares', { email: 'ann@example.com', role: 'viewer' });
+
+    mockedAxios.put.mockResolvedValueOnce({ data: { ...share, role: 'editor' } });
+    await expect(ShareService.updateShare(12, 3, 'editor')).resolves.toMatchObject({ role: 'editor' });
+    expect(mockedAxios.put).toHaveBeenCalledWith('/tasks/12/shares/3', { role: 'editor' });
+
+    mockedAxios.delete.mockResolvedValueOnce({ data: null });
+    await ShareService.removeShare(12, 3);
+    expect(mockedAxios.delete).toHaveBeenCalledWith('/tasks/12/shares/3');
+  });
+
+  it('should throw domain error messages, or a fallback', async () => {
+    mockedAxios.post.mockRejectedValueOnce({ response: { status: 422, data: { error: { message: 'No account uses this email address.' } } } });
+    mockedAxios.isAxiosError.mockReturnValueOnce(true);
+    await expect(ShareService.shareTask(12, 'nobody@example.com', 'editor')).rejects.toThrow('No account uses this email address.');
+
+    mockedAxios.delete.mockRejectedValueOnce(new Error('Network Error'));
+    mockedAxios.isAxiosError.mockReturnValueOnce(false);
+    await expect(ShareService.removeShare(12, 3)).rejects.toThrow('Failed to remove the collaborator. Please try again.');
+  });
+});
@@ -166,6 +166,22 @@ describe('TaskService', () => {
     });
   });
 
+  describe('restoreTask', () => {
+    it('should restore a deleted task to undo the delete', async () => {
+      const mockTask = { id: 1, name: 'Deleted Task', status: 'pending', priority: 'medium' };
+
+      vi.mocked(mockedAxios.delete).mockResolvedValueOnce({ data: null });
+      vi.mocked(mockedAxios.post).mockResolvedValueOnce({ data: { data: mockTask } });
+
+      await TaskService.deleteTask(1);
+      const result = await TaskService.restoreTask(1);
+
+      expect(mockedAxios.delete).toHaveBeenCalledWith('/tasks/1');
+      expect(mockedAxios.post).toHaveBeenCalledWith('/tasks/1/restore');
+      expect(result).toEqual(mockTask);
+    });
+  });
+
   describe('toggleTaskStatus', () => {
     it('should toggle task status', async () => {
       const mockTask: Task = {
@@ -297,4 +313,159 @@ describe('TaskService', () => {
       expect(result).toEqual(mockTasks);
     });
   });
-});
\ No newline at end of file
+
+  describe('reorderTasks', () => {
+    it('should persist the order of root tasks', async () => {
+      vi.mocked(mockedAxios.put).mockResolvedValueOnce({ data: [] });
+
+      await TaskService.reorderTasks([3, 1, 2]);
+
+      expect(mockedAxios.put).toHaveBeenCalledWith('/tasks/reorder', { task_ids: [3, 1, 2] });
+    });
+  });
+
+  describe('getStatistics', () => {
+    it('should fetch the statistics of all tasks or of one project', async () => {
+      const statistics = { total: 4, completed: 1, pending: 2, in_progress: 1, cancelled: 0, overdue: 1, root_tasks: 3, subtasks: 1 };
+      vi.mocked(mockedAxios.get).mockResolvedValue({ data: statistics });
+
+      await expect(TaskService.getStatistics()).resolves.toEqual(statistics);
+      expect(mockedAxios.get).toHaveBeenCalledWith('/tasks/statistics', { params: undefined });
+
+      await TaskService.getStatistics(3);
+      expect(mockedAxios.get).toHaveBeenCalledWith('/tasks/statistics', { params: { project_id: 3 } });
+    });
+  });
+
+  describe('label filters', () => {
+    it('should send the labels, and all-labels matching only when asked for', async () => {
+      vi.mocked(mockedAxios.get).mockResolvedValue({ data: { data: [] } });
+
+      await TaskService.getTasks({ label_ids: [2, 5], label_match: 'all' });
+      expect(mockedAxios.get).toHaveBeenLastCalledWith('/tasks?label_ids%5B%5D=2&label_ids%5B%5D=5&label_match=all&page=1&per_page=15');
+
+      await TaskService.getTasks({ label_ids: [2], label_match: 'any' });
+      expect(mockedAxios.get).toHaveBeenLastCalledWith('/tasks?label_ids%5B%5D=2&page=1&per_page=15');
+    });
+  });
+
+  describe('reorderSubtasks', () => {
+    it('should persist the order of a parent task\'s subtasks', async () => {
+      const mockSubtasks = [
+        { id: 5, name: 'Second', status: 'pending', priority: 'low', parent_id: 1, sort_order: 0 },
+        { id: 4, name: 'First', status: 'pending', priority: 'low', parent_id: 1, sort_order: 1 }
+      ];
+
+      vi.mocked(mockedAxios.put).mockResolvedValueOnce({ data: mockSubtasks });
+
+      const result = await TaskService.reorderSubtasks(1, [5, 4]);
+
+      expect(mockedAxios.put).toHaveBeenCalledWith('/tasks/1/subtasks/reorder', { subtask_ids: [5, 4] });
+      expect(result).toEqual(mockSubtasks);
+    });
+  });
+
+  describe('moveSubtask', () => {
+    it('should move a subtask to another parent at a position', async () => {
+      const mockSubtask = { id: 4, name: 'Moved', status: 'pending', priority: 'low', parent_id: 2, sort_order: 1 };
+
+      vi.mocked(mockedAxios.put).mockResolvedValueOnce({ data: mockSubtask });
+
+      const result = await TaskService.moveSubtask(4, 2, 1);
+
+      expect(mockedAxios.put).toHaveBeenCalledWith('/subtasks/4/move', { parent_id: 2, position: 1 });
+      expect(result).toEqual(mockSubtask);
+    });
+
+    it('should reject when the move fails', async () => {
+      vi.mocked(mockedAxios.put).mockRejectedValueOnce(new Error('Network Error'));
+
+      await expect(TaskService.moveSubtask(4, 2)).rejects.toThrow(
+        'An unexpected error occurred while moving the subtask.'
+      );
+    });
+  });
+
+  describe('getTranslations', () => {
+    it('should treat untranslated fields as empty translations', async () => {
+      vi.mocked(mockedAxios.get).mockResolvedValueOnce({
+        data: { id: 1, status: 'pending', source_locale: 'en', name: { en: 'Report' }, description: [], updated_at: '2025-07-21T10:00:00.000Z' }
+      });
+
+      const result = await TaskService.getTranslations(1);
+
+      expect(mockedAxios.get).toHaveBeenCalledWith('/tasks/1/translations');
+      expect(result.name).toEqual({ en: 'Report' });
+      expect(result.description).toEqual({});
+    });
+  });
+
+  describe('updateTranslations', () => {
+    it('should send only the languages being saved', async () => {
+      const saved = { id: 1, status: 'pending', source_locale: 'en', name: { en: 'Report', fr: 'Rapport' }, description: {}, updated_at: '2025-07-21T10:00:00.000Z' };
+
+      vi.mocked(mockedAxios.put).mockResolvedValueOnce({ data: saved });
+
+      const result = await TaskService.updateTranslations(1, { name: { fr: 'Rapport' }, description: { fr: '' } });
+
+      expect(mockedAxios.put).toHaveBeenCalledWith('/tasks/1/translations', {
+        name: { fr: 'Rapport' },
+        description: { fr: '' }
+      });
+      expect(result).toEqual(saved);
+    });
+  });
+
+  describe('getTranslationReport', () => {
+    it('should return the report the server sends', async () => {
+      const report = { source_locale: 'en', target_locales: ['fr', 'de'], total: 1, progress: { fr: { complete: 1, missing: 0, percentage: 100 } }, missing: [] };
+      vi.mocked(mockedAxios.get).mockResolvedValueOnce({ data: report });
+
+      await expect(TaskService.getTranslationReport()).resolves.toEqual(report);
+      expect(mockedAxios.get).toHaveBeenCalledWith('/tasks/translation-report');
+    });
+  });
+
+  describe('getTranslationMemory', () => {
+    it('should return the entries the server sends', async () => {
+      const entries = [{ field: 'name', translations: { en: 'Write report', fr: 'Rédiger le rapport' } }];
+      vi.mocked(mockedAxios.get).mockResolvedValueOnce({ data: entries });
+
+      await expect(TaskService.getTranslationMemory()).resolves.toEqual(entries);
+      expect(mockedAxios.get).toHaveBeenCalledWith('/tasks/translation-memory');
+    });
+  });
+
+  describe('bulkSubtaskOperation', () => {
+    it('should send the operation with the subtask ids', async () => {
+      vi.mocked(mockedAxios.post).mockResolvedValueOnce({ data: { operation: 'update_status', affected: 2 } });
+
+      const result = await TaskService.bulkSubtaskOperation(1, [4, 5], {
+        operation: 'update_status',
+        status: 'completed'
+      });
+
+      expect(mockedAxios.post).toHaveBeenCalledWith('/tasks/1/subtasks/bulk', {
+        operation: 'update_status',
+        status: 'completed',
+        subtask_ids: [4, 5]
+      });
+      expect(result).toEqual({ operation: 'update_status', affected: 2 });
+    });
+  });
+
+  describe('searchTasks', () => {
+    it('should translate a structured query into API filters', async () => {
+      const mockResponse = { data: { data: [], current_page: 1, last_page: 1, per_page: 15, total: 0 } };
+
+      vi.mocked(mockedAxios.get).mockResolvedValueOnce(mockResponse);
+
+      await TaskService.searchTasks('status:completed priority:high parent:none lang:fr "rapport final"');
+
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        '/tasks?status=completed&priority=high&search=rapport+final&locale_search=1&parent_id=null&page=1&per_page=15',
+        { headers: { 'X-Locale': 'fr' } }
+      );
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import TranslationSuggestionService, { TranslationMemoryProvider, TranslationProvider } from '../TranslationSuggestionService';
+
+const request = { field: 'name' as const, text: 'Call the dentist', sourceLang: 'en' as const, targetLang: 'fr' as const };
+
+describe('TranslationSuggestionService', () => {
+  beforeEach(() => {
+    // Replaces the default memory provider, which loads from the API
+    TranslationSuggestionService.registerProvider(new TranslationMemoryProvider(async () => []));
+  });
+
+  afterEach(() => {
+    TranslationSuggestionService.unregisterProvider('test');
+  });
+
+  it('should fall back to the next provider when one has no suggestion', async () => {
+    const provider: TranslationProvider = {
+      id: 'test',
+      name: 'Test',
+      suggest: vi.fn().mockResolvedValue({ text: 'Appeler le dentiste', provider: 'Test', confidence: 0.9 })
+    };
+    TranslationSuggestionService.registerProvider(provider);
+
+    await expect(TranslationSuggestionService.suggest(request)).resolves.toEqual({
+      text: 'Appeler le dentiste',
+      provider: 'Test',
+      confidence: 0.9
+    });
+    expect(provider.suggest).toHaveBeenCalledWith(request);
+  });
+
+  it('should not ask providers for empty or same-language text', async () => {
+    const provider: TranslationProvider = { id: 'test', name: 'Test', suggest: vi.fn() };
+    TranslationSuggestionService.registerProvider(provider);
+
+    await expect(TranslationSuggestionService.suggest({ ...request, text: '  ' })).resolves.toBeNull();
+    await expect(TranslationSuggestionService.suggest({ ...request, targetLang: 'en' })).resolves.toBeNull();
+    expect(provider.suggest).not.toHaveBeenCalled();
+  });
+});
+
+describe('TranslationMemoryProvider', () => {
+  it('should load the memory once and mark fuzzy matches with their source text', async () => {
+    const loadEntries = vi.fn().mockResolvedValue([
+      { field: 'name', translations: { en: 'Write the monthly report', fr: 'Rédiger le rapport mensuel' } }
+    ]);
+    const provider = new TranslationMemoryProvider(loadEntries);
+
+    const suggestion = await provider.suggest({ ...request, text: 'Write the weekly report' });
+    await provider.suggest(request);
+
+    expect(loadEntries).toHaveBeenCalledTimes(1);
+    expect(suggestion).toEqual({
+      text: 'Rédiger le rapport mensuel',
+      provider: 'Translation memory',
+      confidence: 0.75,
+      basedOn: 'Write the monthly report'
+    });
+  });
+});
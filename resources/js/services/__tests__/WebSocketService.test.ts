@@ -0,0 +1,355 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WebSocketService, TaskUpdateEvent, ConnectionState } from '../WebSocketService';
+
+/**
+ * In-memory stand-in for the Ratchet server (App\Services\WebSocketService).
+ * Implements the same JSON protocol so the client can be tested without a network.
+ */
+class FakeRatchetServer {
+  sockets: FakeSocket[] = [];
+  received: Array<Record<string, unknown>> = [];
+  validTokens = new Set<string>(['token-1']);
+  respondToPing = true;
+
+  connect(url: string): FakeSocket {
+    const socket = new FakeSocket(this, url);
+    this.sockets.push(socket);
+    // Ratchet accepts the connection and sends a welcome message
+    queueMicrotask(() => {
+      socket.readyState = 1;
+      socket.onopen?.({} as Event);
+      socket.push({ type: 'connection', connection_id: this.sockets.length });
+    });
+    return socket;
+  }
+
+  get current(): FakeSocket {
+    return this.sockets[this.sockets.length - 1];
+  }
+
+  handle(socket: FakeSocket, raw: string) {
+    const data = JSON.parse(raw);
+    this.received.push(data);
+
+    switch (data.type) {
+      case 'authenticate':
+        if (!this.validTokens.has(data.token)) {
+          socket.push({ type: 'error', message: 'Invalid authentication token' });
+          return;
+        }
+        socket.userId = data.user_id;
+        socket.push({ type: 'authenticated', user_id: data.user_id });
+        break;
+      case 'subscribe':
+        if (!socket.userId) {
+          socket.push({ type: 'error', message: 'Not authenticated' });
+          return;
+        }
+        data.channels.forEach((channel: string) => socket.channels.add(channel));
+        socket.push({ type: 'subscribed', channels: Array.from(socket.channels) });
+        break;
+      case 'unsubscribe':
+        data.channels.forEach((channel: string) => socket.channels.delete(channel));
+        socket.push({ type: 'unsubscribed', channels: Array.from(socket.channels) });
+        break;
+      case 'ping':
+        if (this.respondToPing) {
+          socket.push({ type: 'pong' });
+        }
+        break;
+    }
+  }
+
+  broadcast(channel: string, payload: Record<string, unknown>) {
+    this.sockets
+      .filter(socket => socket.readyState === 1 && socket.channels.has(channel))
+      .forEach(socket => socket.push(payload));
+  }
+
+  messagesOfType(type: string) {
+    return this.received.filter(message => message.type === type);
+  }
+}
+
+class FakeSocket {
+  readyState = 0;
+  userId: number | null = null;
+  channels = new Set<string>();
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  constructor(private server: FakeRatchetServer, public url: string) {}
+
+  send(data: string) {
+    this.server.handle(this, data);
+  }
+
+  push(payload: Record<string, unknown>) {
+    this.onmessage?.({ data: JSON.stringify({ ...payload, timestamp: '2025-07-21T10:00:00.000Z' }) } as MessageEvent);
+  }
+
+  close() {
+    if (this.readyState === 3) return;
+    this.readyState = 3;
+    this.onclose?.({ code: 1000 } as CloseEvent);
+  }
+
+  // Simulates the server dropping the connection
+  drop() {
+    this.readyState = 3;
+    this.onclose?.({ code: 1006 } as CloseEvent);
+  }
+}
+
+const flush = async () => {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+};
+
+describe('WebSocketService', () => {
+  let server: FakeRatchetServer;
+  let getToken: ReturnType<typeof vi.fn>;
+  let service: WebSocketService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    server = new FakeRatchetServer();
+    getToken = vi.fn().mockResolvedValue({
+      token: 'token-1',
+      user_id: 7,
+      url: 'ws://localhost:8080',
+      expires_at: '2025-07-21T11:00:00.000Z'
+    });
+    service = new WebSocketService({
+      createSocket: (url) => server.connect(url) as unknown as WebSocket,
+      getToken,
+      heartbeatInterval: 1000,
+      heartbeatTimeout: 500,
+      reconnectDelay: 100,
+      maxReconnectAttempts: 3
+    });
+  });
+
+  afterEach(() => {
+    service.disconnect();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should authenticate with the Sanctum token and subscribe to the user channel', async () => {
+    const states: ConnectionState[] = [];
+    service.onStateChange(state => states.push(state));
+
+    service.connect(7);
+    await flush();
+
+    expect(server.current.url).toBe('ws://localhost:8080');
+    expect(server.messagesOfType('authenticate')).toEqual([
+      { type: 'authenticate', user_id: 7, token: 'token-1' }
+    ]);
+    expect(server.messagesOfType('subscribe')).toEqual([
+      { type: 'subscribe', channels: ['user.7'] }
+    ]);
+    expect(service.getState()).toBe('connected');
+    expect(states).toEqual(['connecting', 'authenticating', 'connected']);
+  });
+
+  it('should translate task events into TaskUpdateEvents', async () => {
+    const events: TaskUpdateEvent[] = [];
+    service.subscribe(event => events.push(event));
+
+    service.connect(7);
+    await flush();
+
+    server.broadcast('user.7', {
+      event: 'task.updated',
+      data: { id: 12, name: { en: 'Write docs' }, status: 'completed', priority: 'low', user_id: 7 }
+    });
+    server.broadcast('user.7', { event: 'task.deleted', data: { id: 13, user_id: 7 } });
+    server.broadcast('user.8', { event: 'task.created', data: { id: 14, user_id: 8 } });
+
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({ task_id: 12, action: 'updated', task_data: { status: 'completed' } });
+    expect(events[1]).toEqual({
+      task_id: 13,
+      action: 'deleted',
+      task_data: undefined,
+      timestamp: '2025-07-21T10:00:00.000Z'
+    });
+  });
+
+  it('should pass comment changes on task.commented events', async () => {
+    const events: TaskUpdateEvent[] = [];
+    service.subscribe(event => events.push(event));
+
+    service.connect(7);
+    await flush();
+
+    const comment = {
+      id: 5,
+      task_id: 12,
+      body: 'Ping @[Ann](user:9)',
+      mentions: [9],
+      user: { id: 7, name: 'Bob' },
+      edited_at: null,
+      created_at: '2025-07-21T10:00:00.000Z',
+      updated_at: '2025-07-21T10:00:00.000Z'
+    };
+    server.broadcast('user.7', {
+      event: 'task.commented',
+      data: { id: 12, user_id: 7, change: 'created', comment, comments_count: 3 }
+    });
+
+    expect(events).toEqual([{
+      task_id: 12,
+      action: 'commented',
+      task_data: undefined,
+      comment_data: { change: 'created', comment, comments_count: 3 },
+      timestamp: '2025-07-21T10:00:00.000Z'
+    }]);
+  });
+
+  it('should pass the changes and recorded version on task.updated events', async () => {
+    const events: TaskUpdateEvent[] = [];
+    service.subscribe(event => events.push(event));
+
+    service.connect(7);
+    await flush();
+
+    const activity = {
+      id: 30,
+      task_id: 12,
+      version: 4,
+      action: 'updated',
+      user: { id: 7, name: 'Bob' },
+      changes: [{ field: 'status', locale: null, from: 'pending', to: 'completed' }],
+      snapshot: {
+        name: { en: 'Write docs' },
+        description: {},
+        status: 'completed',
+        priority: 'low',
+        due_date: null,
+        recurrence_rule: null
+      },
+      created_at: '2025-07-21T10:00:00.000Z'
+    };
+    server.broadcast('user.7', {
+      event: 'task.updated',
+      data: {
+        id: 12,
+        status: 'completed',
+        user_id: 7,
+        changes: { status: { from: 'pending', to: 'completed' } },
+        activity
+      }
+    });
+
+    expect(events).toHaveLength(1);
+    expect(events[0].task_data).toEqual({ id: 12, status: 'completed', user_id: 7 });
+    expect(events[0].changes).toEqual({ status: { from: 'pending', to: 'completed' } });
+    expect(events[0].activity).toEqual(activity);
+  });
+
+  it('should pass share changes on task.shared events', async () => {
+    const events: TaskUpdateEvent[] = [];
+    service.subscribe(event => events.push(event));
+
+    service.connect(7);
+    await flush();
+
+    const share = {
+      id: 3,
+      task_id: 12,
+      role: 'editor',
+      user: { id: 7, name: 'Bob', email: 'bob@example.com' },
+      created_at: '2025-07-31T10:00:00.000Z'
+    };
+    // Collaborators hear about shared tasks on their own user channel
+    server.broadcast('user.7', {
+      event: 'task.shared',
+      data: { id: 12, user_id: 9, collaborator_ids: [9, 7], change: 'created', share }
+    });
+
+    expect(events).toEqual([{
+      task_id: 12,
+      action: 'shared',
+      task_data: undefined,
+      share_data: { change: 'created', share },
+      timestamp: '2025-07-21T10:00:00.000Z'
+    }]);
+  });
+
+  it('should send pings and reconnect when no pong arrives', async () => {
+    service.connect(7);
+    await flush();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(server.messagesOfType('ping')).toHaveLength(1);
+    expect(service.getState()).toBe('connected');
+
+    server.respondToPing = false;
+    await vi.advanceTimersByTimeAsync(1000);
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(server.sockets[0].readyState).toBe(3);
+    expect(service.getState()).toBe('reconnecting');
+
+    server.respondToPing = true;
+    await vi.advanceTimersByTimeAsync(100);
+    await flush();
+
+    expect(server.sockets).toHaveLength(2);
+    expect(service.getState()).toBe('connected');
+  });
+
+  it('should resubscribe to the user channel after a reconnect', async () => {
+    service.connect(7);
+    await flush();
+
+    server.current.drop();
+    expect(service.getState()).toBe('reconnecting');
+
+    await vi.advanceTimersByTimeAsync(100);
+    await flush();
+
+    expect(server.sockets).toHaveLength(2);
+    expect(getToken).toHaveBeenCalledTimes(2);
+    expect(server.messagesOfType('subscribe').pop()).toEqual({
+      type: 'subscribe',
+      channels: ['user.7']
+    });
+    expect(service.getState()).toBe('connected');
+  });
+
+  it('should give up after the maximum number of reconnect attempts', async () => {
+    getToken.mockRejectedValue(new Error('Network Error'));
+
+    service.connect(7);
+    await flush();
+
+    for (let i = 0; i < 3; i++) {
+      await vi.advanceTimersByTimeAsync(1000);
+    }
+
+    expect(service.getState()).toBe('failed');
+    expect(getToken).toHaveBeenCalledTimes(4);
+  });
+
+  it('should close the socket and not reconnect after disconnect', async () => {
+    service.connect(7);
+    await flush();
+
+    service.disconnect();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(server.sockets).toHaveLength(1);
+    expect(server.current.readyState).toBe(3);
+    expect(service.getState()).toBe('disconnected');
+  });
+});
@@ -1,10 +1,23 @@
 // Core application types
+export type Theme = 'light' | 'dark' | 'system';
+
+export type TaskViewMode = 'list' | 'grid';
+
 export interface User {
   id: number;
   name: string;
   email: string;
   preferred_language: string;
+  // Locales to show texts in when they are missing in the current language, in order
+  fallback_locales?: string[];
   timezone: string;
+  theme?: Theme;
+  // View the task list opens in
+  default_task_view?: TaskViewMode;
+  // Null until the user follows the link in the verification email
+  email_verified_at?: string | null;
+  // Sign-ins need a code from an authenticator app
+  two_factor_enabled?: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -21,12 +34,130 @@ export interface Task {
   priority: 'low' | 'medium' | 'high' | 'urgent';
   due_date?: string;
   parent_id?: number;
+  sort_order?: number;
   user_id: number;
+  // The owner or a collaborator the task is assigned to
+  assignee_id?: number | null;
+  assignee?: {
+    id: number;
+    name: string;
+  } | null;
+  // Role of the current user: tasks can be shared with them by someone else
+  role?: TaskRole;
+  // Subtasks are always in the project of their parent
+  project_id?: number | null;
+  task_number?: number | null;
+  // Key within the project, e.g. WEB-42
+  task_key?: string | null;
+  // Labels of the owner, in alphabetical order
+  labels?: TaskLabel[];
   subtasks?: Task[];
+  // Tasks that have to be completed or cancelled before this one can start
+  blocked_by?: TaskDependency[];
+  // Tasks waiting on this one (only on task detail responses)
+  blocking?: TaskDependency[];
+  is_blocked?: boolean;
+  // RRULE for repeating tasks, e.g. FREQ=MONTHLY;BYDAY=2TU
+  recurrence_rule?: string | null;
+  // Every occurrence of a recurring task shares the id of the first one
+  series_id?: number | null;
+  recurrence_index?: number | null;
+  // Set on the response that completed an occurrence of a recurring task
+  next_occurrence?: Task;
+  comments_count?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type TaskRole = 'owner' | 'editor' | 'viewer';
+
+export interface TaskShare {
+  id: number;
+  task_id: number;
+  role: Exclude<TaskRole, 'owner'>;
+  user: {
+    id: number;
+    name: string;
+    email: string;
+  };
+  created_at: string;
+}
+
+// Who a top-level task is shared with, and what the current user can do with it
+export interface TaskSharing {
+  owner: {
+    id: number;
+    name: string;
+    email: string;
+  };
+  role: TaskRole;
+  shares: TaskShare[];
+}
+
+export interface TaskDependency {
+  id: number;
+  name: string;
+  status: Task['status'];
+  is_finished: boolean;
+}
+
+export interface TaskComment {
+  id: number;
+  task_id: number;
+  // Markdown; mentions are written as @[Name](user:id)
+  body: string;
+  // IDs of the users the comment mentions
+  mentions: number[];
+  user: {
+    id: number;
+    name: string;
+  };
+  edited_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface MentionableUser {
+  id: number;
+  name: string;
+}
+
+// The tracked fields of a task in one version of its history
+export interface TaskSnapshot {
+  name: Translations;
+  description: Translations;
+  status: Task['status'];
+  priority: Task['priority'];
+  due_date: string | null;
+  recurrence_rule: string | null;
+}
+
+export type TaskSnapshotField = keyof TaskSnapshot;
+
+export interface TaskFieldChange {
+  field: TaskSnapshotField;
+  // Set for name and description, which change per language
+  locale: string | null;
+  from: string | null;
+  to: string | null;
+}
+
+export interface TaskActivity {
+  id: number;
+  task_id: number;
+  // Position in the history of the task, starting at 1
+  version: number;
+  action: 'created' | 'updated' | 'translated' | 'deleted' | 'restored';
+  // Null when the person who made the change has deleted their account
+  user: {
+    id: number;
+    name: string;
+  } | null;
+  changes: TaskFieldChange[];
+  snapshot: TaskSnapshot;
+  created_at: string;
+}
+
 export interface TaskFormData {
   name: Translations;
   description?: Translations;
@@ -34,13 +165,100 @@ export interface TaskFormData {
   priority: Task['priority'];
   due_date?: string;
   parent_id?: number;
+  // IDs of the blocking tasks; replaces the current dependencies when sent
+  blocked_by_ids?: number[];
+  // null stops the task from repeating
+  recurrence_rule?: string | null;
+  // Whether name, description and priority changes also apply to later occurrences
+  recurrence_scope?: 'this' | 'future';
+  // null unassigns the task
+  assignee_id?: number | null;
+  // null takes the task out of its project
+  project_id?: number | null;
+  // IDs of the owner's labels; replaces the current labels when sent
+  label_ids?: number[];
 }
 
 export interface TaskFilters {
   status?: Task['status'];
   priority?: Task['priority'];
   search?: string;
-  parent_id?: number;
+  // null limits the list to top-level tasks
+  parent_id?: number | null;
+  due_date_from?: string;
+  due_date_to?: string;
+  // Content language to search and return instead of the UI language
+  locale?: Language;
+  assigned_to_me?: boolean;
+  project_id?: number;
+  label_ids?: number[];
+  // Whether tasks need any (the default) or all of the labels
+  label_match?: LabelMatch;
+}
+
+export type LabelMatch = 'any' | 'all';
+
+export interface Label {
+  id: number;
+  user_id: number;
+  name: string;
+  // Hex color, e.g. #3b82f6
+  color: string;
+  tasks_count?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type TaskLabel = Pick<Label, 'id' | 'name' | 'color'>;
+
+export interface LabelFormData {
+  name: string;
+  color: string;
+}
+
+export interface Project {
+  id: number;
+  user_id: number;
+  name: string;
+  // Prefix of the task keys, e.g. WEB in WEB-42
+  key: string;
+  // Hex color, e.g. #3b82f6
+  color: string;
+  description: string | null;
+  // Archived projects keep their tasks but take no new ones
+  archived_at: string | null;
+  tasks_count?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProjectFormData {
+  name: string;
+  key: string;
+  color: string;
+  description?: string | null;
+}
+
+// Task counts for the dashboard, for all tasks or one project
+export interface TaskStatistics {
+  total: number;
+  completed: number;
+  pending: number;
+  in_progress: number;
+  cancelled: number;
+  overdue: number;
+  root_tasks: number;
+  subtasks: number;
+}
+
+export interface SavedView {
+  id: number;
+  name: string;
+  // Query string parameters of the /tasks view
+  params: Record<string, string>;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface AuthResponse {
@@ -48,11 +266,35 @@ export interface AuthResponse {
   message: string;
 }
 
+export interface WebSocketTokenResponse {
+  token: string;
+  user_id: number;
+  url: string | null;
+  expires_at: string;
+}
+
+// Returned by login instead of the user when the password was right but a
+// two-factor code is still needed
+export interface TwoFactorRequiredResponse {
+  two_factor_required: true;
+  message: string;
+}
+
+export type LoginResponse = AuthResponse | TwoFactorRequiredResponse;
+
 export interface LoginCredentials {
   email: string;
   password: string;
 }
 
+// Either a code from the authenticator app or one of the recovery codes
+export interface TwoFactorChallengeData {
+  code?: string;
+  recovery_code?: string;
+  // Skip the code on this device for a while
+  remember_device?: boolean;
+}
+
 export interface RegisterData {
   name: string;
   email: string;
@@ -62,6 +304,103 @@ export interface RegisterData {
   timezone?: string;
 }
 
+export interface ForgotPasswordData {
+  email: string;
+}
+
+export interface ResetPasswordData {
+  token: string;
+  email: string;
+  password: string;
+  password_confirmation: string;
+}
+
+export interface ProfileData {
+  name: string;
+  email: string;
+  // Required when the email changes
+  current_password?: string;
+}
+
+export interface PasswordChangeData {
+  current_password: string;
+  password: string;
+  password_confirmation: string;
+}
+
+export interface PreferencesData {
+  preferred_language?: string;
+  timezone?: string;
+  theme?: Theme;
+  default_task_view?: TaskViewMode;
+}
+
+export interface SettingsResponse {
+  user: User;
+  message: string;
+}
+
+export interface SessionDevice {
+  browser: string | null;
+  platform: string | null;
+  is_mobile: boolean;
+}
+
+export interface ActiveSession {
+  id: string;
+  ip_address: string | null;
+  device: SessionDevice;
+  last_active_at: string;
+  // The session of this browser
+  is_current: boolean;
+}
+
+export interface ApiToken {
+  id: number;
+  name: string;
+  abilities: string[];
+  last_used_at: string | null;
+  created_at: string | null;
+  expires_at: string | null;
+}
+
+export interface SessionsResponse {
+  sessions: ActiveSession[];
+  // False when the server keeps sessions where they cannot be listed
+  sessions_supported: boolean;
+  tokens: ApiToken[];
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  // A setup was started but its first code not confirmed yet
+  pending: boolean;
+  recovery_codes_remaining: number;
+}
+
+export interface TwoFactorSetup {
+  // Base32 secret for entering the key by hand
+  secret: string;
+  // otpauth:// URI shown as a QR code
+  otpauth_url: string;
+}
+
+export interface TwoFactorConfirmResponse {
+  user: User;
+  // Shown only once, the server keeps only their hashes
+  recovery_codes: string[];
+  message: string;
+}
+
+// Why the user was signed out without signing out themselves
+export type SessionEndReason = 'revoked' | 'expired';
+
+// Thrown by the auth and settings services when the API rejects a form with validation errors
+export interface AuthFormError {
+  message: string;
+  errors: Record<string, string[]>;
+}
+
 export interface ApiError {
   message: string;
   code?: string;
@@ -98,15 +437,63 @@ export interface BulkUpdateRequest {
 }
 
 // Locale-related types
-export type Language = 'en' | 'fr' | 'de';
+// Code of a locale in the registry loaded from the backend (see utils/locales)
+export type Language = string;
 
 export interface LocaleInfo {
   locale: string;
   user_preference: string | null;
   available_locales: Record<string, string>;
+  // Locales written right to left
+  rtl_locales?: string[];
 }
 
 export interface LocalePreferenceResponse {
   locale: string;
   message: string;
-}
\ No newline at end of file
+}
+
+// Translation workspace types
+export type TranslatableField = 'name' | 'description';
+
+export interface TaskTranslations {
+  id: number;
+  parent_id?: number | null;
+  status: Task['status'];
+  // Language translators work from, the fallback locale
+  source_locale: Language;
+  name: Translations;
+  description: Translations;
+  updated_at: string;
+}
+
+export interface TranslationProgress {
+  complete: number;
+  missing: number;
+  percentage: number;
+}
+
+export interface MissingTranslation {
+  id: number;
+  parent_id?: number | null;
+  // Name in the source language
+  name: string;
+  status: Task['status'];
+  updated_at: string;
+  // Fields with source content but no translation, per target language
+  missing: Partial<Record<Language, TranslatableField[]>>;
+}
+
+export interface TranslationReport {
+  source_locale: Language;
+  target_locales: Language[];
+  total: number;
+  progress: Partial<Record<Language, TranslationProgress>>;
+  missing: MissingTranslation[];
+}
+
+// Source text and its saved translations, used to suggest translations
+export interface TranslationMemoryEntry {
+  field: TranslatableField;
+  translations: Translations;
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { compareDates, formatDate, formatDateTime, formatRelativeTime, getDueDateInfo } from '../dateFormat';
+import { isOverdue, rescheduleDueDate, toDateKey } from '../timezone';
+
+// Every case names its timezone, so results do not depend on the zone the tests run in
+const berlin = { locale: 'en-US', timeZone: 'Europe/Berlin' };
+const newYork = { locale: 'en-US', timeZone: 'America/New_York' };
+
+describe('formatDate', () => {
+  it('should render datetimes in the timezone and language', () => {
+    // 03:30 UTC is still the previous evening in New York
+    expect(formatDate('2026-03-08T03:30:00Z', newYork)).toBe('Mar 7, 2026');
+    expect(formatDate('2026-03-08T03:30:00Z', berlin)).toBe('Mar 8, 2026');
+    expect(formatDate('2026-03-08T03:30:00Z', { locale: 'de', timeZone: 'Europe/Berlin' })).toBe('08.03.2026');
+    expect(formatDateTime('2026-07-01T16:05:00Z', berlin)).toBe('Jul 1, 2026, 6:05 PM');
+  });
+
+  it('should render date-only values as the same day everywhere', () => {
+    expect(formatDate('2026-03-29', newYork)).toBe('Mar 29, 2026');
+    expect(formatDate('2026-03-29', { locale: 'en-US', timeZone: 'Pacific/Auckland' })).toBe('Mar 29, 2026');
+    expect(formatDateTime('2026-03-29', berlin)).toBe('Mar 29, 2026');
+    expect(toDateKey('2026-03-29', 'Pacific/Auckland')).toBe('2026-03-29');
+  });
+});
+
+describe('getDueDateInfo', () => {
+  it('should count calendar days across a DST change', () => {
+    // 00:30 on the 23 hour day clocks go forward in Berlin; the task is due at 23:59 the same day
+    const now = new Date('2026-03-28T23:30:00Z');
+    expect(getDueDateInfo('2026-03-29T21:59:00Z', 'Europe/Berlin', now)).toEqual({ days: 0, overdue: false, dateOnly: false });
+    expect(getDueDateInfo('2026-03-30T21:59:00Z', 'Europe/Berlin', now).days).toBe(1);
+
+    // 25 hour day when clocks go back
+    const autumn = new Date('2026-10-24T22:30:00Z');
+    expect(getDueDateInfo('2026-10-25T22:59:00Z', 'Europe/Berlin', autumn).days).toBe(0);
+  });
+
+  it('should compare date-only due dates with today in the timezone', () => {
+    // 23:00 on the 9th in New York, already the 10th in UTC
+    const now = new Date('2026-03-10T03:00:00Z');
+    expect(getDueDateInfo('2026-03-10', 'America/New_York', now)).toEqual({ days: 1, overdue: false, dateOnly: true });
+    expect(getDueDateInfo('2026-03-10', 'UTC', now)).toEqual({ days: 0, overdue: false, dateOnly: true });
+    expect(getDueDateInfo('2026-03-09', 'UTC', now)).toEqual({ days: -1, overdue: true, dateOnly: true });
+  });
+
+  it('should mark datetimes due earlier today as overdue', () => {
+    const now = new Date('2026-06-01T15:00:00Z');
+    expect(getDueDateInfo('2026-06-01T10:00:00Z', 'UTC', now)).toEqual({ days: 0, overdue: true, dateOnly: false });
+  });
+});
+
+describe('formatRelativeTime', () => {
+  const now = new Date('2026-06-01T15:00:00Z');
+
+  it('should describe recent stamps in the language', () => {
+    expect(formatRelativeTime('2026-06-01T12:00:00Z', { locale: 'en', timeZone: 'UTC' }, now)).toBe('3 hours ago');
+    expect(formatRelativeTime('2026-06-01T12:00:00Z', { locale: 'de', timeZone: 'UTC' }, now)).toBe('vor 3 Stunden');
+    expect(formatRelativeTime('2026-06-01T14:59:30Z', { locale: 'en', timeZone: 'UTC' }, now)).toBe('30 seconds ago');
+  });
+
+  it('should count longer differences in calendar days of the timezone', () => {
+    expect(formatRelativeTime('2026-05-31', { locale: 'en', timeZone: 'UTC' }, now)).toBe('yesterday');
+    expect(formatRelativeTime('2026-06-03T01:00:00Z', { locale: 'en', timeZone: 'UTC' }, now)).toBe('in 2 days');
+    expect(formatRelativeTime('2026-05-18T15:00:00Z', { locale: 'en', timeZone: 'UTC' }, now)).toBe('2 weeks ago');
+  });
+});
+
+describe('date-only due dates', () => {
+  it('should sort date-only values from the start of their day', () => {
+    // Midnight in Los Angeles is 07:00 UTC
+    expect(compareDates('2026-03-10', '2026-03-10T06:00:00Z', 'UTC')).toBeLessThan(0);
+    expect(compareDates('2026-03-10', '2026-03-10T06:00:00Z', 'America/Los_Angeles')).toBeGreaterThan(0);
+  });
+
+  it('should stay overdue-free until their day is over and stay date-only when moved', () => {
+    const task = { due_date: '2026-03-09', status: 'pending' as const };
+    expect(isOverdue(task, new Date('2026-03-10T03:00:00Z'), 'America/New_York')).toBe(false);
+    expect(isOverdue(task, new Date('2026-03-10T03:00:00Z'), 'UTC')).toBe(true);
+    expect(rescheduleDueDate('2026-03-09', '2026-03-12', 'Europe/Berlin')).toBe('2026-03-12');
+  });
+});
@@ -0,0 +1,66 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  DEFAULT_LOCALES,
+  createLocaleRegistry,
+  getLocaleCodes,
+  getLocaleDirection,
+  getLocaleName,
+  getTextDirection,
+  isSupportedLocale,
+  setLocales,
+  subscribeToLocales
+} from '../locales';
+
+describe('createLocaleRegistry', () => {
+  it('should describe each locale in the order given', () => {
+    expect(createLocaleRegistry({ en: 'English', ar: 'العربية' })).toEqual([
+      { code: 'en', name: 'English', label: 'EN', direction: 'ltr' },
+      { code: 'ar', name: 'العربية', label: 'AR', direction: 'rtl' }
+    ]);
+  });
+
+  it('should detect right-to-left locales by their base language', () => {
+    expect(getTextDirection('he')).toBe('rtl');
+    expect(getTextDirection('ar-EG')).toBe('rtl');
+    expect(getTextDirection('fr')).toBe('ltr');
+    expect(getTextDirection('fr', ['fr'])).toBe('rtl');
+  });
+});
+
+describe('locale registry', () => {
+  afterEach(() => {
+    setLocales(DEFAULT_LOCALES);
+    localStorage.clear();
+  });
+
+  it('should default to English, French and German', () => {
+    expect(getLocaleCodes()).toEqual(['en', 'fr', 'de']);
+    expect(isSupportedLocale('es')).toBe(false);
+  });
+
+  it('should replace the locales, notify subscribers and remember the list', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToLocales(listener);
+
+    setLocales({ en: 'English', es: 'Español', fa: 'فارسی' }, ['fa']);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(getLocaleCodes()).toEqual(['en', 'es', 'fa']);
+    expect(isSupportedLocale('es')).toBe(true);
+    expect(isSupportedLocale('de')).toBe(false);
+    expect(getLocaleName('es')).toBe('Español');
+    expect(getLocaleDirection('fa')).toBe('rtl');
+    expect(JSON.parse(localStorage.getItem('locales') ?? '[]')).toHaveLength(3);
+
+    // Setting the same locales again is not a change
+    setLocales({ en: 'English', es: 'Español', fa: 'فارسی' }, ['fa']);
+    expect(listener).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
+
+  it('should fall back to the code for unknown locales', () => {
+    expect(getLocaleName('pt')).toBe('PT');
+    expect(getLocaleDirection('ur')).toBe('rtl');
+  });
+});
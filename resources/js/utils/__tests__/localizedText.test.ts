@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { getFallbackChain, hasLocalizedText, resolveLocalizedText } from '../localizedText';
+
+describe('getFallbackChain', () => {
+  it('should follow regional locales with their language and end with English', () => {
+    expect(getFallbackChain('de-CH')).toEqual(['de-CH', 'de', 'en']);
+    expect(getFallbackChain('en')).toEqual(['en']);
+  });
+
+  it('should put the user fallbacks before English without duplicates', () => {
+    expect(getFallbackChain('fr-CA', ['de', 'fr'])).toEqual(['fr-CA', 'fr', 'de', 'en']);
+  });
+});
+
+describe('resolveLocalizedText', () => {
+  const name = { en: 'Buy milk', de: 'Milch kaufen', fr: '  ' };
+
+  it('should report the locale the text was taken from', () => {
+    expect(resolveLocalizedText(name, ['de', 'en'])).toEqual({ text: 'Milch kaufen', locale: 'de', fallbackUsed: false });
+    expect(resolveLocalizedText(name, ['de-CH', 'de', 'en'])).toEqual({ text: 'Milch kaufen', locale: 'de', fallbackUsed: true });
+    expect(resolveLocalizedText(name, ['fr', 'en'])).toEqual({ text: 'Buy milk', locale: 'en', fallbackUsed: true });
+  });
+
+  it('should fall back to any translation outside the chain', () => {
+    expect(resolveLocalizedText({ es: 'Comprar leche' }, ['fr', 'en'])).toEqual({
+      text: 'Comprar leche',
+      locale: 'es',
+      fallbackUsed: true
+    });
+  });
+
+  it('should use plain strings as they are', () => {
+    expect(resolveLocalizedText('Buy milk', ['fr', 'en'])).toEqual({ text: 'Buy milk', locale: null, fallbackUsed: false });
+    expect(resolveLocalizedText(undefined, ['fr', 'en'])).toEqual({ text: '', locale: null, fallbackUsed: false });
+    expect(resolveLocalizedText({ fr: '' }, ['fr', 'en'])).toEqual({ text: '', locale: null, fallbackUsed: false });
+  });
+
+  it('should treat blank translations as missing', () => {
+    expect(hasLocalizedText(name, 'fr')).toBe(false);
+    expect(hasLocalizedText(name, 'de')).toBe(true);
+    expect(hasLocalizedText('Buy milk', 'fr')).toBe(true);
+  });
+});
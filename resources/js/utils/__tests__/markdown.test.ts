@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { parseInline, parseMarkdown } from '../markdown';
+
+describe('parseInline', () => {
+  it('should parse emphasis, code and strikethrough', () => {
+    expect(parseInline('**bold**, *it*, _em_ and ~~old~~ `a*b*`')).toEqual([
+      { type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+      { type: 'text', text: ', ' },
+      { type: 'emphasis', children: [{ type: 'text', text: 'it' }] },
+      { type: 'text', text: ', ' },
+      { type: 'emphasis', children: [{ type: 'text', text: 'em' }] },
+      { type: 'text', text: ' and ' },
+      { type: 'strike', children: [{ type: 'text', text: 'old' }] },
+      { type: 'text', text: ' ' },
+      { type: 'code', text: 'a*b*' }
+    ]);
+  });
+
+  it('should leave unmatched markers, snake_case and escapes as text', () => {
+    expect(parseInline('2 * 3 * 4, snake_case_name, \\*not\\* and **open')).toEqual([
+      { type: 'text', text: '2 * 3 * 4, snake_case_name, *not* and **open' }
+    ]);
+  });
+
+  it('should parse mentions, links and bare URLs', () => {
+    expect(parseInline('@[Ann Lee](user:9) see [docs](https://example.com/a) or https://example.com/b.')).toEqual([
+      { type: 'mention', name: 'Ann Lee', userId: 9 },
+      { type: 'text', text: ' see ' },
+      { type: 'link', href: 'https://example.com/a', children: [{ type: 'text', text: 'docs' }] },
+      { type: 'text', text: ' or ' },
+      { type: 'link', href: 'https://example.com/b', children: [{ type: 'text', text: 'https://example.com/b' }] },
+      { type: 'text', text: '.' }
+    ]);
+  });
+
+  it('should only link http and https URLs', () => {
+    expect(parseInline('[x](javascript:alert(1)) <b>hi</b>')).toEqual([
+      { type: 'text', text: '[x](javascript:alert(1)) <b>hi</b>' }
+    ]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('should split paragraphs, lists, quotes and code blocks', () => {
+    const source = 'First line\nsecond line\n\n- one\n- two\n1. first\n2) second\n> quoted\n\n```\n**raw**\n```';
+
+    expect(parseMarkdown(source)).toEqual([
+      {
+        type: 'paragraph',
+        children: [{ type: 'text', text: 'First line' }, { type: 'break' }, { type: 'text', text: 'second line' }]
+      },
+      { type: 'list', ordered: false, items: [[{ type: 'text', text: 'one' }], [{ type: 'text', text: 'two' }]] },
+      { type: 'list', ordered: true, items: [[{ type: 'text', text: 'first' }], [{ type: 'text', text: 'second' }]] },
+      { type: 'quote', children: [{ type: 'paragraph', children: [{ type: 'text', text: 'quoted' }] }] },
+      { type: 'code_block', text: '**raw**' }
+    ]);
+  });
+});
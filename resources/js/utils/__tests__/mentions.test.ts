@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { extractMentionIds, findMentionQuery, insertMention, mentionMarkup } from '../mentions';
+
+describe('findMentionQuery', () => {
+  it('should find the mention being typed before the caret', () => {
+    expect(findMentionQuery('Thanks @an', 10)).toEqual({ start: 7, query: 'an' });
+    expect(findMentionQuery('@', 1)).toEqual({ start: 0, query: '' });
+    expect(findMentionQuery('cc @Ann Le', 10)).toEqual({ start: 3, query: 'Ann Le' });
+    expect(findMentionQuery('@an later', 3)).toEqual({ start: 0, query: 'an' });
+  });
+
+  it('should ignore email addresses, finished mentions and longer text', () => {
+    expect(findMentionQuery('mail ann@example.com', 20)).toBeNull();
+    expect(findMentionQuery('@[Ann](user:9) ok', 17)).toBeNull();
+    expect(findMentionQuery('@Ann Lee and more', 17)).toBeNull();
+  });
+});
+
+describe('insertMention', () => {
+  it('should replace the typed query with the mention markup', () => {
+    const text = 'Ask @an about it';
+    const mention = findMentionQuery(text, 7)!;
+
+    expect(insertMention(text, mention, 7, { id: 9, name: 'Ann Lee' })).toEqual({
+      text: 'Ask @[Ann Lee](user:9) about it',
+      caret: 23
+    });
+  });
+
+  it('should strip brackets from names', () => {
+    expect(mentionMarkup({ id: 3, name: 'Bob [ops]' })).toBe('@[Bob ops](user:3)');
+  });
+});
+
+describe('extractMentionIds', () => {
+  it('should return each mentioned user once', () => {
+    expect(extractMentionIds('@[Ann](user:9) and @[Bob](user:3), again @[Ann](user:9)')).toEqual([9, 3]);
+    expect(extractMentionIds('no mentions @here')).toEqual([]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { formatMessage, getMessageArguments } from '../messageFormat';
+
+describe('formatMessage', () => {
+  it('should replace simple and number arguments', () => {
+    expect(formatMessage('Welcome, {name}', { name: 'Ada' })).toBe('Welcome, Ada');
+    expect(formatMessage('{total, number} tasks', { total: 1234 }, 'de')).toBe('1.234 tasks');
+  });
+
+  it('should pick plural forms by locale, exact values first', () => {
+    const message = '{count, plural, =0 {No tasks} one {# task} other {# tasks}}';
+
+    expect(formatMessage(message, { count: 0 })).toBe('No tasks');
+    expect(formatMessage(message, { count: 1 })).toBe('1 task');
+    expect(formatMessage(message, { count: 3 })).toBe('3 tasks');
+    // French uses "one" for 0 and 1
+    expect(formatMessage('{count, plural, one {# tâche} other {# tâches}}', { count: 0 }, 'fr')).toBe('0 tâche');
+  });
+
+  it('should apply plural offsets', () => {
+    const message = '{count, plural, offset:1 =0 {Nobody} =1 {{name}} one {{name} and # other} other {{name} and # others}}';
+
+    expect(formatMessage(message, { count: 1, name: 'Ada' })).toBe('Ada');
+    expect(formatMessage(message, { count: 3, name: 'Ada' })).toBe('Ada and 2 others');
+  });
+
+  it('should select options and fall back to other', () => {
+    const message = '{field, select, name {Task name} other {Description}} is required';
+
+    expect(formatMessage(message, { field: 'name' })).toBe('Task name is required');
+    expect(formatMessage(message, { field: 'description' })).toBe('Description is required');
+  });
+
+  it('should keep quoted syntax characters literal', () => {
+    expect(formatMessage("Use '{name}' for the name, it''s {name}", { name: 'Ada' })).toBe("Use {name} for the name, it's Ada");
+    expect(formatMessage("{count, plural, other {'#' # items}}", { count: 2 })).toBe('# 2 items');
+  });
+
+  it('should reject invalid messages', () => {
+    expect(() => formatMessage('{count, plural, one {# task}}')).toThrow('Missing "other" option');
+    expect(() => formatMessage('Hello {name')).toThrow();
+  });
+});
+
+describe('getMessageArguments', () => {
+  it('should list the arguments of nested messages', () => {
+    expect(getMessageArguments('{count, plural, one {{name} and # other} other {{name} and {rest}}}')).toEqual(['count', 'name', 'rest']);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { encodeQrCode, QrMatrix } from '../qrCode';
+
+// Format information next to the top left finder pattern, unmasked
+const readFormat = (modules: QrMatrix): { level: number; mask: number } => {
+  const positions: Array<[number, number]> = [
+    [0, 8], [1, 8], [2, 8], [3, 8], [4, 8], [5, 8], [7, 8], [8, 8],
+    [8, 7], [8, 5], [8, 4], [8, 3], [8, 2], [8, 1], [8, 0]
+  ];
+  const bits = positions.reduce((value, [y, x], i) => (modules[y][x] ? value | (1 << i) : value), 0) ^ 0x5412;
+  return { level: bits >>> 13, mask: (bits >>> 10) & 7 };
+};
+
+const hasFinderAt = (modules: QrMatrix, top: number, left: number): boolean =>
+  [0, 1, 2, 3, 4, 5, 6].every(y => [0, 1, 2, 3, 4, 5, 6].every(x => {
+    const ring = Math.max(Math.abs(x - 3), Math.abs(y - 3));
+    return modules[top + y][left + x] === (ring !== 2);
+  }));
+
+describe('encodeQrCode', () => {
+  it('should pick the smallest version the text fits in', () => {
+    // Version 1 with medium error correction holds 14 bytes
+    expect(encodeQrCode('a'.repeat(14))).toHaveLength(21);
+    expect(encodeQrCode('a'.repeat(15))).toHaveLength(25);
+
+    const uri = 'otpauth://totp/Task%20Manager:someone%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=Task%20Manager';
+    expect(encodeQrCode(uri)).toHaveLength(45);
+  });
+
+  it('should draw the finder and timing patterns', () => {
+    const modules = encodeQrCode('otpauth://totp/test');
+    const size = modules.length;
+
+    expect(hasFinderAt(modules, 0, 0)).toBe(true);
+    expect(hasFinderAt(modules, 0, size - 7)).toBe(true);
+    expect(hasFinderAt(modules, size - 7, 0)).toBe(true);
+    for (let i = 8; i < size - 8; i++) {
+      expect(modules[6][i]).toBe(i % 2 === 0);
+      expect(modules[i][6]).toBe(i % 2 === 0);
+    }
+  });
+
+  it('should write medium error correction in both copies of the format bits', () => {
+    const modules = encodeQrCode('otpauth://totp/test');
+    const size = modules.length;
+    const { level, mask } = readFormat(modules);
+
+    expect(level).toBe(0);
+    expect(mask).toBeGreaterThanOrEqual(0);
+    expect(mask).toBeLessThan(8);
+    // The second copy runs along the bottom left and top right
+    for (let i = 0; i < 8; i++) {
+      expect(modules[8][size - 1 - i]).toBe(modules[i < 6 ? i : i + 1][8]);
+    }
+    expect(modules[size - 8][8]).toBe(true);
+  });
+
+  it('should reject texts too long for a QR code', () => {
+    expect(() => encodeQrCode('a'.repeat(3000))).toThrow('too long');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { describeRecurrence, formatRecurrenceRule, getNextOccurrence, getUpcomingOccurrences, parseRecurrenceRule } from '../recurrence';
+import { MessageKey, loadCatalog, translate } from '@/i18n';
+import { MessageValues } from '@/utils/messageFormat';
+
+const t = (key: MessageKey, values?: MessageValues) => translate(key, values);
+const errorsOf = (input: string) => parseRecurrenceRule(input).errors.map(error => t(error.key, error.values));
+
+const rule = (input: string) => {
+  const parsed = parseRecurrenceRule(input);
+  if (!parsed.rule) throw new Error(errorsOf(input).join(', '));
+  return parsed.rule;
+};
+
+describe('parseRecurrenceRule', () => {
+  it('should normalize supported rules', () => {
+    expect(formatRecurrenceRule(rule('RRULE:freq=weekly;byday=TH,MO;interval=1'))).toBe('FREQ=WEEKLY;BYDAY=MO,TH');
+  });
+
+  it('should report unsupported and conflicting parts', () => {
+    expect(errorsOf('FREQ=HOURLY')).toEqual(['Unsupported frequency "HOURLY"']);
+    expect(errorsOf('FREQ=WEEKLY;BYDAY=2TU')).toEqual(['An nth weekday like 2TU needs a monthly rule with a single day']);
+    expect(errorsOf('FREQ=DAILY;COUNT=3;UNTIL=20250801')).toEqual(['Use either COUNT or UNTIL, not both']);
+    expect(parseRecurrenceRule('INTERVAL=0').rule).toBeNull();
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('should describe rules in plain words', () => {
+    expect(describeRecurrence(rule('FREQ=MONTHLY;BYDAY=2TU'), t, 'en')).toBe('Every 2nd Tuesday');
+    expect(describeRecurrence(rule('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR'), t, 'en')).toBe('Every weekday');
+    expect(describeRecurrence(rule('FREQ=WEEKLY;INTERVAL=2;BYDAY=TH,MO;COUNT=10'), t, 'en')).toBe('Every 2 weeks on Monday and Thursday, 10 times');
+    expect(describeRecurrence(rule('FREQ=MONTHLY;BYMONTHDAY=1'), t, 'en')).toBe('Every month on the 1st');
+  });
+
+  it('should describe rules in the given language', async () => {
+    await loadCatalog('fr');
+    const fr = (key: MessageKey, values?: MessageValues) => translate(key, values, 'fr');
+
+    expect(describeRecurrence(rule('FREQ=MONTHLY;BYDAY=-1FR'), fr, 'fr')).toBe('Chaque dernier vendredi');
+    expect(describeRecurrence(rule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO;COUNT=1'), fr, 'fr')).toBe('Toutes les 2 semaines, le lundi, une fois');
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('should step through the selected weekdays before skipping ahead by the interval', () => {
+    const everyOtherWeek = rule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH');
+
+    expect(getNextOccurrence('2025-07-21', everyOtherWeek)).toBe('2025-07-24');
+    expect(getNextOccurrence('2025-07-24', everyOtherWeek)).toBe('2025-08-04');
+  });
+
+  it('should find nth and last weekdays of the month', () => {
+    expect(getNextOccurrence('2025-07-08', rule('FREQ=MONTHLY;BYDAY=2TU'))).toBe('2025-08-12');
+    expect(getNextOccurrence('2025-07-25', rule('FREQ=MONTHLY;BYDAY=-1FR'))).toBe('2025-08-29');
+  });
+
+  it('should skip months without the requested day', () => {
+    expect(getUpcomingOccurrences('2025-01-31', rule('FREQ=MONTHLY;BYMONTHDAY=31'), 2)).toEqual(['2025-03-31', '2025-05-31']);
+  });
+});
+
+describe('getUpcomingOccurrences', () => {
+  it('should stop at COUNT, counting the occurrences already in the series', () => {
+    expect(getUpcomingOccurrences('2025-07-21', rule('FREQ=DAILY;COUNT=3'), 5)).toEqual(['2025-07-22', '2025-07-23']);
+    expect(getUpcomingOccurrences('2025-07-23', rule('FREQ=DAILY;COUNT=3'), 5, 3)).toEqual([]);
+  });
+
+  it('should stop after UNTIL', () => {
+    expect(getUpcomingOccurrences('2025-07-21', rule('FREQ=WEEKLY;UNTIL=20250804'), 5)).toEqual(['2025-07-28', '2025-08-04']);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { TaskSnapshot } from '@/types';
+import { diffSnapshots, snapshotToFormData } from '../taskActivity';
+
+const version1: TaskSnapshot = {
+  name: { en: 'Write docs', fr: 'Écrire la doc' },
+  description: { en: 'For the API' },
+  status: 'pending',
+  priority: 'medium',
+  due_date: null,
+  recurrence_rule: null
+};
+
+const version2: TaskSnapshot = {
+  name: { en: 'Write the docs', de: 'Doku schreiben' },
+  description: { en: 'For the API' },
+  status: 'in_progress',
+  priority: 'medium',
+  due_date: '2030-01-15T09:00:00.000Z',
+  recurrence_rule: null
+};
+
+describe('taskActivity', () => {
+  it('should list changed fields in order, with translations per language', () => {
+    expect(diffSnapshots(version1, version2)).toEqual([
+      { field: 'name', locale: 'de', from: null, to: 'Doku schreiben' },
+      { field: 'name', locale: 'en', from: 'Write docs', to: 'Write the docs' },
+      { field: 'name', locale: 'fr', from: 'Écrire la doc', to: null },
+      { field: 'status', locale: null, from: 'pending', to: 'in_progress' },
+      { field: 'due_date', locale: null, from: null, to: '2030-01-15T09:00:00.000Z' }
+    ]);
+    expect(diffSnapshots(version2, version2)).toEqual([]);
+  });
+
+  it('should treat empty translations as missing', () => {
+    const withEmptyList = { ...version1, description: [] as unknown as TaskSnapshot['description'] };
+    const withEmptyText = { ...version1, description: { en: '' } };
+
+    expect(diffSnapshots(withEmptyList, withEmptyText)).toEqual([]);
+    expect(diffSnapshots(version1, withEmptyText)).toEqual([
+      { field: 'description', locale: 'en', from: 'For the API', to: null }
+    ]);
+  });
+
+  it('should only send the fields that differ when reverting', () => {
+    expect(snapshotToFormData(version1, version2)).toEqual({
+      // Languages added since the target version are cleared
+      name: { en: 'Write docs', fr: 'Écrire la doc', de: '' },
+      status: 'pending',
+      due_date: ''
+    });
+    expect(snapshotToFormData(version2, version2)).toEqual({});
+  });
+});
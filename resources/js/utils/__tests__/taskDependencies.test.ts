@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { getOpenBlockers, getUnblockedBy, isBlockedStatusChange, wouldCreateCycle } from '../taskDependencies';
+import { Task } from '@/types';
+
+const task = (id: number, overrides: Partial<Task> = {}): Task => ({
+  id,
+  name: `Task ${id}`,
+  status: 'pending',
+  priority: 'medium',
+  user_id: 7,
+  created_at: '2025-07-21T10:00:00.000Z',
+  updated_at: '2025-07-21T10:00:00.000Z',
+  ...overrides
+});
+
+const blocker = (id: number, status: Task['status'] = 'pending') => ({
+  id,
+  name: `Task ${id}`,
+  status,
+  is_finished: status === 'completed' || status === 'cancelled'
+});
+
+describe('getOpenBlockers', () => {
+  it('should prefer the status of loaded tasks over the blocked_by snapshot', () => {
+    const blocked = task(3, { blocked_by: [blocker(1), blocker(2, 'cancelled')] });
+
+    expect(getOpenBlockers(blocked).map(b => b.id)).toEqual([1]);
+    expect(getOpenBlockers(blocked, [task(1, { status: 'completed' })])).toEqual([]);
+  });
+
+  it('should only refuse moving into in progress or completed', () => {
+    const blocked = task(3, { blocked_by: [blocker(1)] });
+
+    expect(isBlockedStatusChange(blocked, 'in_progress')).toBe(true);
+    expect(isBlockedStatusChange(blocked, 'completed')).toBe(true);
+    expect(isBlockedStatusChange(blocked, 'cancelled')).toBe(false);
+  });
+});
+
+describe('getUnblockedBy', () => {
+  it('should return tasks whose last unfinished blocker is finished', () => {
+    const tasks = [
+      task(1),
+      task(2),
+      task(3, { blocked_by: [blocker(1)] }),
+      task(4, { blocked_by: [blocker(1), blocker(2)] }),
+      task(5, { blocked_by: [blocker(1)], status: 'completed' }),
+      task(6, { subtasks: [task(7, { parent_id: 6, blocked_by: [blocker(1)] })] })
+    ];
+
+    expect(getUnblockedBy(1, tasks).map(t => t.id)).toEqual([3, 7]);
+  });
+});
+
+describe('wouldCreateCycle', () => {
+  it('should detect direct and transitive cycles', () => {
+    // 3 waits on 2, 2 waits on 1
+    const tasks = [
+      task(1),
+      task(2, { blocked_by: [blocker(1)] }),
+      task(3, { blocked_by: [blocker(2)] })
+    ];
+
+    expect(wouldCreateCycle(1, 1, tasks)).toBe(true);
+    expect(wouldCreateCycle(1, 2, tasks)).toBe(true);
+    expect(wouldCreateCycle(1, 3, tasks)).toBe(true);
+    expect(wouldCreateCycle(3, 1, tasks)).toBe(false);
+  });
+});
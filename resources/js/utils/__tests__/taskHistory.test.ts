@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { HistoryEntry, MAX_HISTORY_ENTRIES, emptyHistory, getHistoryShortcut, getRevertData, recordEntry, takeRedo, takeUndo } from '../taskHistory';
+import { Task } from '@/types';
+
+const task = (overrides: Partial<Task> = {}): Task => ({
+  id: 1,
+  name: { en: 'Write report', fr: 'Rédiger le rapport' },
+  status: 'pending',
+  priority: 'medium',
+  user_id: 7,
+  created_at: '2025-07-21T10:00:00.000Z',
+  updated_at: '2025-07-21T10:00:00.000Z',
+  ...overrides
+});
+
+const entry = (id: number): HistoryEntry => ({
+  id,
+  label: `Change ${id}`,
+  undo: [{ type: 'restore', id }],
+  redo: [{ type: 'delete', id }]
+});
+
+const shortcut = (key: string, modifiers: { ctrlKey?: boolean; metaKey?: boolean; shiftKey?: boolean } = {}) =>
+  getHistoryShortcut({ key, ctrlKey: false, metaKey: false, shiftKey: false, altKey: false, ...modifiers });
+
+describe('undo history', () => {
+  it('should clear redo entries when a new change is recorded', () => {
+    const [undone, afterUndo] = takeUndo(recordEntry(recordEntry(emptyHistory, entry(1)), entry(2)));
+    const withRedo = { ...afterUndo, future: [undone!] };
+
+    expect(takeRedo(withRedo)[0]?.id).toBe(2);
+    expect(recordEntry(withRedo, entry(3))).toEqual({ past: [entry(1), entry(3)], future: [] });
+  });
+
+  it('should undo a specific entry from its toast', () => {
+    const history = recordEntry(recordEntry(emptyHistory, entry(1)), entry(2));
+    const [undone, remaining] = takeUndo(history, 1);
+
+    expect(undone?.id).toBe(1);
+    expect(remaining.past.map(e => e.id)).toEqual([2]);
+    expect(takeUndo(remaining, 1)[0]).toBeNull();
+  });
+
+  it('should keep a bounded number of entries', () => {
+    let history = emptyHistory;
+    for (let id = 1; id <= MAX_HISTORY_ENTRIES + 5; id++) {
+      history = recordEntry(history, entry(id));
+    }
+
+    expect(history.past).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(history.past[0].id).toBe(6);
+  });
+});
+
+describe('getRevertData', () => {
+  it('should revert only the fields being changed', () => {
+    const previous = task({ due_date: '2025-07-30T17:00:00.000Z', blocked_by: [{ id: 4, name: 'Review', status: 'pending', is_finished: false }] });
+
+    expect(getRevertData(previous, { status: 'completed', blocked_by_ids: [] })).toEqual({ status: 'pending', blocked_by_ids: [4] });
+    expect(getRevertData(task(), { due_date: '2025-08-01' })).toEqual({ due_date: '' });
+  });
+
+  it('should revert labels to the ones the task had', () => {
+    const labelled = task({ labels: [{ id: 3, name: 'backend', color: '#22c55e' }, { id: 8, name: 'urgent', color: '#ef4444' }] });
+
+    expect(getRevertData(labelled, { label_ids: [3] })).toEqual({ label_ids: [3, 8] });
+    expect(getRevertData(task(), { label_ids: [3] })).toEqual({ label_ids: [] });
+  });
+
+  it('should only revert text from translated values', () => {
+    const name = { en: 'Renamed', fr: '', de: '' };
+
+    expect(getRevertData(task(), { name })).toEqual({ name: { en: 'Write report', fr: 'Rédiger le rapport' } });
+    expect(getRevertData(task({ name: 'Write report' }), { name })).toEqual({});
+  });
+});
+
+describe('getHistoryShortcut', () => {
+  it('should map undo and redo key combinations', () => {
+    expect(shortcut('z', { ctrlKey: true })).toBe('undo');
+    expect(shortcut('z', { metaKey: true })).toBe('undo');
+    expect(shortcut('Z', { ctrlKey: true, shiftKey: true })).toBe('redo');
+    expect(shortcut('y', { ctrlKey: true })).toBe('redo');
+    expect(shortcut('z')).toBeNull();
+  });
+});
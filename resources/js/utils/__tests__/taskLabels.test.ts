@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { Task, TaskLabel } from '@/types';
+import { LABEL_COLORS, getBulkLabelUpdates, matchesLabels, pickLabelColor } from '../taskLabels';
+
+const backend: TaskLabel = { id: 3, name: 'backend', color: '#22c55e' };
+const urgent: TaskLabel = { id: 8, name: 'urgent', color: '#ef4444' };
+
+const task = (id: number, fields: Partial<Task> = {}): Task => ({
+  id,
+  name: { en: `Task ${id}` },
+  status: 'pending',
+  priority: 'medium',
+  user_id: 7,
+  created_at: '2025-08-02T10:00:00.000Z',
+  updated_at: '2025-08-02T10:00:00.000Z',
+  ...fields
+});
+
+describe('taskLabels', () => {
+  it('should match tasks with any or all of the labels', () => {
+    const both = task(1, { labels: [backend, urgent] });
+    const one = task(2, { labels: [backend] });
+
+    expect(matchesLabels(one, [3, 8])).toBe(true);
+    expect(matchesLabels(one, [3, 8], 'all')).toBe(false);
+    expect(matchesLabels(both, [3, 8], 'all')).toBe(true);
+    expect(matchesLabels(task(3), [8])).toBe(false);
+    expect(matchesLabels(task(3), [])).toBe(true);
+  });
+
+  it('should send the full label list of each task that changes', () => {
+    const tasks = [
+      task(1, { labels: [backend] }),
+      task(2, { labels: [backend, urgent] }),
+      task(3)
+    ];
+
+    expect(getBulkLabelUpdates(tasks, 8, 'add')).toEqual([
+      { id: 1, data: { label_ids: [3, 8] } },
+      { id: 3, data: { label_ids: [8] } }
+    ]);
+    expect(getBulkLabelUpdates(tasks, 3, 'remove')).toEqual([
+      { id: 1, data: { label_ids: [] } },
+      { id: 2, data: { label_ids: [8] } }
+    ]);
+  });
+
+  it('should leave shared tasks to their owners', () => {
+    const tasks = [task(1, { role: 'editor' }), task(2, { role: 'owner' })];
+
+    expect(getBulkLabelUpdates(tasks, 8, 'add').map(update => update.id)).toEqual([2]);
+  });
+
+  it('should give the same name the same color', () => {
+    expect(pickLabelColor('Backend')).toBe(pickLabelColor(' backend'));
+    expect(LABEL_COLORS).toContain(pickLabelColor('design'));
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TASK_LIST_VIEW,
+  isSameTaskListView,
+  parseTaskListView,
+  serializeTaskListView
+} from '../taskListView';
+
+describe('parseTaskListView', () => {
+  it('should read every parameter and round trip through serialize', () => {
+    const params = new URLSearchParams('q=report&status=in_progress&priority=high&assigned=me&labels=2%2C5&match=all&sort=due_date&dir=asc&completed=hide&view=grid&page=3');
+    const view = parseTaskListView(params);
+
+    expect(view).toEqual({
+      search: 'report',
+      status: 'in_progress',
+      priority: 'high',
+      assignedToMe: true,
+      labels: [2, 5],
+      labelMatch: 'all',
+      sortBy: 'due_date',
+      sortDirection: 'asc',
+      showCompleted: false,
+      viewMode: 'grid',
+      page: 3
+    });
+    expect(new URLSearchParams(serializeTaskListView(view)).toString()).toBe(params.toString());
+  });
+
+  it('should fall back to defaults for malformed values', () => {
+    const params = new URLSearchParams('status=done&labels=web,-1&match=some&sort=owner&dir=up&view=table&page=-2');
+
+    expect(parseTaskListView(params)).toEqual(DEFAULT_TASK_LIST_VIEW);
+    expect(serializeTaskListView(DEFAULT_TASK_LIST_VIEW)).toEqual({});
+  });
+});
+
+describe('isSameTaskListView', () => {
+  it('should ignore parameter order, defaults and the page', () => {
+    expect(isSameTaskListView(
+      new URLSearchParams('status=pending&q=report&page=2&dir=desc'),
+      new URLSearchParams('q=report&status=pending')
+    )).toBe(true);
+    expect(isSameTaskListView(
+      new URLSearchParams('status=pending'),
+      new URLSearchParams('status=completed')
+    )).toBe(false);
+  });
+});
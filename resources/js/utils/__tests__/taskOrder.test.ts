@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { Task } from '@/types';
+import { applyTaskOrder, getSiblingOrder, placeInCell, restoreTaskOrder } from '../taskOrder';
+
+const task = (id: number, fields: Partial<Task> = {}): Task => ({
+  id,
+  name: { en: `Task ${id}` },
+  status: 'pending',
+  priority: 'medium',
+  user_id: 7,
+  sort_order: id,
+  created_at: '2025-07-22T10:00:00.000Z',
+  updated_at: '2025-07-22T10:00:00.000Z',
+  ...fields
+});
+
+const ids = (tasks: Task[]) => tasks.map(t => t.id);
+
+describe('taskOrder', () => {
+  describe('placeInCell', () => {
+    it('should put the card before the one it was dropped on, or last', () => {
+      const cell = [task(1), task(2), task(3)];
+
+      expect(ids(placeInCell(cell, task(9), '2'))).toEqual([1, 9, 2, 3]);
+      expect(ids(placeInCell(cell, task(9), 'cell:all:pending'))).toEqual([1, 2, 3, 9]);
+      expect(ids(placeInCell(cell, cell[2], '1'))).toEqual([3, 1, 2]);
+    });
+  });
+
+  describe('getSiblingOrder', () => {
+    it('should move a card dropped into another column between the cards it landed on', () => {
+      const tasks = [task(1), task(2, { status: 'completed' }), task(3), task(4, { status: 'completed' })];
+      const cell = placeInCell(tasks.filter(t => t.status === 'completed'), tasks[0], '4');
+
+      expect(getSiblingOrder(tasks, tasks[0], cell)).toEqual([2, 3, 1, 4]);
+    });
+
+    it('should leave other sibling groups and unchanged orders alone', () => {
+      const tasks = [task(1), task(2), task(5, { parent_id: 1, sort_order: 0 }), task(6, { parent_id: 1, sort_order: 1 })];
+
+      expect(getSiblingOrder(tasks, tasks[3], placeInCell(tasks, tasks[3], '5'))).toEqual([6, 5]);
+      expect(getSiblingOrder(tasks, tasks[1], placeInCell(tasks, tasks[1], 'cell:all:pending'))).toBeNull();
+    });
+  });
+
+  describe('applyTaskOrder and restoreTaskOrder', () => {
+    it('should change only the order, keeping a status changed by the same drop', () => {
+      const before = [task(1), task(2), task(3)];
+      const moved = before.map(t => (t.id === 1 ? { ...t, status: 'completed' as const } : t));
+
+      const reordered = applyTaskOrder(moved, [2, 1, 3]);
+      expect(reordered.map(t => [t.id, t.sort_order, t.status])).toEqual([
+        [1, 1, 'completed'],
+        [2, 0, 'pending'],
+        [3, 2, 'pending']
+      ]);
+
+      const restored = restoreTaskOrder(reordered, before, [2, 1, 3]);
+      expect(restored.map(t => [t.id, t.sort_order, t.status])).toEqual([
+        [1, 1, 'completed'],
+        [2, 2, 'pending'],
+        [3, 3, 'pending']
+      ]);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { parseTaskQuery, matchesTaskQuery, toTaskFilters } from '../taskQuery';
+import { Task } from '@/types';
+import { translate } from '@/i18n';
+
+const task = (id: number, overrides: Partial<Task> = {}): Task => ({
+  id,
+  name: { en: `Task ${id}`, fr: `Tâche ${id}` },
+  status: 'pending',
+  priority: 'medium',
+  user_id: 7,
+  created_at: '2025-07-21T10:00:00.000Z',
+  updated_at: '2025-07-21T10:00:00.000Z',
+  ...overrides
+});
+
+describe('parseTaskQuery', () => {
+  it('should parse fields, comparators, phrases and negation', () => {
+    const query = parseTaskQuery('status:in_progress priority:>=high due:<2026-11-01 parent:42 lang:fr "exact phrase" -cancelled');
+
+    expect(query.errors).toEqual([]);
+    expect(query.language).toBe('fr');
+    expect(query.clauses).toEqual([
+      { type: 'status', values: ['in_progress'], negated: false },
+      { type: 'priority', comparator: '>=', value: 'high', negated: false },
+      { type: 'due', comparator: '<', date: '2026-11-01', negated: false },
+      { type: 'parent', parentId: 42, negated: false },
+      { type: 'text', value: 'exact phrase', phrase: true, negated: false },
+      { type: 'status', values: ['cancelled'], negated: true }
+    ]);
+  });
+
+  it('should report invalid tokens with their position', () => {
+    const input = 'report status:done due:2026-02-30 owner:me "open';
+    const query = parseTaskQuery(input);
+
+    expect(query.errors.map(({ text, start, end, error }) => ({ text, start, end, error: error && translate(error.key, error.values) }))).toEqual([
+      { text: 'status:done', start: 7, end: 18, error: 'Unknown status "done"' },
+      { text: 'due:2026-02-30', start: 19, end: 33, error: 'Invalid date "2026-02-30", use YYYY-MM-DD' },
+      { text: 'owner:me', start: 34, end: 42, error: 'Unknown filter "owner"' },
+      { text: '"open', start: 43, end: 48, error: 'Missing closing quote' }
+    ]);
+    expect(input.slice(7, 18)).toBe('status:done');
+    expect(query.clauses).toEqual([{ type: 'text', value: 'report', phrase: false, negated: false }]);
+  });
+});
+
+describe('matchesTaskQuery', () => {
+  const tasks = [
+    task(1, { status: 'in_progress', priority: 'urgent', due_date: '2026-10-31T23:30:00.000Z', parent_id: 42 }),
+    task(2, { status: 'in_progress', priority: 'low', due_date: '2026-10-15T12:00:00.000Z', parent_id: 42 }),
+    task(3, { status: 'cancelled', priority: 'high', parent_id: 42 }),
+    task(4, { name: { en: 'Write the exact phrase here' }, priority: 'high' })
+  ];
+
+  const matching = (input: string, timeZone = 'UTC') => {
+    const query = parseTaskQuery(input);
+    return tasks.filter(t => matchesTaskQuery(t, query, { language: 'en', timeZone })).map(t => t.id);
+  };
+
+  it('should AND clauses together and honour negation', () => {
+    expect(matching('priority:>=high -cancelled')).toEqual([1, 4]);
+    expect(matching('parent:42 -status:in_progress')).toEqual([3]);
+    expect(matching('parent:none')).toEqual([4]);
+    expect(matching('"exact phrase"')).toEqual([4]);
+  });
+
+  it('should compare due dates in the user timezone', () => {
+    // 23:30 UTC on Oct 31 is already Nov 1 in Berlin
+    expect(matching('due:<2026-11-01')).toEqual([1, 2]);
+    expect(matching('due:<2026-11-01', 'Europe/Berlin')).toEqual([2]);
+    expect(matching('due:none')).toEqual([3, 4]);
+  });
+
+  it('should search the translation selected with lang', () => {
+    expect(matching('tâche')).toEqual([]);
+    expect(matching('tâche lang:fr')).toEqual([1, 2, 3]);
+    expect(matching('tâche lang:all')).toEqual([1, 2, 3]);
+  });
+});
+
+describe('toTaskFilters', () => {
+  it('should translate what the API supports and widen due date bounds', () => {
+    const query = parseTaskQuery('status:in_progress priority:>=high due:<2026-11-01 parent:42 lang:fr "exact phrase" -cancelled');
+
+    expect(toTaskFilters(query)).toEqual({
+      status: 'in_progress',
+      parent_id: 42,
+      search: 'exact phrase',
+      due_date_to: '2026-11-02',
+      locale: 'fr'
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { Task } from '@/types';
+import { canDeleteTask, canEditTask, getTaskRole, isAssignedTo } from '../taskSharing';
+
+const task = (id: number, fields: Partial<Task> = {}): Task => ({
+  id,
+  name: { en: `Task ${id}` },
+  status: 'pending',
+  priority: 'medium',
+  user_id: 7,
+  created_at: '2025-07-31T10:00:00.000Z',
+  updated_at: '2025-07-31T10:00:00.000Z',
+  ...fields
+});
+
+describe('taskSharing', () => {
+  it('should take the role of the parent when the task has none', () => {
+    expect(getTaskRole(task(1, { role: 'viewer' }))).toBe('viewer');
+    expect(getTaskRole(task(2), 'editor')).toBe('editor');
+    expect(getTaskRole(task(3))).toBe('owner');
+
+    expect(canEditTask('editor')).toBe(true);
+    expect(canEditTask('viewer')).toBe(false);
+    expect(canDeleteTask('editor')).toBe(false);
+    expect(canDeleteTask('owner')).toBe(true);
+  });
+
+  it('should find tasks assigned to the user directly or through a subtask', () => {
+    const tasks = [
+      task(1),
+      task(2, { parent_id: 1, assignee_id: 9 }),
+      task(3, { assignee_id: 9 }),
+      task(4, { subtasks: [task(5, { parent_id: 4, assignee_id: 9 })] }),
+      task(6, { assignee_id: 8 })
+    ];
+
+    expect(tasks.filter(current => isAssignedTo(current, tasks, 9)).map(current => current.id)).toEqual([1, 2, 3, 4]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatUtcOffset,
+  getMonthGrid,
+  getTimeZones,
+  rescheduleDueDate,
+  searchTimeZones,
+  toDateKey,
+  zonedTimeToUtc,
+} from '../timezone';
+
+describe('getTimeZones', () => {
+  it('should list UTC first, then the zones in order', () => {
+    const zones = getTimeZones();
+    expect(zones[0]).toBe('UTC');
+    expect(zones).toContain('Europe/Berlin');
+    expect(zones.slice(1)).toEqual([...zones.slice(1)].sort());
+  });
+});
+
+describe('searchTimeZones', () => {
+  const zones = ['UTC', 'America/New_York', 'America/Los_Angeles', 'Europe/Berlin', 'Pacific/Auckland'];
+
+  it('should match words in any order, with underscores as spaces', () => {
+    expect(searchTimeZones(zones, 'new york')).toEqual(['America/New_York']);
+    expect(searchTimeZones(zones, 'angeles america')).toEqual(['America/Los_Angeles']);
+    expect(searchTimeZones(zones, 'BERLIN')).toEqual(['Europe/Berlin']);
+  });
+
+  it('should list every zone for an empty search', () => {
+    expect(searchTimeZones(zones, '  ')).toEqual(zones);
+  });
+});
+
+describe('formatUtcOffset', () => {
+  it('should show the offset at the given instant', () => {
+    expect(formatUtcOffset('UTC', new Date('2026-01-15T12:00:00Z'))).toBe('UTC+00:00');
+    expect(formatUtcOffset('Europe/Berlin', new Date('2026-07-01T12:00:00Z'))).toBe('UTC+02:00');
+    expect(formatUtcOffset('America/New_York', new Date('2026-01-15T12:00:00Z'))).toBe('UTC-05:00');
+    expect(formatUtcOffset('Asia/Kolkata', new Date('2026-01-15T12:00:00Z'))).toBe('UTC+05:30');
+  });
+});
+
+describe('toDateKey', () => {
+  it('should give the day of the instant in the timezone', () => {
+    expect(toDateKey('2026-01-15T23:30:00Z', 'Asia/Tokyo')).toBe('2026-01-16');
+    expect(toDateKey('2026-01-15T23:30:00Z', 'America/Los_Angeles')).toBe('2026-01-15');
+    expect(toDateKey('2026-01-15', 'Asia/Tokyo')).toBe('2026-01-15');
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('should convert the wall clock time in the timezone', () => {
+    expect(zonedTimeToUtc('2026-01-15', 'Europe/Berlin', 9).toISOString()).toBe('2026-01-15T08:00:00.000Z');
+    expect(zonedTimeToUtc('2026-07-01', 'America/New_York', 9, 30).toISOString()).toBe('2026-07-01T13:30:00.000Z');
+    expect(zonedTimeToUtc('2026-01-15', 'Asia/Kolkata').toISOString()).toBe('2026-01-14T18:30:00.000Z');
+  });
+
+  it('should use the offset on either side of a DST change', () => {
+    expect(zonedTimeToUtc('2026-03-29', 'Europe/Berlin').toISOString()).toBe('2026-03-28T23:00:00.000Z');
+    expect(zonedTimeToUtc('2026-03-29', 'Europe/Berlin', 12).toISOString()).toBe('2026-03-29T10:00:00.000Z');
+    expect(zonedTimeToUtc('2026-11-01', 'America/New_York', 12).toISOString()).toBe('2026-11-01T17:00:00.000Z');
+  });
+});
+
+describe('rescheduleDueDate', () => {
+  it('should keep the time of day in the timezone across a DST change', () => {
+    // 09:30 in Berlin before and after the clocks go forward
+    expect(rescheduleDueDate('2026-03-27T08:30:00Z', '2026-03-30', 'Europe/Berlin')).toBe('2026-03-30T07:30:00.000Z');
+  });
+
+  it('should keep date-only due dates date-only', () => {
+    expect(rescheduleDueDate('2026-03-27', '2026-03-30', 'Europe/Berlin')).toBe('2026-03-30');
+  });
+
+  it('should put a new due date at the end of the day in the timezone', () => {
+    expect(rescheduleDueDate(undefined, '2026-01-15', 'America/New_York')).toBe('2026-01-16T04:59:59.000Z');
+  });
+});
+
+describe('getMonthGrid', () => {
+  it('should cover the month in whole weeks starting on Monday', () => {
+    const weeks = getMonthGrid('2026-02-14');
+    expect(weeks).toHaveLength(5);
+    expect(weeks[0][0]).toBe('2026-01-26');
+    expect(weeks[4][6]).toBe('2026-03-01');
+    expect(weeks.every(week => week.length === 7)).toBe(true);
+  });
+
+  it('should start the weeks on Sunday when asked', () => {
+    const weeks = getMonthGrid('2026-02-14', 0);
+    expect(weeks).toHaveLength(4);
+    expect(weeks[0][0]).toBe('2026-02-01');
+    expect(weeks[3][6]).toBe('2026-02-28');
+  });
+});
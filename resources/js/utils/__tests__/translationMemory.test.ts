@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { findTranslation, similarity } from '../translationMemory';
+import { TranslationMemoryEntry } from '@/types';
+
+const memory: TranslationMemoryEntry[] = [
+  { field: 'name', translations: { en: 'Write the monthly report', fr: 'Rédiger le rapport mensuel', de: 'Monatsbericht schreiben' } },
+  { field: 'name', translations: { en: 'Call the dentist', fr: 'Appeler le dentiste' } },
+  { field: 'description', translations: { en: 'Call the dentist', fr: 'Téléphoner au dentiste' } }
+];
+
+describe('similarity', () => {
+  it('should compare texts by the words they share', () => {
+    expect(similarity('Write the report', 'write the  REPORT')).toBe(1);
+    expect(similarity('Write the report', 'Read a book')).toBe(0);
+    expect(similarity('Write the monthly report', 'Write the weekly report')).toBeCloseTo(0.75);
+  });
+});
+
+describe('findTranslation', () => {
+  it('should reuse the translation of the same source text', () => {
+    expect(findTranslation(memory, 'name', '  write the MONTHLY report ', 'en', 'fr')).toEqual({
+      text: 'Rédiger le rapport mensuel',
+      sourceText: 'Write the monthly report',
+      score: 1
+    });
+  });
+
+  it('should prefer entries of the same field', () => {
+    expect(findTranslation(memory, 'description', 'Call the dentist', 'en', 'fr')?.text).toBe('Téléphoner au dentiste');
+    expect(findTranslation(memory, 'name', 'Call the dentist', 'en', 'fr')?.text).toBe('Appeler le dentiste');
+  });
+
+  it('should offer similar texts and skip unrelated ones', () => {
+    const match = findTranslation(memory, 'name', 'Write the weekly report', 'en', 'fr');
+
+    expect(match?.text).toBe('Rédiger le rapport mensuel');
+    expect(match?.score).toBeLessThan(1);
+    expect(findTranslation(memory, 'name', 'Buy groceries', 'en', 'fr')).toBeNull();
+    expect(findTranslation(memory, 'name', 'Call the dentist', 'en', 'de')).toBeNull();
+  });
+});
@@ -29,6 +29,9 @@ export const testAuthFlow = async () => {
     };
 
     const loginResponse = await AuthService.login(loginCredentials);
+    if ('two_factor_required' in loginResponse) {
+      return;
+    }
     console.log('✅ Login successful:', {
       user: loginResponse.user.name,
       email: loginResponse.user.email,
@@ -0,0 +1,102 @@
+import { DateKey, formatDateKey, isDateOnly, toDateKey, zonedTimeToUtc } from '@/utils/timezone';
+
+/**
+ * Locale and timezone aware formatting of task dates.
+ * Values are either date-only ("2026-03-29", a calendar day that is the same
+ * everywhere) or datetimes (ISO instants, shown in the user's timezone).
+ * Day differences are counted in calendar days of the timezone, so a 23 or 25
+ * hour day around a DST change still counts as one day.
+ */
+
+export interface DateFormatOptions {
+  locale: string;
+  timeZone: string;
+}
+
+export interface DueDateInfo {
+  // Calendar days from today to the due day, negative once it has passed
+  days: number;
+  // Past the due date, or past the due time for datetimes due today
+  overdue: boolean;
+  dateOnly: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Units for differences under a day, and in days for longer ones
+const TIME_UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ['hour', 60 * 60 * 1000],
+  ['minute', 60 * 1000],
+  ['second', 1000]
+];
+const DAY_UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ['year', 365],
+  ['month', 30],
+  ['week', 7],
+  ['day', 1]
+];
+
+/**
+ * The instant of a value; a date-only value starts at midnight in the timezone
+ */
+export const toInstant = (value: string, timeZone: string): Date =>
+  isDateOnly(value) ? zonedTimeToUtc(value, timeZone) : new Date(value);
+
+export const compareDates = (a: string, b: string, timeZone: string): number =>
+  toInstant(a, timeZone).getTime() - toInstant(b, timeZone).getTime();
+
+const dayNumber = (dateKey: DateKey): number => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+};
+
+export const calendarDaysBetween = (from: DateKey, to: DateKey): number => dayNumber(to) - dayNumber(from);
+
+export const formatDate = (
+  value: string,
+  { locale, timeZone }: DateFormatOptions,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }
+): string =>
+  isDateOnly(value)
+    ? formatDateKey(value, options, locale)
+    : new Intl.DateTimeFormat(locale, { ...options, timeZone }).format(new Date(value));
+
+/**
+ * Date and time of a stamp; date-only values have no time to show
+ */
+export const formatDateTime = (value: string, options: DateFormatOptions): string =>
+  isDateOnly(value)
+    ? formatDate(value, options)
+    : formatDate(value, options, { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * E.g. "3 hours ago" or "in 2 days"; date-only values are compared by calendar day
+ */
+export const formatRelativeTime = (
+  value: string,
+  { locale, timeZone }: DateFormatOptions,
+  now: Date = new Date()
+): string => {
+  const formatter = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
+  const diff = new Date(value).getTime() - now.getTime();
+
+  if (!isDateOnly(value) && Math.abs(diff) < DAY_MS) {
+    const [unit, size] = TIME_UNITS.find(([, ms]) => Math.abs(diff) >= ms) ?? TIME_UNITS[TIME_UNITS.length - 1];
+    return formatter.format(Math.trunc(diff / size), unit);
+  }
+
+  const days = calendarDaysBetween(toDateKey(now, timeZone), toDateKey(value, timeZone));
+  const [unit, size] = DAY_UNITS.find(([, length]) => Math.abs(days) >= length) ?? DAY_UNITS[DAY_UNITS.length - 1];
+  return formatter.format(Math.trunc(days / size), unit);
+};
+
+export const getDueDateInfo = (dueDate: string, timeZone: string, now: Date = new Date()): DueDateInfo => {
+  const dateOnly = isDateOnly(dueDate);
+  const days = calendarDaysBetween(toDateKey(now, timeZone), toDateKey(dueDate, timeZone));
+
+  return {
+    days,
+    overdue: days < 0 || (days === 0 && !dateOnly && new Date(dueDate).getTime() < now.getTime()),
+    dateOnly
+  };
+};
@@ -0,0 +1,25 @@
+import { FieldValues, Path, UseFormReturn } from 'react-hook-form';
+import { AuthFormError } from '@/types';
+
+export const isFormError = (error: unknown): error is AuthFormError =>
+  typeof error === 'object' && error !== null && 'errors' in error &&
+  typeof (error as AuthFormError).errors === 'object';
+
+/**
+ * Show validation errors from the API next to the form's fields.
+ * Returns false when the error is not a validation error, or names no field of the form.
+ */
+export const applyFormErrors = <T extends FieldValues>(
+  form: UseFormReturn<T>,
+  error: unknown
+): boolean => {
+  if (!isFormError(error)) return false;
+
+  const fields = Object.keys(form.getValues());
+  const matched = Object.entries(error.errors).filter(([field]) => fields.includes(field));
+
+  matched.forEach(([field, messages], index) => {
+    form.setError(field as Path<T>, { type: 'server', message: messages.join(' ') }, { shouldFocus: index === 0 });
+  });
+  return matched.length > 0;
+};
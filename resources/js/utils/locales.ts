@@ -0,0 +1,103 @@
+import { Language } from '@/types';
+
+/**
+ * Registry of the languages the app supports. The list comes from the backend
+ * (available_locales of /locale/current) so adding a locale to the server config
+ * makes it show up everywhere; until it is loaded the last known list is used.
+ */
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LocaleDefinition {
+  code: Language;
+  // Name of the language in the language itself, e.g. "Deutsch"
+  name: string;
+  // Short label for compact controls, e.g. "DE"
+  label: string;
+  direction: TextDirection;
+}
+
+export const DEFAULT_LOCALES: Record<Language, string> = {
+  en: 'English',
+  fr: 'Français',
+  de: 'Deutsch'
+};
+
+// Used when the backend does not say which locales are right to left
+const DEFAULT_RTL_LOCALES = ['ar', 'fa', 'he', 'ur'];
+
+const STORAGE_KEY = 'locales';
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+// Base language of a code, e.g. "ar" for "ar-EG"
+const baseLanguage = (code: string) => code.toLowerCase().split(/[-_]/)[0];
+
+export const getTextDirection = (code: string, rtlLocales: string[] = DEFAULT_RTL_LOCALES): TextDirection =>
+  rtlLocales.some(rtl => rtl === code || rtl === baseLanguage(code)) ? 'rtl' : 'ltr';
+
+/**
+ * Build locale definitions from a code => name map, keeping its order
+ */
+export const createLocaleRegistry = (
+  available: Record<string, string>,
+  rtlLocales: string[] = DEFAULT_RTL_LOCALES
+): LocaleDefinition[] =>
+  Object.entries(available).map(([code, name]) => ({
+    code,
+    name: name || code.toUpperCase(),
+    label: code.toUpperCase(),
+    direction: getTextDirection(code, rtlLocales)
+  }));
+
+const loadStoredLocales = (): LocaleDefinition[] | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return Array.isArray(stored) && stored.length > 0 ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+let locales: LocaleDefinition[] = loadStoredLocales() ?? createLocaleRegistry(DEFAULT_LOCALES);
+
+/**
+ * The supported locales. The array is replaced, never mutated, when the registry changes.
+ */
+export const getLocales = (): LocaleDefinition[] => locales;
+
+export const getLocaleCodes = (): Language[] => locales.map(locale => locale.code);
+
+/**
+ * Replace the registry, e.g. with the locales returned by the backend
+ */
+export const setLocales = (available: Record<string, string>, rtlLocales?: string[]): void => {
+  const next = createLocaleRegistry(available, rtlLocales);
+  if (next.length === 0 || JSON.stringify(next) === JSON.stringify(locales)) return;
+
+  locales = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // Storage may be unavailable (private mode); the registry still works for this session
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeToLocales = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const isSupportedLocale = (code: string): code is Language =>
+  locales.some(locale => locale.code === code);
+
+export const getLocaleName = (code: Language): string =>
+  locales.find(locale => locale.code === code)?.name ?? code.toUpperCase();
+
+export const getLocaleDirection = (code: Language): TextDirection =>
+  locales.find(locale => locale.code === code)?.direction ?? getTextDirection(code);
@@ -0,0 +1,58 @@
+import { Language, Translations } from '@/types';
+import { SOURCE_LANGUAGE } from '@/i18n';
+
+/**
+ * Resolution of translatable texts (task names, descriptions) to the text to show.
+ * Texts are looked up along a fallback chain, e.g. de-CH → de → en, and the first
+ * non-empty translation wins; if none of the chain has one, any translation is shown.
+ */
+
+export type LocalizedValue = string | Translations | null | undefined;
+
+export interface LocalizedText {
+  text: string;
+  // Locale the text was taken from; null for plain strings and missing texts
+  locale: Language | null;
+  // Whether the text is not in the first locale of the chain
+  fallbackUsed: boolean;
+}
+
+// A locale and its parents, e.g. ["de-CH", "de"]
+const withParentLocales = (locale: Language): Language[] => {
+  const parts = locale.split('-');
+  return parts.map((_, index) => parts.slice(0, parts.length - index).join('-'));
+};
+
+/**
+ * Locales to look texts up in, in order: the language, the user's own fallbacks
+ * and finally the source language, each followed by its parent locales
+ */
+export const getFallbackChain = (language: Language, fallbacks: Language[] = []): Language[] =>
+  Array.from(new Set(
+    [language, ...fallbacks, SOURCE_LANGUAGE].filter(Boolean).flatMap(withParentLocales)
+  ));
+
+export const hasLocalizedText = (value: LocalizedValue, locale: Language): boolean => {
+  if (typeof value === 'string') return value.trim() !== '';
+  return Boolean(value?.[locale]?.trim());
+};
+
+export const resolveLocalizedText = (value: LocalizedValue, chain: Language[]): LocalizedText => {
+  if (typeof value === 'string') {
+    return { text: value, locale: null, fallbackUsed: false };
+  }
+  if (!value) {
+    return { text: '', locale: null, fallbackUsed: false };
+  }
+
+  const locale = chain.find(candidate => hasLocalizedText(value, candidate))
+    ?? Object.keys(value).find(candidate => hasLocalizedText(value, candidate));
+
+  if (!locale) {
+    return { text: '', locale: null, fallbackUsed: false };
+  }
+  return { text: value[locale], locale, fallbackUsed: locale !== chain[0] };
+};
+
+export const getLocalizedText = (value: LocalizedValue, chain: Language[]): string =>
+  resolveLocalizedText(value, chain).text;
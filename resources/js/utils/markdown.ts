@@ -0,0 +1,197 @@
+/**
+ * Parser for the markdown subset used in task comments. It produces a small
+ * syntax tree that components render as React elements, so comment text is
+ * never inserted as HTML.
+ *
+ * Blocks: paragraphs, - / * / 1. lists, > quotes and ``` code blocks.
+ * Inline: `code`, **bold**, *italic* or _italic_, ~~strikethrough~~,
+ * [links](https://…), bare http(s) URLs and mentions written as @[Name](user:id).
+ * A backslash escapes the next punctuation character.
+ */
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'emphasis'; children: InlineNode[] }
+  | { type: 'strike'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'mention'; userId: number; name: string }
+  | { type: 'break' };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'code_block'; text: string }
+  | { type: 'quote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; items: InlineNode[][] };
+
+const FENCE = /^\s*```/;
+const QUOTE = /^\s*>\s?/;
+const BULLET_ITEM = /^\s*[-*+]\s+/;
+const ORDERED_ITEM = /^\s*\d{1,9}[.)]\s+/;
+
+// Sticky patterns, matched at the current position of the inline scanner
+const MENTION = /@\[([^\]\n]+)\]\(user:(\d+)\)/y;
+const LINK = /\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/y;
+const URL = /https?:\/\/[^\s<]*[^\s<.,:;"')\]!?]/y;
+const ESCAPABLE = /[\\`*_~[\]()#>@!.+-]/;
+
+const isWordCharacter = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char);
+
+const matchAt = (pattern: RegExp, text: string, position: number): RegExpExecArray | null => {
+  pattern.lastIndex = position;
+  return pattern.exec(text);
+};
+
+/**
+ * Position of the delimiter that closes a span opened just before `from`, or -1
+ */
+const findClosing = (text: string, delimiter: string, from: number): number => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '`') {
+      // Code spans win over emphasis, so skip over them
+      const end = text.indexOf('`', i + 1);
+      if (end === -1) return -1;
+      i = end;
+    } else if (text.startsWith(delimiter, i) && i > from && !/\s/.test(text[i - 1])) {
+      if (delimiter.length > 1 || text[i + 1] !== delimiter) return i;
+      i++;
+    }
+  }
+  return -1;
+};
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+  const push = (node: InlineNode) => {
+    flush();
+    nodes.push(node);
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    let match: RegExpExecArray | null;
+
+    if (char === '\\' && ESCAPABLE.test(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        push({ type: 'code', text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '@' && (match = matchAt(MENTION, text, i))) {
+      push({ type: 'mention', name: match[1], userId: Number(match[2]) });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '[' && (match = matchAt(LINK, text, i))) {
+      push({ type: 'link', href: match[2], children: parseInline(match[1]) });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === 'h' && !isWordCharacter(text[i - 1]) && (match = matchAt(URL, text, i))) {
+      push({ type: 'link', href: match[0], children: [{ type: 'text', text: match[0] }] });
+      i += match[0].length;
+      continue;
+    }
+
+    const double = text.slice(i, i + 2);
+    if ((double === '**' || double === '~~') && text[i + 2] && !/\s/.test(text[i + 2])) {
+      const end = findClosing(text, double, i + 2);
+      if (end !== -1) {
+        push({ type: double === '**' ? 'strong' : 'strike', children: parseInline(text.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    // _ only starts emphasis at the beginning of a word, so snake_case stays as it is
+    if ((char === '*' || (char === '_' && !isWordCharacter(text[i - 1])))
+      && text[i + 1] && !/\s/.test(text[i + 1]) && text[i + 1] !== char) {
+      const end = findClosing(text, char, i + 1);
+      if (end !== -1 && (char === '*' || !isWordCharacter(text[end + 1]))) {
+        push({ type: 'emphasis', children: parseInline(text.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+};
+
+const startsBlock = (line: string) =>
+  FENCE.test(line) || QUOTE.test(line) || BULLET_ITEM.test(line) || ORDERED_ITEM.test(line);
+
+export const parseMarkdown = (source: string): BlockNode[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+    } else if (FENCE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) {
+        code.push(lines[i++]);
+      }
+      i++; // closing fence, if there is one
+      blocks.push({ type: 'code_block', text: code.join('\n') });
+    } else if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i++].replace(QUOTE, ''));
+      }
+      blocks.push({ type: 'quote', children: parseMarkdown(quoted.join('\n')) });
+    } else if (BULLET_ITEM.test(line) || ORDERED_ITEM.test(line)) {
+      const ordered = ORDERED_ITEM.test(line);
+      const marker = ordered ? ORDERED_ITEM : BULLET_ITEM;
+      const items: InlineNode[][] = [];
+      while (i < lines.length && marker.test(lines[i])) {
+        items.push(parseInline(lines[i++].replace(marker, '')));
+      }
+      blocks.push({ type: 'list', ordered, items });
+    } else {
+      const paragraph: string[] = [];
+      while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) {
+        paragraph.push(lines[i++]);
+      }
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n').trim()) });
+    }
+  }
+
+  return blocks;
+};
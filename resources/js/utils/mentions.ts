@@ -0,0 +1,59 @@
+import { MentionableUser } from '@/types';
+
+/**
+ * Mentions in comment bodies are stored as @[Name](user:id), so renaming a
+ * user does not break them and the server knows whom to notify.
+ */
+
+export const MENTION_PATTERN = /@\[([^\]\n]+)\]\(user:(\d+)\)/g;
+
+// An @ at the start of a word, followed by up to two words typed so far
+const MENTION_QUERY = /(^|\s)@([^\s@[\]()]*(?: [^\s@[\]()]*)?)$/;
+
+export interface MentionQuery {
+  // Position of the @ in the text
+  start: number;
+  // What has been typed after the @
+  query: string;
+}
+
+/**
+ * Ids of the users mentioned in a comment body, in order of first mention
+ */
+export const extractMentionIds = (body: string): number[] =>
+  [...new Set(Array.from(body.matchAll(MENTION_PATTERN), match => Number(match[2])))];
+
+/**
+ * The mention being typed just before the caret, if any
+ */
+export const findMentionQuery = (text: string, caret: number): MentionQuery | null => {
+  const match = MENTION_QUERY.exec(text.slice(0, caret));
+  if (!match) return null;
+
+  return {
+    start: match.index + match[1].length,
+    query: match[2]
+  };
+};
+
+export const mentionMarkup = (user: MentionableUser): string =>
+  `@[${user.name.replace(/[[\]\n]/g, '').trim()}](user:${user.id})`;
+
+/**
+ * Replace the mention being typed with the markup for the chosen user.
+ * Returns the new text and where the caret goes.
+ */
+export const insertMention = (
+  text: string,
+  mention: MentionQuery,
+  caret: number,
+  user: MentionableUser
+): { text: string; caret: number } => {
+  const markup = `${mentionMarkup(user)} `;
+  const after = text.slice(caret).replace(/^ /, '');
+
+  return {
+    text: text.slice(0, mention.start) + markup + after,
+    caret: mention.start + markup.length
+  };
+};
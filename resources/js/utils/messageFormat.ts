@@ -0,0 +1,218 @@
+/**
+ * Formatting of ICU MessageFormat messages, the syntax of the UI message catalogs.
+ * Supports simple arguments ({name}), numbers ({count, number}), plural
+ * (with =N, offset: and #) and select, nested in any order. Apostrophes quote
+ * literal braces and # as in ICU: '{' is a brace and '' is an apostrophe.
+ */
+
+export type MessageValues = Record<string, string | number | null | undefined>;
+
+type MessageNode =
+  | string
+  | { type: 'argument'; name: string }
+  | { type: 'number'; name: string }
+  | { type: 'pound' }
+  | { type: 'plural'; name: string; offset: number; options: Record<string, MessageNode[]> }
+  | { type: 'select'; name: string; options: Record<string, MessageNode[]> };
+
+const parsedMessages = new Map<string, MessageNode[]>();
+
+class MessageParser {
+  private position = 0;
+
+  constructor(private readonly message: string) {}
+
+  parse(): MessageNode[] {
+    const nodes = this.parseNodes(false);
+    if (this.position < this.message.length) {
+      this.fail('Unexpected "}"');
+    }
+    return nodes;
+  }
+
+  private fail(reason: string): never {
+    throw new Error(`${reason} at position ${this.position} in message "${this.message}"`);
+  }
+
+  private parseNodes(inPlural: boolean): MessageNode[] {
+    const nodes: MessageNode[] = [];
+    let text = '';
+
+    const flushText = () => {
+      if (text) nodes.push(text);
+      text = '';
+    };
+
+    while (this.position < this.message.length) {
+      const char = this.message[this.position];
+
+      if (char === '}') break;
+
+      if (char === '{') {
+        flushText();
+        nodes.push(this.parseArgument());
+      } else if (char === '#' && inPlural) {
+        flushText();
+        nodes.push({ type: 'pound' });
+        this.position++;
+      } else if (char === "'") {
+        text += this.parseQuoted(inPlural);
+      } else {
+        text += char;
+        this.position++;
+      }
+    }
+
+    flushText();
+    return nodes;
+  }
+
+  // '' is an apostrophe; an apostrophe before a syntax character quotes up to the next apostrophe
+  private parseQuoted(inPlural: boolean): string {
+    const next = this.message[this.position + 1];
+    if (next === "'") {
+      this.position += 2;
+      return "'";
+    }
+    if (next !== '{' && next !== '}' && !(next === '#' && inPlural)) {
+      this.position++;
+      return "'";
+    }
+
+    const end = this.message.indexOf("'", this.position + 1);
+    const quoted = this.message.slice(this.position + 1, end === -1 ? undefined : end);
+    this.position = end === -1 ? this.message.length : end + 1;
+    return quoted;
+  }
+
+  private parseArgument(): MessageNode {
+    this.position++; // {
+    const name = this.readWord();
+    if (!name) this.fail('Missing argument name');
+
+    this.skipWhitespace();
+    if (this.message[this.position] === '}') {
+      this.position++;
+      return { type: 'argument', name };
+    }
+    this.expect(',');
+
+    const type = this.readWord();
+    this.skipWhitespace();
+
+    if (type === 'number') {
+      this.expect('}');
+      return { type: 'number', name };
+    }
+    if (type !== 'plural' && type !== 'select') {
+      this.fail(`Unsupported argument type "${type}"`);
+    }
+
+    this.expect(',');
+    let offset = 0;
+    const options: Record<string, MessageNode[]> = {};
+
+    this.skipWhitespace();
+    while (this.message[this.position] !== '}') {
+      if (this.position >= this.message.length) this.fail('Unclosed argument');
+
+      const selector = this.readWord();
+      if (!selector) this.fail('Missing selector');
+
+      if (type === 'plural' && selector.startsWith('offset:')) {
+        offset = Number(selector.slice('offset:'.length));
+        this.skipWhitespace();
+        continue;
+      }
+
+      this.skipWhitespace();
+      this.expect('{', false);
+      options[selector] = this.parseNodes(type === 'plural');
+      this.expect('}', false);
+      this.skipWhitespace();
+    }
+    this.position++;
+
+    if (!options.other) this.fail(`Missing "other" option for "${name}"`);
+
+    return type === 'plural'
+      ? { type: 'plural', name, offset, options }
+      : { type: 'select', name, options };
+  }
+
+  private readWord(): string {
+    this.skipWhitespace();
+    const match = /^[^\s{},]+/.exec(this.message.slice(this.position));
+    if (!match) return '';
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.message[this.position] ?? '')) this.position++;
+  }
+
+  private expect(char: string, skipWhitespace = true): void {
+    if (skipWhitespace) this.skipWhitespace();
+    if (this.message[this.position] !== char) this.fail(`Expected "${char}"`);
+    this.position++;
+  }
+}
+
+const parseMessage = (message: string): MessageNode[] => {
+  let nodes = parsedMessages.get(message);
+  if (!nodes) {
+    nodes = new MessageParser(message).parse();
+    parsedMessages.set(message, nodes);
+  }
+  return nodes;
+};
+
+const formatNodes = (nodes: MessageNode[], values: MessageValues, locale: string, pluralValue?: number): string =>
+  nodes.map(node => {
+    if (typeof node === 'string') return node;
+
+    switch (node.type) {
+      case 'argument':
+        return String(values[node.name] ?? '');
+      case 'number':
+        return new Intl.NumberFormat(locale).format(Number(values[node.name] ?? 0));
+      case 'pound':
+        return pluralValue === undefined ? '#' : new Intl.NumberFormat(locale).format(pluralValue);
+      case 'plural': {
+        const count = Number(values[node.name] ?? 0);
+        const value = count - node.offset;
+        const option = node.options[`=${count}`]
+          ?? node.options[new Intl.PluralRules(locale).select(value)]
+          ?? node.options.other;
+        return formatNodes(option, values, locale, value);
+      }
+      case 'select': {
+        const option = node.options[String(values[node.name])] ?? node.options.other;
+        return formatNodes(option, values, locale, pluralValue);
+      }
+    }
+  }).join('');
+
+/**
+ * Format an ICU message with the given values. Throws on invalid message syntax.
+ */
+export const formatMessage = (message: string, values: MessageValues = {}, locale = 'en'): string =>
+  formatNodes(parseMessage(message), values, locale);
+
+/**
+ * Names of the arguments a message uses, e.g. to check that translations use the same ones
+ */
+export const getMessageArguments = (message: string): string[] => {
+  const names = new Set<string>();
+  const collect = (nodes: MessageNode[]) => nodes.forEach(node => {
+    if (typeof node === 'string' || node.type === 'pound') return;
+    names.add(node.name);
+    if (node.type === 'plural' || node.type === 'select') {
+      Object.values(node.options).forEach(collect);
+    }
+  });
+
+  collect(parseMessage(message));
+  return Array.from(names).sort();
+};
@@ -0,0 +1,265 @@
+import type { MessageDescriptor, Translate } from '@/i18n';
+import { DateKey, addDays, addMonths, daysInMonth, formatDateKey, getWeekday, startOfMonth, startOfWeek } from '@/utils/timezone';
+
+/**
+ * The subset of iCalendar RRULE (RFC 5545) that recurring tasks support:
+ * FREQ, INTERVAL, BYDAY (weekdays, or one nth weekday for monthly rules),
+ * BYMONTHDAY (monthly rules), and COUNT or UNTIL. The API evaluates the
+ * same subset when it generates the next occurrence.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: Weekday[];
+  // 1-4 or -1 (last) with a single BYDAY on monthly rules, e.g. 2TU
+  nth?: number;
+  byMonthDay?: number;
+  count?: number;
+  until?: DateKey;
+}
+
+export interface ParsedRecurrenceRule {
+  rule: RecurrenceRule | null;
+  errors: MessageDescriptor[];
+}
+
+// Monday first, the RRULE default week start
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+// A Monday, to name the weekdays in any locale
+const FIRST_MONDAY: DateKey = '2024-01-01';
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+const weekdayOf = (dateKey: DateKey): Weekday => WEEKDAYS[(getWeekday(dateKey) + 6) % 7];
+
+const isPositiveInteger = (value: string) => /^[1-9]\d*$/.test(value);
+
+export const getWeekdayName = (day: Weekday, locale?: string, width: 'long' | 'short' = 'long'): string =>
+  formatDateKey(addDays(FIRST_MONDAY, WEEKDAYS.indexOf(day)), { weekday: width }, locale);
+
+/**
+ * Parse an RRULE string, with or without the "RRULE:" prefix
+ */
+export const parseRecurrenceRule = (input: string): ParsedRecurrenceRule => {
+  const errors: MessageDescriptor[] = [];
+  const parts = input.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+  const values = new Map<string, string>();
+
+  for (const part of parts) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined || value === '') {
+      errors.push({ key: 'recurrence.error.invalidPart', values: { part } });
+      continue;
+    }
+    values.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = values.get('FREQ');
+  if (!freq) {
+    errors.push({ key: 'recurrence.error.freqRequired' });
+  } else if (!FREQUENCIES.includes(freq as RecurrenceFrequency)) {
+    errors.push({ key: 'recurrence.error.unsupportedFrequency', values: { freq } });
+  }
+
+  const rule: RecurrenceRule = { freq: freq as RecurrenceFrequency, interval: 1, byDay: [] };
+
+  values.forEach((value, key) => {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        if (isPositiveInteger(value)) rule.interval = Number(value);
+        else errors.push({ key: 'recurrence.error.interval' });
+        break;
+      case 'BYDAY':
+        value.split(',').forEach(token => {
+          const match = token.match(/^(-1|[1-4])?(MO|TU|WE|TH|FR|SA|SU)$/);
+          if (!match) {
+            errors.push({ key: 'recurrence.error.invalidDay', values: { day: token } });
+            return;
+          }
+          if (match[1]) rule.nth = Number(match[1]);
+          rule.byDay.push(match[2] as Weekday);
+        });
+        break;
+      case 'BYMONTHDAY':
+        if (isPositiveInteger(value) && Number(value) <= 31) rule.byMonthDay = Number(value);
+        else errors.push({ key: 'recurrence.error.monthDay' });
+        break;
+      case 'COUNT':
+        if (isPositiveInteger(value)) rule.count = Number(value);
+        else errors.push({ key: 'recurrence.error.count' });
+        break;
+      case 'UNTIL': {
+        const match = value.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/);
+        if (match) rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+        else errors.push({ key: 'recurrence.error.until' });
+        break;
+      }
+      default:
+        errors.push({ key: 'recurrence.error.unsupportedPart', values: { part: key } });
+    }
+  });
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    errors.push({ key: 'recurrence.error.countAndUntil' });
+  }
+  if (rule.nth !== undefined && (rule.freq !== 'MONTHLY' || rule.byDay.length !== 1)) {
+    errors.push({ key: 'recurrence.error.nthWeekday' });
+  }
+  if (rule.byDay.length > 0 && rule.freq !== 'WEEKLY' && rule.freq !== 'MONTHLY') {
+    errors.push({ key: 'recurrence.error.byDay' });
+  }
+  if (rule.byMonthDay !== undefined && (rule.freq !== 'MONTHLY' || rule.byDay.length > 0)) {
+    errors.push({ key: 'recurrence.error.byMonthDay' });
+  }
+  if (rule.freq === 'MONTHLY' && rule.byDay.length > 0 && rule.nth === undefined) {
+    errors.push({ key: 'recurrence.error.monthlyByDay' });
+  }
+
+  return { rule: errors.length === 0 ? rule : null, errors };
+};
+
+/**
+ * Write a rule back as an RRULE string, leaving out defaults
+ */
+export const formatRecurrenceRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    const days = WEEKDAYS.filter(day => rule.byDay.includes(day));
+    parts.push(`BYDAY=${days.map(day => `${rule.nth ?? ''}${day}`).join(',')}`);
+  }
+  if (rule.byMonthDay !== undefined) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until !== undefined) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+
+  return parts.join(';');
+};
+
+const ordinal = (n: number, t: Translate, locale?: string): string =>
+  n === -1
+    ? t('recurrence.describe.last')
+    : t('recurrence.describe.ordinal', { n, category: new Intl.PluralRules(locale, { type: 'ordinal' }).select(n) });
+
+const joinWords = (words: string[], t: Translate): string =>
+  words.length <= 1
+    ? words.join('')
+    : t('recurrence.describe.list', { items: words.slice(0, -1).join(', '), last: words[words.length - 1] });
+
+/**
+ * Human-readable summary, e.g. "Every 2nd Tuesday" or "Every 2 weeks on Monday and Thursday, 10 times"
+ */
+export const describeRecurrence = (rule: RecurrenceRule, t: Translate, locale?: string): string => {
+  const every = t('recurrence.describe.every', { unit: rule.freq.toLowerCase(), interval: rule.interval });
+  let text = every;
+
+  if (rule.freq === 'WEEKLY' && rule.byDay.length > 0) {
+    const days = WEEKDAYS.filter(day => rule.byDay.includes(day));
+    const isWeekdays = days.join() === 'MO,TU,WE,TH,FR';
+    text = isWeekdays && rule.interval === 1
+      ? t('recurrence.describe.everyWeekday')
+      : t('recurrence.describe.onDays', { every, days: joinWords(days.map(day => getWeekdayName(day, locale)), t) });
+  } else if (rule.freq === 'MONTHLY' && rule.nth !== undefined) {
+    const day = t('recurrence.describe.nthWeekday', {
+      nth: ordinal(rule.nth, t, locale),
+      weekday: getWeekdayName(rule.byDay[0], locale)
+    });
+    text = t('recurrence.describe.onWeekday', { every, day, interval: rule.interval });
+  } else if (rule.freq === 'MONTHLY' && rule.byMonthDay !== undefined) {
+    text = t('recurrence.describe.onMonthDay', { every, day: ordinal(rule.byMonthDay, t, locale) });
+  }
+
+  if (rule.count !== undefined) {
+    text = t('recurrence.describe.count', { text, count: rule.count });
+  } else if (rule.until !== undefined) {
+    text = t('recurrence.describe.until', { text, date: formatDateKey(rule.until, { dateStyle: 'medium' }, locale) });
+  }
+
+  return text;
+};
+
+const nthWeekdayOfMonth = (monthStart: DateKey, weekday: Weekday, nth: number): DateKey | null => {
+  const offset = (WEEKDAYS.indexOf(weekday) - WEEKDAYS.indexOf(weekdayOf(monthStart)) + 7) % 7;
+  const first = addDays(monthStart, offset);
+  const length = daysInMonth(monthStart);
+
+  if (nth === -1) {
+    const lastWeek = Math.floor((length - 1 - offset) / 7);
+    return addDays(first, lastWeek * 7);
+  }
+
+  const day = offset + (nth - 1) * 7;
+  return day < length ? addDays(monthStart, day) : null;
+};
+
+const MAX_PERIODS = 60;
+
+/**
+ * The first day after the given one that matches the rule, ignoring COUNT and UNTIL.
+ * Periods are counted from the given day, so INTERVAL steps from the current occurrence.
+ */
+export const getNextOccurrence = (from: DateKey, rule: RecurrenceRule): DateKey | null => {
+  switch (rule.freq) {
+    case 'DAILY':
+      return addDays(from, rule.interval);
+
+    case 'WEEKLY': {
+      const offsets = (rule.byDay.length > 0 ? rule.byDay : [weekdayOf(from)])
+        .map(day => WEEKDAYS.indexOf(day))
+        .sort((a, b) => a - b);
+      const weekStart = startOfWeek(from, 1);
+      const laterThisWeek = offsets.map(offset => addDays(weekStart, offset)).find(day => day > from);
+      return laterThisWeek ?? addDays(weekStart, rule.interval * 7 + offsets[0]);
+    }
+
+    case 'MONTHLY': {
+      const monthDay = rule.byMonthDay ?? Number(from.slice(8, 10));
+      // Start with the current month in case the first occurrence is before the rule's day
+      for (let period = 0; period <= MAX_PERIODS; period++) {
+        const monthStart = addMonths(startOfMonth(from), period * rule.interval);
+        const candidate = rule.nth !== undefined
+          ? nthWeekdayOfMonth(monthStart, rule.byDay[0], rule.nth)
+          : monthDay <= daysInMonth(monthStart) ? addDays(monthStart, monthDay - 1) : null;
+        if (candidate && candidate > from) return candidate;
+      }
+      return null;
+    }
+
+    case 'YEARLY': {
+      for (let period = 1; period <= MAX_PERIODS; period++) {
+        const candidate = addMonths(from, period * rule.interval * 12);
+        // Feb 29 only occurs in leap years
+        if (candidate.slice(5) === from.slice(5)) return candidate;
+      }
+      return null;
+    }
+  }
+};
+
+/**
+ * Occurrences after the given one, honouring COUNT and UNTIL
+ *
+ * @param index position of `from` in its series, starting at 1
+ */
+export const getUpcomingOccurrences = (from: DateKey, rule: RecurrenceRule, limit: number, index = 1): DateKey[] => {
+  const occurrences: DateKey[] = [];
+  let current: DateKey | null = from;
+
+  while (occurrences.length < limit) {
+    current = getNextOccurrence(current, rule);
+    index++;
+    if (!current) break;
+    if (rule.count !== undefined && index > rule.count) break;
+    if (rule.until !== undefined && current > rule.until) break;
+    occurrences.push(current);
+  }
+
+  return occurrences;
+};
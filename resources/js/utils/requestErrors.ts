@@ -0,0 +1,33 @@
+import axios from 'axios';
+
+/**
+ * A failed API call that keeps the HTTP status, so callers can tell a change the
+ * server rejected from one that never reached it. The status is null without a response.
+ */
+export class RequestError extends Error {
+  constructor(message: string, readonly status: number | null) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+export const toRequestError = (error: unknown, message: string): RequestError =>
+  new RequestError(message, axios.isAxiosError(error) ? error.response?.status ?? null : null);
+
+// Gateway errors come from a proxy in front of the app, not the app itself
+const RETRYABLE_STATUSES = [502, 503, 504];
+
+/**
+ * Whether a request failed without an answer from the app, i.e. with no response
+ * (server unreachable, captive portal, flaky Wi-Fi) or a gateway error. Such a change
+ * can still go through later; any other status means the server turned it down.
+ */
+export const isUnreachableError = (error: unknown): boolean => {
+  if (error instanceof RequestError) {
+    return error.status === null || RETRYABLE_STATUSES.includes(error.status);
+  }
+  if (axios.isAxiosError(error)) {
+    return !error.response || RETRYABLE_STATUSES.includes(error.response.status);
+  }
+  return false;
+};
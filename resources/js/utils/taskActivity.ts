@@ -0,0 +1,77 @@
+import { TaskFieldChange, TaskFormData, TaskSnapshot, TaskSnapshotField, Translations } from '@/types';
+
+/**
+ * Helpers for task versions, mirroring App\Services\Task\TaskActivityService:
+ * the same fields, in the same order, with name and description compared per language.
+ */
+
+export const SNAPSHOT_FIELDS: TaskSnapshotField[] = ['name', 'description', 'status', 'priority', 'due_date', 'recurrence_rule'];
+
+const isTranslatable = (field: TaskSnapshotField): field is 'name' | 'description' =>
+  field === 'name' || field === 'description';
+
+// The API sends an empty list rather than an object when a field has no translations
+const translationsOf = (value: Translations | unknown[] | null | undefined): Translations =>
+  value && !Array.isArray(value) ? value : {};
+
+const present = (value: string | null | undefined): string | null =>
+  value === undefined || value === '' ? null : value;
+
+/**
+ * Field by field differences between two versions; translatable fields give one entry per changed language
+ */
+export const diffSnapshots = (before: TaskSnapshot, after: TaskSnapshot): TaskFieldChange[] => {
+  const changes: TaskFieldChange[] = [];
+
+  for (const field of SNAPSHOT_FIELDS) {
+    if (isTranslatable(field)) {
+      const from = translationsOf(before[field]);
+      const to = translationsOf(after[field]);
+      const locales = [...new Set([...Object.keys(from), ...Object.keys(to)])].sort();
+
+      for (const locale of locales) {
+        const oldValue = present(from[locale]);
+        const newValue = present(to[locale]);
+        if (oldValue !== newValue) {
+          changes.push({ field, locale, from: oldValue, to: newValue });
+        }
+      }
+      continue;
+    }
+
+    const oldValue = present(before[field]);
+    const newValue = present(after[field]);
+    if (oldValue !== newValue) {
+      changes.push({ field, locale: null, from: oldValue, to: newValue });
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * The update that turns `current` back into `target`. Only fields that differ are sent;
+ * translations are sent whole, with an empty string for languages the target did not have.
+ */
+export const snapshotToFormData = (target: TaskSnapshot, current: TaskSnapshot): Partial<TaskFormData> => {
+  const data: Partial<TaskFormData> = {};
+  const fields = new Set(diffSnapshots(current, target).map(change => change.field));
+
+  for (const field of ['name', 'description'] as const) {
+    if (fields.has(field)) {
+      const translations: Translations = {};
+      for (const locale of Object.keys(translationsOf(current[field]))) {
+        translations[locale] = '';
+      }
+      data[field] = { ...translations, ...translationsOf(target[field]) };
+    }
+  }
+
+  if (fields.has('status')) data.status = target.status;
+  if (fields.has('priority')) data.priority = target.priority;
+  // The form sends an empty due date to clear it
+  if (fields.has('due_date')) data.due_date = target.due_date ?? '';
+  if (fields.has('recurrence_rule')) data.recurrence_rule = target.recurrence_rule;
+
+  return data;
+};
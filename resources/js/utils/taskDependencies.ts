@@ -0,0 +1,76 @@
+import { Task, TaskDependency } from '@/types';
+
+// Statuses a task cannot move to while one of its blockers is unfinished
+export const BLOCKED_STATUSES: Task['status'][] = ['in_progress', 'completed'];
+
+export const isFinishedStatus = (status: Task['status']): boolean =>
+  status === 'completed' || status === 'cancelled';
+
+/**
+ * Tasks and their loaded subtasks as one list
+ */
+export const flattenTasks = (tasks: Task[]): Task[] => {
+  const byId = new Map<number, Task>();
+  const visit = (task: Task) => {
+    if (!byId.has(task.id)) byId.set(task.id, task);
+    task.subtasks?.forEach(visit);
+  };
+  tasks.forEach(visit);
+  return Array.from(byId.values());
+};
+
+/**
+ * Blockers of a task that are not finished yet. Statuses of tasks in the
+ * given list win over the snapshot in blocked_by, which is stale as soon as
+ * a blocker is completed locally.
+ */
+export const getOpenBlockers = (task: Task, tasks: Task[] = []): TaskDependency[] => {
+  const statusById = new Map(flattenTasks(tasks).map(t => [t.id, t.status]));
+
+  return (task.blocked_by ?? []).filter(blocker => {
+    const status = statusById.get(blocker.id) ?? blocker.status;
+    return !isFinishedStatus(status);
+  });
+};
+
+/**
+ * Whether moving a task to the given status is refused by its blockers
+ */
+export const isBlockedStatusChange = (task: Task, status: Task['status'], tasks: Task[] = []): boolean =>
+  BLOCKED_STATUSES.includes(status) && getOpenBlockers(task, tasks).length > 0;
+
+/**
+ * Tasks that become startable once the given task is finished
+ */
+export const getUnblockedBy = (blockerId: number, tasks: Task[]): Task[] => {
+  const all = flattenTasks(tasks);
+  const finished = all.map(t => (t.id === blockerId ? { ...t, status: 'completed' as const } : t));
+
+  return all.filter(task =>
+    !isFinishedStatus(task.status) &&
+    task.blocked_by?.some(blocker => blocker.id === blockerId) &&
+    getOpenBlockers(task, finished).length === 0
+  );
+};
+
+/**
+ * Whether making taskId depend on blockerId would close a cycle, i.e. the
+ * blocker already waits on taskId directly or through other tasks
+ */
+export const wouldCreateCycle = (taskId: number, blockerId: number, tasks: Task[]): boolean => {
+  if (taskId === blockerId) return true;
+
+  const blockersOf = new Map(flattenTasks(tasks).map(t => [t.id, (t.blocked_by ?? []).map(b => b.id)]));
+  const visited = new Set<number>();
+  const stack = [blockerId];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    stack.push(...(blockersOf.get(current) ?? []));
+  }
+
+  return false;
+};
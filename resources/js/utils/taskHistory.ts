@@ -0,0 +1,111 @@
+import { Task, TaskFormData } from '@/types';
+
+/**
+ * Undo/redo history for task mutations. Entries record the operations that
+ * revert and replay a change rather than callbacks, so they always run
+ * against the current task state when they are applied.
+ */
+
+export type TaskOperation =
+  | { type: 'update'; id: number; data: Partial<TaskFormData> }
+  | { type: 'status'; id: number; status: Task['status'] }
+  | { type: 'delete'; id: number }
+  | { type: 'restore'; id: number }
+  | { type: 'bulk_update'; updates: Array<{ id: number; data: Partial<TaskFormData> }> }
+  | { type: 'reorder'; ids: number[] }
+  | { type: 'reorder_subtasks'; parentId: number; ids: number[] };
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  undo: TaskOperation[];
+  redo: TaskOperation[];
+}
+
+export interface TaskHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export type HistoryShortcut = 'undo' | 'redo';
+
+export const MAX_HISTORY_ENTRIES = 50;
+
+export const emptyHistory: TaskHistory = { past: [], future: [] };
+
+/**
+ * Add a new change to the history; anything that could be redone is dropped
+ */
+export const recordEntry = (history: TaskHistory, entry: HistoryEntry): TaskHistory => ({
+  past: [...history.past, entry].slice(-MAX_HISTORY_ENTRIES),
+  future: []
+});
+
+/**
+ * The entry to undo (the latest one, or a specific one from a toast) and the history without it
+ */
+export const takeUndo = (history: TaskHistory, entryId?: number): [HistoryEntry | null, TaskHistory] => {
+  const entry = entryId === undefined
+    ? history.past[history.past.length - 1]
+    : history.past.find(candidate => candidate.id === entryId);
+  if (!entry) return [null, history];
+
+  return [entry, { ...history, past: history.past.filter(candidate => candidate !== entry) }];
+};
+
+export const takeRedo = (history: TaskHistory): [HistoryEntry | null, TaskHistory] => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return [null, history];
+
+  return [entry, { ...history, future: history.future.slice(0, -1) }];
+};
+
+/**
+ * The update that puts back the values a change is about to overwrite.
+ * Name and description can only be reverted from a task loaded with its translations.
+ */
+export const getRevertData = (
+  task: Task & { translations?: { name?: Record<string, string>; description?: Record<string, string> } },
+  data: Partial<TaskFormData>
+): Partial<TaskFormData> => {
+  const revert: Partial<TaskFormData> = {};
+  const name = task.translations?.name ?? (typeof task.name === 'object' ? task.name : undefined);
+  const description = task.translations?.description ?? (typeof task.description === 'object' ? task.description : undefined);
+
+  if (data.name !== undefined && name) revert.name = name;
+  if (data.description !== undefined && description) revert.description = description;
+  if (data.status !== undefined) revert.status = task.status;
+  if (data.priority !== undefined) revert.priority = task.priority;
+  // An empty due date clears it
+  if (data.due_date !== undefined) revert.due_date = task.due_date ?? '';
+  // Moves out of a parent are reverted with moveSubtask, which the update can't express
+  if (data.parent_id !== undefined && task.parent_id) revert.parent_id = task.parent_id;
+  if (data.blocked_by_ids !== undefined) revert.blocked_by_ids = task.blocked_by?.map(blocker => blocker.id) ?? [];
+  if (data.recurrence_rule !== undefined) revert.recurrence_rule = task.recurrence_rule ?? null;
+  if (data.assignee_id !== undefined) revert.assignee_id = task.assignee_id ?? null;
+  if (data.label_ids !== undefined) revert.label_ids = task.labels?.map(label => label.id) ?? [];
+
+  return revert;
+};
+
+/**
+ * Ctrl+Z / Cmd+Z undoes, Ctrl+Shift+Z / Cmd+Shift+Z and Ctrl+Y redo
+ */
+export const getHistoryShortcut = (
+  event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'shiftKey' | 'altKey'>
+): HistoryShortcut | null => {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) return null;
+
+  const key = event.key.toLowerCase();
+  if (key === 'z') return event.shiftKey ? 'redo' : 'undo';
+  if (key === 'y' && event.ctrlKey && !event.shiftKey) return 'redo';
+  return null;
+};
+
+/**
+ * Text fields keep their own undo, so shortcuts typed into them are not task history
+ */
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
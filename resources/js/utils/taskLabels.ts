@@ -0,0 +1,48 @@
+import { LabelMatch, Task, TaskFormData } from '@/types';
+import { getTaskRole } from '@/utils/taskSharing';
+
+export type LabelChange = 'add' | 'remove';
+
+// Colors labels created inline get; the same name always gets the same color
+export const LABEL_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899'];
+
+export const pickLabelColor = (name: string): string => {
+  let hash = 0;
+  for (const char of name.trim().toLowerCase()) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return LABEL_COLORS[hash % LABEL_COLORS.length];
+};
+
+/**
+ * Whether a task has any (or all) of the labels; no labels matches every task
+ */
+export const matchesLabels = (task: Task, labelIds: number[], match: LabelMatch = 'any'): boolean => {
+  if (labelIds.length === 0) return true;
+
+  const taskLabelIds = new Set(task.labels?.map(label => label.id) ?? []);
+  return match === 'all'
+    ? labelIds.every(id => taskLabelIds.has(id))
+    : labelIds.some(id => taskLabelIds.has(id));
+};
+
+/**
+ * Per-task updates that add a label to, or remove it from, each task. The server replaces
+ * the labels of a task, so every update carries its full list. Only owners label their
+ * tasks, and tasks the change leaves as they are are skipped.
+ */
+export const getBulkLabelUpdates = (
+  tasks: Task[],
+  labelId: number,
+  change: LabelChange
+): Array<{ id: number; data: Partial<TaskFormData> }> =>
+  tasks
+    .filter(task => getTaskRole(task) === 'owner')
+    .filter(task => (task.labels ?? []).some(label => label.id === labelId) === (change === 'remove'))
+    .map(task => {
+      const labelIds = task.labels?.map(label => label.id) ?? [];
+      return {
+        id: task.id,
+        data: { label_ids: change === 'add' ? [...labelIds, labelId] : labelIds.filter(id => id !== labelId) }
+      };
+    });
@@ -0,0 +1,101 @@
+import { LabelMatch, Task } from '@/types';
+
+export type TaskListSort = 'name' | 'created_at' | 'due_date' | 'priority' | 'status' | 'custom';
+
+/**
+ * Everything that makes up a task list view; kept in the /tasks query string
+ */
+export interface TaskListViewState {
+  search: string;
+  status?: Task['status'];
+  priority?: Task['priority'];
+  // Tasks assigned to the current user, or with a subtask assigned to them
+  assignedToMe: boolean;
+  // Label IDs; tasks need any or all of them, depending on labelMatch
+  labels: number[];
+  labelMatch: LabelMatch;
+  sortBy: TaskListSort;
+  sortDirection: 'asc' | 'desc';
+  showCompleted: boolean;
+  viewMode: 'list' | 'grid';
+  page: number;
+}
+
+export const DEFAULT_TASK_LIST_VIEW: TaskListViewState = {
+  search: '',
+  assignedToMe: false,
+  labels: [],
+  labelMatch: 'any',
+  sortBy: 'created_at',
+  sortDirection: 'desc',
+  showCompleted: true,
+  viewMode: 'list',
+  page: 1,
+};
+
+const STATUSES: Task['status'][] = ['pending', 'in_progress', 'completed', 'cancelled'];
+const PRIORITIES: Task['priority'][] = ['low', 'medium', 'high', 'urgent'];
+const SORTS: TaskListSort[] = ['name', 'created_at', 'due_date', 'priority', 'status', 'custom'];
+
+const oneOf = <T extends string>(values: readonly T[], value: string | null): T | undefined =>
+  values.includes(value as T) ? (value as T) : undefined;
+
+/**
+ * Read a view from query parameters, ignoring anything malformed
+ */
+export const parseTaskListView = (
+  params: URLSearchParams,
+  defaults: TaskListViewState = DEFAULT_TASK_LIST_VIEW
+): TaskListViewState => {
+  const page = Number(params.get('page'));
+  const labels = params.get('labels')?.split(',').map(Number).filter(id => Number.isInteger(id) && id > 0);
+
+  return {
+    search: params.get('q') ?? defaults.search,
+    status: oneOf(STATUSES, params.get('status')) ?? defaults.status,
+    priority: oneOf(PRIORITIES, params.get('priority')) ?? defaults.priority,
+    assignedToMe: params.has('assigned') ? params.get('assigned') === 'me' : defaults.assignedToMe,
+    labels: labels?.length ? Array.from(new Set(labels)) : defaults.labels,
+    labelMatch: oneOf(['any', 'all'] as const, params.get('match')) ?? defaults.labelMatch,
+    sortBy: oneOf(SORTS, params.get('sort')) ?? defaults.sortBy,
+    sortDirection: oneOf(['asc', 'desc'] as const, params.get('dir')) ?? defaults.sortDirection,
+    showCompleted: params.has('completed') ? params.get('completed') !== 'hide' : defaults.showCompleted,
+    viewMode: oneOf(['list', 'grid'] as const, params.get('view')) ?? defaults.viewMode,
+    page: Number.isInteger(page) && page > 0 ? page : defaults.page,
+  };
+};
+
+/**
+ * Write a view as query parameters, leaving out defaults so links stay short
+ */
+export const serializeTaskListView = (
+  view: TaskListViewState,
+  defaults: TaskListViewState = DEFAULT_TASK_LIST_VIEW
+): Record<string, string> => {
+  const params: Record<string, string> = {};
+
+  if (view.search) params.q = view.search;
+  if (view.status) params.status = view.status;
+  if (view.priority) params.priority = view.priority;
+  if (view.assignedToMe !== defaults.assignedToMe) params.assigned = view.assignedToMe ? 'me' : 'anyone';
+  if (view.labels.length > 0) params.labels = view.labels.join(',');
+  if (view.labelMatch !== defaults.labelMatch) params.match = view.labelMatch;
+  if (view.sortBy !== defaults.sortBy) params.sort = view.sortBy;
+  if (view.sortDirection !== defaults.sortDirection) params.dir = view.sortDirection;
+  if (view.showCompleted !== defaults.showCompleted) params.completed = view.showCompleted ? 'show' : 'hide';
+  if (view.viewMode !== defaults.viewMode) params.view = view.viewMode;
+  if (view.page !== defaults.page) params.page = view.page.toString();
+
+  return params;
+};
+
+/**
+ * Whether two query strings describe the same view, regardless of parameter order
+ */
+export const isSameTaskListView = (a: URLSearchParams, b: URLSearchParams): boolean => {
+  const normalize = (params: URLSearchParams) => {
+    const { page: _page, ...rest } = serializeTaskListView(parseTaskListView(params));
+    return JSON.stringify(Object.entries(rest).sort(([x], [y]) => x.localeCompare(y)));
+  };
+  return normalize(a) === normalize(b);
+};
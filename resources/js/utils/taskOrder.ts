@@ -0,0 +1,59 @@
+import { Task } from '@/types';
+
+/**
+ * Drag-and-drop ordering of tasks. Only sort_order is touched, so a reorder and
+ * a status change made by the same drop don't overwrite each other.
+ */
+
+export const bySortOrder = (a: Task, b: Task) => (a.sort_order ?? 0) - (b.sort_order ?? 0) || a.id - b.id;
+
+/**
+ * Cards of a board cell with the dragged card placed where it was dropped: before the
+ * card it was dropped on, or last when dropped on the cell itself
+ */
+export const placeInCell = (cellTasks: Task[], task: Task, overId: string | number): Task[] => {
+  const others = cellTasks.filter(t => t.id !== task.id);
+  const overIndex = others.findIndex(t => t.id.toString() === overId.toString());
+  others.splice(overIndex === -1 ? others.length : overIndex, 0, task);
+  return others;
+};
+
+/**
+ * Cards of one column can belong to different sibling groups (root tasks, subtasks of a
+ * parent). Only the moved card's siblings are reordered: they keep the slots they already
+ * occupied in the persisted order, so cards in other columns do not move.
+ * Returns the new order of the siblings, or null when nothing moved.
+ */
+export const getSiblingOrder = (tasks: Task[], task: Task, cellTasks: Task[]): number[] | null => {
+  const parentId = task.parent_id ?? null;
+  const isSibling = (t: Task) => (t.parent_id ?? null) === parentId;
+  const cellIds = new Set(cellTasks.map(t => t.id));
+
+  const siblings = tasks.filter(t => isSibling(t) && t.id !== task.id).sort(bySortOrder);
+  const reorderedSiblings = cellTasks.filter(isSibling);
+
+  // Slots of the target cell's siblings in the full order; the moved card takes one more slot
+  const order: Array<Task | null> = [...siblings.map(t => (cellIds.has(t.id) ? null : t)), null];
+  let next = 0;
+  const orderedIds = order.map(t => t ? t.id : reorderedSiblings[next++]?.id).filter((id): id is number => id !== undefined);
+
+  const previousIds = tasks.filter(isSibling).sort(bySortOrder).map(t => t.id);
+  return orderedIds.join() === previousIds.join() ? null : orderedIds;
+};
+
+/**
+ * Give the tasks the order of the ids, leaving everything else about them as it is
+ */
+export const applyTaskOrder = (tasks: Task[], taskIds: number[]): Task[] => {
+  const positions = new Map(taskIds.map((id, index) => [id, index]));
+  return tasks.map(task => positions.has(task.id) ? { ...task, sort_order: positions.get(task.id) } : task);
+};
+
+/**
+ * Put back the order the tasks had before a reorder failed; other changes made since stay
+ */
+export const restoreTaskOrder = (tasks: Task[], previousTasks: Task[], taskIds: number[]): Task[] => {
+  const ids = new Set(taskIds);
+  const previousOrder = new Map(previousTasks.filter(task => ids.has(task.id)).map(task => [task.id, task.sort_order]));
+  return tasks.map(task => previousOrder.has(task.id) ? { ...task, sort_order: previousOrder.get(task.id) } : task);
+};
@@ -0,0 +1,341 @@
+import { Task, Language } from '@/types';
+import type { MessageDescriptor } from '@/i18n';
+import type { LocaleAwareTaskFilters } from '@/services/TaskService';
+import { DateKey, addDays, toDateKey } from '@/utils/timezone';
+import { isSupportedLocale } from '@/utils/locales';
+import { getFallbackChain, getLocalizedText } from '@/utils/localizedText';
+
+/**
+ * Structured task search, e.g.
+ *   status:in_progress priority:>=high due:<2026-11-01 parent:42 lang:fr "exact phrase" -cancelled
+ *
+ * Terms are ANDed together and any term can be negated with a leading "-". Bare status names
+ * (`completed`, `-cancelled`) are shorthand for `status:`; quote them to search for the word.
+ */
+
+export type QueryComparator = '=' | '<' | '<=' | '>' | '>=';
+
+export type TaskQueryClause =
+  | { type: 'text'; value: string; phrase: boolean; negated: boolean }
+  | { type: 'status'; values: Task['status'][]; negated: boolean }
+  | { type: 'priority'; comparator: QueryComparator; value: Task['priority']; negated: boolean }
+  | { type: 'due'; comparator: QueryComparator; date: DateKey | null; negated: boolean }
+  | { type: 'parent'; parentId: number | null; negated: boolean };
+
+export interface TaskQueryToken {
+  text: string;
+  start: number;
+  end: number;
+  error?: MessageDescriptor;
+}
+
+export interface ParsedTaskQuery {
+  clauses: TaskQueryClause[];
+  // Language whose translations text terms search in; 'all' searches every translation
+  language: Language | 'all' | null;
+  tokens: TaskQueryToken[];
+  errors: TaskQueryToken[];
+}
+
+export interface TaskQueryMatchOptions {
+  language: Language;
+  allLanguages?: boolean;
+  timeZone?: string;
+  // Locales searched when a text is missing in the language, see getFallbackChain
+  fallbackChain?: Language[];
+}
+
+export const QUERY_STATUSES: Task['status'][] = ['pending', 'in_progress', 'completed', 'cancelled'];
+export const QUERY_PRIORITIES: Task['priority'][] = ['low', 'medium', 'high', 'urgent'];
+const FIELDS = ['status', 'priority', 'due', 'parent', 'lang'] as const;
+
+type QueryField = typeof FIELDS[number];
+
+const COMPARATOR_PATTERN = /^(<=|>=|<|>|=)?(.*)$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+class QueryTokenError extends Error {
+  constructor(readonly descriptor: MessageDescriptor) {
+    super(descriptor.key);
+  }
+}
+
+const tokenError = (key: MessageDescriptor['key'], values?: MessageDescriptor['values']) =>
+  new QueryTokenError({ key, values });
+
+const unquote = (value: string) => value.replace(/^"(.*)"$/, '$1').replace(/"/g, '');
+
+const isValidDate = (value: string): boolean => {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return false;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+const compare = (comparator: QueryComparator, a: number | string, b: number | string): boolean => {
+  switch (comparator) {
+    case '=':
+      return a === b;
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+  }
+};
+
+/**
+ * Split on whitespace outside double quotes, keeping each token's position for highlighting
+ */
+const tokenize = (input: string): TaskQueryToken[] => {
+  const tokens: TaskQueryToken[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    let inQuote = false;
+    while (index < input.length && (inQuote || !/\s/.test(input[index]))) {
+      if (input[index] === '"') inQuote = !inQuote;
+      index++;
+    }
+
+    tokens.push({
+      text: input.slice(start, index),
+      start,
+      end: index,
+      error: inQuote ? { key: 'taskQuery.error.missingQuote' } : undefined,
+    });
+  }
+
+  return tokens;
+};
+
+const parseField = (field: QueryField, rawValue: string, negated: boolean): TaskQueryClause | { type: 'lang'; value: Language | 'all' } => {
+  const value = unquote(rawValue).toLowerCase();
+  if (!value) {
+    throw tokenError('taskQuery.error.missingValue', { field });
+  }
+
+  switch (field) {
+    case 'status': {
+      const values = value.split(',').filter(Boolean);
+      const invalid = values.find(status => !QUERY_STATUSES.includes(status as Task['status']));
+      if (invalid) {
+        throw tokenError('taskQuery.error.unknownStatus', { status: invalid });
+      }
+      return { type: 'status', values: values as Task['status'][], negated };
+    }
+    case 'priority': {
+      const [, comparator = '=', priority] = COMPARATOR_PATTERN.exec(value)!;
+      if (!QUERY_PRIORITIES.includes(priority as Task['priority'])) {
+        throw tokenError('taskQuery.error.unknownPriority', { priority });
+      }
+      return { type: 'priority', comparator: comparator as QueryComparator, value: priority as Task['priority'], negated };
+    }
+    case 'due': {
+      const [, comparator = '=', date] = COMPARATOR_PATTERN.exec(value)!;
+      if (date === 'none') {
+        if (comparator !== '=') {
+          throw tokenError('taskQuery.error.compareNone');
+        }
+        return { type: 'due', comparator, date: null, negated };
+      }
+      if (!isValidDate(date)) {
+        throw tokenError('taskQuery.error.invalidDate', { date });
+      }
+      return { type: 'due', comparator: comparator as QueryComparator, date, negated };
+    }
+    case 'parent': {
+      if (value === 'none') {
+        return { type: 'parent', parentId: null, negated };
+      }
+      if (!/^\d+$/.test(value)) {
+        throw tokenError('taskQuery.error.invalidParent', { id: value });
+      }
+      return { type: 'parent', parentId: Number(value), negated };
+    }
+    case 'lang': {
+      if (negated) {
+        throw tokenError('taskQuery.error.negatedLanguage');
+      }
+      if (value !== 'all' && !isSupportedLocale(value)) {
+        throw tokenError('taskQuery.error.unsupportedLanguage', { language: value });
+      }
+      return { type: 'lang', value };
+    }
+  }
+};
+
+export const parseTaskQuery = (input: string): ParsedTaskQuery => {
+  const result: ParsedTaskQuery = { clauses: [], language: null, tokens: [], errors: [] };
+
+  tokenize(input).forEach(token => {
+    result.tokens.push(token);
+    if (token.error) {
+      result.errors.push(token);
+      return;
+    }
+
+    const negated = token.text.length > 1 && token.text.startsWith('-');
+    const text = negated ? token.text.slice(1) : token.text;
+
+    try {
+      if (text.startsWith('"')) {
+        const phrase = unquote(text).trim();
+        if (phrase) {
+          result.clauses.push({ type: 'text', value: phrase, phrase: true, negated });
+        }
+        return;
+      }
+
+      const fieldMatch = /^([a-z_]+):(.*)$/i.exec(text);
+      if (fieldMatch) {
+        const field = fieldMatch[1].toLowerCase();
+        if (!FIELDS.includes(field as QueryField)) {
+          throw tokenError('taskQuery.error.unknownFilter', { field });
+        }
+
+        const clause = parseField(field as QueryField, fieldMatch[2], negated);
+        if (clause.type === 'lang') {
+          result.language = clause.value;
+        } else {
+          result.clauses.push(clause);
+        }
+        return;
+      }
+
+      if (QUERY_STATUSES.includes(text.toLowerCase() as Task['status'])) {
+        result.clauses.push({ type: 'status', values: [text.toLowerCase() as Task['status']], negated });
+        return;
+      }
+
+      result.clauses.push({ type: 'text', value: text, phrase: false, negated });
+    } catch (error) {
+      if (!(error instanceof QueryTokenError)) throw error;
+      token.error = error.descriptor;
+      result.errors.push(token);
+    }
+  });
+
+  return result;
+};
+
+const translationsOf = (
+  field: Task['name'] | Task['description'],
+  language: Language | 'all',
+  fallbackChain: Language[] | null
+): string[] => {
+  if (!field) return [];
+  if (typeof field === 'string') return [field];
+  if (language === 'all') return Object.values(field).filter((text): text is string => !!text);
+
+  const text = fallbackChain ? getLocalizedText(field, fallbackChain).trim() : field[language]?.trim();
+  return text ? [text] : [];
+};
+
+const matchesClause = (
+  task: Task,
+  clause: TaskQueryClause,
+  query: ParsedTaskQuery,
+  options: TaskQueryMatchOptions
+): boolean => {
+  switch (clause.type) {
+    case 'text': {
+      // An explicit lang: searches that translation only; otherwise the UI language with fallback
+      const language = query.language ?? (options.allLanguages ? 'all' : options.language);
+      const fallbackChain = query.language === null && language !== 'all'
+        ? options.fallbackChain ?? getFallbackChain(language)
+        : null;
+      const needle = clause.value.toLowerCase();
+      return [...translationsOf(task.name, language, fallbackChain), ...translationsOf(task.description, language, fallbackChain)]
+        .some(text => text.toLowerCase().includes(needle));
+    }
+    case 'status':
+      return clause.values.includes(task.status);
+    case 'priority':
+      return compare(
+        clause.comparator,
+        QUERY_PRIORITIES.indexOf(task.priority),
+        QUERY_PRIORITIES.indexOf(clause.value)
+      );
+    case 'due':
+      if (clause.date === null) return !task.due_date;
+      return !!task.due_date && compare(
+        clause.comparator,
+        toDateKey(task.due_date, options.timeZone ?? 'UTC'),
+        clause.date
+      );
+    case 'parent':
+      return (task.parent_id ?? null) === clause.parentId;
+  }
+};
+
+export const matchesTaskQuery = (task: Task, query: ParsedTaskQuery, options: TaskQueryMatchOptions): boolean =>
+  query.clauses.every(clause => matchesClause(task, clause, query, options) !== clause.negated);
+
+export const isEmptyTaskQuery = (query: ParsedTaskQuery): boolean =>
+  query.clauses.length === 0 && query.language === null;
+
+/**
+ * Translate a parsed query into API filters. The API supports a subset of the language, so the
+ * result is a superset of the matching tasks; apply matchesTaskQuery to the response for the rest.
+ */
+export const toTaskFilters = (query: ParsedTaskQuery): LocaleAwareTaskFilters => {
+  const filters: LocaleAwareTaskFilters = {};
+  const positive = query.clauses.filter(clause => !clause.negated);
+
+  const text = positive.find(clause => clause.type === 'text');
+  if (text) filters.search = text.value;
+
+  const statuses = positive.filter(clause => clause.type === 'status');
+  if (statuses.length === 1 && statuses[0].values.length === 1) {
+    filters.status = statuses[0].values[0];
+  }
+
+  const priorities = positive.filter(clause => clause.type === 'priority');
+  if (priorities.length === 1 && priorities[0].comparator === '=') {
+    filters.priority = priorities[0].value;
+  }
+
+  const parents = positive.filter(clause => clause.type === 'parent');
+  if (parents.length === 1) {
+    filters.parent_id = parents[0].parentId;
+  }
+
+  // The API compares due dates against UTC midnight; widen the range so tasks due on
+  // the boundary days in the user's timezone are still returned
+  positive.forEach(clause => {
+    if (clause.type !== 'due' || clause.date === null) return;
+
+    if (clause.comparator !== '<' && clause.comparator !== '<=') {
+      const from = addDays(clause.date, clause.comparator === '>' ? 0 : -1);
+      if (!filters.due_date_from || from > filters.due_date_from) filters.due_date_from = from;
+    }
+    if (clause.comparator !== '>' && clause.comparator !== '>=') {
+      const to = addDays(clause.date, clause.comparator === '<' ? 1 : 2);
+      if (!filters.due_date_to || to < filters.due_date_to) filters.due_date_to = to;
+    }
+  });
+
+  if (filters.due_date_from && filters.due_date_to && filters.due_date_from > filters.due_date_to) {
+    // Contradictory bounds match nothing; let the client-side pass return the empty result
+    delete filters.due_date_to;
+  }
+
+  if (query.language === 'all') {
+    filters.locale_search = false;
+  } else if (query.language) {
+    filters.locale = query.language;
+  }
+
+  return filters;
+};
@@ -0,0 +1,21 @@
+import { Task, TaskRole } from '@/types';
+
+/**
+ * Role of the current user on a task. Tasks pushed over the WebSocket carry no role:
+ * subtasks then take the role on their parent, other tasks are the user's own.
+ */
+export const getTaskRole = (task: Task, parentRole?: TaskRole): TaskRole =>
+  task.role ?? parentRole ?? 'owner';
+
+// Owners and editors change tasks; deleting and sharing are left to the owner
+export const canEditTask = (role: TaskRole): boolean => role !== 'viewer';
+
+export const canDeleteTask = (role: TaskRole): boolean => role === 'owner';
+
+/**
+ * Whether a task, or one of its subtasks in the flat task list, is assigned to the user
+ */
+export const isAssignedTo = (task: Task, tasks: Task[], userId: number): boolean =>
+  task.assignee_id === userId
+  || (task.subtasks ?? []).some(subtask => subtask.assignee_id === userId)
+  || tasks.some(other => other.parent_id === task.id && other.assignee_id === userId);
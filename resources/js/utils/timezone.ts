@@ -0,0 +1,244 @@
+import { Task } from '@/types';
+
+/**
+ * A calendar day in the user's timezone, formatted as YYYY-MM-DD
+ */
+export type DateKey = string;
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/**
+ * Fall back to UTC (the backend default) when the stored zone is unknown to the browser
+ */
+export const resolveTimeZone = (timeZone?: string | null): string => {
+  if (!timeZone) return 'UTC';
+  try {
+    getFormatter(timeZone);
+    return timeZone;
+  } catch {
+    return 'UTC';
+  }
+};
+
+// Listed where the browser cannot list its own timezones
+const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Anchorage', 'America/Chicago', 'America/Denver', 'America/Los_Angeles', 'America/Mexico_City',
+  'America/New_York', 'America/Sao_Paulo', 'America/Toronto', 'Africa/Cairo', 'Africa/Johannesburg',
+  'Africa/Lagos', 'Asia/Dubai', 'Asia/Hong_Kong', 'Asia/Jerusalem', 'Asia/Kolkata', 'Asia/Shanghai',
+  'Asia/Singapore', 'Asia/Tehran', 'Asia/Tokyo', 'Australia/Sydney', 'Europe/Berlin', 'Europe/Istanbul',
+  'Europe/London', 'Europe/Madrid', 'Europe/Moscow', 'Europe/Paris', 'Europe/Zurich', 'Pacific/Auckland'
+];
+
+/**
+ * IANA timezones the browser knows, UTC first
+ */
+export const getTimeZones = (): string[] => {
+  const { supportedValuesOf } = Intl as { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = supportedValuesOf ? supportedValuesOf('timeZone') : COMMON_TIME_ZONES;
+  return ['UTC', ...zones.filter(zone => zone !== 'UTC').sort()];
+};
+
+/**
+ * Timezones matching a search, e.g. "new york" or "berlin"; underscores count as spaces
+ */
+export const searchTimeZones = (zones: string[], query: string): string[] => {
+  const normalize = (value: string) => value.toLowerCase().replace(/_/g, ' ');
+  const terms = normalize(query).split(/\s+/).filter(Boolean);
+  return zones.filter(zone => terms.every(term => normalize(zone).includes(term)));
+};
+
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(date).forEach(({ type, value }) => {
+    if (type !== 'literal') parts[type] = Number(value);
+  });
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+};
+
+/**
+ * Whether a date is a calendar day without a time, e.g. "2026-03-29"
+ */
+export const isDateOnly = (value: string): boolean => DATE_ONLY_PATTERN.test(value);
+
+/**
+ * The day of an instant in the timezone; date-only values are already a day
+ */
+export const toDateKey = (date: Date | string, timeZone: string): DateKey => {
+  if (typeof date === 'string' && isDateOnly(date)) return date;
+  const { year, month, day } = getZonedParts(typeof date === 'string' ? new Date(date) : date, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+export const todayKey = (timeZone: string): DateKey => toDateKey(new Date(), timeZone);
+
+/**
+ * Offset of the timezone from UTC at the given instant, in milliseconds
+ */
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const { year, month, day, hour, minute, second } = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * The offset as shown next to a timezone, e.g. "UTC+05:30"
+ */
+export const formatUtcOffset = (timeZone: string, date: Date = new Date()): string => {
+  const minutes = Math.round(getTimeZoneOffset(date, timeZone) / 60000);
+  const sign = minutes < 0 ? '-' : '+';
+  return `UTC${sign}${pad(Math.floor(Math.abs(minutes) / 60))}:${pad(Math.abs(minutes) % 60)}`;
+};
+
+/**
+ * The instant at which the wall clock in the timezone shows the given day and time
+ */
+export const zonedTimeToUtc = (
+  dateKey: DateKey,
+  timeZone: string,
+  hour = 0,
+  minute = 0,
+  second = 0
+): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  // The offset at the guessed instant can differ from the one at the result around DST changes
+  const offset = getTimeZoneOffset(new Date(wallClock), timeZone);
+  const adjustedOffset = getTimeZoneOffset(new Date(wallClock - offset), timeZone);
+
+  return new Date(wallClock - adjustedOffset);
+};
+
+/**
+ * Move a due date to another day, keeping its time of day in the user's timezone.
+ * Date-only due dates stay date-only. New due dates fall at the end of the day
+ * so a task due today is not overdue yet.
+ */
+export const rescheduleDueDate = (dueDate: string | undefined, dateKey: DateKey, timeZone: string): string => {
+  if (!dueDate) {
+    return zonedTimeToUtc(dateKey, timeZone, 23, 59, 59).toISOString();
+  }
+  if (isDateOnly(dueDate)) {
+    return dateKey;
+  }
+
+  const { hour, minute, second } = getZonedParts(new Date(dueDate), timeZone);
+  return zonedTimeToUtc(dateKey, timeZone, hour, minute, second).toISOString();
+};
+
+const keyToUtcDate = (dateKey: DateKey): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const utcDateToKey = (date: Date): DateKey =>
+  `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+
+export const addDays = (dateKey: DateKey, days: number): DateKey =>
+  utcDateToKey(new Date(keyToUtcDate(dateKey).getTime() + days * DAY_MS));
+
+export const addMonths = (dateKey: DateKey, months: number): DateKey => {
+  const date = keyToUtcDate(dateKey);
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const daysInMonth = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), daysInMonth));
+  return utcDateToKey(target);
+};
+
+export const startOfMonth = (dateKey: DateKey): DateKey => `${dateKey.slice(0, 7)}-01`;
+
+export const daysInMonth = (dateKey: DateKey): number => {
+  const [year, month] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+};
+
+/**
+ * @returns 0 for Sunday through 6 for Saturday
+ */
+export const getWeekday = (dateKey: DateKey): number => keyToUtcDate(dateKey).getUTCDay();
+
+/**
+ * @param weekStartsOn 0 for Sunday, 1 for Monday
+ */
+export const startOfWeek = (dateKey: DateKey, weekStartsOn = 1): DateKey => {
+  const weekday = keyToUtcDate(dateKey).getUTCDay();
+  return addDays(dateKey, -((weekday - weekStartsOn + 7) % 7));
+};
+
+export const getDateRange = (start: DateKey, days: number): DateKey[] =>
+  Array.from({ length: days }, (_, index) => addDays(start, index));
+
+/**
+ * Whole weeks covering the month of the given day, as rows of seven days
+ */
+export const getMonthGrid = (dateKey: DateKey, weekStartsOn = 1): DateKey[][] => {
+  const first = startOfMonth(dateKey);
+  const last = addDays(addMonths(first, 1), -1);
+  const weeks: DateKey[][] = [];
+
+  for (let weekStart = startOfWeek(first, weekStartsOn); weekStart <= last; weekStart = addDays(weekStart, 7)) {
+    weeks.push(getDateRange(weekStart, 7));
+  }
+  return weeks;
+};
+
+/**
+ * Format a calendar day; the day is already in the user's timezone so it is rendered as UTC
+ */
+export const formatDateKey = (dateKey: DateKey, options: Intl.DateTimeFormatOptions, locale?: string): string =>
+  keyToUtcDate(dateKey).toLocaleDateString(locale, { ...options, timeZone: 'UTC' });
+
+export const formatTime = (date: string, timeZone: string, locale?: string): string =>
+  new Date(date).toLocaleTimeString(locale, { timeZone, hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Date-only due dates are overdue once their day has passed in the timezone
+ */
+export const isOverdue = (task: Pick<Task, 'due_date' | 'status'>, now: Date = new Date(), timeZone = 'UTC'): boolean =>
+  !!task.due_date &&
+  task.status !== 'completed' &&
+  task.status !== 'cancelled' &&
+  (isDateOnly(task.due_date)
+    ? task.due_date < toDateKey(now, timeZone)
+    : new Date(task.due_date).getTime() < now.getTime());
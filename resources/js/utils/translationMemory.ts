@@ -0,0 +1,81 @@
+import { Language, TranslatableField, TranslationMemoryEntry } from '@/types';
+
+/**
+ * Translation memory lookups over texts the user has already translated.
+ * A source text seen before is reused as is; otherwise the translation of the
+ * most similar source text is offered when enough of its words are shared.
+ */
+
+export interface TranslationMatch {
+  text: string;
+  // Source text of the memory entry the translation comes from
+  sourceText: string;
+  // 1 for an exact match, otherwise the share of words in common
+  score: number;
+}
+
+// Fuzzy matches below this score are too different to be worth reviewing
+export const MIN_MATCH_SCORE = 0.6;
+
+const normalize = (text: string): string =>
+  text.normalize('NFKC').toLocaleLowerCase().replace(/\s+/g, ' ').trim();
+
+const tokenize = (text: string): string[] =>
+  normalize(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+/**
+ * Dice coefficient of the words of two texts, from 0 (nothing shared) to 1
+ */
+export const similarity = (a: string, b: string): number => {
+  const wordsA = tokenize(a);
+  const wordsB = tokenize(b);
+  if (wordsA.length === 0 || wordsB.length === 0) return 0;
+
+  const remaining = new Map<string, number>();
+  wordsA.forEach(word => remaining.set(word, (remaining.get(word) ?? 0) + 1));
+
+  let shared = 0;
+  wordsB.forEach(word => {
+    const count = remaining.get(word) ?? 0;
+    if (count > 0) {
+      shared++;
+      remaining.set(word, count - 1);
+    }
+  });
+
+  return (2 * shared) / (wordsA.length + wordsB.length);
+};
+
+/**
+ * Best translation of a text into the target language, preferring entries of the same field
+ */
+export const findTranslation = (
+  entries: TranslationMemoryEntry[],
+  field: TranslatableField,
+  text: string,
+  sourceLang: Language,
+  targetLang: Language
+): TranslationMatch | null => {
+  const source = normalize(text);
+  if (!source) return null;
+
+  let best: TranslationMatch | null = null;
+  let bestSameField = false;
+
+  for (const entry of entries) {
+    const sourceText = entry.translations[sourceLang]?.trim();
+    const translated = entry.translations[targetLang]?.trim();
+    if (!sourceText || !translated) continue;
+
+    const score = normalize(sourceText) === source ? 1 : similarity(sourceText, text);
+    const sameField = entry.field === field;
+    if (score < MIN_MATCH_SCORE) continue;
+
+    if (!best || score > best.score || (score === best.score && sameField && !bestSameField)) {
+      best = { text: translated, sourceText, score };
+      bestSameField = sameField;
+    }
+  }
+
+  return best;
+};
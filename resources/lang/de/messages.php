@@ -104,6 +104,30 @@
 
 Falls dies versehentlich geschehen ist, wenden Sie sich bitte an den Support.
 
+Mit freundlichen Grüßen,
+Aufgabenverwaltungs-Team',
+        ],
+        'task_unblocked' => [
+            'subject' => 'Aufgabe startklar: :task_name',
+            'content' => 'Hallo :user_name,
+
+":blocker_name" wurde abgeschlossen, daher ist Ihre Aufgabe ":task_name" nicht mehr blockiert.
+
+Sie können jetzt damit beginnen: :task_url
+
+Mit freundlichen Grüßen,
+Aufgabenverwaltungs-Team',
+        ],
+        'task_mentioned' => [
+            'subject' => ':author_name hat Sie in :task_name erwähnt',
+            'content' => 'Hallo :user_name,
+
+:author_name hat Sie in einem Kommentar zu ":task_name" erwähnt:
+
+:comment
+
+Auf die Aufgabe antworten: :task_url
+
 Mit freundlichen Grüßen,
 Aufgabenverwaltungs-Team',
         ],
@@ -104,6 +104,30 @@
 
 If this was done in error, please contact support.
 
+Best regards,
+Task Management Team',
+        ],
+        'task_unblocked' => [
+            'subject' => 'Task Ready to Start: :task_name',
+            'content' => 'Hello :user_name,
+
+":blocker_name" has been finished, so your task ":task_name" is no longer blocked.
+
+You can start working on it now: :task_url
+
+Best regards,
+Task Management Team',
+        ],
+        'task_mentioned' => [
+            'subject' => ':author_name mentioned you on :task_name',
+            'content' => 'Hello :user_name,
+
+:author_name mentioned you in a comment on ":task_name":
+
+:comment
+
+Reply on the task: :task_url
+
 Best regards,
 Task Management Team',
         ],
@@ -104,6 +104,30 @@
 
 Si cela a été fait par erreur, veuillez contacter le support.
 
+Cordialement,
+Équipe de gestion des tâches',
+        ],
+        'task_unblocked' => [
+            'subject' => 'Tâche prête à démarrer : :task_name',
+            'content' => 'Bonjour :user_name,
+
+":blocker_name" est terminée, votre tâche ":task_name" n\'est donc plus bloquée.
+
+Vous pouvez commencer à y travailler : :task_url
+
+Cordialement,
+Équipe de gestion des tâches',
+        ],
+        'task_mentioned' => [
+            'subject' => ':author_name vous a mentionné dans :task_name',
+            'content' => 'Bonjour :user_name,
+
+:author_name vous a mentionné dans un commentaire sur ":task_name" :
+
+:comment
+
+Répondre sur la tâche : :task_url
+
 Cordialement,
 Équipe de gestion des tâches',
         ],
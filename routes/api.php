@@ -54,13 +54,18 @@
     Route::delete('/locale/performance-metrics', [App\Http\Controllers\LocaleController::class, 'clearMetrics']);
     
     // Task management routes
+    // Static /tasks/* routes go before the resource so they are not taken for a task id
+    Route::put('/tasks/reorder', [App\Http\Controllers\TaskController::class, 'reorder']);
+    Route::patch('/tasks/bulk', [App\Http\Controllers\TaskController::class, 'bulkUpdate']);
+    Route::get('/tasks/translation-report', [App\Http\Controllers\TaskController::class, 'translationReport']);
+    Route::get('/tasks/translation-memory', [App\Http\Controllers\TaskController::class, 'translationMemory']);
+    Route::get('/tasks/statistics', [App\Http\Controllers\TaskController::class, 'statistics']);
     Route::apiResource('tasks', App\Http\Controllers\TaskController::class);
     Route::post('/tasks/{id}/restore', [App\Http\Controllers\TaskController::class, 'restore']);
     
     // Task translation routes
     Route::get('/tasks/{id}/translations', [App\Http\Controllers\TaskController::class, 'translations']);
     Route::put('/tasks/{id}/translations', [App\Http\Controllers\TaskController::class, 'updateTranslations']);
-    Route::get('/tasks/translation-report', [App\Http\Controllers\TaskController::class, 'translationReport']);
     
     // Subtask management routes
     Route::get('/tasks/{id}/subtasks', [App\Http\Controllers\TaskController::class, 'subtasks']);
@@ -68,4 +73,55 @@
     Route::put('/tasks/{parentId}/subtasks/reorder', [App\Http\Controllers\TaskController::class, 'reorderSubtasks']);
     Route::put('/subtasks/{subtaskId}/move', [App\Http\Controllers\TaskController::class, 'moveSubtask']);
     Route::post('/tasks/{parentId}/subtasks/bulk', [App\Http\Controllers\TaskController::class, 'bulkSubtaskOperations']);
+
+    // Task comment routes
+    Route::get('/tasks/{taskId}/comments', [App\Http\Controllers\TaskCommentController::class, 'index']);
+    Route::post('/tasks/{taskId}/comments', [App\Http\Controllers\TaskCommentController::class, 'store'])->middleware('throttle:30,1');
+    Route::put('/tasks/{taskId}/comments/{commentId}', [App\Http\Controllers\TaskCommentController::class, 'update']);
+    Route::delete('/tasks/{taskId}/comments/{commentId}', [App\Http\Controllers\TaskCommentController::class, 'destroy']);
+    Route::get('/tasks/{taskId}/mentionable-users', [App\Http\Controllers\TaskCommentController::class, 'mentionableUsers']);
+
+    // Task activity history
+    Route::get('/tasks/{taskId}/activity', [App\Http\Controllers\TaskActivityController::class, 'index']);
+
+    // Task sharing, set on top-level tasks and inherited by their subtasks
+    Route::get('/tasks/{taskId}/shares', [App\Http\Controllers\TaskShareController::class, 'index']);
+    Route::post('/tasks/{taskId}/shares', [App\Http\Controllers\TaskShareController::class, 'store'])->middleware('throttle:30,1');
+    Route::put('/tasks/{taskId}/shares/{shareId}', [App\Http\Controllers\TaskShareController::class, 'update']);
+    Route::delete('/tasks/{taskId}/shares/{shareId}', [App\Http\Controllers\TaskShareController::class, 'destroy']);
+
+    // Projects group tasks and number them, e.g. WEB-42
+    Route::get('/projects', [App\Http\Controllers\ProjectController::class, 'index']);
+    Route::post('/projects', [App\Http\Controllers\ProjectController::class, 'store']);
+    Route::put('/projects/{id}', [App\Http\Controllers\ProjectController::class, 'update']);
+    Route::delete('/projects/{id}', [App\Http\Controllers\ProjectController::class, 'destroy']);
+
+    // Labels, colored tags the owner of a task can put on it
+    Route::get('/labels', [App\Http\Controllers\LabelController::class, 'index']);
+    Route::post('/labels', [App\Http\Controllers\LabelController::class, 'store']);
+    Route::put('/labels/{id}', [App\Http\Controllers\LabelController::class, 'update']);
+    Route::delete('/labels/{id}', [App\Http\Controllers\LabelController::class, 'destroy']);
+
+    // Saved task list views
+    Route::get('/saved-views', [App\Http\Controllers\SavedViewController::class, 'index']);
+    Route::post('/saved-views', [App\Http\Controllers\SavedViewController::class, 'store']);
+    Route::delete('/saved-views/{id}', [App\Http\Controllers\SavedViewController::class, 'destroy']);
+
+    // Account settings, each section of the settings page saves on its own
+    Route::put('/settings/profile', [App\Http\Controllers\SettingsController::class, 'updateProfile']);
+    Route::put('/settings/password', [App\Http\Controllers\SettingsController::class, 'updatePassword']);
+    Route::put('/settings/preferences', [App\Http\Controllers\SettingsController::class, 'updatePreferences']);
+
+    // Active sessions and API tokens
+    Route::get('/sessions', [App\Http\Controllers\SessionController::class, 'index']);
+    Route::delete('/sessions/others', [App\Http\Controllers\SessionController::class, 'destroyOthers']);
+    Route::delete('/sessions/{id}', [App\Http\Controllers\SessionController::class, 'destroy']);
+    Route::delete('/tokens/{id}', [App\Http\Controllers\SessionController::class, 'destroyToken']);
+
+    // Two-factor authentication setup
+    Route::get('/two-factor', [App\Http\Controllers\TwoFactorController::class, 'show']);
+    Route::post('/two-factor', [App\Http\Controllers\TwoFactorController::class, 'enable']);
+    Route::post('/two-factor/confirm', [App\Http\Controllers\TwoFactorController::class, 'confirm'])->middleware('throttle:6,1');
+    Route::post('/two-factor/recovery-codes', [App\Http\Controllers\TwoFactorController::class, 'regenerateRecoveryCodes']);
+    Route::delete('/two-factor', [App\Http\Controllers\TwoFactorController::class, 'disable']);
 });
\ No newline at end of file
@@ -29,16 +29,24 @@
 Route::prefix('auth')->middleware('auth.rate_limit')->group(function () {
     Route::post('/register', [AuthController::class, 'register'])->name('auth.register');
     Route::post('/login', [AuthController::class, 'login'])->name('auth.login');
-    
-    Route::post('/forgot-password', function (Request $request) {
-        // Placeholder for password reset logic - to be implemented in future task
-        return response()->json(['message' => 'Password reset endpoint - to be implemented']);
-    })->name('auth.forgot-password');
+    Route::post('/two-factor-challenge', [AuthController::class, 'twoFactorChallenge'])->name('auth.two-factor-challenge');
+    Route::post('/forgot-password', [AuthController::class, 'forgotPassword'])->name('auth.forgot-password');
+    Route::post('/reset-password', [AuthController::class, 'resetPassword'])->name('auth.reset-password');
 });
 
+// Email verification link from the verification email. Laravel's notification
+// builds the link from the verification.verify route name.
+Route::get('/auth/email/verify/{id}/{hash}', [AuthController::class, 'verifyEmail'])
+    ->middleware(['signed', 'throttle:6,1'])
+    ->name('verification.verify');
+
 // Protected authentication routes (require authentication)
 Route::middleware('auth:sanctum')->prefix('auth')->group(function () {
     Route::post('/logout', [AuthController::class, 'logout'])->name('auth.logout');
     Route::post('/logout-all', [AuthController::class, 'logoutAll'])->name('auth.logout-all');
     Route::get('/me', [AuthController::class, 'me'])->name('auth.me');
+    Route::post('/websocket-token', [AuthController::class, 'websocketToken'])->name('auth.websocket-token');
+    Route::post('/email/verification-notification', [AuthController::class, 'sendVerificationEmail'])
+        ->middleware('throttle:6,1')
+        ->name('auth.verification.send');
 });
\ No newline at end of file
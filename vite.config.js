@@ -2,6 +2,32 @@ import { defineConfig } from "vite";
 import laravel from "laravel-vite-plugin";
 import react from "@vitejs/plugin-react";
 import tailwindcss from "@tailwindcss/vite";
+import { readdirSync, readFileSync } from "node:fs";
+
+// Fails the build when a UI message catalog lacks a message of the English one
+function messageCatalogCheck(directory = "resources/js/i18n/locales") {
+    return {
+        name: "message-catalog-check",
+        apply: "build",
+        buildStart() {
+            const read = (file) => JSON.parse(readFileSync(`${directory}/${file}`, "utf8"));
+            const sourceKeys = Object.keys(read("en.json"));
+            const problems = readdirSync(directory)
+                .filter((file) => file.endsWith(".json") && file !== "en.json")
+                .flatMap((file) => {
+                    const catalog = read(file);
+                    const missing = sourceKeys.filter(
+                        (key) => typeof catalog[key] !== "string" || catalog[key].trim() === ""
+                    );
+                    return missing.length > 0 ? [`${file} is missing: ${missing.join(", ")}`] : [];
+                });
+
+            if (problems.length > 0) {
+                this.error(`Incomplete message catalogs:\n${problems.join("\n")}`);
+            }
+        },
+    };
+}
 
 export default defineConfig({
     plugins: [
@@ -11,6 +37,7 @@ export default defineConfig({
         }),
         react(),
         tailwindcss(),
+        messageCatalogCheck(),
     ],
     resolve: {
         alias: {